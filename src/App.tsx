@@ -6,6 +6,7 @@ import { AuthEventHandler } from './components/auth/AuthEventHandler';
 import { ErrorBoundary } from './components/ui/ErrorBoundary';
 import { NetworkStatus } from './components/ui/NetworkStatus';
 import { EnvironmentDebug } from './components/debug/EnvironmentDebug';
+import { TrafficRecorder } from './components/debug/TrafficRecorder';
 import { msalInstance } from './config/msalConfig';
 import { router } from './routes';
 // import { PublishersPage } from './pages/PublishersPage'; // Unused
@@ -21,16 +22,19 @@ function App(): React.JSX.Element {
         <AuthProvider>
           {/* Authentication Event Handler */}
           <AuthEventHandler />
-          
+
           <div className="min-h-screen bg-gray-50">
             {/* Network Status Indicator */}
             <NetworkStatus />
-            
+
             {/* Main Application Router */}
             <RouterProvider router={router} />
-            
+
             {/* Development Environment Debug Panel */}
             <EnvironmentDebug />
+
+            {/* ARM Traffic Record and Replay */}
+            <TrafficRecorder />
           </div>
         </AuthProvider>
       </MsalProvider>
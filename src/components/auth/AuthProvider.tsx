@@ -1,10 +1,14 @@
 import React from 'react';
 import { MsalProvider } from '@azure/msal-react';
 import { PublicClientApplication } from '@azure/msal-browser';
+import type { IPublicClientApplication } from '@azure/msal-browser';
 import { msalConfig } from '../../config/msalConfig';
+import { createDemoMsalInstance, isDemoMode } from '../../config/demoMode';
 
-// Create MSAL instance
-const msalInstance = new PublicClientApplication(msalConfig);
+// Create MSAL instance; the offline demo mode signs in without MSAL
+const msalInstance: IPublicClientApplication = isDemoMode
+  ? createDemoMsalInstance()
+  : new PublicClientApplication(msalConfig);
 
 interface AuthProviderProps {
   children: React.ReactNode;
@@ -15,11 +19,7 @@ interface AuthProviderProps {
  * Provides authentication state and methods to all child components
  */
 export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
-  return (
-    <MsalProvider instance={msalInstance}>
-      {children}
-    </MsalProvider>
-  );
+  return <MsalProvider instance={msalInstance}>{children}</MsalProvider>;
 };
 
-export { msalInstance };
\ No newline at end of file
+export { msalInstance };
@@ -0,0 +1,157 @@
+import React, { useState } from 'react';
+import {
+  CLOUD_ENVIRONMENTS,
+  activeCloud,
+  createCustomCloud,
+  discoverCustomCloud,
+  isValidCloud,
+  saveCloudEnvironment,
+} from '../../config/cloudEnvironment';
+import type {
+  CloudEnvironment,
+  CloudName,
+} from '../../config/cloudEnvironment';
+
+interface CloudSelectorProps {
+  className?: string;
+}
+
+const CLOUD_OPTIONS: { value: CloudName; label: string }[] = [
+  ...Object.values(CLOUD_ENVIRONMENTS).map((cloud) => ({
+    value: cloud.name,
+    label: cloud.displayName,
+  })),
+  { value: 'Custom', label: 'Custom (Azure Stack Hub)' },
+];
+
+const inputClass =
+  'w-full px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500';
+
+/**
+ * CloudSelector component for choosing the Azure cloud to sign in to
+ * Switching clouds reloads the app, since MSAL and the services read the cloud on startup
+ */
+export const CloudSelector: React.FC<CloudSelectorProps> = ({
+  className = '',
+}) => {
+  const isCustom = activeCloud.name === 'Custom';
+  const [cloudName, setCloudName] = useState<CloudName>(activeCloud.name);
+  const [armEndpoint, setArmEndpoint] = useState(
+    isCustom ? activeCloud.armEndpoint : ''
+  );
+  const [authorityHost, setAuthorityHost] = useState(
+    isCustom ? activeCloud.authorityHost : ''
+  );
+  const [armAudience, setArmAudience] = useState(
+    isCustom ? activeCloud.armAudience : ''
+  );
+  const [discovering, setDiscovering] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const selectedCloud: CloudEnvironment =
+    cloudName === 'Custom'
+      ? createCustomCloud(armEndpoint, authorityHost, armAudience)
+      : CLOUD_ENVIRONMENTS[cloudName];
+
+  const isUnchanged =
+    selectedCloud.name === activeCloud.name &&
+    selectedCloud.armEndpoint === activeCloud.armEndpoint &&
+    selectedCloud.authorityHost === activeCloud.authorityHost &&
+    selectedCloud.armAudience === activeCloud.armAudience;
+
+  const handleDiscover = async () => {
+    setDiscovering(true);
+    setError(null);
+    try {
+      const discovered = await discoverCustomCloud(armEndpoint);
+      setAuthorityHost(discovered.authorityHost);
+      setArmAudience(discovered.armAudience);
+    } catch (discoverError) {
+      setError(
+        discoverError instanceof Error
+          ? discoverError.message
+          : 'Could not read ARM metadata'
+      );
+    } finally {
+      setDiscovering(false);
+    }
+  };
+
+  const handleApply = () => {
+    saveCloudEnvironment(selectedCloud);
+    window.location.reload();
+  };
+
+  return (
+    <div className={`space-y-2 ${className}`}>
+      <label
+        htmlFor="cloud-select"
+        className="block text-sm font-medium text-gray-700"
+      >
+        Azure cloud
+      </label>
+      <select
+        id="cloud-select"
+        value={cloudName}
+        onChange={(e) => setCloudName(e.target.value as CloudName)}
+        className={inputClass}
+      >
+        {CLOUD_OPTIONS.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+
+      {cloudName === 'Custom' && (
+        <div className="space-y-2">
+          <div className="flex gap-2">
+            <input
+              type="url"
+              aria-label="ARM endpoint"
+              placeholder="https://management.local.azurestack.external"
+              value={armEndpoint}
+              onChange={(e) => setArmEndpoint(e.target.value)}
+              className={inputClass}
+            />
+            <button
+              type="button"
+              onClick={handleDiscover}
+              disabled={!armEndpoint || discovering}
+              className="px-3 py-2 text-sm text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50 disabled:text-gray-400 disabled:border-gray-200 whitespace-nowrap"
+            >
+              {discovering ? 'Detecting...' : 'Detect'}
+            </button>
+          </div>
+          <input
+            type="url"
+            aria-label="Authority host"
+            placeholder="https://login.microsoftonline.com or https://adfs.local.azurestack.external/adfs"
+            value={authorityHost}
+            onChange={(e) => setAuthorityHost(e.target.value)}
+            className={inputClass}
+          />
+          <input
+            type="url"
+            aria-label="Token audience"
+            placeholder="https://management.contoso.onmicrosoft.com/00000000-0000-0000-0000-000000000000"
+            value={armAudience}
+            onChange={(e) => setArmAudience(e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <button
+        type="button"
+        onClick={handleApply}
+        disabled={isUnchanged || !isValidCloud(selectedCloud)}
+        className="w-full px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+      >
+        Switch cloud
+      </button>
+    </div>
+  );
+};
@@ -1,6 +1,7 @@
 import React from 'react';
 import { useIsAuthenticated } from '@azure/msal-react';
 import { LoginButton } from './LoginButton';
+import { CloudSelector } from './CloudSelector';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
@@ -11,9 +12,9 @@ interface ProtectedRouteProps {
  * ProtectedRoute component that guards routes requiring authentication
  * Renders children if authenticated, otherwise shows login interface
  */
-export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({ 
-  children, 
-  fallback 
+export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
+  children,
+  fallback,
 }) => {
   const isAuthenticated = useIsAuthenticated();
 
@@ -32,10 +33,11 @@ export const ProtectedRoute: React.FC<ProtectedRouteProps> = ({
           <div className="flex justify-center">
             {fallback || <LoginButton className="w-full" />}
           </div>
+          {!fallback && <CloudSelector />}
         </div>
       </div>
     );
   }
 
   return <>{children}</>;
-};
\ No newline at end of file
+};
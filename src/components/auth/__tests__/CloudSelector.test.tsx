@@ -0,0 +1,117 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { CloudSelector } from '../CloudSelector';
+
+const mockReload = vi.fn();
+
+describe('CloudSelector', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    localStorage.clear();
+    vi.stubGlobal('location', { ...window.location, reload: mockReload });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should preselect the active cloud', () => {
+    render(<CloudSelector />);
+
+    expect(screen.getByLabelText('Azure cloud')).toHaveValue('AzureCloud');
+    expect(screen.getByRole('button', { name: 'Switch cloud' })).toBeDisabled();
+  });
+
+  it('should save the selected cloud and reload', () => {
+    render(<CloudSelector />);
+
+    fireEvent.change(screen.getByLabelText('Azure cloud'), {
+      target: { value: 'AzureUSGovernment' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Switch cloud' }));
+
+    expect(
+      JSON.parse(localStorage.getItem('vmib-cloud-environment') || '{}')
+    ).toMatchObject({
+      name: 'AzureUSGovernment',
+      armEndpoint: 'https://management.usgovcloudapi.net',
+    });
+    expect(mockReload).toHaveBeenCalled();
+  });
+
+  it('should require valid endpoints for a custom cloud', () => {
+    render(<CloudSelector />);
+
+    fireEvent.change(screen.getByLabelText('Azure cloud'), {
+      target: { value: 'Custom' },
+    });
+    expect(screen.getByRole('button', { name: 'Switch cloud' })).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('ARM endpoint'), {
+      target: { value: 'https://management.local.azurestack.external' },
+    });
+    fireEvent.change(screen.getByLabelText('Authority host'), {
+      target: { value: 'https://login.microsoftonline.com' },
+    });
+    fireEvent.change(screen.getByLabelText('Token audience'), {
+      target: { value: 'https://management.contoso.onmicrosoft.com/app-id' },
+    });
+
+    expect(screen.getByRole('button', { name: 'Switch cloud' })).toBeEnabled();
+  });
+
+  it('should detect the custom cloud endpoints from ARM metadata', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          authentication: {
+            loginEndpoint: 'https://login.microsoftonline.com/',
+            audiences: ['https://management.contoso.onmicrosoft.com/app-id'],
+          },
+        }),
+      })
+    );
+
+    render(<CloudSelector />);
+    fireEvent.change(screen.getByLabelText('Azure cloud'), {
+      target: { value: 'Custom' },
+    });
+    fireEvent.change(screen.getByLabelText('ARM endpoint'), {
+      target: { value: 'https://management.local.azurestack.external' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Detect' }));
+
+    await waitFor(() =>
+      expect(screen.getByLabelText('Token audience')).toHaveValue(
+        'https://management.contoso.onmicrosoft.com/app-id'
+      )
+    );
+    expect(screen.getByLabelText('Authority host')).toHaveValue(
+      'https://login.microsoftonline.com'
+    );
+  });
+
+  it('should show metadata errors', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue({ ok: false, status: 404 })
+    );
+
+    render(<CloudSelector />);
+    fireEvent.change(screen.getByLabelText('Azure cloud'), {
+      target: { value: 'Custom' },
+    });
+    fireEvent.change(screen.getByLabelText('ARM endpoint'), {
+      target: { value: 'https://arm.example.com' },
+    });
+    fireEvent.click(screen.getByRole('button', { name: 'Detect' }));
+
+    expect(
+      await screen.findByText(
+        'Could not read ARM metadata from https://arm.example.com (404)'
+      )
+    ).toBeInTheDocument();
+  });
+});
@@ -2,4 +2,5 @@ export { AuthProvider } from './AuthProvider';
 export { AuthEventHandler } from './AuthEventHandler';
 export { LoginButton } from './LoginButton';
 export { LogoutButton } from './LogoutButton';
-export { ProtectedRoute } from './ProtectedRoute';
\ No newline at end of file
+export { ProtectedRoute } from './ProtectedRoute';
+export { CloudSelector } from './CloudSelector';
@@ -0,0 +1,46 @@
+import React from 'react';
+import {
+  formatDeprecationDate,
+  hasDeprecationNotice,
+} from '../../utils/imageDeprecation';
+import type { ImageDeprecationStatus } from '../../types';
+
+interface DeprecationBadgeProps {
+  status: ImageDeprecationStatus | null | undefined;
+  className?: string;
+}
+
+/**
+ * DeprecationBadge flags image versions that are deprecated or scheduled for
+ * deprecation. Renders nothing for active images.
+ */
+export const DeprecationBadge: React.FC<DeprecationBadgeProps> = ({
+  status,
+  className = '',
+}) => {
+  if (!hasDeprecationNotice(status)) {
+    return null;
+  }
+
+  const isDeprecated = status.imageState === 'Deprecated';
+  const date = formatDeprecationDate(status.scheduledDeprecationTime);
+
+  return (
+    <span
+      className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${
+        isDeprecated
+          ? 'bg-red-100 text-red-800'
+          : 'bg-orange-100 text-orange-800'
+      } ${className}`}
+      title={
+        isDeprecated
+          ? `Deprecated since ${date}`
+          : `Scheduled for deprecation on ${date}`
+      }
+    >
+      {isDeprecated ? 'Deprecated' : 'Deprecation scheduled'}
+    </span>
+  );
+};
+
+export default DeprecationBadge;
@@ -0,0 +1,192 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { DeprecationBadge } from './DeprecationBadge';
+import {
+  formatDeprecationDate,
+  getAlternativeImagePath,
+  getDaysUntilDeprecation,
+  hasDeprecationNotice,
+} from '../../utils/imageDeprecation';
+import type { WatchedImage } from '../../stores/imageWatchStore';
+
+interface DeprecationCalendarProps {
+  images: Record<string, WatchedImage>;
+  onRemove?: (key: string) => void;
+  now?: Date;
+  className?: string;
+}
+
+interface CalendarGroup {
+  label: string;
+  entries: [string, WatchedImage][];
+}
+
+const UNSCHEDULED_GROUP = 'No date published';
+const PAST_GROUP = 'Already deprecated';
+
+/**
+ * Label of the calendar group an image falls into: past deprecations first,
+ * then one group per month of the scheduled deprecation time
+ */
+const getGroupLabel = (image: WatchedImage, now: Date): string => {
+  const status = image.deprecationStatus!;
+  const days = getDaysUntilDeprecation(status, now);
+
+  if (days === null) {
+    return status.imageState === 'Deprecated' ? PAST_GROUP : UNSCHEDULED_GROUP;
+  }
+  if (days <= 0 || status.imageState === 'Deprecated') {
+    return PAST_GROUP;
+  }
+
+  return new Date(status.scheduledDeprecationTime!).toLocaleDateString(
+    'en-US',
+    { year: 'numeric', month: 'long', timeZone: 'UTC' }
+  );
+};
+
+const describeDays = (days: number | null): string | null => {
+  if (days === null) return null;
+  if (days > 1) return `in ${days} days`;
+  if (days === 1) return 'tomorrow';
+  if (days === 0) return 'today';
+  return `${-days} day${days === -1 ? '' : 's'} ago`;
+};
+
+/**
+ * DeprecationCalendar lists the upcoming and past deprecations of the images
+ * the user browsed or saved, grouped by month, with the alternative Azure
+ * suggests for each
+ */
+export const DeprecationCalendar: React.FC<DeprecationCalendarProps> = ({
+  images,
+  onRemove,
+  now = new Date(),
+  className = '',
+}) => {
+  const [savedOnly, setSavedOnly] = useState(false);
+
+  const groups = useMemo((): CalendarGroup[] => {
+    const entries = Object.entries(images)
+      .filter(([, image]) => hasDeprecationNotice(image.deprecationStatus))
+      .filter(([, image]) => !savedOnly || image.saved)
+      .sort(([, a], [, b]) => {
+        const aTime = a.deprecationStatus?.scheduledDeprecationTime ?? '9999';
+        const bTime = b.deprecationStatus?.scheduledDeprecationTime ?? '9999';
+        return aTime.localeCompare(bTime);
+      });
+
+    const byLabel = new Map<string, [string, WatchedImage][]>();
+    entries.forEach((entry) => {
+      const label = getGroupLabel(entry[1], now);
+      byLabel.set(label, [...(byLabel.get(label) ?? []), entry]);
+    });
+
+    // Past deprecations lead, images without a date trail
+    return [...byLabel.entries()]
+      .sort(([a], [b]) => {
+        if (a === PAST_GROUP || b === UNSCHEDULED_GROUP) return -1;
+        if (b === PAST_GROUP || a === UNSCHEDULED_GROUP) return 1;
+        return 0;
+      })
+      .map(([label, groupEntries]) => ({ label, entries: groupEntries }));
+  }, [images, savedOnly, now]);
+
+  return (
+    <div className={className} data-testid="deprecation-calendar">
+      <label className="flex items-center gap-2 text-sm text-gray-600 mb-4">
+        <input
+          type="checkbox"
+          checked={savedOnly}
+          onChange={(event) => setSavedOnly(event.target.checked)}
+          className="rounded border-gray-300"
+        />
+        Saved images only
+      </label>
+
+      {groups.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            No upcoming deprecations
+          </h3>
+          <p className="text-sm text-gray-600">
+            None of the images you browsed or saved are scheduled for
+            deprecation.
+          </p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          {groups.map((group) => (
+            <section key={group.label}>
+              <h3 className="text-sm font-semibold text-gray-700 uppercase tracking-wide mb-2">
+                {group.label}
+              </h3>
+              <ul className="divide-y divide-gray-200 bg-white border border-gray-200 rounded-lg">
+                {group.entries.map(([key, image]) => {
+                  const status = image.deprecationStatus!;
+                  const days = describeDays(
+                    getDaysUntilDeprecation(status, now)
+                  );
+                  const alternative = status.alternativeOption;
+
+                  return (
+                    <li
+                      key={key}
+                      className="p-4 flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3"
+                    >
+                      <div className="min-w-0">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <Link
+                            to={`/publishers/${encodeURIComponent(image.publisher)}/offers/${encodeURIComponent(image.offer)}/skus`}
+                            className="font-mono text-sm text-gray-900 hover:text-blue-700 hover:underline break-all"
+                          >
+                            {image.publisher}:{image.offer}:{image.sku}
+                          </Link>
+                          <DeprecationBadge status={status} />
+                          {image.saved && (
+                            <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                              Saved
+                            </span>
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-600 mt-1">
+                          {formatDeprecationDate(
+                            status.scheduledDeprecationTime
+                          )}
+                          {days && ` (${days})`}
+                        </p>
+                        {alternative && (
+                          <p className="text-xs text-gray-600 mt-1">
+                            Suggested alternative:{' '}
+                            <Link
+                              to={getAlternativeImagePath(image, alternative)}
+                              className="text-blue-700 hover:underline"
+                            >
+                              {alternative.type === 'Offer' ? 'offer' : 'SKU'}{' '}
+                              {alternative.value}
+                            </Link>
+                          </p>
+                        )}
+                      </div>
+                      {onRemove && (
+                        <button
+                          onClick={() => onRemove(key)}
+                          className="self-start sm:self-center px-3 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                          aria-label={`Remove ${image.sku} from the calendar`}
+                        >
+                          Remove
+                        </button>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </section>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DeprecationCalendar;
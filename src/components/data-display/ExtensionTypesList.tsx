@@ -0,0 +1,159 @@
+import React, { useCallback } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useExtensionStore } from '../../stores/extensionStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { VMExtensionType } from '../../types';
+
+interface ExtensionTypesListProps {
+  className?: string;
+}
+
+const matchesType = (type: VMExtensionType, query: string): boolean =>
+  type.name.toLowerCase().includes(query);
+
+export const ExtensionTypesList: React.FC<ExtensionTypesListProps> = ({
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const { publisherName } = useParams<{ publisherName: string }>();
+  const extensionTypes = useExtensionStore((state) => state.extensionTypes);
+  const loading = useExtensionStore((state) => state.loading);
+  const error = useExtensionStore((state) => state.error);
+  const loadedFor = useExtensionStore((state) => state.loadedTypes);
+
+  const decodedPublisher = publisherName
+    ? decodeURIComponent(publisherName)
+    : '';
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(extensionTypes, matchesType, 24);
+
+  const handleTypeClick = useCallback(
+    (type: VMExtensionType) => {
+      navigate(
+        `/publishers/${encodeURIComponent(type.publisher)}/extensions/${encodeURIComponent(type.name)}/versions`
+      );
+    },
+    [navigate]
+  );
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load VM extensions"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton
+              to={`/publishers/${encodeURIComponent(decodedPublisher)}/offers`}
+              label="Back to Offers"
+            />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            VM Extensions by {decodedPublisher}
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">
+            Select an extension type to look up its versions and
+            typeHandlerVersion
+          </p>
+        </div>
+
+        {loadedFor && extensionTypes.length > 0 && (
+          <SearchFilter
+            placeholder="Search extension types..."
+            value={searchQuery}
+            onSearch={setSearchQuery}
+            className="max-w-md"
+          />
+        )}
+
+        {loadedFor && extensionTypes.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No VM Extensions Found
+            </h3>
+            <p className="text-gray-600">
+              This publisher does not offer VM extensions in{' '}
+              {loadedFor.location}.
+            </p>
+          </div>
+        )}
+
+        {extensionTypes.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No extension types match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <ResponsiveGrid cols={{ xs: 1, sm: 2, md: 2, lg: 3, xl: 4 }} gap="md">
+          {pageItems.map((type) => (
+            <HoverTransition key={type.name} hoverScale hoverShadow hoverBorder>
+              <Card
+                variant="default"
+                padding="md"
+                clickable
+                onClick={() => handleTypeClick(type)}
+                className="h-full"
+              >
+                <Stack direction="vertical" spacing="sm" className="h-full">
+                  <h3 className="flex-1 text-base font-semibold text-gray-900 break-all">
+                    {type.name}
+                  </h3>
+                  <div className="pt-3 border-t border-gray-100 text-blue-600 text-xs sm:text-sm font-medium">
+                    View Versions
+                  </div>
+                </Stack>
+              </Card>
+            </HoverTransition>
+          ))}
+        </ResponsiveGrid>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
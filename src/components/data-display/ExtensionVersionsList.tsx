@@ -0,0 +1,174 @@
+import React from 'react';
+import { useParams } from 'react-router-dom';
+import { useExtensionStore } from '../../stores/extensionStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import {
+  generateAllExtensionFormats,
+  validateExtensionReference,
+  EXTENSION_FORMATS,
+} from '../../utils/extensionFormats';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { SnippetCopyButton } from '../ui/CopyButton';
+import { Stack } from '../layout';
+import type { VMExtensionReference, VMExtensionVersion } from '../../types';
+
+interface ExtensionVersionsListProps {
+  className?: string;
+}
+
+const matchesVersion = (version: VMExtensionVersion, query: string): boolean =>
+  version.name.toLowerCase().includes(query);
+
+export const ExtensionVersionsList: React.FC<ExtensionVersionsListProps> = ({
+  className = '',
+}) => {
+  const { publisherName, typeName } = useParams<{
+    publisherName: string;
+    typeName: string;
+  }>();
+  const extensionVersions = useExtensionStore(
+    (state) => state.extensionVersions
+  );
+  const loading = useExtensionStore((state) => state.loading);
+  const error = useExtensionStore((state) => state.error);
+  const loadedFor = useExtensionStore((state) => state.loadedVersions);
+
+  const decodedPublisher = publisherName
+    ? decodeURIComponent(publisherName)
+    : '';
+  const decodedType = typeName ? decodeURIComponent(typeName) : '';
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(extensionVersions, matchesVersion, 15);
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load extension versions"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton
+              to={`/publishers/${encodeURIComponent(decodedPublisher)}/extensions`}
+              label="Back to Extensions"
+            />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900 break-all">
+            Versions of {decodedType}
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-1">
+            <span className="font-medium">Publisher:</span> {decodedPublisher}
+          </p>
+        </div>
+
+        {loadedFor && extensionVersions.length > 0 && (
+          <SearchFilter
+            placeholder="Search versions..."
+            value={searchQuery}
+            onSearch={setSearchQuery}
+            className="max-w-md"
+          />
+        )}
+
+        {loadedFor && extensionVersions.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Versions Found
+            </h3>
+            <p className="text-gray-600">
+              This extension has no versions published in {loadedFor.location}.
+            </p>
+          </div>
+        )}
+
+        {extensionVersions.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No versions match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <div className="space-y-3">
+          {pageItems.map((version) => {
+            const reference: VMExtensionReference = {
+              publisher: decodedPublisher,
+              type: decodedType,
+              typeHandlerVersion: version.typeHandlerVersion,
+            };
+
+            return (
+              <div
+                key={version.name}
+                className="p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all duration-150"
+              >
+                <div className="flex items-center justify-between gap-4">
+                  <div className="flex-1 min-w-0">
+                    <span className="text-sm font-mono text-gray-900">
+                      {version.name}
+                    </span>
+                    <p className="text-xs text-gray-500 mt-1">
+                      <span className="font-medium">typeHandlerVersion:</span>{' '}
+                      <span className="font-mono">
+                        {version.typeHandlerVersion}
+                      </span>
+                    </p>
+                  </div>
+                  <SnippetCopyButton
+                    formats={EXTENSION_FORMATS}
+                    generate={(format) =>
+                      generateAllExtensionFormats(reference)[format]
+                    }
+                    isValid={validateExtensionReference(reference)}
+                    className="flex-shrink-0"
+                  />
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
@@ -0,0 +1,177 @@
+import React, { useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import type { FleetImageStatus, FleetReportEntry } from '../../types';
+
+interface FleetReportProps {
+  entries: FleetReportEntry[];
+  className?: string;
+}
+
+const STATUS_STYLES: Record<
+  FleetImageStatus,
+  { label: string; className: string }
+> = {
+  outdated: { label: 'Outdated', className: 'bg-amber-100 text-amber-800' },
+  current: { label: 'Latest', className: 'bg-green-100 text-green-800' },
+  unknown: { label: 'Unknown', className: 'bg-gray-100 text-gray-700' },
+};
+
+// Outdated VMs lead, VMs whose status could not be determined trail
+const STATUS_ORDER: FleetImageStatus[] = ['outdated', 'current', 'unknown'];
+
+/**
+ * Table of the VMs and scale sets of the tenant with the marketplace image
+ * version they run, flagging those behind the latest version of their SKU
+ */
+export const FleetReport: React.FC<FleetReportProps> = ({
+  entries,
+  className = '',
+}) => {
+  const [outdatedOnly, setOutdatedOnly] = useState(false);
+
+  const counts = useMemo(() => {
+    const byStatus: Record<FleetImageStatus, number> = {
+      outdated: 0,
+      current: 0,
+      unknown: 0,
+    };
+    entries.forEach((entry) => {
+      byStatus[entry.status] += entry.resource.instanceCount;
+    });
+    return byStatus;
+  }, [entries]);
+
+  const rows = useMemo(
+    () =>
+      entries
+        .filter((entry) => !outdatedOnly || entry.status === 'outdated')
+        .sort(
+          (a, b) =>
+            STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status) ||
+            a.resource.name.localeCompare(b.resource.name)
+        ),
+    [entries, outdatedOnly]
+  );
+
+  return (
+    <div className={className} data-testid="fleet-report">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <p className="text-sm text-gray-600">
+          <span className="font-medium text-amber-800">
+            {counts.outdated} outdated
+          </span>
+          {' · '}
+          <span className="font-medium text-green-800">
+            {counts.current} on the latest version
+          </span>
+          {' · '}
+          <span>{counts.unknown} unknown</span>
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={outdatedOnly}
+            onChange={(event) => setOutdatedOnly(event.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Outdated only
+        </label>
+      </div>
+
+      {rows.length === 0 ? (
+        <div className="text-center py-12">
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            {entries.length === 0 ? 'No marketplace VMs' : 'No outdated VMs'}
+          </h3>
+          <p className="text-sm text-gray-600">
+            {entries.length === 0
+              ? 'None of the VMs or scale sets in your subscriptions were deployed from a marketplace image.'
+              : 'Every VM runs the latest version of its image.'}
+          </p>
+        </div>
+      ) : (
+        <div className="overflow-x-auto bg-white border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50">
+              <tr>
+                <th
+                  scope="col"
+                  className="px-4 py-2 text-left font-medium text-gray-700"
+                >
+                  Resource
+                </th>
+                <th
+                  scope="col"
+                  className="px-4 py-2 text-left font-medium text-gray-700"
+                >
+                  Image
+                </th>
+                <th
+                  scope="col"
+                  className="px-4 py-2 text-left font-medium text-gray-700"
+                >
+                  Running
+                </th>
+                <th
+                  scope="col"
+                  className="px-4 py-2 text-left font-medium text-gray-700"
+                >
+                  Latest
+                </th>
+                <th
+                  scope="col"
+                  className="px-4 py-2 text-left font-medium text-gray-700"
+                >
+                  Status
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-200">
+              {rows.map(
+                ({ resource, runningVersion, latestVersion, status }) => (
+                  <tr key={resource.id}>
+                    <td className="px-4 py-2">
+                      <div className="font-medium text-gray-900 break-all">
+                        {resource.name}
+                      </div>
+                      <div className="text-xs text-gray-500">
+                        {resource.resourceType === 'VirtualMachineScaleSet'
+                          ? `Scale set, ${resource.instanceCount} instance${resource.instanceCount !== 1 ? 's' : ''}`
+                          : 'VM'}
+                        {' · '}
+                        {resource.resourceGroup} · {resource.location}
+                      </div>
+                    </td>
+                    <td className="px-4 py-2">
+                      <Link
+                        to={`/publishers/${encodeURIComponent(resource.publisher)}/offers/${encodeURIComponent(resource.offer)}/skus`}
+                        className="font-mono text-xs text-gray-900 hover:text-blue-700 hover:underline break-all"
+                      >
+                        {resource.publisher}:{resource.offer}:{resource.sku}
+                      </Link>
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs">
+                      {runningVersion ?? '—'}
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs">
+                      {latestVersion ?? '—'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span
+                        className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${STATUS_STYLES[status].className}`}
+                      >
+                        {STATUS_STYLES[status].label}
+                      </span>
+                    </td>
+                  </tr>
+                )
+              )}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FleetReport;
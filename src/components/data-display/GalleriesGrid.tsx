@@ -0,0 +1,182 @@
+import React, { useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useGalleryStore } from '../../stores/galleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { Gallery } from '../../types';
+
+interface GalleriesGridProps {
+  className?: string;
+}
+
+interface GalleryCardProps {
+  gallery: Gallery;
+  onClick: (gallery: Gallery) => void;
+}
+
+const matchesGallery = (gallery: Gallery, query: string): boolean =>
+  gallery.name.toLowerCase().includes(query) ||
+  gallery.resourceGroup.toLowerCase().includes(query) ||
+  !!gallery.description?.toLowerCase().includes(query);
+
+const GalleryCard: React.FC<GalleryCardProps> = ({ gallery, onClick }) => {
+  return (
+    <HoverTransition hoverScale hoverShadow hoverBorder>
+      <Card
+        variant="default"
+        padding="md"
+        clickable
+        onClick={() => onClick(gallery)}
+        className="h-full"
+        aria-label={`View image definitions for ${gallery.name}`}
+      >
+        <Stack direction="vertical" spacing="sm" className="h-full">
+          <div className="flex-1">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 line-clamp-2">
+              {gallery.name}
+            </h3>
+            <Stack direction="vertical" spacing="xs">
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Resource group:</span>{' '}
+                {gallery.resourceGroup}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Location:</span>{' '}
+                {gallery.location}
+              </p>
+              {gallery.description && (
+                <p className="text-xs sm:text-sm text-gray-500 line-clamp-2">
+                  {gallery.description}
+                </p>
+              )}
+            </Stack>
+          </div>
+
+          <div className="pt-3 border-t border-gray-100">
+            <div className="flex items-center text-blue-600 text-xs sm:text-sm font-medium">
+              View Image Definitions
+            </div>
+          </div>
+        </Stack>
+      </Card>
+    </HoverTransition>
+  );
+};
+
+export const GalleriesGrid: React.FC<GalleriesGridProps> = ({
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const galleries = useGalleryStore((state) => state.galleries);
+  const loading = useGalleryStore((state) => state.loading);
+  const error = useGalleryStore((state) => state.error);
+  const loaded = useGalleryStore((state) => state.loadedGalleries);
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(galleries, matchesGallery, 12);
+
+  const handleGalleryClick = useCallback(
+    (gallery: Gallery) => {
+      navigate(
+        `/galleries/${encodeURIComponent(gallery.resourceGroup)}/${encodeURIComponent(gallery.name)}/images`
+      );
+    },
+    [navigate]
+  );
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load galleries"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Azure Compute Galleries
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            Custom images shared through the galleries of your subscription
+          </p>
+        </div>
+
+        {loaded && galleries.length > 0 && (
+          <SearchFilter
+            placeholder="Search galleries..."
+            value={searchQuery}
+            onSearch={setSearchQuery}
+            className="max-w-md"
+          />
+        )}
+
+        {loaded && galleries.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Galleries Found
+            </h3>
+            <p className="text-gray-600">
+              The selected subscription does not contain any Azure Compute
+              Galleries.
+            </p>
+          </div>
+        )}
+
+        {galleries.length > 0 && filteredItems.length === 0 && searchQuery && (
+          <div className="text-center py-12">
+            <p className="text-gray-600">
+              No galleries match your search for "{searchQuery}".
+            </p>
+          </div>
+        )}
+
+        <ResponsiveGrid cols={{ xs: 1, sm: 2, md: 2, lg: 3, xl: 4 }} gap="md">
+          {pageItems.map((gallery) => (
+            <GalleryCard
+              key={gallery.id}
+              gallery={gallery}
+              onClick={handleGalleryClick}
+            />
+          ))}
+        </ResponsiveGrid>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
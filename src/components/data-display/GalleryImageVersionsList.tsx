@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useGalleryStore } from '../../stores/galleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
+import { Stack } from '../layout';
+import type { GalleryImageVersion } from '../../types';
+
+interface GalleryImageVersionsListProps {
+  className?: string;
+}
+
+const matchesVersion = (version: GalleryImageVersion, query: string): boolean =>
+  version.name.toLowerCase().includes(query) ||
+  version.targetRegions.some((region) => region.toLowerCase().includes(query));
+
+const formatDate = (value?: string): string | null =>
+  value ? new Date(value).toLocaleDateString() : null;
+
+export const GalleryImageVersionsList: React.FC<
+  GalleryImageVersionsListProps
+> = ({ className = '' }) => {
+  const { resourceGroup, galleryName, imageName } = useParams<{
+    resourceGroup: string;
+    galleryName: string;
+    imageName: string;
+  }>();
+  const imageVersions = useGalleryStore((state) => state.imageVersions);
+  const imageDefinitions = useGalleryStore((state) => state.imageDefinitions);
+  const loading = useGalleryStore((state) => state.loading);
+  const error = useGalleryStore((state) => state.error);
+  const loadedFor = useGalleryStore((state) => state.loadedImageVersions);
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+
+  const decodedImageName = imageName ? decodeURIComponent(imageName) : '';
+  const definition = imageDefinitions.find(
+    (image) => image.name === decodedImageName
+  );
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(imageVersions, matchesVersion, 10);
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load image versions"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton
+              to={`/galleries/${resourceGroup}/${galleryName}/images`}
+              label="Back to Image Definitions"
+            />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Versions of {decodedImageName}
+          </h2>
+          <Stack direction="vertical" spacing="xs" className="mt-2">
+            <p className="text-sm sm:text-base text-gray-600">
+              <span className="font-medium">Gallery:</span>{' '}
+              {galleryName ? decodeURIComponent(galleryName) : ''}
+            </p>
+            {definition && (
+              <p className="text-sm sm:text-base text-gray-600">
+                <span className="font-medium">OS:</span> {definition.osType} (
+                {definition.osState})
+              </p>
+            )}
+          </Stack>
+        </div>
+
+        {loadedFor && imageVersions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <SearchFilter
+              placeholder="Search versions or regions..."
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              className="max-w-md flex-1"
+            />
+            <FullVMTemplateToggle
+              checked={fullVMTemplate}
+              onChange={setFullVMTemplate}
+            />
+          </div>
+        )}
+
+        {loadedFor && imageVersions.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Versions Found
+            </h3>
+            <p className="text-gray-600">
+              This image definition has no published versions.
+            </p>
+          </div>
+        )}
+
+        {imageVersions.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No versions match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <div className="space-y-3">
+          {pageItems.map((version) => (
+            <div
+              key={version.id}
+              className="p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all duration-150"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-mono text-gray-900">
+                      {version.name}
+                    </span>
+                    {version.excludeFromLatest && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Excluded from latest
+                      </span>
+                    )}
+                    {version.provisioningState &&
+                      version.provisioningState !== 'Succeeded' && (
+                        <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-orange-100 text-orange-800">
+                          {version.provisioningState}
+                        </span>
+                      )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatDate(version.publishedDate) &&
+                      `Published ${formatDate(version.publishedDate)}`}
+                    {version.endOfLifeDate &&
+                      ` · End of life ${formatDate(version.endOfLifeDate)}`}
+                  </p>
+                  {version.targetRegions.length > 0 && (
+                    <p className="text-xs text-gray-500 mt-1">
+                      <span className="font-medium">Regions:</span>{' '}
+                      {version.targetRegions.join(', ')}
+                    </p>
+                  )}
+                </div>
+                <CopyButton
+                  imageReference={{
+                    id: version.id,
+                    plan: definition?.purchasePlan ?? null,
+                  }}
+                  mode={fullVMTemplate ? 'fullVM' : 'reference'}
+                  osType={definition?.osType}
+                  location={version.location}
+                  className="flex-shrink-0"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
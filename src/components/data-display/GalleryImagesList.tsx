@@ -0,0 +1,245 @@
+import React, { useCallback, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useGalleryStore } from '../../stores/galleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { GalleryImageDefinition } from '../../types';
+
+interface GalleryImagesListProps {
+  className?: string;
+}
+
+interface GalleryImageCardProps {
+  image: GalleryImageDefinition;
+  fullVMTemplate: boolean;
+  onViewVersions: (image: GalleryImageDefinition) => void;
+}
+
+const matchesImage = (image: GalleryImageDefinition, query: string): boolean =>
+  [
+    image.name,
+    image.identifier.publisher,
+    image.identifier.offer,
+    image.identifier.sku,
+    image.description || '',
+  ].some((value) => value.toLowerCase().includes(query));
+
+const GalleryImageCard: React.FC<GalleryImageCardProps> = ({
+  image,
+  fullVMTemplate,
+  onViewVersions,
+}) => {
+  return (
+    <HoverTransition hoverShadow hoverBorder>
+      <Card variant="default" padding="md" className="h-full">
+        <Stack direction="vertical" spacing="md" className="h-full">
+          <div className="flex-1">
+            <div className="flex items-start justify-between gap-2 mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {image.name}
+              </h3>
+              <div className="flex flex-wrap justify-end gap-1">
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {image.osType}
+                </span>
+                {image.hyperVGeneration && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {image.hyperVGeneration === 'V2'
+                      ? 'Gen2'
+                      : image.hyperVGeneration === 'V1'
+                        ? 'Gen1'
+                        : image.hyperVGeneration}
+                  </span>
+                )}
+                {image.purchasePlan && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                    Requires plan
+                  </span>
+                )}
+              </div>
+            </div>
+            <Stack direction="vertical" spacing="xs">
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Identifier:</span>{' '}
+                {image.identifier.publisher} / {image.identifier.offer} /{' '}
+                {image.identifier.sku}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">OS state:</span> {image.osState}
+              </p>
+              {image.architecture && (
+                <p className="text-xs sm:text-sm text-gray-600">
+                  <span className="font-medium">Architecture:</span>{' '}
+                  {image.architecture}
+                </p>
+              )}
+              {image.description && (
+                <p className="text-xs sm:text-sm text-gray-500">
+                  {image.description}
+                </p>
+              )}
+            </Stack>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 flex items-center justify-between gap-2">
+            <button
+              onClick={() => onViewVersions(image)}
+              className="text-xs sm:text-sm text-blue-700 hover:text-blue-900 hover:underline"
+            >
+              View versions
+            </button>
+            {/* Referencing the definition deploys its latest version */}
+            <CopyButton
+              imageReference={{ id: image.id, plan: image.purchasePlan }}
+              mode={fullVMTemplate ? 'fullVM' : 'reference'}
+              osType={image.osType}
+              location={image.location}
+            />
+          </div>
+        </Stack>
+      </Card>
+    </HoverTransition>
+  );
+};
+
+export const GalleryImagesList: React.FC<GalleryImagesListProps> = ({
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const { resourceGroup, galleryName } = useParams<{
+    resourceGroup: string;
+    galleryName: string;
+  }>();
+  const imageDefinitions = useGalleryStore((state) => state.imageDefinitions);
+  const loading = useGalleryStore((state) => state.loading);
+  const error = useGalleryStore((state) => state.error);
+  const loadedFor = useGalleryStore((state) => state.loadedImageDefinitions);
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(imageDefinitions, matchesImage, 8);
+
+  const handleViewVersions = useCallback(
+    (image: GalleryImageDefinition) => {
+      navigate(
+        `/galleries/${encodeURIComponent(image.resourceGroup)}/${encodeURIComponent(image.galleryName)}/images/${encodeURIComponent(image.name)}/versions`
+      );
+    },
+    [navigate]
+  );
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load image definitions"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton to="/galleries" label="Back to Galleries" />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Image Definitions in{' '}
+            {galleryName ? decodeURIComponent(galleryName) : ''}
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            <span className="font-medium">Resource group:</span>{' '}
+            {resourceGroup ? decodeURIComponent(resourceGroup) : ''}
+          </p>
+        </div>
+
+        {loadedFor && imageDefinitions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <SearchFilter
+              placeholder="Search image definitions..."
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              className="max-w-md flex-1"
+            />
+            <FullVMTemplateToggle
+              checked={fullVMTemplate}
+              onChange={setFullVMTemplate}
+            />
+          </div>
+        )}
+
+        {loadedFor && imageDefinitions.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Image Definitions Found
+            </h3>
+            <p className="text-gray-600">
+              This gallery does not contain any image definitions.
+            </p>
+          </div>
+        )}
+
+        {imageDefinitions.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No image definitions match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <ResponsiveGrid
+          cols={{ xs: 1, sm: 1, md: 1, lg: 2, xl: 2, '2xl': 3 }}
+          gap="lg"
+        >
+          {pageItems.map((image) => (
+            <GalleryImageCard
+              key={image.id}
+              image={image}
+              fullVMTemplate={fullVMTemplate}
+              onViewVersions={handleViewVersions}
+            />
+          ))}
+        </ResponsiveGrid>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
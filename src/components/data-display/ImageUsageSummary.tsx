@@ -0,0 +1,56 @@
+import React from 'react';
+import type { SKUImageUsage } from '../../types';
+
+interface ImageUsageSummaryProps {
+  usage?: SKUImageUsage;
+  // Versions listed before the rest is folded into "+N more"
+  maxVersions?: number;
+  className?: string;
+}
+
+/**
+ * How many VMs of the signed-in tenant run an image SKU, and on which
+ * versions. Renders nothing when no VM uses the SKU.
+ */
+export const ImageUsageSummary: React.FC<ImageUsageSummaryProps> = ({
+  usage,
+  maxVersions = 3,
+  className = '',
+}) => {
+  if (!usage || usage.vmCount === 0) {
+    return null;
+  }
+
+  const shown = usage.versions.slice(0, maxVersions);
+  const hidden = usage.versions.length - shown.length;
+
+  return (
+    <div
+      className={`text-xs sm:text-sm text-gray-600 ${className}`}
+      data-testid="image-usage-summary"
+    >
+      <p>
+        <span className="font-medium">In use:</span> {usage.vmCount} VM
+        {usage.vmCount !== 1 ? 's' : ''}
+      </p>
+      <div className="flex flex-wrap gap-1 mt-1">
+        {shown.map((version) => (
+          <span
+            key={version.version}
+            className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-mono bg-indigo-50 text-indigo-800"
+            title={`${version.vmCount} VM${version.vmCount !== 1 ? 's' : ''} on ${version.version}`}
+          >
+            {version.version} × {version.vmCount}
+          </span>
+        ))}
+        {hidden > 0 && (
+          <span className="inline-flex items-center px-2 py-0.5 text-xs text-gray-500">
+            +{hidden} more
+          </span>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImageUsageSummary;
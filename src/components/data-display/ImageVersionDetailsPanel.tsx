@@ -0,0 +1,173 @@
+import React from 'react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { DeprecationBadge } from './DeprecationBadge';
+import { SecurityTypeBadges } from './SecurityTypeBadges';
+import { formatDeprecationDate } from '../../utils/imageDeprecation';
+import type { ImageVersionDetails } from '../../types';
+
+interface ImageVersionDetailsPanelProps {
+  details: ImageVersionDetails | null;
+  loading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+  className?: string;
+}
+
+/**
+ * Map the ARM hyperVGeneration value to the familiar "Gen1/Gen2" label
+ */
+const formatGeneration = (hyperVGeneration?: string): string => {
+  switch (hyperVGeneration) {
+    case 'V1':
+      return 'Gen1';
+    case 'V2':
+      return 'Gen2';
+    default:
+      return hyperVGeneration || 'Unknown';
+  }
+};
+
+const DetailRow: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <div className="flex justify-between gap-4 py-1">
+    <dt className="text-xs font-medium text-gray-500">{label}</dt>
+    <dd className="text-xs text-gray-900 text-right">{children}</dd>
+  </div>
+);
+
+/**
+ * ImageVersionDetailsPanel shows the full details of a single image version
+ * so users can tell generation, architecture and plan before copying it
+ */
+export const ImageVersionDetailsPanel: React.FC<
+  ImageVersionDetailsPanelProps
+> = ({ details, loading = false, error = null, onRetry, className = '' }) => {
+  if (loading) {
+    return (
+      <div className={`flex items-center gap-2 py-3 ${className}`}>
+        <LoadingSpinner size="sm" />
+        <span className="text-xs text-gray-500">
+          Loading version details...
+        </span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        className={`flex items-center justify-between py-3 ${className}`}
+        role="alert"
+      >
+        <span className="text-xs text-red-600">{error}</span>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!details) {
+    return null;
+  }
+
+  return (
+    <div
+      className={`bg-gray-50 rounded-md p-3 ${className}`}
+      data-testid="image-version-details"
+    >
+      <div className="flex flex-wrap gap-2 mb-2">
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+          {formatGeneration(details.hyperVGeneration)}
+        </span>
+        <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+          {details.architecture || 'Unknown architecture'}
+        </span>
+        {details.osDiskImage && (
+          <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-200 text-gray-800">
+            {details.osDiskImage.operatingSystem}
+          </span>
+        )}
+        <SecurityTypeBadges security={details.security} />
+        <DeprecationBadge status={details.deprecationStatus} />
+      </div>
+
+      <dl className="divide-y divide-gray-200">
+        <DetailRow label="OS disk size">
+          {details.osDiskImage?.sizeInGb !== undefined
+            ? `${details.osDiskImage.sizeInGb} GB`
+            : 'Not reported'}
+        </DetailRow>
+        <DetailRow label="Data disks">
+          {details.dataDiskImages.length === 0
+            ? 'None'
+            : details.dataDiskImages
+                .map(
+                  (disk) =>
+                    `LUN ${disk.lun}${disk.sizeInGb !== undefined ? ` (${disk.sizeInGb} GB)` : ''}`
+                )
+                .join(', ')}
+        </DetailRow>
+        <DetailRow label="Purchase plan">
+          {details.plan
+            ? `${details.plan.publisher} / ${details.plan.product} / ${details.plan.name}`
+            : 'None'}
+        </DetailRow>
+        <DetailRow label="Security type">
+          {details.security?.securityType ?? 'Standard'}
+        </DetailRow>
+        <DetailRow label="Automatic OS upgrade">
+          {details.automaticOSUpgradeProperties
+            ? details.automaticOSUpgradeProperties.automaticOSUpgradeSupported
+              ? 'Supported'
+              : 'Not supported'
+            : 'Not reported'}
+        </DetailRow>
+        {details.deprecationStatus &&
+          details.deprecationStatus.imageState !== 'Active' && (
+            <DetailRow label="Deprecation date">
+              {formatDeprecationDate(
+                details.deprecationStatus.scheduledDeprecationTime
+              )}
+            </DetailRow>
+          )}
+        {details.deprecationStatus?.alternativeOption && (
+          <DetailRow label="Suggested alternative">
+            {details.deprecationStatus.alternativeOption.type}:{' '}
+            {details.deprecationStatus.alternativeOption.value}
+          </DetailRow>
+        )}
+        {details.disallowed?.vmDiskType && (
+          <DetailRow label="Disallowed disk type">
+            {details.disallowed.vmDiskType}
+          </DetailRow>
+        )}
+      </dl>
+
+      {details.features.length > 0 && (
+        <div className="mt-2">
+          <p className="text-xs font-medium text-gray-500 mb-1">Features</p>
+          <ul className="flex flex-wrap gap-1">
+            {details.features.map((feature) => (
+              <li
+                key={feature.name}
+                className="px-2 py-0.5 rounded bg-white border border-gray-200 text-xs font-mono text-gray-700"
+              >
+                {feature.name}={feature.value}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ImageVersionDetailsPanel;
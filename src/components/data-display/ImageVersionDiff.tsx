@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { diffImageVersions } from '../../utils/imageVersionDiff';
+import type { ImageVersionDetails } from '../../types';
+
+interface ImageVersionDiffProps {
+  base: ImageVersionDetails;
+  target: ImageVersionDetails;
+  className?: string;
+}
+
+/**
+ * ImageVersionDiff shows two image versions side by side, highlighting what
+ * changed and which changes break deployments written for the base version
+ */
+export const ImageVersionDiff: React.FC<ImageVersionDiffProps> = ({
+  base,
+  target,
+  className = '',
+}) => {
+  const [changedOnly, setChangedOnly] = useState(false);
+  const changes = useMemo(
+    () => diffImageVersions(base, target),
+    [base, target]
+  );
+
+  const changedCount = changes.filter((change) => change.changed).length;
+  const breakingCount = changes.filter((change) => change.breaking).length;
+  const rows = changedOnly
+    ? changes.filter((change) => change.changed)
+    : changes;
+
+  return (
+    <div className={className} data-testid="image-version-diff">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <p className="text-sm text-gray-700">
+          {changedCount === 0
+            ? 'No differences'
+            : `${changedCount} change${changedCount !== 1 ? 's' : ''}`}
+          {breakingCount > 0 && (
+            <span className="ml-2 inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-red-100 text-red-800">
+              {breakingCount} breaking
+            </span>
+          )}
+        </p>
+        <label className="flex items-center gap-2 text-sm text-gray-600">
+          <input
+            type="checkbox"
+            checked={changedOnly}
+            onChange={(event) => setChangedOnly(event.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Changes only
+        </label>
+      </div>
+
+      <div className="overflow-x-auto border border-gray-200 rounded-md">
+        <table className="min-w-full divide-y divide-gray-200 text-xs">
+          <thead className="bg-gray-50">
+            <tr>
+              <th
+                scope="col"
+                className="px-3 py-2 text-left font-medium text-gray-700"
+              >
+                Property
+              </th>
+              <th
+                scope="col"
+                className="px-3 py-2 text-left font-medium text-gray-700 font-mono"
+              >
+                {base.name}
+              </th>
+              <th
+                scope="col"
+                className="px-3 py-2 text-left font-medium text-gray-700 font-mono"
+              >
+                {target.name}
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-gray-200 bg-white">
+            {rows.map((change) => (
+              <tr
+                key={change.label}
+                className={
+                  change.breaking
+                    ? 'bg-red-50'
+                    : change.changed
+                      ? 'bg-yellow-50'
+                      : ''
+                }
+                data-change={
+                  change.breaking
+                    ? 'breaking'
+                    : change.changed
+                      ? 'changed'
+                      : 'unchanged'
+                }
+              >
+                <td className="px-3 py-2 font-medium text-gray-700 align-top">
+                  {change.label}
+                </td>
+                <td className="px-3 py-2 text-gray-900 align-top break-all">
+                  {change.before}
+                </td>
+                <td className="px-3 py-2 text-gray-900 align-top break-all">
+                  {change.after}
+                  {change.note && (
+                    <p className="mt-1 text-red-700">⚠ {change.note}</p>
+                  )}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+export default ImageVersionDiff;
@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { useManagedImageStore } from '../../stores/managedImageStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { ManagedImage, ManagedImageSourceType } from '../../types';
+
+interface ManagedImagesListProps {
+  className?: string;
+}
+
+interface ManagedImageCardProps {
+  image: ManagedImage;
+  fullVMTemplate: boolean;
+}
+
+const SOURCE_LABELS: Record<ManagedImageSourceType, string> = {
+  VirtualMachine: 'Virtual machine',
+  ManagedDisk: 'Managed disk',
+  Snapshot: 'Snapshot',
+  Blob: 'VHD blob',
+};
+
+const matchesImage = (image: ManagedImage, query: string): boolean =>
+  [
+    image.name,
+    image.resourceGroup,
+    image.location,
+    image.osType,
+    image.source?.value || '',
+  ].some((value) => value.toLowerCase().includes(query));
+
+// Last path segment of a resource ID or blob URI
+const getSourceName = (value: string): string =>
+  value.split('/').filter(Boolean).pop() || value;
+
+const ManagedImageCard: React.FC<ManagedImageCardProps> = ({
+  image,
+  fullVMTemplate,
+}) => {
+  return (
+    <HoverTransition hoverShadow hoverBorder>
+      <Card variant="default" padding="md" className="h-full">
+        <Stack direction="vertical" spacing="md" className="h-full">
+          <div className="flex-1">
+            <div className="flex items-start justify-between gap-2 mb-3">
+              <h3 className="text-lg font-semibold text-gray-900 break-all">
+                {image.name}
+              </h3>
+              <div className="flex flex-wrap justify-end gap-1">
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {image.osType}
+                </span>
+                {image.hyperVGeneration && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {image.hyperVGeneration === 'V2'
+                      ? 'Gen2'
+                      : image.hyperVGeneration === 'V1'
+                        ? 'Gen1'
+                        : image.hyperVGeneration}
+                  </span>
+                )}
+                {image.zoneResilient && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800 whitespace-nowrap">
+                    Zone resilient
+                  </span>
+                )}
+              </div>
+            </div>
+            <Stack direction="vertical" spacing="xs">
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Resource group:</span>{' '}
+                {image.resourceGroup}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Location:</span> {image.location}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">OS state:</span> {image.osState}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600 break-all">
+                <span className="font-medium">Source:</span>{' '}
+                {image.source ? (
+                  <span title={image.source.value}>
+                    {SOURCE_LABELS[image.source.type]} ·{' '}
+                    {getSourceName(image.source.value)}
+                  </span>
+                ) : (
+                  'Unknown'
+                )}
+              </p>
+            </Stack>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 flex justify-end">
+            <CopyButton
+              imageReference={{ id: image.id }}
+              mode={fullVMTemplate ? 'fullVM' : 'reference'}
+              osType={image.osType}
+              location={image.location}
+            />
+          </div>
+        </Stack>
+      </Card>
+    </HoverTransition>
+  );
+};
+
+export const ManagedImagesList: React.FC<ManagedImagesListProps> = ({
+  className = '',
+}) => {
+  const managedImages = useManagedImageStore((state) => state.managedImages);
+  const loading = useManagedImageStore((state) => state.loading);
+  const error = useManagedImageStore((state) => state.error);
+  const loadedFor = useManagedImageStore((state) => state.loadedFor);
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(managedImages, matchesImage, 12);
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load managed images"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Managed Images
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            Classic managed images (Microsoft.Compute/images) across the
+            resource groups of your subscription
+          </p>
+        </div>
+
+        {loadedFor && managedImages.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <SearchFilter
+              placeholder="Search managed images..."
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              className="max-w-md flex-1"
+            />
+            <FullVMTemplateToggle
+              checked={fullVMTemplate}
+              onChange={setFullVMTemplate}
+            />
+          </div>
+        )}
+
+        {loadedFor && managedImages.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Managed Images Found
+            </h3>
+            <p className="text-gray-600">
+              The selected subscription does not contain any managed images.
+            </p>
+          </div>
+        )}
+
+        {managedImages.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No managed images match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <ResponsiveGrid cols={{ xs: 1, sm: 1, md: 2, lg: 2, xl: 3 }} gap="lg">
+          {pageItems.map((image) => (
+            <ManagedImageCard
+              key={image.id}
+              image={image}
+              fullVMTemplate={fullVMTemplate}
+            />
+          ))}
+        </ResponsiveGrid>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
@@ -0,0 +1,230 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { copyToClipboard } from '../../utils';
+import { generateTermsAcceptCommands } from '../../utils/iacFormats';
+import type { MarketplaceAgreement, PurchasePlan } from '../../types';
+
+interface MarketplaceTermsPanelProps {
+  plan: PurchasePlan;
+  subscriptionId: string | null;
+  onLoadAgreement: (plan: PurchasePlan) => Promise<MarketplaceAgreement>;
+  onAcceptAgreement: (plan: PurchasePlan) => Promise<MarketplaceAgreement>;
+  className?: string;
+}
+
+/**
+ * MarketplaceTermsPanel shows whether the marketplace terms of a purchase plan
+ * are accepted in the selected subscription and lets the user accept them
+ * after an explicit confirmation
+ */
+export const MarketplaceTermsPanel: React.FC<MarketplaceTermsPanelProps> = ({
+  plan,
+  subscriptionId,
+  onLoadAgreement,
+  onAcceptAgreement,
+  className = '',
+}) => {
+  const [agreement, setAgreement] = useState<MarketplaceAgreement | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [confirming, setConfirming] = useState(false);
+  const [accepting, setAccepting] = useState(false);
+  const [copiedCommand, setCopiedCommand] = useState<string | null>(null);
+
+  const commands = generateTermsAcceptCommands(
+    plan,
+    subscriptionId || undefined
+  );
+
+  // Parents pass a new loader on every render; the plan decides when to reload
+  const onLoadAgreementRef = useRef(onLoadAgreement);
+  useEffect(() => {
+    onLoadAgreementRef.current = onLoadAgreement;
+  }, [onLoadAgreement]);
+
+  const { publisher, product, name } = plan;
+  const loadAgreement = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+
+    try {
+      setAgreement(
+        await onLoadAgreementRef.current({ publisher, product, name })
+      );
+    } catch (err) {
+      console.error('Error loading marketplace agreement:', err);
+      setError(
+        err instanceof Error ? err.message : 'Failed to load terms status'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [publisher, product, name]);
+
+  useEffect(() => {
+    setAgreement(null);
+    setConfirming(false);
+    loadAgreement();
+  }, [loadAgreement, subscriptionId]);
+
+  const handleConfirmAccept = async () => {
+    setAccepting(true);
+    setError(null);
+
+    try {
+      setAgreement(await onAcceptAgreement(plan));
+      setConfirming(false);
+    } catch (err) {
+      console.error('Error accepting marketplace terms:', err);
+      setError(err instanceof Error ? err.message : 'Failed to accept terms');
+    } finally {
+      setAccepting(false);
+    }
+  };
+
+  const handleCopyCommand = async (key: string, command: string) => {
+    if (await copyToClipboard(command)) {
+      setCopiedCommand(key);
+      setTimeout(() => setCopiedCommand(null), 2000);
+    }
+  };
+
+  return (
+    <div
+      className={`border border-amber-200 bg-amber-50 rounded-lg p-4 ${className}`}
+      data-testid="marketplace-terms-panel"
+    >
+      <div className="flex items-center justify-between gap-4 mb-3">
+        <h4 className="text-sm font-semibold text-gray-900">
+          Marketplace terms
+        </h4>
+        {loading ? (
+          <LoadingSpinner size="sm" />
+        ) : agreement ? (
+          <span
+            className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium ${
+              agreement.accepted
+                ? 'bg-green-100 text-green-800'
+                : 'bg-red-100 text-red-800'
+            }`}
+          >
+            {agreement.accepted ? 'Terms accepted' : 'Terms not accepted'}
+          </span>
+        ) : null}
+      </div>
+
+      {error && (
+        <div className="flex items-center justify-between mb-3" role="alert">
+          <span className="text-xs text-red-600">{error}</span>
+          <button
+            onClick={loadAgreement}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {agreement && !agreement.accepted && (
+        <div className="mb-3">
+          <p className="text-xs text-gray-700 mb-2">
+            Deployments of this image fail with
+            MarketplacePurchaseEligibilityFailed until the terms are accepted in
+            the subscription.
+          </p>
+          {confirming ? (
+            <div className="p-3 bg-white border border-amber-300 rounded-md">
+              <p className="text-xs text-gray-800 mb-2">
+                Accept the legal terms of{' '}
+                <strong>
+                  {plan.publisher} / {plan.product} / {plan.name}
+                </strong>{' '}
+                for subscription <strong>{subscriptionId}</strong>? This applies
+                to everyone deploying this plan in the subscription.
+              </p>
+              <div className="flex gap-2">
+                <button
+                  onClick={handleConfirmAccept}
+                  disabled={accepting}
+                  className="px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+                >
+                  {accepting ? 'Accepting...' : 'Confirm and accept'}
+                </button>
+                <button
+                  onClick={() => setConfirming(false)}
+                  disabled={accepting}
+                  className="px-3 py-1 text-xs border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button
+              onClick={() => setConfirming(true)}
+              disabled={!subscriptionId}
+              className="px-3 py-1 text-xs bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50"
+            >
+              Accept terms
+            </button>
+          )}
+        </div>
+      )}
+
+      {agreement &&
+        (agreement.licenseTextLink || agreement.privacyPolicyLink) && (
+          <div className="flex gap-4 mb-3 text-xs">
+            {agreement.licenseTextLink && (
+              <a
+                href={agreement.licenseTextLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-700 hover:underline"
+              >
+                License terms
+              </a>
+            )}
+            {agreement.privacyPolicyLink && (
+              <a
+                href={agreement.privacyPolicyLink}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-blue-700 hover:underline"
+              >
+                Privacy policy
+              </a>
+            )}
+          </div>
+        )}
+
+      <div className="space-y-2">
+        {[
+          { key: 'azureCli', label: 'Azure CLI', command: commands.azureCli },
+          {
+            key: 'powershell',
+            label: 'PowerShell',
+            command: commands.powershell,
+          },
+        ].map(({ key, label, command }) => (
+          <div key={key}>
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-medium text-gray-600">{label}</span>
+              <button
+                onClick={() => handleCopyCommand(key, command)}
+                className="text-xs text-blue-700 hover:underline"
+                aria-label={`Copy ${label} terms command`}
+              >
+                {copiedCommand === key ? 'Copied!' : 'Copy'}
+              </button>
+            </div>
+            <pre className="text-xs font-mono bg-white border border-gray-200 rounded p-2 whitespace-pre-wrap break-all">
+              {command}
+            </pre>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MarketplaceTermsPanel;
@@ -1,5 +1,5 @@
 import React, { useMemo } from 'react';
-import { useNavigate, useParams } from 'react-router-dom';
+import { Link, useNavigate, useParams } from 'react-router-dom';
 import { useVMImagesStore } from '../../stores/vmImagesStore';
 import { BackButton } from '../ui/BackButton';
 
@@ -7,7 +7,11 @@ import { ErrorMessage } from '../ui/ErrorMessage';
 import { SearchFilter } from '../ui/SearchFilter';
 import { Pagination } from '../ui/Pagination';
 import { OffersListSkeleton } from '../ui/SkeletonScreens';
-import { PageTransition, StaggeredAnimation, HoverTransition } from '../ui/PageTransition';
+import {
+  PageTransition,
+  StaggeredAnimation,
+  HoverTransition,
+} from '../ui/PageTransition';
 import { Card, Stack } from '../layout';
 import type { Offer } from '../../types';
 
@@ -37,7 +41,7 @@ const OfferItem: React.FC<OfferItemProps> = ({ offer, onClick }) => {
           spacing="md"
           responsive={{
             sm: { direction: 'vertical', align: 'start', spacing: 'sm' },
-            md: { direction: 'horizontal', align: 'center', spacing: 'md' }
+            md: { direction: 'horizontal', align: 'center', spacing: 'md' },
           }}
         >
           <div className="flex-1 min-w-0">
@@ -49,14 +53,15 @@ const OfferItem: React.FC<OfferItemProps> = ({ offer, onClick }) => {
                 <span className="font-medium">Name:</span> {offer.name}
               </p>
               <p className="text-xs sm:text-sm text-gray-600">
-                <span className="font-medium">Publisher:</span> {offer.publisher}
+                <span className="font-medium">Publisher:</span>{' '}
+                {offer.publisher}
               </p>
               <p className="text-xs sm:text-sm text-gray-600">
                 <span className="font-medium">Location:</span> {offer.location}
               </p>
             </Stack>
           </div>
-          
+
           <div className="flex-shrink-0 w-full sm:w-auto">
             <div className="flex items-center justify-center sm:justify-end text-blue-600 text-xs sm:text-sm font-medium">
               View SKUs
@@ -84,7 +89,7 @@ const OfferItem: React.FC<OfferItemProps> = ({ offer, onClick }) => {
 export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
   const navigate = useNavigate();
   const { publisherName } = useParams<{ publisherName: string }>();
-  
+
   // Get individual state pieces to avoid object recreation
   const allOffers = useVMImagesStore((state) => state.offers);
   const filteredOffers = useVMImagesStore((state) => state.filteredOffers);
@@ -96,19 +101,19 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
   const setSearchQuery = useVMImagesStore((state) => state.setOffersSearch);
   const setOffersPage = useVMImagesStore((state) => state.setOffersPage);
   const clearSearch = useVMImagesStore((state) => state.clearSearch);
-  
+
   // Clear search when component mounts (when navigating to offers)
   React.useEffect(() => {
     clearSearch();
   }, []); // Only run on mount
-  
+
   // Memoize computed values
   const paginatedData = useMemo(() => {
     const { currentPage, itemsPerPage } = paginationState;
     const startIndex = (currentPage - 1) * itemsPerPage;
     const endIndex = startIndex + itemsPerPage;
     const offers = filteredOffers.slice(startIndex, endIndex);
-    
+
     return {
       offers,
       pagination: {
@@ -119,12 +124,14 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
       },
     };
   }, [filteredOffers, paginationState]);
-  
+
   const { offers, pagination } = paginatedData;
 
   const handleOfferClick = (offer: Offer) => {
     if (publisherName) {
-      navigate(`/publishers/${publisherName}/offers/${encodeURIComponent(offer.name)}/skus`);
+      navigate(
+        `/publishers/${publisherName}/offers/${encodeURIComponent(offer.name)}/skus`
+      );
     }
   };
 
@@ -164,8 +171,14 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
         <Stack direction="vertical" spacing="lg">
           {/* Header */}
           <div>
-            <div className="flex items-center gap-4 mb-4">
+            <div className="flex items-center justify-between gap-4 mb-4">
               <BackButton to="/publishers" label="Back to Publishers" />
+              <Link
+                to={`/publishers/${encodeURIComponent(loadedFor.publisher)}/extensions`}
+                className="text-sm text-blue-700 hover:text-blue-900 hover:underline"
+              >
+                View VM extensions
+              </Link>
             </div>
             <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
               Offers for {loadedFor.publisher}
@@ -174,7 +187,7 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
               Select an offer to view its available SKUs
             </p>
           </div>
-          
+
           {/* Search Filter - Always show when data is loaded */}
           <SearchFilter
             placeholder="Search offers..."
@@ -182,7 +195,7 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
             onSearch={handleSearch}
             className="max-w-md"
           />
-          
+
           {/* No Offers Found Message */}
           <div className={`text-center py-12`}>
             <div className="text-gray-500">
@@ -199,7 +212,9 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
                   d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2M4 13h2m13-8l-4 4m0 0l-4-4m4 4V3"
                 />
               </svg>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No Offers Found</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                No Offers Found
+              </h3>
               <p className="text-gray-600">
                 No offers are available for the selected publisher.
               </p>
@@ -227,7 +242,9 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
               d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
             />
           </svg>
-          <h3 className="text-lg font-medium text-gray-900 mb-2">Select a Publisher</h3>
+          <h3 className="text-lg font-medium text-gray-900 mb-2">
+            Select a Publisher
+          </h3>
           <p className="text-gray-600">
             Please select a publisher to view their available offers.
           </p>
@@ -241,8 +258,14 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
       <Stack direction="vertical" spacing="lg">
         {/* Header */}
         <div>
-          <div className="flex items-center gap-4 mb-4">
+          <div className="flex items-center justify-between gap-4 mb-4">
             <BackButton to="/publishers" label="Back to Publishers" />
+            <Link
+              to={`/publishers/${encodeURIComponent(loadedFor.publisher)}/extensions`}
+              className="text-sm text-blue-700 hover:text-blue-900 hover:underline"
+            >
+              View VM extensions
+            </Link>
           </div>
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
             Offers for {loadedFor.publisher}
@@ -251,7 +274,7 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
             Select an offer to view its available SKUs
           </p>
         </div>
-        
+
         {/* Search Filter - Always show when data is loaded */}
         {loadedFor && (
           <SearchFilter
@@ -261,7 +284,7 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
             className="max-w-md"
           />
         )}
-        
+
         {/* Offers List */}
         <PageTransition transitionKey={`offers-${offers.length}`}>
           <StaggeredAnimation staggerDelay={75}>
@@ -276,7 +299,7 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
             </Stack>
           </StaggeredAnimation>
         </PageTransition>
-        
+
         {/* Pagination */}
         {loadedFor && filteredOffers.length > 0 && (
           <Pagination
@@ -288,32 +311,38 @@ export const OffersList: React.FC<OffersListProps> = ({ className = '' }) => {
             showInfo={true}
           />
         )}
-        
+
         {/* No Results Message */}
-        {loadedFor && allOffers.length > 0 && filteredOffers.length === 0 && searchQuery && (
-          <div className="text-center py-12">
-            <div className="text-gray-500 max-w-md mx-auto">
-              <svg
-                className="mx-auto h-10 w-10 sm:h-12 sm:w-12 text-gray-400 mb-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                />
-              </svg>
-              <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No Offers Found</h3>
-              <p className="text-sm sm:text-base text-gray-600 px-4">
-                No offers match your search for "{searchQuery}". Try a different search term.
-              </p>
+        {loadedFor &&
+          allOffers.length > 0 &&
+          filteredOffers.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <div className="text-gray-500 max-w-md mx-auto">
+                <svg
+                  className="mx-auto h-10 w-10 sm:h-12 sm:w-12 text-gray-400 mb-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                  />
+                </svg>
+                <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">
+                  No Offers Found
+                </h3>
+                <p className="text-sm sm:text-base text-gray-600 px-4">
+                  No offers match your search for "{searchQuery}". Try a
+                  different search term.
+                </p>
+              </div>
             </div>
-          </div>
-        )}
+          )}
       </Stack>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,213 @@
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import type { SKU, SKURegionAvailability } from '../../types';
+
+interface RegionAvailabilityMatrixProps {
+  sku: SKU;
+  onLoadAvailability: (
+    sku: SKU,
+    onProgress: (completed: number, total: number) => void,
+    signal: AbortSignal
+  ) => Promise<SKURegionAvailability[]>;
+  className?: string;
+}
+
+/**
+ * RegionAvailabilityMatrix checks a SKU across every region of the subscription
+ * and shows where it exists and the newest version published in each region
+ */
+export const RegionAvailabilityMatrix: React.FC<
+  RegionAvailabilityMatrixProps
+> = ({ sku, onLoadAvailability, className = '' }) => {
+  const [results, setResults] = useState<SKURegionAvailability[]>([]);
+  const [progress, setProgress] = useState({ completed: 0, total: 0 });
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [showUnavailable, setShowUnavailable] = useState(false);
+  // Aborted when the SKU or loader changes, the matrix closes or it retries
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const loadAvailability = useCallback(async () => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+
+    setLoading(true);
+    setError(null);
+    setResults([]);
+    setProgress({ completed: 0, total: 0 });
+
+    try {
+      const availability = await onLoadAvailability(
+        sku,
+        (completed, total) => {
+          if (!controller.signal.aborted) {
+            setProgress({ completed, total });
+          }
+        },
+        controller.signal
+      );
+      if (!controller.signal.aborted) {
+        setResults(availability);
+      }
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Error checking region availability:', err);
+        setError(
+          err instanceof Error ? err.message : 'Failed to check regions'
+        );
+      }
+    } finally {
+      if (!controller.signal.aborted) {
+        setLoading(false);
+      }
+    }
+  }, [sku, onLoadAvailability]);
+
+  useEffect(() => {
+    loadAvailability();
+    return () => {
+      controllerRef.current?.abort();
+    };
+  }, [loadAvailability]);
+
+  const availableCount = results.filter((result) => result.available).length;
+
+  const visibleResults = useMemo(
+    () =>
+      results
+        .filter((result) => showUnavailable || result.available)
+        .sort((a, b) => {
+          if (a.available !== b.available) return a.available ? -1 : 1;
+          return a.displayName.localeCompare(b.displayName);
+        }),
+    [results, showUnavailable]
+  );
+
+  const progressPercent =
+    progress.total > 0
+      ? Math.round((progress.completed / progress.total) * 100)
+      : 0;
+
+  return (
+    <div className={className} data-testid="region-availability-matrix">
+      {loading && (
+        <div className="mb-4">
+          <div className="flex items-center gap-2 mb-2">
+            <LoadingSpinner size="sm" />
+            <span className="text-sm text-gray-600">
+              {progress.total > 0
+                ? `Checked ${progress.completed} of ${progress.total} regions`
+                : 'Loading regions...'}
+            </span>
+          </div>
+          <div className="w-full h-2 bg-gray-200 rounded">
+            <div
+              className="h-2 bg-blue-600 rounded transition-all duration-200"
+              style={{ width: `${progressPercent}%` }}
+              role="progressbar"
+              aria-valuenow={progressPercent}
+              aria-valuemin={0}
+              aria-valuemax={100}
+            />
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="flex items-center justify-between mb-4" role="alert">
+          <span className="text-sm text-red-600">{error}</span>
+          <button
+            onClick={loadAvailability}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        </div>
+      )}
+
+      {!loading && !error && results.length > 0 && (
+        <div className="flex items-center justify-between mb-3">
+          <p className="text-sm text-gray-700">
+            Available in <strong>{availableCount}</strong> of{' '}
+            <strong>{results.length}</strong> regions
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <input
+              type="checkbox"
+              checked={showUnavailable}
+              onChange={(event) => setShowUnavailable(event.target.checked)}
+              className="rounded border-gray-300"
+            />
+            Show unavailable regions
+          </label>
+        </div>
+      )}
+
+      {visibleResults.length > 0 && (
+        <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+          <table className="min-w-full divide-y divide-gray-200 text-sm">
+            <thead className="bg-gray-50 sticky top-0">
+              <tr>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Region
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Available
+                </th>
+                <th className="px-4 py-2 text-left font-medium text-gray-700">
+                  Newest version
+                </th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100 bg-white">
+              {visibleResults.map((result) => (
+                <tr key={result.location}>
+                  <td className="px-4 py-2">
+                    <span className="text-gray-900">{result.displayName}</span>
+                    <span className="ml-2 text-xs text-gray-500 font-mono">
+                      {result.location}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2">
+                    {result.available ? (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                        Yes
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-gray-100 text-gray-600">
+                        No
+                      </span>
+                    )}
+                  </td>
+                  <td className="px-4 py-2 font-mono text-xs text-gray-800">
+                    {result.latestVersion ?? '-'}
+                    {result.versionCount > 1 && (
+                      <span className="ml-2 text-gray-500 font-sans">
+                        ({result.versionCount} versions)
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {!loading && !error && results.length > 0 && availableCount === 0 && (
+        <p className="text-sm text-gray-600 mt-3">
+          This SKU is not published in any region of the subscription.
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default RegionAvailabilityMatrix;
@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import {
+  formatReleaseAge,
+  formatReleaseDate,
+  getReleaseCadence,
+} from '../../utils/imageVersion';
+
+interface ReleaseTimelineProps {
+  versions: string[];
+  publisher: string;
+  now?: Date;
+  className?: string;
+}
+
+/**
+ * ReleaseTimeline plots the estimated release dates of the versions of a SKU
+ * on a time axis, with how often new versions are published. Renders nothing
+ * below two dated releases.
+ */
+export const ReleaseTimeline: React.FC<ReleaseTimelineProps> = ({
+  versions,
+  publisher,
+  now,
+  className = '',
+}) => {
+  const { releases, medianIntervalDays } = useMemo(
+    () => getReleaseCadence(versions, publisher),
+    [versions, publisher]
+  );
+
+  if (releases.length < 2) {
+    return null;
+  }
+
+  const first = Date.parse(releases[0].releaseDate);
+  const last = Date.parse(releases[releases.length - 1].releaseDate);
+  const span = last - first || 1;
+  const latestAge = formatReleaseAge(
+    releases[releases.length - 1].releaseDate,
+    now
+  );
+
+  return (
+    <div
+      className={`border border-gray-200 rounded-md p-3 bg-gray-50 ${className}`}
+      data-testid="release-timeline"
+    >
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-3">
+        <h5 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+          Release cadence
+        </h5>
+        <p className="text-xs text-gray-600">
+          {releases.length} releases
+          {medianIntervalDays !== null &&
+            ` · every ~${medianIntervalDays} day${medianIntervalDays !== 1 ? 's' : ''}`}
+          {latestAge &&
+            ` · newest ${latestAge.charAt(0).toLowerCase()}${latestAge.slice(1)}`}
+        </p>
+      </div>
+      <div className="relative h-6 mx-2" role="list" aria-label="Release dates">
+        <div className="absolute left-0 right-0 top-1/2 h-px bg-gray-300" />
+        {releases.map((release) => (
+          <span
+            key={release.version}
+            role="listitem"
+            className="absolute top-1/2 w-2.5 h-2.5 -ml-1 -mt-1 rounded-full bg-blue-600 border border-white"
+            style={{
+              left: `${((Date.parse(release.releaseDate) - first) / span) * 100}%`,
+            }}
+            title={`${release.version} · ${formatReleaseDate(release.releaseDate)}`}
+          />
+        ))}
+      </div>
+      <div className="flex justify-between mt-1 text-xs text-gray-500">
+        <span>{formatReleaseDate(releases[0].releaseDate)}</span>
+        <span>
+          {formatReleaseDate(releases[releases.length - 1].releaseDate)}
+        </span>
+      </div>
+      <p className="mt-2 text-xs text-gray-500">
+        Dates are estimated from the version numbers.
+      </p>
+    </div>
+  );
+};
+
+export default ReleaseTimeline;
@@ -1,15 +1,66 @@
 import React, { useState, useEffect } from 'react';
 import { Modal } from '../ui/Modal';
 import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
 import { LoadingSpinner } from '../ui/LoadingSpinner';
 import { Stack } from '../layout';
-import type { SKU, VMImageReference } from '../../types';
+import { ImageVersionDetailsPanel } from './ImageVersionDetailsPanel';
+import { VMSizeCompatibilityPanel } from './VMSizeCompatibilityPanel';
+import { ImageVersionDiff } from './ImageVersionDiff';
+import { ReleaseTimeline } from './ReleaseTimeline';
+import { MarketplaceTermsPanel } from './MarketplaceTermsPanel';
+import { DeprecationBadge } from './DeprecationBadge';
+import { SecurityTypeBadges } from './SecurityTypeBadges';
+import {
+  formatDeprecationDate,
+  getAlternativeImagePath,
+  hasDeprecationNotice,
+} from '../../utils/imageDeprecation';
+import {
+  formatReleaseAge,
+  formatReleaseDate,
+  parseImageVersion,
+} from '../../utils/imageVersion';
+import {
+  getDefaultSecurityProfile,
+  hasSecurityCapabilities,
+} from '../../utils/imageSecurity';
+import type {
+  SKU,
+  VMImageReference,
+  ImageVersionDetails,
+  PurchasePlan,
+  MarketplaceAgreement,
+  ImageDeprecationStatus,
+  ImageSecurityCapabilities,
+  VMSize,
+} from '../../types';
 
 interface SKUVersionsModalProps {
   isOpen: boolean;
   onClose: () => void;
   sku: SKU | null;
   onLoadVersions: (sku: SKU) => Promise<string[]>;
+  onLoadVersionDetails?: (
+    sku: SKU,
+    version: string
+  ) => Promise<ImageVersionDetails>;
+  // Purchase plan detected from the SKU's newest version
+  purchasePlan?: PurchasePlan | null;
+  // Deprecation status of the SKU's newest version
+  deprecationStatus?: ImageDeprecationStatus | null;
+  // Security types the SKU's newest version supports
+  security?: ImageSecurityCapabilities | null;
+  // OS of the SKU's newest version, picks the VM type of full VM templates
+  osType?: string | null;
+  // Marketplace terms status and acceptance for plan-based images
+  subscriptionId?: string | null;
+  // Edge zone the versions were browsed in
+  edgeZone?: string | null;
+  onLoadTermsAgreement?: (plan: PurchasePlan) => Promise<MarketplaceAgreement>;
+  onAcceptTerms?: (plan: PurchasePlan) => Promise<MarketplaceAgreement>;
+  // VM sizes of the location, matched against expanded versions
+  onLoadVMSizes?: () => Promise<VMSize[]>;
 }
 
 export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
@@ -17,17 +68,61 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
   onClose,
   sku,
   onLoadVersions,
+  onLoadVersionDetails,
+  purchasePlan = null,
+  deprecationStatus = null,
+  security = null,
+  osType = null,
+  subscriptionId = null,
+  edgeZone = null,
+  onLoadTermsAgreement,
+  onAcceptTerms,
+  onLoadVMSizes,
 }) => {
   const [versions, setVersions] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  // Version detail panel state
+  const [expandedVersion, setExpandedVersion] = useState<string | null>(null);
+  const [versionDetails, setVersionDetails] = useState<
+    Record<string, ImageVersionDetails>
+  >({});
+  // Tracked per version, so loads of several expanded versions don't overlap
+  const [detailsLoading, setDetailsLoading] = useState<Record<string, boolean>>(
+    {}
+  );
+  const [detailsErrors, setDetailsErrors] = useState<Record<string, string>>(
+    {}
+  );
+  // VM sizes of the location, loaded once for every version
+  const [vmSizes, setVMSizes] = useState<VMSize[] | null>(null);
+  const [vmSizesLoading, setVMSizesLoading] = useState(false);
+  const [vmSizesError, setVMSizesError] = useState<string | null>(null);
+  // Emit a securityProfile in the copied templates
+  const [includeSecurityProfile, setIncludeSecurityProfile] = useState(false);
+  // Copy complete VM templates instead of the image reference
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+  // Side-by-side comparison of two versions
+  const [compareMode, setCompareMode] = useState(false);
+  const [compareBase, setCompareBase] = useState('');
+  const [compareTarget, setCompareTarget] = useState('');
+  const [compareLoading, setCompareLoading] = useState(false);
+  const [compareError, setCompareError] = useState<string | null>(null);
 
   useEffect(() => {
     if (isOpen && sku) {
       // Reset state when modal opens
       setVersions([]);
       setError(null);
-      
+      setExpandedVersion(null);
+      setVersionDetails({});
+      setDetailsLoading({});
+      setDetailsErrors({});
+      setVMSizes(null);
+      setVMSizesError(null);
+      setCompareMode(false);
+      setCompareError(null);
+
       // If SKU already has versions, use them
       if (sku.versions && sku.versions.length > 0) {
         setVersions(sku.versions);
@@ -48,10 +143,12 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
     try {
       const loadedVersions = await onLoadVersions(sku);
       console.log('Loaded versions:', loadedVersions);
-      
+
       if (loadedVersions.length === 0) {
         console.warn('No versions returned for SKU:', sku);
-        setError('No versions found for this SKU in the selected region. This SKU may not be available in this location or may not have published versions.');
+        setError(
+          'No versions found for this SKU in the selected region. This SKU may not be available in this location or may not have published versions.'
+        );
       } else {
         setVersions(loadedVersions);
       }
@@ -67,6 +164,120 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
     loadVersions();
   };
 
+  const loadVersionDetails = async (version: string) => {
+    if (!sku || !onLoadVersionDetails) return;
+
+    setDetailsLoading((current) => ({ ...current, [version]: true }));
+    setDetailsErrors((current) => {
+      const next = { ...current };
+      delete next[version];
+      return next;
+    });
+
+    try {
+      const details = await onLoadVersionDetails(sku, version);
+      setVersionDetails((current) => ({ ...current, [version]: details }));
+    } catch (err) {
+      console.error('Error loading version details:', err);
+      setDetailsErrors((current) => ({
+        ...current,
+        [version]:
+          err instanceof Error ? err.message : 'Failed to load version details',
+      }));
+    } finally {
+      setDetailsLoading((current) => ({ ...current, [version]: false }));
+    }
+  };
+
+  const loadVMSizes = async () => {
+    if (!onLoadVMSizes) return;
+
+    setVMSizesLoading(true);
+    setVMSizesError(null);
+
+    try {
+      setVMSizes(await onLoadVMSizes());
+    } catch (err) {
+      console.error('Error loading VM sizes:', err);
+      setVMSizesError(
+        err instanceof Error ? err.message : 'Failed to load VM sizes'
+      );
+    } finally {
+      setVMSizesLoading(false);
+    }
+  };
+
+  const handleToggleDetails = (version: string) => {
+    if (expandedVersion === version) {
+      setExpandedVersion(null);
+      return;
+    }
+
+    setExpandedVersion(version);
+    if (!versionDetails[version] && !detailsLoading[version]) {
+      loadVersionDetails(version);
+    }
+    if (onLoadVMSizes && !vmSizes && !vmSizesLoading) {
+      loadVMSizes();
+    }
+  };
+
+  // 'latest' is an alias of the newest version, so it is not offered for comparison
+  const comparableVersions = versions.filter((version) => version !== 'latest');
+
+  const loadCompareDetails = async (base: string, target: string) => {
+    if (!sku || !onLoadVersionDetails) return;
+
+    const missing = [...new Set([base, target])].filter(
+      (version) => !versionDetails[version]
+    );
+    if (missing.length === 0) return;
+
+    setCompareLoading(true);
+    setCompareError(null);
+
+    try {
+      const loaded = await Promise.all(
+        missing.map((version) => onLoadVersionDetails(sku, version))
+      );
+      setVersionDetails((current) => {
+        const next = { ...current };
+        missing.forEach((version, index) => {
+          next[version] = loaded[index];
+        });
+        return next;
+      });
+    } catch (err) {
+      console.error('Error loading versions to compare:', err);
+      setCompareError(
+        err instanceof Error ? err.message : 'Failed to load version details'
+      );
+    } finally {
+      setCompareLoading(false);
+    }
+  };
+
+  const handleToggleCompare = () => {
+    if (compareMode) {
+      setCompareMode(false);
+      return;
+    }
+
+    // Versions are listed newest first: pin the previous version, compare with the newest
+    const target = comparableVersions[0];
+    const base = comparableVersions[1];
+    setCompareMode(true);
+    setCompareBase(base);
+    setCompareTarget(target);
+    loadCompareDetails(base, target);
+  };
+
+  const handleCompareChange = (base: string, target: string) => {
+    setCompareBase(base);
+    setCompareTarget(target);
+    loadCompareDetails(base, target);
+  };
+
   if (!sku) return null;
 
   return (
@@ -91,25 +302,108 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
                     <span className="font-medium">SKU Name:</span> {sku.name}
                   </p>
                   <p className="text-sm text-gray-600">
-                    <span className="font-medium">Publisher:</span> {sku.publisher}
+                    <span className="font-medium">Publisher:</span>{' '}
+                    {sku.publisher}
                   </p>
                   <p className="text-sm text-gray-600">
                     <span className="font-medium">Offer:</span> {sku.offer}
                   </p>
                   <p className="text-sm text-gray-600">
-                    <span className="font-medium">Location:</span> {sku.location}
+                    <span className="font-medium">Location:</span>{' '}
+                    {sku.location}
                   </p>
+                  {purchasePlan && (
+                    <p className="text-sm text-amber-700">
+                      <span className="font-medium">Purchase plan:</span>{' '}
+                      {purchasePlan.publisher} / {purchasePlan.product} /{' '}
+                      {purchasePlan.name}
+                    </p>
+                  )}
                 </Stack>
               </div>
             </Stack>
           </div>
 
+          {/* Deprecation Notice */}
+          {hasDeprecationNotice(deprecationStatus) && (
+            <div
+              className="border border-orange-200 bg-orange-50 rounded-lg p-4"
+              role="status"
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <DeprecationBadge status={deprecationStatus} />
+                <span className="text-sm text-gray-800">
+                  {deprecationStatus.imageState === 'Deprecated'
+                    ? 'This image is deprecated'
+                    : `This image is scheduled for deprecation on ${formatDeprecationDate(deprecationStatus.scheduledDeprecationTime)}`}
+                </span>
+              </div>
+              {deprecationStatus.alternativeOption && (
+                <p className="text-sm text-gray-700">
+                  Suggested alternative:{' '}
+                  <a
+                    href={getAlternativeImagePath(
+                      sku,
+                      deprecationStatus.alternativeOption
+                    )}
+                    className="text-blue-700 hover:underline"
+                  >
+                    {deprecationStatus.alternativeOption.type === 'Offer'
+                      ? 'offer'
+                      : 'SKU'}{' '}
+                    {deprecationStatus.alternativeOption.value}
+                  </a>
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Marketplace Terms Section */}
+          {purchasePlan && onLoadTermsAgreement && onAcceptTerms && (
+            <MarketplaceTermsPanel
+              plan={purchasePlan}
+              subscriptionId={subscriptionId}
+              onLoadAgreement={onLoadTermsAgreement}
+              onAcceptAgreement={onAcceptTerms}
+            />
+          )}
+
           {/* Versions Section */}
           <div>
             <div className="flex items-center justify-between mb-4">
               <h4 className="text-lg font-medium text-gray-900">
                 Available Versions
               </h4>
+              <div className="flex items-center gap-4">
+                {security && hasSecurityCapabilities(security) && (
+                  <label className="flex items-center gap-2 text-sm text-gray-600">
+                    <input
+                      type="checkbox"
+                      checked={includeSecurityProfile}
+                      onChange={(event) =>
+                        setIncludeSecurityProfile(event.target.checked)
+                      }
+                      className="rounded border-gray-300"
+                    />
+                    Include security profile
+                  </label>
+                )}
+                <FullVMTemplateToggle
+                  checked={fullVMTemplate}
+                  onChange={setFullVMTemplate}
+                />
+                {onLoadVersionDetails &&
+                  !loading &&
+                  comparableVersions.length >= 2 && (
+                    <button
+                      onClick={handleToggleCompare}
+                      className="px-3 py-1 text-sm text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors duration-150"
+                      aria-pressed={compareMode}
+                    >
+                      {compareMode ? 'Close comparison' : 'Compare versions'}
+                    </button>
+                  )}
+              </div>
               {error && (
                 <button
                   onClick={handleRetry}
@@ -123,7 +417,9 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
             {loading ? (
               <div className="flex flex-col items-center justify-center py-12">
                 <LoadingSpinner size="lg" />
-                <p className="text-sm text-gray-500 mt-4">Loading versions...</p>
+                <p className="text-sm text-gray-500 mt-4">
+                  Loading versions...
+                </p>
               </div>
             ) : error ? (
               <div className="text-center py-12">
@@ -148,26 +444,44 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
                   <div className="text-xs text-gray-500 bg-gray-50 p-3 rounded-md text-left">
                     <p className="font-medium mb-2">Possible reasons:</p>
                     <ul className="list-disc list-inside space-y-1">
-                      <li>This SKU may not be available in the selected region ({sku.location})</li>
+                      <li>
+                        This SKU may not be available in the selected region (
+                        {sku.location})
+                      </li>
                       <li>The SKU may not have any published versions yet</li>
                       <li>Your subscription may not have access to this SKU</li>
                       <li>The SKU may have been deprecated</li>
                     </ul>
                     <div className="mt-3 p-2 bg-blue-50 border border-blue-200 rounded">
-                      <p className="text-blue-800 font-medium text-xs mb-1">💡 Suggestion:</p>
+                      <p className="text-blue-800 font-medium text-xs mb-1">
+                        💡 Suggestion:
+                      </p>
                       <p className="text-blue-700 text-xs">
-                        Try switching to <strong>East US</strong> or <strong>East US 2</strong> regions, 
-                        as they typically have the most comprehensive SKU availability.
+                        Try switching to <strong>East US</strong> or{' '}
+                        <strong>East US 2</strong> regions, as they typically
+                        have the most comprehensive SKU availability.
                       </p>
                     </div>
                     <details className="mt-3">
-                      <summary className="cursor-pointer font-medium">Debug Information</summary>
+                      <summary className="cursor-pointer font-medium">
+                        Debug Information
+                      </summary>
                       <div className="mt-2 p-2 bg-gray-100 rounded text-xs font-mono">
-                        <p><strong>Publisher:</strong> {sku.publisher}</p>
-                        <p><strong>Offer:</strong> {sku.offer}</p>
-                        <p><strong>SKU:</strong> {sku.name}</p>
-                        <p><strong>Location:</strong> {sku.location}</p>
-                        <p className="mt-2 text-gray-600">Check browser console for detailed API logs</p>
+                        <p>
+                          <strong>Publisher:</strong> {sku.publisher}
+                        </p>
+                        <p>
+                          <strong>Offer:</strong> {sku.offer}
+                        </p>
+                        <p>
+                          <strong>SKU:</strong> {sku.name}
+                        </p>
+                        <p>
+                          <strong>Location:</strong> {sku.location}
+                        </p>
+                        <p className="mt-2 text-gray-600">
+                          Check browser console for detailed API logs
+                        </p>
                         <button
                           onClick={() => {
                             // Test with a known working SKU
@@ -175,20 +489,29 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
                               ...sku,
                               publisher: 'MicrosoftWindowsServer',
                               offer: 'WindowsServer',
-                              name: '2022-datacenter-g2'
+                              name: '2022-datacenter-g2',
                             };
-                            console.log('Testing with known working SKU:', testSku);
-                            onLoadVersions(testSku).then(versions => {
-                              console.log('Test SKU versions:', versions);
-                              if (versions.length > 0) {
-                                alert(`Test successful! Found ${versions.length} versions for the test SKU. The issue is that your selected SKU doesn't have versions in this region.`);
-                              } else {
-                                alert('Test also returned no versions. There may be an authentication or API issue.');
-                              }
-                            }).catch(err => {
-                              console.error('Test SKU error:', err);
-                              alert('Test failed: ' + err.message);
-                            });
+                            console.log(
+                              'Testing with known working SKU:',
+                              testSku
+                            );
+                            onLoadVersions(testSku)
+                              .then((versions) => {
+                                console.log('Test SKU versions:', versions);
+                                if (versions.length > 0) {
+                                  alert(
+                                    `Test successful! Found ${versions.length} versions for the test SKU. The issue is that your selected SKU doesn't have versions in this region.`
+                                  );
+                                } else {
+                                  alert(
+                                    'Test also returned no versions. There may be an authentication or API issue.'
+                                  );
+                                }
+                              })
+                              .catch((err) => {
+                                console.error('Test SKU error:', err);
+                                alert('Test failed: ' + err.message);
+                              });
                           }}
                           className="mt-2 px-2 py-1 bg-blue-100 text-blue-800 rounded text-xs hover:bg-blue-200"
                         >
@@ -201,48 +524,200 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
               </div>
             ) : versions.length > 0 ? (
               <div>
+                {compareMode && (
+                  <div
+                    className="mb-4 p-4 border border-blue-200 rounded-lg bg-blue-50/40"
+                    data-testid="version-compare"
+                  >
+                    <div className="flex flex-wrap items-end gap-4 mb-3">
+                      <label className="flex flex-col text-xs font-medium text-gray-700">
+                        Pinned version
+                        <select
+                          value={compareBase}
+                          onChange={(event) =>
+                            handleCompareChange(
+                              event.target.value,
+                              compareTarget
+                            )
+                          }
+                          className="mt-1 px-2 py-1 text-sm font-mono border border-gray-300 rounded bg-white"
+                        >
+                          {comparableVersions.map((version) => (
+                            <option key={version} value={version}>
+                              {version}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                      <label className="flex flex-col text-xs font-medium text-gray-700">
+                        Compare with
+                        <select
+                          value={compareTarget}
+                          onChange={(event) =>
+                            handleCompareChange(compareBase, event.target.value)
+                          }
+                          className="mt-1 px-2 py-1 text-sm font-mono border border-gray-300 rounded bg-white"
+                        >
+                          {comparableVersions.map((version) => (
+                            <option key={version} value={version}>
+                              {version}
+                            </option>
+                          ))}
+                        </select>
+                      </label>
+                    </div>
+                    {compareLoading ? (
+                      <div className="flex items-center gap-2 py-3">
+                        <LoadingSpinner size="sm" />
+                        <span className="text-xs text-gray-500">
+                          Loading version details...
+                        </span>
+                      </div>
+                    ) : compareError ? (
+                      <div
+                        className="flex items-center justify-between py-3"
+                        role="alert"
+                      >
+                        <span className="text-xs text-red-600">
+                          {compareError}
+                        </span>
+                        <button
+                          onClick={() =>
+                            loadCompareDetails(compareBase, compareTarget)
+                          }
+                          className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+                        >
+                          Retry
+                        </button>
+                      </div>
+                    ) : versionDetails[compareBase] &&
+                      versionDetails[compareTarget] ? (
+                      <ImageVersionDiff
+                        base={versionDetails[compareBase]}
+                        target={versionDetails[compareTarget]}
+                      />
+                    ) : null}
+                  </div>
+                )}
+                <ReleaseTimeline
+                  className="mb-4"
+                  versions={versions}
+                  publisher={sku.publisher}
+                />
                 <div className="space-y-3 max-h-96 overflow-y-auto">
                   {versions.map((version, index) => {
+                    // Versions share the security types of the SKU's newest version until loaded
+                    const versionSecurity =
+                      versionDetails[version]?.security ?? security;
                     const imageRef: VMImageReference = {
                       publisher: sku.publisher,
                       offer: sku.offer,
                       sku: sku.name,
-                      version: version
+                      version: version,
+                      plan: versionDetails[version]?.plan ?? purchasePlan,
+                      edgeZone,
+                      securityProfile:
+                        includeSecurityProfile && versionSecurity
+                          ? getDefaultSecurityProfile(versionSecurity)
+                          : null,
                     };
 
+                    const isExpanded = expandedVersion === version;
+                    // 'latest' shares the status of the SKU's newest version
+                    const versionDeprecation =
+                      versionDetails[version]?.deprecationStatus ??
+                      (version === 'latest' ? deprecationStatus : null);
+                    const releaseDate =
+                      version === 'latest'
+                        ? null
+                        : parseImageVersion(version, sku.publisher).releaseDate;
+
                     return (
                       <div
                         key={`${sku.name}-${version}-${index}`}
-                        className="flex items-center justify-between p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all duration-150"
+                        className="p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all duration-150"
                       >
-                        <div className="flex-1 min-w-0">
-                          <div className="flex items-center space-x-3">
-                            <span className="text-sm font-mono text-gray-900 truncate">
-                              {version}
-                            </span>
-                            {version === 'latest' && (
-                              <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
-                                Latest
+                        <div className="flex items-center justify-between">
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center space-x-3">
+                              <span className="text-sm font-mono text-gray-900 truncate">
+                                {version}
                               </span>
-                            )}
+                              {version === 'latest' && (
+                                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-green-100 text-green-800">
+                                  Latest
+                                </span>
+                              )}
+                              <DeprecationBadge status={versionDeprecation} />
+                              <SecurityTypeBadges
+                                security={versionDetails[version]?.security}
+                              />
+                            </div>
+                            <p className="text-xs text-gray-500 mt-1">
+                              {version === 'latest' ? (
+                                'Most recent version'
+                              ) : releaseDate ? (
+                                <span title="Estimated from the version number">
+                                  {formatReleaseAge(releaseDate)} ·{' '}
+                                  {formatReleaseDate(releaseDate)}
+                                </span>
+                              ) : (
+                                'Specific version'
+                              )}
+                            </p>
                           </div>
-                          <p className="text-xs text-gray-500 mt-1">
-                            {version === 'latest' ? 'Most recent version' : 'Specific version'}
-                          </p>
+                          {onLoadVersionDetails && (
+                            <button
+                              onClick={() => handleToggleDetails(version)}
+                              className="ml-4 px-3 py-2 text-sm text-blue-700 border border-blue-200 rounded-md hover:bg-blue-50 transition-colors duration-150"
+                              aria-expanded={isExpanded}
+                              aria-label={`${isExpanded ? 'Hide' : 'Show'} details for version ${version}`}
+                            >
+                              {isExpanded ? 'Hide details' : 'Details'}
+                            </button>
+                          )}
+                          <CopyButton
+                            imageReference={imageRef}
+                            mode={fullVMTemplate ? 'fullVM' : 'reference'}
+                            osType={
+                              versionDetails[version]?.osDiskImage
+                                ?.operatingSystem ?? osType
+                            }
+                            location={sku.location}
+                            className="ml-4 flex-shrink-0"
+                          />
                         </div>
-                        <CopyButton 
-                          imageReference={imageRef}
-                          className="ml-4 flex-shrink-0"
-                        />
+                        {isExpanded && (
+                          <ImageVersionDetailsPanel
+                            className="mt-3"
+                            details={versionDetails[version] || null}
+                            loading={!!detailsLoading[version]}
+                            error={detailsErrors[version] ?? null}
+                            onRetry={() => loadVersionDetails(version)}
+                          />
+                        )}
+                        {isExpanded &&
+                          onLoadVMSizes &&
+                          versionDetails[version] && (
+                            <VMSizeCompatibilityPanel
+                              className="mt-3"
+                              details={versionDetails[version]}
+                              sizes={vmSizes}
+                              loading={vmSizesLoading}
+                              error={vmSizesError}
+                              onRetry={loadVMSizes}
+                            />
+                          )}
                       </div>
                     );
                   })}
                 </div>
-                
+
                 <div className="mt-4 pt-4 border-t border-gray-200">
                   <div className="flex items-center justify-between text-sm text-gray-500">
                     <span>
-                      {versions.length} version{versions.length !== 1 ? 's' : ''} available
+                      {versions.length} version
+                      {versions.length !== 1 ? 's' : ''} available
                     </span>
                     <span className="text-xs">
                       Ready for Infrastructure as Code deployment
@@ -270,7 +745,8 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
                     No Versions Available
                   </h3>
                   <p className="text-sm text-gray-600">
-                    This SKU may not have published versions yet, or they may not be available in the selected location.
+                    This SKU may not have published versions yet, or they may
+                    not be available in the selected location.
                   </p>
                 </div>
               </div>
@@ -282,4 +758,4 @@ export const SKUVersionsModal: React.FC<SKUVersionsModalProps> = ({
   );
 };
 
-export default SKUVersionsModal;
\ No newline at end of file
+export default SKUVersionsModal;
@@ -1,20 +1,44 @@
-import React, { useMemo, useState } from 'react';
+import React, {
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from 'react';
 import { useParams } from 'react-router-dom';
-import { useVMImagesStore } from '../../stores/vmImagesStore';
+import { useVMImagesStore, getSkuKey } from '../../stores/vmImagesStore';
 import { BackButton } from '../ui/BackButton';
 import { useTenantAwareServices } from '../../hooks/useTenantAwareServices';
 import { useSubscriptions } from '../../stores/authStore';
-import { useMsal } from '@azure/msal-react';
+import { useImageWatchStore } from '../../stores/imageWatchStore';
+import { useImageUsage } from '../../hooks/useImageUsage';
+import { getImageUsageKey } from '../../services/resourceGraphService';
 
 import { ErrorMessage } from '../ui/ErrorMessage';
 import { SearchFilter } from '../ui/SearchFilter';
 import { Pagination } from '../ui/Pagination';
 import { CopyButton } from '../ui/CopyButton';
 import { SKUsDetailsSkeleton } from '../ui/SkeletonScreens';
-import { PageTransition, StaggeredAnimation, HoverTransition } from '../ui/PageTransition';
+import {
+  PageTransition,
+  StaggeredAnimation,
+  HoverTransition,
+} from '../ui/PageTransition';
 import { ResponsiveGrid, Card, Stack } from '../layout';
 import { SKUVersionsModal } from './SKUVersionsModal';
-import type { SKU } from '../../types';
+import { RegionAvailabilityMatrix } from './RegionAvailabilityMatrix';
+import { DeprecationBadge } from './DeprecationBadge';
+import { SecurityTypeBadges } from './SecurityTypeBadges';
+import { ImageUsageSummary } from './ImageUsageSummary';
+import { Modal } from '../ui/Modal';
+import type {
+  SKU,
+  ImageVersionDetails,
+  PurchasePlan,
+  MarketplaceAgreement,
+  SKURegionAvailability,
+  SKUImageUsage,
+} from '../../types';
 
 interface SKUsDetailsProps {
   className?: string;
@@ -23,15 +47,31 @@ interface SKUsDetailsProps {
 interface SKUCardProps {
   sku: SKU;
   onViewVersions: (sku: SKU) => void;
+  onCheckRegions: (sku: SKU) => void;
+  onToggleSaved: (sku: SKU) => void;
+  isSaved: boolean;
+  latestVersionDetails?: ImageVersionDetails;
+  edgeZone?: string | null;
+  usage?: SKUImageUsage;
 }
 
-const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
+const SKUCard: React.FC<SKUCardProps> = ({
+  sku,
+  onViewVersions,
+  onCheckRegions,
+  onToggleSaved,
+  isSaved,
+  latestVersionDetails,
+  edgeZone = null,
+  usage,
+}) => {
   const handleViewVersions = () => {
     onViewVersions(sku);
   };
 
   const hasVersions = sku.versions && sku.versions.length > 0;
   const versionCount = hasVersions ? sku.versions!.length : 0;
+  const purchasePlan = latestVersionDetails?.plan ?? null;
 
   return (
     <HoverTransition hoverShadow hoverBorder>
@@ -39,9 +79,25 @@ const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
         <Stack direction="vertical" spacing="md" className="h-full">
           {/* Header */}
           <div>
-            <h3 className="text-lg sm:text-xl font-semibold text-gray-900 mb-3">
-              {sku.displayName}
-            </h3>
+            <div className="flex items-start justify-between gap-2 mb-3">
+              <h3 className="text-lg sm:text-xl font-semibold text-gray-900">
+                {sku.displayName}
+              </h3>
+              <div className="flex flex-wrap justify-end gap-1">
+                <DeprecationBadge
+                  status={latestVersionDetails?.deprecationStatus}
+                />
+                <SecurityTypeBadges security={latestVersionDetails?.security} />
+                {purchasePlan && (
+                  <span
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap"
+                    title={`Purchase plan: ${purchasePlan.publisher} / ${purchasePlan.product} / ${purchasePlan.name}`}
+                  >
+                    Requires plan
+                  </span>
+                )}
+              </div>
+            </div>
             <Stack direction="vertical" spacing="xs">
               <p className="text-xs sm:text-sm text-gray-600">
                 <span className="font-medium">SKU Name:</span> {sku.name}
@@ -56,6 +112,7 @@ const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
                 <span className="font-medium">Location:</span> {sku.location}
               </p>
             </Stack>
+            <ImageUsageSummary usage={usage} className="mt-3" />
           </div>
 
           {/* Versions Section */}
@@ -69,10 +126,9 @@ const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
                   Available Versions
                 </h4>
                 <p className="text-xs sm:text-sm text-gray-500 group-hover:text-blue-700">
-                  {hasVersions 
+                  {hasVersions
                     ? `${versionCount} version${versionCount !== 1 ? 's' : ''} available`
-                    : 'Click to load versions'
-                  }
+                    : 'Click to load versions'}
                 </p>
               </div>
               <div className="flex items-center space-x-2">
@@ -106,20 +162,36 @@ const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
               align="center"
               responsive={{
                 sm: { direction: 'vertical', align: 'start', spacing: 'sm' },
-                md: { direction: 'horizontal', align: 'center' }
+                md: { direction: 'horizontal', align: 'center' },
               }}
             >
-              <div className="text-xs sm:text-sm text-gray-600">
-                Ready for Infrastructure as Code
+              <div className="flex items-center gap-4">
+                <button
+                  onClick={() => onCheckRegions(sku)}
+                  className="text-xs sm:text-sm text-blue-700 hover:text-blue-900 hover:underline"
+                >
+                  Check regions
+                </button>
+                <button
+                  onClick={() => onToggleSaved(sku)}
+                  className="text-xs sm:text-sm text-blue-700 hover:text-blue-900 hover:underline"
+                  aria-pressed={isSaved}
+                  title="Saved images are tracked on the deprecations page"
+                >
+                  {isSaved ? 'Saved' : 'Save'}
+                </button>
               </div>
               {hasVersions && (
-                <CopyButton 
+                <CopyButton
                   imageReference={{
                     publisher: sku.publisher,
                     offer: sku.offer,
                     sku: sku.name,
-                    version: sku.versions![0] // Use first version as default
+                    version: sku.versions![0], // Use first version as default
+                    plan: purchasePlan,
+                    edgeZone,
                   }}
+                  location={sku.location}
                   className="w-full sm:w-auto"
                 />
               )}
@@ -132,15 +204,19 @@ const SKUCard: React.FC<SKUCardProps> = ({ sku, onViewVersions }) => {
 };
 
 export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
-  const { publisherName, offerName } = useParams<{ publisherName: string; offerName: string }>();
-  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { publisherName, offerName } = useParams<{
+    publisherName: string;
+    offerName: string;
+  }>();
+  const { selectedSubscription, selectedLocation, selectedEdgeZone } =
+    useSubscriptions();
   const tenantAwareServices = useTenantAwareServices();
-  const { accounts } = useMsal();
-  
+
   // Modal state
   const [selectedSku, setSelectedSku] = useState<SKU | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
-  
+  const [regionMatrixSku, setRegionMatrixSku] = useState<SKU | null>(null);
+
   // Get individual state pieces to avoid object recreation
   const allSkus = useVMImagesStore((state) => state.skus);
   const filteredSkus = useVMImagesStore((state) => state.filteredSkus);
@@ -152,46 +228,137 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
   const setSearchQuery = useVMImagesStore((state) => state.setSkusSearch);
   const setSkusPage = useVMImagesStore((state) => state.setSkusPage);
   const clearSearch = useVMImagesStore((state) => state.clearSearch);
-  
+  const skuVersionDetails = useVMImagesStore(
+    (state) => state.skuVersionDetails
+  );
+  const setSkuVersionDetails = useVMImagesStore(
+    (state) => state.setSkuVersionDetails
+  );
+  const watchedImages = useImageWatchStore((state) => state.images);
+  const recordImage = useImageWatchStore((state) => state.recordImage);
+  const toggleSaved = useImageWatchStore((state) => state.toggleSaved);
+  const { usageBySku } = useImageUsage();
+  // SKUs whose newest version details were already requested
+  const requestedDetails = useRef<Set<string>>(new Set());
+  // Bumped when the region or SKU list changes, so late responses are dropped
+  const detailsGeneration = useRef(0);
+
   // Clear search when component mounts (when navigating to SKUs)
   React.useEffect(() => {
     clearSearch();
   }, []); // Only run on mount
-  
+
   // Decode URL parameters
-  const decodedPublisherName = publisherName ? decodeURIComponent(publisherName) : null;
+  const decodedPublisherName = publisherName
+    ? decodeURIComponent(publisherName)
+    : null;
   const decodedOfferName = offerName ? decodeURIComponent(offerName) : null;
 
   // Function to load versions on demand
   const handleLoadVersions = async (sku: SKU): Promise<string[]> => {
-    console.log('handleLoadVersions called with:', {
-      sku,
+    if (!selectedSubscription || !selectedLocation || !tenantAwareServices) {
+      throw new Error('Missing authentication or subscription information');
+    }
+
+    return await tenantAwareServices.vmImagesService.getSKUVersions(
       selectedSubscription,
+      sku.publisher,
+      sku.offer,
+      sku.name,
       selectedLocation,
-      accountsLength: accounts?.length || 0
-    });
+      selectedEdgeZone
+    );
+  };
 
+  // Function to load the full details of a single version on demand
+  const handleLoadVersionDetails = async (
+    sku: SKU,
+    version: string
+  ): Promise<ImageVersionDetails> => {
     if (!selectedSubscription || !selectedLocation || !tenantAwareServices) {
       throw new Error('Missing authentication or subscription information');
     }
-    
-    console.log('Calling getSKUVersions with:', {
-      subscriptionId: selectedSubscription,
-      publisher: sku.publisher,
-      offer: sku.offer,
-      skuName: sku.name,
-      location: selectedLocation
-    });
 
-    return await tenantAwareServices.vmImagesService.getSKUVersions(
+    return await tenantAwareServices.vmImagesService.getImageVersionDetails(
       selectedSubscription,
       sku.publisher,
       sku.offer,
       sku.name,
+      version,
+      selectedLocation,
+      selectedEdgeZone
+    );
+  };
+
+  // VM sizes of the selected location, for the size compatibility list
+  const handleLoadVMSizes = async () => {
+    if (!selectedSubscription || !selectedLocation || !tenantAwareServices) {
+      throw new Error('Missing authentication or subscription information');
+    }
+
+    return await tenantAwareServices.resourceSkuService.getVMSizes(
+      selectedSubscription,
       selectedLocation
     );
   };
 
+  // Marketplace terms status for plan-based images in the selected subscription
+  const handleLoadTermsAgreement = async (
+    plan: PurchasePlan
+  ): Promise<MarketplaceAgreement> => {
+    if (!selectedSubscription || !tenantAwareServices) {
+      throw new Error('Missing authentication or subscription information');
+    }
+
+    return await tenantAwareServices.marketplaceTermsService.getAgreement(
+      selectedSubscription,
+      plan
+    );
+  };
+
+  const handleAcceptTerms = async (
+    plan: PurchasePlan
+  ): Promise<MarketplaceAgreement> => {
+    if (!selectedSubscription || !tenantAwareServices) {
+      throw new Error('Missing authentication or subscription information');
+    }
+
+    return await tenantAwareServices.marketplaceTermsService.acceptAgreement(
+      selectedSubscription,
+      plan
+    );
+  };
+
+  // Fan a SKU out across every physical region of the subscription
+  // Stable per subscription, so the matrix reloads when the subscription changes
+  const handleLoadRegionAvailability = useCallback(
+    async (
+      sku: SKU,
+      onProgress: (completed: number, total: number) => void,
+      signal: AbortSignal
+    ): Promise<SKURegionAvailability[]> => {
+      if (!selectedSubscription || !tenantAwareServices) {
+        throw new Error('Missing authentication or subscription information');
+      }
+
+      const locations =
+        await tenantAwareServices.subscriptionService.getLocations(
+          selectedSubscription,
+          signal
+        );
+
+      return await tenantAwareServices.vmImagesService.getSKURegionAvailability(
+        selectedSubscription,
+        sku.publisher,
+        sku.offer,
+        sku.name,
+        locations.filter((location) => location.regionType !== 'Logical'),
+        { onProgress, signal }
+      );
+    },
+    [selectedSubscription, tenantAwareServices]
+  );
+
   // Handle opening the versions modal
   const handleViewVersions = (sku: SKU) => {
     setSelectedSku(sku);
@@ -203,14 +370,14 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
     setIsModalOpen(false);
     setSelectedSku(null);
   };
-  
+
   // Memoize computed values
   const paginatedData = useMemo(() => {
     const { currentPage = 1, itemsPerPage = 8 } = paginationState || {};
     const startIndex = (currentPage - 1) * itemsPerPage;
     const endIndex = startIndex + itemsPerPage;
     const skus = filteredSkus.slice(startIndex, endIndex);
-    
+
     return {
       skus,
       pagination: {
@@ -221,9 +388,66 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
       },
     };
   }, [filteredSkus, paginationState]);
-  
+
   const { skus, pagination } = paginatedData;
 
+  // Forget requested details when the subscription, region or offer changes
+  useEffect(() => {
+    requestedDetails.current.clear();
+    detailsGeneration.current += 1;
+  }, [selectedSubscription, selectedLocation, selectedEdgeZone, loadedFor]);
+
+  // Load the newest version details of the visible SKUs, batched into ARM
+  // batch calls, to detect purchase plans and deprecations; browsed SKUs
+  // feed the deprecation calendar
+  useEffect(() => {
+    if (!selectedSubscription || !selectedLocation || !tenantAwareServices)
+      return;
+
+    const pending = skus.filter((sku) => {
+      const key = getSkuKey(sku);
+      return !skuVersionDetails?.[key] && !requestedDetails.current.has(key);
+    });
+    if (pending.length === 0) return;
+    pending.forEach((sku) => requestedDetails.current.add(getSkuKey(sku)));
+    const generation = detailsGeneration.current;
+
+    tenantAwareServices.vmImagesService
+      .getLatestVersionDetailsForSKUs(
+        selectedSubscription,
+        pending,
+        selectedLocation,
+        selectedEdgeZone
+      )
+      .then((results) => {
+        if (generation !== detailsGeneration.current) return;
+        results.forEach((result, index) => {
+          const sku = pending[index];
+          if (result.ok) {
+            setSkuVersionDetails(getSkuKey(sku), result.data);
+            recordImage(sku, result.data.deprecationStatus);
+          } else {
+            console.warn(
+              `Could not load version details for ${getSkuKey(sku)}:`,
+              result.error
+            );
+          }
+        });
+      })
+      .catch((err) => {
+        console.warn('Could not load version details:', err);
+      });
+  }, [
+    skus,
+    skuVersionDetails,
+    selectedSubscription,
+    selectedLocation,
+    selectedEdgeZone,
+    tenantAwareServices,
+    setSkuVersionDetails,
+    recordImage,
+  ]);
+
   const handleSearch = (query: string) => {
     setSearchQuery(query);
     // Reset to first page when searching
@@ -262,9 +486,9 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
           {/* Header with Back Button - Always show */}
           <div>
             <div className="flex items-center gap-4 mb-4">
-              <BackButton 
-                to={`/publishers/${publisherName}/offers`} 
-                label="Back to Offers" 
+              <BackButton
+                to={`/publishers/${publisherName}/offers`}
+                label="Back to Offers"
               />
             </div>
             <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
@@ -272,14 +496,16 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
             </h2>
             <Stack direction="vertical" spacing="xs" className="mt-2">
               <p className="text-sm sm:text-base text-gray-600">
-                <span className="font-medium">Publisher:</span> {decodedPublisherName}
+                <span className="font-medium">Publisher:</span>{' '}
+                {decodedPublisherName}
               </p>
               <p className="text-sm sm:text-base text-gray-600">
-                Available SKUs and their versions for Infrastructure as Code deployment
+                Available SKUs and their versions for Infrastructure as Code
+                deployment
               </p>
             </Stack>
           </div>
-          
+
           {/* Search Filter - Always show when data is loaded */}
           <SearchFilter
             placeholder="Search SKUs..."
@@ -287,7 +513,7 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
             onSearch={handleSearch}
             className="max-w-md"
           />
-          
+
           {/* No SKUs Found Message */}
           <div className={`text-center py-12`}>
             <div className="text-gray-500">
@@ -304,7 +530,9 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
                   d="M20 13V6a2 2 0 00-2-2H6a2 2 0 00-2 2v7m16 0v5a2 2 0 01-2 2H6a2 2 0 01-2-2v-5m16 0h-2M4 13h2m13-8l-4 4m0 0l-4-4m4 4V3"
                 />
               </svg>
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No SKUs Found</h3>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">
+                No SKUs Found
+              </h3>
               <p className="text-gray-600">
                 No SKUs are available for the selected offer.
               </p>
@@ -320,10 +548,7 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
     return (
       <div className={className}>
         <div className="flex items-center gap-4 mb-4">
-          <BackButton 
-            to="/publishers" 
-            label="Back to Publishers" 
-          />
+          <BackButton to="/publishers" label="Back to Publishers" />
         </div>
         <div className={`text-center py-12`}>
           <div className="text-gray-500">
@@ -340,9 +565,12 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
                 d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z"
               />
             </svg>
-            <h3 className="text-lg font-medium text-gray-900 mb-2">Invalid URL</h3>
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              Invalid URL
+            </h3>
             <p className="text-gray-600">
-              Please navigate to this page through the proper publisher and offer selection.
+              Please navigate to this page through the proper publisher and
+              offer selection.
             </p>
           </div>
         </div>
@@ -356,9 +584,9 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
         {/* Header with Back Button - Always show */}
         <div>
           <div className="flex items-center gap-4 mb-4">
-            <BackButton 
-              to={`/publishers/${publisherName}/offers`} 
-              label="Back to Offers" 
+            <BackButton
+              to={`/publishers/${publisherName}/offers`}
+              label="Back to Offers"
             />
           </div>
           <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
@@ -366,14 +594,16 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
           </h2>
           <Stack direction="vertical" spacing="xs" className="mt-2">
             <p className="text-sm sm:text-base text-gray-600">
-              <span className="font-medium">Publisher:</span> {decodedPublisherName}
+              <span className="font-medium">Publisher:</span>{' '}
+              {decodedPublisherName}
             </p>
             <p className="text-sm sm:text-base text-gray-600">
-              Available SKUs and their versions for Infrastructure as Code deployment
+              Available SKUs and their versions for Infrastructure as Code
+              deployment
             </p>
           </Stack>
         </div>
-        
+
         {/* Search Filter - Always show when data is loaded */}
         {loadedFor && (
           <SearchFilter
@@ -383,7 +613,7 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
             className="max-w-md"
           />
         )}
-        
+
         {/* SKUs Grid */}
         <PageTransition transitionKey={`skus-${skus.length}`}>
           <StaggeredAnimation staggerDelay={100}>
@@ -397,12 +627,26 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
                   key={`${sku.publisher}-${sku.offer}-${sku.name}`}
                   sku={sku}
                   onViewVersions={handleViewVersions}
+                  onCheckRegions={setRegionMatrixSku}
+                  onToggleSaved={(savedSku) =>
+                    toggleSaved(
+                      savedSku,
+                      skuVersionDetails?.[getSkuKey(savedSku)]
+                        ?.deprecationStatus
+                    )
+                  }
+                  isSaved={!!watchedImages?.[getSkuKey(sku)]?.saved}
+                  latestVersionDetails={skuVersionDetails?.[getSkuKey(sku)]}
+                  edgeZone={selectedEdgeZone}
+                  usage={usageBySku.get(
+                    getImageUsageKey(sku.publisher, sku.offer, sku.name)
+                  )}
                 />
               ))}
             </ResponsiveGrid>
           </StaggeredAnimation>
         </PageTransition>
-        
+
         {/* Pagination */}
         {loadedFor && filteredSkus.length > 0 && (
           <Pagination
@@ -414,31 +658,37 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
             showInfo={true}
           />
         )}
-        
+
         {/* No Results Message */}
-        {loadedFor && allSkus.length > 0 && filteredSkus.length === 0 && searchQuery && (
-          <div className="text-center py-12">
-            <div className="text-gray-500 max-w-md mx-auto">
-              <svg
-                className="mx-auto h-10 w-10 sm:h-12 sm:w-12 text-gray-400 mb-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
-              >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
-                />
-              </svg>
-              <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">No SKUs Found</h3>
-              <p className="text-sm sm:text-base text-gray-600 px-4">
-                No SKUs match your search for "{searchQuery}". Try a different search term.
-              </p>
+        {loadedFor &&
+          allSkus.length > 0 &&
+          filteredSkus.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <div className="text-gray-500 max-w-md mx-auto">
+                <svg
+                  className="mx-auto h-10 w-10 sm:h-12 sm:w-12 text-gray-400 mb-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z"
+                  />
+                </svg>
+                <h3 className="text-base sm:text-lg font-medium text-gray-900 mb-2">
+                  No SKUs Found
+                </h3>
+                <p className="text-sm sm:text-base text-gray-600 px-4">
+                  No SKUs match your search for "{searchQuery}". Try a different
+                  search term.
+                </p>
+              </div>
             </div>
-          </div>
-        )}
+          )}
       </Stack>
 
       {/* SKU Versions Modal */}
@@ -447,7 +697,52 @@ export const SKUsDetails: React.FC<SKUsDetailsProps> = ({ className = '' }) => {
         onClose={handleCloseModal}
         sku={selectedSku}
         onLoadVersions={handleLoadVersions}
+        onLoadVersionDetails={handleLoadVersionDetails}
+        purchasePlan={
+          selectedSku
+            ? (skuVersionDetails?.[getSkuKey(selectedSku)]?.plan ?? null)
+            : null
+        }
+        deprecationStatus={
+          selectedSku
+            ? (skuVersionDetails?.[getSkuKey(selectedSku)]?.deprecationStatus ??
+              null)
+            : null
+        }
+        security={
+          selectedSku
+            ? (skuVersionDetails?.[getSkuKey(selectedSku)]?.security ?? null)
+            : null
+        }
+        osType={
+          selectedSku
+            ? (skuVersionDetails?.[getSkuKey(selectedSku)]?.osDiskImage
+                ?.operatingSystem ?? null)
+            : null
+        }
+        subscriptionId={selectedSubscription}
+        edgeZone={selectedEdgeZone}
+        onLoadTermsAgreement={handleLoadTermsAgreement}
+        onAcceptTerms={handleAcceptTerms}
+        onLoadVMSizes={handleLoadVMSizes}
       />
+
+      {/* Region Availability Matrix */}
+      <Modal
+        isOpen={!!regionMatrixSku}
+        onClose={() => setRegionMatrixSku(null)}
+        title={`Region Availability - ${regionMatrixSku?.displayName ?? ''}`}
+        size="xl"
+      >
+        {regionMatrixSku && (
+          <div className="p-6">
+            <RegionAvailabilityMatrix
+              sku={regionMatrixSku}
+              onLoadAvailability={handleLoadRegionAvailability}
+            />
+          </div>
+        )}
+      </Modal>
     </div>
   );
-};
\ No newline at end of file
+};
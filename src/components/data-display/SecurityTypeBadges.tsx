@@ -0,0 +1,56 @@
+import React from 'react';
+import type {
+  ImageSecurityCapabilities,
+  ImageSecuritySupport,
+} from '../../types';
+
+interface SecurityTypeBadgesProps {
+  security: ImageSecurityCapabilities | null | undefined;
+  className?: string;
+}
+
+const describeSupport = (label: string, support: ImageSecuritySupport) =>
+  `${support === 'required' ? 'Requires' : 'Supports'} ${label}`;
+
+/**
+ * SecurityTypeBadges shows whether an image version supports Trusted Launch
+ * and confidential VMs. Renders nothing for standard-only images.
+ */
+export const SecurityTypeBadges: React.FC<SecurityTypeBadgesProps> = ({
+  security,
+  className = '',
+}) => {
+  if (!security) {
+    return null;
+  }
+
+  const badges = [
+    {
+      label: 'Trusted Launch',
+      support: security.trustedLaunch,
+      classes: 'bg-emerald-100 text-emerald-800',
+    },
+    {
+      label: 'Confidential VM',
+      support: security.confidentialVM,
+      classes: 'bg-indigo-100 text-indigo-800',
+    },
+  ].filter(({ support }) => support !== 'unsupported');
+
+  return (
+    <>
+      {badges.map(({ label, support, classes }) => (
+        <span
+          key={label}
+          className={`inline-flex items-center px-2 py-1 rounded-full text-xs font-medium whitespace-nowrap ${classes} ${className}`}
+          title={describeSupport(label, support)}
+        >
+          {label}
+          {support === 'required' && ' only'}
+        </span>
+      ))}
+    </>
+  );
+};
+
+export default SecurityTypeBadges;
@@ -0,0 +1,237 @@
+import React, { useCallback, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { useSharedGalleryStore } from '../../stores/sharedGalleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { SharedGallery, SharedGalleryKind } from '../../types';
+
+interface SharedGalleriesGridProps {
+  className?: string;
+}
+
+interface SharedGalleryCardProps {
+  gallery: SharedGallery;
+  onClick: (gallery: SharedGallery) => void;
+}
+
+const matchesGallery = (gallery: SharedGallery, query: string): boolean =>
+  gallery.name.toLowerCase().includes(query) ||
+  gallery.uniqueId.toLowerCase().includes(query);
+
+const MODES: { kind: SharedGalleryKind; label: string }[] = [
+  { kind: 'shared', label: 'Shared with me' },
+  { kind: 'community', label: 'Community' },
+];
+
+const SharedGalleryCard: React.FC<SharedGalleryCardProps> = ({
+  gallery,
+  onClick,
+}) => {
+  return (
+    <HoverTransition hoverScale hoverShadow hoverBorder>
+      <Card
+        variant="default"
+        padding="md"
+        clickable
+        onClick={() => onClick(gallery)}
+        className="h-full"
+        aria-label={`View images shared through ${gallery.name}`}
+      >
+        <Stack direction="vertical" spacing="sm" className="h-full">
+          <div className="flex-1">
+            <h3 className="text-base sm:text-lg font-semibold text-gray-900 mb-3 break-all">
+              {gallery.name}
+            </h3>
+            <p className="text-xs sm:text-sm text-gray-600">
+              <span className="font-medium">Location:</span> {gallery.location}
+            </p>
+          </div>
+
+          <div className="pt-3 border-t border-gray-100">
+            <div className="flex items-center text-blue-600 text-xs sm:text-sm font-medium">
+              View Images
+            </div>
+          </div>
+        </Stack>
+      </Card>
+    </HoverTransition>
+  );
+};
+
+export const SharedGalleriesGrid: React.FC<SharedGalleriesGridProps> = ({
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const galleries = useSharedGalleryStore((state) => state.galleries);
+  const loading = useSharedGalleryStore((state) => state.loading);
+  const error = useSharedGalleryStore((state) => state.error);
+  const loadedFor = useSharedGalleryStore((state) => state.loadedGalleries);
+  const [mode, setMode] = useState<SharedGalleryKind>('shared');
+  const [publicGalleryName, setPublicGalleryName] = useState('');
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(galleries, matchesGallery, 12);
+
+  const handleGalleryClick = useCallback(
+    (gallery: SharedGallery) => {
+      navigate(
+        `/shared-galleries/shared/${encodeURIComponent(gallery.name)}/images`
+      );
+    },
+    [navigate]
+  );
+
+  const handleCommunitySubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    const name = publicGalleryName.trim();
+    if (name) {
+      navigate(
+        `/shared-galleries/community/${encodeURIComponent(name)}/images`
+      );
+    }
+  };
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Community and Shared Galleries
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            Images published to the community or shared directly with your
+            subscription in the selected location
+          </p>
+        </div>
+
+        <div
+          className="inline-flex rounded-md shadow-sm self-start"
+          role="group"
+          aria-label="Gallery source"
+        >
+          {MODES.map(({ kind, label }, index) => (
+            <button
+              key={kind}
+              type="button"
+              onClick={() => setMode(kind)}
+              aria-pressed={mode === kind}
+              className={`px-4 py-2 text-sm font-medium border border-gray-300 ${
+                index === 0 ? 'rounded-l-md' : 'rounded-r-md -ml-px'
+              } ${
+                mode === kind
+                  ? 'bg-blue-600 text-white border-blue-600'
+                  : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        {mode === 'community' ? (
+          <form
+            onSubmit={handleCommunitySubmit}
+            className="flex flex-col sm:flex-row gap-2 max-w-xl"
+          >
+            <label htmlFor="public-gallery-name" className="sr-only">
+              Public gallery name
+            </label>
+            <input
+              id="public-gallery-name"
+              type="text"
+              value={publicGalleryName}
+              onChange={(event) => setPublicGalleryName(event.target.value)}
+              placeholder="Public gallery name, e.g. ContosoImages-1a2b3c4d-..."
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!publicGalleryName.trim()}
+              className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Browse gallery
+            </button>
+          </form>
+        ) : loading ? (
+          <div className="flex justify-center py-12">
+            <LoadingSpinner size="lg" />
+          </div>
+        ) : error ? (
+          <ErrorMessage
+            message={error}
+            title="Failed to load shared galleries"
+            onRetry={() => window.location.reload()}
+          />
+        ) : (
+          <>
+            {loadedFor && galleries.length > 0 && (
+              <SearchFilter
+                placeholder="Search shared galleries..."
+                value={searchQuery}
+                onSearch={setSearchQuery}
+                className="max-w-md"
+              />
+            )}
+
+            {loadedFor && galleries.length === 0 && (
+              <div className="text-center py-12">
+                <h3 className="text-lg font-medium text-gray-900 mb-2">
+                  No Shared Galleries Found
+                </h3>
+                <p className="text-gray-600">
+                  No galleries are shared directly with this subscription in{' '}
+                  {loadedFor}.
+                </p>
+              </div>
+            )}
+
+            {galleries.length > 0 &&
+              filteredItems.length === 0 &&
+              searchQuery && (
+                <div className="text-center py-12">
+                  <p className="text-gray-600">
+                    No shared galleries match your search for "{searchQuery}".
+                  </p>
+                </div>
+              )}
+
+            <ResponsiveGrid
+              cols={{ xs: 1, sm: 2, md: 2, lg: 3, xl: 4 }}
+              gap="md"
+            >
+              {pageItems.map((gallery) => (
+                <SharedGalleryCard
+                  key={gallery.uniqueId || gallery.name}
+                  gallery={gallery}
+                  onClick={handleGalleryClick}
+                />
+              ))}
+            </ResponsiveGrid>
+
+            <Pagination
+              currentPage={currentPage}
+              totalPages={totalPages}
+              onPageChange={setCurrentPage}
+              itemsPerPage={itemsPerPage}
+              totalItems={filteredItems.length}
+              showInfo={true}
+            />
+          </>
+        )}
+      </Stack>
+    </div>
+  );
+};
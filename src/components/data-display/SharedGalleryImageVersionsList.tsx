@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { useParams } from 'react-router-dom';
+import { useSharedGalleryStore } from '../../stores/sharedGalleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { createSharedGalleryImageReference } from '../../utils/iacFormats';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
+import { Stack } from '../layout';
+import type { SharedGalleryImageVersion, SharedGalleryKind } from '../../types';
+
+interface SharedGalleryImageVersionsListProps {
+  className?: string;
+}
+
+const matchesVersion = (
+  version: SharedGalleryImageVersion,
+  query: string
+): boolean => version.name.toLowerCase().includes(query);
+
+const formatDate = (value?: string): string | null =>
+  value ? new Date(value).toLocaleDateString() : null;
+
+export const SharedGalleryImageVersionsList: React.FC<
+  SharedGalleryImageVersionsListProps
+> = ({ className = '' }) => {
+  const { kind, galleryName, imageName } = useParams<{
+    kind: SharedGalleryKind;
+    galleryName: string;
+    imageName: string;
+  }>();
+  const imageVersions = useSharedGalleryStore((state) => state.imageVersions);
+  const images = useSharedGalleryStore((state) => state.images);
+  const loading = useSharedGalleryStore((state) => state.loading);
+  const error = useSharedGalleryStore((state) => state.error);
+  const loadedFor = useSharedGalleryStore((state) => state.loadedImageVersions);
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+
+  const decodedImageName = imageName ? decodeURIComponent(imageName) : '';
+  const image = images.find((item) => item.name === decodedImageName);
+  const galleryKind: SharedGalleryKind =
+    kind === 'community' ? 'community' : 'shared';
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(imageVersions, matchesVersion, 10);
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load image versions"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton
+              to={`/shared-galleries/${galleryKind}/${galleryName}/images`}
+              label="Back to Images"
+            />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Versions of {decodedImageName}
+          </h2>
+          <Stack direction="vertical" spacing="xs" className="mt-2">
+            <p className="text-sm sm:text-base text-gray-600 break-all">
+              <span className="font-medium">Gallery:</span>{' '}
+              {galleryName ? decodeURIComponent(galleryName) : ''}
+            </p>
+            {image && (
+              <p className="text-sm sm:text-base text-gray-600">
+                <span className="font-medium">OS:</span> {image.osType} (
+                {image.osState})
+              </p>
+            )}
+          </Stack>
+        </div>
+
+        {loadedFor && imageVersions.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <SearchFilter
+              placeholder="Search versions..."
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              className="max-w-md flex-1"
+            />
+            <FullVMTemplateToggle
+              checked={fullVMTemplate}
+              onChange={setFullVMTemplate}
+            />
+          </div>
+        )}
+
+        {loadedFor && imageVersions.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Versions Found
+            </h3>
+            <p className="text-gray-600">
+              This image has no versions shared in {loadedFor.location}.
+            </p>
+          </div>
+        )}
+
+        {imageVersions.length > 0 &&
+          filteredItems.length === 0 &&
+          searchQuery && (
+            <div className="text-center py-12">
+              <p className="text-gray-600">
+                No versions match your search for "{searchQuery}".
+              </p>
+            </div>
+          )}
+
+        <div className="space-y-3">
+          {pageItems.map((version) => (
+            <div
+              key={version.uniqueId}
+              className="p-4 bg-white border border-gray-200 rounded-lg hover:border-gray-300 hover:shadow-sm transition-all duration-150"
+            >
+              <div className="flex items-center justify-between gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-mono text-gray-900">
+                      {version.name}
+                    </span>
+                    {version.excludeFromLatest && (
+                      <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-700">
+                        Excluded from latest
+                      </span>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {formatDate(version.publishedDate) &&
+                      `Published ${formatDate(version.publishedDate)}`}
+                    {version.endOfLifeDate &&
+                      ` · End of life ${formatDate(version.endOfLifeDate)}`}
+                  </p>
+                </div>
+                <CopyButton
+                  imageReference={createSharedGalleryImageReference(
+                    galleryKind,
+                    version.uniqueId,
+                    image?.purchasePlan ?? null
+                  )}
+                  mode={fullVMTemplate ? 'fullVM' : 'reference'}
+                  osType={image?.osType}
+                  location={version.location}
+                  className="flex-shrink-0"
+                />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
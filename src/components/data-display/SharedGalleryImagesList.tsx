@@ -0,0 +1,271 @@
+import React, { useCallback, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { useSharedGalleryStore } from '../../stores/sharedGalleryStore';
+import { usePagedSearch } from '../../hooks/usePagedSearch';
+import { createSharedGalleryImageReference } from '../../utils/iacFormats';
+import { BackButton } from '../ui/BackButton';
+import { ErrorMessage } from '../ui/ErrorMessage';
+import { SearchFilter } from '../ui/SearchFilter';
+import { Pagination } from '../ui/Pagination';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { CopyButton } from '../ui/CopyButton';
+import { FullVMTemplateToggle } from '../ui/FullVMTemplateToggle';
+import { HoverTransition } from '../ui/PageTransition';
+import { ResponsiveGrid, Card, Stack } from '../layout';
+import type { SharedGalleryImage } from '../../types';
+
+interface SharedGalleryImagesListProps {
+  className?: string;
+}
+
+interface SharedGalleryImageCardProps {
+  image: SharedGalleryImage;
+  fullVMTemplate: boolean;
+  onViewVersions: (image: SharedGalleryImage) => void;
+}
+
+const matchesImage = (image: SharedGalleryImage, query: string): boolean =>
+  [
+    image.name,
+    image.identifier.publisher,
+    image.identifier.offer,
+    image.identifier.sku,
+  ].some((value) => value.toLowerCase().includes(query));
+
+const SharedGalleryImageCard: React.FC<SharedGalleryImageCardProps> = ({
+  image,
+  fullVMTemplate,
+  onViewVersions,
+}) => {
+  return (
+    <HoverTransition hoverShadow hoverBorder>
+      <Card variant="default" padding="md" className="h-full">
+        <Stack direction="vertical" spacing="md" className="h-full">
+          <div className="flex-1">
+            <div className="flex items-start justify-between gap-2 mb-3">
+              <h3 className="text-lg font-semibold text-gray-900">
+                {image.name}
+              </h3>
+              <div className="flex flex-wrap justify-end gap-1">
+                <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-gray-100 text-gray-800">
+                  {image.osType}
+                </span>
+                {image.hyperVGeneration && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                    {image.hyperVGeneration === 'V2'
+                      ? 'Gen2'
+                      : image.hyperVGeneration === 'V1'
+                        ? 'Gen1'
+                        : image.hyperVGeneration}
+                  </span>
+                )}
+                {image.purchasePlan && (
+                  <span className="inline-flex items-center px-2 py-1 rounded-full text-xs font-medium bg-amber-100 text-amber-800 whitespace-nowrap">
+                    Requires plan
+                  </span>
+                )}
+              </div>
+            </div>
+            <Stack direction="vertical" spacing="xs">
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">Identifier:</span>{' '}
+                {image.identifier.publisher} / {image.identifier.offer} /{' '}
+                {image.identifier.sku}
+              </p>
+              <p className="text-xs sm:text-sm text-gray-600">
+                <span className="font-medium">OS state:</span> {image.osState}
+              </p>
+              {image.architecture && (
+                <p className="text-xs sm:text-sm text-gray-600">
+                  <span className="font-medium">Architecture:</span>{' '}
+                  {image.architecture}
+                </p>
+              )}
+              {image.eula && (
+                <p className="text-xs sm:text-sm text-gray-500 line-clamp-2">
+                  <span className="font-medium">EULA:</span> {image.eula}
+                </p>
+              )}
+            </Stack>
+          </div>
+
+          <div className="pt-4 border-t border-gray-200 flex items-center justify-between gap-2">
+            <button
+              onClick={() => onViewVersions(image)}
+              className="text-xs sm:text-sm text-blue-700 hover:text-blue-900 hover:underline"
+            >
+              View versions
+            </button>
+            {/* Referencing the image deploys its latest version */}
+            <CopyButton
+              imageReference={createSharedGalleryImageReference(
+                image.kind,
+                image.uniqueId,
+                image.purchasePlan
+              )}
+              mode={fullVMTemplate ? 'fullVM' : 'reference'}
+              osType={image.osType}
+              location={image.location}
+            />
+          </div>
+        </Stack>
+      </Card>
+    </HoverTransition>
+  );
+};
+
+export const SharedGalleryImagesList: React.FC<
+  SharedGalleryImagesListProps
+> = ({ className = '' }) => {
+  const navigate = useNavigate();
+  const { kind, galleryName } = useParams<{
+    kind: string;
+    galleryName: string;
+  }>();
+  const images = useSharedGalleryStore((state) => state.images);
+  const communityGallery = useSharedGalleryStore(
+    (state) => state.communityGallery
+  );
+  const loading = useSharedGalleryStore((state) => state.loading);
+  const error = useSharedGalleryStore((state) => state.error);
+  const loadedFor = useSharedGalleryStore((state) => state.loadedImages);
+  const [fullVMTemplate, setFullVMTemplate] = useState(false);
+
+  const {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  } = usePagedSearch(images, matchesImage, 8);
+
+  const handleViewVersions = useCallback(
+    (image: SharedGalleryImage) => {
+      navigate(
+        `/shared-galleries/${image.kind}/${encodeURIComponent(image.galleryName)}/images/${encodeURIComponent(image.name)}/versions`
+      );
+    },
+    [navigate]
+  );
+
+  if (loading) {
+    return (
+      <div className={`flex justify-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div className={className}>
+        <ErrorMessage
+          message={error}
+          title="Failed to load gallery images"
+          onRetry={() => window.location.reload()}
+        />
+      </div>
+    );
+  }
+
+  return (
+    <div className={className}>
+      <Stack direction="vertical" spacing="lg">
+        <div>
+          <div className="flex items-center gap-4 mb-4">
+            <BackButton
+              to="/shared-galleries"
+              label="Back to Shared Galleries"
+            />
+          </div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900 break-all">
+            Images in {galleryName ? decodeURIComponent(galleryName) : ''}
+          </h2>
+          <Stack direction="vertical" spacing="xs" className="mt-2">
+            <p className="text-sm sm:text-base text-gray-600">
+              <span className="font-medium">Source:</span>{' '}
+              {kind === 'community'
+                ? 'Community gallery'
+                : 'Shared directly with this subscription'}
+            </p>
+            {communityGallery?.publisherUri && (
+              <p className="text-sm sm:text-base text-gray-600">
+                <span className="font-medium">Publisher:</span>{' '}
+                <a
+                  href={communityGallery.publisherUri}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-blue-700 hover:underline"
+                >
+                  {communityGallery.publisherUri}
+                </a>
+                {communityGallery.publisherContact &&
+                  ` (${communityGallery.publisherContact})`}
+              </p>
+            )}
+          </Stack>
+        </div>
+
+        {loadedFor && images.length > 0 && (
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <SearchFilter
+              placeholder="Search images..."
+              value={searchQuery}
+              onSearch={setSearchQuery}
+              className="max-w-md flex-1"
+            />
+            <FullVMTemplateToggle
+              checked={fullVMTemplate}
+              onChange={setFullVMTemplate}
+            />
+          </div>
+        )}
+
+        {loadedFor && images.length === 0 && (
+          <div className="text-center py-12">
+            <h3 className="text-lg font-medium text-gray-900 mb-2">
+              No Images Found
+            </h3>
+            <p className="text-gray-600">
+              This gallery does not share any images in {loadedFor.location}.
+            </p>
+          </div>
+        )}
+
+        {images.length > 0 && filteredItems.length === 0 && searchQuery && (
+          <div className="text-center py-12">
+            <p className="text-gray-600">
+              No images match your search for "{searchQuery}".
+            </p>
+          </div>
+        )}
+
+        <ResponsiveGrid
+          cols={{ xs: 1, sm: 1, md: 1, lg: 2, xl: 2, '2xl': 3 }}
+          gap="lg"
+        >
+          {pageItems.map((image) => (
+            <SharedGalleryImageCard
+              key={image.uniqueId}
+              image={image}
+              fullVMTemplate={fullVMTemplate}
+              onViewVersions={handleViewVersions}
+            />
+          ))}
+        </ResponsiveGrid>
+
+        <Pagination
+          currentPage={currentPage}
+          totalPages={totalPages}
+          onPageChange={setCurrentPage}
+          itemsPerPage={itemsPerPage}
+          totalItems={filteredItems.length}
+          showInfo={true}
+        />
+      </Stack>
+    </div>
+  );
+};
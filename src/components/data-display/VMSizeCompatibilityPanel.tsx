@@ -0,0 +1,176 @@
+import React, { useMemo, useState } from 'react';
+import { LoadingSpinner } from '../ui/LoadingSpinner';
+import { matchVMSizes } from '../../utils/vmSizeCompatibility';
+import type { ImageVersionDetails, VMSize } from '../../types';
+
+interface VMSizeCompatibilityPanelProps {
+  details: ImageVersionDetails;
+  sizes: VMSize[] | null;
+  loading?: boolean;
+  error?: string | null;
+  onRetry?: () => void;
+  className?: string;
+}
+
+const formatSpecs = (size: VMSize): string =>
+  [
+    size.vCPUs !== undefined &&
+      `${size.vCPUs} vCPU${size.vCPUs !== 1 ? 's' : ''}`,
+    size.memoryGB !== undefined && `${size.memoryGB} GiB`,
+    size.architecture,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+/**
+ * VMSizeCompatibilityPanel lists the VM sizes of the location an image
+ * version can run on, matching generation, architecture, disk controller
+ * and optionally accelerated networking and NVMe, with the reason each
+ * other size was rejected
+ */
+export const VMSizeCompatibilityPanel: React.FC<
+  VMSizeCompatibilityPanelProps
+> = ({
+  details,
+  sizes,
+  loading = false,
+  error = null,
+  onRetry,
+  className = '',
+}) => {
+  const [query, setQuery] = useState('');
+  const [requireAcceleratedNetworking, setRequireAcceleratedNetworking] =
+    useState(false);
+  const [requireNvme, setRequireNvme] = useState(false);
+  const [showIncompatible, setShowIncompatible] = useState(false);
+
+  const results = useMemo(() => {
+    const term = query.trim().toLowerCase();
+    return matchVMSizes(
+      (sizes ?? []).filter(
+        (size) => !term || size.name.toLowerCase().includes(term)
+      ),
+      details,
+      { requireAcceleratedNetworking, requireNvme }
+    );
+  }, [sizes, details, query, requireAcceleratedNetworking, requireNvme]);
+
+  if (loading) {
+    return (
+      <div className={`flex items-center gap-2 py-3 ${className}`}>
+        <LoadingSpinner size="sm" />
+        <span className="text-xs text-gray-500">Loading VM sizes...</span>
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <div
+        className={`flex items-center justify-between py-3 ${className}`}
+        role="alert"
+      >
+        <span className="text-xs text-red-600">{error}</span>
+        {onRetry && (
+          <button
+            onClick={onRetry}
+            className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Retry
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (!sizes) {
+    return null;
+  }
+
+  const compatibleCount = results.filter((result) => result.compatible).length;
+  const shown = showIncompatible
+    ? results
+    : results.filter((result) => result.compatible);
+
+  return (
+    <div
+      className={`border border-gray-200 rounded-md p-3 bg-gray-50 ${className}`}
+      data-testid="vm-size-compatibility"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-2">
+        <h5 className="text-xs font-semibold text-gray-700 uppercase tracking-wide">
+          Compatible VM sizes ({compatibleCount} of {results.length})
+        </h5>
+        <input
+          type="search"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          placeholder="Filter sizes"
+          aria-label="Filter VM sizes"
+          className="px-2 py-1 text-xs border border-gray-300 rounded"
+        />
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 mb-2 text-xs text-gray-600">
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={requireAcceleratedNetworking}
+            onChange={(event) =>
+              setRequireAcceleratedNetworking(event.target.checked)
+            }
+            className="rounded border-gray-300"
+          />
+          Accelerated networking
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={requireNvme}
+            onChange={(event) => setRequireNvme(event.target.checked)}
+            className="rounded border-gray-300"
+          />
+          NVMe
+        </label>
+        <label className="flex items-center gap-1">
+          <input
+            type="checkbox"
+            checked={showIncompatible}
+            onChange={(event) => setShowIncompatible(event.target.checked)}
+            className="rounded border-gray-300"
+          />
+          Show incompatible sizes
+        </label>
+      </div>
+
+      {shown.length === 0 ? (
+        <p className="text-xs text-gray-500 py-2">No VM sizes match.</p>
+      ) : (
+        <ul className="max-h-60 overflow-y-auto divide-y divide-gray-200 bg-white border border-gray-200 rounded">
+          {shown.map(({ size, compatible, reasons }) => (
+            <li key={size.name} className="px-2 py-1.5">
+              <div className="flex items-center justify-between gap-2">
+                <span
+                  className={`font-mono text-xs ${compatible ? 'text-gray-900' : 'text-gray-500'}`}
+                >
+                  {size.name}
+                </span>
+                <span className="text-xs text-gray-500 whitespace-nowrap">
+                  {formatSpecs(size)}
+                </span>
+              </div>
+              {!compatible && (
+                <ul className="mt-0.5 text-xs text-red-700 list-disc list-inside">
+                  {reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default VMSizeCompatibilityPanel;
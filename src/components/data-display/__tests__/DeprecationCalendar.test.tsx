@@ -0,0 +1,112 @@
+import React from 'react';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { vi, describe, it, expect } from 'vitest';
+import { DeprecationCalendar } from '../DeprecationCalendar';
+import type { WatchedImage } from '../../../stores/imageWatchStore';
+
+const now = new Date('2027-01-15T00:00:00Z');
+
+const baseImage: WatchedImage = {
+  publisher: 'Canonical',
+  offer: '0001-com-ubuntu-server-focal',
+  sku: '20_04-lts-gen2',
+  location: 'eastus',
+  saved: false,
+  deprecationStatus: null,
+  lastSeen: '2027-01-10T00:00:00Z',
+};
+
+const mockImages: Record<string, WatchedImage> = {
+  'Canonical/0001-com-ubuntu-server-focal/20_04-lts-gen2': {
+    ...baseImage,
+    saved: true,
+    deprecationStatus: {
+      imageState: 'ScheduledForDeprecation',
+      scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+      alternativeOption: { type: 'Offer', value: 'ubuntu-24_04-lts' },
+    },
+  },
+  'Canonical/UbuntuServer/18.04-LTS': {
+    ...baseImage,
+    offer: 'UbuntuServer',
+    sku: '18.04-LTS',
+    deprecationStatus: {
+      imageState: 'Deprecated',
+      scheduledDeprecationTime: '2026-12-01T00:00:00+00:00',
+      alternativeOption: null,
+    },
+  },
+  'Canonical/ubuntu-24_04-lts/server': {
+    ...baseImage,
+    offer: 'ubuntu-24_04-lts',
+    sku: 'server',
+    deprecationStatus: { imageState: 'Active', alternativeOption: null },
+  },
+};
+
+const renderCalendar = (
+  props: Partial<React.ComponentProps<typeof DeprecationCalendar>> = {}
+) =>
+  render(
+    <MemoryRouter>
+      <DeprecationCalendar images={mockImages} now={now} {...props} />
+    </MemoryRouter>
+  );
+
+describe('DeprecationCalendar', () => {
+  it('groups deprecations with past ones first', () => {
+    renderCalendar();
+
+    const headings = screen
+      .getAllByRole('heading', { level: 3 })
+      .map((heading) => heading.textContent);
+    expect(headings).toEqual(['Already deprecated', 'April 2027']);
+    expect(
+      screen.getByText('Canonical:UbuntuServer:18.04-LTS')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Apr 30, 2027 (in 105 days)')).toBeInTheDocument();
+    expect(
+      screen.queryByText('Canonical:ubuntu-24_04-lts:server')
+    ).not.toBeInTheDocument();
+  });
+
+  it('links the suggested alternative', () => {
+    renderCalendar();
+
+    expect(screen.getByText('offer ubuntu-24_04-lts')).toHaveAttribute(
+      'href',
+      '/publishers/Canonical/offers/ubuntu-24_04-lts/skus'
+    );
+  });
+
+  it('filters to saved images', () => {
+    renderCalendar();
+
+    fireEvent.click(screen.getByLabelText('Saved images only'));
+
+    expect(
+      screen.queryByText('Canonical:UbuntuServer:18.04-LTS')
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByText('Canonical:0001-com-ubuntu-server-focal:20_04-lts-gen2')
+    ).toBeInTheDocument();
+  });
+
+  it('removes images', () => {
+    const onRemove = vi.fn();
+    renderCalendar({ onRemove });
+
+    fireEvent.click(
+      screen.getByLabelText('Remove 18.04-LTS from the calendar')
+    );
+
+    expect(onRemove).toHaveBeenCalledWith('Canonical/UbuntuServer/18.04-LTS');
+  });
+
+  it('shows an empty state without deprecations', () => {
+    renderCalendar({ images: {} });
+
+    expect(screen.getByText('No upcoming deprecations')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,91 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ExtensionVersionsList } from '../ExtensionVersionsList';
+import { useExtensionStore } from '../../../stores/extensionStore';
+import * as utils from '../../../utils';
+
+vi.mock('../../../utils', async () => {
+  const actual = await vi.importActual('../../../utils');
+  return {
+    ...actual,
+    copyToClipboard: vi.fn(),
+  };
+});
+
+const renderList = () =>
+  render(
+    <MemoryRouter
+      initialEntries={[
+        '/publishers/Microsoft.Azure.Extensions/extensions/CustomScript/versions',
+      ]}
+    >
+      <Routes>
+        <Route
+          path="/publishers/:publisherName/extensions/:typeName/versions"
+          element={<ExtensionVersionsList />}
+        />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('ExtensionVersionsList', () => {
+  const mockCopyToClipboard = vi.mocked(utils.copyToClipboard);
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useExtensionStore.getState().clearAll();
+    useExtensionStore.getState().setExtensionVersions(
+      [
+        { name: '2.1.10', typeHandlerVersion: '2.1' },
+        { name: '2.0.7', typeHandlerVersion: '2.0' },
+      ],
+      'Microsoft.Azure.Extensions',
+      'CustomScript',
+      'westeurope'
+    );
+  });
+
+  it('lists versions with their typeHandlerVersion', () => {
+    renderList();
+
+    expect(screen.getByText('Versions of CustomScript')).toBeInTheDocument();
+    expect(screen.getByText('2.1.10')).toBeInTheDocument();
+    expect(screen.getByText('2.1')).toBeInTheDocument();
+    expect(screen.getByText('2.0')).toBeInTheDocument();
+  });
+
+  it('copies the extension resource with the typeHandlerVersion', async () => {
+    mockCopyToClipboard.mockResolvedValue(true);
+    renderList();
+
+    fireEvent.click(
+      screen.getAllByRole('button', { name: 'Copy as ARM Template' })[0]
+    );
+
+    await waitFor(() => {
+      expect(mockCopyToClipboard).toHaveBeenCalledTimes(1);
+    });
+    const resource = JSON.parse(mockCopyToClipboard.mock.calls[0][0]);
+    expect(resource.properties).toMatchObject({
+      publisher: 'Microsoft.Azure.Extensions',
+      type: 'CustomScript',
+      typeHandlerVersion: '2.1',
+    });
+  });
+
+  it('shows an empty state without versions', () => {
+    useExtensionStore
+      .getState()
+      .setExtensionVersions(
+        [],
+        'Microsoft.Azure.Extensions',
+        'CustomScript',
+        'westeurope'
+      );
+
+    renderList();
+
+    expect(screen.getByText('No Versions Found')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,96 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter } from 'react-router-dom';
+import { describe, it, expect } from 'vitest';
+import { FleetReport } from '../FleetReport';
+import type { FleetReportEntry, ImageUsageRecord } from '../../../types';
+
+const baseRecord: ImageUsageRecord = {
+  id: '/subscriptions/sub-1/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/web-01',
+  name: 'web-01',
+  resourceType: 'VirtualMachine',
+  subscriptionId: 'sub-1',
+  resourceGroup: 'rg-web',
+  location: 'westeurope',
+  publisher: 'Canonical',
+  offer: 'ubuntu-24_04-lts',
+  sku: 'server',
+  version: '24.04.202408210',
+  instanceCount: 1,
+};
+
+const entries: FleetReportEntry[] = [
+  {
+    resource: {
+      ...baseRecord,
+      id: 'web-02',
+      name: 'web-02',
+      version: '24.04.202409120',
+    },
+    runningVersion: '24.04.202409120',
+    latestVersion: '24.04.202409120',
+    status: 'current',
+  },
+  {
+    resource: baseRecord,
+    runningVersion: '24.04.202408210',
+    latestVersion: '24.04.202409120',
+    status: 'outdated',
+  },
+  {
+    resource: {
+      ...baseRecord,
+      id: 'workers',
+      name: 'workers',
+      resourceType: 'VirtualMachineScaleSet',
+      instanceCount: 4,
+    },
+    runningVersion: '24.04.202408210',
+    latestVersion: null,
+    status: 'unknown',
+  },
+];
+
+const renderReport = (reportEntries = entries) =>
+  render(
+    <MemoryRouter>
+      <FleetReport entries={reportEntries} />
+    </MemoryRouter>
+  );
+
+describe('FleetReport', () => {
+  it('should list outdated VMs first with counts per status', () => {
+    renderReport();
+
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(rows[0]).toHaveTextContent('web-01');
+    expect(rows[0]).toHaveTextContent('Outdated');
+    expect(rows[1]).toHaveTextContent('web-02');
+    expect(rows[2]).toHaveTextContent('Scale set, 4 instances');
+    expect(screen.getByText('1 outdated')).toBeInTheDocument();
+    expect(screen.getByText('4 unknown')).toBeInTheDocument();
+  });
+
+  it('should link each image to its SKUs', () => {
+    renderReport();
+
+    expect(screen.getAllByRole('link')[0]).toHaveAttribute(
+      'href',
+      '/publishers/Canonical/offers/ubuntu-24_04-lts/skus'
+    );
+  });
+
+  it('should filter to outdated VMs', () => {
+    renderReport();
+
+    fireEvent.click(screen.getByLabelText('Outdated only'));
+
+    expect(screen.getAllByRole('row')).toHaveLength(2);
+    expect(screen.queryByText('web-02')).not.toBeInTheDocument();
+  });
+
+  it('should explain an empty report', () => {
+    renderReport([]);
+
+    expect(screen.getByText('No marketplace VMs')).toBeInTheDocument();
+  });
+});
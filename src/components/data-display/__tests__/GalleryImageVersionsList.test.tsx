@@ -0,0 +1,112 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { GalleryImageVersionsList } from '../GalleryImageVersionsList';
+import { useGalleryStore } from '../../../stores/galleryStore';
+import type {
+  GalleryImageDefinition,
+  GalleryImageVersion,
+} from '../../../types';
+
+const galleryId =
+  '/subscriptions/sub-1/resourceGroups/rg-images/providers/Microsoft.Compute/galleries/golden';
+
+const mockDefinition: GalleryImageDefinition = {
+  name: 'ubuntu-base',
+  id: `${galleryId}/images/ubuntu-base`,
+  galleryName: 'golden',
+  resourceGroup: 'rg-images',
+  location: 'westeurope',
+  osType: 'Linux',
+  osState: 'Generalized',
+  hyperVGeneration: 'V2',
+  identifier: { publisher: 'contoso', offer: 'ubuntu', sku: '22.04-hardened' },
+  purchasePlan: null,
+};
+
+const mockVersions: GalleryImageVersion[] = [
+  {
+    name: '1.10.0',
+    id: `${galleryId}/images/ubuntu-base/versions/1.10.0`,
+    location: 'westeurope',
+    publishedDate: '2024-09-01T10:00:00Z',
+    excludeFromLatest: true,
+    provisioningState: 'Succeeded',
+    targetRegions: ['West Europe'],
+  },
+  {
+    name: '1.9.1',
+    id: `${galleryId}/images/ubuntu-base/versions/1.9.1`,
+    location: 'westeurope',
+    excludeFromLatest: false,
+    provisioningState: 'Succeeded',
+    targetRegions: ['West Europe', 'North Europe'],
+  },
+];
+
+const renderList = () =>
+  render(
+    <MemoryRouter
+      initialEntries={[
+        '/galleries/rg-images/golden/images/ubuntu-base/versions',
+      ]}
+    >
+      <Routes>
+        <Route
+          path="/galleries/:resourceGroup/:galleryName/images/:imageName/versions"
+          element={<GalleryImageVersionsList />}
+        />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('GalleryImageVersionsList', () => {
+  beforeEach(() => {
+    useGalleryStore.getState().clearAll();
+    useGalleryStore
+      .getState()
+      .setImageDefinitions([mockDefinition], 'rg-images', 'golden');
+    useGalleryStore
+      .getState()
+      .setImageVersions(mockVersions, 'rg-images', 'golden', 'ubuntu-base');
+  });
+
+  it('lists the versions of the image definition', () => {
+    renderList();
+
+    expect(screen.getByText('Versions of ubuntu-base')).toBeInTheDocument();
+    expect(
+      screen.getByText('Linux (Generalized)', { exact: false })
+    ).toBeInTheDocument();
+    expect(screen.getByText('1.10.0')).toBeInTheDocument();
+    expect(screen.getByText('1.9.1')).toBeInTheDocument();
+    expect(screen.getByText('Excluded from latest')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /Copy as/ })).toHaveLength(2);
+  });
+
+  it('filters versions by region', async () => {
+    renderList();
+
+    fireEvent.change(
+      screen.getByPlaceholderText('Search versions or regions...'),
+      {
+        target: { value: 'north' },
+      }
+    );
+
+    await waitFor(() => {
+      expect(screen.queryByText('1.10.0')).not.toBeInTheDocument();
+    });
+    expect(screen.getByText('1.9.1')).toBeInTheDocument();
+  });
+
+  it('shows an empty state without versions', () => {
+    useGalleryStore
+      .getState()
+      .setImageVersions([], 'rg-images', 'golden', 'ubuntu-base');
+
+    renderList();
+
+    expect(screen.getByText('No Versions Found')).toBeInTheDocument();
+  });
+});
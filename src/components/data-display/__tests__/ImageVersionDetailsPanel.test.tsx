@@ -0,0 +1,98 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import { ImageVersionDetailsPanel } from '../ImageVersionDetailsPanel';
+import type { ImageVersionDetails } from '../../../types';
+
+const mockDetails: ImageVersionDetails = {
+  name: '22.04.202410020',
+  location: 'eastus',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+  dataDiskImages: [{ lun: 0, sizeInGb: 64 }],
+  hyperVGeneration: 'V2',
+  architecture: 'Arm64',
+  features: [
+    { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+    { name: 'SecurityType', value: 'TrustedLaunchSupported' },
+  ],
+  security: {
+    securityType: 'TrustedLaunchSupported',
+    trustedLaunch: 'supported',
+    confidentialVM: 'unsupported',
+  },
+  plan: {
+    name: 'cis-l1',
+    publisher: 'center-for-internet-security-inc',
+    product: 'cis-ubuntu',
+  },
+  automaticOSUpgradeProperties: { automaticOSUpgradeSupported: false },
+  disallowed: { vmDiskType: 'Unmanaged' },
+  deprecationStatus: null,
+};
+
+describe('ImageVersionDetailsPanel', () => {
+  it('renders generation, architecture and disk information', () => {
+    render(<ImageVersionDetailsPanel details={mockDetails} />);
+
+    expect(screen.getByText('Gen2')).toBeInTheDocument();
+    expect(screen.getByText('Arm64')).toBeInTheDocument();
+    expect(screen.getByText('Linux')).toBeInTheDocument();
+    expect(screen.getByText('30 GB')).toBeInTheDocument();
+    expect(screen.getByText('LUN 0 (64 GB)')).toBeInTheDocument();
+    expect(screen.getByText('Unmanaged')).toBeInTheDocument();
+    expect(screen.getByText('Not supported')).toBeInTheDocument();
+  });
+
+  it('renders the purchase plan and features', () => {
+    render(<ImageVersionDetailsPanel details={mockDetails} />);
+
+    expect(
+      screen.getByText('center-for-internet-security-inc / cis-ubuntu / cis-l1')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('DiskControllerTypes=SCSI, NVMe')
+    ).toBeInTheDocument();
+  });
+
+  it('renders the supported security types', () => {
+    render(<ImageVersionDetailsPanel details={mockDetails} />);
+
+    expect(screen.getByText('Trusted Launch')).toHaveAttribute(
+      'title',
+      'Supports Trusted Launch'
+    );
+    expect(screen.getByText('TrustedLaunchSupported')).toBeInTheDocument();
+    expect(screen.queryByText('Confidential VM')).not.toBeInTheDocument();
+  });
+
+  it('shows Gen1 for V1 images without a plan', () => {
+    render(
+      <ImageVersionDetailsPanel
+        details={{ ...mockDetails, hyperVGeneration: 'V1', plan: null }}
+      />
+    );
+
+    expect(screen.getByText('Gen1')).toBeInTheDocument();
+    expect(screen.getByText('None')).toBeInTheDocument();
+  });
+
+  it('shows a loading state', () => {
+    render(<ImageVersionDetailsPanel details={null} loading />);
+
+    expect(screen.getByText('Loading version details...')).toBeInTheDocument();
+  });
+
+  it('shows an error with retry', () => {
+    const onRetry = vi.fn();
+    render(
+      <ImageVersionDetailsPanel
+        details={null}
+        error="Resource not found"
+        onRetry={onRetry}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Resource not found');
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalledTimes(1);
+  });
+});
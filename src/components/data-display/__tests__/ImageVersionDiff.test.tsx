@@ -0,0 +1,70 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ImageVersionDiff } from '../ImageVersionDiff';
+import type { ImageVersionDetails } from '../../../types';
+
+const base: ImageVersionDetails = {
+  name: '22.04.202401010',
+  location: 'westeurope',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+  dataDiskImages: [],
+  hyperVGeneration: 'V2',
+  architecture: 'x64',
+  features: [{ name: 'IsAcceleratedNetworkSupported', value: 'True' }],
+  security: {
+    securityType: null,
+    trustedLaunch: 'unsupported',
+    confidentialVM: 'unsupported',
+  },
+  plan: null,
+  automaticOSUpgradeProperties: null,
+  disallowed: null,
+  deprecationStatus: null,
+};
+
+const target: ImageVersionDetails = {
+  ...base,
+  name: '22.04.202402010',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 64 },
+  features: [
+    { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+    { name: 'IsHibernateSupported', value: 'True' },
+  ],
+};
+
+describe('ImageVersionDiff', () => {
+  it('shows both versions side by side with the breaking changes', () => {
+    render(<ImageVersionDiff base={base} target={target} />);
+
+    expect(screen.getByText('22.04.202401010')).toBeInTheDocument();
+    expect(screen.getByText('22.04.202402010')).toBeInTheDocument();
+    expect(screen.getByText('2 changes')).toBeInTheDocument();
+    expect(screen.getByText('1 breaking')).toBeInTheDocument();
+
+    const diskRow = screen.getByText('OS disk size').closest('tr');
+    expect(diskRow).toHaveAttribute('data-change', 'breaking');
+    expect(
+      screen.getByText('⚠ OS disks sized for the old version are too small')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Feature: IsHibernateSupported').closest('tr')
+    ).toHaveAttribute('data-change', 'changed');
+  });
+
+  it('hides unchanged properties on request', () => {
+    render(<ImageVersionDiff base={base} target={target} />);
+
+    expect(screen.getByText('Generation')).toBeInTheDocument();
+    fireEvent.click(screen.getByLabelText('Changes only'));
+
+    expect(screen.queryByText('Generation')).not.toBeInTheDocument();
+    expect(screen.getByText('OS disk size')).toBeInTheDocument();
+  });
+
+  it('reports identical versions', () => {
+    render(<ImageVersionDiff base={base} target={{ ...base }} />);
+
+    expect(screen.getByText('No differences')).toBeInTheDocument();
+    expect(screen.queryByText(/breaking/)).not.toBeInTheDocument();
+  });
+});
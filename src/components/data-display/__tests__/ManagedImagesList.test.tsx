@@ -0,0 +1,107 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ManagedImagesList } from '../ManagedImagesList';
+import { useManagedImageStore } from '../../../stores/managedImageStore';
+import type { ManagedImage } from '../../../types';
+import * as utils from '../../../utils';
+
+vi.mock('../../../utils', async () => {
+  const actual = await vi.importActual('../../../utils');
+  return {
+    ...actual,
+    copyToClipboard: vi.fn(),
+  };
+});
+
+const mockImages: ManagedImage[] = [
+  {
+    name: 'web-base',
+    id: '/subscriptions/sub-1/resourceGroups/rg-web/providers/Microsoft.Compute/images/web-base',
+    location: 'westeurope',
+    resourceGroup: 'rg-web',
+    osType: 'Linux',
+    osState: 'Generalized',
+    hyperVGeneration: 'V2',
+    source: {
+      type: 'VirtualMachine',
+      value:
+        '/subscriptions/sub-1/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/build-vm',
+    },
+    zoneResilient: true,
+  },
+  {
+    name: 'app-server',
+    id: '/subscriptions/sub-1/resourceGroups/rg-legacy/providers/Microsoft.Compute/images/app-server',
+    location: 'eastus',
+    resourceGroup: 'rg-legacy',
+    osType: 'Windows',
+    osState: 'Generalized',
+    hyperVGeneration: 'V1',
+    source: {
+      type: 'Blob',
+      value: 'https://legacy.blob.core.windows.net/vhds/app-server.vhd',
+    },
+    zoneResilient: false,
+  },
+];
+
+describe('ManagedImagesList', () => {
+  beforeEach(() => {
+    useManagedImageStore.getState().clearAll();
+    useManagedImageStore.getState().setManagedImages(mockImages, 'sub-1');
+  });
+
+  it('lists managed images with their source and generation', () => {
+    render(<ManagedImagesList />);
+
+    expect(screen.getByText('web-base')).toBeInTheDocument();
+    expect(screen.getByText('Virtual machine · build-vm')).toBeInTheDocument();
+    expect(screen.getByText('VHD blob · app-server.vhd')).toBeInTheDocument();
+    expect(screen.getByText('Gen2')).toBeInTheDocument();
+    expect(screen.getByText('Zone resilient')).toBeInTheDocument();
+    expect(screen.getAllByRole('button', { name: /Copy as/ })).toHaveLength(2);
+  });
+
+  it('filters managed images by resource group', async () => {
+    render(<ManagedImagesList />);
+
+    fireEvent.change(screen.getByPlaceholderText('Search managed images...'), {
+      target: { value: 'rg-legacy' },
+    });
+
+    await waitFor(() => {
+      expect(screen.queryByText('web-base')).not.toBeInTheDocument();
+    });
+    expect(screen.getByText('app-server')).toBeInTheDocument();
+  });
+
+  it('copies a full VM template for the image OS when toggled', async () => {
+    const mockCopyToClipboard = vi.mocked(utils.copyToClipboard);
+    mockCopyToClipboard.mockResolvedValue(true);
+
+    render(<ManagedImagesList />);
+
+    fireEvent.click(screen.getByLabelText('Full VM template'));
+    fireEvent.click(
+      screen.getAllByRole('button', { name: /copy as arm template/i })[1]
+    );
+
+    await waitFor(() => {
+      expect(mockCopyToClipboard).toHaveBeenCalledWith(
+        expect.stringContaining('Microsoft.Compute/virtualMachines')
+      );
+    });
+    // app-server is a Windows image
+    expect(mockCopyToClipboard).toHaveBeenCalledWith(
+      expect.stringContaining('"adminPassword"')
+    );
+  });
+
+  it('shows an empty state without managed images', () => {
+    useManagedImageStore.getState().setManagedImages([], 'sub-1');
+
+    render(<ManagedImagesList />);
+
+    expect(screen.getByText('No Managed Images Found')).toBeInTheDocument();
+  });
+});
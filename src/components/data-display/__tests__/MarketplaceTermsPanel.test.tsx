@@ -0,0 +1,110 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { MarketplaceTermsPanel } from '../MarketplaceTermsPanel';
+import type { MarketplaceAgreement, PurchasePlan } from '../../../types';
+
+const mockPlan: PurchasePlan = {
+  name: 'cis-ubuntu2204-l1',
+  publisher: 'center-for-internet-security-inc',
+  product: 'cis-ubuntu',
+};
+
+const mockAgreement = (accepted: boolean): MarketplaceAgreement => ({
+  publisher: mockPlan.publisher,
+  product: mockPlan.product,
+  plan: mockPlan.name,
+  accepted,
+  licenseTextLink: 'https://example.com/license.txt',
+});
+
+describe('MarketplaceTermsPanel', () => {
+  const mockOnLoadAgreement = vi.fn();
+  const mockOnAcceptAgreement = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const renderPanel = () =>
+    render(
+      <MarketplaceTermsPanel
+        plan={mockPlan}
+        subscriptionId="sub-1"
+        onLoadAgreement={mockOnLoadAgreement}
+        onAcceptAgreement={mockOnAcceptAgreement}
+      />
+    );
+
+  it('shows accepted status', async () => {
+    mockOnLoadAgreement.mockResolvedValue(mockAgreement(true));
+    renderPanel();
+
+    await waitFor(() => {
+      expect(screen.getByText('Terms accepted')).toBeInTheDocument();
+    });
+    expect(screen.queryByText('Accept terms')).not.toBeInTheDocument();
+    expect(mockOnLoadAgreement).toHaveBeenCalledWith(mockPlan);
+  });
+
+  it('requires confirmation before accepting terms', async () => {
+    mockOnLoadAgreement.mockResolvedValue(mockAgreement(false));
+    mockOnAcceptAgreement.mockResolvedValue(mockAgreement(true));
+    renderPanel();
+
+    await waitFor(() => {
+      expect(screen.getByText('Terms not accepted')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Accept terms'));
+    expect(mockOnAcceptAgreement).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByText('Confirm and accept'));
+
+    await waitFor(() => {
+      expect(screen.getByText('Terms accepted')).toBeInTheDocument();
+    });
+    expect(mockOnAcceptAgreement).toHaveBeenCalledWith(mockPlan);
+  });
+
+  it('does not accept when the confirmation is cancelled', async () => {
+    mockOnLoadAgreement.mockResolvedValue(mockAgreement(false));
+    renderPanel();
+
+    await waitFor(() => {
+      expect(screen.getByText('Accept terms')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByText('Accept terms'));
+    fireEvent.click(screen.getByText('Cancel'));
+
+    expect(screen.getByText('Accept terms')).toBeInTheDocument();
+    expect(mockOnAcceptAgreement).not.toHaveBeenCalled();
+  });
+
+  it('shows the CLI and PowerShell accept commands', async () => {
+    mockOnLoadAgreement.mockResolvedValue(mockAgreement(false));
+    renderPanel();
+
+    expect(
+      screen.getByText(
+        'az vm image terms accept --publisher "center-for-internet-security-inc" --offer "cis-ubuntu" --plan "cis-ubuntu2204-l1" --subscription "sub-1"'
+      )
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText(/Set-AzMarketplaceTerms -Accept/)
+    ).toBeInTheDocument();
+
+    await waitFor(() => {
+      expect(mockOnLoadAgreement).toHaveBeenCalled();
+    });
+  });
+
+  it('shows an error when the status cannot be loaded', async () => {
+    mockOnLoadAgreement.mockRejectedValue(new Error('Access forbidden'));
+    renderPanel();
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Access forbidden');
+    });
+  });
+});
@@ -0,0 +1,182 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { RegionAvailabilityMatrix } from '../RegionAvailabilityMatrix';
+import type { SKU, SKURegionAvailability } from '../../../types';
+
+const mockSKU: SKU = {
+  name: 'server',
+  displayName: 'server',
+  publisher: 'Canonical',
+  offer: 'ubuntu-24_04-lts',
+  location: 'eastus',
+  versions: [],
+};
+
+const mockAvailability: SKURegionAvailability[] = [
+  {
+    location: 'westeurope',
+    displayName: 'West Europe',
+    available: true,
+    latestVersion: '24.04.202410020',
+    versionCount: 4,
+  },
+  {
+    location: 'brazilsouth',
+    displayName: 'Brazil South',
+    available: false,
+    latestVersion: null,
+    versionCount: 0,
+  },
+  {
+    location: 'eastus',
+    displayName: 'East US',
+    available: true,
+    latestVersion: '24.04.202410020',
+    versionCount: 1,
+  },
+];
+
+describe('RegionAvailabilityMatrix', () => {
+  const mockOnLoadAvailability = vi.fn();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows progress while regions are checked', async () => {
+    let resolveLoad: (value: SKURegionAvailability[]) => void = () => {};
+    mockOnLoadAvailability.mockImplementation((_sku, onProgress) => {
+      onProgress(1, 3);
+      return new Promise((resolve) => {
+        resolveLoad = resolve;
+      });
+    });
+
+    render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+
+    expect(screen.getByText('Checked 1 of 3 regions')).toBeInTheDocument();
+    expect(screen.getByRole('progressbar')).toHaveAttribute(
+      'aria-valuenow',
+      '33'
+    );
+
+    resolveLoad(mockAvailability);
+    await waitFor(() => {
+      expect(screen.getByText('East US')).toBeInTheDocument();
+    });
+  });
+
+  it('lists available regions with their newest version', async () => {
+    mockOnLoadAvailability.mockResolvedValue(mockAvailability);
+
+    render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('East US')).toBeInTheDocument();
+    });
+
+    expect(screen.getByText('West Europe')).toBeInTheDocument();
+    expect(screen.queryByText('Brazil South')).not.toBeInTheDocument();
+    expect(screen.getAllByText('24.04.202410020')).toHaveLength(2);
+    expect(screen.getByText('(4 versions)')).toBeInTheDocument();
+    expect(mockOnLoadAvailability).toHaveBeenCalledWith(
+      mockSKU,
+      expect.any(Function),
+      expect.any(AbortSignal)
+    );
+  });
+
+  it('can show unavailable regions', async () => {
+    mockOnLoadAvailability.mockResolvedValue(mockAvailability);
+
+    render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByText('Show unavailable regions')).toBeInTheDocument();
+    });
+
+    fireEvent.click(screen.getByLabelText('Show unavailable regions'));
+
+    expect(screen.getByText('Brazil South')).toBeInTheDocument();
+    expect(screen.getByText('No')).toBeInTheDocument();
+  });
+
+  it('shows an error and retries', async () => {
+    mockOnLoadAvailability
+      .mockRejectedValueOnce(new Error('Access forbidden'))
+      .mockResolvedValueOnce(mockAvailability);
+
+    render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+
+    await waitFor(() => {
+      expect(screen.getByRole('alert')).toHaveTextContent('Access forbidden');
+    });
+
+    fireEvent.click(screen.getByText('Retry'));
+
+    await waitFor(() => {
+      expect(screen.getByText('East US')).toBeInTheDocument();
+    });
+  });
+
+  it('aborts the check when the matrix closes', () => {
+    mockOnLoadAvailability.mockReturnValue(new Promise(() => {}));
+
+    const { unmount } = render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+    const signal: AbortSignal = mockOnLoadAvailability.mock.calls[0][2];
+
+    expect(signal.aborted).toBe(false);
+    unmount();
+    expect(signal.aborted).toBe(true);
+  });
+
+  it('checks again with a new loader, e.g. after a subscription change', async () => {
+    const otherLoader = vi.fn().mockResolvedValue(mockAvailability);
+    mockOnLoadAvailability.mockReturnValue(new Promise(() => {}));
+
+    const { rerender } = render(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={mockOnLoadAvailability}
+      />
+    );
+    const firstSignal: AbortSignal = mockOnLoadAvailability.mock.calls[0][2];
+
+    rerender(
+      <RegionAvailabilityMatrix
+        sku={mockSKU}
+        onLoadAvailability={otherLoader}
+      />
+    );
+
+    expect(firstSignal.aborted).toBe(true);
+    await waitFor(() => {
+      expect(screen.getByText('East US')).toBeInTheDocument();
+    });
+  });
+});
@@ -0,0 +1,46 @@
+import { render, screen } from '@testing-library/react';
+import { describe, it, expect } from 'vitest';
+import { ReleaseTimeline } from '../ReleaseTimeline';
+
+const now = new Date('2024-10-20T12:00:00Z');
+
+describe('ReleaseTimeline', () => {
+  it('plots the release dates with the cadence', () => {
+    render(
+      <ReleaseTimeline
+        versions={[
+          'latest',
+          '22.04.202410020',
+          '22.04.202409110',
+          '22.04.202408280',
+        ]}
+        publisher="Canonical"
+        now={now}
+      />
+    );
+
+    expect(
+      screen.getByText(
+        '3 releases · every ~18 days · newest published 18 days ago'
+      )
+    ).toBeInTheDocument();
+    expect(screen.getAllByRole('listitem')).toHaveLength(3);
+    expect(
+      screen.getByTitle('22.04.202409110 · Sep 11, 2024')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Aug 28, 2024')).toBeInTheDocument();
+    expect(screen.getByText('Oct 2, 2024')).toBeInTheDocument();
+  });
+
+  it('renders nothing without two dated releases', () => {
+    const { container } = render(
+      <ReleaseTimeline
+        versions={['latest', '1.0.0', '1.1.0']}
+        publisher="contoso"
+        now={now}
+      />
+    );
+
+    expect(container).toBeEmptyDOMElement();
+  });
+});
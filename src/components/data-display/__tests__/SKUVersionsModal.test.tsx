@@ -2,24 +2,29 @@ import React from 'react';
 import { render, screen, fireEvent, waitFor } from '@testing-library/react';
 import { vi, describe, it, expect, beforeEach } from 'vitest';
 import { SKUVersionsModal } from '../SKUVersionsModal';
-import type { SKU } from '../../../types';
+import type { ImageVersionDetails, SKU } from '../../../types';
 
 // Mock the Modal component
 vi.mock('../../ui/Modal', () => ({
-  Modal: ({ isOpen, onClose, title, children }: any) => 
+  Modal: ({ isOpen, onClose, title, children }: any) =>
     isOpen ? (
       <div data-testid="modal">
         <div data-testid="modal-title">{title}</div>
-        <button data-testid="close-button" onClick={onClose}>Close</button>
+        <button data-testid="close-button" onClick={onClose}>
+          Close
+        </button>
         {children}
       </div>
-    ) : null
+    ) : null,
 }));
 
 // Mock the CopyButton component
 vi.mock('../../ui/CopyButton', () => ({
   CopyButton: ({ imageReference }: any) => (
-    <button data-testid="copy-button">
+    <button
+      data-testid="copy-button"
+      data-security-type={imageReference.securityProfile?.securityType}
+    >
       Copy {imageReference.version}
     </button>
   ),
@@ -28,7 +33,9 @@ vi.mock('../../ui/CopyButton', () => ({
 // Mock the LoadingSpinner component
 vi.mock('../../ui/LoadingSpinner', () => ({
   LoadingSpinner: ({ size }: any) => (
-    <div data-testid="loading-spinner" data-size={size}>Loading...</div>
+    <div data-testid="loading-spinner" data-size={size}>
+      Loading...
+    </div>
   ),
 }));
 
@@ -98,7 +105,9 @@ describe('SKUVersionsModal', () => {
     expect(screen.getByTestId('modal-title')).toHaveTextContent(
       'Available Versions - Windows Server 2022 Datacenter'
     );
-    expect(screen.getByText('Windows Server 2022 Datacenter')).toBeInTheDocument();
+    expect(
+      screen.getByText('Windows Server 2022 Datacenter')
+    ).toBeInTheDocument();
     expect(screen.getByText('2022-datacenter')).toBeInTheDocument();
     expect(screen.getByText('microsoft')).toBeInTheDocument();
     expect(screen.getByText('windows-server-2022')).toBeInTheDocument();
@@ -122,6 +131,30 @@ describe('SKUVersionsModal', () => {
     expect(screen.getAllByTestId('copy-button')).toHaveLength(3);
   });
 
+  it('labels versions with their estimated release date', () => {
+    vi.useFakeTimers({
+      now: new Date('2022-09-20T12:00:00Z'),
+      toFake: ['Date'],
+    });
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+      />
+    );
+    vi.useRealTimers();
+
+    expect(
+      screen.getByText('Published 12 days ago · Sep 8, 2022')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByText('Published 45 days ago · Aug 6, 2022')
+    ).toBeInTheDocument();
+    expect(screen.getByTestId('release-timeline')).toBeInTheDocument();
+  });
+
   it('shows latest badge for latest version', () => {
     render(
       <SKUVersionsModal
@@ -229,7 +262,9 @@ describe('SKUVersionsModal', () => {
 
     await waitFor(() => {
       expect(screen.getByText('No Versions Available')).toBeInTheDocument();
-      expect(screen.getByText(/This SKU may not have published versions yet/)).toBeInTheDocument();
+      expect(
+        screen.getByText(/This SKU may not have published versions yet/)
+      ).toBeInTheDocument();
     });
   });
 
@@ -293,4 +328,307 @@ describe('SKUVersionsModal', () => {
     // Should show loading state initially
     expect(screen.getByTestId('loading-spinner')).toBeInTheDocument();
   });
-});
\ No newline at end of file
+
+  it('loads and shows version details when details are requested', async () => {
+    const mockOnLoadVersionDetails = vi.fn().mockResolvedValue({
+      name: '20348.1006.220908',
+      location: 'eastus',
+      osDiskImage: { operatingSystem: 'Windows', sizeInGb: 127 },
+      dataDiskImages: [],
+      hyperVGeneration: 'V2',
+      architecture: 'x64',
+      features: [{ name: 'IsAcceleratedNetworkSupported', value: 'True' }],
+      plan: null,
+      automaticOSUpgradeProperties: { automaticOSUpgradeSupported: true },
+      disallowed: null,
+      deprecationStatus: null,
+    });
+
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        onLoadVersionDetails={mockOnLoadVersionDetails}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByLabelText('Show details for version 20348.1006.220908')
+    );
+
+    await waitFor(() => {
+      expect(screen.getByTestId('image-version-details')).toBeInTheDocument();
+    });
+
+    expect(mockOnLoadVersionDetails).toHaveBeenCalledWith(
+      mockSKU,
+      '20348.1006.220908'
+    );
+    expect(screen.getByText('Gen2')).toBeInTheDocument();
+    expect(screen.getByText('x64')).toBeInTheDocument();
+    expect(screen.getByText('127 GB')).toBeInTheDocument();
+  });
+
+  it('keeps the details load of each version apart', async () => {
+    let rejectFirst: (error: Error) => void = () => {};
+    const mockOnLoadVersionDetails = vi
+      .fn()
+      .mockImplementationOnce(
+        () =>
+          new Promise((_resolve, reject) => {
+            rejectFirst = reject;
+          })
+      )
+      .mockImplementationOnce(() => new Promise(() => {}));
+
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        onLoadVersionDetails={mockOnLoadVersionDetails}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByLabelText('Show details for version 20348.1006.220908')
+    );
+    fireEvent.click(
+      screen.getByLabelText('Show details for version 20348.887.220806')
+    );
+    rejectFirst(new Error('Version not found'));
+
+    await waitFor(() => {
+      expect(mockOnLoadVersionDetails).toHaveBeenCalledTimes(2);
+    });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(screen.getByText('Loading version details...')).toBeInTheDocument();
+    expect(screen.queryByText('Version not found')).not.toBeInTheDocument();
+  });
+
+  it('matches the VM sizes of the location against an expanded version', async () => {
+    const mockOnLoadVersionDetails = vi.fn().mockResolvedValue({
+      name: '20348.1006.220908',
+      location: 'eastus',
+      osDiskImage: { operatingSystem: 'Windows', sizeInGb: 127 },
+      dataDiskImages: [],
+      hyperVGeneration: 'V2',
+      architecture: 'x64',
+      features: [],
+      plan: null,
+      automaticOSUpgradeProperties: null,
+      disallowed: null,
+      deprecationStatus: null,
+    });
+    const size = {
+      hyperVGenerations: ['V1', 'V2'],
+      architecture: 'x64',
+      acceleratedNetworking: true,
+      diskControllerTypes: ['SCSI'],
+      restricted: false,
+    };
+    const mockOnLoadVMSizes = vi.fn().mockResolvedValue([
+      { ...size, name: 'Standard_D2s_v5' },
+      { ...size, name: 'Standard_A1_v2', hyperVGenerations: ['V1'] },
+    ]);
+
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        onLoadVersionDetails={mockOnLoadVersionDetails}
+        onLoadVMSizes={mockOnLoadVMSizes}
+      />
+    );
+
+    fireEvent.click(
+      screen.getByLabelText('Show details for version 20348.1006.220908')
+    );
+
+    await waitFor(() => {
+      expect(
+        screen.getByText('Compatible VM sizes (1 of 2)')
+      ).toBeInTheDocument();
+    });
+    expect(screen.getByText('Standard_D2s_v5')).toBeInTheDocument();
+
+    // Sizes are loaded once for every version
+    fireEvent.click(
+      screen.getByLabelText('Hide details for version 20348.1006.220908')
+    );
+    fireEvent.click(
+      screen.getByLabelText('Show details for version 20348.1006.220908')
+    );
+    expect(mockOnLoadVMSizes).toHaveBeenCalledTimes(1);
+  });
+
+  it('compares the newest version with the previous one', async () => {
+    const details = (
+      name: string,
+      hyperVGeneration: string
+    ): ImageVersionDetails => ({
+      name,
+      location: 'eastus',
+      osDiskImage: { operatingSystem: 'Windows', sizeInGb: 127 },
+      dataDiskImages: [],
+      hyperVGeneration,
+      architecture: 'x64',
+      features: [],
+      security: {
+        securityType: null,
+        trustedLaunch: 'unsupported',
+        confidentialVM: 'unsupported',
+      },
+      plan: null,
+      automaticOSUpgradeProperties: null,
+      disallowed: null,
+      deprecationStatus: null,
+    });
+    const mockOnLoadVersionDetails = vi.fn((_sku: SKU, version: string) =>
+      Promise.resolve(
+        details(version, version === '20348.887.220806' ? 'V1' : 'V2')
+      )
+    );
+
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        onLoadVersionDetails={mockOnLoadVersionDetails}
+      />
+    );
+
+    fireEvent.click(screen.getByText('Compare versions'));
+
+    await waitFor(() => {
+      expect(screen.getByTestId('image-version-diff')).toBeInTheDocument();
+    });
+    expect(mockOnLoadVersionDetails).toHaveBeenCalledTimes(2);
+    expect(mockOnLoadVersionDetails).not.toHaveBeenCalledWith(
+      mockSKU,
+      'latest'
+    );
+    expect(screen.getByLabelText('Pinned version')).toHaveValue(
+      '20348.887.220806'
+    );
+    expect(screen.getByLabelText('Compare with')).toHaveValue(
+      '20348.1006.220908'
+    );
+    expect(screen.getByText('1 breaking')).toBeInTheDocument();
+
+    // Both versions are loaded already
+    fireEvent.change(screen.getByLabelText('Pinned version'), {
+      target: { value: '20348.1006.220908' },
+    });
+    expect(screen.getByText('No differences')).toBeInTheDocument();
+    expect(mockOnLoadVersionDetails).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not render details buttons without a details loader', () => {
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+      />
+    );
+
+    expect(screen.queryByText('Details')).not.toBeInTheDocument();
+  });
+
+  it('shows a deprecation notice with the suggested alternative', () => {
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        deprecationStatus={{
+          imageState: 'ScheduledForDeprecation',
+          scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+          alternativeOption: { type: 'Sku', value: '2025-datacenter' },
+        }}
+      />
+    );
+
+    expect(
+      screen.getByText(
+        'This image is scheduled for deprecation on Apr 30, 2027'
+      )
+    ).toBeInTheDocument();
+    expect(screen.getByText('SKU 2025-datacenter')).toHaveAttribute(
+      'href',
+      '/publishers/microsoft/offers/windows-server-2022/skus'
+    );
+  });
+
+  it('adds the security profile of the SKU to the copied references on request', () => {
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        security={{
+          securityType: 'TrustedLaunchSupported',
+          trustedLaunch: 'supported',
+          confidentialVM: 'unsupported',
+        }}
+      />
+    );
+
+    const [copyButton] = screen.getAllByTestId('copy-button');
+    expect(copyButton).not.toHaveAttribute('data-security-type');
+
+    fireEvent.click(screen.getByLabelText('Include security profile'));
+
+    expect(screen.getAllByTestId('copy-button')[0]).toHaveAttribute(
+      'data-security-type',
+      'TrustedLaunch'
+    );
+  });
+
+  it('does not offer a security profile for standard-only images', () => {
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        security={{
+          securityType: null,
+          trustedLaunch: 'unsupported',
+          confidentialVM: 'unsupported',
+        }}
+      />
+    );
+
+    expect(
+      screen.queryByLabelText('Include security profile')
+    ).not.toBeInTheDocument();
+  });
+
+  it('does not show a deprecation notice for active images', () => {
+    render(
+      <SKUVersionsModal
+        isOpen={true}
+        onClose={mockOnClose}
+        sku={mockSKU}
+        onLoadVersions={mockOnLoadVersions}
+        deprecationStatus={{ imageState: 'Active', alternativeOption: null }}
+      />
+    );
+
+    expect(screen.queryByText('Deprecation scheduled')).not.toBeInTheDocument();
+    expect(screen.queryByText('Deprecated')).not.toBeInTheDocument();
+  });
+});
@@ -0,0 +1,71 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { MemoryRouter, Route, Routes } from 'react-router-dom';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { SharedGalleriesGrid } from '../SharedGalleriesGrid';
+import { useSharedGalleryStore } from '../../../stores/sharedGalleryStore';
+
+const renderGrid = () =>
+  render(
+    <MemoryRouter initialEntries={['/shared-galleries']}>
+      <Routes>
+        <Route path="/shared-galleries" element={<SharedGalleriesGrid />} />
+        <Route
+          path="/shared-galleries/:kind/:galleryName/images"
+          element={<div data-testid="images-page" />}
+        />
+      </Routes>
+    </MemoryRouter>
+  );
+
+describe('SharedGalleriesGrid', () => {
+  beforeEach(() => {
+    useSharedGalleryStore.getState().clearAll();
+  });
+
+  it('lists the galleries shared with the subscription', () => {
+    useSharedGalleryStore.getState().setGalleries(
+      [
+        {
+          name: 'sub-2-golden',
+          uniqueId: '/SharedGalleries/sub-2-golden',
+          kind: 'shared',
+          location: 'westeurope',
+        },
+      ],
+      'westeurope'
+    );
+
+    renderGrid();
+
+    fireEvent.click(screen.getByText('sub-2-golden'));
+
+    expect(screen.getByTestId('images-page')).toBeInTheDocument();
+  });
+
+  it('explains when nothing is shared in the location', () => {
+    useSharedGalleryStore.getState().setGalleries([], 'eastus');
+
+    renderGrid();
+
+    expect(
+      screen.getByText(
+        'No galleries are shared directly with this subscription in eastus.'
+      )
+    ).toBeInTheDocument();
+  });
+
+  it('looks up community galleries by public name', () => {
+    renderGrid();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Community' }));
+    const submit = screen.getByRole('button', { name: 'Browse gallery' });
+    expect(submit).toBeDisabled();
+
+    fireEvent.change(screen.getByLabelText('Public gallery name'), {
+      target: { value: ' contoso-1a2b3c4d ' },
+    });
+    fireEvent.click(submit);
+
+    expect(screen.getByTestId('images-page')).toBeInTheDocument();
+  });
+});
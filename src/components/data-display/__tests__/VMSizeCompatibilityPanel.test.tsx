@@ -0,0 +1,119 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { vi, describe, it, expect } from 'vitest';
+import { VMSizeCompatibilityPanel } from '../VMSizeCompatibilityPanel';
+import type { ImageVersionDetails, VMSize } from '../../../types';
+
+const mockDetails: ImageVersionDetails = {
+  name: '24.04.202409120',
+  location: 'westeurope',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+  dataDiskImages: [],
+  hyperVGeneration: 'V2',
+  architecture: 'x64',
+  features: [{ name: 'IsAcceleratedNetworkSupported', value: 'True' }],
+  security: {
+    securityType: null,
+    trustedLaunch: 'unsupported',
+    confidentialVM: 'unsupported',
+  },
+  plan: null,
+  automaticOSUpgradeProperties: null,
+  disallowed: null,
+  deprecationStatus: null,
+};
+
+const size = (name: string, overrides: Partial<VMSize> = {}): VMSize => ({
+  name,
+  vCPUs: 2,
+  memoryGB: 8,
+  hyperVGenerations: ['V1', 'V2'],
+  architecture: 'x64',
+  acceleratedNetworking: true,
+  diskControllerTypes: ['SCSI'],
+  restricted: false,
+  ...overrides,
+});
+
+const mockSizes: VMSize[] = [
+  size('Standard_A1_v2', {
+    hyperVGenerations: ['V1'],
+    acceleratedNetworking: false,
+  }),
+  size('Standard_B2s', { acceleratedNetworking: false }),
+  size('Standard_D2s_v5'),
+];
+
+describe('VMSizeCompatibilityPanel', () => {
+  it('lists the compatible sizes with their specs', () => {
+    render(
+      <VMSizeCompatibilityPanel details={mockDetails} sizes={mockSizes} />
+    );
+
+    expect(
+      screen.getByText('Compatible VM sizes (2 of 3)')
+    ).toBeInTheDocument();
+    expect(screen.getByText('Standard_B2s')).toBeInTheDocument();
+    expect(screen.getByText('Standard_D2s_v5')).toBeInTheDocument();
+    expect(screen.queryByText('Standard_A1_v2')).not.toBeInTheDocument();
+    expect(screen.getAllByText('2 vCPUs · 8 GiB · x64')).toHaveLength(2);
+  });
+
+  it('shows why incompatible sizes were rejected', () => {
+    render(
+      <VMSizeCompatibilityPanel details={mockDetails} sizes={mockSizes} />
+    );
+
+    fireEvent.click(screen.getByLabelText('Show incompatible sizes'));
+
+    expect(screen.getByText('Standard_A1_v2')).toBeInTheDocument();
+    expect(
+      screen.getByText('Does not support Gen2 images (supports Gen1)')
+    ).toBeInTheDocument();
+  });
+
+  it('filters by name and required features', () => {
+    render(
+      <VMSizeCompatibilityPanel details={mockDetails} sizes={mockSizes} />
+    );
+
+    fireEvent.click(screen.getByLabelText('Accelerated networking'));
+    expect(
+      screen.getByText('Compatible VM sizes (1 of 3)')
+    ).toBeInTheDocument();
+    expect(screen.queryByText('Standard_B2s')).not.toBeInTheDocument();
+
+    fireEvent.change(screen.getByLabelText('Filter VM sizes'), {
+      target: { value: 'a1' },
+    });
+    expect(
+      screen.getByText('Compatible VM sizes (0 of 1)')
+    ).toBeInTheDocument();
+    expect(screen.getByText('No VM sizes match.')).toBeInTheDocument();
+  });
+
+  it('shows a loading state', () => {
+    render(
+      <VMSizeCompatibilityPanel details={mockDetails} sizes={null} loading />
+    );
+
+    expect(screen.getByText('Loading VM sizes...')).toBeInTheDocument();
+  });
+
+  it('shows an error with retry', () => {
+    const onRetry = vi.fn();
+    render(
+      <VMSizeCompatibilityPanel
+        details={mockDetails}
+        sizes={null}
+        error="Failed to load VM sizes"
+        onRetry={onRetry}
+      />
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent(
+      'Failed to load VM sizes'
+    );
+    fireEvent.click(screen.getByText('Retry'));
+    expect(onRetry).toHaveBeenCalled();
+  });
+});
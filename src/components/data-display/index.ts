@@ -1,3 +1,15 @@
 export { PublishersGrid } from './PublishersGrid';
 export { OffersList } from './OffersList';
-export { SKUsDetails } from './SKUsDetails';
\ No newline at end of file
+export { SKUsDetails } from './SKUsDetails';
+export { DeprecationCalendar } from './DeprecationCalendar';
+export { FleetReport } from './FleetReport';
+export { ImageUsageSummary } from './ImageUsageSummary';
+export { GalleriesGrid } from './GalleriesGrid';
+export { GalleryImagesList } from './GalleryImagesList';
+export { GalleryImageVersionsList } from './GalleryImageVersionsList';
+export { SharedGalleriesGrid } from './SharedGalleriesGrid';
+export { SharedGalleryImagesList } from './SharedGalleryImagesList';
+export { SharedGalleryImageVersionsList } from './SharedGalleryImageVersionsList';
+export { ExtensionTypesList } from './ExtensionTypesList';
+export { ExtensionVersionsList } from './ExtensionVersionsList';
+export { ManagedImagesList } from './ManagedImagesList';
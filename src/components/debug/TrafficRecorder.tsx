@@ -0,0 +1,163 @@
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  armTrafficRecorder,
+  downloadRecordingBundle,
+  parseRecordingBundle,
+  saveReplayBundle,
+} from '../../services/armRecorder';
+import { isReplayMode } from '../../config/demoMode';
+
+const readFile = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsText(file);
+  });
+
+/**
+ * Traffic Recorder Component
+ * Records the ARM requests of a session into a downloadable bundle, with tokens
+ * redacted, and replays such a bundle offline to reproduce what a user saw
+ */
+export const TrafficRecorder: React.FC = () => {
+  const [isVisible, setIsVisible] = useState(false);
+  const [isRecording, setIsRecording] = useState(
+    armTrafficRecorder.isRecording
+  );
+  const [size, setSize] = useState(armTrafficRecorder.size);
+  const [error, setError] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  useEffect(
+    () =>
+      armTrafficRecorder.subscribe(() => {
+        setIsRecording(armTrafficRecorder.isRecording);
+        setSize(armTrafficRecorder.size);
+      }),
+    []
+  );
+
+  const handleReplayFile = async (
+    event: React.ChangeEvent<HTMLInputElement>
+  ) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    try {
+      const bundle = parseRecordingBundle(JSON.parse(await readFile(file)));
+      saveReplayBundle(bundle);
+      window.location.reload();
+    } catch (replayError) {
+      setError(
+        replayError instanceof SyntaxError
+          ? 'The file is not valid JSON'
+          : replayError instanceof Error
+            ? replayError.message
+            : 'Could not load the recording'
+      );
+    }
+  };
+
+  const handleStopReplay = () => {
+    saveReplayBundle(null);
+    window.location.reload();
+  };
+
+  return (
+    <div className="fixed bottom-4 left-4 z-50">
+      <button
+        onClick={() => setIsVisible(!isVisible)}
+        className={`px-3 py-2 rounded-md text-sm font-medium focus:outline-none focus:ring-2 focus:ring-blue-500 ${
+          isRecording
+            ? 'bg-red-600 text-white hover:bg-red-700'
+            : 'bg-white text-gray-700 border border-gray-300 hover:bg-gray-50'
+        }`}
+        title="Record or replay ARM traffic"
+      >
+        {isRecording ? `● REC ${size}` : 'ARM traffic'}
+      </button>
+
+      {isVisible && (
+        <div className="absolute bottom-12 left-0 bg-white border border-gray-300 rounded-lg shadow-lg p-4 w-80 space-y-3 text-sm">
+          <div className="flex justify-between items-center">
+            <h3 className="text-lg font-semibold text-gray-900">ARM Traffic</h3>
+            <button
+              onClick={() => setIsVisible(false)}
+              className="text-gray-400 hover:text-gray-600"
+              aria-label="Close"
+            >
+              ✕
+            </button>
+          </div>
+
+          <p className="text-gray-600">
+            {size} recorded {size === 1 ? 'request' : 'requests'}. Access tokens
+            are redacted from the recording.
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() =>
+                isRecording
+                  ? armTrafficRecorder.stop()
+                  : armTrafficRecorder.start()
+              }
+              className="px-3 py-1.5 text-white bg-blue-600 rounded-md hover:bg-blue-700"
+            >
+              {isRecording ? 'Stop recording' : 'Start recording'}
+            </button>
+            <button
+              onClick={() =>
+                downloadRecordingBundle(armTrafficRecorder.toBundle())
+              }
+              disabled={size === 0}
+              className="px-3 py-1.5 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+            >
+              Download
+            </button>
+            <button
+              onClick={() => armTrafficRecorder.clear()}
+              disabled={size === 0}
+              className="px-3 py-1.5 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:text-gray-400 disabled:hover:bg-transparent"
+            >
+              Clear
+            </button>
+          </div>
+
+          <div className="pt-3 border-t border-gray-100">
+            {isReplayMode ? (
+              <button
+                onClick={handleStopReplay}
+                className="w-full px-3 py-1.5 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+              >
+                Stop replay
+              </button>
+            ) : (
+              <>
+                <input
+                  ref={fileInput}
+                  type="file"
+                  accept="application/json,.json"
+                  aria-label="Recording to replay"
+                  onChange={handleReplayFile}
+                  className="hidden"
+                />
+                <button
+                  onClick={() => fileInput.current?.click()}
+                  className="w-full px-3 py-1.5 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Replay a recording...
+                </button>
+              </>
+            )}
+          </div>
+
+          {error && <p className="text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
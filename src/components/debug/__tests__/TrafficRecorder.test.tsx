@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  render,
+  screen,
+  fireEvent,
+  waitFor,
+  act,
+} from '@testing-library/react';
+import { TrafficRecorder } from '../TrafficRecorder';
+import { armTrafficRecorder } from '../../../services/armRecorder';
+
+const mockReload = vi.fn();
+
+describe('TrafficRecorder', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    sessionStorage.clear();
+    armTrafficRecorder.stop();
+    armTrafficRecorder.clear();
+    vi.stubGlobal('location', { ...window.location, reload: mockReload });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should record ARM requests and count them', async () => {
+    render(<TrafficRecorder />);
+    fireEvent.click(screen.getByTitle('Record or replay ARM traffic'));
+    fireEvent.click(screen.getByRole('button', { name: 'Start recording' }));
+
+    const transport = armTrafficRecorder.wrap(
+      vi.fn().mockResolvedValue(new Response('{}', { status: 200 }))
+    );
+    await act(() =>
+      transport(
+        'https://management.azure.com/subscriptions?api-version=2020-01-01',
+        {}
+      )
+    );
+
+    expect(
+      screen.getByText(
+        '1 recorded request. Access tokens are redacted from the recording.'
+      )
+    ).toBeInTheDocument();
+    expect(screen.getByTitle('Record or replay ARM traffic')).toHaveTextContent(
+      '● REC 1'
+    );
+
+    fireEvent.click(screen.getByRole('button', { name: 'Stop recording' }));
+    expect(armTrafficRecorder.isRecording).toBe(false);
+  });
+
+  it('should download the recording as JSON', async () => {
+    const createObjectURL = vi.fn().mockReturnValue('blob:recording');
+    Object.assign(URL, { createObjectURL, revokeObjectURL: vi.fn() });
+    armTrafficRecorder.start();
+    await armTrafficRecorder.wrap(
+      vi.fn().mockResolvedValue(new Response('{}'))
+    )('https://management.azure.com/subscriptions', {});
+    armTrafficRecorder.stop();
+
+    render(<TrafficRecorder />);
+    fireEvent.click(screen.getByTitle('Record or replay ARM traffic'));
+    fireEvent.click(screen.getByRole('button', { name: 'Download' }));
+
+    const blob: Blob = createObjectURL.mock.calls[0][0];
+    const text = await new Promise<string>((resolve) => {
+      const reader = new FileReader();
+      reader.onload = () => resolve(reader.result as string);
+      reader.readAsText(blob);
+    });
+    expect(JSON.parse(text)).toMatchObject({
+      format: 'vmib-arm-recording',
+      exchanges: [expect.any(Object)],
+    });
+  });
+
+  it('should load a recording for replay and reload', async () => {
+    render(<TrafficRecorder />);
+    fireEvent.click(screen.getByTitle('Record or replay ARM traffic'));
+
+    const recording = JSON.stringify({
+      format: 'vmib-arm-recording',
+      version: 1,
+      createdAt: '',
+      armEndpoint: '',
+      exchanges: [],
+    });
+    fireEvent.change(screen.getByLabelText('Recording to replay'), {
+      target: {
+        files: [
+          new File([recording], 'recording.json', { type: 'application/json' }),
+        ],
+      },
+    });
+
+    await waitFor(() => expect(mockReload).toHaveBeenCalled());
+    expect(sessionStorage.getItem('vmib-replay-bundle')).toBe(recording);
+  });
+
+  it('should reject files that are not recordings', async () => {
+    render(<TrafficRecorder />);
+    fireEvent.click(screen.getByTitle('Record or replay ARM traffic'));
+
+    fireEvent.change(screen.getByLabelText('Recording to replay'), {
+      target: { files: [new File(['{"value":[]}'], 'other.json')] },
+    });
+
+    expect(
+      await screen.findByText('Not an ARM recording bundle')
+    ).toBeInTheDocument();
+    expect(mockReload).not.toHaveBeenCalled();
+  });
+});
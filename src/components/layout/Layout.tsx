@@ -1,11 +1,14 @@
 import React from 'react';
-import { Outlet, useLocation } from 'react-router-dom';
+import { Link, Outlet, useLocation } from 'react-router-dom';
 import { SubscriptionSelector } from '../ui/SubscriptionSelector';
 import { LocationSelector } from '../ui/LocationSelector';
+import { EdgeZoneSelector } from '../ui/EdgeZoneSelector';
+import { CatalogSearch } from '../ui/CatalogSearch';
 import { LogoutButton } from '../auth/LogoutButton';
 import { ErrorBoundary } from '../ui/ErrorBoundary';
 import { Logo } from '../ui/Logo';
 import { useSubscriptions } from '../../stores/authStore';
+import { isDemoMode, isReplayMode } from '../../config/demoMode';
 import { Container } from './Container';
 import { Stack } from './Stack';
 
@@ -16,21 +19,19 @@ import { Stack } from './Stack';
 export const Layout: React.FC = () => {
   const { selectedSubscription } = useSubscriptions();
   const location = useLocation();
-  
-  // Only allow changes on publishers page to avoid errors
-  const isPublishersPage = location.pathname === '/publishers' || location.pathname === '/';
-  const shouldDisableSelectors = !isPublishersPage;
+
+  // Only allow changes on the location-scoped list pages to avoid errors
+  const isPublishersPage =
+    location.pathname === '/publishers' || location.pathname === '/';
+  const isSharedGalleriesPage = location.pathname === '/shared-galleries';
+  const shouldDisableSelectors = !isPublishersPage && !isSharedGalleriesPage;
 
   return (
     <div className="min-h-screen bg-gray-50">
       {/* Header */}
       <header className="bg-white shadow-sm border-b border-gray-200 sticky top-0 z-40">
         <Container size="xl" padding="md">
-          <Stack
-            direction="vertical"
-            spacing="md"
-            className="py-4"
-          >
+          <Stack direction="vertical" spacing="md" className="py-4">
             {/* Top header row */}
             <Stack
               direction="horizontal"
@@ -39,22 +40,26 @@ export const Layout: React.FC = () => {
               spacing="md"
               responsive={{
                 sm: { direction: 'vertical', align: 'start', spacing: 'sm' },
-                md: { direction: 'horizontal', align: 'center', spacing: 'md' }
+                md: { direction: 'horizontal', align: 'center', spacing: 'md' },
               }}
             >
               <div className="flex items-center space-x-4">
-                <Logo 
-                  size="md" 
-                  showText={true}
-                  className="hidden sm:flex"
-                />
-                <Logo 
-                  size="sm" 
-                  showText={true}
-                  className="flex sm:hidden"
-                />
+                <Logo size="md" showText={true} className="hidden sm:flex" />
+                <Logo size="sm" showText={true} className="flex sm:hidden" />
+                {isDemoMode && (
+                  <span
+                    className="px-2 py-0.5 text-xs font-medium text-amber-800 bg-amber-100 border border-amber-200 rounded-full"
+                    title={
+                      isReplayMode
+                        ? 'Responses replayed from an ARM recording'
+                        : 'Sample data served locally, no Azure connection'
+                    }
+                  >
+                    {isReplayMode ? 'Replay' : 'Demo mode'}
+                  </span>
+                )}
               </div>
-              
+
               <Stack
                 direction="horizontal"
                 align="center"
@@ -62,29 +67,74 @@ export const Layout: React.FC = () => {
                 className="w-full sm:w-auto"
                 responsive={{
                   sm: { direction: 'vertical', spacing: 'sm' },
-                  md: { direction: 'horizontal', spacing: 'md' }
+                  md: { direction: 'horizontal', spacing: 'md' },
                 }}
               >
-                <SubscriptionSelector 
-                  className="w-full sm:min-w-64" 
+                <SubscriptionSelector
+                  className="w-full sm:min-w-64"
+                  disabled={shouldDisableSelectors}
+                />
+                <LocationSelector
+                  className="w-full sm:min-w-48"
                   disabled={shouldDisableSelectors}
                 />
-                <LocationSelector 
-                  className="w-full sm:min-w-48" 
+                <EdgeZoneSelector
+                  className="w-full sm:min-w-48"
                   disabled={shouldDisableSelectors}
                 />
                 <LogoutButton />
               </Stack>
             </Stack>
-            
+
             {/* Simple Navigation Info */}
             {selectedSubscription && (
-              <div className="border-t border-gray-100 pt-4">
+              <div className="border-t border-gray-100 pt-4 flex items-center justify-between gap-4">
                 <p className="text-sm text-gray-600">
                   Browse Azure VM marketplace images for your subscription
                 </p>
+                <nav className="flex items-center gap-4">
+                  <Link
+                    to="/publishers"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Marketplace
+                  </Link>
+                  <Link
+                    to="/galleries"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Compute Galleries
+                  </Link>
+                  <Link
+                    to="/shared-galleries"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Community &amp; shared
+                  </Link>
+                  <Link
+                    to="/managed-images"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Managed images
+                  </Link>
+                  <Link
+                    to="/deprecations"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Upcoming deprecations
+                  </Link>
+                  <Link
+                    to="/fleet"
+                    className="text-sm text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap"
+                  >
+                    Fleet report
+                  </Link>
+                </nav>
               </div>
             )}
+
+            {/* Search across the whole marketplace of the selected location */}
+            {selectedSubscription && <CatalogSearch className="w-full" />}
           </Stack>
         </Container>
       </header>
@@ -115,7 +165,8 @@ export const Layout: React.FC = () => {
                     Select a Subscription
                   </h3>
                   <p className="text-sm sm:text-base text-gray-600 px-4">
-                    Please select an Azure subscription from the dropdown above to browse VM images.
+                    Please select an Azure subscription from the dropdown above
+                    to browse VM images.
                   </p>
                 </div>
               </div>
@@ -125,4 +176,4 @@ export const Layout: React.FC = () => {
       </main>
     </div>
   );
-};
\ No newline at end of file
+};
@@ -0,0 +1,216 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { SearchFilter } from './SearchFilter';
+import { useSubscriptions } from '../../stores/authStore';
+import { useCatalogIndexStore } from '../../stores/catalogIndexStore';
+import { useTenantAwareServices } from '../../hooks/useTenantAwareServices';
+import { searchCatalogIndex } from '../../services/catalogCrawler';
+import { isAbortError } from '../../utils/errorHandling';
+import type { CatalogCrawlProgress, CatalogIndexEntry } from '../../types';
+
+interface CatalogSearchProps {
+  className?: string;
+}
+
+const PHASE_LABELS: Record<CatalogCrawlProgress['phase'], string> = {
+  publishers: 'publishers',
+  offers: 'offers',
+  skus: 'SKUs',
+};
+
+/**
+ * Global search across every publisher, offer and SKU of the selected location.
+ * Searches the catalog index, which is built by a background crawl on demand.
+ */
+export const CatalogSearch: React.FC<CatalogSearchProps> = ({
+  className = '',
+}) => {
+  const navigate = useNavigate();
+  const { selectedSubscription, selectedLocation, selectedEdgeZone } =
+    useSubscriptions();
+  const {
+    index,
+    crawling,
+    paused,
+    progress,
+    error,
+    setIndex,
+    setCrawling,
+    setPaused,
+    setProgress,
+    setError,
+  } = useCatalogIndexStore();
+  const tenantAwareServices = useTenantAwareServices();
+  const crawler = tenantAwareServices?.catalogCrawler;
+  const crawlController = useRef<AbortController | null>(null);
+  const [query, setQuery] = useState('');
+
+  // Load the stored index of the current scope, cancelling a crawl of the old one
+  useEffect(() => {
+    setIndex(null);
+    setProgress(null);
+    setError(null);
+    if (!crawler || !selectedSubscription || !selectedLocation) return;
+
+    let cancelled = false;
+    crawler
+      .loadIndex(selectedSubscription, selectedLocation, selectedEdgeZone)
+      .then((storedIndex) => {
+        if (!cancelled && storedIndex) {
+          setIndex(storedIndex);
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      crawlController.current?.abort();
+    };
+  }, [crawler, selectedSubscription, selectedLocation, selectedEdgeZone]);
+
+  const results = useMemo(
+    () => (index ? searchCatalogIndex(index.entries, query, 20) : []),
+    [index, query]
+  );
+
+  const startCrawl = async () => {
+    if (!crawler || !selectedSubscription || !selectedLocation) return;
+
+    const controller = new AbortController();
+    crawlController.current = controller;
+    crawler.resume();
+    setCrawling(true);
+
+    try {
+      const builtIndex = await crawler.crawl(
+        selectedSubscription,
+        selectedLocation,
+        selectedEdgeZone,
+        {
+          signal: controller.signal,
+          onProgress: setProgress,
+        }
+      );
+      setIndex(builtIndex);
+    } catch (crawlError) {
+      if (!isAbortError(crawlError)) {
+        setError(
+          crawlError instanceof Error
+            ? crawlError.message
+            : 'Failed to build the catalog index'
+        );
+      }
+    } finally {
+      if (crawlController.current === controller) {
+        crawlController.current = null;
+        setCrawling(false);
+        setProgress(null);
+      }
+    }
+  };
+
+  const togglePause = () => {
+    if (!crawler) return;
+    if (paused) {
+      crawler.resume();
+    } else {
+      crawler.pause();
+    }
+    setPaused(!paused);
+  };
+
+  const cancelCrawl = () => {
+    crawlController.current?.abort();
+  };
+
+  const openEntry = (entry: CatalogIndexEntry) => {
+    setQuery('');
+    navigate(
+      `/publishers/${encodeURIComponent(entry.publisher)}/offers/${encodeURIComponent(entry.offer)}/skus`
+    );
+  };
+
+  const buttonClass =
+    'text-xs text-blue-700 hover:text-blue-900 hover:underline whitespace-nowrap disabled:text-gray-400';
+
+  return (
+    <div className={`relative ${className}`}>
+      <SearchFilter
+        placeholder={
+          index
+            ? `Search ${index.entries.length.toLocaleString()} marketplace images...`
+            : 'Search the whole marketplace...'
+        }
+        value={query}
+        onSearch={setQuery}
+        debounceMs={150}
+        disabled={!index}
+      />
+
+      <div className="mt-1 flex items-center gap-3 text-xs text-gray-500">
+        {crawling ? (
+          <>
+            <span>
+              {paused ? 'Paused' : 'Indexing'}
+              {progress &&
+                ` ${PHASE_LABELS[progress.phase]} ${progress.completed}/${progress.total}`}
+            </span>
+            <button type="button" className={buttonClass} onClick={togglePause}>
+              {paused ? 'Resume' : 'Pause'}
+            </button>
+            <button type="button" className={buttonClass} onClick={cancelCrawl}>
+              Cancel
+            </button>
+          </>
+        ) : (
+          <>
+            <span>
+              {index
+                ? `Index built ${new Date(index.builtAt).toLocaleString()}${index.failed > 0 ? ` · ${index.failed} listings skipped` : ''}`
+                : `No catalog index for ${selectedLocation}`}
+            </span>
+            <button
+              type="button"
+              className={buttonClass}
+              onClick={startCrawl}
+              disabled={!crawler}
+            >
+              {index ? 'Rebuild index' : 'Build index'}
+            </button>
+          </>
+        )}
+        {error && <span className="text-red-600">{error}</span>}
+      </div>
+
+      {query.trim() && index && (
+        <ul
+          className="absolute left-0 right-0 mt-1 max-h-80 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg z-50"
+          role="listbox"
+          aria-label="Catalog search results"
+        >
+          {results.length === 0 ? (
+            <li className="px-3 py-2 text-sm text-gray-500">
+              No images match "{query}"
+            </li>
+          ) : (
+            results.map((entry) => (
+              <li key={`${entry.publisher}/${entry.offer}/${entry.sku}`}>
+                <button
+                  type="button"
+                  className="w-full text-left px-3 py-2 hover:bg-blue-50 focus:bg-blue-50 focus:outline-none"
+                  onClick={() => openEntry(entry)}
+                >
+                  <span className="block text-sm font-medium text-gray-900">
+                    {entry.sku}
+                  </span>
+                  <span className="block text-xs text-gray-500">
+                    {entry.publisher} · {entry.offer}
+                  </span>
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      )}
+    </div>
+  );
+};
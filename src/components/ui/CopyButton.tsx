@@ -1,33 +1,63 @@
 import React, { useState, useRef, useEffect } from 'react';
-import type { VMImageReference } from '../../types';
-import { 
-  generateAllFormats, 
-  validateImageReference, 
-  AVAILABLE_FORMATS
+import type { ImageReference } from '../../types';
+import {
+  generateAllFormats,
+  generateAllFullVMFormats,
+  getImageOSType,
+  validateImageReference,
+  AVAILABLE_FORMATS,
 } from '../../utils/iacFormats';
-import type { FormatKey } from '../../utils/iacFormats';
 import { copyToClipboard } from '../../utils';
 
+export interface SnippetFormat<K extends string> {
+  key: K;
+  label: string;
+}
+
+interface SnippetCopyButtonProps<K extends string> {
+  formats: readonly SnippetFormat<K>[];
+  generate: (format: K) => string;
+  isValid?: boolean;
+  className?: string;
+  disabled?: boolean;
+}
+
 interface CopyButtonProps {
-  imageReference: VMImageReference;
+  imageReference: ImageReference;
+  // Copy the image reference alone, or a complete VM deployed from it
+  mode?: 'reference' | 'fullVM';
+  // OS of the image, picks the Linux or Windows VM in full VM mode
+  osType?: string | null;
+  // Location the image was browsed in, used by the CLI and full VM outputs
+  location?: string | null;
   className?: string;
   disabled?: boolean;
 }
 
-export const CopyButton: React.FC<CopyButtonProps> = ({
-  imageReference,
+/**
+ * Copy button with a format dropdown for any set of generated snippets
+ */
+export function SnippetCopyButton<K extends string>({
+  formats,
+  generate,
+  isValid = true,
   className = '',
-  disabled = false
-}) => {
+  disabled = false,
+}: SnippetCopyButtonProps<K>) {
   const [isDropdownOpen, setIsDropdownOpen] = useState(false);
-  const [copyStatus, setCopyStatus] = useState<'idle' | 'copying' | 'success' | 'error'>('idle');
-  const [selectedFormat, setSelectedFormat] = useState<FormatKey>('arm');
+  const [copyStatus, setCopyStatus] = useState<
+    'idle' | 'copying' | 'success' | 'error'
+  >('idle');
+  const [selectedFormat, setSelectedFormat] = useState<K>(formats[0].key);
   const dropdownRef = useRef<HTMLDivElement>(null);
 
   // Close dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
-      if (dropdownRef.current && !dropdownRef.current.contains(event.target as Node)) {
+      if (
+        dropdownRef.current &&
+        !dropdownRef.current.contains(event.target as Node)
+      ) {
         setIsDropdownOpen(false);
       }
     };
@@ -44,8 +74,8 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
     }
   }, [copyStatus]);
 
-  const handleCopy = async (format: FormatKey) => {
-    if (!validateImageReference(imageReference)) {
+  const handleCopy = async (format: K) => {
+    if (!isValid) {
       setCopyStatus('error');
       return;
     }
@@ -54,11 +84,10 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
     setIsDropdownOpen(false);
 
     try {
-      const formats = generateAllFormats(imageReference);
-      const textToCopy = formats[format];
-      
+      const textToCopy = generate(format);
+
       const success = await copyToClipboard(textToCopy);
-      
+
       if (success) {
         setSelectedFormat(format);
         setCopyStatus('success');
@@ -75,7 +104,7 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
     handleCopy(selectedFormat);
   };
 
-  const isDisabled = disabled || !validateImageReference(imageReference);
+  const isDisabled = disabled || !isValid;
 
   const getButtonText = () => {
     switch (copyStatus) {
@@ -95,26 +124,67 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
       case 'copying':
         return (
           <svg className="w-4 h-4 animate-spin" fill="none" viewBox="0 0 24 24">
-            <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
-            <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
+            <circle
+              className="opacity-25"
+              cx="12"
+              cy="12"
+              r="10"
+              stroke="currentColor"
+              strokeWidth="4"
+            />
+            <path
+              className="opacity-75"
+              fill="currentColor"
+              d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"
+            />
           </svg>
         );
       case 'success':
         return (
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" />
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M5 13l4 4L19 7"
+            />
           </svg>
         );
       case 'error':
         return (
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M6 18L18 6M6 6l12 12"
+            />
           </svg>
         );
       default:
         return (
-          <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
+          <svg
+            className="w-4 h-4"
+            fill="none"
+            stroke="currentColor"
+            viewBox="0 0 24 24"
+          >
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z"
+            />
           </svg>
         );
     }
@@ -124,7 +194,7 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
     if (isDisabled) {
       return 'bg-gray-300 text-gray-500 cursor-not-allowed';
     }
-    
+
     switch (copyStatus) {
       case 'success':
         return 'bg-green-600 text-white hover:bg-green-700';
@@ -147,7 +217,7 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
             transition-colors duration-200 focus:outline-none focus:opacity-80
             ${getButtonColorClasses()}
           `}
-          aria-label={`Copy as ${AVAILABLE_FORMATS.find(f => f.key === selectedFormat)?.label}`}
+          aria-label={`Copy as ${formats.find((f) => f.key === selectedFormat)?.label}`}
         >
           {getButtonIcon()}
           {getButtonText()}
@@ -166,13 +236,18 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
           aria-expanded={isDropdownOpen}
           aria-haspopup="true"
         >
-          <svg 
-            className={`w-4 h-4 transition-transform duration-200 ${isDropdownOpen ? 'rotate-180' : ''}`} 
-            fill="none" 
-            stroke="currentColor" 
+          <svg
+            className={`w-4 h-4 transition-transform duration-200 ${isDropdownOpen ? 'rotate-180' : ''}`}
+            fill="none"
+            stroke="currentColor"
             viewBox="0 0 24 24"
           >
-            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+            <path
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              strokeWidth={2}
+              d="M19 9l-7 7-7-7"
+            />
           </svg>
         </button>
       </div>
@@ -181,7 +256,7 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
       {isDropdownOpen && (
         <div className="absolute right-0 mt-2 w-48 bg-white rounded-md shadow-lg ring-1 ring-black ring-opacity-5 z-10">
           <div className="py-1" role="menu" aria-orientation="vertical">
-            {AVAILABLE_FORMATS.map((format) => (
+            {formats.map((format) => (
               <button
                 key={format.key}
                 onClick={() => handleCopy(format.key)}
@@ -195,8 +270,16 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
                 <div className="flex items-center justify-between">
                   <span>{format.label}</span>
                   {selectedFormat === format.key && (
-                    <svg className="w-4 h-4 text-blue-600" fill="currentColor" viewBox="0 0 20 20">
-                      <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
+                    <svg
+                      className="w-4 h-4 text-blue-600"
+                      fill="currentColor"
+                      viewBox="0 0 20 20"
+                    >
+                      <path
+                        fillRule="evenodd"
+                        d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z"
+                        clipRule="evenodd"
+                      />
                     </svg>
                   )}
                 </div>
@@ -207,4 +290,32 @@ export const CopyButton: React.FC<CopyButtonProps> = ({
       )}
     </div>
   );
-};
\ No newline at end of file
+}
+
+/**
+ * Copy button for VM image references in every IaC format
+ */
+export const CopyButton: React.FC<CopyButtonProps> = ({
+  imageReference,
+  mode = 'reference',
+  osType = null,
+  location = null,
+  className = '',
+  disabled = false,
+}) => (
+  <SnippetCopyButton
+    formats={AVAILABLE_FORMATS}
+    generate={(format) =>
+      mode === 'fullVM'
+        ? generateAllFullVMFormats(
+            imageReference,
+            getImageOSType(osType),
+            location
+          )[format]
+        : generateAllFormats(imageReference, location)[format]
+    }
+    isValid={validateImageReference(imageReference)}
+    className={className}
+    disabled={disabled}
+  />
+);
@@ -0,0 +1,80 @@
+import React, { useEffect } from 'react';
+import { useSubscriptions, useEdgeZoneSelector } from '../../stores/authStore';
+import { SearchableDropdown } from './SearchableDropdown';
+import { useTenantAwareServices } from '../../hooks/useTenantAwareServices';
+
+interface EdgeZoneSelectorProps {
+  className?: string;
+  disabled?: boolean;
+}
+
+// Option value that browses the region's own catalog
+const NO_EDGE_ZONE = '';
+
+/**
+ * Selects an Azure Extended Zone (edge zone) of the selected region.
+ * Renders nothing when the region has no edge zones.
+ */
+export const EdgeZoneSelector: React.FC<EdgeZoneSelectorProps> = ({
+  className = '',
+  disabled = false,
+}) => {
+  const { selectedSubscription } = useSubscriptions();
+  const { edgeZones, selectedEdgeZone, setEdgeZones, selectEdgeZone } =
+    useEdgeZoneSelector();
+  const tenantAwareServices = useTenantAwareServices();
+
+  // Load the edge zones of the subscription when it changes
+  useEffect(() => {
+    const loadEdgeZones = async () => {
+      if (!selectedSubscription || !tenantAwareServices) return;
+
+      try {
+        const zones =
+          await tenantAwareServices.subscriptionService.getEdgeZones(
+            selectedSubscription
+          );
+        setEdgeZones(zones);
+      } catch (error) {
+        // Edge zones are optional; browsing the region still works
+        console.error('Failed to fetch edge zones:', error);
+        setEdgeZones([]);
+      }
+    };
+
+    loadEdgeZones();
+  }, [selectedSubscription, tenantAwareServices]);
+
+  if (edgeZones.length === 0) {
+    return null;
+  }
+
+  const edgeZoneOptions = [
+    { value: NO_EDGE_ZONE, label: 'None (region catalog)' },
+    ...edgeZones.map((zone) => ({
+      value: zone.name,
+      label: zone.displayName,
+      description: zone.name,
+    })),
+  ];
+
+  return (
+    <div className={`space-y-1 ${className}`}>
+      <label className="block text-sm font-medium text-gray-700">
+        Edge Zone
+      </label>
+      <SearchableDropdown
+        options={edgeZoneOptions}
+        value={selectedEdgeZone ?? NO_EDGE_ZONE}
+        placeholder="Select an edge zone..."
+        onSelect={(value) => selectEdgeZone(value || null)}
+        disabled={disabled}
+        searchPlaceholder="Search edge zones..."
+        emptyMessage="No edge zones found"
+        className="w-full"
+      />
+    </div>
+  );
+};
+
+export default EdgeZoneSelector;
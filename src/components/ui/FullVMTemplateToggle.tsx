@@ -0,0 +1,31 @@
+import React from 'react';
+
+interface FullVMTemplateToggleProps {
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Checkbox that switches the copy buttons of a list between the bare image
+ * reference and a complete VM deployment
+ */
+export const FullVMTemplateToggle: React.FC<FullVMTemplateToggleProps> = ({
+  checked,
+  onChange,
+  className = '',
+}) => {
+  return (
+    <label
+      className={`flex items-center gap-2 text-sm text-gray-600 ${className}`}
+    >
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(event) => onChange(event.target.checked)}
+        className="rounded border-gray-300"
+      />
+      Full VM template
+    </label>
+  );
+};
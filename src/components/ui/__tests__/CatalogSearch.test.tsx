@@ -0,0 +1,166 @@
+import { render, screen, fireEvent, waitFor } from '@testing-library/react';
+import { vi, describe, it, expect, beforeEach } from 'vitest';
+import { CatalogSearch } from '../CatalogSearch';
+import { useCatalogIndexStore } from '../../../stores/catalogIndexStore';
+import type { CatalogIndex } from '../../../types';
+
+const mockNavigate = vi.fn();
+const mockCrawler = {
+  loadIndex: vi.fn(),
+  crawl: vi.fn(),
+  pause: vi.fn(),
+  resume: vi.fn(),
+};
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../../../stores/authStore', () => ({
+  useSubscriptions: () => ({
+    selectedSubscription: 'sub-1',
+    selectedLocation: 'westeurope',
+    selectedEdgeZone: null,
+  }),
+}));
+
+vi.mock('../../../hooks/useTenantAwareServices', () => ({
+  useTenantAwareServices: () => ({ catalogCrawler: mockCrawler }),
+}));
+
+const catalogIndex: CatalogIndex = {
+  subscriptionId: 'sub-1',
+  location: 'westeurope',
+  edgeZone: null,
+  entries: [
+    { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', sku: 'server' },
+    { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', sku: 'server-arm64' },
+    {
+      publisher: 'MicrosoftWindowsServer',
+      offer: 'WindowsServer',
+      sku: '2022-datacenter',
+    },
+  ],
+  failed: 0,
+  builtAt: Date.now(),
+};
+
+describe('CatalogSearch', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    useCatalogIndexStore.getState().clearAll();
+  });
+
+  it('offers to build an index when none is stored', async () => {
+    mockCrawler.loadIndex.mockResolvedValue(null);
+
+    render(<CatalogSearch />);
+
+    expect(
+      await screen.findByText('No catalog index for westeurope')
+    ).toBeInTheDocument();
+    expect(
+      screen.getByRole('button', { name: 'Build index' })
+    ).toBeInTheDocument();
+    expect(
+      screen.getByPlaceholderText('Search the whole marketplace...')
+    ).toBeDisabled();
+    expect(mockCrawler.loadIndex).toHaveBeenCalledWith(
+      'sub-1',
+      'westeurope',
+      null
+    );
+  });
+
+  it('builds the index and stores it', async () => {
+    mockCrawler.loadIndex.mockResolvedValue(null);
+    mockCrawler.crawl.mockResolvedValue(catalogIndex);
+
+    render(<CatalogSearch />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Build index' }));
+
+    await waitFor(() =>
+      expect(useCatalogIndexStore.getState().index).toEqual(catalogIndex)
+    );
+    expect(mockCrawler.crawl).toHaveBeenCalledWith(
+      'sub-1',
+      'westeurope',
+      null,
+      expect.objectContaining({
+        signal: expect.any(AbortSignal),
+      })
+    );
+    expect(
+      screen.getByRole('button', { name: 'Rebuild index' })
+    ).toBeInTheDocument();
+  });
+
+  it('shows crawl progress with pause and cancel controls', async () => {
+    mockCrawler.loadIndex.mockResolvedValue(null);
+    let crawlSignal: AbortSignal | undefined;
+    mockCrawler.crawl.mockImplementation(
+      (_sub, _location, _edgeZone, options) => {
+        crawlSignal = options.signal;
+        options.onProgress({
+          phase: 'offers',
+          completed: 3,
+          total: 10,
+          failed: 0,
+        });
+        return new Promise((_, reject) => {
+          options.signal.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError'))
+          );
+        });
+      }
+    );
+
+    render(<CatalogSearch />);
+    fireEvent.click(await screen.findByRole('button', { name: 'Build index' }));
+
+    expect(await screen.findByText('Indexing offers 3/10')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Pause' }));
+    expect(mockCrawler.pause).toHaveBeenCalled();
+    expect(screen.getByText('Paused offers 3/10')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Cancel' }));
+    expect(crawlSignal?.aborted).toBe(true);
+    expect(
+      await screen.findByRole('button', { name: 'Build index' })
+    ).toBeInTheDocument();
+    expect(useCatalogIndexStore.getState().error).toBeNull();
+  });
+
+  it('searches the stored index and navigates to the offer', async () => {
+    mockCrawler.loadIndex.mockResolvedValue(catalogIndex);
+
+    render(<CatalogSearch />);
+    const input = await screen.findByPlaceholderText(
+      'Search 3 marketplace images...'
+    );
+    fireEvent.change(input, { target: { value: 'ubuntu 24.04 arm64' } });
+
+    const result = await screen.findByText('server-arm64');
+    expect(screen.queryByText('2022-datacenter')).not.toBeInTheDocument();
+
+    fireEvent.click(result);
+    expect(mockNavigate).toHaveBeenCalledWith(
+      '/publishers/Canonical/offers/ubuntu-24_04-lts/skus'
+    );
+  });
+
+  it('shows when nothing matches', async () => {
+    mockCrawler.loadIndex.mockResolvedValue(catalogIndex);
+
+    render(<CatalogSearch />);
+    const input = await screen.findByPlaceholderText(
+      'Search 3 marketplace images...'
+    );
+    fireEvent.change(input, { target: { value: 'debian' } });
+
+    expect(
+      await screen.findByText('No images match "debian"')
+    ).toBeInTheDocument();
+  });
+});
@@ -27,7 +27,7 @@ describe('CopyButton', () => {
     publisher: 'Canonical',
     offer: '0001-com-ubuntu-server-focal',
     sku: '20_04-lts-gen2',
-    version: 'latest'
+    version: 'latest',
   };
 
   const mockCopyToClipboard = vi.mocked(utils.copyToClipboard);
@@ -44,8 +44,10 @@ describe('CopyButton', () => {
   describe('Rendering', () => {
     it('should render copy button with default state', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      expect(screen.getByRole('button', { name: /copy as arm template/i })).toBeInTheDocument();
+
+      expect(
+        screen.getByRole('button', { name: /copy as arm template/i })
+      ).toBeInTheDocument();
       expect(screen.getByText('Copy')).toBeInTheDocument();
     });
 
@@ -53,23 +55,27 @@ describe('CopyButton', () => {
       const { container } = render(
         <CopyButton imageReference={mockImageRef} className="custom-class" />
       );
-      
+
       expect(container.firstChild).toHaveClass('custom-class');
     });
 
     it('should be disabled when imageReference is invalid', () => {
       const invalidImageRef = { ...mockImageRef, publisher: '' };
       render(<CopyButton imageReference={invalidImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       expect(copyButton).toBeDisabled();
       expect(copyButton).toHaveClass('cursor-not-allowed');
     });
 
     it('should be disabled when disabled prop is true', () => {
       render(<CopyButton imageReference={mockImageRef} disabled={true} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       expect(copyButton).toBeDisabled();
     });
   });
@@ -77,15 +83,31 @@ describe('CopyButton', () => {
   describe('Dropdown functionality', () => {
     it('should open dropdown when dropdown toggle is clicked', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       expect(screen.getByRole('menu')).toBeInTheDocument();
-      expect(screen.getByRole('menuitem', { name: /arm template/i })).toBeInTheDocument();
-      expect(screen.getByRole('menuitem', { name: /terraform/i })).toBeInTheDocument();
-      expect(screen.getByRole('menuitem', { name: /bicep/i })).toBeInTheDocument();
-      expect(screen.getByRole('menuitem', { name: /ansible/i })).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /arm template/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /terraform/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /bicep/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /ansible/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /azure cli \(bash\)/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('menuitem', { name: /az powershell/i })
+      ).toBeInTheDocument();
     });
 
     it('should close dropdown when clicking outside', () => {
@@ -95,26 +117,30 @@ describe('CopyButton', () => {
           <div data-testid="outside">Outside element</div>
         </div>
       );
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       expect(screen.getByRole('menu')).toBeInTheDocument();
-      
+
       fireEvent.mouseDown(screen.getByTestId('outside'));
-      
+
       expect(screen.queryByRole('menu')).not.toBeInTheDocument();
     });
 
     it('should show selected format with checkmark', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       const armOption = screen.getByRole('menuitem', { name: /arm template/i });
       expect(armOption).toHaveClass('bg-blue-50', 'text-blue-700');
-      
+
       // Check for checkmark icon (svg with specific path)
       const checkmark = armOption.querySelector('svg');
       expect(checkmark).toBeInTheDocument();
@@ -124,10 +150,12 @@ describe('CopyButton', () => {
   describe('Copy functionality', () => {
     it('should copy ARM template when main button is clicked', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       fireEvent.click(copyButton);
-      
+
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalledWith(
           expect.stringContaining('"publisher": "Canonical"')
@@ -135,15 +163,42 @@ describe('CopyButton', () => {
       });
     });
 
+    it('should copy a full VM template in full VM mode', async () => {
+      render(
+        <CopyButton
+          imageReference={mockImageRef}
+          mode="fullVM"
+          osType="Windows"
+        />
+      );
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /copy as arm template/i })
+      );
+
+      await waitFor(() => {
+        expect(mockCopyToClipboard).toHaveBeenCalledWith(
+          expect.stringContaining('Microsoft.Compute/virtualMachines')
+        );
+      });
+      expect(mockCopyToClipboard).toHaveBeenCalledWith(
+        expect.stringContaining('"adminPassword"')
+      );
+    });
+
     it('should copy selected format when dropdown option is clicked', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
-      const terraformOption = screen.getByRole('menuitem', { name: /terraform/i });
+
+      const terraformOption = screen.getByRole('menuitem', {
+        name: /terraform/i,
+      });
       fireEvent.click(terraformOption);
-      
+
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalledWith(
           expect.stringContaining('publisher = "Canonical"')
@@ -151,49 +206,79 @@ describe('CopyButton', () => {
       });
     });
 
+    it('should copy Azure CLI commands when that format is chosen', async () => {
+      render(
+        <CopyButton imageReference={mockImageRef} location="westeurope" />
+      );
+
+      fireEvent.click(
+        screen.getByRole('button', { name: /select copy format/i })
+      );
+      fireEvent.click(
+        screen.getByRole('menuitem', { name: /azure cli \(bash\)/i })
+      );
+
+      await waitFor(() => {
+        expect(mockCopyToClipboard).toHaveBeenCalledWith(
+          expect.stringContaining(
+            'urn="Canonical:0001-com-ubuntu-server-focal:20_04-lts-gen2:latest"'
+          )
+        );
+      });
+      expect(mockCopyToClipboard).toHaveBeenCalledWith(
+        expect.stringContaining('location="westeurope"')
+      );
+    });
+
     it('should show success state after successful copy', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       fireEvent.click(copyButton);
-      
+
       await waitFor(() => {
         expect(screen.getByText('Copied!')).toBeInTheDocument();
       });
-      
+
       expect(copyButton).toHaveClass('bg-green-600');
     });
 
     it('should show error state when copy fails', async () => {
       mockCopyToClipboard.mockResolvedValue(false);
-      
+
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       fireEvent.click(copyButton);
-      
+
       await waitFor(() => {
         expect(screen.getByText('Copy Failed')).toBeInTheDocument();
       });
-      
+
       expect(copyButton).toHaveClass('bg-red-600');
     });
 
     it('should show loading state during copy operation', async () => {
       // Mock a delayed response
-      mockCopyToClipboard.mockImplementation(() => 
-        new Promise(resolve => setTimeout(() => resolve(true), 100))
+      mockCopyToClipboard.mockImplementation(
+        () => new Promise((resolve) => setTimeout(() => resolve(true), 100))
       );
-      
+
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       fireEvent.click(copyButton);
-      
+
       // Should show loading state immediately
       expect(screen.getByText('Copying...')).toBeInTheDocument();
       expect(copyButton.querySelector('.animate-spin')).toBeInTheDocument();
-      
+
       await waitFor(() => {
         expect(screen.getByText('Copied!')).toBeInTheDocument();
       });
@@ -201,12 +286,14 @@ describe('CopyButton', () => {
 
     it('should handle copy exception gracefully', async () => {
       mockCopyToClipboard.mockRejectedValue(new Error('Copy failed'));
-      
+
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
       fireEvent.click(copyButton);
-      
+
       await waitFor(() => {
         expect(screen.getByText('Copy Failed')).toBeInTheDocument();
       });
@@ -216,56 +303,66 @@ describe('CopyButton', () => {
   describe('Format selection', () => {
     it('should update selected format when dropdown option is clicked', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
+
       // Open dropdown
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       // Click Terraform option
-      const terraformOption = screen.getByRole('menuitem', { name: /terraform/i });
+      const terraformOption = screen.getByRole('menuitem', {
+        name: /terraform/i,
+      });
       fireEvent.click(terraformOption);
-      
+
       // Wait for copy to complete
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalledWith(
           expect.stringContaining('publisher = "Canonical"')
         );
       });
-      
+
       // Open dropdown again to check selection
       fireEvent.click(dropdownToggle);
-      
-      const terraformOptionAgain = screen.getByRole('menuitem', { name: /terraform/i });
+
+      const terraformOptionAgain = screen.getByRole('menuitem', {
+        name: /terraform/i,
+      });
       expect(terraformOptionAgain).toHaveClass('bg-blue-50', 'text-blue-700');
     });
 
     it('should use selected format for quick copy', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
+
       // Select Bicep format
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       const bicepOption = screen.getByRole('menuitem', { name: /bicep/i });
       fireEvent.click(bicepOption);
-      
+
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalledWith(
           expect.stringContaining("publisher: 'Canonical'")
         );
       });
-      
+
       // Clear previous calls
       mockCopyToClipboard.mockClear();
-      
+
       // Now use quick copy (main button) - wait for state to update first
       await waitFor(() => {
-        expect(screen.getByRole('button', { name: /copy as bicep/i })).toBeInTheDocument();
+        expect(
+          screen.getByRole('button', { name: /copy as bicep/i })
+        ).toBeInTheDocument();
       });
-      
+
       const copyButton = screen.getByRole('button', { name: /copy as bicep/i });
       fireEvent.click(copyButton);
-      
+
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalledWith(
           expect.stringContaining("publisher: 'Canonical'")
@@ -277,34 +374,47 @@ describe('CopyButton', () => {
   describe('Accessibility', () => {
     it('should have proper ARIA attributes', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       expect(dropdownToggle).toHaveAttribute('aria-expanded', 'false');
       expect(dropdownToggle).toHaveAttribute('aria-haspopup', 'true');
-      
+
       fireEvent.click(dropdownToggle);
-      
+
       expect(dropdownToggle).toHaveAttribute('aria-expanded', 'true');
-      expect(screen.getByRole('menu')).toHaveAttribute('aria-orientation', 'vertical');
+      expect(screen.getByRole('menu')).toHaveAttribute(
+        'aria-orientation',
+        'vertical'
+      );
     });
 
     it('should have proper button labels', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      expect(screen.getByRole('button', { name: /copy as arm template/i })).toBeInTheDocument();
-      expect(screen.getByRole('button', { name: /select copy format/i })).toBeInTheDocument();
+
+      expect(
+        screen.getByRole('button', { name: /copy as arm template/i })
+      ).toBeInTheDocument();
+      expect(
+        screen.getByRole('button', { name: /select copy format/i })
+      ).toBeInTheDocument();
     });
 
     it('should support keyboard navigation', () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
-      
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
+
       // Both buttons should be focusable
       copyButton.focus();
       expect(copyButton).toHaveFocus();
-      
+
       dropdownToggle.focus();
       expect(dropdownToggle).toHaveFocus();
     });
@@ -314,12 +424,14 @@ describe('CopyButton', () => {
     it('should handle invalid image reference', async () => {
       const invalidImageRef = { ...mockImageRef, publisher: '' };
       render(<CopyButton imageReference={invalidImageRef} />);
-      
-      const copyButton = screen.getByRole('button', { name: /copy as arm template/i });
-      
+
+      const copyButton = screen.getByRole('button', {
+        name: /copy as arm template/i,
+      });
+
       // Button should be disabled
       expect(copyButton).toBeDisabled();
-      
+
       // Clicking should not trigger copy
       fireEvent.click(copyButton);
       expect(mockCopyToClipboard).not.toHaveBeenCalled();
@@ -327,22 +439,26 @@ describe('CopyButton', () => {
 
     it('should close dropdown when format is selected', async () => {
       render(<CopyButton imageReference={mockImageRef} />);
-      
-      const dropdownToggle = screen.getByRole('button', { name: /select copy format/i });
+
+      const dropdownToggle = screen.getByRole('button', {
+        name: /select copy format/i,
+      });
       fireEvent.click(dropdownToggle);
-      
+
       expect(screen.getByRole('menu')).toBeInTheDocument();
-      
-      const terraformOption = screen.getByRole('menuitem', { name: /terraform/i });
+
+      const terraformOption = screen.getByRole('menuitem', {
+        name: /terraform/i,
+      });
       fireEvent.click(terraformOption);
-      
+
       // Wait for copy operation to complete
       await waitFor(() => {
         expect(mockCopyToClipboard).toHaveBeenCalled();
       });
-      
+
       // Dropdown should be closed
       expect(screen.queryByRole('menu')).not.toBeInTheDocument();
     });
   });
-});
\ No newline at end of file
+});
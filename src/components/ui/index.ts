@@ -1,10 +1,23 @@
 export { SubscriptionSelector } from './SubscriptionSelector';
-export { LoadingSpinner, Skeleton, LoadingOverlay, CardSkeleton } from './LoadingSpinner';
+export {
+  LoadingSpinner,
+  Skeleton,
+  LoadingOverlay,
+  CardSkeleton,
+} from './LoadingSpinner';
 export { ErrorBoundary, ErrorFallback } from './ErrorBoundary';
 export { ErrorMessage, InlineError, EmptyState } from './ErrorMessage';
 export { CopyButton } from './CopyButton';
+export { FullVMTemplateToggle } from './FullVMTemplateToggle';
 export { SearchFilter } from './SearchFilter';
+export { CatalogSearch } from './CatalogSearch';
 export { Pagination, usePagination } from './Pagination';
-export { NetworkStatus, OfflineFallback, RetryButton, useNetworkStatus, useNetworkAwareOperation } from './NetworkStatus';
+export {
+  NetworkStatus,
+  OfflineFallback,
+  RetryButton,
+  useNetworkStatus,
+  useNetworkAwareOperation,
+} from './NetworkStatus';
 export * from './SkeletonScreens';
-export * from './PageTransition';
\ No newline at end of file
+export * from './PageTransition';
@@ -0,0 +1,159 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  CLOUD_ENVIRONMENTS,
+  createCustomCloud,
+  discoverCustomCloud,
+  getArmScopes,
+  getAuthority,
+  isValidCloud,
+  loadCloudEnvironment,
+  saveCloudEnvironment,
+} from '../cloudEnvironment';
+
+const stackHub = createCustomCloud(
+  'https://management.local.azurestack.external/',
+  'https://login.microsoftonline.com/',
+  'https://management.contoso.onmicrosoft.com/4a2c7d10-0000-0000-0000-000000000000'
+);
+
+describe('cloudEnvironment', () => {
+  beforeEach(() => {
+    localStorage.clear();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.unstubAllEnvs();
+  });
+
+  describe('cloud profiles', () => {
+    it('should derive scopes and authority from the cloud', () => {
+      const usGov = CLOUD_ENVIRONMENTS.AzureUSGovernment;
+
+      expect(getArmScopes(usGov)).toEqual([
+        'https://management.usgovcloudapi.net/user_impersonation',
+      ]);
+      expect(getAuthority(usGov)).toBe(
+        'https://login.microsoftonline.us/common'
+      );
+      expect(getAuthority(usGov, 'tenant-1')).toBe(
+        'https://login.microsoftonline.us/tenant-1'
+      );
+    });
+
+    it('should point the China cloud at its own endpoints', () => {
+      const china = CLOUD_ENVIRONMENTS.AzureChinaCloud;
+
+      expect(china.armEndpoint).toBe('https://management.chinacloudapi.cn');
+      expect(getAuthority(china)).toBe('https://login.chinacloudapi.cn/common');
+    });
+
+    it('should trim trailing slashes of custom endpoints', () => {
+      expect(stackHub.armEndpoint).toBe(
+        'https://management.local.azurestack.external'
+      );
+      expect(getArmScopes(stackHub)).toEqual([
+        'https://management.contoso.onmicrosoft.com/4a2c7d10-0000-0000-0000-000000000000/user_impersonation',
+      ]);
+    });
+
+    it('should use AD FS authorities without a tenant', () => {
+      const adfs = createCustomCloud(
+        'https://management.local.azurestack.external',
+        'https://adfs.local.azurestack.external/adfs/',
+        'https://management.adfs.azurestack.local/00000000-0000-0000-0000-000000000000'
+      );
+
+      expect(getAuthority(adfs, 'tenant-1')).toBe(
+        'https://adfs.local.azurestack.external/adfs'
+      );
+    });
+
+    it('should only accept https endpoints', () => {
+      expect(isValidCloud(stackHub)).toBe(true);
+      expect(
+        isValidCloud(
+          createCustomCloud('http://arm.local', 'https://login', 'x')
+        )
+      ).toBe(false);
+    });
+  });
+
+  describe('loadCloudEnvironment', () => {
+    it('should default to the global Azure cloud', () => {
+      expect(loadCloudEnvironment()).toEqual(CLOUD_ENVIRONMENTS.AzureCloud);
+    });
+
+    it('should use the cloud configured through the environment', () => {
+      vi.stubEnv('VITE_AZURE_CLOUD', 'AzureUSGovernment');
+
+      expect(loadCloudEnvironment()).toEqual(
+        CLOUD_ENVIRONMENTS.AzureUSGovernment
+      );
+    });
+
+    it('should prefer the cloud selected at runtime', () => {
+      vi.stubEnv('VITE_AZURE_CLOUD', 'AzureUSGovernment');
+      saveCloudEnvironment(stackHub);
+
+      expect(loadCloudEnvironment()).toEqual(stackHub);
+    });
+
+    it('should ignore an invalid stored cloud', () => {
+      localStorage.setItem('vmib-cloud-environment', '{not json');
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      expect(loadCloudEnvironment()).toEqual(CLOUD_ENVIRONMENTS.AzureCloud);
+    });
+
+    it('should fall back to the configured cloud when cleared', () => {
+      saveCloudEnvironment(CLOUD_ENVIRONMENTS.AzureChinaCloud);
+      saveCloudEnvironment(null);
+
+      expect(loadCloudEnvironment()).toEqual(CLOUD_ENVIRONMENTS.AzureCloud);
+    });
+  });
+
+  describe('discoverCustomCloud', () => {
+    it('should read the authority and audience from ARM metadata', async () => {
+      const mockFetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          authentication: {
+            loginEndpoint: 'https://adfs.local.azurestack.external/adfs/',
+            audiences: [
+              'https://management.adfs.azurestack.local/4a2c7d10-0000-0000-0000-000000000000',
+            ],
+          },
+        }),
+      });
+      vi.stubGlobal('fetch', mockFetch);
+
+      const cloud = await discoverCustomCloud(
+        'https://management.local.azurestack.external/'
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://management.local.azurestack.external/metadata/endpoints?api-version=2015-01-01'
+      );
+      expect(cloud).toEqual(
+        createCustomCloud(
+          'https://management.local.azurestack.external',
+          'https://adfs.local.azurestack.external/adfs',
+          'https://management.adfs.azurestack.local/4a2c7d10-0000-0000-0000-000000000000'
+        )
+      );
+    });
+
+    it('should reject metadata without authentication info', async () => {
+      vi.stubGlobal(
+        'fetch',
+        vi.fn().mockResolvedValue({ ok: true, json: async () => ({}) })
+      );
+
+      await expect(
+        discoverCustomCloud('https://management.local.azurestack.external')
+      ).rejects.toThrow('has no authentication info');
+    });
+  });
+});
@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEMO_ACCESS_TOKEN,
+  DEMO_ACCOUNT,
+  createDemoMsalInstance,
+} from '../demoMode';
+
+describe('createDemoMsalInstance', () => {
+  it('should start up signed in with the demo account', async () => {
+    const instance = createDemoMsalInstance();
+
+    await expect(instance.initialize()).resolves.toBeUndefined();
+    await expect(instance.handleRedirectPromise()).resolves.toBeNull();
+    expect(instance.getAllAccounts()).toEqual([DEMO_ACCOUNT]);
+    expect(instance.getActiveAccount()).toEqual(DEMO_ACCOUNT);
+  });
+
+  it('should hand out the demo token without MSAL', async () => {
+    const instance = createDemoMsalInstance();
+
+    const result = await instance.acquireTokenSilent({
+      scopes: ['https://management.azure.com/user_impersonation'],
+      account: DEMO_ACCOUNT,
+    });
+
+    expect(result.accessToken).toBe(DEMO_ACCESS_TOKEN);
+    expect(result.account).toEqual(DEMO_ACCOUNT);
+  });
+
+  it('should sign out without a popup', async () => {
+    const instance = createDemoMsalInstance();
+
+    await expect(instance.logoutPopup()).resolves.toBeUndefined();
+    await expect(instance.clearCache()).resolves.toBeUndefined();
+  });
+});
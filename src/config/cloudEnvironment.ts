@@ -0,0 +1,214 @@
+/**
+ * Azure cloud environments (public, sovereign and Azure Stack Hub).
+ * The selected cloud drives the ARM base URL, the sign-in authority and the
+ * token scopes together, so they can never point at different clouds.
+ */
+
+export type CloudName =
+  | 'AzureCloud'
+  | 'AzureUSGovernment'
+  | 'AzureChinaCloud'
+  | 'Custom';
+
+export interface CloudEnvironment {
+  name: CloudName;
+  displayName: string;
+  // Azure Resource Manager endpoint, without trailing slash
+  armEndpoint: string;
+  // Microsoft Entra ID (or AD FS) host, without trailing slash
+  authorityHost: string;
+  // Audience ARM tokens are issued for
+  armAudience: string;
+}
+
+export const CLOUD_ENVIRONMENTS: Record<
+  Exclude<CloudName, 'Custom'>,
+  CloudEnvironment
+> = {
+  AzureCloud: {
+    name: 'AzureCloud',
+    displayName: 'Azure (global)',
+    armEndpoint: 'https://management.azure.com',
+    authorityHost: 'https://login.microsoftonline.com',
+    armAudience: 'https://management.azure.com',
+  },
+  AzureUSGovernment: {
+    name: 'AzureUSGovernment',
+    displayName: 'Azure US Government',
+    armEndpoint: 'https://management.usgovcloudapi.net',
+    authorityHost: 'https://login.microsoftonline.us',
+    armAudience: 'https://management.usgovcloudapi.net',
+  },
+  AzureChinaCloud: {
+    name: 'AzureChinaCloud',
+    displayName: 'Azure operated by 21Vianet (China)',
+    armEndpoint: 'https://management.chinacloudapi.cn',
+    authorityHost: 'https://login.chinacloudapi.cn',
+    armAudience: 'https://management.chinacloudapi.cn',
+  },
+};
+
+const STORAGE_KEY = 'vmib-cloud-environment';
+
+function trimTrailingSlash(url: string): string {
+  return url.replace(/\/+$/, '');
+}
+
+/**
+ * Build a custom cloud, e.g. an Azure Stack Hub stamp
+ */
+export function createCustomCloud(
+  armEndpoint: string,
+  authorityHost: string,
+  armAudience: string
+): CloudEnvironment {
+  return {
+    name: 'Custom',
+    displayName: 'Custom (Azure Stack Hub)',
+    armEndpoint: trimTrailingSlash(armEndpoint),
+    authorityHost: trimTrailingSlash(authorityHost),
+    armAudience: trimTrailingSlash(armAudience),
+  };
+}
+
+/**
+ * Scopes requested for ARM access tokens
+ */
+export function getArmScopes(cloud: CloudEnvironment): string[] {
+  return [`${cloud.armAudience}/user_impersonation`];
+}
+
+/**
+ * Whether the cloud signs in with AD FS (disconnected Azure Stack Hub)
+ */
+export function isAdfsAuthority(cloud: CloudEnvironment): boolean {
+  return /\/adfs$/i.test(cloud.authorityHost);
+}
+
+/**
+ * Sign-in authority for a tenant; AD FS has no tenants
+ */
+export function getAuthority(
+  cloud: CloudEnvironment,
+  tenantId: string = 'common'
+): string {
+  return isAdfsAuthority(cloud)
+    ? cloud.authorityHost
+    : `${cloud.authorityHost}/${tenantId}`;
+}
+
+/**
+ * Whether a custom cloud has valid https endpoints
+ */
+export function isValidCloud(cloud: CloudEnvironment): boolean {
+  return [cloud.armEndpoint, cloud.authorityHost, cloud.armAudience].every(
+    (value) => {
+      try {
+        return new URL(value).protocol === 'https:';
+      } catch {
+        return false;
+      }
+    }
+  );
+}
+
+// Response of the ARM metadata endpoint
+interface ArmMetadataEndpoints {
+  authentication?: {
+    loginEndpoint?: string;
+    audiences?: string[];
+  };
+}
+
+/**
+ * Discover the authority and audience of a custom ARM endpoint from its
+ * metadata, as Azure Stack Hub publishes them per stamp
+ */
+export async function discoverCustomCloud(
+  armEndpoint: string
+): Promise<CloudEnvironment> {
+  const endpoint = trimTrailingSlash(armEndpoint);
+  const response = await fetch(
+    `${endpoint}/metadata/endpoints?api-version=2015-01-01`
+  );
+  if (!response.ok) {
+    throw new Error(
+      `Could not read ARM metadata from ${endpoint} (${response.status})`
+    );
+  }
+
+  const metadata: ArmMetadataEndpoints = await response.json();
+  const loginEndpoint = metadata.authentication?.loginEndpoint;
+  const audience = metadata.authentication?.audiences?.[0];
+  if (!loginEndpoint || !audience) {
+    throw new Error(`ARM metadata of ${endpoint} has no authentication info`);
+  }
+
+  return createCustomCloud(endpoint, loginEndpoint, audience);
+}
+
+/**
+ * Cloud chosen at build time through VITE_AZURE_CLOUD; custom clouds also
+ * read VITE_ARM_ENDPOINT, VITE_AUTHORITY_HOST and VITE_ARM_AUDIENCE
+ */
+function getConfiguredCloud(): CloudEnvironment {
+  const name = import.meta.env.VITE_AZURE_CLOUD as string | undefined;
+
+  if (name === 'Custom') {
+    const cloud = createCustomCloud(
+      import.meta.env.VITE_ARM_ENDPOINT || '',
+      import.meta.env.VITE_AUTHORITY_HOST || '',
+      import.meta.env.VITE_ARM_AUDIENCE ||
+        import.meta.env.VITE_ARM_ENDPOINT ||
+        ''
+    );
+    if (isValidCloud(cloud)) {
+      return cloud;
+    }
+    console.warn('Invalid custom cloud configuration, using Azure (global)');
+  } else if (name && name in CLOUD_ENVIRONMENTS) {
+    return CLOUD_ENVIRONMENTS[name as keyof typeof CLOUD_ENVIRONMENTS];
+  }
+
+  return CLOUD_ENVIRONMENTS.AzureCloud;
+}
+
+/**
+ * The cloud selected at runtime, falling back to the configured one
+ */
+export function loadCloudEnvironment(): CloudEnvironment {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const cloud: CloudEnvironment = JSON.parse(stored);
+      if (cloud.name !== 'Custom' && cloud.name in CLOUD_ENVIRONMENTS) {
+        return CLOUD_ENVIRONMENTS[cloud.name];
+      }
+      if (cloud.name === 'Custom' && isValidCloud(cloud)) {
+        return createCustomCloud(
+          cloud.armEndpoint,
+          cloud.authorityHost,
+          cloud.armAudience
+        );
+      }
+    }
+  } catch (error) {
+    console.warn('Could not read the selected cloud:', error);
+  }
+
+  return getConfiguredCloud();
+}
+
+/**
+ * Persist the selected cloud. MSAL and the services read it on startup,
+ * so the app has to be reloaded for the change to apply.
+ */
+export function saveCloudEnvironment(cloud: CloudEnvironment | null): void {
+  if (cloud) {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cloud));
+  } else {
+    localStorage.removeItem(STORAGE_KEY);
+  }
+}
+
+export const activeCloud = loadCloudEnvironment();
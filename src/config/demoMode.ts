@@ -0,0 +1,86 @@
+/**
+ * Offline demo mode, enabled with VITE_DEMO_MODE=true.
+ * The app signs in a fixed demo account without MSAL and serves ARM from
+ * local fixtures, so the whole UI runs without a tenant or network.
+ * Replaying a recorded ARM session runs offline the same way.
+ */
+
+import { Logger, stubbedPublicClientApplication } from '@azure/msal-browser';
+import type {
+  AccountInfo,
+  AuthenticationResult,
+  IPublicClientApplication,
+} from '@azure/msal-browser';
+
+// Session storage key of the ARM recording selected for replay
+export const REPLAY_BUNDLE_STORAGE_KEY = 'vmib-replay-bundle';
+
+export const isReplayMode = hasReplayBundle();
+
+export const isDemoMode =
+  import.meta.env.VITE_DEMO_MODE === 'true' || isReplayMode;
+
+export const DEMO_TENANT_ID = 'de300000-0000-4000-8000-000000000000';
+
+export const DEMO_ACCESS_TOKEN = 'demo-access-token';
+
+export const DEMO_ACCOUNT: AccountInfo = {
+  homeAccountId: `demo-user.${DEMO_TENANT_ID}`,
+  localAccountId: 'demo-user',
+  environment: 'demo.local',
+  tenantId: DEMO_TENANT_ID,
+  username: 'demo@contoso.example',
+  name: 'Demo User',
+};
+
+/**
+ * MSAL client that is always signed in with the demo account.
+ * MsalProvider, useMsal and useIsAuthenticated work unchanged on top of it;
+ * anything the demo does not need falls through to MSAL's own stub.
+ */
+export function createDemoMsalInstance(): IPublicClientApplication {
+  const demoResult = (): AuthenticationResult => ({
+    authority: 'https://demo.local/common',
+    uniqueId: DEMO_ACCOUNT.localAccountId,
+    tenantId: DEMO_TENANT_ID,
+    scopes: [],
+    account: DEMO_ACCOUNT,
+    idToken: '',
+    idTokenClaims: {},
+    accessToken: DEMO_ACCESS_TOKEN,
+    fromCache: true,
+    expiresOn: null,
+    tokenType: 'Bearer',
+    correlationId: 'demo',
+  });
+
+  return {
+    ...stubbedPublicClientApplication,
+    initialize: async () => {},
+    handleRedirectPromise: async () => null,
+    loginPopup: async () => demoResult(),
+    loginRedirect: async () => {},
+    acquireTokenSilent: async () => demoResult(),
+    acquireTokenPopup: async () => demoResult(),
+    ssoSilent: async () => demoResult(),
+    logout: async () => {},
+    logoutPopup: async () => {},
+    logoutRedirect: async () => {},
+    clearCache: async () => {},
+    getAllAccounts: () => [DEMO_ACCOUNT],
+    getAccount: () => DEMO_ACCOUNT,
+    getAccountByHomeId: () => DEMO_ACCOUNT,
+    getAccountByLocalId: () => DEMO_ACCOUNT,
+    getAccountByUsername: () => DEMO_ACCOUNT,
+    getActiveAccount: () => DEMO_ACCOUNT,
+    getLogger: () => new Logger({}),
+  };
+}
+
+function hasReplayBundle(): boolean {
+  try {
+    return !!sessionStorage.getItem(REPLAY_BUNDLE_STORAGE_KEY);
+  } catch {
+    return false;
+  }
+}
@@ -1,11 +1,19 @@
 import { PublicClientApplication } from '@azure/msal-browser';
+import type { IPublicClientApplication } from '@azure/msal-browser';
 import { env } from './environment';
+import { activeCloud, getArmScopes, getAuthority } from './cloudEnvironment';
+import { createDemoMsalInstance, isDemoMode } from './demoMode';
 
 // MSAL configuration for Multi-Tenant App
 export const msalConfig = {
   auth: {
     clientId: env.azureClientId,
-    authority: 'https://login.microsoftonline.com/common', // Multi-tenant
+    authority: getAuthority(activeCloud), // Multi-tenant, in the selected cloud
+    // Hosts outside the well-known Microsoft clouds must be trusted explicitly
+    knownAuthorities:
+      activeCloud.name === 'Custom'
+        ? [new URL(activeCloud.authorityHost).host]
+        : [],
     redirectUri: env.redirectUri,
     postLogoutRedirectUri: env.postLogoutRedirectUri,
   },
@@ -41,7 +49,7 @@ export const msalConfig = {
 // Scopes needed for Azure Resource Manager API access
 export const loginRequest = {
   scopes: [
-    'https://management.azure.com/user_impersonation', // Azure Resource Manager
+    ...getArmScopes(activeCloud), // Azure Resource Manager
     'openid',
     'profile',
     'email',
@@ -51,7 +59,7 @@ export const loginRequest = {
 
 // Silent token request configuration
 export const tokenRequest = {
-  scopes: ['https://management.azure.com/user_impersonation'],
+  scopes: getArmScopes(activeCloud),
   forceRefresh: false,
 };
 
@@ -61,5 +69,7 @@ export const graphConfig = {
   graphScopes: ['user.read'],
 };
 
-// Create MSAL instance
-export const msalInstance = new PublicClientApplication(msalConfig);
\ No newline at end of file
+// Create MSAL instance; the offline demo mode signs in without MSAL
+export const msalInstance: IPublicClientApplication = isDemoMode
+  ? createDemoMsalInstance()
+  : new PublicClientApplication(msalConfig);
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { useSubscriptions } from '../stores/authStore';
+import { useImageUsageStore } from '../stores/imageUsageStore';
+import { useTenantAwareServices } from './useTenantAwareServices';
+import { aggregateImageUsage } from '../services/resourceGraphService';
+
+/**
+ * Hook that provides the marketplace images used by the VMs and scale sets of
+ * the selected subscription's tenant. The inventory is queried from Resource
+ * Graph once per tenant, across every subscription of that tenant in the
+ * auth store, and aggregated per SKU.
+ */
+export function useImageUsage() {
+  const tenantAwareServices = useTenantAwareServices();
+  const { subscriptions } = useSubscriptions();
+  const {
+    records,
+    loadedFor,
+    loading,
+    error,
+    setRecords,
+    setLoading,
+    setError,
+  } = useImageUsageStore();
+  const tenantId = tenantAwareServices?.currentSubscription.tenantId ?? null;
+
+  const reload = useCallback(async () => {
+    if (
+      !tenantAwareServices ||
+      !tenantId ||
+      useImageUsageStore.getState().loading
+    )
+      return;
+
+    setLoading(true);
+    setError(null);
+    try {
+      // One token only reaches the subscriptions of its own tenant
+      const subscriptionIds = subscriptions
+        .filter((subscription) => subscription.tenantId === tenantId)
+        .map((subscription) => subscription.subscriptionId);
+      setRecords(
+        await tenantAwareServices.resourceGraphService.getImageUsage(
+          subscriptionIds
+        ),
+        tenantId
+      );
+    } catch (loadError) {
+      setError(
+        loadError instanceof Error
+          ? loadError.message
+          : 'Failed to load the VM image inventory'
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, [
+    tenantAwareServices,
+    tenantId,
+    subscriptions,
+    setRecords,
+    setLoading,
+    setError,
+  ]);
+
+  // Load once per tenant; failures wait for an explicit reload
+  useEffect(() => {
+    if (tenantId && loadedFor !== tenantId && !error) {
+      reload();
+    }
+  }, [tenantId, loadedFor, error, reload]);
+
+  const current = tenantId !== null && loadedFor === tenantId;
+  const usageBySku = useMemo(
+    () => aggregateImageUsage(current ? records : []),
+    [current, records]
+  );
+
+  return {
+    records: current ? records : [],
+    usageBySku,
+    loading,
+    error,
+    reload,
+  };
+}
@@ -0,0 +1,42 @@
+import { useMemo, useState } from 'react';
+
+/**
+ * Hook that filters a list by a search query and slices it into pages,
+ * for lists that keep their search and pagination out of the stores.
+ * The matcher should be a module-level or memoised function, so the list
+ * is only filtered again when the items or the query change.
+ */
+export function usePagedSearch<T>(
+  items: T[],
+  matches: (item: T, query: string) => boolean,
+  itemsPerPage: number
+) {
+  const [searchQuery, setSearchQueryState] = useState('');
+  const [currentPage, setCurrentPage] = useState(1);
+
+  const filteredItems = useMemo(() => {
+    const query = searchQuery.toLowerCase().trim();
+    return query ? items.filter((item) => matches(item, query)) : items;
+  }, [items, matches, searchQuery]);
+
+  const totalPages = Math.ceil(filteredItems.length / itemsPerPage);
+  const startIndex = (currentPage - 1) * itemsPerPage;
+  const pageItems = filteredItems.slice(startIndex, startIndex + itemsPerPage);
+
+  // Reset to first page when searching
+  const setSearchQuery = (query: string) => {
+    setSearchQueryState(query);
+    setCurrentPage(1);
+  };
+
+  return {
+    searchQuery,
+    setSearchQuery,
+    currentPage,
+    setCurrentPage,
+    filteredItems,
+    pageItems,
+    totalPages,
+    itemsPerPage,
+  };
+}
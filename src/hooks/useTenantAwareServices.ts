@@ -1,11 +1,21 @@
 import { useMemo } from 'react';
 import { useMsal } from '@azure/msal-react';
 import { useSubscriptions } from '../stores/authStore';
-import { 
-  createTenantAwareSubscriptionService, 
-  MSALTokenProvider 
+import {
+  createTenantAwareSubscriptionService,
+  createTokenProvider,
 } from '../services/subscriptionService';
 import { createVMImagesService } from '../services/vmImagesService';
+import { createPersistentCache } from '../services/persistentCache';
+import { createMarketplaceTermsService } from '../services/marketplaceTermsService';
+import { createGalleryService } from '../services/galleryService';
+import { createSharedGalleryService } from '../services/sharedGalleryService';
+import { createManagedImageService } from '../services/managedImageService';
+import { createCatalogCrawler } from '../services/catalogCrawler';
+import { createResourceGraphService } from '../services/resourceGraphService';
+import { createResourceSkuService } from '../services/resourceSkuService';
+import { getSubscriptionRateLimiter } from '../utils/rateLimiter';
+import { isDemoMode } from '../config/demoMode';
 import type { Subscription } from '../types';
 
 /**
@@ -18,34 +28,90 @@ export function useTenantAwareServices() {
 
   const currentSubscription = useMemo(() => {
     if (!selectedSubscription) return null;
-    return subscriptions.find(sub => sub.subscriptionId === selectedSubscription) || null;
+    return (
+      subscriptions.find(
+        (sub) => sub.subscriptionId === selectedSubscription
+      ) || null
+    );
   }, [subscriptions, selectedSubscription]);
 
   const services = useMemo(() => {
     // Add proper null checks for accounts array and MSAL initialization state
-    if (!currentSubscription || !accounts || accounts.length === 0 || inProgress !== 'none') {
+    if (
+      !currentSubscription ||
+      !accounts ||
+      accounts.length === 0 ||
+      inProgress !== 'none'
+    ) {
       return null;
     }
 
     // Create tenant-aware token provider
-    const tokenProvider = new MSALTokenProvider(
-      instance, 
-      accounts[0], 
+    const tokenProvider = createTokenProvider(
+      instance,
+      accounts[0],
       currentSubscription.tenantId
     );
 
+    // ARM throttles reads per subscription, so every service shares its limiter
+    const rateLimiter = getSubscriptionRateLimiter(
+      currentSubscription.subscriptionId
+    );
+
     // Create services with tenant-aware token provider
     const subscriptionService = createTenantAwareSubscriptionService(
       instance,
       accounts[0],
-      currentSubscription
+      currentSubscription,
+      rateLimiter
     );
 
-    const vmImagesService = createVMImagesService(tokenProvider);
+    // Image catalogs persist across reloads, scoped to the subscription's tenant.
+    // Offline sessions skip it, so replays never mix with cached live data.
+    const persistentCache = isDemoMode
+      ? null
+      : createPersistentCache(currentSubscription.tenantId);
+    const vmImagesService = createVMImagesService(
+      tokenProvider,
+      persistentCache,
+      rateLimiter
+    );
+    const marketplaceTermsService = createMarketplaceTermsService(
+      tokenProvider,
+      rateLimiter
+    );
+    const galleryService = createGalleryService(tokenProvider, rateLimiter);
+    const sharedGalleryService = createSharedGalleryService(
+      tokenProvider,
+      rateLimiter
+    );
+    const managedImageService = createManagedImageService(
+      tokenProvider,
+      rateLimiter
+    );
+    const catalogCrawler = createCatalogCrawler(
+      vmImagesService,
+      persistentCache
+    );
+    const resourceGraphService = createResourceGraphService(
+      tokenProvider,
+      rateLimiter
+    );
+    const resourceSkuService = createResourceSkuService(
+      tokenProvider,
+      rateLimiter
+    );
 
     return {
       subscriptionService,
       vmImagesService,
+      marketplaceTermsService,
+      galleryService,
+      sharedGalleryService,
+      managedImageService,
+      catalogCrawler,
+      resourceGraphService,
+      resourceSkuService,
       tokenProvider,
       currentSubscription,
     };
@@ -63,16 +129,17 @@ export function useTenantAwareTokenProvider(subscription: Subscription | null) {
 
   const tokenProvider = useMemo(() => {
     // Add proper null checks for accounts array and MSAL initialization state
-    if (!subscription || !accounts || accounts.length === 0 || inProgress !== 'none') {
+    if (
+      !subscription ||
+      !accounts ||
+      accounts.length === 0 ||
+      inProgress !== 'none'
+    ) {
       return null;
     }
 
-    return new MSALTokenProvider(
-      instance,
-      accounts[0],
-      subscription.tenantId
-    );
+    return createTokenProvider(instance, accounts[0], subscription.tenantId);
   }, [instance, accounts, subscription, inProgress]);
 
   return tokenProvider;
-}
\ No newline at end of file
+}
@@ -1,6 +1,7 @@
 import { useCallback } from 'react';
 import { useAuthStore } from '../stores/authStore';
 import { useVMImagesStore } from '../stores/vmImagesStore';
+import { clearPersistentCache } from '../services/persistentCache';
 
 /**
  * Hook that provides utilities for handling tenant switching
@@ -13,14 +14,19 @@ export function useTenantSwitching() {
   const clearAllTenantData = useCallback(() => {
     // Clear auth store tenant data
     clearTenantData();
-    
+
     // Clear VM images store data
     clearVMImagesData();
-    
+
+    // Clear the image catalogs persisted for the previous tenant
+    clearPersistentCache().catch((error) => {
+      console.warn('Failed to clear persistent cache:', error);
+    });
+
     console.log('Cleared all tenant-specific data for tenant switch');
   }, [clearTenantData, clearVMImagesData]);
 
   return {
     clearAllTenantData,
   };
-}
\ No newline at end of file
+}
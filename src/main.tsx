@@ -2,6 +2,25 @@ import { StrictMode } from 'react';
 import { createRoot } from 'react-dom/client';
 import './index.css';
 import App from './App.tsx';
+import { isDemoMode } from './config/demoMode';
+import { getArmTransport, setArmTransport } from './utils/armTransport';
+import { createDemoTransport } from './services/demoTransport';
+import {
+  armTrafficRecorder,
+  createReplayTransport,
+  loadReplayBundle,
+} from './services/armRecorder';
+
+// A loaded recording or the offline demo mode answer ARM requests locally
+const replayBundle = loadReplayBundle();
+if (replayBundle) {
+  setArmTransport(createReplayTransport(replayBundle));
+} else if (isDemoMode) {
+  setArmTransport(createDemoTransport(undefined, { latencyMs: 300 }));
+}
+
+// Every ARM request passes the recorder, which captures while switched on
+setArmTransport(armTrafficRecorder.wrap(getArmTransport()));
 
 /**
  * Application entry point
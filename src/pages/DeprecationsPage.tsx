@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { DeprecationCalendar } from '../components/data-display/DeprecationCalendar';
+import { BackButton } from '../components/ui/BackButton';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { useWatchedImages } from '../stores/imageWatchStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+// Parallel status checks when refreshing the calendar
+const REFRESH_CONCURRENCY = 4;
+
+/**
+ * DeprecationsPage component that shows upcoming image deprecations for the
+ * images the user browsed or saved
+ * Route: /deprecations
+ */
+export const DeprecationsPage: React.FC = () => {
+  const { selectedSubscription } = useSubscriptions();
+  const { images, removeImage, updateDeprecationStatus } = useWatchedImages();
+  const tenantAwareServices = useTenantAwareServices();
+  const [refreshing, setRefreshing] = useState(false);
+  const [refreshError, setRefreshError] = useState<string | null>(null);
+
+  // Re-read the deprecation status of the newest version of every watched image
+  const handleRefresh = async () => {
+    if (!selectedSubscription || !tenantAwareServices) return;
+
+    setRefreshing(true);
+    setRefreshError(null);
+
+    let failed = 0;
+    await mapWithConcurrency(
+      Object.entries(images),
+      REFRESH_CONCURRENCY,
+      async ([key, image]) => {
+        try {
+          const details =
+            await tenantAwareServices.vmImagesService.getImageVersionDetails(
+              selectedSubscription,
+              image.publisher,
+              image.offer,
+              image.sku,
+              'latest',
+              image.location
+            );
+          updateDeprecationStatus(key, details.deprecationStatus);
+        } catch (error) {
+          console.warn(
+            `Could not refresh deprecation status for ${key}:`,
+            error
+          );
+          failed++;
+        }
+      }
+    );
+
+    if (failed > 0) {
+      setRefreshError(
+        `Could not refresh ${failed} image${failed !== 1 ? 's' : ''}`
+      );
+    }
+    setRefreshing(false);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-4">
+        <BackButton to="/publishers" label="Back to Publishers" />
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Upcoming Deprecations
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            Deprecation schedule of the images you browsed or saved
+          </p>
+        </div>
+        <button
+          onClick={handleRefresh}
+          disabled={
+            refreshing ||
+            !tenantAwareServices ||
+            Object.keys(images).length === 0
+          }
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {refreshing && <LoadingSpinner size="sm" />}
+          {refreshing ? 'Refreshing...' : 'Refresh status'}
+        </button>
+      </div>
+
+      {refreshError && (
+        <p className="text-sm text-red-600 mb-4" role="alert">
+          {refreshError}
+        </p>
+      )}
+
+      <DeprecationCalendar images={images} onRemove={removeImage} />
+    </div>
+  );
+};
@@ -0,0 +1,99 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { ExtensionVersionsList } from '../components/data-display/ExtensionVersionsList';
+import { useExtensionStore } from '../stores/extensionStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * ExtensionVersionsPage component that displays the versions of a VM extension type
+ * Route: /publishers/:publisherName/extensions/:typeName/versions
+ */
+export const ExtensionVersionsPage: React.FC = () => {
+  const { publisherName, typeName } = useParams<{
+    publisherName: string;
+    typeName: string;
+  }>();
+  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { setExtensionVersions, setLoading, setError } = useExtensionStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    // Cancel the request when the route params change or the page unmounts
+    const controller = new AbortController();
+
+    const loadExtensionVersions = async () => {
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !publisherName ||
+        !typeName ||
+        !tenantAwareServices
+      )
+        return;
+
+      const decodedPublisherName = decodeURIComponent(publisherName);
+      const decodedTypeName = decodeURIComponent(typeName);
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const extensionVersions =
+          await tenantAwareServices.vmImagesService.getExtensionVersions(
+            selectedSubscription,
+            decodedPublisherName,
+            decodedTypeName,
+            selectedLocation,
+            controller.signal,
+            // Stale cached versions are swapped for the refreshed list
+            (freshVersions) => {
+              if (!controller.signal.aborted) {
+                setExtensionVersions(
+                  freshVersions,
+                  decodedPublisherName,
+                  decodedTypeName,
+                  selectedLocation
+                );
+              }
+            }
+          );
+        if (controller.signal.aborted) return;
+        setExtensionVersions(
+          extensionVersions,
+          decodedPublisherName,
+          decodedTypeName,
+          selectedLocation
+        );
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load extension versions';
+        setError(errorMessage);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadExtensionVersions();
+
+    return () => controller.abort();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    publisherName,
+    typeName,
+    tenantAwareServices,
+  ]);
+
+  // Redirect if the publisher or extension type is missing from the URL
+  if (!publisherName || !typeName) {
+    return <Navigate to="/publishers" replace />;
+  }
+
+  return <ExtensionVersionsList />;
+};
@@ -0,0 +1,89 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { ExtensionTypesList } from '../components/data-display/ExtensionTypesList';
+import { useExtensionStore } from '../stores/extensionStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * ExtensionsPage component that displays the VM extension types of a publisher
+ * Route: /publishers/:publisherName/extensions
+ */
+export const ExtensionsPage: React.FC = () => {
+  const { publisherName } = useParams<{ publisherName: string }>();
+  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { setExtensionTypes, setLoading, setError } = useExtensionStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    // Cancel the request when the route params change or the page unmounts
+    const controller = new AbortController();
+
+    const loadExtensionTypes = async () => {
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !publisherName ||
+        !tenantAwareServices
+      )
+        return;
+
+      const decodedPublisherName = decodeURIComponent(publisherName);
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const extensionTypes =
+          await tenantAwareServices.vmImagesService.getExtensionTypes(
+            selectedSubscription,
+            decodedPublisherName,
+            selectedLocation,
+            controller.signal,
+            // Stale cached extension types are swapped for the refreshed list
+            (freshTypes) => {
+              if (!controller.signal.aborted)
+                setExtensionTypes(
+                  freshTypes,
+                  decodedPublisherName,
+                  selectedLocation
+                );
+            }
+          );
+        if (controller.signal.aborted) return;
+        setExtensionTypes(
+          extensionTypes,
+          decodedPublisherName,
+          selectedLocation
+        );
+      } catch (error) {
+        if (controller.signal.aborted) return;
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load VM extensions';
+        setError(errorMessage);
+      } finally {
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
+      }
+    };
+
+    loadExtensionTypes();
+
+    return () => controller.abort();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    publisherName,
+    tenantAwareServices,
+  ]);
+
+  // Redirect if no publisher name in URL
+  if (!publisherName) {
+    return <Navigate to="/publishers" replace />;
+  }
+
+  return <ExtensionTypesList />;
+};
@@ -0,0 +1,142 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { FleetReport } from '../components/data-display/FleetReport';
+import { BackButton } from '../components/ui/BackButton';
+import { LoadingSpinner } from '../components/ui/LoadingSpinner';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+import { useImageUsage } from '../hooks/useImageUsage';
+import {
+  buildFleetReport,
+  getImageUsageKey,
+} from '../services/resourceGraphService';
+import type { ImageUsageRecord } from '../types';
+
+// Latest versions are looked up per region
+const getLatestKey = (record: ImageUsageRecord) =>
+  `${record.location.toLowerCase()}/${getImageUsageKey(record.publisher, record.offer, record.sku)}`;
+
+/**
+ * FleetReportPage component that compares the image versions the VMs of the
+ * tenant run with the latest versions in the marketplace
+ * Route: /fleet
+ */
+export const FleetReportPage: React.FC = () => {
+  const { selectedSubscription } = useSubscriptions();
+  const tenantAwareServices = useTenantAwareServices();
+  const { records, loading, error, reload } = useImageUsage();
+  const [latestVersions, setLatestVersions] = useState<Map<string, string>>(
+    new Map()
+  );
+  const [resolving, setResolving] = useState(false);
+
+  // Look up the newest version of every SKU in use, one batch per region
+  useEffect(() => {
+    if (!selectedSubscription || !tenantAwareServices || records.length === 0) {
+      return;
+    }
+
+    const byLocation = new Map<string, Map<string, ImageUsageRecord>>();
+    records.forEach((record) => {
+      const skus = byLocation.get(record.location) ?? new Map();
+      skus.set(getLatestKey(record), record);
+      byLocation.set(record.location, skus);
+    });
+
+    const controller = new AbortController();
+    setResolving(true);
+
+    Promise.all(
+      [...byLocation.entries()].map(async ([location, skus]) => {
+        const references = [...skus.values()].map((record) => ({
+          publisher: record.publisher,
+          offer: record.offer,
+          name: record.sku,
+        }));
+        const results =
+          await tenantAwareServices.vmImagesService.getVersionsForSKUs(
+            selectedSubscription,
+            references,
+            location,
+            null,
+            controller.signal
+          );
+
+        return [...skus.keys()].flatMap((key, index) => {
+          const result = results[index];
+          const newest = result.ok
+            ? result.data.find((version) => version !== 'latest')
+            : undefined;
+          return newest ? [[key, newest] as const] : [];
+        });
+      })
+    )
+      .then((entries) => {
+        if (!controller.signal.aborted) {
+          setLatestVersions(new Map(entries.flat()));
+        }
+      })
+      .catch((lookupError) => {
+        console.warn(
+          'Could not look up the latest image versions:',
+          lookupError
+        );
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) {
+          setResolving(false);
+        }
+      });
+
+    return () => controller.abort();
+  }, [selectedSubscription, tenantAwareServices, records]);
+
+  const entries = useMemo(
+    () =>
+      buildFleetReport(
+        records,
+        (record) => latestVersions.get(getLatestKey(record)) ?? null
+      ),
+    [records, latestVersions]
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-4">
+        <BackButton to="/publishers" label="Back to Publishers" />
+      </div>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-4 mb-6">
+        <div>
+          <h2 className="text-xl sm:text-2xl font-bold text-gray-900">
+            Fleet Report
+          </h2>
+          <p className="text-sm sm:text-base text-gray-600 mt-2">
+            Marketplace image versions of the VMs and scale sets in your
+            subscriptions
+          </p>
+        </div>
+        <button
+          onClick={reload}
+          disabled={loading || !tenantAwareServices}
+          className="inline-flex items-center gap-2 px-4 py-2 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {(loading || resolving) && <LoadingSpinner size="sm" />}
+          {loading ? 'Loading...' : 'Refresh'}
+        </button>
+      </div>
+
+      {error && (
+        <p className="text-sm text-red-600 mb-4" role="alert">
+          {error}
+        </p>
+      )}
+
+      {loading && records.length === 0 ? (
+        <div className="flex justify-center py-12">
+          <LoadingSpinner />
+        </div>
+      ) : (
+        <FleetReport entries={entries} />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,42 @@
+import React, { useEffect } from 'react';
+import { GalleriesGrid } from '../components/data-display/GalleriesGrid';
+import { useGalleryStore } from '../stores/galleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * GalleriesPage component that displays the Azure Compute Galleries of the subscription
+ * Route: /galleries
+ */
+export const GalleriesPage: React.FC = () => {
+  const { selectedSubscription } = useSubscriptions();
+  const { setGalleries, setLoading, setError } = useGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    const loadGalleries = async () => {
+      if (!selectedSubscription || !tenantAwareServices) return;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const galleries =
+          await tenantAwareServices.galleryService.getGalleries(
+            selectedSubscription
+          );
+        setGalleries(galleries);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to load galleries';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadGalleries();
+  }, [selectedSubscription, tenantAwareServices]);
+
+  return <GalleriesGrid />;
+};
@@ -0,0 +1,93 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { GalleryImageVersionsList } from '../components/data-display/GalleryImageVersionsList';
+import { useGalleryStore } from '../stores/galleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * GalleryImageVersionsPage component that displays the versions of a gallery image definition
+ * Route: /galleries/:resourceGroup/:galleryName/images/:imageName/versions
+ */
+export const GalleryImageVersionsPage: React.FC = () => {
+  const { resourceGroup, galleryName, imageName } = useParams<{
+    resourceGroup: string;
+    galleryName: string;
+    imageName: string;
+  }>();
+  const { selectedSubscription } = useSubscriptions();
+  const { setImageDefinitions, setImageVersions, setLoading, setError } =
+    useGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    const loadImageVersions = async () => {
+      if (
+        !selectedSubscription ||
+        !resourceGroup ||
+        !galleryName ||
+        !imageName ||
+        !tenantAwareServices
+      )
+        return;
+
+      const decodedResourceGroup = decodeURIComponent(resourceGroup);
+      const decodedGalleryName = decodeURIComponent(galleryName);
+      const decodedImageName = decodeURIComponent(imageName);
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        // The definition carries the OS type and purchase plan of its versions
+        const [imageDefinitions, imageVersions] = await Promise.all([
+          tenantAwareServices.galleryService.getImageDefinitions(
+            selectedSubscription,
+            decodedResourceGroup,
+            decodedGalleryName
+          ),
+          tenantAwareServices.galleryService.getImageVersions(
+            selectedSubscription,
+            decodedResourceGroup,
+            decodedGalleryName,
+            decodedImageName
+          ),
+        ]);
+        setImageDefinitions(
+          imageDefinitions,
+          decodedResourceGroup,
+          decodedGalleryName
+        );
+        setImageVersions(
+          imageVersions,
+          decodedResourceGroup,
+          decodedGalleryName,
+          decodedImageName
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load image versions';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImageVersions();
+  }, [
+    selectedSubscription,
+    resourceGroup,
+    galleryName,
+    imageName,
+    tenantAwareServices,
+  ]);
+
+  // Redirect if any part of the image path is missing
+  if (!resourceGroup || !galleryName || !imageName) {
+    return <Navigate to="/galleries" replace />;
+  }
+
+  return <GalleryImageVersionsList />;
+};
@@ -0,0 +1,69 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { GalleryImagesList } from '../components/data-display/GalleryImagesList';
+import { useGalleryStore } from '../stores/galleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * GalleryImagesPage component that displays the image definitions of a gallery
+ * Route: /galleries/:resourceGroup/:galleryName/images
+ */
+export const GalleryImagesPage: React.FC = () => {
+  const { resourceGroup, galleryName } = useParams<{
+    resourceGroup: string;
+    galleryName: string;
+  }>();
+  const { selectedSubscription } = useSubscriptions();
+  const { setImageDefinitions, setLoading, setError } = useGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    const loadImageDefinitions = async () => {
+      if (
+        !selectedSubscription ||
+        !resourceGroup ||
+        !galleryName ||
+        !tenantAwareServices
+      )
+        return;
+
+      const decodedResourceGroup = decodeURIComponent(resourceGroup);
+      const decodedGalleryName = decodeURIComponent(galleryName);
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const imageDefinitions =
+          await tenantAwareServices.galleryService.getImageDefinitions(
+            selectedSubscription,
+            decodedResourceGroup,
+            decodedGalleryName
+          );
+        setImageDefinitions(
+          imageDefinitions,
+          decodedResourceGroup,
+          decodedGalleryName
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load image definitions';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImageDefinitions();
+  }, [selectedSubscription, resourceGroup, galleryName, tenantAwareServices]);
+
+  // Redirect if no resource group or gallery name in URL
+  if (!resourceGroup || !galleryName) {
+    return <Navigate to="/galleries" replace />;
+  }
+
+  return <GalleryImagesList />;
+};
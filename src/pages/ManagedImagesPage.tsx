@@ -0,0 +1,44 @@
+import React, { useEffect } from 'react';
+import { ManagedImagesList } from '../components/data-display/ManagedImagesList';
+import { useManagedImageStore } from '../stores/managedImageStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * ManagedImagesPage component that displays the managed images of the subscription
+ * Route: /managed-images
+ */
+export const ManagedImagesPage: React.FC = () => {
+  const { selectedSubscription } = useSubscriptions();
+  const { setManagedImages, setLoading, setError } = useManagedImageStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    const loadManagedImages = async () => {
+      if (!selectedSubscription || !tenantAwareServices) return;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const managedImages =
+          await tenantAwareServices.managedImageService.getManagedImages(
+            selectedSubscription
+          );
+        setManagedImages(managedImages, selectedSubscription);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load managed images';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadManagedImages();
+  }, [selectedSubscription, tenantAwareServices]);
+
+  return <ManagedImagesList />;
+};
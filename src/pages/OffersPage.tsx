@@ -15,8 +15,10 @@ import { useMsal } from '@azure/msal-react';
  */
 export const OffersPage: React.FC = () => {
   const { publisherName } = useParams<{ publisherName: string }>();
-  const { selectedSubscription, selectedLocation } = useSubscriptions();
-  const { setOffers, setLoading, setError, loading, error } = useVMImagesStore();
+  const { selectedSubscription, selectedLocation, selectedEdgeZone } =
+    useSubscriptions();
+  const { setOffers, setLoading, setError, loading, error } =
+    useVMImagesStore();
   const tenantAwareServices = useTenantAwareServices();
 
   // Redirect if no publisher name in URL
@@ -25,36 +27,65 @@ export const OffersPage: React.FC = () => {
   }
 
   useEffect(() => {
+    // Cancel the request when the route params change or the page unmounts
+    const controller = new AbortController();
+
     const loadOffers = async () => {
-      if (!selectedSubscription || !selectedLocation || !publisherName || !tenantAwareServices) return;
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !publisherName ||
+        !tenantAwareServices
+      )
+        return;
 
       const decodedPublisherName = decodeURIComponent(publisherName);
-      
+
       // Clear existing offers when loading new ones
       const { clearOffers } = useVMImagesStore.getState();
       clearOffers();
-      
+
       setLoading(true);
       setError(null);
 
       try {
         // Use tenant-aware VM images service
         const offers = await tenantAwareServices.vmImagesService.getOffers(
-          selectedSubscription, 
-          decodedPublisherName, 
-          selectedLocation
+          selectedSubscription,
+          decodedPublisherName,
+          selectedLocation,
+          selectedEdgeZone,
+          controller.signal,
+          // Stale cached offers are swapped for the refreshed list
+          (freshOffers) => {
+            if (!controller.signal.aborted)
+              setOffers(freshOffers, decodedPublisherName);
+          }
         );
+        if (controller.signal.aborted) return;
         setOffers(offers, decodedPublisherName);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load offers';
+        if (controller.signal.aborted) return;
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to load offers';
         setError(errorMessage);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     loadOffers();
-  }, [selectedSubscription, selectedLocation, publisherName, tenantAwareServices]); // Include tenant-aware services dependency
+
+    return () => controller.abort();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    selectedEdgeZone,
+    publisherName,
+    tenantAwareServices,
+  ]); // Include tenant-aware services dependency
 
   return (
     <EnhancedPageTransition
@@ -68,7 +99,6 @@ export const OffersPage: React.FC = () => {
           onRetry={() => window.location.reload()}
         />
       }
-
       duration="normal"
       type="slide"
       className="fade-in"
@@ -76,4 +106,4 @@ export const OffersPage: React.FC = () => {
       <OffersList />
     </EnhancedPageTransition>
   );
-};
\ No newline at end of file
+};
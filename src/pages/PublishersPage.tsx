@@ -13,14 +13,20 @@ import { ErrorMessage } from '../components/ui/ErrorMessage';
  * This is the main landing page after authentication and subscription selection
  */
 export const PublishersPage: React.FC = () => {
-  const { selectedSubscription, selectedLocation } = useSubscriptions();
-  const { setPublishers, setLoading, setError, loading, error } = useVMImagesStore();
+  const { selectedSubscription, selectedLocation, selectedEdgeZone } =
+    useSubscriptions();
+  const { setPublishers, setLoading, setError, loading, error } =
+    useVMImagesStore();
   const tenantAwareServices = useTenantAwareServices();
   // Navigation state is now handled by React Router automatically
 
   useEffect(() => {
+    // Cancel the request when the route params change or the page unmounts
+    const controller = new AbortController();
+
     const loadPublishers = async () => {
-      if (!selectedSubscription || !selectedLocation || !tenantAwareServices) return;
+      if (!selectedSubscription || !selectedLocation || !tenantAwareServices)
+        return;
 
       // Clear existing data when subscription or location changes
       const { clearAll } = useVMImagesStore.getState();
@@ -31,21 +37,40 @@ export const PublishersPage: React.FC = () => {
 
       try {
         // Use tenant-aware VM images service
-        const publishers = await tenantAwareServices.vmImagesService.getPublishers(
-          selectedSubscription, 
-          selectedLocation
-        );
+        const publishers =
+          await tenantAwareServices.vmImagesService.getPublishers(
+            selectedSubscription,
+            selectedLocation,
+            selectedEdgeZone,
+            controller.signal,
+            // Stale cached publishers are swapped for the refreshed list
+            (freshPublishers) => {
+              if (!controller.signal.aborted) setPublishers(freshPublishers);
+            }
+          );
+        if (controller.signal.aborted) return;
         setPublishers(publishers);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load publishers';
+        if (controller.signal.aborted) return;
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to load publishers';
         setError(errorMessage);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     loadPublishers();
-  }, [selectedSubscription, selectedLocation, tenantAwareServices]); // Include tenant-aware services dependency
+
+    return () => controller.abort();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    selectedEdgeZone,
+    tenantAwareServices,
+  ]); // Include tenant-aware services dependency
 
   return (
     <EnhancedPageTransition
@@ -66,4 +91,4 @@ export const PublishersPage: React.FC = () => {
       <PublishersGrid />
     </EnhancedPageTransition>
   );
-};
\ No newline at end of file
+};
@@ -14,8 +14,12 @@ import { useMsal } from '@azure/msal-react';
  * Route: /publishers/:publisherName/offers/:offerName/skus
  */
 export const SKUsPage: React.FC = () => {
-  const { publisherName, offerName } = useParams<{ publisherName: string; offerName: string }>();
-  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { publisherName, offerName } = useParams<{
+    publisherName: string;
+    offerName: string;
+  }>();
+  const { selectedSubscription, selectedLocation, selectedEdgeZone } =
+    useSubscriptions();
   const { setSkus, setLoading, setError, loading, error } = useVMImagesStore();
   const tenantAwareServices = useTenantAwareServices();
 
@@ -25,34 +29,65 @@ export const SKUsPage: React.FC = () => {
   }
 
   useEffect(() => {
+    // Cancel the request when the route params change or the page unmounts
+    const controller = new AbortController();
+
     const loadSkus = async () => {
-      if (!selectedSubscription || !selectedLocation || !publisherName || !offerName || !tenantAwareServices) return;
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !publisherName ||
+        !offerName ||
+        !tenantAwareServices
+      )
+        return;
 
       const decodedPublisherName = decodeURIComponent(publisherName);
       const decodedOfferName = decodeURIComponent(offerName);
-      
+
       setLoading(true);
       setError(null);
 
       try {
         // Use tenant-aware VM images service
         const skus = await tenantAwareServices.vmImagesService.getSKUs(
-          selectedSubscription, 
-          decodedPublisherName, 
-          decodedOfferName, 
-          selectedLocation
+          selectedSubscription,
+          decodedPublisherName,
+          decodedOfferName,
+          selectedLocation,
+          selectedEdgeZone,
+          controller.signal,
+          // Stale cached SKUs are swapped for the refreshed list
+          (freshSkus) => {
+            if (!controller.signal.aborted)
+              setSkus(freshSkus, decodedPublisherName, decodedOfferName);
+          }
         );
+        if (controller.signal.aborted) return;
         setSkus(skus, decodedPublisherName, decodedOfferName);
       } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : 'Failed to load SKUs';
+        if (controller.signal.aborted) return;
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to load SKUs';
         setError(errorMessage);
       } finally {
-        setLoading(false);
+        if (!controller.signal.aborted) {
+          setLoading(false);
+        }
       }
     };
 
     loadSkus();
-  }, [selectedSubscription, selectedLocation, publisherName, offerName, tenantAwareServices]); // Include tenant-aware services dependency
+
+    return () => controller.abort();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    selectedEdgeZone,
+    publisherName,
+    offerName,
+    tenantAwareServices,
+  ]); // Include tenant-aware services dependency
 
   return (
     <EnhancedPageTransition
@@ -66,7 +101,6 @@ export const SKUsPage: React.FC = () => {
           onRetry={() => window.location.reload()}
         />
       }
-
       duration="normal"
       type="scale"
       className="fade-in"
@@ -74,4 +108,4 @@ export const SKUsPage: React.FC = () => {
       <SKUsDetails />
     </EnhancedPageTransition>
   );
-};
\ No newline at end of file
+};
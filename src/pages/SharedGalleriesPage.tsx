@@ -0,0 +1,47 @@
+import React, { useEffect } from 'react';
+import { SharedGalleriesGrid } from '../components/data-display/SharedGalleriesGrid';
+import { useSharedGalleryStore } from '../stores/sharedGalleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * SharedGalleriesPage component that lists the galleries shared directly with
+ * the subscription in the selected location and looks up community galleries
+ * Route: /shared-galleries
+ */
+export const SharedGalleriesPage: React.FC = () => {
+  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { setGalleries, setLoading, setError } = useSharedGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+
+  useEffect(() => {
+    const loadSharedGalleries = async () => {
+      if (!selectedSubscription || !selectedLocation || !tenantAwareServices)
+        return;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        const galleries =
+          await tenantAwareServices.sharedGalleryService.getSharedGalleries(
+            selectedSubscription,
+            selectedLocation
+          );
+        setGalleries(galleries, selectedLocation);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load shared galleries';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadSharedGalleries();
+  }, [selectedSubscription, selectedLocation, tenantAwareServices]);
+
+  return <SharedGalleriesGrid />;
+};
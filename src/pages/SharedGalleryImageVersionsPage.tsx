@@ -0,0 +1,96 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { SharedGalleryImageVersionsList } from '../components/data-display/SharedGalleryImageVersionsList';
+import { useSharedGalleryStore } from '../stores/sharedGalleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * SharedGalleryImageVersionsPage component that displays the versions of a
+ * community or directly shared gallery image in the selected location
+ * Route: /shared-galleries/:kind/:galleryName/images/:imageName/versions
+ */
+export const SharedGalleryImageVersionsPage: React.FC = () => {
+  const { kind, galleryName, imageName } = useParams<{
+    kind: string;
+    galleryName: string;
+    imageName: string;
+  }>();
+  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { setImages, setImageVersions, setLoading, setError } =
+    useSharedGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+  const isValidKind = kind === 'community' || kind === 'shared';
+
+  useEffect(() => {
+    const loadImageVersions = async () => {
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !isValidKind ||
+        !galleryName ||
+        !imageName ||
+        !tenantAwareServices
+      ) {
+        return;
+      }
+
+      const decodedGalleryName = decodeURIComponent(galleryName);
+      const decodedImageName = decodeURIComponent(imageName);
+      const service = tenantAwareServices.sharedGalleryService;
+
+      setLoading(true);
+      setError(null);
+
+      try {
+        // The images carry the OS details and purchase plan of the versions
+        const [images, imageVersions] = await Promise.all([
+          service.getSharedGalleryImages(
+            selectedSubscription,
+            selectedLocation,
+            kind,
+            decodedGalleryName
+          ),
+          service.getSharedGalleryImageVersions(
+            selectedSubscription,
+            selectedLocation,
+            kind,
+            decodedGalleryName,
+            decodedImageName
+          ),
+        ]);
+        setImages(images, selectedLocation, decodedGalleryName);
+        setImageVersions(
+          imageVersions,
+          selectedLocation,
+          decodedGalleryName,
+          decodedImageName
+        );
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load image versions';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImageVersions();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    kind,
+    galleryName,
+    imageName,
+    tenantAwareServices,
+  ]);
+
+  // Redirect if any part of the image path is missing
+  if (!isValidKind || !galleryName || !imageName) {
+    return <Navigate to="/shared-galleries" replace />;
+  }
+
+  return <SharedGalleryImageVersionsList />;
+};
@@ -0,0 +1,87 @@
+import React, { useEffect } from 'react';
+import { useParams, Navigate } from 'react-router-dom';
+import { SharedGalleryImagesList } from '../components/data-display/SharedGalleryImagesList';
+import { useSharedGalleryStore } from '../stores/sharedGalleryStore';
+import { useSubscriptions } from '../stores/authStore';
+import { useTenantAwareServices } from '../hooks/useTenantAwareServices';
+
+/**
+ * SharedGalleryImagesPage component that displays the images of a community
+ * or directly shared gallery in the selected location
+ * Route: /shared-galleries/:kind/:galleryName/images
+ */
+export const SharedGalleryImagesPage: React.FC = () => {
+  const { kind, galleryName } = useParams<{
+    kind: string;
+    galleryName: string;
+  }>();
+  const { selectedSubscription, selectedLocation } = useSubscriptions();
+  const { setImages, setCommunityGallery, setLoading, setError } =
+    useSharedGalleryStore();
+  const tenantAwareServices = useTenantAwareServices();
+  const isValidKind = kind === 'community' || kind === 'shared';
+
+  useEffect(() => {
+    const loadImages = async () => {
+      if (
+        !selectedSubscription ||
+        !selectedLocation ||
+        !isValidKind ||
+        !galleryName ||
+        !tenantAwareServices
+      )
+        return;
+
+      const decodedGalleryName = decodeURIComponent(galleryName);
+      const service = tenantAwareServices.sharedGalleryService;
+
+      setLoading(true);
+      setError(null);
+      setCommunityGallery(null);
+
+      try {
+        const [images, communityGallery] = await Promise.all([
+          service.getSharedGalleryImages(
+            selectedSubscription,
+            selectedLocation,
+            kind,
+            decodedGalleryName
+          ),
+          // Community galleries carry publisher details worth showing
+          kind === 'community'
+            ? service.getCommunityGallery(
+                selectedSubscription,
+                selectedLocation,
+                decodedGalleryName
+              )
+            : Promise.resolve(null),
+        ]);
+        setCommunityGallery(communityGallery);
+        setImages(images, selectedLocation, decodedGalleryName);
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error
+            ? error.message
+            : 'Failed to load gallery images';
+        setError(errorMessage);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadImages();
+  }, [
+    selectedSubscription,
+    selectedLocation,
+    kind,
+    galleryName,
+    tenantAwareServices,
+  ]);
+
+  // Redirect if the gallery path is missing or names an unknown gallery kind
+  if (!isValidKind || !galleryName) {
+    return <Navigate to="/shared-galleries" replace />;
+  }
+
+  return <SharedGalleryImagesList />;
+};
@@ -5,6 +5,17 @@ import { Layout } from '../components/layout/Layout';
 import { PublishersPage } from '../pages/PublishersPage';
 import { OffersPage } from '../pages/OffersPage';
 import { SKUsPage } from '../pages/SKUsPage';
+import { ExtensionsPage } from '../pages/ExtensionsPage';
+import { ExtensionVersionsPage } from '../pages/ExtensionVersionsPage';
+import { DeprecationsPage } from '../pages/DeprecationsPage';
+import { FleetReportPage } from '../pages/FleetReportPage';
+import { GalleriesPage } from '../pages/GalleriesPage';
+import { GalleryImagesPage } from '../pages/GalleryImagesPage';
+import { GalleryImageVersionsPage } from '../pages/GalleryImageVersionsPage';
+import { SharedGalleriesPage } from '../pages/SharedGalleriesPage';
+import { SharedGalleryImagesPage } from '../pages/SharedGalleryImagesPage';
+import { SharedGalleryImageVersionsPage } from '../pages/SharedGalleryImageVersionsPage';
+import { ManagedImagesPage } from '../pages/ManagedImagesPage';
 
 /**
  * Application routes configuration
@@ -35,6 +46,50 @@ export const router = createBrowserRouter([
         path: 'publishers/:publisherName/offers/:offerName/skus',
         element: <SKUsPage />,
       },
+      {
+        path: 'publishers/:publisherName/extensions',
+        element: <ExtensionsPage />,
+      },
+      {
+        path: 'publishers/:publisherName/extensions/:typeName/versions',
+        element: <ExtensionVersionsPage />,
+      },
+      {
+        path: 'galleries',
+        element: <GalleriesPage />,
+      },
+      {
+        path: 'galleries/:resourceGroup/:galleryName/images',
+        element: <GalleryImagesPage />,
+      },
+      {
+        path: 'galleries/:resourceGroup/:galleryName/images/:imageName/versions',
+        element: <GalleryImageVersionsPage />,
+      },
+      {
+        path: 'shared-galleries',
+        element: <SharedGalleriesPage />,
+      },
+      {
+        path: 'shared-galleries/:kind/:galleryName/images',
+        element: <SharedGalleryImagesPage />,
+      },
+      {
+        path: 'shared-galleries/:kind/:galleryName/images/:imageName/versions',
+        element: <SharedGalleryImageVersionsPage />,
+      },
+      {
+        path: 'managed-images',
+        element: <ManagedImagesPage />,
+      },
+      {
+        path: 'deprecations',
+        element: <DeprecationsPage />,
+      },
+      {
+        path: 'fleet',
+        element: <FleetReportPage />,
+      },
       {
         // Catch-all route for invalid paths
         path: '*',
@@ -44,4 +99,4 @@ export const router = createBrowserRouter([
   },
 ]);
 
-export default router;
\ No newline at end of file
+export default router;
@@ -0,0 +1,250 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ArmBatchClient, ArmBatchError } from '../armBatch';
+import { DemoTokenProvider } from '../subscriptionService';
+import { setArmTransport } from '../../utils/armTransport';
+import {
+  AuthorizationError,
+  DEFAULT_RETRY_CONFIG,
+  RateLimitError,
+  RequestAbortedError,
+  ValidationError,
+} from '../../utils/errorHandling';
+
+const BATCH_URL = 'https://management.azure.com/batch?api-version=2020-06-01';
+
+const url = (name: string) =>
+  `https://management.azure.com/subscriptions/sub-1/${name}?api-version=2023-07-01`;
+
+const json = (status: number, body: unknown, headers = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+interface BatchRequestBody {
+  requests: { httpMethod: string; name: string; url: string }[];
+}
+
+// Answers every batched request with its own URL as content
+const echoBatch = async (_url: string, init: RequestInit) => {
+  const { requests }: BatchRequestBody = JSON.parse(init.body as string);
+  return json(200, {
+    responses: requests
+      .map((request) => ({
+        name: request.name,
+        httpStatusCode: 200,
+        content: { url: request.url },
+      }))
+      .reverse(),
+  });
+};
+
+describe('ArmBatchClient', () => {
+  let transport: ReturnType<typeof vi.fn>;
+  let client: ArmBatchClient;
+
+  beforeEach(() => {
+    transport = vi.fn();
+    setArmTransport(transport);
+    client = new ArmBatchClient(
+      new DemoTokenProvider(),
+      undefined,
+      undefined,
+      2
+    );
+  });
+
+  afterEach(() => {
+    setArmTransport(null);
+    vi.restoreAllMocks();
+  });
+
+  it('should send requests in batches and keep the input order', async () => {
+    transport.mockImplementation(echoBatch);
+    const onProgress = vi.fn();
+
+    const results = await client.get(['a', 'b', 'c'].map(url), { onProgress });
+
+    expect(results).toEqual(
+      ['a', 'b', 'c'].map((name) => ({ ok: true, data: { url: url(name) } }))
+    );
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport.mock.calls[0][0]).toBe(BATCH_URL);
+    expect(JSON.parse(transport.mock.calls[0][1].body)).toEqual({
+      requests: [
+        { httpMethod: 'GET', name: '0', url: url('a') },
+        { httpMethod: 'GET', name: '1', url: url('b') },
+      ],
+    });
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('should map failed requests to the matching AppError', async () => {
+    client = new ArmBatchClient(new DemoTokenProvider(), {
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 0,
+    });
+    transport.mockResolvedValue(
+      json(200, {
+        responses: [
+          {
+            name: '0',
+            httpStatusCode: 404,
+            content: { error: { code: 'NotFound' } },
+          },
+          {
+            name: '1',
+            httpStatusCode: 429,
+            headers: { 'Retry-After': '3' },
+            content: { error: { code: 'TooManyRequests' } },
+          },
+        ],
+      })
+    );
+
+    const [notFound, throttled] = await client.get([url('a'), url('b')]);
+
+    expect(notFound.ok || notFound.error).toBeInstanceOf(ValidationError);
+    expect(notFound.ok || notFound.error.statusCode).toBe(404);
+    expect(throttled.ok || throttled.error).toMatchObject({
+      constructor: RateLimitError,
+      retryAfter: 3000,
+    });
+  });
+
+  it('should send throttled requests again after their Retry-After', async () => {
+    const throttle = {
+      acquire: vi.fn().mockResolvedValue(undefined),
+      recordResponse: vi.fn(),
+    };
+    client = new ArmBatchClient(
+      new DemoTokenProvider(),
+      {
+        ...DEFAULT_RETRY_CONFIG,
+        baseDelay: 0,
+      },
+      throttle
+    );
+    transport
+      .mockResolvedValueOnce(
+        json(200, {
+          responses: [
+            { name: '0', httpStatusCode: 200, content: 'a' },
+            {
+              name: '1',
+              httpStatusCode: 429,
+              headers: { 'Retry-After': '0' },
+              content: { error: { code: 'TooManyRequests' } },
+            },
+          ],
+        })
+      )
+      .mockResolvedValueOnce(
+        json(200, {
+          responses: [{ name: '0', httpStatusCode: 200, content: 'b' }],
+        })
+      );
+
+    const results = await client.get([url('a'), url('b')]);
+
+    expect(results).toEqual([
+      { ok: true, data: 'a' },
+      { ok: true, data: 'b' },
+    ]);
+    // Only the throttled request is sent again
+    expect(JSON.parse(transport.mock.calls[1][1].body)).toEqual({
+      requests: [{ httpMethod: 'GET', name: '0', url: url('b') }],
+    });
+    const throttled: Response = throttle.recordResponse.mock.calls.find(
+      ([response]) => response.status === 429
+    )?.[0];
+    expect(throttled.headers.get('Retry-After')).toBe('0');
+  });
+
+  it('should report requests still unavailable after the last retry', async () => {
+    client = new ArmBatchClient(new DemoTokenProvider(), {
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 1,
+      baseDelay: 0,
+    });
+    transport.mockImplementation(async () =>
+      json(200, {
+        responses: [
+          {
+            name: '0',
+            httpStatusCode: 503,
+            content: { error: { code: 'ServiceUnavailable' } },
+          },
+        ],
+      })
+    );
+
+    const [result] = await client.get([url('a')]);
+
+    expect(result.ok || result.error.statusCode).toBe(503);
+    expect(transport).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report requests missing from the batch response', async () => {
+    transport.mockResolvedValue(json(200, { responses: [] }));
+
+    const [result] = await client.get([url('a')]);
+
+    expect(result.ok || result.error).toBeInstanceOf(ArmBatchError);
+  });
+
+  it('should poll accepted batches until they complete', async () => {
+    const location = 'https://management.azure.com/batch/operation-1';
+    transport
+      .mockResolvedValueOnce(
+        new Response(null, {
+          status: 202,
+          headers: { Location: location, 'Retry-After': '0' },
+        })
+      )
+      .mockResolvedValueOnce(
+        json(200, {
+          responses: [{ name: '0', httpStatusCode: 200, content: 'done' }],
+        })
+      );
+
+    const results = await client.get([url('a')]);
+
+    expect(results).toEqual([{ ok: true, data: 'done' }]);
+    expect(transport.mock.calls[1][0]).toBe(location);
+  });
+
+  it('should send single requests where the batch endpoint is missing', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    transport.mockImplementation(async (requestUrl: string) =>
+      requestUrl === BATCH_URL
+        ? json(404, { error: { code: 'NotFound' } })
+        : requestUrl === url('b')
+          ? json(403, { error: { code: 'AuthorizationFailed' } })
+          : json(200, { value: [] })
+    );
+
+    const first = await client.get([url('a'), url('b')]);
+    const second = await client.get([url('c')]);
+
+    expect(first[0]).toEqual({ ok: true, data: { value: [] } });
+    expect(first[1].ok || first[1].error).toBeInstanceOf(AuthorizationError);
+    expect(second).toEqual([{ ok: true, data: { value: [] } }]);
+    // The missing endpoint is only tried once
+    expect(
+      transport.mock.calls.filter(([requestUrl]) => requestUrl === BATCH_URL)
+    ).toHaveLength(1);
+    // A missing endpoint is expected, not a failure worth a warning
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should reject when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    transport.mockImplementation(echoBatch);
+
+    await expect(
+      client.get([url('a')], { signal: controller.signal })
+    ).rejects.toThrow(RequestAbortedError);
+  });
+});
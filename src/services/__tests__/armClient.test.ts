@@ -0,0 +1,80 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { ArmClient } from '../armClient';
+import type { TokenProvider } from '../subscriptionService';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const invalidResponse = (data: unknown): Error =>
+  new Error(`Invalid page: ${JSON.stringify(data)}`);
+
+describe('ArmClient', () => {
+  let client: ArmClient;
+
+  beforeEach(() => {
+    client = new ArmClient(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  it('sends the bearer token with every request', async () => {
+    mockFetch.mockResolvedValueOnce({ ok: true, json: async () => ({}) });
+
+    await client.request('https://management.azure.com/resource', {
+      method: 'POST',
+      body: '{}',
+    });
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://management.azure.com/resource',
+      expect.objectContaining({
+        method: 'POST',
+        body: '{}',
+        headers: expect.objectContaining({
+          Authorization: 'Bearer mock-token',
+          'Content-Type': 'application/json',
+        }),
+      })
+    );
+  });
+
+  it('follows nextLink until every page is loaded', async () => {
+    mockFetch
+      .mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [1, 2],
+          nextLink: 'https://management.azure.com/page-2',
+        }),
+      })
+      .mockResolvedValueOnce({ ok: true, json: async () => ({ value: [3] }) });
+
+    const items = await client.getAllPages<number>(
+      'https://management.azure.com/page-1',
+      invalidResponse
+    );
+
+    expect(items).toEqual([1, 2, 3]);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toBe(
+      'https://management.azure.com/page-2'
+    );
+  });
+
+  it('rejects a page without a value array', async () => {
+    mockFetch.mockResolvedValueOnce({
+      ok: true,
+      json: async () => ({ error: 'unexpected' }),
+    });
+
+    await expect(
+      client.getAllPages('https://management.azure.com/page-1', invalidResponse)
+    ).rejects.toThrow('Invalid page: {"error":"unexpected"}');
+  });
+});
@@ -0,0 +1,364 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  CatalogCrawler,
+  CatalogCrawlerError,
+  createCatalogCrawler,
+  searchCatalogIndex,
+} from '../catalogCrawler';
+import type { CatalogSource } from '../catalogCrawler';
+import type { PersistentCache, PersistedEntry } from '../persistentCache';
+import { RequestAbortedError } from '../../utils/errorHandling';
+import type { CatalogIndexEntry, CatalogCrawlProgress } from '../../types';
+
+const CATALOG: Record<string, Record<string, string[]>> = {
+  Canonical: {
+    'ubuntu-24_04-lts': ['server', 'server-arm64'],
+    '0001-com-ubuntu-server-jammy': ['22_04-lts-gen2'],
+  },
+  MicrosoftWindowsServer: {
+    WindowsServer: ['2022-datacenter-azure-edition'],
+  },
+};
+
+function createSource(): CatalogSource & {
+  getPublishers: ReturnType<typeof vi.fn>;
+  getOffers: ReturnType<typeof vi.fn>;
+  getSKUs: ReturnType<typeof vi.fn>;
+} {
+  return {
+    getPublishers: vi.fn(async (_subscriptionId: string, location = 'eastus') =>
+      Object.keys(CATALOG).map((name) => ({
+        name,
+        displayName: name,
+        location,
+      }))
+    ),
+    getOffers: vi.fn(
+      async (_subscriptionId: string, publisher: string, location = 'eastus') =>
+        Object.keys(CATALOG[publisher]).map((name) => ({
+          name,
+          displayName: name,
+          publisher,
+          location,
+        }))
+    ),
+    getSKUs: vi.fn(
+      async (
+        _subscriptionId: string,
+        publisher: string,
+        offer: string,
+        location = 'eastus'
+      ) =>
+        CATALOG[publisher][offer].map((name) => ({
+          name,
+          displayName: name,
+          publisher,
+          offer,
+          location,
+          versions: [],
+        }))
+    ),
+  };
+}
+
+// In-memory stand-in for the IndexedDB cache
+class MemoryPersistentCache implements PersistentCache {
+  entries = new Map<string, PersistedEntry<unknown>>();
+
+  async get<T>(store: string, key: string): Promise<PersistedEntry<T> | null> {
+    return (this.entries.get(`${store}/${key}`) as PersistedEntry<T>) ?? null;
+  }
+
+  async set<T>(store: string, key: string, data: T): Promise<void> {
+    this.entries.set(`${store}/${key}`, { data, timestamp: Date.now() });
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
+describe('CatalogCrawler', () => {
+  let source: ReturnType<typeof createSource>;
+  let persistentCache: MemoryPersistentCache;
+  let crawler: CatalogCrawler;
+
+  beforeEach(() => {
+    source = createSource();
+    persistentCache = new MemoryPersistentCache();
+    crawler = new CatalogCrawler(source, persistentCache);
+  });
+
+  describe('crawl', () => {
+    it('should index every SKU of every offer and publisher', async () => {
+      const index = await crawler.crawl('sub-1', 'westeurope');
+
+      expect(index.entries).toEqual([
+        { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', sku: 'server' },
+        {
+          publisher: 'Canonical',
+          offer: 'ubuntu-24_04-lts',
+          sku: 'server-arm64',
+        },
+        {
+          publisher: 'Canonical',
+          offer: '0001-com-ubuntu-server-jammy',
+          sku: '22_04-lts-gen2',
+        },
+        {
+          publisher: 'MicrosoftWindowsServer',
+          offer: 'WindowsServer',
+          sku: '2022-datacenter-azure-edition',
+        },
+      ]);
+      expect(index).toMatchObject({
+        subscriptionId: 'sub-1',
+        location: 'westeurope',
+        edgeZone: null,
+        failed: 0,
+      });
+      expect(source.getOffers).toHaveBeenCalledWith(
+        'sub-1',
+        'Canonical',
+        'westeurope',
+        undefined,
+        undefined
+      );
+    });
+
+    it('should never list more than the concurrency limit at once', async () => {
+      let running = 0;
+      let maxRunning = 0;
+      source.getSKUs.mockImplementation(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        running--;
+        return [];
+      });
+
+      await crawler.crawl('sub-1', 'westeurope', null, { concurrency: 2 });
+
+      expect(source.getSKUs).toHaveBeenCalledTimes(3);
+      expect(maxRunning).toBe(2);
+    });
+
+    it('should report progress for each phase', async () => {
+      const progress: CatalogCrawlProgress[] = [];
+
+      await crawler.crawl('sub-1', 'westeurope', null, {
+        onProgress: (update) => progress.push(update),
+      });
+
+      expect(progress[0]).toEqual({
+        phase: 'publishers',
+        completed: 0,
+        total: 1,
+        failed: 0,
+      });
+      expect(progress).toContainEqual({
+        phase: 'offers',
+        completed: 2,
+        total: 2,
+        failed: 0,
+      });
+      expect(progress[progress.length - 1]).toEqual({
+        phase: 'skus',
+        completed: 3,
+        total: 3,
+        failed: 0,
+      });
+    });
+
+    it('should skip and count listings that fail', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      source.getOffers.mockImplementation(
+        async (_subscriptionId: string, publisher: string) => {
+          if (publisher === 'Canonical') {
+            throw new Error('Not found');
+          }
+          return [{ name: 'WindowsServer', displayName: 'WindowsServer' }];
+        }
+      );
+
+      const index = await crawler.crawl('sub-1', 'westeurope');
+
+      expect(index.failed).toBe(1);
+      expect(index.entries.map((entry) => entry.publisher)).toEqual([
+        'MicrosoftWindowsServer',
+      ]);
+    });
+
+    it('should cancel when the signal is aborted', async () => {
+      const controller = new AbortController();
+      source.getOffers.mockImplementation(async () => {
+        controller.abort();
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      });
+
+      await expect(
+        crawler.crawl('sub-1', 'westeurope', null, {
+          signal: controller.signal,
+        })
+      ).rejects.toThrow(RequestAbortedError);
+      expect(source.getSKUs).not.toHaveBeenCalled();
+    });
+
+    it('should hold listing calls while paused', async () => {
+      crawler.pause();
+      const result = crawler.crawl('sub-1', 'westeurope');
+
+      await new Promise((resolve) => setTimeout(resolve, 10));
+      expect(crawler.isPaused).toBe(true);
+      expect(source.getPublishers).not.toHaveBeenCalled();
+
+      crawler.resume();
+      const index = await result;
+
+      expect(index.entries).toHaveLength(4);
+    });
+
+    it('should cancel a paused crawl', async () => {
+      const controller = new AbortController();
+      crawler.pause();
+      const result = crawler.crawl('sub-1', 'westeurope', null, {
+        signal: controller.signal,
+      });
+
+      controller.abort();
+
+      await expect(result).rejects.toThrow(RequestAbortedError);
+      expect(source.getPublishers).not.toHaveBeenCalled();
+    });
+
+    it('should group listings into batch calls when the source supports it', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const batchSource: CatalogSource = {
+        ...source,
+        getOffersForPublishers: vi.fn(
+          async (_subscriptionId: string, publisherNames: string[]) =>
+            publisherNames.map((publisher) => ({
+              ok: true as const,
+              data: Object.keys(CATALOG[publisher]).map((name) => ({
+                name,
+                displayName: name,
+                publisher,
+                location: 'westeurope',
+              })),
+            }))
+        ),
+        getSKUsForOffers: vi.fn(
+          async (
+            _subscriptionId: string,
+            offers: { publisher: string; offer: string }[]
+          ) =>
+            offers.map(({ publisher, offer }) =>
+              offer === 'WindowsServer'
+                ? {
+                    ok: false as const,
+                    error: new CatalogCrawlerError('Listing failed'),
+                  }
+                : {
+                    ok: true as const,
+                    data: CATALOG[publisher][offer].map((name) => ({
+                      name,
+                      displayName: name,
+                      publisher,
+                      offer,
+                      location: 'westeurope',
+                      versions: [],
+                    })),
+                  }
+            )
+        ),
+      };
+
+      const index = await new CatalogCrawler(batchSource).crawl(
+        'sub-1',
+        'westeurope'
+      );
+
+      expect(batchSource.getOffersForPublishers).toHaveBeenCalledTimes(1);
+      expect(batchSource.getSKUsForOffers).toHaveBeenCalledWith(
+        'sub-1',
+        [
+          { publisher: 'Canonical', offer: 'ubuntu-24_04-lts' },
+          { publisher: 'Canonical', offer: '0001-com-ubuntu-server-jammy' },
+          { publisher: 'MicrosoftWindowsServer', offer: 'WindowsServer' },
+        ],
+        'westeurope',
+        undefined,
+        undefined
+      );
+      expect(source.getOffers).not.toHaveBeenCalled();
+      expect(source.getSKUs).not.toHaveBeenCalled();
+      expect(index.entries).toHaveLength(3);
+      expect(index.failed).toBe(1);
+    });
+
+    it('should throw error for missing subscription or location', async () => {
+      await expect(crawler.crawl('', 'westeurope')).rejects.toThrow(
+        new CatalogCrawlerError('Subscription ID and location are required')
+      );
+    });
+  });
+
+  describe('loadIndex', () => {
+    it('should load the persisted index of the same scope', async () => {
+      const index = await crawler.crawl('sub-1', 'westeurope', 'losangeles');
+      await Promise.resolve();
+
+      expect(
+        await crawler.loadIndex('sub-1', 'westeurope', 'losangeles')
+      ).toEqual(index);
+      expect(await crawler.loadIndex('sub-1', 'westeurope')).toBeNull();
+    });
+
+    it('should return null without a persistent cache', async () => {
+      const memoryOnly = createCatalogCrawler(source);
+
+      await memoryOnly.crawl('sub-1', 'westeurope');
+
+      expect(await memoryOnly.loadIndex('sub-1', 'westeurope')).toBeNull();
+    });
+  });
+});
+
+describe('searchCatalogIndex', () => {
+  const entries: CatalogIndexEntry[] = [
+    { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', sku: 'server' },
+    { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', sku: 'server-arm64' },
+    {
+      publisher: 'Canonical',
+      offer: '0001-com-ubuntu-server-jammy',
+      sku: '22_04-lts-arm64',
+    },
+    {
+      publisher: 'MicrosoftWindowsServer',
+      offer: 'WindowsServer',
+      sku: '2022-datacenter',
+    },
+  ];
+
+  it('should match every word across publisher, offer and SKU', () => {
+    expect(searchCatalogIndex(entries, 'ubuntu 24.04 arm64')).toEqual([
+      {
+        publisher: 'Canonical',
+        offer: 'ubuntu-24_04-lts',
+        sku: 'server-arm64',
+      },
+    ]);
+  });
+
+  it('should ignore case', () => {
+    expect(searchCatalogIndex(entries, 'WINDOWS 2022')).toHaveLength(1);
+  });
+
+  it('should return nothing for an empty query', () => {
+    expect(searchCatalogIndex(entries, '   ')).toEqual([]);
+  });
+
+  it('should limit the number of results', () => {
+    expect(searchCatalogIndex(entries, 'canonical', 2)).toHaveLength(2);
+  });
+});
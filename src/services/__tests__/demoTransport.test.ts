@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { createDemoTransport } from '../demoTransport';
+import { DEMO_FIXTURES } from '../demoFixtures';
+import { DemoTokenProvider, SubscriptionService } from '../subscriptionService';
+import { VMImagesService } from '../vmImagesService';
+import { MarketplaceTermsService } from '../marketplaceTermsService';
+import { GalleryService } from '../galleryService';
+import { ResourceGraphService } from '../resourceGraphService';
+import { ResourceSkuService } from '../resourceSkuService';
+import { setArmTransport } from '../../utils/armTransport';
+import { DEMO_TENANT_ID } from '../../config/demoMode';
+
+const SUBSCRIPTION_ID = DEMO_FIXTURES.subscriptions[0].subscriptionId;
+
+describe('demo transport', () => {
+  const tokenProvider = new DemoTokenProvider();
+
+  beforeEach(() => {
+    setArmTransport(createDemoTransport());
+  });
+
+  afterEach(() => {
+    setArmTransport(null);
+  });
+
+  describe('SubscriptionService', () => {
+    const service = () => new SubscriptionService(tokenProvider);
+
+    it('should list the demo subscriptions of the demo tenant', async () => {
+      const subscriptions = await service().getSubscriptions();
+
+      expect(subscriptions).toHaveLength(DEMO_FIXTURES.subscriptions.length);
+      expect(subscriptions[0]).toEqual({
+        subscriptionId: SUBSCRIPTION_ID,
+        displayName: 'Contoso Production (demo)',
+        state: 'Enabled',
+        tenantId: DEMO_TENANT_ID,
+      });
+    });
+
+    it('should list locations and edge zones', async () => {
+      const locations = await service().getLocations(SUBSCRIPTION_ID);
+      const edgeZones = await service().getEdgeZones(SUBSCRIPTION_ID);
+
+      expect(locations.map((location) => location.name)).toContain(
+        'westeurope'
+      );
+      expect(locations[0].regionType).toBe('Physical');
+      expect(edgeZones).toEqual([
+        {
+          name: 'losangeles',
+          displayName: 'Los Angeles',
+          homeLocation: 'westus',
+        },
+      ]);
+    });
+  });
+
+  describe('VMImagesService', () => {
+    let service: VMImagesService;
+
+    beforeEach(() => {
+      service = new VMImagesService(tokenProvider);
+    });
+
+    it('should browse the catalog down to image versions', async () => {
+      const publishers = await service.getPublishers(
+        SUBSCRIPTION_ID,
+        'westeurope'
+      );
+      const offers = await service.getOffers(
+        SUBSCRIPTION_ID,
+        'Canonical',
+        'westeurope'
+      );
+      const skus = await service.getSKUs(
+        SUBSCRIPTION_ID,
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'westeurope'
+      );
+      const versions = await service.getSKUVersions(
+        SUBSCRIPTION_ID,
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server',
+        'westeurope'
+      );
+
+      expect(publishers.map((publisher) => publisher.name)).toContain(
+        'Canonical'
+      );
+      expect(offers.map((offer) => offer.name)).toEqual([
+        '0001-com-ubuntu-server-jammy',
+        'ubuntu-24_04-lts',
+      ]);
+      expect(skus.map((sku) => sku.name)).toEqual(['server', 'server-arm64']);
+      expect(versions).toEqual(['24.04.202409120', '24.04.202408210']);
+    });
+
+    it('should only list SKUs in the regions that publish them', async () => {
+      const skus = await service.getSKUs(
+        SUBSCRIPTION_ID,
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'japaneast'
+      );
+
+      expect(skus.map((sku) => sku.name)).toEqual(['server']);
+    });
+
+    it('should serve version details with plan and deprecation', async () => {
+      const wordpress = await service.getImageVersionDetails(
+        SUBSCRIPTION_ID,
+        'bitnami',
+        'wordpress',
+        'default',
+        'latest',
+        'eastus'
+      );
+      const debian = await service.getImageVersionDetails(
+        SUBSCRIPTION_ID,
+        'Debian',
+        'debian-10',
+        '10',
+        '0.20240703.1797',
+        'eastus'
+      );
+
+      expect(wordpress.plan).toEqual({
+        name: 'default',
+        publisher: 'bitnami',
+        product: 'wordpress',
+      });
+      expect(wordpress.osDiskImage).toEqual({
+        operatingSystem: 'Linux',
+        sizeInGb: 30,
+      });
+      expect(debian.deprecationStatus).toEqual({
+        imageState: 'ScheduledForDeprecation',
+        scheduledDeprecationTime: '2026-12-31T00:00:00Z',
+        alternativeOption: { type: 'Offer', value: 'debian-12' },
+      });
+    });
+
+    it('should list extension types and versions', async () => {
+      const types = await service.getExtensionTypes(
+        SUBSCRIPTION_ID,
+        'Microsoft.Azure.Extensions',
+        'westeurope'
+      );
+      const versions = await service.getExtensionVersions(
+        SUBSCRIPTION_ID,
+        'Microsoft.Azure.Extensions',
+        'CustomScript',
+        'westeurope'
+      );
+
+      expect(types.map((type) => type.name)).toEqual([
+        'CustomScript',
+        'DockerExtension',
+      ]);
+      expect(versions[0].name).toBe('2.1.10');
+    });
+
+    it('should answer batch calls from the same routes', async () => {
+      const results = await service.getVersionsForSKUs(
+        SUBSCRIPTION_ID,
+        [
+          { publisher: 'Canonical', offer: 'ubuntu-24_04-lts', name: 'server' },
+          { publisher: 'Contoso', offer: 'app', name: 'default' },
+        ],
+        'westeurope'
+      );
+      const details = await service.getLatestVersionDetailsForSKUs(
+        SUBSCRIPTION_ID,
+        [{ publisher: 'bitnami', offer: 'wordpress', name: 'default' }],
+        'eastus'
+      );
+
+      expect(results).toEqual([
+        { ok: true, data: ['24.04.202409120', '24.04.202408210'] },
+        // Unknown SKUs have no versions, as with getSKUVersions
+        { ok: true, data: [] },
+      ]);
+      expect(details[0].ok && details[0].data.plan).toEqual({
+        name: 'default',
+        publisher: 'bitnami',
+        product: 'wordpress',
+      });
+    });
+
+    it('should answer unknown resources with an ARM 404', async () => {
+      await expect(
+        service.getOffers(SUBSCRIPTION_ID, 'Contoso', 'westeurope')
+      ).rejects.toMatchObject({ statusCode: 404 });
+    });
+  });
+
+  it('should remember accepted marketplace terms', async () => {
+    const service = new MarketplaceTermsService(tokenProvider);
+    const plan = {
+      name: 'default',
+      publisher: 'bitnami',
+      product: 'wordpress',
+    };
+
+    expect((await service.getAgreement(SUBSCRIPTION_ID, plan)).accepted).toBe(
+      false
+    );
+    expect(
+      (await service.acceptAgreement(SUBSCRIPTION_ID, plan)).accepted
+    ).toBe(true);
+    expect((await service.getAgreement(SUBSCRIPTION_ID, plan)).accepted).toBe(
+      true
+    );
+  });
+
+  it('should list the VM sizes of a region', async () => {
+    const service = new ResourceSkuService(tokenProvider);
+
+    const sizes = await service.getVMSizes(SUBSCRIPTION_ID, 'westeurope');
+
+    expect(
+      sizes.find((size) => size.name === 'Standard_D2ds_v6')
+    ).toMatchObject({
+      hyperVGenerations: ['V2'],
+      diskControllerTypes: ['NVMe'],
+    });
+    expect(
+      sizes.find((size) => size.name === 'Standard_NC24ads_A100_v4')?.restricted
+    ).toBe(true);
+  });
+
+  it('should answer Resource Graph queries from the demo VMs', async () => {
+    const service = new ResourceGraphService(tokenProvider);
+
+    const records = await service.getImageUsage([SUBSCRIPTION_ID]);
+
+    expect(records.map((record) => record.name)).toEqual([
+      'legacy-db',
+      'web-01',
+      'web-02',
+      'web-workers',
+    ]);
+    expect(records[3]).toMatchObject({
+      resourceType: 'VirtualMachineScaleSet',
+      instanceCount: 4,
+    });
+  });
+
+  it('should serve empty private image lists', async () => {
+    const service = new GalleryService(tokenProvider);
+
+    await expect(service.getGalleries(SUBSCRIPTION_ID)).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,263 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  GalleryService,
+  GalleryServiceError,
+  createGalleryService,
+} from '../galleryService';
+import type { TokenProvider } from '../subscriptionService';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const galleryId =
+  '/subscriptions/sub-1/resourceGroups/rg-images/providers/Microsoft.Compute/galleries/golden';
+
+describe('GalleryService', () => {
+  let service: GalleryService;
+
+  beforeEach(() => {
+    service = new GalleryService(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getGalleries', () => {
+    it('should fetch galleries and follow nextLink', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              {
+                id: galleryId,
+                name: 'golden',
+                location: 'westeurope',
+                properties: { description: 'Hardened base images' },
+              },
+            ],
+            nextLink: 'https://management.azure.com/next-page',
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              {
+                id: '/subscriptions/sub-1/resourceGroups/RG-Other/providers/Microsoft.Compute/galleries/team',
+                name: 'team',
+                location: 'eastus',
+              },
+            ],
+          }),
+        });
+
+      const result = await service.getGalleries('sub-1');
+
+      expect(result).toEqual([
+        {
+          name: 'golden',
+          id: galleryId,
+          location: 'westeurope',
+          resourceGroup: 'rg-images',
+          description: 'Hardened base images',
+        },
+        {
+          name: 'team',
+          id: '/subscriptions/sub-1/resourceGroups/RG-Other/providers/Microsoft.Compute/galleries/team',
+          location: 'eastus',
+          resourceGroup: 'RG-Other',
+          description: undefined,
+        },
+      ]);
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        1,
+        'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/galleries?api-version=2023-07-03',
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer mock-token',
+          }),
+        })
+      );
+      expect(mockFetch).toHaveBeenNthCalledWith(
+        2,
+        'https://management.azure.com/next-page',
+        expect.any(Object)
+      );
+    });
+
+    it('should cache galleries per subscription', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ value: [] }),
+      });
+
+      await service.getGalleries('sub-1');
+      await service.getGalleries('sub-1');
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error for missing subscription ID', async () => {
+      await expect(service.getGalleries('')).rejects.toThrow(
+        GalleryServiceError
+      );
+    });
+
+    it('should reject invalid responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ unexpected: true }),
+      });
+
+      await expect(service.getGalleries('sub-1')).rejects.toThrow(
+        'Invalid response format from galleries API'
+      );
+    });
+  });
+
+  describe('getImageDefinitions', () => {
+    it('should fetch and map image definitions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              id: `${galleryId}/images/ubuntu-base`,
+              name: 'ubuntu-base',
+              location: 'westeurope',
+              properties: {
+                osType: 'Linux',
+                osState: 'Generalized',
+                hyperVGeneration: 'V2',
+                architecture: 'x64',
+                identifier: {
+                  publisher: 'contoso',
+                  offer: 'ubuntu',
+                  sku: '22.04-hardened',
+                },
+                purchasePlan: {
+                  name: 'cis-l1',
+                  publisher: 'center-for-internet-security-inc',
+                  product: 'cis-ubuntu',
+                },
+              },
+            },
+          ],
+        }),
+      });
+
+      const result = await service.getImageDefinitions(
+        'sub-1',
+        'rg-images',
+        'golden'
+      );
+
+      expect(result).toEqual([
+        {
+          name: 'ubuntu-base',
+          id: `${galleryId}/images/ubuntu-base`,
+          galleryName: 'golden',
+          resourceGroup: 'rg-images',
+          location: 'westeurope',
+          osType: 'Linux',
+          osState: 'Generalized',
+          hyperVGeneration: 'V2',
+          architecture: 'x64',
+          identifier: {
+            publisher: 'contoso',
+            offer: 'ubuntu',
+            sku: '22.04-hardened',
+          },
+          description: undefined,
+          endOfLifeDate: undefined,
+          purchasePlan: {
+            name: 'cis-l1',
+            publisher: 'center-for-internet-security-inc',
+            product: 'cis-ubuntu',
+          },
+        },
+      ]);
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://management.azure.com${galleryId}/images?api-version=2023-07-03`,
+        expect.any(Object)
+      );
+    });
+
+    it('should throw error for missing gallery name', async () => {
+      await expect(
+        service.getImageDefinitions('sub-1', 'rg-images', '')
+      ).rejects.toThrow(GalleryServiceError);
+    });
+  });
+
+  describe('getImageVersions', () => {
+    it('should fetch versions newest first', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: ['1.2.0', '1.10.0', '1.9.1'].map((name) => ({
+            id: `${galleryId}/images/ubuntu-base/versions/${name}`,
+            name,
+            location: 'westeurope',
+            properties: {
+              provisioningState: 'Succeeded',
+              publishingProfile: {
+                publishedDate: '2024-09-01T10:00:00Z',
+                excludeFromLatest: name === '1.10.0',
+                targetRegions: [
+                  { name: 'West Europe' },
+                  { name: 'North Europe' },
+                ],
+              },
+            },
+          })),
+        }),
+      });
+
+      const result = await service.getImageVersions(
+        'sub-1',
+        'rg-images',
+        'golden',
+        'ubuntu-base'
+      );
+
+      expect(result.map((version) => version.name)).toEqual([
+        '1.10.0',
+        '1.9.1',
+        '1.2.0',
+      ]);
+      expect(result[0]).toEqual({
+        name: '1.10.0',
+        id: `${galleryId}/images/ubuntu-base/versions/1.10.0`,
+        location: 'westeurope',
+        publishedDate: '2024-09-01T10:00:00Z',
+        endOfLifeDate: undefined,
+        excludeFromLatest: true,
+        provisioningState: 'Succeeded',
+        targetRegions: ['West Europe', 'North Europe'],
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        `https://management.azure.com${galleryId}/images/ubuntu-base/versions?api-version=2023-07-03`,
+        expect.any(Object)
+      );
+    });
+  });
+
+  describe('createGalleryService', () => {
+    it('should create a service instance', () => {
+      expect(createGalleryService(new MockTokenProvider())).toBeInstanceOf(
+        GalleryService
+      );
+    });
+  });
+});
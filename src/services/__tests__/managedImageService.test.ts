@@ -0,0 +1,207 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ManagedImageService,
+  ManagedImageServiceError,
+  createManagedImageService,
+} from '../managedImageService';
+import type { TokenProvider } from '../subscriptionService';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const imageId = (resourceGroup: string, name: string) =>
+  `/subscriptions/sub-1/resourceGroups/${resourceGroup}/providers/Microsoft.Compute/images/${name}`;
+
+describe('ManagedImageService', () => {
+  let service: ManagedImageService;
+
+  beforeEach(() => {
+    service = new ManagedImageService(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getManagedImages', () => {
+    it('should list the managed images of the subscription', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              {
+                id: imageId('rg-web', 'web-base'),
+                name: 'web-base',
+                location: 'westeurope',
+                properties: {
+                  provisioningState: 'Succeeded',
+                  hyperVGeneration: 'V2',
+                  sourceVirtualMachine: {
+                    id: '/subscriptions/sub-1/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/build-vm',
+                  },
+                  storageProfile: {
+                    zoneResilient: true,
+                    osDisk: { osType: 'Linux', osState: 'Generalized' },
+                  },
+                },
+              },
+            ],
+            nextLink: 'https://management.azure.com/next-page',
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              {
+                id: imageId('RG-Legacy', 'app-server'),
+                name: 'app-server',
+                location: 'eastus',
+                properties: {
+                  hyperVGeneration: 'V1',
+                  storageProfile: {
+                    osDisk: {
+                      osType: 'Windows',
+                      osState: 'Generalized',
+                      blobUri:
+                        'https://legacy.blob.core.windows.net/vhds/app-server.vhd',
+                    },
+                  },
+                },
+              },
+            ],
+          }),
+        });
+
+      const result = await service.getManagedImages('sub-1');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/images?api-version=2024-07-01'
+      );
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        'https://management.azure.com/next-page'
+      );
+      expect(result).toEqual([
+        {
+          name: 'app-server',
+          id: imageId('RG-Legacy', 'app-server'),
+          location: 'eastus',
+          resourceGroup: 'RG-Legacy',
+          osType: 'Windows',
+          osState: 'Generalized',
+          hyperVGeneration: 'V1',
+          source: {
+            type: 'Blob',
+            value: 'https://legacy.blob.core.windows.net/vhds/app-server.vhd',
+          },
+          zoneResilient: false,
+          provisioningState: undefined,
+        },
+        {
+          name: 'web-base',
+          id: imageId('rg-web', 'web-base'),
+          location: 'westeurope',
+          resourceGroup: 'rg-web',
+          osType: 'Linux',
+          osState: 'Generalized',
+          hyperVGeneration: 'V2',
+          source: {
+            type: 'VirtualMachine',
+            value:
+              '/subscriptions/sub-1/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/build-vm',
+          },
+          zoneResilient: true,
+          provisioningState: 'Succeeded',
+        },
+      ]);
+    });
+
+    it('should detect disk and snapshot sources', async () => {
+      const diskId =
+        '/subscriptions/sub-1/resourceGroups/rg-disks/providers/Microsoft.Compute/disks/os-disk';
+      const snapshotId =
+        '/subscriptions/sub-1/resourceGroups/rg-disks/providers/Microsoft.Compute/snapshots/os-snap';
+
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              id: imageId('rg-disks', 'from-disk'),
+              name: 'from-disk',
+              properties: {
+                storageProfile: { osDisk: { managedDisk: { id: diskId } } },
+              },
+            },
+            {
+              id: imageId('rg-disks', 'from-snapshot'),
+              name: 'from-snapshot',
+              properties: {
+                storageProfile: { osDisk: { snapshot: { id: snapshotId } } },
+              },
+            },
+            { id: imageId('rg-disks', 'no-source'), name: 'no-source' },
+          ],
+        }),
+      });
+
+      const result = await service.getManagedImages('sub-1');
+
+      expect(result.map((image) => image.source)).toEqual([
+        { type: 'ManagedDisk', value: diskId },
+        { type: 'Snapshot', value: snapshotId },
+        null,
+      ]);
+      expect(result[2].osType).toBe('Unknown');
+    });
+
+    it('should cache managed images per subscription', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ value: [] }),
+      });
+
+      await service.getManagedImages('sub-1');
+      await service.getManagedImages('sub-1');
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      service.clearCache();
+      await service.getManagedImages('sub-1');
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should throw error for missing subscription ID', async () => {
+      await expect(service.getManagedImages('')).rejects.toThrow(
+        new ManagedImageServiceError('Subscription ID is required')
+      );
+    });
+
+    it('should reject invalid responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ unexpected: true }),
+      });
+
+      await expect(service.getManagedImages('sub-1')).rejects.toThrow(
+        ManagedImageServiceError
+      );
+    });
+  });
+
+  describe('createManagedImageService', () => {
+    it('should create a service instance', () => {
+      expect(createManagedImageService(new MockTokenProvider())).toBeInstanceOf(
+        ManagedImageService
+      );
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  MarketplaceTermsService,
+  MarketplaceTermsServiceError,
+  createMarketplaceTermsService,
+} from '../marketplaceTermsService';
+import type { TokenProvider } from '../subscriptionService';
+import type { PurchasePlan } from '../../types';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const mockPlan: PurchasePlan = {
+  name: 'cis-ubuntu2204-l1',
+  publisher: 'center-for-internet-security-inc',
+  product: 'cis-ubuntu',
+};
+
+const agreementUrl =
+  'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.MarketplaceOrdering/offerTypes/virtualmachine/publishers/center-for-internet-security-inc/offers/cis-ubuntu/plans/cis-ubuntu2204-l1/agreements/current?api-version=2021-01-01';
+
+const mockAgreement = (accepted: boolean) => ({
+  id: '/subscriptions/sub-1/providers/Microsoft.MarketplaceOrdering/offerTypes/VirtualMachine/publishers/center-for-internet-security-inc/offers/cis-ubuntu/plans/cis-ubuntu2204-l1/agreements/current',
+  name: 'cis-ubuntu2204-l1',
+  type: 'Microsoft.MarketplaceOrdering/offertypes',
+  properties: {
+    publisher: 'center-for-internet-security-inc',
+    product: 'cis-ubuntu',
+    plan: 'cis-ubuntu2204-l1',
+    licenseTextLink: 'https://example.com/license.txt',
+    privacyPolicyLink: 'https://example.com/privacy',
+    retrieveDatetime: '2024-10-01T10:00:00Z',
+    signature: 'SIGNATURE',
+    accepted,
+  },
+});
+
+describe('MarketplaceTermsService', () => {
+  let service: MarketplaceTermsService;
+
+  beforeEach(() => {
+    service = new MarketplaceTermsService(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getAgreement', () => {
+    it('should fetch the current agreement for a plan', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAgreement(false),
+      });
+
+      const result = await service.getAgreement('sub-1', mockPlan);
+
+      expect(result).toEqual({
+        publisher: 'center-for-internet-security-inc',
+        product: 'cis-ubuntu',
+        plan: 'cis-ubuntu2204-l1',
+        accepted: false,
+        licenseTextLink: 'https://example.com/license.txt',
+        privacyPolicyLink: 'https://example.com/privacy',
+        marketplaceTermsLink: undefined,
+        retrieveDatetime: '2024-10-01T10:00:00Z',
+      });
+      expect(mockFetch).toHaveBeenCalledWith(
+        agreementUrl,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer mock-token',
+          }),
+        })
+      );
+    });
+
+    it('should throw error for an incomplete plan', async () => {
+      await expect(
+        service.getAgreement('sub-1', { ...mockPlan, product: '' })
+      ).rejects.toThrow(MarketplaceTermsServiceError);
+      await expect(service.getAgreement('', mockPlan)).rejects.toThrow(
+        MarketplaceTermsServiceError
+      );
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('acceptAgreement', () => {
+    it('should send the signed agreement back with accepted set', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockAgreement(false),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => mockAgreement(true),
+        });
+
+      const result = await service.acceptAgreement('sub-1', mockPlan);
+
+      expect(result.accepted).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+
+      const [url, options] = mockFetch.mock.calls[1];
+      expect(url).toBe(agreementUrl);
+      expect(options.method).toBe('PUT');
+      const body = JSON.parse(options.body);
+      expect(body.properties.accepted).toBe(true);
+      expect(body.properties.signature).toBe('SIGNATURE');
+    });
+
+    it('should not send a PUT when terms are already accepted', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockAgreement(true),
+      });
+
+      const result = await service.acceptAgreement('sub-1', mockPlan);
+
+      expect(result.accepted).toBe(true);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+});
+
+describe('createMarketplaceTermsService', () => {
+  it('should create marketplace terms service', () => {
+    const service = createMarketplaceTermsService(new MockTokenProvider());
+
+    expect(service).toBeInstanceOf(MarketplaceTermsService);
+  });
+});
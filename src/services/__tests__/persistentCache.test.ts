@@ -0,0 +1,58 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  IndexedDBCache,
+  clearPersistentCache,
+  createPersistentCache,
+} from '../persistentCache';
+
+describe('persistentCache', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  describe('createPersistentCache', () => {
+    it('should return null without IndexedDB', () => {
+      vi.stubGlobal('indexedDB', undefined);
+
+      expect(createPersistentCache('tenant-1')).toBeNull();
+    });
+
+    it('should return null without a tenant', () => {
+      vi.stubGlobal('indexedDB', {});
+
+      expect(createPersistentCache('')).toBeNull();
+    });
+
+    it('should create an IndexedDB cache for the tenant', () => {
+      vi.stubGlobal('indexedDB', {});
+
+      expect(createPersistentCache('tenant-1')).toBeInstanceOf(IndexedDBCache);
+    });
+  });
+
+  describe('clearPersistentCache', () => {
+    it('should resolve without IndexedDB', async () => {
+      vi.stubGlobal('indexedDB', undefined);
+
+      await expect(clearPersistentCache()).resolves.toBeUndefined();
+    });
+
+    it('should delete the cache database', async () => {
+      const request: Partial<IDBOpenDBRequest> = {};
+      const deleteDatabase = vi.fn(() => {
+        queueMicrotask(() =>
+          request.onsuccess?.call(
+            request as IDBOpenDBRequest,
+            new Event('success')
+          )
+        );
+        return request;
+      });
+      vi.stubGlobal('indexedDB', { deleteDatabase });
+
+      await clearPersistentCache();
+
+      expect(deleteDatabase).toHaveBeenCalledWith('vmib-cache');
+    });
+  });
+});
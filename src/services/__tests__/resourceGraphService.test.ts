@@ -0,0 +1,220 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  IMAGE_USAGE_QUERY,
+  ResourceGraphService,
+  ResourceGraphServiceError,
+  aggregateImageUsage,
+  buildFleetReport,
+  getRunningVersion,
+} from '../resourceGraphService';
+import { LocalResourceGraph } from '../localResourceGraph';
+import type { ArmComputeResource } from '../localResourceGraph';
+import { DemoTokenProvider } from '../subscriptionService';
+import { setArmTransport } from '../../utils/armTransport';
+import type { ImageUsageRecord } from '../../types';
+
+const QUERY_URL =
+  'https://management.azure.com/providers/Microsoft.ResourceGraph/resources?api-version=2022-10-01';
+
+const json = (body: unknown) =>
+  new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { 'Content-Type': 'application/json' },
+  });
+
+const vm = (
+  name: string,
+  imageReference: Record<string, string>,
+  subscriptionId = 'sub-1'
+): ArmComputeResource => ({
+  id: `/subscriptions/${subscriptionId}/resourceGroups/RG-Apps/providers/Microsoft.Compute/virtualMachines/${name}`,
+  name,
+  type: 'Microsoft.Compute/virtualMachines',
+  location: 'westeurope',
+  properties: { storageProfile: { imageReference } },
+});
+
+const ubuntu = {
+  publisher: 'Canonical',
+  offer: 'ubuntu-24_04-lts',
+  sku: 'server',
+};
+
+const resources: ArmComputeResource[] = [
+  vm('web-01', { ...ubuntu, version: '24.04.202408210' }),
+  vm('web-02', {
+    ...ubuntu,
+    version: 'latest',
+    exactVersion: '24.04.202409120',
+  }),
+  {
+    id: '/subscriptions/sub-1/resourceGroups/rg-apps/providers/Microsoft.Compute/virtualMachineScaleSets/workers',
+    name: 'workers',
+    type: 'Microsoft.Compute/virtualMachineScaleSets',
+    location: 'westeurope',
+    sku: { name: 'Standard_D2s_v5', capacity: 3 },
+    properties: {
+      virtualMachineProfile: {
+        storageProfile: {
+          imageReference: {
+            publisher: 'canonical',
+            offer: 'Ubuntu-24_04-LTS',
+            sku: 'server',
+            version: '24.04.202408210',
+          },
+        },
+      },
+    },
+  },
+  vm('custom-01', { id: '/subscriptions/sub-1/galleries/g/images/i' }),
+  vm('other-01', { ...ubuntu, version: '24.04.202409120' }, 'sub-2'),
+];
+
+describe('ResourceGraphService', () => {
+  let transport: ReturnType<typeof vi.fn>;
+  let service: ResourceGraphService;
+
+  beforeEach(() => {
+    transport = vi.fn();
+    setArmTransport(transport);
+    service = new ResourceGraphService(new DemoTokenProvider());
+  });
+
+  afterEach(() => {
+    setArmTransport(null);
+  });
+
+  it('should follow $skipToken across pages', async () => {
+    transport
+      .mockResolvedValueOnce(json({ data: [{ id: 1 }], $skipToken: 'next' }))
+      .mockResolvedValueOnce(json({ data: [{ id: 2 }] }));
+
+    const rows = await service.query('resources', ['sub-1', 'sub-2']);
+
+    expect(rows).toEqual([{ id: 1 }, { id: 2 }]);
+    expect(transport).toHaveBeenCalledTimes(2);
+    expect(transport.mock.calls[0][0]).toBe(QUERY_URL);
+    expect(transport.mock.calls[0][1].method).toBe('POST');
+    expect(JSON.parse(transport.mock.calls[1][1].body)).toEqual({
+      subscriptions: ['sub-1', 'sub-2'],
+      query: 'resources',
+      options: { resultFormat: 'objectArray', $top: 1000, $skipToken: 'next' },
+    });
+  });
+
+  it('should map image usage rows', async () => {
+    transport.mockResolvedValue(
+      json({
+        data: [
+          {
+            id: 'vmss-1',
+            name: 'workers',
+            type: 'microsoft.compute/virtualmachinescalesets',
+            subscriptionId: 'sub-1',
+            resourceGroup: 'rg-apps',
+            location: 'westeurope',
+            publisher: 'Canonical',
+            offer: 'ubuntu-24_04-lts',
+            sku: 'server',
+            version: '',
+            exactVersion: '',
+            capacity: 3,
+          },
+        ],
+      })
+    );
+
+    const [record] = await service.getImageUsage(['sub-1']);
+
+    expect(JSON.parse(transport.mock.calls[0][1].body).query).toBe(
+      IMAGE_USAGE_QUERY
+    );
+    expect(record).toMatchObject({
+      resourceType: 'VirtualMachineScaleSet',
+      version: 'latest',
+      exactVersion: undefined,
+      instanceCount: 3,
+    });
+  });
+
+  it('should reject queries without subscriptions', async () => {
+    await expect(service.query('resources', [])).rejects.toThrow(
+      ResourceGraphServiceError
+    );
+    expect(transport).not.toHaveBeenCalled();
+  });
+
+  it('should reject malformed responses', async () => {
+    transport.mockResolvedValue(json({ rows: [] }));
+
+    await expect(service.query('resources', ['sub-1'])).rejects.toThrow(
+      ResourceGraphServiceError
+    );
+  });
+});
+
+describe('LocalResourceGraph', () => {
+  it('should return marketplace images of the given subscriptions', async () => {
+    const records = await new LocalResourceGraph(resources).getImageUsage([
+      'SUB-1',
+    ]);
+
+    expect(records.map((record) => record.name)).toEqual([
+      'web-01',
+      'web-02',
+      'workers',
+    ]);
+    expect(records[0]).toMatchObject({
+      subscriptionId: 'sub-1',
+      resourceGroup: 'rg-apps',
+      resourceType: 'VirtualMachine',
+      instanceCount: 1,
+    });
+  });
+});
+
+describe('image usage aggregation', () => {
+  let records: ImageUsageRecord[];
+
+  beforeEach(async () => {
+    records = await new LocalResourceGraph(resources).getImageUsage([
+      'sub-1',
+      'sub-2',
+    ]);
+  });
+
+  it('should resolve the version VMs deployed from latest run', () => {
+    expect(records.map(getRunningVersion)).toEqual([
+      '24.04.202408210',
+      '24.04.202409120',
+      '24.04.202408210',
+      '24.04.202409120',
+    ]);
+  });
+
+  it('should count VMs per SKU and version regardless of casing', () => {
+    const usage = aggregateImageUsage(records);
+
+    expect([...usage.keys()]).toEqual(['canonical/ubuntu-24_04-lts/server']);
+    expect(usage.get('canonical/ubuntu-24_04-lts/server')).toMatchObject({
+      vmCount: 6,
+      versions: [
+        { version: '24.04.202409120', vmCount: 2 },
+        { version: '24.04.202408210', vmCount: 4 },
+      ],
+    });
+  });
+
+  it('should flag VMs behind the latest version', () => {
+    const report = buildFleetReport(records, (record) =>
+      record.subscriptionId === 'sub-2' ? null : '24.04.202409120'
+    );
+
+    expect(report.map((entry) => [entry.resource.name, entry.status])).toEqual([
+      ['web-01', 'outdated'],
+      ['web-02', 'current'],
+      ['workers', 'outdated'],
+      ['other-01', 'unknown'],
+    ]);
+  });
+});
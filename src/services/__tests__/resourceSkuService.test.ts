@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ResourceSkuService,
+  ResourceSkuServiceError,
+  createResourceSkuService,
+} from '../resourceSkuService';
+import type { TokenProvider } from '../subscriptionService';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+globalThis.fetch = mockFetch;
+
+const resourceSku = (
+  name: string,
+  capabilities: Record<string, string>,
+  resourceType = 'virtualMachines'
+) => ({
+  resourceType,
+  name,
+  tier: 'Standard',
+  family: 'standardDSv5Family',
+  capabilities: Object.entries(capabilities).map(([key, value]) => ({
+    name: key,
+    value,
+  })),
+  restrictions: [],
+});
+
+describe('ResourceSkuService', () => {
+  let service: ResourceSkuService;
+
+  beforeEach(() => {
+    service = new ResourceSkuService(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getVMSizes', () => {
+    it('should list the VM sizes of the location across pages', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              resourceSku('Standard_D2s_v5', {
+                vCPUs: '2',
+                MemoryGB: '8',
+                HyperVGenerations: 'V1,V2',
+                CpuArchitectureType: 'x64',
+                AcceleratedNetworkingEnabled: 'True',
+              }),
+              resourceSku('Premium_LRS', {}, 'disks'),
+            ],
+            nextLink: 'https://management.azure.com/next-page',
+          }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({
+            value: [
+              {
+                ...resourceSku('Standard_D2ds_v6', {
+                  HyperVGenerations: 'V2',
+                  DiskControllerTypes: 'NVMe',
+                }),
+                restrictions: [
+                  {
+                    type: 'Location',
+                    reasonCode: 'NotAvailableForSubscription',
+                  },
+                ],
+              },
+            ],
+          }),
+        });
+
+      const sizes = await service.getVMSizes('sub-1', 'westeurope');
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        "https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/skus?api-version=2021-07-01&$filter=location%20eq%20'westeurope'"
+      );
+      expect(sizes).toEqual([
+        {
+          name: 'Standard_D2ds_v6',
+          family: 'standardDSv5Family',
+          tier: 'Standard',
+          vCPUs: undefined,
+          memoryGB: undefined,
+          hyperVGenerations: ['V2'],
+          architecture: 'x64',
+          acceleratedNetworking: false,
+          diskControllerTypes: ['NVMe'],
+          restricted: true,
+        },
+        {
+          name: 'Standard_D2s_v5',
+          family: 'standardDSv5Family',
+          tier: 'Standard',
+          vCPUs: 2,
+          memoryGB: 8,
+          hyperVGenerations: ['V1', 'V2'],
+          architecture: 'x64',
+          acceleratedNetworking: true,
+          diskControllerTypes: ['SCSI'],
+          restricted: false,
+        },
+      ]);
+    });
+
+    it('should cache the sizes per subscription and location', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ value: [] }),
+      });
+
+      await service.getVMSizes('sub-1', 'westeurope');
+      await service.getVMSizes('sub-1', 'WestEurope');
+      await service.getVMSizes('sub-1', 'eastus');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should require a subscription and a location', async () => {
+      await expect(service.getVMSizes('', 'westeurope')).rejects.toThrow(
+        ResourceSkuServiceError
+      );
+      await expect(service.getVMSizes('sub-1', '')).rejects.toThrow(
+        ResourceSkuServiceError
+      );
+    });
+
+    it('should reject malformed responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ skus: [] }),
+      });
+
+      await expect(service.getVMSizes('sub-1', 'westeurope')).rejects.toThrow(
+        ResourceSkuServiceError
+      );
+    });
+  });
+
+  it('should be created by the factory', () => {
+    expect(createResourceSkuService(new MockTokenProvider())).toBeInstanceOf(
+      ResourceSkuService
+    );
+  });
+});
@@ -0,0 +1,293 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  SharedGalleryService,
+  SharedGalleryServiceError,
+  createSharedGalleryService,
+} from '../sharedGalleryService';
+import type { TokenProvider } from '../subscriptionService';
+
+class MockTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return 'mock-token';
+  }
+}
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const locationUrl =
+  'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/westeurope';
+
+describe('SharedGalleryService', () => {
+  let service: SharedGalleryService;
+
+  beforeEach(() => {
+    service = new SharedGalleryService(new MockTokenProvider());
+    vi.clearAllMocks();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getSharedGalleries', () => {
+    it('should list the galleries shared with the subscription in a location', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              name: 'sub-2-golden',
+              location: 'westeurope',
+              identifier: { uniqueId: '/SharedGalleries/sub-2-golden' },
+            },
+          ],
+        }),
+      });
+
+      const result = await service.getSharedGalleries('sub-1', 'westeurope');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        `${locationUrl}/sharedGalleries?api-version=2023-07-03`,
+        expect.objectContaining({
+          headers: expect.objectContaining({
+            Authorization: 'Bearer mock-token',
+          }),
+        })
+      );
+      expect(result).toEqual([
+        {
+          name: 'sub-2-golden',
+          uniqueId: '/SharedGalleries/sub-2-golden',
+          kind: 'shared',
+          location: 'westeurope',
+          publisherUri: undefined,
+          publisherContact: undefined,
+          eula: undefined,
+        },
+      ]);
+    });
+
+    it('should require a location', async () => {
+      await expect(service.getSharedGalleries('sub-1', '')).rejects.toThrow(
+        SharedGalleryServiceError
+      );
+    });
+  });
+
+  describe('getCommunityGallery', () => {
+    it('should map the community metadata of a public gallery', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          name: 'contoso-1a2b3c4d',
+          location: 'westeurope',
+          identifier: { uniqueId: '/CommunityGalleries/contoso-1a2b3c4d' },
+          properties: {
+            communityMetadata: {
+              publisherUri: 'https://contoso.example',
+              publisherContact: 'images@contoso.example',
+              eula: 'https://contoso.example/eula',
+            },
+          },
+        }),
+      });
+
+      const result = await service.getCommunityGallery(
+        'sub-1',
+        'westeurope',
+        'contoso-1a2b3c4d'
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${locationUrl}/communityGalleries/contoso-1a2b3c4d?api-version=2023-07-03`
+      );
+      expect(result).toEqual({
+        name: 'contoso-1a2b3c4d',
+        uniqueId: '/CommunityGalleries/contoso-1a2b3c4d',
+        kind: 'community',
+        location: 'westeurope',
+        publisherUri: 'https://contoso.example',
+        publisherContact: 'images@contoso.example',
+        eula: 'https://contoso.example/eula',
+      });
+    });
+  });
+
+  describe('getSharedGalleryImages', () => {
+    it('should map community gallery images with their unique IDs', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              name: 'ubuntu-hardened',
+              location: 'westeurope',
+              identifier: {
+                uniqueId:
+                  '/CommunityGalleries/contoso-1a2b3c4d/Images/ubuntu-hardened',
+              },
+              properties: {
+                osType: 'Linux',
+                osState: 'Generalized',
+                hyperVGeneration: 'V2',
+                architecture: 'x64',
+                identifier: {
+                  publisher: 'contoso',
+                  offer: 'ubuntu',
+                  sku: 'hardened',
+                },
+                purchasePlan: {
+                  name: 'hardened',
+                  publisher: 'contoso',
+                  product: 'ubuntu',
+                },
+              },
+            },
+            // Entries without a unique ID cannot be referenced and are dropped
+            { name: 'broken', properties: { osType: 'Linux' } },
+          ],
+        }),
+      });
+
+      const result = await service.getSharedGalleryImages(
+        'sub-1',
+        'westeurope',
+        'community',
+        'contoso-1a2b3c4d'
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${locationUrl}/communityGalleries/contoso-1a2b3c4d/images?api-version=2023-07-03`
+      );
+      expect(result).toEqual([
+        {
+          name: 'ubuntu-hardened',
+          uniqueId:
+            '/CommunityGalleries/contoso-1a2b3c4d/Images/ubuntu-hardened',
+          kind: 'community',
+          galleryName: 'contoso-1a2b3c4d',
+          location: 'westeurope',
+          osType: 'Linux',
+          osState: 'Generalized',
+          hyperVGeneration: 'V2',
+          architecture: 'x64',
+          identifier: {
+            publisher: 'contoso',
+            offer: 'ubuntu',
+            sku: 'hardened',
+          },
+          endOfLifeDate: undefined,
+          eula: undefined,
+          purchasePlan: {
+            name: 'hardened',
+            publisher: 'contoso',
+            product: 'ubuntu',
+          },
+        },
+      ]);
+    });
+
+    it('should cache images per location and gallery', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ value: [] }),
+      });
+
+      await service.getSharedGalleryImages(
+        'sub-1',
+        'westeurope',
+        'shared',
+        'golden'
+      );
+      await service.getSharedGalleryImages(
+        'sub-1',
+        'westeurope',
+        'shared',
+        'golden'
+      );
+      await service.getSharedGalleryImages(
+        'sub-1',
+        'eastus',
+        'shared',
+        'golden'
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getSharedGalleryImageVersions', () => {
+    it('should return versions newest first', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              name: '1.9.0',
+              location: 'westeurope',
+              identifier: {
+                uniqueId: '/SharedGalleries/golden/Images/base/Versions/1.9.0',
+              },
+              properties: { publishedDate: '2024-01-10T00:00:00Z' },
+            },
+            {
+              name: '1.10.0',
+              location: 'westeurope',
+              identifier: {
+                uniqueId: '/SharedGalleries/golden/Images/base/Versions/1.10.0',
+              },
+              properties: { excludeFromLatest: true },
+            },
+          ],
+        }),
+      });
+
+      const result = await service.getSharedGalleryImageVersions(
+        'sub-1',
+        'westeurope',
+        'shared',
+        'golden',
+        'base'
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        `${locationUrl}/sharedGalleries/golden/images/base/versions?api-version=2023-07-03`
+      );
+      expect(result.map((version) => version.name)).toEqual([
+        '1.10.0',
+        '1.9.0',
+      ]);
+      expect(result[0]).toMatchObject({
+        uniqueId: '/SharedGalleries/golden/Images/base/Versions/1.10.0',
+        excludeFromLatest: true,
+      });
+    });
+
+    it('should reject invalid list responses', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ error: 'unexpected' }),
+      });
+
+      await expect(
+        service.getSharedGalleryImageVersions(
+          'sub-1',
+          'westeurope',
+          'shared',
+          'golden',
+          'base'
+        )
+      ).rejects.toThrow('Invalid response format from shared galleries API');
+    });
+  });
+
+  describe('createSharedGalleryService', () => {
+    it('should create a service instance', () => {
+      expect(
+        createSharedGalleryService(new MockTokenProvider())
+      ).toBeInstanceOf(SharedGalleryService);
+    });
+  });
+});
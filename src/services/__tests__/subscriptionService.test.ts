@@ -1,10 +1,10 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { 
-  SubscriptionService, 
-  SubscriptionServiceError, 
+import {
+  SubscriptionService,
+  SubscriptionServiceError,
   TokenProvider,
   MSALTokenProvider,
-  createSubscriptionService 
+  createSubscriptionService,
 } from '../subscriptionService';
 import { Subscription } from '../../types';
 
@@ -93,7 +93,7 @@ describe('SubscriptionService', () => {
         'https://management.azure.com/subscriptions?api-version=2020-01-01',
         expect.objectContaining({
           headers: expect.objectContaining({
-            'Authorization': 'Bearer mock-token',
+            Authorization: 'Bearer mock-token',
             'Content-Type': 'application/json',
           }),
         })
@@ -129,7 +129,11 @@ describe('SubscriptionService', () => {
       });
 
       await expect(subscriptionService.getSubscriptions()).rejects.toThrow(
-        new SubscriptionServiceError('Insufficient permissions to access subscriptions', 403, false)
+        new SubscriptionServiceError(
+          'Insufficient permissions to access subscriptions',
+          403,
+          false
+        )
       );
     });
 
@@ -190,7 +194,7 @@ describe('SubscriptionService', () => {
       await expect(subscriptionService.getSubscriptions()).rejects.toThrow(
         SubscriptionServiceError
       );
-      
+
       expect(mockFetch).not.toHaveBeenCalled();
     }, 10000);
   });
@@ -220,7 +224,7 @@ describe('SubscriptionService', () => {
         'https://management.azure.com/subscriptions/sub-1?api-version=2020-01-01',
         expect.objectContaining({
           headers: expect.objectContaining({
-            'Authorization': 'Bearer mock-token',
+            Authorization: 'Bearer mock-token',
           }),
         })
       );
@@ -239,8 +243,91 @@ describe('SubscriptionService', () => {
         text: async () => 'Subscription not found',
       });
 
-      await expect(subscriptionService.getSubscription('invalid-id')).rejects.toThrow(
-        SubscriptionServiceError
+      await expect(
+        subscriptionService.getSubscription('invalid-id')
+      ).rejects.toThrow(SubscriptionServiceError);
+    });
+  });
+
+  describe('getEdgeZones', () => {
+    it('should return only edge zones with their home region', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          value: [
+            {
+              name: 'westus',
+              displayName: 'West US',
+              type: 'Region',
+              metadata: { regionType: 'Physical' },
+            },
+            {
+              name: 'losangeles',
+              displayName: 'Los Angeles',
+              type: 'EdgeZone',
+              metadata: { homeLocation: 'westus' },
+            },
+            {
+              name: 'perth',
+              type: 'EdgeZone',
+              metadata: { homeLocation: 'australiaeast' },
+            },
+          ],
+        }),
+      });
+
+      const result = await subscriptionService.getEdgeZones('sub-1');
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://management.azure.com/subscriptions/sub-1/locations?api-version=2022-12-01&includeExtendedLocations=true',
+        expect.any(Object)
+      );
+      expect(result).toEqual([
+        {
+          name: 'losangeles',
+          displayName: 'Los Angeles',
+          homeLocation: 'westus',
+        },
+        { name: 'perth', displayName: 'perth', homeLocation: 'australiaeast' },
+      ]);
+    });
+
+    it('should throw error for empty subscription ID', async () => {
+      await expect(subscriptionService.getEdgeZones('')).rejects.toThrow(
+        new SubscriptionServiceError('Subscription ID is required')
+      );
+    });
+  });
+
+  describe('in-flight requests', () => {
+    it('should share one request between identical concurrent calls', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({
+          value: [{ name: 'westus', displayName: 'West US' }],
+        }),
+      });
+
+      const [first, second] = await Promise.all([
+        subscriptionService.getLocations('sub-1'),
+        subscriptionService.getLocations('sub-1'),
+      ]);
+
+      expect(first).toEqual(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should pass an abort signal to fetch', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ value: [] }),
+      });
+
+      await subscriptionService.getSubscriptions(new AbortController().signal);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://management.azure.com/subscriptions?api-version=2020-01-01',
+        expect.objectContaining({ signal: expect.any(AbortSignal) })
       );
     });
   });
@@ -276,7 +363,9 @@ describe('MSALTokenProvider', () => {
   });
 
   it('should fallback to popup when silent fails', async () => {
-    mockMsalInstance.acquireTokenSilent.mockRejectedValueOnce(new Error('Silent failed'));
+    mockMsalInstance.acquireTokenSilent.mockRejectedValueOnce(
+      new Error('Silent failed')
+    );
     mockMsalInstance.acquireTokenPopup.mockResolvedValueOnce({
       accessToken: 'popup-token',
     });
@@ -291,7 +380,10 @@ describe('MSALTokenProvider', () => {
   });
 
   it('should throw error when no account is available', async () => {
-    const providerWithoutAccount = new MSALTokenProvider(mockMsalInstance, null);
+    const providerWithoutAccount = new MSALTokenProvider(
+      mockMsalInstance,
+      null
+    );
 
     await expect(providerWithoutAccount.getAccessToken()).rejects.toThrow(
       new SubscriptionServiceError('No authenticated account available')
@@ -299,8 +391,12 @@ describe('MSALTokenProvider', () => {
   });
 
   it('should throw error when both silent and popup fail', async () => {
-    mockMsalInstance.acquireTokenSilent.mockRejectedValueOnce(new Error('Silent failed'));
-    mockMsalInstance.acquireTokenPopup.mockRejectedValueOnce(new Error('Popup failed'));
+    mockMsalInstance.acquireTokenSilent.mockRejectedValueOnce(
+      new Error('Silent failed')
+    );
+    mockMsalInstance.acquireTokenPopup.mockRejectedValueOnce(
+      new Error('Popup failed')
+    );
 
     await expect(tokenProvider.getAccessToken()).rejects.toThrow(
       SubscriptionServiceError
@@ -317,4 +413,4 @@ describe('createSubscriptionService', () => {
 
     expect(service).toBeInstanceOf(SubscriptionService);
   });
-});
\ No newline at end of file
+});
@@ -1,10 +1,13 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { 
-  VMImagesService, 
+import {
+  VMImagesService,
   VMImagesServiceError,
-  createVMImagesService 
+  createVMImagesService,
 } from '../vmImagesService';
 import { TokenProvider } from '../subscriptionService';
+import type { PersistentCache, PersistedEntry } from '../persistentCache';
+import { RequestAbortedError } from '../../utils/errorHandling';
+import { ArmRateLimiter } from '../../utils/rateLimiter';
 import { Publisher, Offer, SKU } from '../../types';
 
 // Mock token provider for testing
@@ -33,6 +36,23 @@ class MockTokenProvider implements TokenProvider {
   }
 }
 
+// In-memory stand-in for the IndexedDB cache
+class MemoryPersistentCache implements PersistentCache {
+  entries = new Map<string, PersistedEntry<unknown>>();
+
+  async get<T>(store: string, key: string): Promise<PersistedEntry<T> | null> {
+    return (this.entries.get(`${store}/${key}`) as PersistedEntry<T>) ?? null;
+  }
+
+  async set<T>(store: string, key: string, data: T): Promise<void> {
+    this.entries.set(`${store}/${key}`, { data, timestamp: Date.now() });
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear();
+  }
+}
+
 // Mock fetch globally
 const mockFetch = vi.fn();
 global.fetch = mockFetch;
@@ -78,7 +98,7 @@ describe('VMImagesService', () => {
         'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/eastus/publishers?api-version=2023-07-01',
         expect.objectContaining({
           headers: expect.objectContaining({
-            'Authorization': 'Bearer mock-token',
+            Authorization: 'Bearer mock-token',
             'Content-Type': 'application/json',
           }),
         })
@@ -128,7 +148,7 @@ describe('VMImagesService', () => {
 
       // First call
       const result1 = await vmImagesService.getPublishers('sub-1', 'eastus');
-      
+
       // Second call should use cache
       const result2 = await vmImagesService.getPublishers('sub-1', 'eastus');
 
@@ -140,10 +160,7 @@ describe('VMImagesService', () => {
   describe('getOffers', () => {
     it('should fetch offers successfully', async () => {
       const mockOffers = {
-        value: [
-          { name: 'WindowsServer' },
-          { name: 'SQL2019-WS2019' },
-        ],
+        value: [{ name: 'WindowsServer' }, { name: 'SQL2019-WS2019' }],
       };
 
       mockFetch.mockResolvedValueOnce({
@@ -151,18 +168,32 @@ describe('VMImagesService', () => {
         json: async () => mockOffers,
       });
 
-      const result = await vmImagesService.getOffers('sub-1', 'Microsoft', 'eastus');
+      const result = await vmImagesService.getOffers(
+        'sub-1',
+        'Microsoft',
+        'eastus'
+      );
 
       expect(result).toEqual([
-        { name: 'WindowsServer', displayName: 'WindowsServer', publisher: 'Microsoft', location: 'eastus' },
-        { name: 'SQL2019-WS2019', displayName: 'SQL2019-WS2019', publisher: 'Microsoft', location: 'eastus' },
+        {
+          name: 'WindowsServer',
+          displayName: 'WindowsServer',
+          publisher: 'Microsoft',
+          location: 'eastus',
+        },
+        {
+          name: 'SQL2019-WS2019',
+          displayName: 'SQL2019-WS2019',
+          publisher: 'Microsoft',
+          location: 'eastus',
+        },
       ]);
 
       expect(mockFetch).toHaveBeenCalledWith(
         'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/eastus/publishers/Microsoft/artifacttypes/vmimage/offers?api-version=2023-07-01',
         expect.objectContaining({
           headers: expect.objectContaining({
-            'Authorization': 'Bearer mock-token',
+            Authorization: 'Bearer mock-token',
           }),
         })
       );
@@ -170,11 +201,15 @@ describe('VMImagesService', () => {
 
     it('should throw error for missing required parameters', async () => {
       await expect(vmImagesService.getOffers('', 'Microsoft')).rejects.toThrow(
-        new VMImagesServiceError('Subscription ID and publisher name are required')
+        new VMImagesServiceError(
+          'Subscription ID and publisher name are required'
+        )
       );
 
       await expect(vmImagesService.getOffers('sub-1', '')).rejects.toThrow(
-        new VMImagesServiceError('Subscription ID and publisher name are required')
+        new VMImagesServiceError(
+          'Subscription ID and publisher name are required'
+        )
       );
     });
 
@@ -187,10 +222,18 @@ describe('VMImagesService', () => {
       });
 
       // First call
-      const result1 = await vmImagesService.getOffers('sub-1', 'Microsoft', 'eastus');
-      
+      const result1 = await vmImagesService.getOffers(
+        'sub-1',
+        'Microsoft',
+        'eastus'
+      );
+
       // Second call should use cache
-      const result2 = await vmImagesService.getOffers('sub-1', 'Microsoft', 'eastus');
+      const result2 = await vmImagesService.getOffers(
+        'sub-1',
+        'Microsoft',
+        'eastus'
+      );
 
       expect(result1).toEqual(result2);
       expect(mockFetch).toHaveBeenCalledTimes(1);
@@ -200,17 +243,11 @@ describe('VMImagesService', () => {
   describe('getSKUs', () => {
     it('should fetch SKUs with versions successfully', async () => {
       const mockSKUs = {
-        value: [
-          { name: '2019-Datacenter' },
-          { name: '2022-Datacenter' },
-        ],
+        value: [{ name: '2019-Datacenter' }, { name: '2022-Datacenter' }],
       };
 
       const mockVersions = {
-        value: [
-          { name: '17763.1.190108' },
-          { name: '17763.2.190208' },
-        ],
+        value: [{ name: '17763.1.190108' }, { name: '17763.2.190208' }],
       };
 
       // Mock SKUs call
@@ -230,7 +267,12 @@ describe('VMImagesService', () => {
         json: async () => mockVersions,
       });
 
-      const result = await vmImagesService.getSKUs('sub-1', 'Microsoft', 'WindowsServer', 'eastus');
+      const result = await vmImagesService.getSKUs(
+        'sub-1',
+        'Microsoft',
+        'WindowsServer',
+        'eastus'
+      );
 
       expect(result).toHaveLength(2);
       expect(result[0]).toEqual({
@@ -259,23 +301,40 @@ describe('VMImagesService', () => {
       // Mock versions call that fails
       mockFetch.mockRejectedValueOnce(new Error('Versions not found'));
 
-      const result = await vmImagesService.getSKUs('sub-1', 'Microsoft', 'WindowsServer', 'eastus');
+      const result = await vmImagesService.getSKUs(
+        'sub-1',
+        'Microsoft',
+        'WindowsServer',
+        'eastus'
+      );
 
       expect(result).toHaveLength(1);
       expect(result[0].versions).toEqual([]);
     }, 10000);
 
     it('should throw error for missing required parameters', async () => {
-      await expect(vmImagesService.getSKUs('', 'Microsoft', 'WindowsServer')).rejects.toThrow(
-        new VMImagesServiceError('Subscription ID, publisher name, and offer name are required')
+      await expect(
+        vmImagesService.getSKUs('', 'Microsoft', 'WindowsServer')
+      ).rejects.toThrow(
+        new VMImagesServiceError(
+          'Subscription ID, publisher name, and offer name are required'
+        )
       );
 
-      await expect(vmImagesService.getSKUs('sub-1', '', 'WindowsServer')).rejects.toThrow(
-        new VMImagesServiceError('Subscription ID, publisher name, and offer name are required')
+      await expect(
+        vmImagesService.getSKUs('sub-1', '', 'WindowsServer')
+      ).rejects.toThrow(
+        new VMImagesServiceError(
+          'Subscription ID, publisher name, and offer name are required'
+        )
       );
 
-      await expect(vmImagesService.getSKUs('sub-1', 'Microsoft', '')).rejects.toThrow(
-        new VMImagesServiceError('Subscription ID, publisher name, and offer name are required')
+      await expect(
+        vmImagesService.getSKUs('sub-1', 'Microsoft', '')
+      ).rejects.toThrow(
+        new VMImagesServiceError(
+          'Subscription ID, publisher name, and offer name are required'
+        )
       );
     });
 
@@ -294,16 +353,678 @@ describe('VMImagesService', () => {
       });
 
       // First call
-      const result1 = await vmImagesService.getSKUs('sub-1', 'Microsoft', 'WindowsServer', 'eastus');
-      
+      const result1 = await vmImagesService.getSKUs(
+        'sub-1',
+        'Microsoft',
+        'WindowsServer',
+        'eastus'
+      );
+
       // Second call should use cache
-      const result2 = await vmImagesService.getSKUs('sub-1', 'Microsoft', 'WindowsServer', 'eastus');
+      const result2 = await vmImagesService.getSKUs(
+        'sub-1',
+        'Microsoft',
+        'WindowsServer',
+        'eastus'
+      );
 
       expect(result1).toEqual(result2);
       expect(mockFetch).toHaveBeenCalledTimes(2); // Only initial calls, no cache calls
     });
   });
 
+  describe('getImageVersionDetails', () => {
+    const mockVersionResponse = {
+      name: '22.04.202410020',
+      location: 'eastus',
+      id: '/Subscriptions/sub-1/Providers/Microsoft.Compute/Locations/eastus/Publishers/Canonical/ArtifactTypes/VMImage/Offers/ubuntu-24_04-lts/Skus/server-arm64/Versions/22.04.202410020',
+      properties: {
+        hyperVGeneration: 'V2',
+        architecture: 'Arm64',
+        osDiskImage: { operatingSystem: 'Linux', sizeInBytes: 32213303808 },
+        dataDiskImages: [{ lun: 0, sizeInGb: 64 }],
+        features: [
+          { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+          { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+        ],
+        plan: {
+          name: 'cis-l1',
+          publisher: 'center-for-internet-security-inc',
+          product: 'cis-ubuntu',
+        },
+        automaticOSUpgradeProperties: { automaticOSUpgradeSupported: false },
+        disallowed: { vmDiskType: 'Unmanaged' },
+      },
+    };
+
+    it('should fetch and map version details', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVersionResponse,
+      });
+
+      const result = await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server-arm64',
+        '22.04.202410020',
+        'eastus'
+      );
+
+      expect(result).toEqual({
+        name: '22.04.202410020',
+        location: 'eastus',
+        id: mockVersionResponse.id,
+        osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+        dataDiskImages: [{ lun: 0, sizeInGb: 64 }],
+        hyperVGeneration: 'V2',
+        architecture: 'Arm64',
+        features: [
+          { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+          { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+        ],
+        security: {
+          securityType: null,
+          trustedLaunch: 'unsupported',
+          confidentialVM: 'unsupported',
+        },
+        plan: {
+          name: 'cis-l1',
+          publisher: 'center-for-internet-security-inc',
+          product: 'cis-ubuntu',
+        },
+        automaticOSUpgradeProperties: { automaticOSUpgradeSupported: false },
+        disallowed: { vmDiskType: 'Unmanaged' },
+        deprecationStatus: null,
+      });
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/eastus/publishers/Canonical/artifacttypes/vmimage/offers/ubuntu-24_04-lts/skus/server-arm64/versions/22.04.202410020?api-version=2024-07-01',
+        expect.any(Object)
+      );
+    });
+
+    it('should parse the image deprecation status', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockVersionResponse,
+          properties: {
+            ...mockVersionResponse.properties,
+            imageDeprecationStatus: {
+              imageState: 'ScheduledForDeprecation',
+              scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+              alternativeOption: { type: 'Offer', value: 'ubuntu-26_04-lts' },
+            },
+          },
+        }),
+      });
+
+      const result = await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server-arm64',
+        '22.04.202410020',
+        'eastus'
+      );
+
+      expect(result.deprecationStatus).toEqual({
+        imageState: 'ScheduledForDeprecation',
+        scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+        alternativeOption: { type: 'Offer', value: 'ubuntu-26_04-lts' },
+      });
+    });
+
+    it('should read the security types from the features', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockVersionResponse,
+          properties: {
+            ...mockVersionResponse.properties,
+            features: [
+              {
+                name: 'SecurityType',
+                value: 'TrustedLaunchAndConfidentialVmSupported',
+              },
+            ],
+          },
+        }),
+      });
+
+      const result = await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server-arm64',
+        '22.04.202410020',
+        'eastus'
+      );
+
+      expect(result.security).toEqual({
+        securityType: 'TrustedLaunchAndConfidentialVmSupported',
+        trustedLaunch: 'supported',
+        confidentialVM: 'supported',
+      });
+    });
+
+    it('should ignore unknown deprecation states', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({
+          ...mockVersionResponse,
+          properties: {
+            ...mockVersionResponse.properties,
+            imageDeprecationStatus: { imageState: 'Retiring' },
+          },
+        }),
+      });
+
+      const result = await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server-arm64',
+        '22.04.202410020',
+        'eastus'
+      );
+
+      expect(result.deprecationStatus).toBeNull();
+    });
+
+    it('should resolve latest to the newest version', async () => {
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ value: [{ name: '1.0.0' }, { name: '1.2.0' }] }),
+        })
+        .mockResolvedValueOnce({
+          ok: true,
+          json: async () => ({ ...mockVersionResponse, name: '1.2.0' }),
+        });
+
+      const result = await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server-arm64',
+        'latest',
+        'eastus'
+      );
+
+      expect(result.name).toBe('1.2.0');
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        expect.stringContaining('/versions/1.2.0?'),
+        expect.any(Object)
+      );
+    });
+
+    it('should cache version details', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => mockVersionResponse,
+      });
+
+      await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'offer',
+        'sku',
+        '1.0.0'
+      );
+      await vmImagesService.getImageVersionDetails(
+        'sub-1',
+        'Canonical',
+        'offer',
+        'sku',
+        '1.0.0'
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error for missing version', async () => {
+      await expect(
+        vmImagesService.getImageVersionDetails(
+          'sub-1',
+          'Canonical',
+          'offer',
+          'sku',
+          ''
+        )
+      ).rejects.toThrow(VMImagesServiceError);
+    });
+  });
+
+  describe('getSKURegionAvailability', () => {
+    const locations = [
+      { name: 'eastus', displayName: 'East US' },
+      { name: 'westeurope', displayName: 'West Europe' },
+      { name: 'brazilsouth', displayName: 'Brazil South' },
+    ];
+
+    it('should report availability and newest version per region in one batch call', async () => {
+      mockFetch.mockImplementation(async (_url: string, init: RequestInit) => ({
+        ok: true,
+        status: 200,
+        json: async () => ({
+          responses: JSON.parse(init.body as string).requests.map(
+            (request: { name: string; url: string }) =>
+              request.url.includes('/locations/brazilsouth/')
+                ? {
+                    name: request.name,
+                    httpStatusCode: 404,
+                    content: { error: { code: 'NotFound' } },
+                  }
+                : {
+                    name: request.name,
+                    httpStatusCode: 200,
+                    content: {
+                      value: [
+                        { name: '1.0.0' },
+                        { name: '1.10.0' },
+                        { name: '1.2.0' },
+                      ],
+                    },
+                  }
+          ),
+        }),
+      }));
+
+      const onProgress = vi.fn();
+      const result = await vmImagesService.getSKURegionAvailability(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server',
+        locations,
+        { concurrency: 2, onProgress }
+      );
+
+      expect(result).toEqual([
+        {
+          location: 'eastus',
+          displayName: 'East US',
+          available: true,
+          latestVersion: '1.10.0',
+          versionCount: 3,
+        },
+        {
+          location: 'westeurope',
+          displayName: 'West Europe',
+          available: true,
+          latestVersion: '1.10.0',
+          versionCount: 3,
+        },
+        {
+          location: 'brazilsouth',
+          displayName: 'Brazil South',
+          available: false,
+          latestVersion: null,
+          versionCount: 0,
+        },
+      ]);
+      expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://management.azure.com/batch?api-version=2020-06-01'
+      );
+    });
+
+    it('should fall back to single requests when the batch endpoint is missing', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockImplementation(async (url: string) =>
+        url.includes('/batch')
+          ? {
+              ok: false,
+              status: 404,
+              statusText: 'Not Found',
+              text: async () => '',
+            }
+          : {
+              ok: true,
+              status: 200,
+              json: async () => ({ value: [{ name: '1.0.0' }] }),
+            }
+      );
+
+      const result = await vmImagesService.getSKURegionAvailability(
+        'sub-1',
+        'Canonical',
+        'ubuntu-24_04-lts',
+        'server',
+        locations
+      );
+
+      expect(result.map((region) => region.latestVersion)).toEqual([
+        '1.0.0',
+        '1.0.0',
+        '1.0.0',
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(4);
+    });
+
+    it('should throw error for missing SKU name', async () => {
+      await expect(
+        vmImagesService.getSKURegionAvailability(
+          'sub-1',
+          'Canonical',
+          'offer',
+          '',
+          locations
+        )
+      ).rejects.toThrow(VMImagesServiceError);
+    });
+  });
+
+  describe('VM extensions', () => {
+    it('should list the extension types of a publisher', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { name: 'CustomScript', location: 'westeurope' },
+          { name: 'DockerExtension', location: 'westeurope' },
+        ],
+      });
+
+      const result = await vmImagesService.getExtensionTypes(
+        'sub-1',
+        'Microsoft.Azure.Extensions',
+        'westeurope'
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toBe(
+        'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/westeurope/publishers/Microsoft.Azure.Extensions/artifacttypes/vmextension/types?api-version=2023-07-01'
+      );
+      expect(result).toEqual([
+        {
+          name: 'CustomScript',
+          publisher: 'Microsoft.Azure.Extensions',
+          location: 'westeurope',
+        },
+        {
+          name: 'DockerExtension',
+          publisher: 'Microsoft.Azure.Extensions',
+          location: 'westeurope',
+        },
+      ]);
+    });
+
+    it('should return versions newest first with their typeHandlerVersion', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { name: '2.0.7' },
+          { name: '2.1.10' },
+          { name: '2.1.9' },
+          { name: '3' },
+        ],
+      });
+
+      const result = await vmImagesService.getExtensionVersions(
+        'sub-1',
+        'Microsoft.Azure.Extensions',
+        'CustomScript',
+        'westeurope'
+      );
+
+      expect(mockFetch.mock.calls[0][0]).toContain(
+        '/publishers/Microsoft.Azure.Extensions/artifacttypes/vmextension/types/CustomScript/versions?'
+      );
+      expect(result).toEqual([
+        { name: '3', typeHandlerVersion: '3.0' },
+        { name: '2.1.10', typeHandlerVersion: '2.1' },
+        { name: '2.1.9', typeHandlerVersion: '2.1' },
+        { name: '2.0.7', typeHandlerVersion: '2.0' },
+      ]);
+    });
+
+    it('should cache extension versions', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => ({ value: [{ name: '1.10.1' }] }),
+      });
+
+      await vmImagesService.getExtensionVersions(
+        'sub-1',
+        'Microsoft.Azure.Monitor',
+        'AzureMonitorLinuxAgent'
+      );
+      await vmImagesService.getExtensionVersions(
+        'sub-1',
+        'Microsoft.Azure.Monitor',
+        'AzureMonitorLinuxAgent'
+      );
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw error for missing extension type', async () => {
+      await expect(
+        vmImagesService.getExtensionVersions(
+          'sub-1',
+          'Microsoft.Azure.Extensions',
+          ''
+        )
+      ).rejects.toThrow(
+        new VMImagesServiceError(
+          'Subscription ID, publisher name, and extension type are required'
+        )
+      );
+    });
+  });
+
+  describe('edge zones', () => {
+    const edgeZoneBase =
+      'https://management.azure.com/subscriptions/sub-1/providers/Microsoft.Compute/locations/westus/edgeZones/losangeles/publishers';
+
+    it('should route catalog calls through the edge zone', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => [],
+      });
+
+      await vmImagesService.getPublishers('sub-1', 'westus', 'losangeles');
+      await vmImagesService.getOffers(
+        'sub-1',
+        'Canonical',
+        'westus',
+        'losangeles'
+      );
+      await vmImagesService.getSKUs(
+        'sub-1',
+        'Canonical',
+        'ubuntu',
+        'westus',
+        'losangeles'
+      );
+      await vmImagesService.getSKUVersions(
+        'sub-1',
+        'Canonical',
+        'ubuntu',
+        '22_04-lts',
+        'westus',
+        'losangeles'
+      );
+
+      expect(mockFetch.mock.calls.map((call) => call[0])).toEqual([
+        `${edgeZoneBase}?api-version=2023-07-01`,
+        `${edgeZoneBase}/Canonical/artifacttypes/vmimage/offers?api-version=2023-07-01`,
+        `${edgeZoneBase}/Canonical/artifacttypes/vmimage/offers/ubuntu/skus?api-version=2023-07-01`,
+        `${edgeZoneBase}/Canonical/artifacttypes/vmimage/offers/ubuntu/skus/22_04-lts/versions?api-version=2023-07-01`,
+      ]);
+    });
+
+    it('should cache edge zone catalogs separately from the region', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => [{ name: 'Canonical', location: 'westus' }],
+      });
+
+      await vmImagesService.getPublishers('sub-1', 'westus');
+      await vmImagesService.getPublishers('sub-1', 'westus', 'losangeles');
+      await vmImagesService.getPublishers('sub-1', 'westus', 'losangeles');
+
+      expect(mockFetch).toHaveBeenCalledTimes(2);
+      expect(mockFetch.mock.calls[1][0]).toBe(
+        `${edgeZoneBase}?api-version=2023-07-01`
+      );
+    });
+  });
+
+  describe('persistent cache', () => {
+    const cachedPublishers: Publisher[] = [
+      { name: 'Canonical', displayName: 'Canonical', location: 'westeurope' },
+    ];
+
+    let persistentCache: MemoryPersistentCache;
+    let service: VMImagesService;
+
+    beforeEach(() => {
+      persistentCache = new MemoryPersistentCache();
+      service = createVMImagesService(tokenProvider, persistentCache);
+    });
+
+    it('should persist loaded data', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ name: 'Canonical' }],
+      });
+
+      await service.getPublishers('sub-1', 'westeurope');
+
+      await vi.waitFor(() => {
+        expect(
+          persistentCache.entries.get('publishers/sub-1-westeurope')?.data
+        ).toEqual(cachedPublishers);
+      });
+    });
+
+    it('should serve fresh persisted data without a request', async () => {
+      persistentCache.entries.set('publishers/sub-1-westeurope', {
+        data: cachedPublishers,
+        timestamp: Date.now(),
+      });
+
+      const result = await service.getPublishers('sub-1', 'westeurope');
+
+      expect(result).toEqual(cachedPublishers);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should serve stale data immediately and revalidate in the background', async () => {
+      persistentCache.entries.set('publishers/sub-1-westeurope', {
+        data: cachedPublishers,
+        timestamp: Date.now() - 60 * 60 * 1000,
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { name: 'Canonical' },
+          { name: 'MicrosoftWindowsServer' },
+        ],
+      });
+
+      const result = await service.getPublishers('sub-1', 'westeurope');
+
+      expect(result).toEqual(cachedPublishers);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+
+      await vi.waitFor(async () => {
+        const entry = await persistentCache.get<Publisher[]>(
+          'publishers',
+          'sub-1-westeurope'
+        );
+        expect(entry?.data).toHaveLength(2);
+      });
+
+      // The revalidated data is now served from memory
+      const refreshed = await service.getPublishers('sub-1', 'westeurope');
+      expect(refreshed.map((publisher) => publisher.name)).toEqual([
+        'Canonical',
+        'MicrosoftWindowsServer',
+      ]);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should hand the revalidated data to every waiting caller', async () => {
+      persistentCache.entries.set('publishers/sub-1-westeurope', {
+        data: cachedPublishers,
+        timestamp: Date.now() - 60 * 60 * 1000,
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [
+          { name: 'Canonical' },
+          { name: 'MicrosoftWindowsServer' },
+        ],
+      });
+      const onRevalidated = vi.fn();
+      const onRevalidatedAgain = vi.fn();
+
+      await Promise.all([
+        service.getPublishers(
+          'sub-1',
+          'westeurope',
+          null,
+          undefined,
+          onRevalidated
+        ),
+        service.getPublishers(
+          'sub-1',
+          'westeurope',
+          null,
+          undefined,
+          onRevalidatedAgain
+        ),
+      ]);
+
+      await vi.waitFor(() => {
+        expect(onRevalidated).toHaveBeenCalledTimes(1);
+      });
+      expect(onRevalidated.mock.calls[0][0]).toHaveLength(2);
+      expect(onRevalidatedAgain).toHaveBeenCalledWith(
+        onRevalidated.mock.calls[0][0]
+      );
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should refetch entries older than the maximum stale age', async () => {
+      persistentCache.entries.set('publishers/sub-1-westeurope', {
+        data: cachedPublishers,
+        timestamp: Date.now() - 8 * 24 * 60 * 60 * 1000,
+      });
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ name: 'MicrosoftWindowsServer' }],
+      });
+
+      const result = await service.getPublishers('sub-1', 'westeurope');
+
+      expect(result.map((publisher) => publisher.name)).toEqual([
+        'MicrosoftWindowsServer',
+      ]);
+    });
+
+    it('should fall back to the API when the persistent cache fails', async () => {
+      vi.spyOn(persistentCache, 'get').mockRejectedValueOnce(
+        new Error('QuotaExceededError')
+      );
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      mockFetch.mockResolvedValueOnce({
+        ok: true,
+        json: async () => [{ name: 'Canonical' }],
+      });
+
+      const result = await service.getPublishers('sub-1', 'westeurope');
+
+      expect(result).toEqual(cachedPublishers);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('error handling', () => {
     it('should handle authentication failure', async () => {
       mockFetch.mockResolvedValueOnce({
@@ -323,7 +1044,11 @@ describe('VMImagesService', () => {
       });
 
       await expect(vmImagesService.getPublishers('sub-1')).rejects.toThrow(
-        new VMImagesServiceError('Insufficient permissions to access VM images', 403, false)
+        new VMImagesServiceError(
+          'Insufficient permissions to access VM images',
+          403,
+          false
+        )
       );
     });
 
@@ -346,8 +1071,7 @@ describe('VMImagesService', () => {
     });
 
     it('should retry on server errors', async () => {
-      const retryConfig = { maxRetries: 1, baseDelay: 10, maxDelay: 100 };
-      const service = new VMImagesService(tokenProvider, undefined, undefined, retryConfig);
+      const service = new VMImagesService(tokenProvider);
 
       mockFetch
         .mockResolvedValueOnce({
@@ -371,11 +1095,94 @@ describe('VMImagesService', () => {
       await expect(vmImagesService.getPublishers('sub-1')).rejects.toThrow(
         VMImagesServiceError
       );
-      
+
       expect(mockFetch).not.toHaveBeenCalled();
     }, 10000);
   });
 
+  describe('in-flight requests', () => {
+    it('should share one request between identical concurrent calls', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => ({ value: [{ name: 'UbuntuServer' }] }),
+      });
+
+      const [first, second] = await Promise.all([
+        vmImagesService.getOffers('sub-1', 'Canonical', 'eastus'),
+        vmImagesService.getOffers('sub-1', 'Canonical', 'eastus'),
+      ]);
+
+      expect(first).toEqual(second);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should share SKU version lookups', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        json: async () => [{ name: '1.0.0' }],
+      });
+
+      await Promise.all([
+        vmImagesService.getSKUVersions(
+          'sub-1',
+          'Canonical',
+          'UbuntuServer',
+          '22_04-lts',
+          'eastus'
+        ),
+        vmImagesService.getSKUVersions(
+          'sub-1',
+          'Canonical',
+          'UbuntuServer',
+          '22_04-lts',
+          'eastus'
+        ),
+      ]);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it('should abort the request when the caller aborts', async () => {
+      let fetchSignal: AbortSignal | undefined;
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => {
+        fetchSignal = init.signal ?? undefined;
+        return new Promise((_, reject) => {
+          fetchSignal?.addEventListener('abort', () =>
+            reject(new DOMException('The operation was aborted.', 'AbortError'))
+          );
+        });
+      });
+      const controller = new AbortController();
+
+      const result = vmImagesService.getPublishers(
+        'sub-1',
+        'eastus',
+        null,
+        controller.signal
+      );
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalled());
+      controller.abort();
+
+      await expect(result).rejects.toThrow(RequestAbortedError);
+      expect(fetchSignal?.aborted).toBe(true);
+    });
+
+    it('should not call the API for an already aborted signal', async () => {
+      const controller = new AbortController();
+      controller.abort();
+
+      await expect(
+        vmImagesService.getPublishers(
+          'sub-1',
+          'eastus',
+          null,
+          controller.signal
+        )
+      ).rejects.toThrow(RequestAbortedError);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
   describe('cache management', () => {
     it('should clear all cache', async () => {
       const mockData = { value: [{ name: 'test' }] };
@@ -423,33 +1230,34 @@ describe('VMImagesService', () => {
   });
 
   describe('rate limiting', () => {
-    it('should enforce rate limits', async () => {
-      const rateLimitConfig = {
-        maxRequestsPerMinute: 2,
-        requestWindow: 1000, // 1 second for testing
-      };
-
-      const service = new VMImagesService(tokenProvider, rateLimitConfig);
-      const mockData = { value: [] };
-
-      mockFetch.mockResolvedValue({
-        ok: true,
-        json: async () => mockData,
-      });
+    it('should wait for the Retry-After of a throttled response', async () => {
+      const rateLimiter = new ArmRateLimiter();
+      const service = new VMImagesService(
+        tokenProvider,
+        undefined,
+        null,
+        rateLimiter
+      );
 
-      const startTime = Date.now();
+      mockFetch
+        .mockResolvedValueOnce({
+          ok: true,
+          headers: new Headers({ 'Retry-After': '1' }),
+          json: async () => ({ value: [] }),
+        })
+        .mockResolvedValue({
+          ok: true,
+          headers: new Headers(),
+          json: async () => ({ value: [] }),
+        });
 
-      // Make 3 requests quickly
       await service.getPublishers('sub-1');
-      await service.getPublishers('sub-2');
-      await service.getPublishers('sub-3'); // This should be delayed
-
-      const endTime = Date.now();
-      const duration = endTime - startTime;
+      const startTime = Date.now();
+      await service.getPublishers('sub-2'); // This should be delayed
 
-      // Should take at least 1 second due to rate limiting
-      expect(duration).toBeGreaterThan(900);
-      expect(mockFetch).toHaveBeenCalledTimes(3);
+      // Should wait about 1 second as requested by ARM
+      expect(Date.now() - startTime).toBeGreaterThan(900);
+      expect(mockFetch).toHaveBeenCalledTimes(2);
     }, 10000);
   });
 });
@@ -461,4 +1269,4 @@ describe('createVMImagesService', () => {
 
     expect(service).toBeInstanceOf(VMImagesService);
   });
-});
\ No newline at end of file
+});
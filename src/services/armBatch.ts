@@ -0,0 +1,325 @@
+import type { TokenProvider } from './subscriptionService';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  classifyError,
+  classifyHttpError,
+  enhancedFetch,
+  isAbortError,
+  parseRetryAfter,
+  sleep,
+} from '../utils/errorHandling';
+import type { RequestThrottle, RetryConfig } from '../utils/errorHandling';
+import { activeCloud } from '../config/cloudEnvironment';
+import { mapWithConcurrency } from '../utils/concurrency';
+
+/**
+ * Client for the ARM /batch endpoint. Fan-outs send their GETs in groups of
+ * up to MAX_BATCH_SIZE per call; each request gets its own result, with
+ * failures mapped to the AppError classes a single request would have
+ * thrown.
+ */
+
+export const ARM_BATCH_API_VERSION = '2020-06-01';
+
+// ARM runs at most this many requests per batch call
+export const MAX_BATCH_SIZE = 20;
+
+// Batch calls in flight at once; each already carries MAX_BATCH_SIZE requests
+const DEFAULT_BATCH_CONCURRENCY = 2;
+
+// Wait between polls of an accepted (202) batch without Retry-After
+const DEFAULT_POLL_INTERVAL = 1000;
+
+// Statuses of batched requests that are sent again, like enhancedFetch
+// retries a throttled or unavailable single request
+const RETRYABLE_STATUSES = [429, 503];
+
+export type ArmBatchResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: AppError };
+
+export interface ArmBatchOptions {
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
+}
+
+export class ArmBatchError extends AppError {
+  readonly code = 'ARM_BATCH_ERROR';
+  readonly userMessage = 'A batched Azure request failed. Please try again.';
+  readonly retryable = true;
+}
+
+// Raw shapes of the batch endpoint
+interface ArmBatchResponseItem {
+  name?: string;
+  httpStatusCode?: number;
+  headers?: Record<string, string>;
+  content?: unknown;
+}
+
+interface ArmBatchResponse {
+  responses?: ArmBatchResponseItem[];
+}
+
+export class ArmBatchClient {
+  private tokenProvider: TokenProvider;
+  private retryConfig: RetryConfig;
+  private throttle?: RequestThrottle;
+  private maxBatchSize: number;
+  // Set once the endpoint turns out to be missing (Azure Stack Hub, older
+  // recordings), so later fan-outs go straight to single requests
+  private unsupported = false;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    throttle?: RequestThrottle,
+    maxBatchSize: number = MAX_BATCH_SIZE
+  ) {
+    this.tokenProvider = tokenProvider;
+    this.retryConfig = retryConfig;
+    this.throttle = throttle;
+    this.maxBatchSize = maxBatchSize;
+  }
+
+  /**
+   * GET every URL and return one result per URL, in input order. A batch
+   * call that fails as a whole is retried as single requests, so callers
+   * only ever see per-request failures; aborting rejects with
+   * RequestAbortedError.
+   */
+  async get<T>(
+    urls: string[],
+    options: ArmBatchOptions = {}
+  ): Promise<ArmBatchResult<T>[]> {
+    const { signal, onProgress } = options;
+    const chunks: string[][] = [];
+    for (let i = 0; i < urls.length; i += this.maxBatchSize) {
+      chunks.push(urls.slice(i, i + this.maxBatchSize));
+    }
+
+    let completed = 0;
+    const results = await mapWithConcurrency(
+      chunks,
+      options.concurrency ?? DEFAULT_BATCH_CONCURRENCY,
+      async (chunk) => {
+        const chunkResults = await this.getChunk<T>(chunk, signal);
+        completed += chunk.length;
+        onProgress?.(completed, urls.length);
+        return chunkResults;
+      }
+    );
+
+    return results.flat();
+  }
+
+  private async getChunk<T>(
+    urls: string[],
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<T>[]> {
+    if (!this.unsupported) {
+      try {
+        return await this.sendWithRetries<T>(urls, signal);
+      } catch (error) {
+        if (isAbortError(error)) {
+          throw error;
+        }
+        const appError = classifyError(error);
+        if (appError.statusCode === 404 || appError.statusCode === 400) {
+          // Expected where the endpoint is missing; not worth a warning
+          this.unsupported = true;
+        } else {
+          console.warn(
+            'ARM batch call failed, sending the requests one by one:',
+            appError
+          );
+        }
+      }
+    }
+
+    return Promise.all(urls.map((url) => this.getSingle<T>(url, signal)));
+  }
+
+  /**
+   * Send a batch and send its throttled (429) and unavailable (503) requests
+   * again, up to retryConfig.maxRetries times. Their Retry-After pauses the
+   * throttle, so the other requests of the subscription wait as well.
+   */
+  private async sendWithRetries<T>(
+    urls: string[],
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<T>[]> {
+    const results: ArmBatchResult<T>[] = new Array(urls.length);
+    let pending = urls.map((_, index) => index);
+
+    for (let attempt = 0; pending.length > 0; attempt++) {
+      const items = await this.sendBatch(
+        pending.map((index) => urls[index]),
+        signal
+      );
+      const retry: number[] = [];
+      let delay = Math.min(
+        this.retryConfig.baseDelay *
+          Math.pow(this.retryConfig.backoffMultiplier, attempt),
+        this.retryConfig.maxDelay
+      );
+
+      items.forEach((item, position) => {
+        const index = pending[position];
+        if (!item) {
+          results[index] = {
+            ok: false,
+            error: new ArmBatchError(
+              `The batch returned no response for ${urls[index]}`
+            ),
+          };
+          return;
+        }
+
+        const status = item.httpStatusCode ?? 0;
+        if (
+          RETRYABLE_STATUSES.includes(status) &&
+          attempt < this.retryConfig.maxRetries
+        ) {
+          const response = new Response(null, {
+            status,
+            headers: item.headers,
+          });
+          this.throttle?.recordResponse(response);
+          delay = Math.max(
+            delay,
+            parseRetryAfter(response.headers.get('Retry-After')) ?? 0
+          );
+          retry.push(index);
+          return;
+        }
+
+        results[index] = toResult<T>(item);
+      });
+
+      if (retry.length > 0) {
+        await sleep(delay, signal);
+      }
+      pending = retry;
+    }
+
+    return results;
+  }
+
+  /**
+   * Send one batch call; returns the response item of every URL, in input
+   * order, or undefined where the batch left one out
+   */
+  private async sendBatch(
+    urls: string[],
+    signal?: AbortSignal
+  ): Promise<(ArmBatchResponseItem | undefined)[]> {
+    const body = JSON.stringify({
+      requests: urls.map((url, index) => ({
+        httpMethod: 'GET',
+        name: String(index),
+        url,
+      })),
+    });
+
+    let response = await this.request(
+      `${activeCloud.armEndpoint}/batch?api-version=${ARM_BATCH_API_VERSION}`,
+      { method: 'POST', body, signal }
+    );
+
+    // Large batches are accepted and run asynchronously
+    while (response.status === 202) {
+      const location = response.headers.get('Location');
+      if (!location) {
+        throw new ArmBatchError('Accepted batch has no Location to poll');
+      }
+      await sleep(
+        parseRetryAfter(response.headers.get('Retry-After')) ??
+          DEFAULT_POLL_INTERVAL,
+        signal
+      );
+      response = await this.request(location, { signal });
+    }
+
+    const data: ArmBatchResponse = await response.json();
+    if (!data || !Array.isArray(data.responses)) {
+      throw new ArmBatchError(
+        `Invalid response format from batch API. Response: ${JSON.stringify(data)}`
+      );
+    }
+
+    const byName = new Map(
+      data.responses.map((item) => [item.name, item] as const)
+    );
+    return urls.map((_, index) => byName.get(String(index)));
+  }
+
+  private async getSingle<T>(
+    url: string,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<T>> {
+    try {
+      const response = await this.request(url, { signal });
+      return { ok: true, data: await response.json() };
+    } catch (error) {
+      if (isAbortError(error)) {
+        throw error;
+      }
+      return { ok: false, error: classifyError(error) };
+    }
+  }
+
+  private async request(url: string, options: RequestInit): Promise<Response> {
+    const token = await this.tokenProvider.getAccessToken();
+
+    return enhancedFetch(
+      url,
+      {
+        ...options,
+        headers: {
+          Authorization: `Bearer ${token}`,
+          'Content-Type': 'application/json',
+        },
+      },
+      this.retryConfig,
+      this.throttle
+    );
+  }
+}
+
+/**
+ * Map one batch response into a result, classifying failures exactly like
+ * enhancedFetch classifies a failed single request
+ */
+function toResult<T>(item: ArmBatchResponseItem): ArmBatchResult<T> {
+  const status = item.httpStatusCode ?? 0;
+  if (status >= 200 && status < 300) {
+    return { ok: true, data: item.content as T };
+  }
+
+  const content =
+    typeof item.content === 'string'
+      ? item.content
+      : JSON.stringify(item.content ?? '');
+  return {
+    ok: false,
+    error:
+      status >= 400 && status <= 599
+        ? classifyHttpError(
+            new Response(null, { status, headers: item.headers }),
+            content
+          )
+        : new ArmBatchError(`Unexpected batch status ${status}: ${content}`),
+  };
+}
+
+// Factory function to create the batch client
+export function createArmBatchClient(
+  tokenProvider: TokenProvider,
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  throttle?: RequestThrottle
+): ArmBatchClient {
+  return new ArmBatchClient(tokenProvider, retryConfig, throttle);
+}
@@ -0,0 +1,92 @@
+import type { TokenProvider } from './subscriptionService';
+import {
+  enhancedFetch,
+  withRetry,
+  DEFAULT_RETRY_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig } from '../utils/errorHandling';
+import { activeCloud } from '../config/cloudEnvironment';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+// Azure Resource Manager API base URL of the selected cloud
+export const ARM_BASE_URL = activeCloud.armEndpoint;
+
+// Page of an ARM list response
+export interface ArmListResponse<T> {
+  value?: T[];
+  nextLink?: string;
+}
+
+/**
+ * Authenticated, retried and rate-limited requests against ARM, shared by
+ * the services that talk to it
+ */
+export class ArmClient {
+  private tokenProvider: TokenProvider;
+  private retryConfig: RetryConfig;
+  private rateLimiter: ArmRateLimiter;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.tokenProvider = tokenProvider;
+    this.retryConfig = retryConfig;
+    this.rateLimiter = rateLimiter;
+  }
+
+  /**
+   * Make an authenticated HTTP request with enhanced error handling
+   */
+  async request(url: string, options: RequestInit = {}): Promise<Response> {
+    return withRetry(
+      async () => {
+        const token = await this.tokenProvider.getAccessToken();
+
+        return enhancedFetch(
+          url,
+          {
+            ...options,
+            headers: {
+              Authorization: `Bearer ${token}`,
+              'Content-Type': 'application/json',
+              ...options.headers,
+            },
+          },
+          this.retryConfig,
+          this.rateLimiter
+        );
+      },
+      this.retryConfig,
+      options.signal ?? undefined
+    );
+  }
+
+  /**
+   * Follow nextLink until every page of a list response is loaded. A page
+   * without a value array is rejected with the error from invalidResponse.
+   */
+  async getAllPages<T>(
+    url: string,
+    invalidResponse: (data: unknown) => Error,
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    const items: T[] = [];
+    let nextUrl: string | undefined = url;
+
+    while (nextUrl) {
+      const response = await this.request(nextUrl, { signal });
+      const data: ArmListResponse<T> = await response.json();
+
+      if (!data || !Array.isArray(data.value)) {
+        throw invalidResponse(data);
+      }
+
+      items.push(...data.value);
+      nextUrl = data.nextLink;
+    }
+
+    return items;
+  }
+}
@@ -0,0 +1,322 @@
+import type { ArmTransport } from '../utils/armTransport';
+import { AppError, RequestAbortedError } from '../utils/errorHandling';
+import { REPLAY_BUNDLE_STORAGE_KEY } from '../config/demoMode';
+import { activeCloud } from '../config/cloudEnvironment';
+
+/**
+ * Record and replay of ARM traffic. The recorder captures request/response
+ * pairs in the service fetch path, with credentials redacted, into a JSON
+ * bundle that the replay transport serves back deterministically.
+ */
+
+export const RECORDING_FORMAT = 'vmib-arm-recording';
+export const RECORDING_VERSION = 1;
+
+const REDACTED = '[REDACTED]';
+
+// Request headers that carry credentials
+const SECRET_HEADERS = [
+  'authorization',
+  'cookie',
+  'x-ms-authorization-auxiliary',
+];
+
+// Bearer tokens (JWTs) anywhere in URLs and bodies
+const JWT_PATTERN = /eyJ[\w-]+\.eyJ[\w-]+\.[\w-]*/g;
+
+export interface ArmRecordedExchange {
+  request: {
+    method: string;
+    url: string;
+    headers: Record<string, string>;
+    body?: string;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: string;
+  };
+  recordedAt: string;
+  durationMs: number;
+}
+
+export interface ArmRecordingBundle {
+  format: typeof RECORDING_FORMAT;
+  version: typeof RECORDING_VERSION;
+  createdAt: string;
+  armEndpoint: string;
+  exchanges: ArmRecordedExchange[];
+}
+
+export class ArmRecordingError extends AppError {
+  readonly code = 'ARM_RECORDING_ERROR';
+  readonly userMessage =
+    'The ARM recording could not be loaded. Please check the file.';
+  readonly retryable = false;
+}
+
+/**
+ * Strip bearer tokens from free text
+ */
+export function redactSecrets(text: string): string {
+  return text.replace(JWT_PATTERN, REDACTED);
+}
+
+function redactHeaders(
+  headers: HeadersInit | Headers | undefined,
+  drop: string[] = []
+): Record<string, string> {
+  const redacted: Record<string, string> = {};
+  new Headers(headers).forEach((value, name) => {
+    if (drop.includes(name)) {
+      return;
+    }
+    redacted[name] = SECRET_HEADERS.includes(name)
+      ? REDACTED
+      : redactSecrets(value);
+  });
+  return redacted;
+}
+
+/**
+ * Records the ARM exchanges of a transport while recording is on
+ */
+export class ArmTrafficRecorder {
+  private exchanges: ArmRecordedExchange[] = [];
+  private recording = false;
+  private listeners = new Set<() => void>();
+
+  get isRecording(): boolean {
+    return this.recording;
+  }
+
+  get size(): number {
+    return this.exchanges.length;
+  }
+
+  start(): void {
+    this.recording = true;
+    this.notify();
+  }
+
+  stop(): void {
+    this.recording = false;
+    this.notify();
+  }
+
+  clear(): void {
+    this.exchanges = [];
+    this.notify();
+  }
+
+  /**
+   * Listen for changes of the recording state; returns the unsubscribe
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Wrap a transport so its traffic is captured while recording
+   */
+  wrap(transport: ArmTransport): ArmTransport {
+    return async (url, init) => {
+      if (!this.recording) {
+        return transport(url, init);
+      }
+
+      const startedAt = Date.now();
+      const response = await transport(url, init);
+      const body = await response.clone().text();
+
+      this.exchanges.push({
+        request: {
+          method: (init.method || 'GET').toUpperCase(),
+          url: redactSecrets(url),
+          headers: redactHeaders(init.headers),
+          body:
+            typeof init.body === 'string'
+              ? redactSecrets(init.body)
+              : undefined,
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers: redactHeaders(response.headers, ['set-cookie']),
+          body: redactSecrets(body),
+        },
+        recordedAt: new Date(startedAt).toISOString(),
+        durationMs: Date.now() - startedAt,
+      });
+      this.notify();
+
+      return response;
+    };
+  }
+
+  toBundle(): ArmRecordingBundle {
+    return {
+      format: RECORDING_FORMAT,
+      version: RECORDING_VERSION,
+      createdAt: new Date().toISOString(),
+      armEndpoint: activeCloud.armEndpoint,
+      exchanges: [...this.exchanges],
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+}
+
+/**
+ * Validate parsed JSON as a recording bundle
+ */
+export function parseRecordingBundle(data: unknown): ArmRecordingBundle {
+  const bundle = data as Partial<ArmRecordingBundle> | null;
+
+  if (
+    !bundle ||
+    bundle.format !== RECORDING_FORMAT ||
+    !Array.isArray(bundle.exchanges)
+  ) {
+    throw new ArmRecordingError('Not an ARM recording bundle');
+  }
+  if (bundle.version !== RECORDING_VERSION) {
+    throw new ArmRecordingError(
+      `Unsupported ARM recording version ${String(bundle.version)}`
+    );
+  }
+
+  return bundle as ArmRecordingBundle;
+}
+
+/**
+ * Requests match on method, path, query and body, so a recording replays
+ * regardless of the cloud it was made in, and batch calls replay per batch
+ */
+function replayKey(method: string, url: string, body?: string): string {
+  const { pathname, searchParams } = new URL(url);
+  searchParams.sort();
+  const query = searchParams.toString();
+  const key = `${method.toUpperCase()} ${pathname.toLowerCase()}${query ? `?${query}` : ''}`;
+  // Bodies were recorded redacted and with the recording cloud's endpoint
+  return body
+    ? `${key} ${redactSecrets(body).replace(/https:\/\/[^/"]+/g, '')}`
+    : key;
+}
+
+/**
+ * ARM transport answering from a recording. Repeated requests get the
+ * recorded responses in order, then the last one again; requests that were
+ * not recorded get an ARM 404.
+ */
+export function createReplayTransport(
+  bundle: ArmRecordingBundle
+): ArmTransport {
+  const recorded = new Map<string, ArmRecordedExchange[]>();
+  bundle.exchanges.forEach((exchange) => {
+    const key = replayKey(
+      exchange.request.method,
+      exchange.request.url,
+      exchange.request.body
+    );
+    recorded.set(key, [...(recorded.get(key) ?? []), exchange]);
+  });
+
+  return async (url, init) => {
+    if (init.signal?.aborted) {
+      throw new RequestAbortedError('Request was aborted');
+    }
+
+    const method = init.method || 'GET';
+    const queue = recorded.get(
+      replayKey(
+        method,
+        url,
+        typeof init.body === 'string' ? init.body : undefined
+      )
+    );
+    const exchange = queue && (queue.length > 1 ? queue.shift() : queue[0]);
+
+    if (!exchange) {
+      return new Response(
+        JSON.stringify({
+          error: {
+            code: 'NotRecorded',
+            message: `The recording has no response for ${method.toUpperCase()} ${url}`,
+          },
+        }),
+        { status: 404, headers: { 'Content-Type': 'application/json' } }
+      );
+    }
+
+    const { status, statusText, headers, body } = exchange.response;
+    // Null-body statuses must not carry a body
+    const hasBody = ![204, 205, 304].includes(status);
+    return new Response(hasBody ? body : null, { status, statusText, headers });
+  };
+}
+
+/**
+ * Save the recording as a JSON file
+ */
+export function downloadRecordingBundle(bundle: ArmRecordingBundle): void {
+  const blob = new Blob([JSON.stringify(bundle, null, 2)], {
+    type: 'application/json',
+  });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `arm-recording-${bundle.createdAt.replace(/[:.]/g, '-')}.json`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * Keep a recording to replay for the rest of the browser session.
+ * The transport is chosen on startup, so the app has to be reloaded.
+ */
+export function saveReplayBundle(bundle: ArmRecordingBundle | null): void {
+  if (!bundle) {
+    sessionStorage.removeItem(REPLAY_BUNDLE_STORAGE_KEY);
+    return;
+  }
+
+  try {
+    sessionStorage.setItem(REPLAY_BUNDLE_STORAGE_KEY, JSON.stringify(bundle));
+  } catch (error) {
+    throw new ArmRecordingError(
+      'The recording is too large to replay in the browser',
+      undefined,
+      error instanceof Error ? error : undefined
+    );
+  }
+}
+
+/**
+ * The recording selected for replay in this session, if any
+ */
+export function loadReplayBundle(): ArmRecordingBundle | null {
+  const stored = sessionStorage.getItem(REPLAY_BUNDLE_STORAGE_KEY);
+  if (!stored) {
+    return null;
+  }
+
+  try {
+    return parseRecordingBundle(JSON.parse(stored));
+  } catch (error) {
+    console.warn('Ignoring the stored ARM recording:', error);
+    sessionStorage.removeItem(REPLAY_BUNDLE_STORAGE_KEY);
+    return null;
+  }
+}
+
+// Recorder in the app's ARM fetch path
+export const armTrafficRecorder = new ArmTrafficRecorder();
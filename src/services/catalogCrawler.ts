@@ -0,0 +1,362 @@
+import type {
+  CatalogIndex,
+  CatalogIndexEntry,
+  CatalogCrawlProgress,
+} from '../types';
+import type { PersistentCache } from './persistentCache';
+import type { VMImagesService } from './vmImagesService';
+import {
+  AppError,
+  RequestAbortedError,
+  isAbortError,
+} from '../utils/errorHandling';
+import { mapWithConcurrency } from '../utils/concurrency';
+import { MAX_BATCH_SIZE } from './armBatch';
+import type { ArmBatchResult } from './armBatch';
+
+// Persistent cache store holding the built indexes
+const INDEX_STORE = 'catalogIndex';
+
+// Offer and SKU listings run in parallel, but still go through the service
+// rate limiter, so a modest default keeps the crawl well below ARM limits
+const DEFAULT_CONCURRENCY = 4;
+
+export class CatalogCrawlerError extends AppError {
+  readonly code = 'CATALOG_CRAWLER_ERROR';
+  readonly userMessage = 'Failed to build the catalog index. Please try again.';
+  readonly retryable = true;
+}
+
+// The listing calls the crawler needs from VMImagesService. The batched
+// listings are optional; when present the crawler groups its fan-out into ARM
+// batch calls of up to MAX_BATCH_SIZE listings
+export type CatalogSource = Pick<
+  VMImagesService,
+  'getPublishers' | 'getOffers' | 'getSKUs'
+> &
+  Partial<Pick<VMImagesService, 'getOffersForPublishers' | 'getSKUsForOffers'>>;
+
+export interface CatalogCrawlOptions {
+  concurrency?: number;
+  onProgress?: (progress: CatalogCrawlProgress) => void;
+  signal?: AbortSignal;
+}
+
+/**
+ * Walks publishers → offers → SKUs of a location in the background and
+ * builds a flat index of every marketplace image, persisted per tenant
+ */
+export class CatalogCrawler {
+  private source: CatalogSource;
+  private persistentCache: PersistentCache | null;
+  private paused = false;
+  private resumeWaiters: Array<() => void> = [];
+
+  constructor(
+    source: CatalogSource,
+    persistentCache: PersistentCache | null = null
+  ) {
+    this.source = source;
+    this.persistentCache = persistentCache;
+  }
+
+  /**
+   * Crawl the marketplace of a location. Listings that fail are skipped and
+   * counted, so one broken publisher does not cost the whole index. Aborting
+   * the signal cancels the crawl with a RequestAbortedError.
+   */
+  async crawl(
+    subscriptionId: string,
+    location: string,
+    edgeZone?: string | null,
+    options: CatalogCrawlOptions = {}
+  ): Promise<CatalogIndex> {
+    if (!subscriptionId || !location) {
+      throw new CatalogCrawlerError(
+        'Subscription ID and location are required'
+      );
+    }
+
+    const { concurrency = DEFAULT_CONCURRENCY, onProgress, signal } = options;
+    let failed = 0;
+
+    const report = (
+      phase: CatalogCrawlProgress['phase'],
+      completed: number,
+      total: number
+    ) => onProgress?.({ phase, completed, total, failed });
+
+    // Run a listing call, counting failures unless the crawl was cancelled
+    const list = async <T>(load: () => Promise<T[]>): Promise<T[]> => {
+      await this.waitWhilePaused(signal);
+      try {
+        return await load();
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) {
+          throw new RequestAbortedError('Catalog crawl was cancelled');
+        }
+        console.warn('Catalog crawl skipped a listing:', error);
+        failed++;
+        return [];
+      }
+    };
+
+    // Run the listings of a phase, in batch calls when the source has them
+    const listAll = async <K, T>(
+      phase: CatalogCrawlProgress['phase'],
+      keys: K[],
+      loadOne: (key: K) => Promise<T[]>,
+      loadBatch?: (keys: K[]) => Promise<ArmBatchResult<T[]>[]>
+    ): Promise<T[][]> => {
+      if (!loadBatch) {
+        return mapWithConcurrency(
+          keys,
+          concurrency,
+          (key) => list(() => loadOne(key)),
+          (completed, total) => report(phase, completed, total)
+        );
+      }
+
+      const groups: K[][] = [];
+      for (let i = 0; i < keys.length; i += MAX_BATCH_SIZE) {
+        groups.push(keys.slice(i, i + MAX_BATCH_SIZE));
+      }
+
+      let completed = 0;
+      const results = await mapWithConcurrency(
+        groups,
+        concurrency,
+        async (group) => {
+          await this.waitWhilePaused(signal);
+          let lists: T[][];
+          try {
+            lists = (await loadBatch(group)).map((result) => {
+              if (result.ok) {
+                return result.data;
+              }
+              console.warn('Catalog crawl skipped a listing:', result.error);
+              failed++;
+              return [];
+            });
+          } catch (error) {
+            if (isAbortError(error) || signal?.aborted) {
+              throw new RequestAbortedError('Catalog crawl was cancelled');
+            }
+            console.warn('Catalog crawl skipped a batch of listings:', error);
+            failed += group.length;
+            lists = group.map(() => []);
+          }
+
+          completed += group.length;
+          report(phase, completed, keys.length);
+          return lists;
+        }
+      );
+      return results.flat();
+    };
+
+    report('publishers', 0, 1);
+    await this.waitWhilePaused(signal);
+    const publishers = await this.source.getPublishers(
+      subscriptionId,
+      location,
+      edgeZone,
+      signal
+    );
+    report('publishers', 1, 1);
+
+    const getOffersForPublishers = this.source.getOffersForPublishers;
+    const offersByPublisher = await listAll(
+      'offers',
+      publishers.map((publisher) => publisher.name),
+      (publisherName) =>
+        this.source.getOffers(
+          subscriptionId,
+          publisherName,
+          location,
+          edgeZone,
+          signal
+        ),
+      getOffersForPublishers &&
+        ((publisherNames) =>
+          getOffersForPublishers.call(
+            this.source,
+            subscriptionId,
+            publisherNames,
+            location,
+            edgeZone,
+            signal
+          ))
+    );
+
+    const offers = publishers.flatMap((publisher, index) =>
+      offersByPublisher[index].map((offer) => ({
+        publisher: publisher.name,
+        offer: offer.name,
+      }))
+    );
+
+    const getSKUsForOffers = this.source.getSKUsForOffers;
+    const skusByOffer = await listAll(
+      'skus',
+      offers,
+      ({ publisher, offer }) =>
+        this.source.getSKUs(
+          subscriptionId,
+          publisher,
+          offer,
+          location,
+          edgeZone,
+          signal
+        ),
+      getSKUsForOffers &&
+        ((batchOffers) =>
+          getSKUsForOffers.call(
+            this.source,
+            subscriptionId,
+            batchOffers,
+            location,
+            edgeZone,
+            signal
+          ))
+    );
+
+    const entries: CatalogIndexEntry[] = offers.flatMap(
+      ({ publisher, offer }, index) =>
+        skusByOffer[index].map((sku) => ({ publisher, offer, sku: sku.name }))
+    );
+
+    const catalogIndex: CatalogIndex = {
+      subscriptionId,
+      location,
+      edgeZone: edgeZone || null,
+      entries,
+      failed,
+      builtAt: Date.now(),
+    };
+
+    this.persistentCache
+      ?.set(
+        INDEX_STORE,
+        getIndexKey(subscriptionId, location, edgeZone),
+        catalogIndex
+      )
+      .catch((error) => {
+        console.warn('Could not persist the catalog index:', error);
+      });
+
+    return catalogIndex;
+  }
+
+  /**
+   * Load the index built by an earlier crawl, if any
+   */
+  async loadIndex(
+    subscriptionId: string,
+    location: string,
+    edgeZone?: string | null
+  ): Promise<CatalogIndex | null> {
+    if (!this.persistentCache) {
+      return null;
+    }
+
+    try {
+      const entry = await this.persistentCache.get<CatalogIndex>(
+        INDEX_STORE,
+        getIndexKey(subscriptionId, location, edgeZone)
+      );
+      return entry?.data ?? null;
+    } catch (error) {
+      console.warn('Could not read the catalog index:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Hold the crawl before its next listing call; calls already sent finish
+   */
+  pause(): void {
+    this.paused = true;
+  }
+
+  resume(): void {
+    this.paused = false;
+    const waiters = this.resumeWaiters;
+    this.resumeWaiters = [];
+    waiters.forEach((wake) => wake());
+  }
+
+  get isPaused(): boolean {
+    return this.paused;
+  }
+
+  private async waitWhilePaused(signal?: AbortSignal): Promise<void> {
+    while (this.paused) {
+      if (signal?.aborted) {
+        break;
+      }
+      await new Promise<void>((resolve) => {
+        const wake = () => {
+          signal?.removeEventListener('abort', wake);
+          resolve();
+        };
+        this.resumeWaiters.push(wake);
+        signal?.addEventListener('abort', wake, { once: true });
+      });
+    }
+
+    if (signal?.aborted) {
+      throw new RequestAbortedError('Catalog crawl was cancelled');
+    }
+  }
+}
+
+function getIndexKey(
+  subscriptionId: string,
+  location: string,
+  edgeZone?: string | null
+): string {
+  const key = `${subscriptionId}-${location}`;
+  return edgeZone ? `${key}@${edgeZone}` : key;
+}
+
+/**
+ * Find index entries matching every word of a query. Punctuation is ignored,
+ * so "ubuntu 24.04 arm64" matches Canonical's ubuntu-24_04-lts/server-arm64.
+ */
+export function searchCatalogIndex(
+  entries: CatalogIndexEntry[],
+  query: string,
+  limit = 50
+): CatalogIndexEntry[] {
+  const terms = query.split(/\s+/).map(normalize).filter(Boolean);
+  if (terms.length === 0) {
+    return [];
+  }
+
+  const results: CatalogIndexEntry[] = [];
+  for (const entry of entries) {
+    const haystack = [entry.publisher, entry.offer, entry.sku]
+      .map(normalize)
+      .join(' ');
+    if (terms.every((term) => haystack.includes(term))) {
+      results.push(entry);
+      if (results.length >= limit) {
+        break;
+      }
+    }
+  }
+  return results;
+}
+
+function normalize(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+// Factory function to create the catalog crawler
+export function createCatalogCrawler(
+  source: CatalogSource,
+  persistentCache: PersistentCache | null = null
+): CatalogCrawler {
+  return new CatalogCrawler(source, persistentCache);
+}
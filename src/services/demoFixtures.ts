@@ -0,0 +1,488 @@
+import type { AzureLocation, EdgeZone, Subscription } from '../types';
+import { DEMO_TENANT_ID } from '../config/demoMode';
+import type { ArmComputeResource } from './localResourceGraph';
+
+/**
+ * Catalog served by the offline demo mode. The demo transport turns it into
+ * the response shapes of the real ARM APIs.
+ */
+
+export interface DemoImageSku {
+  name: string;
+  // Newest first, as listed by ARM
+  versions: string[];
+  osType: 'Linux' | 'Windows';
+  hyperVGeneration?: 'V1' | 'V2';
+  architecture?: 'x64' | 'Arm64';
+  osDiskSizeInGb: number;
+  features?: { name: string; value: string }[];
+  // Image requires a purchase plan named after the SKU
+  hasPlan?: boolean;
+  imageDeprecationStatus?: {
+    imageState: 'Active' | 'ScheduledForDeprecation' | 'Deprecated';
+    scheduledDeprecationTime?: string;
+    alternativeOption?: { type: 'Offer' | 'Sku'; value: string };
+  };
+  // Only published in these regions; every region when omitted
+  locations?: string[];
+}
+
+export interface DemoOffer {
+  name: string;
+  skus: DemoImageSku[];
+}
+
+export interface DemoExtensionType {
+  name: string;
+  versions: string[];
+}
+
+export interface DemoPublisher {
+  name: string;
+  offers: DemoOffer[];
+  extensionTypes?: DemoExtensionType[];
+}
+
+export interface DemoVMSize {
+  name: string;
+  family: string;
+  vCPUs: number;
+  memoryGB: number;
+  hyperVGenerations: string;
+  architecture?: 'x64' | 'Arm64';
+  acceleratedNetworking: boolean;
+  // Only SCSI when omitted, as with older sizes
+  diskControllerTypes?: string;
+  // Not offered to the demo subscriptions in these regions
+  restrictedIn?: string[];
+}
+
+export interface DemoFixtures {
+  subscriptions: Subscription[];
+  locations: AzureLocation[];
+  edgeZones: EdgeZone[];
+  publishers: DemoPublisher[];
+  // VMs and scale sets served by the Resource Graph stand-in
+  computeResources?: ArmComputeResource[];
+  // VM sizes listed in every region by the resource SKUs API
+  vmSizes?: DemoVMSize[];
+}
+
+const PRODUCTION = '/subscriptions/de300000-0000-4000-8000-000000000001';
+const DEVELOPMENT = '/subscriptions/de300000-0000-4000-8000-000000000002';
+
+const demoVm = (
+  id: string,
+  location: string,
+  imageReference: Record<string, string>
+): ArmComputeResource => ({
+  id,
+  name: id.split('/').pop() as string,
+  type: 'Microsoft.Compute/virtualMachines',
+  location,
+  properties: { storageProfile: { imageReference } },
+});
+
+const trustedLaunch = [
+  { name: 'SecurityType', value: 'TrustedLaunchAndConfidentialVmSupported' },
+  { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+  { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+];
+
+export const DEMO_FIXTURES: DemoFixtures = {
+  subscriptions: [
+    {
+      subscriptionId: 'de300000-0000-4000-8000-000000000001',
+      displayName: 'Contoso Production (demo)',
+      state: 'Enabled',
+      tenantId: DEMO_TENANT_ID,
+    },
+    {
+      subscriptionId: 'de300000-0000-4000-8000-000000000002',
+      displayName: 'Contoso Development (demo)',
+      state: 'Enabled',
+      tenantId: DEMO_TENANT_ID,
+    },
+  ],
+  locations: [
+    {
+      name: 'eastus',
+      displayName: 'East US',
+      regionalDisplayName: '(US) East US',
+      regionType: 'Physical',
+    },
+    {
+      name: 'westus',
+      displayName: 'West US',
+      regionalDisplayName: '(US) West US',
+      regionType: 'Physical',
+    },
+    {
+      name: 'westeurope',
+      displayName: 'West Europe',
+      regionalDisplayName: '(Europe) West Europe',
+      regionType: 'Physical',
+    },
+    {
+      name: 'swedencentral',
+      displayName: 'Sweden Central',
+      regionalDisplayName: '(Europe) Sweden Central',
+      regionType: 'Physical',
+    },
+    {
+      name: 'japaneast',
+      displayName: 'Japan East',
+      regionalDisplayName: '(Asia Pacific) Japan East',
+      regionType: 'Physical',
+    },
+  ],
+  edgeZones: [
+    {
+      name: 'losangeles',
+      displayName: 'Los Angeles',
+      homeLocation: 'westus',
+    },
+  ],
+  publishers: [
+    {
+      name: 'Canonical',
+      offers: [
+        {
+          name: '0001-com-ubuntu-server-jammy',
+          skus: [
+            {
+              name: '22_04-lts',
+              versions: ['22.04.202409110', '22.04.202408130'],
+              osType: 'Linux',
+              hyperVGeneration: 'V1',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+            },
+            {
+              name: '22_04-lts-gen2',
+              versions: ['22.04.202409110', '22.04.202408130'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+              features: trustedLaunch,
+            },
+            {
+              name: '22_04-lts-arm64',
+              versions: ['22.04.202409110'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'Arm64',
+              osDiskSizeInGb: 30,
+              locations: ['eastus', 'westeurope', 'swedencentral'],
+            },
+          ],
+        },
+        {
+          name: 'ubuntu-24_04-lts',
+          skus: [
+            {
+              name: 'server',
+              versions: ['24.04.202409120', '24.04.202408210'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+              features: trustedLaunch,
+            },
+            {
+              name: 'server-arm64',
+              versions: ['24.04.202409120'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'Arm64',
+              osDiskSizeInGb: 30,
+              locations: ['eastus', 'westeurope'],
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Debian',
+      offers: [
+        {
+          name: 'debian-12',
+          skus: [
+            {
+              name: '12-gen2',
+              versions: ['0.20240901.1859', '0.20240717.1811'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+            },
+          ],
+        },
+        {
+          name: 'debian-10',
+          skus: [
+            {
+              name: '10',
+              versions: ['0.20240703.1797'],
+              osType: 'Linux',
+              hyperVGeneration: 'V1',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+              imageDeprecationStatus: {
+                imageState: 'ScheduledForDeprecation',
+                scheduledDeprecationTime: '2026-12-31T00:00:00Z',
+                alternativeOption: { type: 'Offer', value: 'debian-12' },
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'RedHat',
+      offers: [
+        {
+          name: 'RHEL',
+          skus: [
+            {
+              name: '9-lvm-gen2',
+              versions: ['9.4.2024081415', '9.4.2024061210'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 64,
+            },
+            {
+              name: '8-lvm-gen2',
+              versions: ['8.10.2024072416'],
+              osType: 'Linux',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 64,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'MicrosoftWindowsServer',
+      offers: [
+        {
+          name: 'WindowsServer',
+          skus: [
+            {
+              name: '2022-datacenter-azure-edition',
+              versions: ['20348.2700.240906', '20348.2655.240810'],
+              osType: 'Windows',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 127,
+              features: trustedLaunch,
+            },
+            {
+              name: '2019-datacenter-gensecond',
+              versions: ['17763.6293.240905'],
+              osType: 'Windows',
+              hyperVGeneration: 'V2',
+              architecture: 'x64',
+              osDiskSizeInGb: 127,
+            },
+            {
+              name: '2012-r2-datacenter',
+              versions: ['9600.21620.231004'],
+              osType: 'Windows',
+              hyperVGeneration: 'V1',
+              architecture: 'x64',
+              osDiskSizeInGb: 127,
+              imageDeprecationStatus: {
+                imageState: 'Deprecated',
+                alternativeOption: {
+                  type: 'Sku',
+                  value: '2022-datacenter-azure-edition',
+                },
+              },
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'bitnami',
+      offers: [
+        {
+          name: 'wordpress',
+          skus: [
+            {
+              name: 'default',
+              versions: ['6.6.2024090612'],
+              osType: 'Linux',
+              hyperVGeneration: 'V1',
+              architecture: 'x64',
+              osDiskSizeInGb: 30,
+              hasPlan: true,
+            },
+          ],
+        },
+      ],
+    },
+    {
+      name: 'Microsoft.Azure.Extensions',
+      offers: [],
+      extensionTypes: [
+        { name: 'CustomScript', versions: ['2.1.10', '2.1.9', '2.0.7'] },
+        { name: 'DockerExtension', versions: ['1.2.2', '1.1.1606092330'] },
+      ],
+    },
+    {
+      name: 'Microsoft.Azure.Monitor',
+      offers: [],
+      extensionTypes: [
+        { name: 'AzureMonitorLinuxAgent', versions: ['1.32.2', '1.31.1'] },
+        { name: 'AzureMonitorWindowsAgent', versions: ['1.29.0', '1.28.2'] },
+      ],
+    },
+  ],
+  vmSizes: [
+    {
+      name: 'Standard_A1_v2',
+      family: 'standardAv2Family',
+      vCPUs: 1,
+      memoryGB: 2,
+      hyperVGenerations: 'V1',
+      acceleratedNetworking: false,
+    },
+    {
+      name: 'Standard_B2s',
+      family: 'standardBSFamily',
+      vCPUs: 2,
+      memoryGB: 4,
+      hyperVGenerations: 'V1,V2',
+      acceleratedNetworking: false,
+    },
+    {
+      name: 'Standard_D2s_v5',
+      family: 'standardDSv5Family',
+      vCPUs: 2,
+      memoryGB: 8,
+      hyperVGenerations: 'V1,V2',
+      acceleratedNetworking: true,
+    },
+    {
+      name: 'Standard_D2ds_v6',
+      family: 'standardDdsv6Family',
+      vCPUs: 2,
+      memoryGB: 8,
+      hyperVGenerations: 'V2',
+      acceleratedNetworking: true,
+      diskControllerTypes: 'NVMe',
+    },
+    {
+      name: 'Standard_D2ps_v5',
+      family: 'standardDPSv5Family',
+      vCPUs: 2,
+      memoryGB: 8,
+      hyperVGenerations: 'V2',
+      architecture: 'Arm64',
+      acceleratedNetworking: true,
+    },
+    {
+      name: 'Standard_E4s_v5',
+      family: 'standardESv5Family',
+      vCPUs: 4,
+      memoryGB: 32,
+      hyperVGenerations: 'V1,V2',
+      acceleratedNetworking: true,
+      diskControllerTypes: 'SCSI, NVMe',
+    },
+    {
+      name: 'Standard_NC24ads_A100_v4',
+      family: 'StandardNCADSA100v4Family',
+      vCPUs: 24,
+      memoryGB: 220,
+      hyperVGenerations: 'V2',
+      acceleratedNetworking: true,
+      restrictedIn: ['westeurope'],
+    },
+  ],
+  computeResources: [
+    demoVm(
+      `${PRODUCTION}/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/web-01`,
+      'westeurope',
+      {
+        publisher: 'Canonical',
+        offer: 'ubuntu-24_04-lts',
+        sku: 'server',
+        version: '24.04.202408210',
+      }
+    ),
+    demoVm(
+      `${PRODUCTION}/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachines/web-02`,
+      'westeurope',
+      {
+        publisher: 'Canonical',
+        offer: 'ubuntu-24_04-lts',
+        sku: 'server',
+        version: 'latest',
+        exactVersion: '24.04.202409120',
+      }
+    ),
+    {
+      id: `${PRODUCTION}/resourceGroups/rg-web/providers/Microsoft.Compute/virtualMachineScaleSets/web-workers`,
+      name: 'web-workers',
+      type: 'Microsoft.Compute/virtualMachineScaleSets',
+      location: 'westeurope',
+      sku: { name: 'Standard_D2s_v5', capacity: 4 },
+      properties: {
+        virtualMachineProfile: {
+          storageProfile: {
+            imageReference: {
+              publisher: 'Canonical',
+              offer: '0001-com-ubuntu-server-jammy',
+              sku: '22_04-lts-gen2',
+              version: '22.04.202408130',
+            },
+          },
+        },
+      },
+    },
+    demoVm(
+      `${PRODUCTION}/resourceGroups/rg-legacy/providers/Microsoft.Compute/virtualMachines/legacy-db`,
+      'eastus',
+      {
+        publisher: 'Debian',
+        offer: 'debian-10',
+        sku: '10',
+        version: '0.20240703.1797',
+      }
+    ),
+    demoVm(
+      `${PRODUCTION}/resourceGroups/rg-legacy/providers/Microsoft.Compute/virtualMachines/custom-01`,
+      'eastus',
+      {
+        // Gallery image: not part of the marketplace inventory
+        id: `${PRODUCTION}/resourceGroups/rg-images/providers/Microsoft.Compute/galleries/contoso/images/base/versions/1.0.0`,
+      }
+    ),
+    demoVm(
+      `${DEVELOPMENT}/resourceGroups/rg-apps/providers/Microsoft.Compute/virtualMachines/win-app-01`,
+      'eastus',
+      {
+        publisher: 'MicrosoftWindowsServer',
+        offer: 'WindowsServer',
+        sku: '2022-datacenter-azure-edition',
+        version: '20348.2655.240810',
+      }
+    ),
+    demoVm(
+      `${DEVELOPMENT}/resourceGroups/rg-apps/providers/Microsoft.Compute/virtualMachines/rhel-01`,
+      'eastus',
+      {
+        publisher: 'RedHat',
+        offer: 'RHEL',
+        sku: '9-lvm-gen2',
+        version: '9.4.2024081415',
+      }
+    ),
+  ],
+};
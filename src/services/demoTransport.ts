@@ -0,0 +1,416 @@
+import type { ArmTransport } from '../utils/armTransport';
+import { sleep } from '../utils/errorHandling';
+import { DEMO_FIXTURES } from './demoFixtures';
+import type { DemoFixtures, DemoImageSku, DemoOffer } from './demoFixtures';
+import { queryImageUsageRows } from './localResourceGraph';
+
+export interface DemoTransportOptions {
+  // Simulated round trip, so loading states show up in the demo
+  latencyMs?: number;
+}
+
+type Route = (
+  match: RegExpMatchArray,
+  request: { method: string; query: URLSearchParams }
+) => unknown;
+
+const SUBSCRIPTION = '/subscriptions/([^/]+)';
+const PUBLISHERS = `${SUBSCRIPTION}/providers/Microsoft\\.Compute/locations/([^/]+)(?:/edgeZones/([^/]+))?/publishers`;
+const AGREEMENT = `${SUBSCRIPTION}/providers/Microsoft\\.MarketplaceOrdering/offerTypes/virtualmachine/publishers/([^/]+)/offers/([^/]+)/plans/([^/]+)/agreements/current`;
+
+class NotFound extends Error {}
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+function find<T extends { name: string }>(
+  items: T[],
+  name: string,
+  kind: string
+): T {
+  const item = items.find((candidate) => sameName(candidate.name, name));
+  if (!item) {
+    throw new NotFound(`${kind} '${name}' was not found`);
+  }
+  return item;
+}
+
+/**
+ * ARM transport serving the demo fixtures in the shapes of the real APIs:
+ * subscriptions, locations, the VM image and extension catalogs, marketplace
+ * agreements, VM sizes, empty gallery and managed image lists, and the image
+ * inventory query of Resource Graph. Batch calls are answered from the same
+ * routes.
+ */
+export function createDemoTransport(
+  fixtures: DemoFixtures = DEMO_FIXTURES,
+  options: DemoTransportOptions = {}
+): ArmTransport {
+  // Terms accepted during the session, keyed by publisher/offer/plan
+  const acceptedAgreements = new Set<string>();
+
+  const subscriptionOf = (id: string) => {
+    const subscription = fixtures.subscriptions.find((sub) =>
+      sameName(sub.subscriptionId, id)
+    );
+    if (!subscription) {
+      throw new NotFound(`Subscription '${id}' was not found`);
+    }
+    return subscription;
+  };
+
+  const publisherOf = (match: RegExpMatchArray, index: number) => {
+    subscriptionOf(match[1]);
+    find(fixtures.locations, match[2], 'Location');
+    return find(fixtures.publishers, match[index], 'Publisher');
+  };
+
+  const skusIn = (offer: DemoOffer, location: string) =>
+    offer.skus.filter(
+      (sku) =>
+        !sku.locations || sku.locations.some((name) => sameName(name, location))
+    );
+
+  const skuOf = (match: RegExpMatchArray): DemoImageSku => {
+    const offer = find(publisherOf(match, 4).offers, match[5], 'Offer');
+    return find(skusIn(offer, match[2]), match[6], 'SKU');
+  };
+
+  const catalogEntry = (match: RegExpMatchArray, name: string) => ({
+    name,
+    location: match[2],
+    id: `${match[0]}/${name}`,
+  });
+
+  const agreementKey = (match: RegExpMatchArray) =>
+    [match[2], match[3], match[4]].join('/').toLowerCase();
+
+  const routes: [RegExp, Route][] = [
+    [
+      /^\/subscriptions$/,
+      () => ({
+        value: fixtures.subscriptions.map((sub) => ({
+          id: `/subscriptions/${sub.subscriptionId}`,
+          ...sub,
+        })),
+      }),
+    ],
+    [
+      new RegExp(`^${SUBSCRIPTION}$`),
+      (match) => {
+        const sub = subscriptionOf(match[1]);
+        return { id: `/subscriptions/${sub.subscriptionId}`, ...sub };
+      },
+    ],
+    [
+      new RegExp(`^${SUBSCRIPTION}/locations$`),
+      (match, { query }) => {
+        subscriptionOf(match[1]);
+        const regions = fixtures.locations.map((location) => ({
+          id: `/subscriptions/${match[1]}/locations/${location.name}`,
+          name: location.name,
+          displayName: location.displayName,
+          regionalDisplayName: location.regionalDisplayName,
+          type: 'Region',
+          metadata: { regionType: location.regionType },
+        }));
+        const edgeZones =
+          query.get('includeExtendedLocations') === 'true'
+            ? fixtures.edgeZones.map((zone) => ({
+                id: `/subscriptions/${match[1]}/locations/${zone.name}`,
+                name: zone.name,
+                displayName: zone.displayName,
+                type: 'EdgeZone',
+                metadata: { homeLocation: zone.homeLocation },
+              }))
+            : [];
+        return { value: [...regions, ...edgeZones] };
+      },
+    ],
+    [
+      new RegExp(`^${PUBLISHERS}$`),
+      (match) => {
+        subscriptionOf(match[1]);
+        find(fixtures.locations, match[2], 'Location');
+        return fixtures.publishers.map((publisher) =>
+          catalogEntry(match, publisher.name)
+        );
+      },
+    ],
+    [
+      new RegExp(`^${PUBLISHERS}/([^/]+)/artifacttypes/vmimage/offers$`),
+      (match) =>
+        publisherOf(match, 4)
+          .offers.filter((offer) => skusIn(offer, match[2]).length > 0)
+          .map((offer) => catalogEntry(match, offer.name)),
+    ],
+    [
+      new RegExp(
+        `^${PUBLISHERS}/([^/]+)/artifacttypes/vmimage/offers/([^/]+)/skus$`
+      ),
+      (match) => {
+        const offer = find(publisherOf(match, 4).offers, match[5], 'Offer');
+        return skusIn(offer, match[2]).map((sku) =>
+          catalogEntry(match, sku.name)
+        );
+      },
+    ],
+    [
+      new RegExp(
+        `^${PUBLISHERS}/([^/]+)/artifacttypes/vmimage/offers/([^/]+)/skus/([^/]+)/versions$`
+      ),
+      (match) =>
+        skuOf(match).versions.map((version) => catalogEntry(match, version)),
+    ],
+    [
+      new RegExp(
+        `^${PUBLISHERS}/([^/]+)/artifacttypes/vmimage/offers/([^/]+)/skus/([^/]+)/versions/([^/]+)$`
+      ),
+      (match) => {
+        const sku = skuOf(match);
+        const version = find(
+          sku.versions.map((name) => ({ name })),
+          match[7],
+          'Version'
+        ).name;
+        return {
+          name: version,
+          location: match[2],
+          id: match[0],
+          properties: {
+            osDiskImage: {
+              operatingSystem: sku.osType,
+              sizeInGb: sku.osDiskSizeInGb,
+            },
+            dataDiskImages: [],
+            hyperVGeneration: sku.hyperVGeneration,
+            architecture: sku.architecture,
+            features: sku.features ?? [],
+            plan: sku.hasPlan
+              ? { name: sku.name, publisher: match[4], product: match[5] }
+              : undefined,
+            automaticOSUpgradeProperties: {
+              automaticOSUpgradeSupported: sku.osType === 'Windows',
+            },
+            imageDeprecationStatus: sku.imageDeprecationStatus ?? {
+              imageState: 'Active',
+            },
+          },
+        };
+      },
+    ],
+    [
+      new RegExp(`^${PUBLISHERS}/([^/]+)/artifacttypes/vmextension/types$`),
+      (match) =>
+        (publisherOf(match, 4).extensionTypes ?? []).map((type) =>
+          catalogEntry(match, type.name)
+        ),
+    ],
+    [
+      new RegExp(
+        `^${PUBLISHERS}/([^/]+)/artifacttypes/vmextension/types/([^/]+)/versions$`
+      ),
+      (match) => {
+        const publisher = publisherOf(match, 4);
+        return find(
+          publisher.extensionTypes ?? [],
+          match[5],
+          'Extension'
+        ).versions.map((version) => catalogEntry(match, version));
+      },
+    ],
+    [
+      new RegExp(`^${AGREEMENT}$`),
+      (match, { method }) => {
+        subscriptionOf(match[1]);
+        if (method === 'PUT') {
+          acceptedAgreements.add(agreementKey(match));
+        }
+        return {
+          id: match[0],
+          name: match[4],
+          type: 'Microsoft.MarketplaceOrdering/offertypes',
+          properties: {
+            publisher: match[2],
+            product: match[3],
+            plan: match[4],
+            accepted: acceptedAgreements.has(agreementKey(match)),
+            licenseTextLink: 'https://example.com/demo/license',
+            privacyPolicyLink: 'https://example.com/demo/privacy',
+            marketplaceTermsLink: 'https://example.com/demo/marketplace-terms',
+            retrieveDatetime: new Date().toISOString(),
+            signature: 'demo-signature',
+          },
+        };
+      },
+    ],
+    [
+      new RegExp(`^${SUBSCRIPTION}/providers/Microsoft\\.Compute/skus$`),
+      (match, { query }) => {
+        subscriptionOf(match[1]);
+        const location = query
+          .get('$filter')
+          ?.match(/location eq '([^']+)'/)?.[1];
+        const locations = location
+          ? [find(fixtures.locations, location, 'Location').name]
+          : fixtures.locations.map((candidate) => candidate.name);
+
+        return {
+          value: locations.flatMap((name) =>
+            (fixtures.vmSizes ?? []).map((size) => ({
+              resourceType: 'virtualMachines',
+              name: size.name,
+              tier: 'Standard',
+              size: size.name.replace(/^Standard_/, ''),
+              family: size.family,
+              locations: [name],
+              capabilities: [
+                { name: 'vCPUs', value: String(size.vCPUs) },
+                { name: 'MemoryGB', value: String(size.memoryGB) },
+                { name: 'HyperVGenerations', value: size.hyperVGenerations },
+                {
+                  name: 'CpuArchitectureType',
+                  value: size.architecture ?? 'x64',
+                },
+                {
+                  name: 'AcceleratedNetworkingEnabled',
+                  value: size.acceleratedNetworking ? 'True' : 'False',
+                },
+                ...(size.diskControllerTypes
+                  ? [
+                      {
+                        name: 'DiskControllerTypes',
+                        value: size.diskControllerTypes,
+                      },
+                    ]
+                  : []),
+              ],
+              restrictions: size.restrictedIn?.some((region) =>
+                sameName(region, name)
+              )
+                ? [
+                    {
+                      type: 'Location',
+                      values: [name],
+                      reasonCode: 'NotAvailableForSubscription',
+                    },
+                  ]
+                : [],
+            }))
+          ),
+        };
+      },
+    ],
+    [
+      // Galleries, shared and community galleries and managed images
+      new RegExp(
+        `^${SUBSCRIPTION}/(?:resourceGroups/[^/]+/)?providers/Microsoft\\.Compute/(?:galleries|images|locations/[^/]+/(?:sharedGalleries|communityGalleries)(?:/.*)?)`
+      ),
+      (match) => {
+        subscriptionOf(match[1]);
+        if (/\/communityGalleries\/[^/]+$/.test(match[0])) {
+          throw new NotFound('Community gallery was not found');
+        }
+        return { value: [] };
+      },
+    ],
+  ];
+
+  const dispatch = (
+    url: string,
+    method: string
+  ): { status: number; body: unknown } => {
+    const { pathname, searchParams } = new URL(url);
+    const request = { method: method.toUpperCase(), query: searchParams };
+
+    for (const [pattern, route] of routes) {
+      const match = pathname.match(pattern);
+      if (!match) {
+        continue;
+      }
+      try {
+        return { status: 200, body: route(match, request) };
+      } catch (error) {
+        if (error instanceof NotFound) {
+          return {
+            status: 404,
+            body: { error: { code: 'NotFound', message: error.message } },
+          };
+        }
+        throw error;
+      }
+    }
+
+    return {
+      status: 404,
+      body: {
+        error: {
+          code: 'NotFound',
+          message: `The demo mode does not serve ${pathname}`,
+        },
+      },
+    };
+  };
+
+  return async (url, init) => {
+    if (options.latencyMs) {
+      await sleep(options.latencyMs, init.signal ?? undefined);
+    }
+
+    const method = init.method || 'GET';
+    if (new URL(url).pathname === '/batch' && method === 'POST') {
+      const { requests = [] }: { requests?: DemoBatchRequest[] } = JSON.parse(
+        String(init.body ?? '{}')
+      );
+      return jsonResponse(200, {
+        responses: requests.map((request) => {
+          const { status, body } = dispatch(
+            request.url,
+            request.httpMethod || 'GET'
+          );
+          return {
+            name: request.name,
+            httpStatusCode: status,
+            headers: { 'Content-Type': 'application/json' },
+            content: body,
+          };
+        }),
+      });
+    }
+
+    if (
+      new URL(url).pathname === '/providers/Microsoft.ResourceGraph/resources'
+    ) {
+      // Every query is answered as the image inventory query
+      const { subscriptions = [] }: { subscriptions?: string[] } = JSON.parse(
+        String(init.body ?? '{}')
+      );
+      const rows = queryImageUsageRows(
+        fixtures.computeResources ?? [],
+        subscriptions
+      );
+      return jsonResponse(200, {
+        totalRecords: rows.length,
+        count: rows.length,
+        resultTruncated: 'false',
+        data: rows,
+      });
+    }
+
+    const { status, body } = dispatch(url, method);
+    return jsonResponse(status, body);
+  };
+}
+
+// Request entry of an ARM batch call
+interface DemoBatchRequest {
+  httpMethod?: string;
+  name?: string;
+  url: string;
+}
+
+function jsonResponse(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
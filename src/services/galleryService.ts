@@ -0,0 +1,329 @@
+import type {
+  Gallery,
+  GalleryImageDefinition,
+  GalleryImageVersion,
+} from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const GALLERY_API_VERSION = '2023-07-03';
+
+// Cache interface for API responses
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+interface GalleryCache {
+  galleries: Map<string, CacheEntry<Gallery[]>>;
+  imageDefinitions: Map<string, CacheEntry<GalleryImageDefinition[]>>;
+  imageVersions: Map<string, CacheEntry<GalleryImageVersion[]>>;
+}
+
+// Service configuration
+interface GalleryServiceConfig {
+  cacheTTL: number;
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: GalleryServiceConfig = {
+  cacheTTL: 300000, // 5 minutes
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+export class GalleryServiceError extends AppError {
+  readonly code = 'GALLERY_SERVICE_ERROR';
+  readonly userMessage =
+    'Failed to load Azure Compute Gallery data. Please try again.';
+  readonly retryable = true;
+}
+
+const invalidListResponse = (data: unknown): Error =>
+  new GalleryServiceError(
+    `Invalid response format from galleries API. Response: ${JSON.stringify(data)}`
+  );
+
+// Raw shapes returned by the Microsoft.Compute/galleries APIs
+interface ArmGallery {
+  id?: string;
+  name?: string;
+  location?: string;
+  properties?: { description?: string };
+}
+
+interface ArmGalleryImage {
+  id?: string;
+  name?: string;
+  location?: string;
+  properties?: {
+    description?: string;
+    osType?: string;
+    osState?: string;
+    hyperVGeneration?: string;
+    architecture?: string;
+    endOfLifeDate?: string;
+    identifier?: { publisher?: string; offer?: string; sku?: string };
+    purchasePlan?: { name?: string; publisher?: string; product?: string };
+  };
+}
+
+interface ArmGalleryImageVersion {
+  id?: string;
+  name?: string;
+  location?: string;
+  properties?: {
+    provisioningState?: string;
+    publishingProfile?: {
+      publishedDate?: string;
+      endOfLifeDate?: string;
+      excludeFromLatest?: boolean;
+      targetRegions?: { name?: string }[];
+    };
+  };
+}
+
+/**
+ * Service for browsing Azure Compute Galleries (formerly Shared Image
+ * Galleries): gallery -> image definition -> image version
+ */
+export class GalleryService {
+  private armClient: ArmClient;
+  private config: GalleryServiceConfig;
+  private circuitBreaker: CircuitBreaker;
+  private cache: GalleryCache;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: GalleryServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.config = config;
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+    this.cache = {
+      galleries: new Map(),
+      imageDefinitions: new Map(),
+      imageVersions: new Map(),
+    };
+  }
+
+  /**
+   * Get all galleries in a subscription
+   */
+  async getGalleries(subscriptionId: string): Promise<Gallery[]> {
+    if (!subscriptionId) {
+      throw new GalleryServiceError('Subscription ID is required');
+    }
+
+    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/galleries?api-version=${GALLERY_API_VERSION}`;
+
+    return this.getCachedList(
+      this.cache.galleries,
+      subscriptionId,
+      async () => {
+        const galleries = await this.armClient.getAllPages<ArmGallery>(
+          url,
+          invalidListResponse
+        );
+        return galleries
+          .filter((gallery) => gallery.id && gallery.name)
+          .map(
+            (gallery): Gallery => ({
+              name: gallery.name as string,
+              id: gallery.id as string,
+              location: gallery.location || '',
+              resourceGroup: getResourceGroupFromId(gallery.id as string),
+              description: gallery.properties?.description,
+            })
+          );
+      }
+    );
+  }
+
+  /**
+   * Get all image definitions of a gallery
+   */
+  async getImageDefinitions(
+    subscriptionId: string,
+    resourceGroup: string,
+    galleryName: string
+  ): Promise<GalleryImageDefinition[]> {
+    if (!subscriptionId || !resourceGroup || !galleryName) {
+      throw new GalleryServiceError(
+        'Subscription ID, resource group, and gallery name are required'
+      );
+    }
+
+    const url = `${this.getGalleryUrl(subscriptionId, resourceGroup, galleryName)}/images?api-version=${GALLERY_API_VERSION}`;
+    const cacheKey = `${subscriptionId}-${resourceGroup}-${galleryName}`;
+
+    return this.getCachedList(
+      this.cache.imageDefinitions,
+      cacheKey,
+      async () => {
+        const images = await this.armClient.getAllPages<ArmGalleryImage>(
+          url,
+          invalidListResponse
+        );
+        return images
+          .filter((image) => image.id && image.name)
+          .map((image) =>
+            mapImageDefinition(image, galleryName, resourceGroup)
+          );
+      }
+    );
+  }
+
+  /**
+   * Get all versions of a gallery image definition, newest first
+   */
+  async getImageVersions(
+    subscriptionId: string,
+    resourceGroup: string,
+    galleryName: string,
+    imageName: string
+  ): Promise<GalleryImageVersion[]> {
+    if (!subscriptionId || !resourceGroup || !galleryName || !imageName) {
+      throw new GalleryServiceError(
+        'Subscription ID, resource group, gallery name, and image name are required'
+      );
+    }
+
+    const url = `${this.getGalleryUrl(subscriptionId, resourceGroup, galleryName)}/images/${imageName}/versions?api-version=${GALLERY_API_VERSION}`;
+    const cacheKey = `${subscriptionId}-${resourceGroup}-${galleryName}-${imageName}`;
+
+    return this.getCachedList(this.cache.imageVersions, cacheKey, async () => {
+      const versions = await this.armClient.getAllPages<ArmGalleryImageVersion>(
+        url,
+        invalidListResponse
+      );
+      return versions
+        .filter((version) => version.id && version.name)
+        .map(mapImageVersion)
+        .sort((a, b) =>
+          b.name.localeCompare(a.name, undefined, { numeric: true })
+        );
+    });
+  }
+
+  /**
+   * Clear all cached gallery data
+   */
+  clearCache(): void {
+    this.cache.galleries.clear();
+    this.cache.imageDefinitions.clear();
+    this.cache.imageVersions.clear();
+  }
+
+  private getGalleryUrl(
+    subscriptionId: string,
+    resourceGroup: string,
+    galleryName: string
+  ): string {
+    return `${ARM_BASE_URL}/subscriptions/${subscriptionId}/resourceGroups/${resourceGroup}/providers/Microsoft.Compute/galleries/${galleryName}`;
+  }
+
+  /**
+   * Serve a list from cache or load it through the circuit breaker
+   */
+  private async getCachedList<T>(
+    cache: Map<string, CacheEntry<T[]>>,
+    key: string,
+    load: () => Promise<T[]>
+  ): Promise<T[]> {
+    const entry = cache.get(key);
+    if (entry && Date.now() - entry.timestamp <= entry.ttl) {
+      return entry.data;
+    }
+
+    const data = await this.circuitBreaker.execute(load);
+    cache.set(key, { data, timestamp: Date.now(), ttl: this.config.cacheTTL });
+    return data;
+  }
+}
+
+/**
+ * Extract the resource group from an ARM resource ID
+ */
+function getResourceGroupFromId(id: string): string {
+  const match = id.match(/\/resourceGroups\/([^/]+)/i);
+  return match ? match[1] : '';
+}
+
+/**
+ * Map a raw gallery image resource into the image definition model
+ */
+function mapImageDefinition(
+  image: ArmGalleryImage,
+  galleryName: string,
+  resourceGroup: string
+): GalleryImageDefinition {
+  const properties = image.properties || {};
+  const plan = properties.purchasePlan;
+
+  return {
+    name: image.name as string,
+    id: image.id as string,
+    galleryName,
+    resourceGroup,
+    location: image.location || '',
+    osType: properties.osType || 'Unknown',
+    osState: properties.osState || 'Unknown',
+    hyperVGeneration: properties.hyperVGeneration,
+    architecture: properties.architecture,
+    identifier: {
+      publisher: properties.identifier?.publisher || '',
+      offer: properties.identifier?.offer || '',
+      sku: properties.identifier?.sku || '',
+    },
+    description: properties.description,
+    endOfLifeDate: properties.endOfLifeDate,
+    purchasePlan:
+      plan && plan.name && plan.publisher && plan.product
+        ? { name: plan.name, publisher: plan.publisher, product: plan.product }
+        : null,
+  };
+}
+
+/**
+ * Map a raw gallery image version resource into the version model
+ */
+function mapImageVersion(version: ArmGalleryImageVersion): GalleryImageVersion {
+  const profile = version.properties?.publishingProfile || {};
+
+  return {
+    name: version.name as string,
+    id: version.id as string,
+    location: version.location || '',
+    publishedDate: profile.publishedDate,
+    endOfLifeDate: profile.endOfLifeDate,
+    excludeFromLatest: !!profile.excludeFromLatest,
+    provisioningState: version.properties?.provisioningState,
+    targetRegions: (profile.targetRegions || [])
+      .map((region) => region.name)
+      .filter((name): name is string => !!name),
+  };
+}
+
+// Factory function to create gallery service
+export function createGalleryService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): GalleryService {
+  return new GalleryService(tokenProvider, undefined, rateLimiter);
+}
@@ -3,6 +3,8 @@ export {
   SubscriptionService,
   SubscriptionServiceError,
   MSALTokenProvider,
+  DemoTokenProvider,
+  createTokenProvider,
   createSubscriptionService,
   createTenantAwareSubscriptionService,
   type TokenProvider,
@@ -14,4 +16,90 @@ export {
   VMImagesServiceError,
   createVMImagesService,
   vmImagesService,
-} from './vmImagesService';
\ No newline at end of file
+  type SKUReference,
+} from './vmImagesService';
+
+// Export shared ARM request client
+export { ArmClient, ARM_BASE_URL, type ArmListResponse } from './armClient';
+
+// Export ARM batch client
+export {
+  ArmBatchClient,
+  ArmBatchError,
+  createArmBatchClient,
+  type ArmBatchResult,
+} from './armBatch';
+
+// Export marketplace terms service
+export {
+  MarketplaceTermsService,
+  MarketplaceTermsServiceError,
+  createMarketplaceTermsService,
+} from './marketplaceTermsService';
+
+// Export Azure Compute Gallery service
+export {
+  GalleryService,
+  GalleryServiceError,
+  createGalleryService,
+} from './galleryService';
+
+// Export community and direct-shared gallery service
+export {
+  SharedGalleryService,
+  SharedGalleryServiceError,
+  createSharedGalleryService,
+} from './sharedGalleryService';
+
+// Export managed image service
+export {
+  ManagedImageService,
+  ManagedImageServiceError,
+  createManagedImageService,
+} from './managedImageService';
+
+// Export Resource Graph service and its local stand-in
+export {
+  ResourceGraphService,
+  ResourceGraphServiceError,
+  createResourceGraphService,
+  aggregateImageUsage,
+  buildFleetReport,
+  getImageUsageKey,
+  getRunningVersion,
+  IMAGE_USAGE_QUERY,
+  type ImageUsageSource,
+} from './resourceGraphService';
+export { LocalResourceGraph } from './localResourceGraph';
+export type { ArmComputeResource } from './localResourceGraph';
+
+// Export VM size (resource SKU) service
+export {
+  ResourceSkuService,
+  ResourceSkuServiceError,
+  createResourceSkuService,
+} from './resourceSkuService';
+
+// Export catalog crawler
+export {
+  CatalogCrawler,
+  CatalogCrawlerError,
+  createCatalogCrawler,
+  searchCatalogIndex,
+} from './catalogCrawler';
+
+// Export offline demo mode transport
+export { createDemoTransport } from './demoTransport';
+export { DEMO_FIXTURES } from './demoFixtures';
+export type { DemoFixtures } from './demoFixtures';
+
+// Export ARM traffic record and replay
+export {
+  ArmTrafficRecorder,
+  ArmRecordingError,
+  armTrafficRecorder,
+  createReplayTransport,
+  parseRecordingBundle,
+  redactSecrets,
+} from './armRecorder';
+export type { ArmRecordingBundle, ArmRecordedExchange } from './armRecorder';
@@ -0,0 +1,117 @@
+import type { ImageUsageRecord } from '../types';
+import { RequestAbortedError } from '../utils/errorHandling';
+import { mapImageUsageRow } from './resourceGraphService';
+import type { ImageUsageRow, ImageUsageSource } from './resourceGraphService';
+
+/**
+ * Local stand-in for Azure Resource Graph, for tests and the demo mode. It
+ * evaluates IMAGE_USAGE_QUERY in memory over VM and scale set resources in
+ * the shape the Compute API returns them.
+ */
+
+interface ArmImageReference {
+  publisher?: string;
+  offer?: string;
+  sku?: string;
+  version?: string;
+  exactVersion?: string;
+  // Gallery and managed images carry an ID instead
+  id?: string;
+}
+
+export interface ArmComputeResource {
+  id: string;
+  name: string;
+  type: string;
+  location: string;
+  sku?: { name?: string; capacity?: number };
+  properties?: {
+    storageProfile?: { imageReference?: ArmImageReference };
+    virtualMachineProfile?: {
+      storageProfile?: { imageReference?: ArmImageReference };
+    };
+  };
+}
+
+const VIRTUAL_MACHINES = 'microsoft.compute/virtualmachines';
+const SCALE_SETS = 'microsoft.compute/virtualmachinescalesets';
+
+/**
+ * The IMAGE_USAGE_QUERY row of a resource; null for resources the query
+ * filters out (other types, images not from the marketplace)
+ */
+export function projectImageUsageRow(
+  resource: ArmComputeResource
+): ImageUsageRow | null {
+  const type = resource.type.toLowerCase();
+  if (type !== VIRTUAL_MACHINES && type !== SCALE_SETS) {
+    return null;
+  }
+
+  const imageReference =
+    type === VIRTUAL_MACHINES
+      ? resource.properties?.storageProfile?.imageReference
+      : resource.properties?.virtualMachineProfile?.storageProfile
+          ?.imageReference;
+  if (!imageReference?.publisher) {
+    return null;
+  }
+
+  const [, subscriptionId = '', resourceGroup = ''] =
+    resource.id.match(/\/subscriptions\/([^/]+)\/resourceGroups\/([^/]+)/i) ??
+    [];
+
+  return {
+    id: resource.id,
+    name: resource.name,
+    type,
+    subscriptionId,
+    // Resource Graph reports resource groups in lower case
+    resourceGroup: resourceGroup.toLowerCase(),
+    location: resource.location,
+    publisher: imageReference.publisher,
+    offer: imageReference.offer ?? '',
+    sku: imageReference.sku ?? '',
+    version: imageReference.version ?? '',
+    exactVersion: imageReference.exactVersion ?? '',
+    capacity: resource.sku?.capacity ?? null,
+  };
+}
+
+export class LocalResourceGraph implements ImageUsageSource {
+  private resources: ArmComputeResource[];
+
+  constructor(resources: ArmComputeResource[] = []) {
+    this.resources = resources;
+  }
+
+  async getImageUsage(
+    subscriptionIds: string[],
+    signal?: AbortSignal
+  ): Promise<ImageUsageRecord[]> {
+    if (signal?.aborted) {
+      throw new RequestAbortedError('Request was aborted');
+    }
+    return queryImageUsageRows(this.resources, subscriptionIds).map(
+      mapImageUsageRow
+    );
+  }
+}
+
+/**
+ * IMAGE_USAGE_QUERY over in-memory resources of the given subscriptions
+ */
+export function queryImageUsageRows(
+  resources: ArmComputeResource[],
+  subscriptionIds: string[]
+): ImageUsageRow[] {
+  const subscriptions = new Set(subscriptionIds.map((id) => id.toLowerCase()));
+
+  return resources
+    .map(projectImageUsageRow)
+    .filter(
+      (row): row is ImageUsageRow =>
+        !!row && subscriptions.has(row.subscriptionId.toLowerCase())
+    )
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
@@ -0,0 +1,200 @@
+import type { ManagedImage, ManagedImageSource } from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const IMAGES_API_VERSION = '2024-07-01';
+
+// Cache interface for API responses
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+// Service configuration
+interface ManagedImageServiceConfig {
+  cacheTTL: number;
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: ManagedImageServiceConfig = {
+  cacheTTL: 300000, // 5 minutes
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+export class ManagedImageServiceError extends AppError {
+  readonly code = 'MANAGED_IMAGE_SERVICE_ERROR';
+  readonly userMessage = 'Failed to load managed images. Please try again.';
+  readonly retryable = true;
+}
+
+const invalidListResponse = (data: unknown): Error =>
+  new ManagedImageServiceError(
+    `Invalid response format from images API. Response: ${JSON.stringify(data)}`
+  );
+
+// Raw shapes returned by the Microsoft.Compute/images API
+interface ArmSubResource {
+  id?: string;
+}
+
+interface ArmManagedImage {
+  id?: string;
+  name?: string;
+  location?: string;
+  properties?: {
+    provisioningState?: string;
+    hyperVGeneration?: string;
+    sourceVirtualMachine?: ArmSubResource;
+    storageProfile?: {
+      zoneResilient?: boolean;
+      osDisk?: {
+        osType?: string;
+        osState?: string;
+        managedDisk?: ArmSubResource;
+        snapshot?: ArmSubResource;
+        blobUri?: string;
+      };
+    };
+  };
+}
+
+/**
+ * Service for listing the classic managed images (Microsoft.Compute/images)
+ * of a subscription
+ */
+export class ManagedImageService {
+  private armClient: ArmClient;
+  private config: ManagedImageServiceConfig;
+  private circuitBreaker: CircuitBreaker;
+  private cache: Map<string, CacheEntry<ManagedImage[]>>;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: ManagedImageServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.config = config;
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+    this.cache = new Map();
+  }
+
+  /**
+   * Get all managed images across the resource groups of a subscription
+   */
+  async getManagedImages(subscriptionId: string): Promise<ManagedImage[]> {
+    if (!subscriptionId) {
+      throw new ManagedImageServiceError('Subscription ID is required');
+    }
+
+    const entry = this.cache.get(subscriptionId);
+    if (entry && Date.now() - entry.timestamp <= entry.ttl) {
+      return entry.data;
+    }
+
+    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/images?api-version=${IMAGES_API_VERSION}`;
+
+    const images = await this.circuitBreaker.execute(async () => {
+      const items = await this.armClient.getAllPages<ArmManagedImage>(
+        url,
+        invalidListResponse
+      );
+      return items
+        .filter((image) => image.id && image.name)
+        .map(mapManagedImage)
+        .sort((a, b) => a.name.localeCompare(b.name));
+    });
+
+    this.cache.set(subscriptionId, {
+      data: images,
+      timestamp: Date.now(),
+      ttl: this.config.cacheTTL,
+    });
+    return images;
+  }
+
+  /**
+   * Clear all cached managed image data
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Extract the resource group from an ARM resource ID
+ */
+function getResourceGroupFromId(id: string): string {
+  const match = id.match(/\/resourceGroups\/([^/]+)/i);
+  return match ? match[1] : '';
+}
+
+/**
+ * Determine what a managed image was captured from: a generalized VM, or
+ * the managed disk, snapshot or VHD blob behind its OS disk
+ */
+function getImageSource(image: ArmManagedImage): ManagedImageSource | null {
+  const properties = image.properties || {};
+  const osDisk = properties.storageProfile?.osDisk || {};
+
+  if (properties.sourceVirtualMachine?.id) {
+    return {
+      type: 'VirtualMachine',
+      value: properties.sourceVirtualMachine.id,
+    };
+  }
+  if (osDisk.managedDisk?.id) {
+    return { type: 'ManagedDisk', value: osDisk.managedDisk.id };
+  }
+  if (osDisk.snapshot?.id) {
+    return { type: 'Snapshot', value: osDisk.snapshot.id };
+  }
+  if (osDisk.blobUri) {
+    return { type: 'Blob', value: osDisk.blobUri };
+  }
+  return null;
+}
+
+/**
+ * Map a raw image resource into the managed image model
+ */
+function mapManagedImage(image: ArmManagedImage): ManagedImage {
+  const properties = image.properties || {};
+  const storageProfile = properties.storageProfile || {};
+
+  return {
+    name: image.name as string,
+    id: image.id as string,
+    location: image.location || '',
+    resourceGroup: getResourceGroupFromId(image.id as string),
+    osType: storageProfile.osDisk?.osType || 'Unknown',
+    osState: storageProfile.osDisk?.osState || 'Unknown',
+    hyperVGeneration: properties.hyperVGeneration,
+    source: getImageSource(image),
+    zoneResilient: !!storageProfile.zoneResilient,
+    provisioningState: properties.provisioningState,
+  };
+}
+
+// Factory function to create managed image service
+export function createManagedImageService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): ManagedImageService {
+  return new ManagedImageService(tokenProvider, undefined, rateLimiter);
+}
@@ -0,0 +1,175 @@
+import type { MarketplaceAgreement, PurchasePlan } from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const MARKETPLACE_ORDERING_API_VERSION = '2021-01-01';
+
+export class MarketplaceTermsServiceError extends AppError {
+  readonly code = 'MARKETPLACE_TERMS_SERVICE_ERROR';
+  readonly userMessage =
+    'Failed to access marketplace terms. Please try again.';
+  readonly retryable = true;
+}
+
+// Service configuration
+interface MarketplaceTermsServiceConfig {
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: MarketplaceTermsServiceConfig = {
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+// Raw agreement resource returned (and accepted back) by MarketplaceOrdering
+interface ArmAgreementResponse {
+  id?: string;
+  name?: string;
+  type?: string;
+  properties?: {
+    publisher?: string;
+    product?: string;
+    plan?: string;
+    accepted?: boolean;
+    licenseTextLink?: string;
+    privacyPolicyLink?: string;
+    marketplaceTermsLink?: string;
+    retrieveDatetime?: string;
+    signature?: string;
+  };
+}
+
+/**
+ * Service for the marketplace terms agreements of VM image purchase plans
+ */
+export class MarketplaceTermsService {
+  private armClient: ArmClient;
+  private circuitBreaker: CircuitBreaker;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: MarketplaceTermsServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+  }
+
+  /**
+   * Get the current terms agreement for a purchase plan in a subscription
+   */
+  async getAgreement(
+    subscriptionId: string,
+    plan: PurchasePlan
+  ): Promise<MarketplaceAgreement> {
+    this.validate(subscriptionId, plan);
+
+    return this.circuitBreaker.execute(async () => {
+      const data = await this.fetchAgreement(subscriptionId, plan);
+      return mapAgreement(data, plan);
+    });
+  }
+
+  /**
+   * Accept the terms for a purchase plan in a subscription.
+   * ARM requires the signed agreement from a fresh GET to be sent back.
+   */
+  async acceptAgreement(
+    subscriptionId: string,
+    plan: PurchasePlan
+  ): Promise<MarketplaceAgreement> {
+    this.validate(subscriptionId, plan);
+
+    return this.circuitBreaker.execute(async () => {
+      const current = await this.fetchAgreement(subscriptionId, plan);
+      if (current.properties?.accepted) {
+        return mapAgreement(current, plan);
+      }
+
+      const response = await this.armClient.request(
+        this.getAgreementUrl(subscriptionId, plan),
+        {
+          method: 'PUT',
+          body: JSON.stringify({
+            ...current,
+            properties: { ...current.properties, accepted: true },
+          }),
+        }
+      );
+      const data: ArmAgreementResponse = await response.json();
+      return mapAgreement(data, plan);
+    });
+  }
+
+  private validate(subscriptionId: string, plan: PurchasePlan): void {
+    if (!subscriptionId || !plan?.publisher || !plan.product || !plan.name) {
+      throw new MarketplaceTermsServiceError(
+        'Subscription ID and a complete purchase plan are required'
+      );
+    }
+  }
+
+  private getAgreementUrl(subscriptionId: string, plan: PurchasePlan): string {
+    return `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.MarketplaceOrdering/offerTypes/virtualmachine/publishers/${plan.publisher}/offers/${plan.product}/plans/${plan.name}/agreements/current?api-version=${MARKETPLACE_ORDERING_API_VERSION}`;
+  }
+
+  private async fetchAgreement(
+    subscriptionId: string,
+    plan: PurchasePlan
+  ): Promise<ArmAgreementResponse> {
+    const response = await this.armClient.request(
+      this.getAgreementUrl(subscriptionId, plan)
+    );
+    const data: ArmAgreementResponse = await response.json();
+
+    if (!data || !data.properties) {
+      throw new MarketplaceTermsServiceError(
+        `Invalid response format from marketplace agreements API. Response: ${JSON.stringify(data)}`
+      );
+    }
+
+    return data;
+  }
+}
+
+/**
+ * Map the raw agreement resource into the app model
+ */
+function mapAgreement(
+  data: ArmAgreementResponse,
+  plan: PurchasePlan
+): MarketplaceAgreement {
+  const properties = data.properties || {};
+
+  return {
+    publisher: properties.publisher || plan.publisher,
+    product: properties.product || plan.product,
+    plan: properties.plan || plan.name,
+    accepted: !!properties.accepted,
+    licenseTextLink: properties.licenseTextLink,
+    privacyPolicyLink: properties.privacyPolicyLink,
+    marketplaceTermsLink: properties.marketplaceTermsLink,
+    retrieveDatetime: properties.retrieveDatetime,
+  };
+}
+
+// Factory function to create marketplace terms service
+export function createMarketplaceTermsService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): MarketplaceTermsService {
+  return new MarketplaceTermsService(tokenProvider, undefined, rateLimiter);
+}
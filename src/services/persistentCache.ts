@@ -0,0 +1,137 @@
+/**
+ * Persistent cache backend for API responses, so image catalogs survive
+ * page reloads and subscription switches. Entries are scoped per tenant.
+ */
+
+// A cached value with the time it was loaded
+export interface PersistedEntry<T> {
+  data: T;
+  timestamp: number;
+}
+
+export interface PersistentCache {
+  get<T>(store: string, key: string): Promise<PersistedEntry<T> | null>;
+  set<T>(store: string, key: string, data: T): Promise<void>;
+  clear(): Promise<void>;
+}
+
+const DB_NAME = 'vmib-cache';
+const DB_VERSION = 1;
+const ENTRIES_STORE = 'entries';
+
+interface StoredRecord {
+  key: string;
+  data: unknown;
+  timestamp: number;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function openDatabase(onClose: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(ENTRIES_STORE)) {
+        request.result.createObjectStore(ENTRIES_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let clearPersistentCache delete the database instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        onClose();
+      };
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * IndexedDB-backed cache. Keys are prefixed with the tenant ID, so the
+ * entries of one tenant are never served to another.
+ */
+export class IndexedDBCache implements PersistentCache {
+  private tenantId: string;
+  private db: Promise<IDBDatabase> | null = null;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async get<T>(store: string, key: string): Promise<PersistedEntry<T> | null> {
+    const record = await this.withStore<StoredRecord | undefined>(
+      'readonly',
+      (entries) => entries.get(this.getKey(store, key))
+    );
+    return record
+      ? { data: record.data as T, timestamp: record.timestamp }
+      : null;
+  }
+
+  async set<T>(store: string, key: string, data: T): Promise<void> {
+    const record: StoredRecord = {
+      key: this.getKey(store, key),
+      data,
+      timestamp: Date.now(),
+    };
+    await this.withStore('readwrite', (entries) => entries.put(record));
+  }
+
+  /**
+   * Remove every entry of this tenant
+   */
+  async clear(): Promise<void> {
+    const prefix = `${this.tenantId}/`;
+    await this.withStore('readwrite', (entries) =>
+      entries.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+    );
+  }
+
+  private getKey(store: string, key: string): string {
+    return `${this.tenantId}/${store}/${key}`;
+  }
+
+  private async withStore<T>(
+    mode: IDBTransactionMode,
+    run: (entries: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> {
+    if (!this.db) {
+      this.db = openDatabase(() => {
+        this.db = null;
+      });
+    }
+    const db = await this.db;
+    const transaction = db.transaction(ENTRIES_STORE, mode);
+    return promisifyRequest(run(transaction.objectStore(ENTRIES_STORE)));
+  }
+}
+
+/**
+ * Create the persistent cache of a tenant, or null when the tenant is unknown
+ * or IndexedDB is not available (some private browsing modes, tests)
+ */
+export function createPersistentCache(
+  tenantId?: string
+): PersistentCache | null {
+  if (typeof indexedDB === 'undefined' || !tenantId) {
+    return null;
+  }
+  return new IndexedDBCache(tenantId);
+}
+
+/**
+ * Delete the cached data of all tenants, e.g. on logout
+ */
+export async function clearPersistentCache(): Promise<void> {
+  if (typeof indexedDB === 'undefined') {
+    return;
+  }
+  await promisifyRequest(indexedDB.deleteDatabase(DB_NAME));
+}
@@ -0,0 +1,288 @@
+import type {
+  FleetReportEntry,
+  ImageUsageRecord,
+  SKUImageUsage,
+} from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { compareImageVersions } from '../utils/imageVersion';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const RESOURCE_GRAPH_API_VERSION = '2022-10-01';
+
+// Rows per Resource Graph page; the service maximum
+const PAGE_SIZE = 1000;
+
+/**
+ * Marketplace image references of every VM and scale set. VMs deployed from
+ * 'latest' report the version they run as exactVersion.
+ */
+export const IMAGE_USAGE_QUERY = `resources
+| where type =~ 'microsoft.compute/virtualmachines' or type =~ 'microsoft.compute/virtualmachinescalesets'
+| extend imageReference = iff(type =~ 'microsoft.compute/virtualmachines', properties.storageProfile.imageReference, properties.virtualMachineProfile.storageProfile.imageReference)
+| where isnotempty(imageReference.publisher)
+| extend capacity = toint(sku.capacity)
+| project id, name, type, subscriptionId, resourceGroup, location, publisher = tostring(imageReference.publisher), offer = tostring(imageReference.offer), sku = tostring(imageReference.sku), version = tostring(imageReference.version), exactVersion = tostring(imageReference.exactVersion), capacity
+| order by id asc`;
+
+// Service configuration
+interface ResourceGraphServiceConfig {
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: ResourceGraphServiceConfig = {
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+export class ResourceGraphServiceError extends AppError {
+  readonly code = 'RESOURCE_GRAPH_SERVICE_ERROR';
+  readonly userMessage =
+    'Failed to load the VM image inventory. Please try again.';
+  readonly retryable = true;
+}
+
+// Where the image inventory comes from: Resource Graph, or a local stand-in
+export interface ImageUsageSource {
+  getImageUsage(
+    subscriptionIds: string[],
+    signal?: AbortSignal
+  ): Promise<ImageUsageRecord[]>;
+}
+
+// Row shape of IMAGE_USAGE_QUERY
+export interface ImageUsageRow {
+  id: string;
+  name: string;
+  type: string;
+  subscriptionId: string;
+  resourceGroup: string;
+  location: string;
+  publisher: string;
+  offer: string;
+  sku: string;
+  version: string;
+  exactVersion: string;
+  capacity: number | null;
+}
+
+// Raw response of the Resource Graph resources API
+interface ResourceGraphResponse<T> {
+  data?: T[];
+  $skipToken?: string;
+}
+
+/**
+ * Service for Azure Resource Graph queries across subscriptions
+ */
+export class ResourceGraphService implements ImageUsageSource {
+  private armClient: ArmClient;
+  private circuitBreaker: CircuitBreaker;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: ResourceGraphServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+  }
+
+  /**
+   * Run a query over the given subscriptions and return every row,
+   * following $skipToken across pages
+   */
+  async query<T>(
+    query: string,
+    subscriptionIds: string[],
+    signal?: AbortSignal
+  ): Promise<T[]> {
+    if (subscriptionIds.length === 0) {
+      throw new ResourceGraphServiceError(
+        'At least one subscription ID is required'
+      );
+    }
+
+    const url = `${ARM_BASE_URL}/providers/Microsoft.ResourceGraph/resources?api-version=${RESOURCE_GRAPH_API_VERSION}`;
+
+    return this.circuitBreaker.execute(async () => {
+      const rows: T[] = [];
+      let skipToken: string | undefined;
+
+      do {
+        const response = await this.armClient.request(url, {
+          method: 'POST',
+          body: JSON.stringify({
+            subscriptions: subscriptionIds,
+            query,
+            options: {
+              resultFormat: 'objectArray',
+              $top: PAGE_SIZE,
+              ...(skipToken ? { $skipToken: skipToken } : {}),
+            },
+          }),
+          signal,
+        });
+        const data: ResourceGraphResponse<T> = await response.json();
+
+        if (!data || !Array.isArray(data.data)) {
+          throw new ResourceGraphServiceError(
+            `Invalid response format from Resource Graph API. Response: ${JSON.stringify(data)}`
+          );
+        }
+
+        rows.push(...data.data);
+        skipToken = data.$skipToken;
+      } while (skipToken);
+
+      return rows;
+    });
+  }
+
+  /**
+   * Get the marketplace images of the VMs and scale sets of the given
+   * subscriptions
+   */
+  async getImageUsage(
+    subscriptionIds: string[],
+    signal?: AbortSignal
+  ): Promise<ImageUsageRecord[]> {
+    const rows = await this.query<ImageUsageRow>(
+      IMAGE_USAGE_QUERY,
+      subscriptionIds,
+      signal
+    );
+    return rows.map(mapImageUsageRow);
+  }
+}
+
+/**
+ * Map a row of IMAGE_USAGE_QUERY into the usage model
+ */
+export function mapImageUsageRow(row: ImageUsageRow): ImageUsageRecord {
+  const isScaleSet = /virtualmachinescalesets$/i.test(row.type);
+
+  return {
+    id: row.id,
+    name: row.name,
+    resourceType: isScaleSet ? 'VirtualMachineScaleSet' : 'VirtualMachine',
+    subscriptionId: row.subscriptionId,
+    resourceGroup: row.resourceGroup,
+    location: row.location,
+    publisher: row.publisher,
+    offer: row.offer,
+    sku: row.sku,
+    version: row.version || 'latest',
+    exactVersion: row.exactVersion || undefined,
+    instanceCount: isScaleSet ? (row.capacity ?? 0) : 1,
+  };
+}
+
+/**
+ * Key of a marketplace SKU; Resource Graph keeps the casing used at deploy
+ * time, so keys are case-insensitive
+ */
+export function getImageUsageKey(
+  publisher: string,
+  offer: string,
+  sku: string
+): string {
+  return `${publisher}/${offer}/${sku}`.toLowerCase();
+}
+
+/**
+ * The version a VM runs: the deployed version, or the exact version ARM
+ * reports for VMs deployed from 'latest'; null when unknown
+ */
+export function getRunningVersion(record: ImageUsageRecord): string | null {
+  if (record.version && record.version.toLowerCase() !== 'latest') {
+    return record.version;
+  }
+  return record.exactVersion ?? null;
+}
+
+/**
+ * Count the VMs (scale set instances included) per SKU and version, keyed
+ * by getImageUsageKey
+ */
+export function aggregateImageUsage(
+  records: ImageUsageRecord[]
+): Map<string, SKUImageUsage> {
+  const usage = new Map<string, SKUImageUsage>();
+
+  records.forEach((record) => {
+    const key = getImageUsageKey(record.publisher, record.offer, record.sku);
+    const entry = usage.get(key) ?? {
+      publisher: record.publisher,
+      offer: record.offer,
+      sku: record.sku,
+      vmCount: 0,
+      versions: [],
+      resources: [],
+    };
+    const version = getRunningVersion(record) ?? 'unknown';
+    const versionUsage = entry.versions.find(
+      (candidate) => candidate.version === version
+    );
+
+    if (versionUsage) {
+      versionUsage.vmCount += record.instanceCount;
+    } else {
+      entry.versions.push({ version, vmCount: record.instanceCount });
+    }
+    entry.vmCount += record.instanceCount;
+    entry.resources.push(record);
+    usage.set(key, entry);
+  });
+
+  usage.forEach((entry) => {
+    entry.versions.sort((a, b) => compareImageVersions(a.version, b.version));
+  });
+  return usage;
+}
+
+/**
+ * Compare each VM's running version with the latest version of its SKU in
+ * its region. latestVersionOf returns null when the latest is unknown.
+ */
+export function buildFleetReport(
+  records: ImageUsageRecord[],
+  latestVersionOf: (record: ImageUsageRecord) => string | null
+): FleetReportEntry[] {
+  return records.map((resource) => {
+    const runningVersion = getRunningVersion(resource);
+    const latestVersion = latestVersionOf(resource);
+
+    return {
+      resource,
+      runningVersion,
+      latestVersion,
+      status:
+        !runningVersion || !latestVersion
+          ? 'unknown'
+          : compareImageVersions(runningVersion, latestVersion) > 0
+            ? 'outdated'
+            : 'current',
+    };
+  });
+}
+
+// Factory function to create Resource Graph service
+export function createResourceGraphService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): ResourceGraphService {
+  return new ResourceGraphService(tokenProvider, undefined, rateLimiter);
+}
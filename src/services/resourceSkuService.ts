@@ -0,0 +1,197 @@
+import type { VMSize } from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const RESOURCE_SKUS_API_VERSION = '2021-07-01';
+
+// Cache interface for API responses
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+// Service configuration
+interface ResourceSkuServiceConfig {
+  cacheTTL: number;
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: ResourceSkuServiceConfig = {
+  cacheTTL: 3600000, // 1 hour; the size catalog rarely changes
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+export class ResourceSkuServiceError extends AppError {
+  readonly code = 'RESOURCE_SKU_SERVICE_ERROR';
+  readonly userMessage = 'Failed to load VM sizes. Please try again.';
+  readonly retryable = true;
+}
+
+const invalidListResponse = (data: unknown): Error =>
+  new ResourceSkuServiceError(
+    `Invalid response format from resource SKUs API. Response: ${JSON.stringify(data)}`
+  );
+
+// Raw shapes returned by the Microsoft.Compute/skus API
+interface ArmResourceSku {
+  resourceType?: string;
+  name?: string;
+  tier?: string;
+  family?: string;
+  capabilities?: { name?: string; value?: string }[];
+  restrictions?: { type?: string; reasonCode?: string }[];
+}
+
+/**
+ * Service for the VM sizes (resource SKUs of type virtualMachines) offered
+ * in a location
+ */
+export class ResourceSkuService {
+  private armClient: ArmClient;
+  private config: ResourceSkuServiceConfig;
+  private circuitBreaker: CircuitBreaker;
+  private cache: Map<string, CacheEntry<VMSize[]>>;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: ResourceSkuServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.config = config;
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+    this.cache = new Map();
+  }
+
+  /**
+   * Get the VM sizes of a location, sorted by name. Sizes the subscription
+   * may not deploy there are kept and marked as restricted.
+   */
+  async getVMSizes(
+    subscriptionId: string,
+    location: string,
+    signal?: AbortSignal
+  ): Promise<VMSize[]> {
+    if (!subscriptionId) {
+      throw new ResourceSkuServiceError('Subscription ID is required');
+    }
+    if (!location) {
+      throw new ResourceSkuServiceError('Location is required');
+    }
+
+    const cacheKey = `${subscriptionId}/${location.toLowerCase()}`;
+    const entry = this.cache.get(cacheKey);
+    if (entry && Date.now() - entry.timestamp <= entry.ttl) {
+      return entry.data;
+    }
+
+    const filter = encodeURIComponent(`location eq '${location}'`);
+    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/skus?api-version=${RESOURCE_SKUS_API_VERSION}&$filter=${filter}`;
+
+    const sizes = await this.circuitBreaker.execute(async () => {
+      const items = await this.armClient.getAllPages<ArmResourceSku>(
+        url,
+        invalidListResponse,
+        signal
+      );
+      return items
+        .filter(
+          (item) =>
+            item.name && item.resourceType?.toLowerCase() === 'virtualmachines'
+        )
+        .map(mapVMSize)
+        .sort((a, b) =>
+          a.name.localeCompare(b.name, undefined, { numeric: true })
+        );
+    });
+
+    this.cache.set(cacheKey, {
+      data: sizes,
+      timestamp: Date.now(),
+      ttl: this.config.cacheTTL,
+    });
+    return sizes;
+  }
+
+  /**
+   * Clear all cached VM size data
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+}
+
+/**
+ * Split a comma-separated capability value, e.g. "V1,V2" or "SCSI, NVMe"
+ */
+function splitCapability(value?: string): string[] {
+  return (value ?? '')
+    .split(',')
+    .map((part) => part.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Map a raw resource SKU into a VM size. Capabilities a size does not
+ * publish take the values every size had before they were introduced.
+ */
+function mapVMSize(sku: ArmResourceSku): VMSize {
+  const capabilities = new Map(
+    (sku.capabilities ?? []).map((capability) => [
+      capability.name ?? '',
+      capability.value,
+    ])
+  );
+  const toNumber = (name: string) => {
+    const value = Number(capabilities.get(name));
+    return Number.isFinite(value) && capabilities.has(name) ? value : undefined;
+  };
+  const hyperVGenerations = splitCapability(
+    capabilities.get('HyperVGenerations')
+  );
+  const diskControllerTypes = splitCapability(
+    capabilities.get('DiskControllerTypes')
+  );
+
+  return {
+    name: sku.name ?? '',
+    family: sku.family,
+    tier: sku.tier,
+    vCPUs: toNumber('vCPUs'),
+    memoryGB: toNumber('MemoryGB'),
+    hyperVGenerations:
+      hyperVGenerations.length > 0 ? hyperVGenerations : ['V1'],
+    architecture: capabilities.get('CpuArchitectureType') ?? 'x64',
+    acceleratedNetworking:
+      capabilities.get('AcceleratedNetworkingEnabled')?.toLowerCase() ===
+      'true',
+    diskControllerTypes:
+      diskControllerTypes.length > 0 ? diskControllerTypes : ['SCSI'],
+    restricted: (sku.restrictions ?? []).some(
+      (restriction) => restriction.type === 'Location'
+    ),
+  };
+}
+
+// Factory function to create resource SKU service
+export function createResourceSkuService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): ResourceSkuService {
+  return new ResourceSkuService(tokenProvider, undefined, rateLimiter);
+}
@@ -0,0 +1,376 @@
+import type {
+  SharedGallery,
+  SharedGalleryKind,
+  SharedGalleryImage,
+  SharedGalleryImageVersion,
+} from '../types';
+import type { TokenProvider } from './subscriptionService';
+import { ArmClient, ARM_BASE_URL } from './armClient';
+import {
+  AppError,
+  DEFAULT_RETRY_CONFIG,
+  CircuitBreaker,
+  DEFAULT_CIRCUIT_BREAKER_CONFIG,
+} from '../utils/errorHandling';
+import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+
+const SHARED_GALLERY_API_VERSION = '2023-07-03';
+
+// Location-scoped collection name per gallery kind
+const GALLERY_COLLECTIONS: Record<SharedGalleryKind, string> = {
+  community: 'communityGalleries',
+  shared: 'sharedGalleries',
+};
+
+// Cache interface for API responses
+interface CacheEntry<T> {
+  data: T;
+  timestamp: number;
+  ttl: number;
+}
+
+interface SharedGalleryCache {
+  galleries: Map<string, CacheEntry<SharedGallery[]>>;
+  images: Map<string, CacheEntry<SharedGalleryImage[]>>;
+  imageVersions: Map<string, CacheEntry<SharedGalleryImageVersion[]>>;
+}
+
+// Service configuration
+interface SharedGalleryServiceConfig {
+  cacheTTL: number;
+  retryConfig: RetryConfig;
+  circuitBreakerConfig: CircuitBreakerConfig;
+}
+
+const DEFAULT_SERVICE_CONFIG: SharedGalleryServiceConfig = {
+  cacheTTL: 300000, // 5 minutes
+  retryConfig: DEFAULT_RETRY_CONFIG,
+  circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
+};
+
+export class SharedGalleryServiceError extends AppError {
+  readonly code = 'SHARED_GALLERY_SERVICE_ERROR';
+  readonly userMessage =
+    'Failed to load community or shared gallery data. Please try again.';
+  readonly retryable = true;
+}
+
+const invalidListResponse = (data: unknown): Error =>
+  new SharedGalleryServiceError(
+    `Invalid response format from shared galleries API. Response: ${JSON.stringify(data)}`
+  );
+
+// Raw shapes returned by the communityGalleries/sharedGalleries APIs
+interface ArmSharedGallery {
+  name?: string;
+  location?: string;
+  identifier?: { uniqueId?: string };
+  properties?: {
+    communityMetadata?: {
+      publisherUri?: string;
+      publisherContact?: string;
+      eula?: string;
+    };
+  };
+}
+
+interface ArmSharedGalleryImage {
+  name?: string;
+  location?: string;
+  identifier?: { uniqueId?: string };
+  properties?: {
+    osType?: string;
+    osState?: string;
+    hyperVGeneration?: string;
+    architecture?: string;
+    endOfLifeDate?: string;
+    eula?: string;
+    identifier?: { publisher?: string; offer?: string; sku?: string };
+    purchasePlan?: { name?: string; publisher?: string; product?: string };
+  };
+}
+
+interface ArmSharedGalleryImageVersion {
+  name?: string;
+  location?: string;
+  identifier?: { uniqueId?: string };
+  properties?: {
+    publishedDate?: string;
+    endOfLifeDate?: string;
+    excludeFromLatest?: boolean;
+  };
+}
+
+/**
+ * Service for browsing community galleries and galleries shared directly
+ * with the subscription. Both are read-only views scoped to a location and
+ * referenced by unique ID instead of an ARM resource ID.
+ */
+export class SharedGalleryService {
+  private armClient: ArmClient;
+  private config: SharedGalleryServiceConfig;
+  private circuitBreaker: CircuitBreaker;
+  private cache: SharedGalleryCache;
+
+  constructor(
+    tokenProvider: TokenProvider,
+    config: SharedGalleryServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
+  ) {
+    this.config = config;
+    this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.armClient = new ArmClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
+    this.cache = {
+      galleries: new Map(),
+      images: new Map(),
+      imageVersions: new Map(),
+    };
+  }
+
+  /**
+   * Get the galleries shared directly with the subscription in a location
+   */
+  async getSharedGalleries(
+    subscriptionId: string,
+    location: string
+  ): Promise<SharedGallery[]> {
+    if (!subscriptionId || !location) {
+      throw new SharedGalleryServiceError(
+        'Subscription ID and location are required'
+      );
+    }
+
+    const url = `${this.getCollectionUrl(subscriptionId, location, 'shared')}?api-version=${SHARED_GALLERY_API_VERSION}`;
+
+    return this.getCachedList(
+      this.cache.galleries,
+      `${subscriptionId}-${location}`,
+      async () => {
+        const galleries = await this.armClient.getAllPages<ArmSharedGallery>(
+          url,
+          invalidListResponse
+        );
+        return galleries
+          .filter((gallery) => gallery.name)
+          .map((gallery) => mapGallery(gallery, 'shared', location));
+      }
+    );
+  }
+
+  /**
+   * Get a community gallery by its public name. Community galleries cannot
+   * be listed, so the public name has to be known up front.
+   */
+  async getCommunityGallery(
+    subscriptionId: string,
+    location: string,
+    publicGalleryName: string
+  ): Promise<SharedGallery> {
+    if (!subscriptionId || !location || !publicGalleryName) {
+      throw new SharedGalleryServiceError(
+        'Subscription ID, location, and public gallery name are required'
+      );
+    }
+
+    const url = `${this.getGalleryUrl(subscriptionId, location, 'community', publicGalleryName)}?api-version=${SHARED_GALLERY_API_VERSION}`;
+
+    return this.circuitBreaker.execute(async () => {
+      const response = await this.armClient.request(url);
+      const data: ArmSharedGallery = await response.json();
+
+      if (!data || !data.name) {
+        throw new SharedGalleryServiceError(
+          `Invalid response format from community galleries API. Response: ${JSON.stringify(data)}`
+        );
+      }
+
+      return mapGallery(data, 'community', location);
+    });
+  }
+
+  /**
+   * Get the image definitions of a community or shared gallery
+   */
+  async getSharedGalleryImages(
+    subscriptionId: string,
+    location: string,
+    kind: SharedGalleryKind,
+    galleryName: string
+  ): Promise<SharedGalleryImage[]> {
+    if (!subscriptionId || !location || !galleryName) {
+      throw new SharedGalleryServiceError(
+        'Subscription ID, location, and gallery name are required'
+      );
+    }
+
+    const url = `${this.getGalleryUrl(subscriptionId, location, kind, galleryName)}/images?api-version=${SHARED_GALLERY_API_VERSION}`;
+    const cacheKey = `${subscriptionId}-${location}-${kind}-${galleryName}`;
+
+    return this.getCachedList(this.cache.images, cacheKey, async () => {
+      const images = await this.armClient.getAllPages<ArmSharedGalleryImage>(
+        url,
+        invalidListResponse
+      );
+      return images
+        .filter((image) => image.name && image.identifier?.uniqueId)
+        .map((image) => mapImage(image, kind, galleryName, location));
+    });
+  }
+
+  /**
+   * Get all versions of a community or shared gallery image, newest first
+   */
+  async getSharedGalleryImageVersions(
+    subscriptionId: string,
+    location: string,
+    kind: SharedGalleryKind,
+    galleryName: string,
+    imageName: string
+  ): Promise<SharedGalleryImageVersion[]> {
+    if (!subscriptionId || !location || !galleryName || !imageName) {
+      throw new SharedGalleryServiceError(
+        'Subscription ID, location, gallery name, and image name are required'
+      );
+    }
+
+    const url = `${this.getGalleryUrl(subscriptionId, location, kind, galleryName)}/images/${imageName}/versions?api-version=${SHARED_GALLERY_API_VERSION}`;
+    const cacheKey = `${subscriptionId}-${location}-${kind}-${galleryName}-${imageName}`;
+
+    return this.getCachedList(this.cache.imageVersions, cacheKey, async () => {
+      const versions =
+        await this.armClient.getAllPages<ArmSharedGalleryImageVersion>(
+          url,
+          invalidListResponse
+        );
+      return versions
+        .filter((version) => version.name && version.identifier?.uniqueId)
+        .map(
+          (version): SharedGalleryImageVersion => ({
+            name: version.name as string,
+            uniqueId: version.identifier?.uniqueId as string,
+            location: version.location || location,
+            publishedDate: version.properties?.publishedDate,
+            endOfLifeDate: version.properties?.endOfLifeDate,
+            excludeFromLatest: !!version.properties?.excludeFromLatest,
+          })
+        )
+        .sort((a, b) =>
+          b.name.localeCompare(a.name, undefined, { numeric: true })
+        );
+    });
+  }
+
+  /**
+   * Clear all cached community and shared gallery data
+   */
+  clearCache(): void {
+    this.cache.galleries.clear();
+    this.cache.images.clear();
+    this.cache.imageVersions.clear();
+  }
+
+  private getCollectionUrl(
+    subscriptionId: string,
+    location: string,
+    kind: SharedGalleryKind
+  ): string {
+    return `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}/${GALLERY_COLLECTIONS[kind]}`;
+  }
+
+  private getGalleryUrl(
+    subscriptionId: string,
+    location: string,
+    kind: SharedGalleryKind,
+    galleryName: string
+  ): string {
+    return `${this.getCollectionUrl(subscriptionId, location, kind)}/${galleryName}`;
+  }
+
+  /**
+   * Serve a list from cache or load it through the circuit breaker
+   */
+  private async getCachedList<T>(
+    cache: Map<string, CacheEntry<T[]>>,
+    key: string,
+    load: () => Promise<T[]>
+  ): Promise<T[]> {
+    const entry = cache.get(key);
+    if (entry && Date.now() - entry.timestamp <= entry.ttl) {
+      return entry.data;
+    }
+
+    const data = await this.circuitBreaker.execute(load);
+    cache.set(key, { data, timestamp: Date.now(), ttl: this.config.cacheTTL });
+    return data;
+  }
+}
+
+/**
+ * Map a raw community or shared gallery into the gallery model
+ */
+function mapGallery(
+  gallery: ArmSharedGallery,
+  kind: SharedGalleryKind,
+  location: string
+): SharedGallery {
+  const metadata = gallery.properties?.communityMetadata;
+
+  return {
+    name: gallery.name as string,
+    uniqueId: gallery.identifier?.uniqueId || '',
+    kind,
+    location: gallery.location || location,
+    publisherUri: metadata?.publisherUri,
+    publisherContact: metadata?.publisherContact,
+    eula: metadata?.eula,
+  };
+}
+
+/**
+ * Map a raw community or shared gallery image into the image model
+ */
+function mapImage(
+  image: ArmSharedGalleryImage,
+  kind: SharedGalleryKind,
+  galleryName: string,
+  location: string
+): SharedGalleryImage {
+  const properties = image.properties || {};
+  const plan = properties.purchasePlan;
+
+  return {
+    name: image.name as string,
+    uniqueId: image.identifier?.uniqueId as string,
+    kind,
+    galleryName,
+    location: image.location || location,
+    osType: properties.osType || 'Unknown',
+    osState: properties.osState || 'Unknown',
+    hyperVGeneration: properties.hyperVGeneration,
+    architecture: properties.architecture,
+    identifier: {
+      publisher: properties.identifier?.publisher || '',
+      offer: properties.identifier?.offer || '',
+      sku: properties.identifier?.sku || '',
+    },
+    endOfLifeDate: properties.endOfLifeDate,
+    eula: properties.eula,
+    purchasePlan:
+      plan && plan.name && plan.publisher && plan.product
+        ? { name: plan.name, publisher: plan.publisher, product: plan.product }
+        : null,
+  };
+}
+
+// Factory function to create community/shared gallery service
+export function createSharedGalleryService(
+  tokenProvider: TokenProvider,
+  rateLimiter?: ArmRateLimiter
+): SharedGalleryService {
+  return new SharedGalleryService(tokenProvider, undefined, rateLimiter);
+}
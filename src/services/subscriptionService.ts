@@ -1,5 +1,5 @@
 import type { AccountInfo } from '@azure/msal-browser';
-import type { Subscription, AzureLocation } from '../types';
+import type { Subscription, AzureLocation, EdgeZone } from '../types';
 import {
   AppError,
   AuthenticationError,
@@ -10,9 +10,15 @@ import {
   DEFAULT_CIRCUIT_BREAKER_CONFIG,
 } from '../utils/errorHandling';
 import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
-
-// Azure Resource Manager API base URL
-const ARM_BASE_URL = 'https://management.azure.com';
+import {
+  activeCloud,
+  getArmScopes,
+  getAuthority,
+} from '../config/cloudEnvironment';
+import { DEMO_ACCESS_TOKEN, isDemoMode } from '../config/demoMode';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+import { ARM_BASE_URL } from './armClient';
+import { InFlightRequests } from '../utils/concurrency';
 
 // Legacy error class for backward compatibility
 export class SubscriptionServiceError extends AppError {
@@ -43,14 +49,19 @@ export class SubscriptionService {
   private tokenProvider: TokenProvider;
   private config: SubscriptionServiceConfig;
   private circuitBreaker: CircuitBreaker;
+  private rateLimiter: ArmRateLimiter;
+  private inFlight: InFlightRequests;
 
   constructor(
     tokenProvider: TokenProvider,
-    config: SubscriptionServiceConfig = DEFAULT_SERVICE_CONFIG
+    config: SubscriptionServiceConfig = DEFAULT_SERVICE_CONFIG,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
   ) {
     this.tokenProvider = tokenProvider;
     this.config = config;
     this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
+    this.rateLimiter = rateLimiter;
+    this.inFlight = new InFlightRequests();
   }
 
   /**
@@ -63,11 +74,10 @@ export class SubscriptionService {
   /**
    * Fetch all accessible Azure subscriptions for the authenticated user
    */
-  async getSubscriptions(): Promise<Subscription[]> {
+  async getSubscriptions(signal?: AbortSignal): Promise<Subscription[]> {
     const url = `${ARM_BASE_URL}/subscriptions?api-version=2020-01-01`;
 
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeAuthenticatedRequest(url);
+    return this.fetchShared(url, signal, async (response) => {
       const data = await response.json();
 
       if (!data.value || !Array.isArray(data.value)) {
@@ -88,15 +98,17 @@ export class SubscriptionService {
   /**
    * Get details for a specific subscription
    */
-  async getSubscription(subscriptionId: string): Promise<Subscription> {
+  async getSubscription(
+    subscriptionId: string,
+    signal?: AbortSignal
+  ): Promise<Subscription> {
     if (!subscriptionId) {
       throw new SubscriptionServiceError('Subscription ID is required');
     }
 
     const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}?api-version=2020-01-01`;
 
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeAuthenticatedRequest(url);
+    return this.fetchShared(url, signal, async (response) => {
       const data = await response.json();
 
       return {
@@ -111,29 +123,78 @@ export class SubscriptionService {
   /**
    * Get all available locations for a subscription
    */
-  async getLocations(subscriptionId: string): Promise<AzureLocation[]> {
+  async getLocations(
+    subscriptionId: string,
+    signal?: AbortSignal
+  ): Promise<AzureLocation[]> {
     if (!subscriptionId) {
       throw new SubscriptionServiceError('Subscription ID is required');
     }
 
     const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/locations?api-version=2022-12-01`;
-    
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeAuthenticatedRequest(url);
+
+    return this.fetchShared(url, signal, async (response) => {
       const data = await response.json();
-      
+
       if (!data.value || !Array.isArray(data.value)) {
-        throw new SubscriptionServiceError('Invalid response format from locations API');
+        throw new SubscriptionServiceError(
+          'Invalid response format from locations API'
+        );
       }
 
       return data.value.map((location: any) => ({
         name: location.name,
         displayName: location.displayName,
         regionalDisplayName: location.regionalDisplayName,
+        regionType: location.metadata?.regionType,
       }));
     });
   }
 
+  /**
+   * Get the edge zones (Azure Extended Zones) available to a subscription
+   */
+  async getEdgeZones(
+    subscriptionId: string,
+    signal?: AbortSignal
+  ): Promise<EdgeZone[]> {
+    if (!subscriptionId) {
+      throw new SubscriptionServiceError('Subscription ID is required');
+    }
+
+    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/locations?api-version=2022-12-01&includeExtendedLocations=true`;
+
+    return this.fetchShared(url, signal, async (response) => {
+      const data: {
+        value?: {
+          name?: string;
+          displayName?: string;
+          type?: string;
+          metadata?: { homeLocation?: string };
+        }[];
+      } = await response.json();
+
+      if (!data.value || !Array.isArray(data.value)) {
+        throw new SubscriptionServiceError(
+          'Invalid response format from locations API'
+        );
+      }
+
+      return data.value
+        .filter(
+          (location) =>
+            location.type === 'EdgeZone' &&
+            location.name &&
+            location.metadata?.homeLocation
+        )
+        .map((location) => ({
+          name: location.name as string,
+          displayName: location.displayName || (location.name as string),
+          homeLocation: location.metadata?.homeLocation as string,
+        }));
+    });
+  }
+
   /**
    * Make an authenticated HTTP request with enhanced error handling
    */
@@ -141,22 +202,48 @@ export class SubscriptionService {
     url: string,
     options: RequestInit = {}
   ): Promise<Response> {
-    return withRetry(async () => {
-      const token = await this.tokenProvider.getAccessToken();
-
-      return enhancedFetch(
-        url,
-        {
-          ...options,
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-            ...options.headers,
+    return withRetry(
+      async () => {
+        const token = await this.tokenProvider.getAccessToken();
+
+        return enhancedFetch(
+          url,
+          {
+            ...options,
+            headers: {
+              Authorization: `Bearer ${token}`,
+              'Content-Type': 'application/json',
+              ...options.headers,
+            },
           },
-        },
-        this.config.retryConfig
-      );
-    }, this.config.retryConfig);
+          this.config.retryConfig,
+          this.rateLimiter
+        );
+      },
+      this.config.retryConfig,
+      options.signal ?? undefined
+    );
+  }
+
+  /**
+   * Run a GET request through the circuit breaker. Identical concurrent
+   * calls share one request, which is only aborted once every caller aborts.
+   */
+  private fetchShared<T>(
+    url: string,
+    signal: AbortSignal | undefined,
+    parse: (response: Response) => Promise<T>
+  ): Promise<T> {
+    return this.inFlight.run(
+      url,
+      (requestSignal) =>
+        this.circuitBreaker.execute(async () =>
+          parse(
+            await this.makeAuthenticatedRequest(url, { signal: requestSignal })
+          )
+        ),
+      signal
+    );
   }
 }
 
@@ -166,7 +253,11 @@ export class MSALTokenProvider implements TokenProvider {
   private account: AccountInfo | null;
   private tenantId?: string;
 
-  constructor(msalInstance: any, account: AccountInfo | null, tenantId?: string) {
+  constructor(
+    msalInstance: any,
+    account: AccountInfo | null,
+    tenantId?: string
+  ) {
     this.msalInstance = msalInstance;
     this.account = account;
     this.tenantId = tenantId;
@@ -179,14 +270,14 @@ export class MSALTokenProvider implements TokenProvider {
 
     try {
       const tokenRequest: any = {
-        scopes: ['https://management.azure.com/user_impersonation'],
+        scopes: getArmScopes(activeCloud),
         account: this.account,
         forceRefresh: false,
       };
 
       // If a specific tenant is provided, use tenant-specific authority
       if (this.tenantId) {
-        tokenRequest.authority = `https://login.microsoftonline.com/${this.tenantId}`;
+        tokenRequest.authority = getAuthority(activeCloud, this.tenantId);
       }
 
       const response = await this.msalInstance.acquireTokenSilent(tokenRequest);
@@ -195,13 +286,13 @@ export class MSALTokenProvider implements TokenProvider {
       // If silent token acquisition fails, try interactive
       try {
         const tokenRequest: any = {
-          scopes: ['https://management.azure.com/user_impersonation'],
+          scopes: getArmScopes(activeCloud),
           account: this.account,
         };
 
         // If a specific tenant is provided, use tenant-specific authority
         if (this.tenantId) {
-          tokenRequest.authority = `https://login.microsoftonline.com/${this.tenantId}`;
+          tokenRequest.authority = getAuthority(activeCloud, this.tenantId);
         }
 
         const response =
@@ -216,23 +307,48 @@ export class MSALTokenProvider implements TokenProvider {
   }
 }
 
+// Token provider of the offline demo mode, whose ARM stand-in accepts any token
+export class DemoTokenProvider implements TokenProvider {
+  async getAccessToken(): Promise<string> {
+    return DEMO_ACCESS_TOKEN;
+  }
+}
+
+// Factory function to create the token provider for a signed-in account
+export function createTokenProvider(
+  msalInstance: any,
+  account: AccountInfo | null,
+  tenantId?: string
+): TokenProvider {
+  return isDemoMode
+    ? new DemoTokenProvider()
+    : new MSALTokenProvider(msalInstance, account, tenantId);
+}
+
 // Factory function to create subscription service with MSAL
 export function createSubscriptionService(
   msalInstance: any,
   account: AccountInfo | null,
-  tenantId?: string
+  tenantId?: string,
+  rateLimiter?: ArmRateLimiter
 ): SubscriptionService {
-  const tokenProvider = new MSALTokenProvider(msalInstance, account, tenantId);
-  return new SubscriptionService(tokenProvider);
+  const tokenProvider = createTokenProvider(msalInstance, account, tenantId);
+  return new SubscriptionService(tokenProvider, undefined, rateLimiter);
 }
 
 // Factory function to create tenant-aware subscription service
 export function createTenantAwareSubscriptionService(
   msalInstance: any,
   account: AccountInfo | null,
-  subscription: Subscription
+  subscription: Subscription,
+  rateLimiter?: ArmRateLimiter
 ): SubscriptionService {
-  return createSubscriptionService(msalInstance, account, subscription.tenantId);
+  return createSubscriptionService(
+    msalInstance,
+    account,
+    subscription.tenantId,
+    rateLimiter
+  );
 }
 
 // Default instance for testing and development
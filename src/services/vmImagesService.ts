@@ -1,4 +1,16 @@
-import type { Publisher, Offer, SKU } from '../types';
+import type {
+  Publisher,
+  Offer,
+  SKU,
+  ImageVersionDetails,
+  ImageDataDiskImage,
+  ImageFeature,
+  ImageDeprecationStatus,
+  AzureLocation,
+  SKURegionAvailability,
+  VMExtensionType,
+  VMExtensionVersion,
+} from '../types';
 import type { TokenProvider } from './subscriptionService';
 import {
   AppError,
@@ -7,11 +19,18 @@ import {
   DEFAULT_RETRY_CONFIG,
   CircuitBreaker,
   DEFAULT_CIRCUIT_BREAKER_CONFIG,
+  isAbortError,
+  classifyError,
 } from '../utils/errorHandling';
 import type { RetryConfig, CircuitBreakerConfig } from '../utils/errorHandling';
-
-// Azure Resource Manager API base URL
-const ARM_BASE_URL = 'https://management.azure.com';
+import { ARM_BASE_URL } from './armClient';
+import { InFlightRequests } from '../utils/concurrency';
+import { getImageSecurityCapabilities } from '../utils/imageSecurity';
+import { compareImageVersions } from '../utils/imageVersion';
+import { ArmRateLimiter } from '../utils/rateLimiter';
+import { ArmBatchClient } from './armBatch';
+import type { ArmBatchResult } from './armBatch';
+import type { PersistentCache, PersistedEntry } from './persistentCache';
 
 // Cache interface for API responses
 interface CacheEntry<T> {
@@ -24,52 +43,55 @@ interface VMImagesCache {
   publishers: Map<string, CacheEntry<Publisher[]>>;
   offers: Map<string, CacheEntry<Offer[]>>;
   skus: Map<string, CacheEntry<SKU[]>>;
+  versionDetails: Map<string, CacheEntry<ImageVersionDetails>>;
+  extensionTypes: Map<string, CacheEntry<VMExtensionType[]>>;
+  extensionVersions: Map<string, CacheEntry<VMExtensionVersion[]>>;
 }
 
-// Rate limiting configuration
-interface RateLimitConfig {
-  maxRequestsPerMinute: number;
-  requestWindow: number; // in milliseconds
-}
-
-const DEFAULT_RATE_LIMIT_CONFIG: RateLimitConfig = {
-  maxRequestsPerMinute: 60,
-  requestWindow: 60000, // 1 minute
-};
-
 // Cache configuration
 interface CacheConfig {
   publishersTTL: number;
   offersTTL: number;
   skusTTL: number;
+  versionDetailsTTL: number;
+  extensionsTTL: number;
+  // How long persisted entries may be served stale while revalidating
+  persistentMaxAge: number;
 }
 
 const DEFAULT_CACHE_CONFIG: CacheConfig = {
   publishersTTL: 300000, // 5 minutes
   offersTTL: 300000, // 5 minutes
   skusTTL: 300000, // 5 minutes
+  versionDetailsTTL: 900000, // 15 minutes - published versions are immutable
+  extensionsTTL: 300000, // 5 minutes
+  persistentMaxAge: 604800000, // 7 days
 };
 
 // Service configuration
 interface VMImagesServiceConfig {
-  rateLimitConfig: RateLimitConfig;
   cacheConfig: CacheConfig;
   retryConfig: RetryConfig;
   circuitBreakerConfig: CircuitBreakerConfig;
 }
 
 const DEFAULT_SERVICE_CONFIG: VMImagesServiceConfig = {
-  rateLimitConfig: DEFAULT_RATE_LIMIT_CONFIG,
   cacheConfig: DEFAULT_CACHE_CONFIG,
   retryConfig: DEFAULT_RETRY_CONFIG,
   circuitBreakerConfig: DEFAULT_CIRCUIT_BREAKER_CONFIG,
 };
 
-// Request tracking for rate limiting
-interface RequestTracker {
-  timestamps: number[];
+// Options for fanning a SKU lookup out across regions; concurrency bounds
+// the batch calls in flight
+export interface RegionAvailabilityOptions {
+  concurrency?: number;
+  onProgress?: (completed: number, total: number) => void;
+  signal?: AbortSignal;
 }
 
+// Identifies a SKU for the batched multi-SKU lookups
+export type SKUReference = Pick<SKU, 'publisher' | 'offer' | 'name'>;
+
 // Legacy error class for backward compatibility
 export class VMImagesServiceError extends AppError {
   readonly code = 'VM_IMAGES_SERVICE_ERROR';
@@ -81,21 +103,39 @@ export class VMImagesService {
   private tokenProvider: TokenProvider;
   private cache: VMImagesCache;
   private config: VMImagesServiceConfig;
-  private requestTracker: RequestTracker;
+  private rateLimiter: ArmRateLimiter;
+  private batchClient: ArmBatchClient;
   private circuitBreaker: CircuitBreaker;
+  private persistentCache: PersistentCache | null;
+  // Callers waiting for each background revalidation, by store/key
+  private revalidating: Map<string, ((data: unknown) => void)[]>;
+  private inFlight: InFlightRequests;
 
   constructor(
     tokenProvider: TokenProvider,
-    config: VMImagesServiceConfig = DEFAULT_SERVICE_CONFIG
+    config: VMImagesServiceConfig = DEFAULT_SERVICE_CONFIG,
+    persistentCache: PersistentCache | null = null,
+    rateLimiter: ArmRateLimiter = new ArmRateLimiter()
   ) {
     this.tokenProvider = tokenProvider;
     this.config = config;
-    this.requestTracker = { timestamps: [] };
+    this.persistentCache = persistentCache;
+    this.revalidating = new Map();
+    this.inFlight = new InFlightRequests();
+    this.rateLimiter = rateLimiter;
+    this.batchClient = new ArmBatchClient(
+      tokenProvider,
+      config.retryConfig,
+      rateLimiter
+    );
     this.circuitBreaker = new CircuitBreaker(config.circuitBreakerConfig);
     this.cache = {
       publishers: new Map(),
       offers: new Map(),
       skus: new Map(),
+      versionDetails: new Map(),
+      extensionTypes: new Map(),
+      extensionVersions: new Map(),
     };
   }
 
@@ -104,47 +144,49 @@ export class VMImagesService {
    */
   async getPublishers(
     subscriptionId: string,
-    location: string = 'eastus'
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal,
+    onRevalidated?: (data: Publisher[]) => void
   ): Promise<Publisher[]> {
     if (!subscriptionId) {
       throw new VMImagesServiceError('Subscription ID is required');
     }
 
-    const cacheKey = `${subscriptionId}-${location}`;
-    const cached = this.getCachedData(this.cache.publishers, cacheKey);
-    if (cached) {
-      return cached;
-    }
+    const cacheKey = withEdgeZone(`${subscriptionId}-${location}`, edgeZone);
+    const url = `${getPublishersUrl(subscriptionId, location, edgeZone)}?api-version=2023-07-01`;
+    return this.getOrLoad(
+      'publishers',
+      this.cache.publishers,
+      cacheKey,
+      this.config.cacheConfig.publishersTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
+        const data = await response.json();
 
-    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}/publishers?api-version=2023-07-01`;
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeRateLimitedRequest(url);
-      const data = await response.json();
+        // Handle both response formats: direct array or wrapped in 'value' property
+        const publishersArray = Array.isArray(data) ? data : data.value;
 
-      // Handle both response formats: direct array or wrapped in 'value' property
-      const publishersArray = Array.isArray(data) ? data : data.value;
+        if (!publishersArray || !Array.isArray(publishersArray)) {
+          console.error('Publishers API Response:', data);
+          throw new VMImagesServiceError(
+            `Invalid response format from publishers API. Response: ${JSON.stringify(data)}`
+          );
+        }
 
-      if (!publishersArray || !Array.isArray(publishersArray)) {
-        console.error('Publishers API Response:', data);
-        throw new VMImagesServiceError(
-          `Invalid response format from publishers API. Response: ${JSON.stringify(data)}`
-        );
-      }
+        const publishers: Publisher[] = publishersArray.map((pub: any) => ({
+          name: pub.name,
+          displayName: pub.name, // Publishers typically don't have separate display names
+          location: location,
+        }));
 
-      const publishers: Publisher[] = publishersArray.map((pub: any) => ({
-        name: pub.name,
-        displayName: pub.name, // Publishers typically don't have separate display names
-        location: location,
-      }));
-
-      this.setCachedData(
-        this.cache.publishers,
-        cacheKey,
-        publishers,
-        this.config.cacheConfig.publishersTTL
-      );
-      return publishers;
-    });
+        return publishers;
+      },
+      signal,
+      onRevalidated
+    );
   }
 
   /**
@@ -153,7 +195,10 @@ export class VMImagesService {
   async getOffers(
     subscriptionId: string,
     publisherName: string,
-    location: string = 'eastus'
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal,
+    onRevalidated?: (data: Offer[]) => void
   ): Promise<Offer[]> {
     if (!subscriptionId || !publisherName) {
       throw new VMImagesServiceError(
@@ -161,43 +206,26 @@ export class VMImagesService {
       );
     }
 
-    const cacheKey = `${subscriptionId}-${publisherName}-${location}`;
-    const cached = this.getCachedData(this.cache.offers, cacheKey);
-    if (cached) {
-      return cached;
-    }
-
-    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}/publishers/${publisherName}/artifacttypes/vmimage/offers?api-version=2023-07-01`;
-
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeRateLimitedRequest(url);
-      const data = await response.json();
-
-      // Handle both response formats: direct array or wrapped in 'value' property
-      const offersArray = Array.isArray(data) ? data : data.value;
-
-      if (!offersArray || !Array.isArray(offersArray)) {
-        console.error('Offers API Response:', data);
-        throw new VMImagesServiceError(
-          `Invalid response format from offers API. Response: ${JSON.stringify(data)}`
-        );
-      }
-
-      const offers: Offer[] = offersArray.map((offer: any) => ({
-        name: offer.name,
-        displayName: offer.name,
-        publisher: publisherName,
-        location: location,
-      }));
-
-      this.setCachedData(
-        this.cache.offers,
-        cacheKey,
-        offers,
-        this.config.cacheConfig.offersTTL
-      );
-      return offers;
-    });
+    const cacheKey = withEdgeZone(
+      `${subscriptionId}-${publisherName}-${location}`,
+      edgeZone
+    );
+    const url = `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisherName}/artifacttypes/vmimage/offers?api-version=2023-07-01`;
+
+    return this.getOrLoad(
+      'offers',
+      this.cache.offers,
+      cacheKey,
+      this.config.cacheConfig.offersTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
+        return toOffers(await response.json(), publisherName, location);
+      },
+      signal,
+      onRevalidated
+    );
   }
 
   /**
@@ -207,7 +235,10 @@ export class VMImagesService {
     subscriptionId: string,
     publisherName: string,
     offerName: string,
-    location: string = 'eastus'
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal,
+    onRevalidated?: (data: SKU[]) => void
   ): Promise<SKU[]> {
     if (!subscriptionId || !publisherName || !offerName) {
       throw new VMImagesServiceError(
@@ -215,140 +246,522 @@ export class VMImagesService {
       );
     }
 
-    const cacheKey = `${subscriptionId}-${publisherName}-${offerName}-${location}`;
-    const cached = this.getCachedData(this.cache.skus, cacheKey);
-    if (cached) {
-      return cached;
-    }
+    const cacheKey = withEdgeZone(
+      `${subscriptionId}-${publisherName}-${offerName}-${location}`,
+      edgeZone
+    );
+    const url = `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisherName}/artifacttypes/vmimage/offers/${offerName}/skus?api-version=2023-07-01`;
+
+    return this.getOrLoad(
+      'skus',
+      this.cache.skus,
+      cacheKey,
+      this.config.cacheConfig.skusTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
+        const data = await response.json();
 
-    const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}/publishers/${publisherName}/artifacttypes/vmimage/offers/${offerName}/skus?api-version=2023-07-01`;
-    console.log('Fetching SKUs from URL:', url);
+        return toSKUs(data, publisherName, offerName, location);
+      },
+      signal,
+      onRevalidated
+    );
+  }
 
-    return this.circuitBreaker.execute(async () => {
-      const response = await this.makeRateLimitedRequest(url);
-      console.log(
-        'SKUs API Response Status:',
-        response.status,
-        response.statusText
+  /**
+   * Get versions for a specific SKU
+   */
+  async getSKUVersions(
+    subscriptionId: string,
+    publisherName: string,
+    offerName: string,
+    skuName: string,
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<string[]> {
+    if (!subscriptionId || !publisherName || !offerName || !skuName) {
+      throw new VMImagesServiceError(
+        'Subscription ID, publisher name, offer name, and SKU name are required'
       );
-      const data = await response.json();
-      console.log('SKUs API Response Data:', data);
+    }
+
+    const loadVersions = async (
+      requestSignal: AbortSignal
+    ): Promise<string[]> => {
+      // Try multiple API versions in case one doesn't work
+      const apiVersions = [
+        '2023-07-01',
+        '2023-03-01',
+        '2022-11-01',
+        '2022-08-01',
+      ];
+
+      for (const apiVersion of apiVersions) {
+        const url = `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisherName}/artifacttypes/vmimage/offers/${offerName}/skus/${skuName}/versions?api-version=${apiVersion}`;
+
+        try {
+          const response = await this.makeRateLimitedRequest(url, {
+            signal: requestSignal,
+          });
+
+          if (!response.ok) {
+            if (response.status === 404 || response.status === 400) {
+              // Try next API version
+              continue;
+            }
+            const errorText = await response.text();
+            console.error('Error response body:', errorText);
+            continue;
+          }
+
+          const data = await response.json();
 
-      // Handle both response formats: direct array or wrapped in 'value' property
-      const skusArray = Array.isArray(data) ? data : data.value;
+          const versions = toVersionNames(data);
+          if (!versions) {
+            console.warn(`API version ${apiVersion} returned non-array:`, data);
+            continue;
+          }
+          return versions;
+        } catch (error) {
+          if (isAbortError(error)) {
+            throw error;
+          }
+          console.warn(`Error with API version ${apiVersion}:`, error);
+          continue;
+        }
+      }
+
+      console.error('All API versions failed for getSKUVersions');
+      return [];
+    };
+
+    // Concurrent lookups of the same SKU share one request
+    return this.inFlight.run(
+      `skuVersions/${withEdgeZone(`${subscriptionId}-${publisherName}-${offerName}-${skuName}-${location}`, edgeZone)}`,
+      loadVersions,
+      signal
+    );
+  }
+
+  /**
+   * Get the full details of a single image version (disk layout, generation,
+   * architecture, features, plan). 'latest' is resolved to the newest version.
+   */
+  async getImageVersionDetails(
+    subscriptionId: string,
+    publisherName: string,
+    offerName: string,
+    skuName: string,
+    version: string,
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<ImageVersionDetails> {
+    if (
+      !subscriptionId ||
+      !publisherName ||
+      !offerName ||
+      !skuName ||
+      !version
+    ) {
+      throw new VMImagesServiceError(
+        'Subscription ID, publisher name, offer name, SKU name, and version are required'
+      );
+    }
 
-      if (!skusArray || !Array.isArray(skusArray)) {
-        console.error('SKUs API Response:', data);
+    let resolvedVersion = version;
+    if (version === 'latest') {
+      const versions = await this.getSKUVersions(
+        subscriptionId,
+        publisherName,
+        offerName,
+        skuName,
+        location,
+        edgeZone,
+        signal
+      );
+      const newest = versions.find((name) => name !== 'latest');
+      if (!newest) {
         throw new VMImagesServiceError(
-          `Invalid response format from SKUs API. Response: ${JSON.stringify(data)}`
+          `No versions found for ${publisherName}:${offerName}:${skuName} in ${location}`
         );
       }
+      resolvedVersion = newest;
+    }
 
-      // Return SKUs without versions - versions will be loaded on demand
-      const skus = skusArray.map((sku: any) => ({
-        name: sku.name,
-        displayName: sku.name,
-        publisher: publisherName,
-        offer: offerName,
-        location: location,
-        versions: [], // Empty array - versions loaded on demand
-      }));
-
-      this.setCachedData(
-        this.cache.skus,
-        cacheKey,
-        skus,
-        this.config.cacheConfig.skusTTL
-      );
-      return skus;
-    });
+    const cacheKey = withEdgeZone(
+      `${subscriptionId}-${publisherName}-${offerName}-${skuName}-${resolvedVersion}-${location}`,
+      edgeZone
+    );
+    const url = `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisherName}/artifacttypes/vmimage/offers/${offerName}/skus/${skuName}/versions/${resolvedVersion}?api-version=2024-07-01`;
+
+    return this.getOrLoad(
+      'versionDetails',
+      this.cache.versionDetails,
+      cacheKey,
+      this.config.cacheConfig.versionDetailsTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
+        return toImageVersionDetails(
+          await response.json(),
+          resolvedVersion,
+          location
+        );
+      },
+      signal
+    );
   }
 
   /**
-   * Get versions for a specific SKU
+   * Check in which of the given regions a SKU exists, and its newest version
+   * there. The version listings are sent as ARM batch calls, which still go
+   * through the service rate limiter.
    */
-  async getSKUVersions(
+  async getSKURegionAvailability(
     subscriptionId: string,
     publisherName: string,
     offerName: string,
     skuName: string,
-    location: string = 'eastus'
-  ): Promise<string[]> {
+    locations: AzureLocation[],
+    options: RegionAvailabilityOptions = {}
+  ): Promise<SKURegionAvailability[]> {
     if (!subscriptionId || !publisherName || !offerName || !skuName) {
       throw new VMImagesServiceError(
         'Subscription ID, publisher name, offer name, and SKU name are required'
       );
     }
 
-    // Try multiple API versions in case one doesn't work
-    const apiVersions = [
-      '2023-07-01',
-      '2023-03-01',
-      '2022-11-01',
-      '2022-08-01',
-    ];
+    const results = await this.batchClient.get<unknown>(
+      locations.map((location) =>
+        getVersionsUrl(
+          subscriptionId,
+          { publisher: publisherName, offer: offerName, name: skuName },
+          location.name
+        )
+      ),
+      {
+        concurrency: options.concurrency,
+        onProgress: options.onProgress,
+        signal: options.signal,
+      }
+    );
 
-    for (const apiVersion of apiVersions) {
-      const url = `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}/publishers/${publisherName}/artifacttypes/vmimage/offers/${offerName}/skus/${skuName}/versions?api-version=${apiVersion}`;
-      console.log(`Trying SKU versions API with version ${apiVersion}:`, url);
+    return Promise.all(
+      locations.map(async (location, index): Promise<SKURegionAvailability> => {
+        const result = results[index];
+        let versions = result.ok ? toVersionNames(result.data) : null;
+        if (!versions) {
+          // Regions without the SKU answer 404; anything else gets the
+          // single-request path, which also tries older API versions
+          versions =
+            !result.ok && result.error.statusCode === 404
+              ? []
+              : await this.getSKUVersions(
+                  subscriptionId,
+                  publisherName,
+                  offerName,
+                  skuName,
+                  location.name,
+                  null,
+                  options.signal
+                );
+        }
+        const published = versions.filter((name) => name !== 'latest');
+
+        return {
+          location: location.name,
+          displayName: location.displayName,
+          available: published.length > 0,
+          latestVersion: published[0] ?? null,
+          versionCount: published.length,
+        };
+      })
+    );
+  }
 
-      try {
-        const response = await this.makeRateLimitedRequest(url);
-        console.log(
-          `SKU Versions API Response Status (${apiVersion}):`,
-          response.status,
-          response.statusText
-        );
+  /**
+   * Get the offers of several publishers with ARM batch calls, one result
+   * per publisher. Cached listings are not requested again.
+   */
+  async getOffersForPublishers(
+    subscriptionId: string,
+    publisherNames: string[],
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<Offer[]>[]> {
+    if (!subscriptionId) {
+      throw new VMImagesServiceError('Subscription ID is required');
+    }
+
+    return this.getManyOrLoad(
+      'offers',
+      this.cache.offers,
+      publisherNames.map((publisherName) => ({
+        key: withEdgeZone(
+          `${subscriptionId}-${publisherName}-${location}`,
+          edgeZone
+        ),
+        url: `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisherName}/artifacttypes/vmimage/offers?api-version=2023-07-01`,
+      })),
+      this.config.cacheConfig.offersTTL,
+      (data, index) => toOffers(data, publisherNames[index], location),
+      signal
+    );
+  }
+
+  /**
+   * Get the SKUs of several offers with ARM batch calls, one result per
+   * offer. Cached listings are not requested again.
+   */
+  async getSKUsForOffers(
+    subscriptionId: string,
+    offers: { publisher: string; offer: string }[],
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<SKU[]>[]> {
+    if (!subscriptionId) {
+      throw new VMImagesServiceError('Subscription ID is required');
+    }
+
+    return this.getManyOrLoad(
+      'skus',
+      this.cache.skus,
+      offers.map(({ publisher, offer }) => ({
+        key: withEdgeZone(
+          `${subscriptionId}-${publisher}-${offer}-${location}`,
+          edgeZone
+        ),
+        url: `${getPublishersUrl(subscriptionId, location, edgeZone)}/${publisher}/artifacttypes/vmimage/offers/${offer}/skus?api-version=2023-07-01`,
+      })),
+      this.config.cacheConfig.skusTTL,
+      (data, index) =>
+        toSKUs(data, offers[index].publisher, offers[index].offer, location),
+      signal
+    );
+  }
+
+  /**
+   * Get the versions of several SKUs of a location with ARM batch calls.
+   * SKUs the location does not publish have no versions; other failures
+   * are returned per SKU.
+   */
+  async getVersionsForSKUs(
+    subscriptionId: string,
+    skus: SKUReference[],
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<string[]>[]> {
+    if (!subscriptionId) {
+      throw new VMImagesServiceError('Subscription ID is required');
+    }
+
+    const results = await this.batchClient.get<unknown>(
+      skus.map((sku) =>
+        getVersionsUrl(subscriptionId, sku, location, edgeZone)
+      ),
+      { signal }
+    );
+
+    return results.map((result, index): ArmBatchResult<string[]> => {
+      if (!result.ok) {
+        return result.error.statusCode === 404
+          ? { ok: true, data: [] }
+          : result;
+      }
+      const versions = toVersionNames(result.data);
+      return versions
+        ? { ok: true, data: versions }
+        : {
+            ok: false,
+            error: new VMImagesServiceError(
+              `Invalid response format from versions API for ${skus[index].name}. Response: ${JSON.stringify(result.data)}`
+            ),
+          };
+    });
+  }
+
+  /**
+   * Get the details of the newest version of several SKUs of a location:
+   * one batched round of version listings, then one of version details
+   */
+  async getLatestVersionDetailsForSKUs(
+    subscriptionId: string,
+    skus: SKUReference[],
+    location: string = 'eastus',
+    edgeZone?: string | null,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<ImageVersionDetails>[]> {
+    const versions = await this.getVersionsForSKUs(
+      subscriptionId,
+      skus,
+      location,
+      edgeZone,
+      signal
+    );
+    const newest = versions.map((result) =>
+      result.ok ? result.data.find((name) => name !== 'latest') : undefined
+    );
+
+    const withVersions = skus.flatMap((sku, index) => {
+      const version = newest[index];
+      return version ? [{ sku, version, index }] : [];
+    });
+    const details = await this.getManyOrLoad(
+      'versionDetails',
+      this.cache.versionDetails,
+      withVersions.map(({ sku, version }) => ({
+        key: withEdgeZone(
+          `${subscriptionId}-${sku.publisher}-${sku.offer}-${sku.name}-${version}-${location}`,
+          edgeZone
+        ),
+        url: `${getSKUUrl(subscriptionId, sku, location, edgeZone)}/versions/${version}?api-version=2024-07-01`,
+      })),
+      this.config.cacheConfig.versionDetailsTTL,
+      (data, index) =>
+        toImageVersionDetails(data, withVersions[index].version, location),
+      signal
+    );
+
+    const detailsBySku = new Map(
+      withVersions.map(({ index }, position) => [index, details[position]])
+    );
+    return skus.map((sku, index): ArmBatchResult<ImageVersionDetails> => {
+      const result = versions[index];
+      if (!result.ok) {
+        return result;
+      }
+      return (
+        detailsBySku.get(index) ?? {
+          ok: false,
+          error: new VMImagesServiceError(
+            `No versions found for ${sku.publisher}:${sku.offer}:${sku.name} in ${location}`
+          ),
+        }
+      );
+    });
+  }
+
+  /**
+   * Get the VM extension types a publisher offers in a location
+   */
+  async getExtensionTypes(
+    subscriptionId: string,
+    publisherName: string,
+    location: string = 'eastus',
+    signal?: AbortSignal,
+    onRevalidated?: (data: VMExtensionType[]) => void
+  ): Promise<VMExtensionType[]> {
+    if (!subscriptionId || !publisherName) {
+      throw new VMImagesServiceError(
+        'Subscription ID and publisher name are required'
+      );
+    }
+
+    const cacheKey = `${subscriptionId}-${publisherName}-${location}`;
+    const url = `${getPublishersUrl(subscriptionId, location)}/${publisherName}/artifacttypes/vmextension/types?api-version=2023-07-01`;
+
+    return this.getOrLoad(
+      'extensionTypes',
+      this.cache.extensionTypes,
+      cacheKey,
+      this.config.cacheConfig.extensionsTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
+        const data = await response.json();
+
+        // Handle both response formats: direct array or wrapped in 'value' property
+        const typesArray: ArmNamedArtifact[] = Array.isArray(data)
+          ? data
+          : data.value;
 
-        if (!response.ok) {
-          console.warn(
-            `API version ${apiVersion} failed:`,
-            response.status,
-            response.statusText
+        if (!typesArray || !Array.isArray(typesArray)) {
+          throw new VMImagesServiceError(
+            `Invalid response format from extension types API. Response: ${JSON.stringify(data)}`
           );
-          if (response.status === 404 || response.status === 400) {
-            // Try next API version
-            continue;
-          }
-          const errorText = await response.text();
-          console.error('Error response body:', errorText);
-          continue;
         }
 
+        const extensionTypes: VMExtensionType[] = typesArray
+          .filter((type) => type && type.name)
+          .map((type) => ({
+            name: type.name as string,
+            publisher: publisherName,
+            location: location,
+          }));
+
+        return extensionTypes;
+      },
+      signal,
+      onRevalidated
+    );
+  }
+
+  /**
+   * Get the versions of a VM extension type, newest first
+   */
+  async getExtensionVersions(
+    subscriptionId: string,
+    publisherName: string,
+    typeName: string,
+    location: string = 'eastus',
+    signal?: AbortSignal,
+    onRevalidated?: (data: VMExtensionVersion[]) => void
+  ): Promise<VMExtensionVersion[]> {
+    if (!subscriptionId || !publisherName || !typeName) {
+      throw new VMImagesServiceError(
+        'Subscription ID, publisher name, and extension type are required'
+      );
+    }
+
+    const cacheKey = `${subscriptionId}-${publisherName}-${typeName}-${location}`;
+    const url = `${getPublishersUrl(subscriptionId, location)}/${publisherName}/artifacttypes/vmextension/types/${typeName}/versions?api-version=2023-07-01`;
+
+    return this.getOrLoad(
+      'extensionVersions',
+      this.cache.extensionVersions,
+      cacheKey,
+      this.config.cacheConfig.extensionsTTL,
+      async (requestSignal) => {
+        const response = await this.makeRateLimitedRequest(url, {
+          signal: requestSignal,
+        });
         const data = await response.json();
-        console.log(`SKU Versions API Response Data (${apiVersion}):`, data);
 
         // Handle both response formats: direct array or wrapped in 'value' property
-        const versionsArray = Array.isArray(data) ? data : data.value;
+        const versionsArray: ArmNamedArtifact[] = Array.isArray(data)
+          ? data
+          : data.value;
 
         if (!versionsArray || !Array.isArray(versionsArray)) {
-          console.warn(`API version ${apiVersion} returned non-array:`, data);
-          continue;
+          throw new VMImagesServiceError(
+            `Invalid response format from extension versions API. Response: ${JSON.stringify(data)}`
+          );
         }
 
-        const versions = versionsArray
-          .map((version: any) => version.name)
-          .filter((name: string) => name && typeof name === 'string')
-          .sort((a: string, b: string) => {
-            // Put 'latest' first, then sort others in descending order
-            if (a === 'latest') return -1;
-            if (b === 'latest') return 1;
-            return b.localeCompare(a, undefined, { numeric: true });
-          });
+        const versions: VMExtensionVersion[] = versionsArray
+          .filter((version) => version && version.name)
+          .map((version) => ({
+            name: version.name as string,
+            typeHandlerVersion: toTypeHandlerVersion(version.name as string),
+          }))
+          .sort((a, b) =>
+            b.name.localeCompare(a.name, undefined, { numeric: true })
+          );
 
-        console.log(
-          `Successfully processed versions with API ${apiVersion}:`,
-          versions
-        );
         return versions;
-      } catch (error) {
-        console.warn(`Error with API version ${apiVersion}:`, error);
-        continue;
-      }
-    }
-
-    console.error('All API versions failed for getSKUVersions');
-    return [];
+      },
+      signal,
+      onRevalidated
+    );
   }
 
   /**
@@ -358,6 +771,9 @@ export class VMImagesService {
     this.cache.publishers.clear();
     this.cache.offers.clear();
     this.cache.skus.clear();
+    this.cache.versionDetails.clear();
+    this.cache.extensionTypes.clear();
+    this.cache.extensionVersions.clear();
   }
 
   /**
@@ -384,6 +800,25 @@ export class VMImagesService {
         this.cache.skus.delete(key);
       }
     }
+
+    // Clear version details cache
+    for (const [key] of this.cache.versionDetails) {
+      if (key.startsWith(subscriptionId)) {
+        this.cache.versionDetails.delete(key);
+      }
+    }
+
+    // Clear extension caches
+    for (const cache of [
+      this.cache.extensionTypes,
+      this.cache.extensionVersions,
+    ]) {
+      for (const [key] of cache) {
+        if (key.startsWith(subscriptionId)) {
+          cache.delete(key);
+        }
+      }
+    }
   }
 
   /**
@@ -407,6 +842,217 @@ export class VMImagesService {
     return entry.data;
   }
 
+  /**
+   * Serve data from the in-memory cache, then from the persistent cache, and
+   * load it otherwise. Expired persisted entries are still returned right
+   * away while a background request revalidates them; onRevalidated then
+   * receives the fresh data.
+   */
+  private async getOrLoad<T>(
+    store: keyof VMImagesCache,
+    cache: Map<string, CacheEntry<T>>,
+    key: string,
+    ttl: number,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+    onRevalidated?: (data: T) => void
+  ): Promise<T> {
+    const cached = this.getCachedData(cache, key);
+    if (cached) {
+      return cached;
+    }
+
+    const persisted = await this.getPersistedData<T>(store, key);
+    if (persisted) {
+      const age = Date.now() - persisted.timestamp;
+      if (age <= ttl) {
+        cache.set(key, {
+          data: persisted.data,
+          timestamp: persisted.timestamp,
+          ttl,
+        });
+        return persisted.data;
+      }
+      if (age <= this.config.cacheConfig.persistentMaxAge) {
+        this.revalidate(store, cache, key, ttl, load, onRevalidated);
+        return persisted.data;
+      }
+    }
+
+    return this.loadAndCache(store, cache, key, ttl, load, signal);
+  }
+
+  /**
+   * Batched counterpart of getOrLoad: fresh cached entries are served from
+   * the caches, the rest are loaded with ARM batch calls and cached one by
+   * one. Stale persisted entries are simply reloaded.
+   */
+  private async getManyOrLoad<T>(
+    store: keyof VMImagesCache,
+    cache: Map<string, CacheEntry<T>>,
+    requests: { key: string; url: string }[],
+    ttl: number,
+    parse: (data: unknown, index: number) => T,
+    signal?: AbortSignal
+  ): Promise<ArmBatchResult<T>[]> {
+    const results: ArmBatchResult<T>[] = new Array(requests.length);
+
+    const cached = await Promise.all(
+      requests.map(async ({ key }) => {
+        const data = this.getCachedData(cache, key);
+        if (data) {
+          return data;
+        }
+        const persisted = await this.getPersistedData<T>(store, key);
+        if (persisted && Date.now() - persisted.timestamp <= ttl) {
+          cache.set(key, {
+            data: persisted.data,
+            timestamp: persisted.timestamp,
+            ttl,
+          });
+          return persisted.data;
+        }
+        return null;
+      })
+    );
+
+    const missing: number[] = [];
+    cached.forEach((data, index) => {
+      if (data) {
+        results[index] = { ok: true, data };
+      } else {
+        missing.push(index);
+      }
+    });
+    if (missing.length === 0) {
+      return results;
+    }
+
+    const loaded = await this.batchClient.get<unknown>(
+      missing.map((index) => requests[index].url),
+      { signal }
+    );
+    loaded.forEach((result, position) => {
+      const index = missing[position];
+      if (!result.ok) {
+        results[index] = result;
+        return;
+      }
+      try {
+        const data = parse(result.data, index);
+        this.storeData(store, cache, requests[index].key, data, ttl);
+        results[index] = { ok: true, data };
+      } catch (error) {
+        results[index] = { ok: false, error: classifyError(error) };
+      }
+    });
+
+    return results;
+  }
+
+  /**
+   * Load data through the circuit breaker and store it in both caches
+   */
+  private async loadAndCache<T>(
+    store: keyof VMImagesCache,
+    cache: Map<string, CacheEntry<T>>,
+    key: string,
+    ttl: number,
+    load: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    // Identical concurrent calls share one request
+    return this.inFlight.run(
+      `${store}/${key}`,
+      async (requestSignal) => {
+        const data = await this.circuitBreaker.execute(() =>
+          load(requestSignal)
+        );
+        this.storeData(store, cache, key, data, ttl);
+        return data;
+      },
+      signal
+    );
+  }
+
+  /**
+   * Store loaded data in memory and, without waiting, in the persistent cache
+   */
+  private storeData<T>(
+    store: keyof VMImagesCache,
+    cache: Map<string, CacheEntry<T>>,
+    key: string,
+    data: T,
+    ttl: number
+  ): void {
+    this.setCachedData(cache, key, data, ttl);
+
+    this.persistentCache?.set(store, key, data).catch((error) => {
+      console.warn(`Could not persist ${store} cache entry ${key}:`, error);
+    });
+  }
+
+  /**
+   * Refresh a stale entry in the background, once per key at a time. Every
+   * caller that asked for the entry meanwhile gets the fresh data.
+   */
+  private revalidate<T>(
+    store: keyof VMImagesCache,
+    cache: Map<string, CacheEntry<T>>,
+    key: string,
+    ttl: number,
+    load: (signal: AbortSignal) => Promise<T>,
+    onRevalidated?: (data: T) => void
+  ): void {
+    const revalidationKey = `${store}/${key}`;
+    const listeners = this.revalidating.get(revalidationKey);
+    if (listeners) {
+      if (onRevalidated) {
+        listeners.push(onRevalidated as (data: unknown) => void);
+      }
+      return;
+    }
+
+    this.revalidating.set(
+      revalidationKey,
+      onRevalidated ? [onRevalidated as (data: unknown) => void] : []
+    );
+    this.loadAndCache(store, cache, key, ttl, load)
+      .then((data) => {
+        this.revalidating
+          .get(revalidationKey)
+          ?.forEach((listener) => listener(data));
+      })
+      .catch((error) => {
+        console.warn(
+          `Could not revalidate ${store} cache entry ${key}:`,
+          error
+        );
+      })
+      .finally(() => {
+        this.revalidating.delete(revalidationKey);
+      });
+  }
+
+  /**
+   * Read an entry from the persistent cache; failures count as a miss
+   */
+  private async getPersistedData<T>(
+    store: keyof VMImagesCache,
+    key: string
+  ): Promise<PersistedEntry<T> | null> {
+    if (!this.persistentCache) {
+      return null;
+    }
+
+    try {
+      return await this.persistentCache.get<T>(store, key);
+    } catch (error) {
+      console.warn(`Could not read ${store} cache entry ${key}:`, error);
+      return null;
+    }
+  }
+
   /**
    * Set cached data with TTL
    */
@@ -430,78 +1076,328 @@ export class VMImagesService {
     url: string,
     options: RequestInit = {}
   ): Promise<Response> {
-    // Check rate limit
-    await this.enforceRateLimit();
-
-    return withRetry(async () => {
-      const token = await this.tokenProvider.getAccessToken();
-
-      const response = await enhancedFetch(
-        url,
-        {
-          ...options,
-          headers: {
-            Authorization: `Bearer ${token}`,
-            'Content-Type': 'application/json',
-            ...options.headers,
+    return withRetry(
+      async () => {
+        const token = await this.tokenProvider.getAccessToken();
+
+        return enhancedFetch(
+          url,
+          {
+            ...options,
+            headers: {
+              Authorization: `Bearer ${token}`,
+              'Content-Type': 'application/json',
+              ...options.headers,
+            },
           },
-        },
-        this.config.retryConfig
-      );
+          this.config.retryConfig,
+          this.rateLimiter
+        );
+      },
+      this.config.retryConfig,
+      options.signal ?? undefined
+    );
+  }
+}
+
+/**
+ * Base URL of the image publishers of a region, or of one of its edge zones
+ * (Azure Extended Zones publish their own image catalog)
+ */
+function getPublishersUrl(
+  subscriptionId: string,
+  location: string,
+  edgeZone?: string | null
+): string {
+  const zone = edgeZone ? `/edgeZones/${edgeZone}` : '';
+  return `${ARM_BASE_URL}/subscriptions/${subscriptionId}/providers/Microsoft.Compute/locations/${location}${zone}/publishers`;
+}
+
+/**
+ * Versions listing URL of a SKU, as the batched lookups request it
+ */
+function getVersionsUrl(
+  subscriptionId: string,
+  sku: SKUReference,
+  location: string,
+  edgeZone?: string | null
+): string {
+  return `${getSKUUrl(subscriptionId, sku, location, edgeZone)}/versions?api-version=2023-07-01`;
+}
+
+function getSKUUrl(
+  subscriptionId: string,
+  sku: SKUReference,
+  location: string,
+  edgeZone?: string | null
+): string {
+  return `${getPublishersUrl(subscriptionId, location, edgeZone)}/${sku.publisher}/artifacttypes/vmimage/offers/${sku.offer}/skus/${sku.name}`;
+}
+
+/**
+ * Keep region and edge zone catalogs apart in the cache
+ */
+function withEdgeZone(cacheKey: string, edgeZone?: string | null): string {
+  return edgeZone ? `${cacheKey}-edgezone-${edgeZone}` : cacheKey;
+}
+
+// Raw list entry returned by the vmimage and vmextension list endpoints
+interface ArmNamedArtifact {
+  name?: string;
+  location?: string;
+  id?: string;
+}
+
+/**
+ * List responses come either as a direct array or wrapped in 'value'
+ */
+function toArtifactList(data: unknown): ArmNamedArtifact[] | null {
+  const list = Array.isArray(data)
+    ? data
+    : (data as { value?: unknown } | null)?.value;
+  return Array.isArray(list) ? list : null;
+}
 
-      // Track successful request
-      this.trackRequest();
-      return response;
-    }, this.config.retryConfig);
+function toOffers(
+  data: unknown,
+  publisherName: string,
+  location: string
+): Offer[] {
+  const offersArray = toArtifactList(data);
+  if (!offersArray) {
+    console.error('Offers API Response:', data);
+    throw new VMImagesServiceError(
+      `Invalid response format from offers API. Response: ${JSON.stringify(data)}`
+    );
   }
 
-  /**
-   * Enforce rate limiting
-   */
-  private async enforceRateLimit(): Promise<void> {
-    const now = Date.now();
-    const windowStart = now - this.config.rateLimitConfig.requestWindow;
+  return offersArray.map((offer) => ({
+    name: offer.name as string,
+    displayName: offer.name as string,
+    publisher: publisherName,
+    location: location,
+  }));
+}
 
-    // Remove old timestamps
-    this.requestTracker.timestamps = this.requestTracker.timestamps.filter(
-      (timestamp) => timestamp > windowStart
+function toSKUs(
+  data: unknown,
+  publisherName: string,
+  offerName: string,
+  location: string
+): SKU[] {
+  const skusArray = toArtifactList(data);
+  if (!skusArray) {
+    console.error('SKUs API Response:', data);
+    throw new VMImagesServiceError(
+      `Invalid response format from SKUs API. Response: ${JSON.stringify(data)}`
     );
+  }
 
-    // Check if we're at the limit
-    if (
-      this.requestTracker.timestamps.length >=
-      this.config.rateLimitConfig.maxRequestsPerMinute
-    ) {
-      const oldestRequest = this.requestTracker.timestamps[0];
-      const waitTime =
-        this.config.rateLimitConfig.requestWindow - (now - oldestRequest);
+  // Return SKUs without versions - versions will be loaded on demand
+  return skusArray.map((sku) => ({
+    name: sku.name as string,
+    displayName: sku.name as string,
+    publisher: publisherName,
+    offer: offerName,
+    location: location,
+    versions: [],
+  }));
+}
 
-      if (waitTime > 0) {
-        await this.sleep(waitTime);
-      }
-    }
+/**
+ * Version names with 'latest' first, then newest first; null when the
+ * response is not a list
+ */
+function toVersionNames(data: unknown): string[] | null {
+  const versionsArray = toArtifactList(data);
+  if (!versionsArray) {
+    return null;
   }
 
-  /**
-   * Track a request for rate limiting
-   */
-  private trackRequest(): void {
-    this.requestTracker.timestamps.push(Date.now());
+  return versionsArray
+    .map((version) => version?.name)
+    .filter((name): name is string => !!name && typeof name === 'string')
+    .sort((a, b) => {
+      if (a === 'latest') return -1;
+      if (b === 'latest') return 1;
+      return compareImageVersions(a, b);
+    });
+}
+
+/**
+ * Reduce a full extension version (2.1.3) to the major.minor form that
+ * typeHandlerVersion expects (2.1)
+ */
+function toTypeHandlerVersion(version: string): string {
+  const [major, minor = '0'] = version.split('.');
+  return `${major}.${minor}`;
+}
+
+// Raw shapes returned by the single image version endpoint
+interface ArmDiskImage {
+  operatingSystem?: string;
+  lun?: number;
+  sizeInGb?: number;
+  sizeInBytes?: number;
+}
+
+interface ArmImageVersionResponse {
+  name?: string;
+  location?: string;
+  id?: string;
+  properties?: {
+    osDiskImage?: ArmDiskImage;
+    dataDiskImages?: ArmDiskImage[];
+    hyperVGeneration?: string;
+    architecture?: string;
+    features?: { name?: string; value?: unknown }[];
+    plan?: { name?: string; publisher?: string; product?: string };
+    automaticOSUpgradeProperties?: { automaticOSUpgradeSupported?: boolean };
+    disallowed?: { vmDiskType?: string };
+    imageDeprecationStatus?: {
+      imageState?: string;
+      scheduledDeprecationTime?: string;
+      alternativeOption?: { type?: string; value?: string };
+    };
+  };
+}
+
+/**
+ * Convert bytes reported by ARM into whole gigabytes
+ */
+function toSizeInGb(disk: ArmDiskImage): number | undefined {
+  if (typeof disk.sizeInGb === 'number') {
+    return disk.sizeInGb;
   }
+  if (typeof disk.sizeInBytes === 'number') {
+    return Math.round(disk.sizeInBytes / 1024 ** 3);
+  }
+  return undefined;
+}
 
-  /**
-   * Sleep utility for rate limiting delays
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+/**
+ * Map the ARM imageDeprecationStatus block. Images without the block, or with
+ * a state we do not know, are treated as not deprecated.
+ */
+function mapDeprecationStatus(
+  status: NonNullable<
+    ArmImageVersionResponse['properties']
+  >['imageDeprecationStatus']
+): ImageDeprecationStatus | null {
+  if (
+    !status ||
+    (status.imageState !== 'Active' &&
+      status.imageState !== 'ScheduledForDeprecation' &&
+      status.imageState !== 'Deprecated')
+  ) {
+    return null;
   }
+
+  const alternative = status.alternativeOption;
+
+  return {
+    imageState: status.imageState,
+    scheduledDeprecationTime: status.scheduledDeprecationTime,
+    alternativeOption:
+      alternative &&
+      alternative.value &&
+      (alternative.type === 'Offer' || alternative.type === 'Sku')
+        ? { type: alternative.type, value: alternative.value }
+        : null,
+  };
+}
+
+/**
+ * Validate and map a single image version response
+ */
+function toImageVersionDetails(
+  data: unknown,
+  version: string,
+  location: string
+): ImageVersionDetails {
+  const response = data as ArmImageVersionResponse | null;
+  if (!response || typeof response !== 'object' || !response.properties) {
+    console.error('Image version API Response:', data);
+    throw new VMImagesServiceError(
+      `Invalid response format from image version API. Response: ${JSON.stringify(data)}`
+    );
+  }
+
+  return mapImageVersionDetails(response, version, location);
+}
+
+/**
+ * Map a raw single-version ARM response into the typed details model
+ */
+function mapImageVersionDetails(
+  data: ArmImageVersionResponse,
+  version: string,
+  location: string
+): ImageVersionDetails {
+  const properties = data.properties || {};
+  const osDisk = properties.osDiskImage;
+  const plan = properties.plan;
+  const features: ImageFeature[] = Array.isArray(properties.features)
+    ? properties.features
+        .filter((feature) => feature && feature.name)
+        .map((feature) => ({
+          name: feature.name as string,
+          value: String(feature.value),
+        }))
+    : [];
+
+  return {
+    name: data.name || version,
+    location: data.location || location,
+    id: data.id,
+    osDiskImage: osDisk
+      ? {
+          operatingSystem: osDisk.operatingSystem || 'Unknown',
+          sizeInGb: toSizeInGb(osDisk),
+        }
+      : null,
+    dataDiskImages: Array.isArray(properties.dataDiskImages)
+      ? properties.dataDiskImages.map(
+          (disk): ImageDataDiskImage => ({
+            lun: disk.lun ?? 0,
+            sizeInGb: toSizeInGb(disk),
+          })
+        )
+      : [],
+    hyperVGeneration: properties.hyperVGeneration,
+    architecture: properties.architecture,
+    features,
+    security: getImageSecurityCapabilities(features),
+    plan:
+      plan && plan.name && plan.publisher && plan.product
+        ? { name: plan.name, publisher: plan.publisher, product: plan.product }
+        : null,
+    automaticOSUpgradeProperties: properties.automaticOSUpgradeProperties
+      ? {
+          automaticOSUpgradeSupported:
+            !!properties.automaticOSUpgradeProperties
+              .automaticOSUpgradeSupported,
+        }
+      : null,
+    disallowed: properties.disallowed
+      ? { vmDiskType: properties.disallowed.vmDiskType }
+      : null,
+    deprecationStatus: mapDeprecationStatus(properties.imageDeprecationStatus),
+  };
 }
 
 // Factory function to create VM images service
 export function createVMImagesService(
-  tokenProvider: TokenProvider
+  tokenProvider: TokenProvider,
+  persistentCache: PersistentCache | null = null,
+  rateLimiter: ArmRateLimiter = new ArmRateLimiter()
 ): VMImagesService {
-  return new VMImagesService(tokenProvider);
+  return new VMImagesService(
+    tokenProvider,
+    DEFAULT_SERVICE_CONFIG,
+    persistentCache,
+    rateLimiter
+  );
 }
 
 // Default instance for testing and development
@@ -0,0 +1,101 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { useImageWatchStore, MAX_BROWSED_IMAGES } from '../imageWatchStore';
+import type { SKU, ImageDeprecationStatus } from '../../types';
+
+const mockSKU: SKU = {
+  name: '20_04-lts-gen2',
+  displayName: '20_04-lts-gen2',
+  publisher: 'Canonical',
+  offer: '0001-com-ubuntu-server-focal',
+  location: 'eastus',
+  versions: [],
+};
+
+const scheduled: ImageDeprecationStatus = {
+  imageState: 'ScheduledForDeprecation',
+  scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+  alternativeOption: null,
+};
+
+const key = 'Canonical/0001-com-ubuntu-server-focal/20_04-lts-gen2';
+
+describe('imageWatchStore', () => {
+  beforeEach(() => {
+    useImageWatchStore.setState({ images: {} });
+  });
+
+  it('should record browsed images with their deprecation status', () => {
+    useImageWatchStore.getState().recordImage(mockSKU, scheduled);
+
+    expect(useImageWatchStore.getState().images[key]).toMatchObject({
+      publisher: 'Canonical',
+      offer: '0001-com-ubuntu-server-focal',
+      sku: '20_04-lts-gen2',
+      location: 'eastus',
+      saved: false,
+      deprecationStatus: scheduled,
+    });
+  });
+
+  it('should keep the saved flag when an image is browsed again', () => {
+    const { toggleSaved, recordImage } = useImageWatchStore.getState();
+
+    toggleSaved(mockSKU, scheduled);
+    recordImage(mockSKU, null);
+
+    expect(useImageWatchStore.getState().images[key].saved).toBe(true);
+    expect(
+      useImageWatchStore.getState().images[key].deprecationStatus
+    ).toBeNull();
+  });
+
+  it('should toggle saved images', () => {
+    const { toggleSaved } = useImageWatchStore.getState();
+
+    toggleSaved(mockSKU);
+    expect(useImageWatchStore.getState().images[key].saved).toBe(true);
+
+    toggleSaved(mockSKU);
+    expect(useImageWatchStore.getState().images[key].saved).toBe(false);
+  });
+
+  it('should update the status of a watched image only', () => {
+    const { recordImage, updateDeprecationStatus } =
+      useImageWatchStore.getState();
+
+    recordImage(mockSKU, null);
+    updateDeprecationStatus(key, scheduled);
+    updateDeprecationStatus('unknown/offer/sku', scheduled);
+
+    expect(useImageWatchStore.getState().images[key].deprecationStatus).toEqual(
+      scheduled
+    );
+    expect(Object.keys(useImageWatchStore.getState().images)).toEqual([key]);
+  });
+
+  it('should clear browsed images but keep saved ones', () => {
+    const { recordImage, toggleSaved, clearBrowsed } =
+      useImageWatchStore.getState();
+
+    recordImage({ ...mockSKU, name: 'other' }, null);
+    toggleSaved(mockSKU);
+    clearBrowsed();
+
+    expect(Object.keys(useImageWatchStore.getState().images)).toEqual([key]);
+  });
+
+  it('should drop the oldest browsed images over the limit', () => {
+    const { recordImage, toggleSaved } = useImageWatchStore.getState();
+
+    toggleSaved(mockSKU);
+    for (let i = 0; i <= MAX_BROWSED_IMAGES; i++) {
+      recordImage({ ...mockSKU, name: `sku-${i}` }, null);
+    }
+
+    const images = useImageWatchStore.getState().images;
+    expect(Object.values(images).filter((image) => !image.saved)).toHaveLength(
+      MAX_BROWSED_IMAGES
+    );
+    expect(images[key]).toBeDefined();
+  });
+});
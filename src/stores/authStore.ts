@@ -1,6 +1,7 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
-import type { Subscription, AzureLocation } from '../types';
+import type { Subscription, AzureLocation, EdgeZone } from '../types';
+import { clearPersistentCache } from '../services/persistentCache';
 
 interface User {
   id: string;
@@ -16,6 +17,9 @@ interface AuthState {
   selectedSubscription: string | null;
   locations: AzureLocation[];
   selectedLocation: string;
+  edgeZones: EdgeZone[];
+  // Edge zone of the selected location to browse instead of the region itself
+  selectedEdgeZone: string | null;
   loading: boolean;
   error: string | null;
 }
@@ -27,6 +31,8 @@ interface AuthActions {
   selectSubscription: (subscriptionId: string) => void;
   setLocations: (locations: AzureLocation[]) => void;
   selectLocation: (location: string) => void;
+  setEdgeZones: (edgeZones: EdgeZone[]) => void;
+  selectEdgeZone: (edgeZone: string | null) => void;
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
@@ -43,6 +49,8 @@ const initialState: AuthState = {
   selectedSubscription: null,
   locations: [],
   selectedLocation: 'eastus', // Default to East US
+  edgeZones: [],
+  selectedEdgeZone: null,
   loading: false,
   error: null,
 };
@@ -55,18 +63,22 @@ export const useAuthStore = create<AuthStore>()(
 
         login: (user: User) => {
           const currentUser = get().user;
-          
+
           // Check if this is a different user (different tenant or user ID)
-          const isDifferentUser = !currentUser || 
-            currentUser.id !== user.id || 
+          const isDifferentUser =
+            !currentUser ||
+            currentUser.id !== user.id ||
             currentUser.tenantId !== user.tenantId;
-          
+
           if (isDifferentUser) {
-            console.log('Different user/tenant detected, clearing all tenant-specific data', {
-              previousUser: currentUser,
-              newUser: user,
-            });
-            
+            console.log(
+              'Different user/tenant detected, clearing all tenant-specific data',
+              {
+                previousUser: currentUser,
+                newUser: user,
+              }
+            );
+
             // Clear all tenant-specific data when switching users/tenants
             set(
               {
@@ -76,13 +88,15 @@ export const useAuthStore = create<AuthStore>()(
                 selectedSubscription: null, // Clear selected subscription
                 locations: [], // Clear previous tenant's locations
                 selectedLocation: 'eastus', // Reset to default location
+                edgeZones: [],
+                selectedEdgeZone: null,
                 loading: false,
                 error: null,
               },
               false,
               'auth/login/newUser'
             );
-            
+
             // Also clear VM images cache - we'll do this via a callback mechanism
             // The component that handles login should call clearAllTenantData
           } else {
@@ -100,6 +114,11 @@ export const useAuthStore = create<AuthStore>()(
         },
 
         logout: () => {
+          // Cached image catalogs must not outlive the session
+          clearPersistentCache().catch((error) => {
+            console.warn('Failed to clear persistent cache:', error);
+          });
+
           set(
             {
               ...initialState,
@@ -127,22 +146,27 @@ export const useAuthStore = create<AuthStore>()(
         },
 
         selectSubscription: (subscriptionId: string) => {
-          const { subscriptions, selectedSubscription: currentSubscription } = get();
+          const { subscriptions, selectedSubscription: currentSubscription } =
+            get();
           const subscription = subscriptions.find(
             (sub) => sub.subscriptionId === subscriptionId
           );
 
           if (subscription) {
             // Check if this is a different subscription
-            const isDifferentSubscription = currentSubscription !== subscriptionId;
-            
+            const isDifferentSubscription =
+              currentSubscription !== subscriptionId;
+
             if (isDifferentSubscription) {
-              console.log('Different subscription selected, clearing VM images cache', {
-                previous: currentSubscription,
-                new: subscriptionId,
-              });
+              console.log(
+                'Different subscription selected, clearing VM images cache',
+                {
+                  previous: currentSubscription,
+                  new: subscriptionId,
+                }
+              );
             }
-            
+
             set(
               {
                 selectedSubscription: subscriptionId,
@@ -180,18 +204,23 @@ export const useAuthStore = create<AuthStore>()(
         selectLocation: (location: string) => {
           const { selectedLocation: currentLocation } = get();
           const isDifferentLocation = currentLocation !== location;
-          
+
           if (isDifferentLocation) {
-            console.log('Different location selected, clearing VM images cache', {
-              previous: currentLocation,
-              new: location,
-            });
+            console.log(
+              'Different location selected, clearing VM images cache',
+              {
+                previous: currentLocation,
+                new: location,
+              }
+            );
           }
-          
+
           // Location validation is handled by the API - only valid locations are provided
           set(
             {
               selectedLocation: location,
+              // Edge zones belong to their home region
+              ...(isDifferentLocation ? { selectedEdgeZone: null } : {}),
               error: null,
             },
             false,
@@ -199,6 +228,33 @@ export const useAuthStore = create<AuthStore>()(
           );
         },
 
+        setEdgeZones: (edgeZones: EdgeZone[]) => {
+          set(
+            {
+              edgeZones,
+              // Drop a stored edge zone the subscription no longer offers
+              selectedEdgeZone: edgeZones.some(
+                (zone) => zone.name === get().selectedEdgeZone
+              )
+                ? get().selectedEdgeZone
+                : null,
+            },
+            false,
+            'auth/setEdgeZones'
+          );
+        },
+
+        selectEdgeZone: (edgeZone: string | null) => {
+          set(
+            {
+              selectedEdgeZone: edgeZone,
+              error: null,
+            },
+            false,
+            'auth/selectEdgeZone'
+          );
+        },
+
         setLoading: (loading: boolean) => {
           set(
             {
@@ -263,6 +319,8 @@ export const useAuthStore = create<AuthStore>()(
               selectedSubscription: null,
               locations: [],
               selectedLocation: 'eastus',
+              edgeZones: [],
+              selectedEdgeZone: null,
               error: null,
             },
             false,
@@ -276,8 +334,10 @@ export const useAuthStore = create<AuthStore>()(
         partialize: (state) => ({
           selectedSubscription: state.selectedSubscription,
           selectedLocation: state.selectedLocation,
+          selectedEdgeZone: state.selectedEdgeZone,
           subscriptions: state.subscriptions,
           locations: state.locations,
+          edgeZones: state.edgeZones,
         }),
       }
     ),
@@ -306,6 +366,7 @@ export const useSubscriptions = () => {
   const selectedLocation = useAuthStore((state) => state.selectedLocation);
   const setLocations = useAuthStore((state) => state.setLocations);
   const selectLocation = useAuthStore((state) => state.selectLocation);
+  const selectedEdgeZone = useAuthStore((state) => state.selectedEdgeZone);
 
   return {
     subscriptions,
@@ -315,6 +376,7 @@ export const useSubscriptions = () => {
     selectedLocation,
     setLocations,
     selectLocation,
+    selectedEdgeZone,
   };
 };
 
@@ -324,15 +386,17 @@ export const useSubscriptionSelector = () => {
   const selectedSubscription = useAuthStore(
     (state) => state.selectedSubscription
   );
-  const selectSubscriptionBase = useAuthStore((state) => state.selectSubscription);
-  
+  const selectSubscriptionBase = useAuthStore(
+    (state) => state.selectSubscription
+  );
+
   const selectSubscription = (subscriptionId: string) => {
     const currentSubscription = useAuthStore.getState().selectedSubscription;
     const isDifferentSubscription = currentSubscription !== subscriptionId;
-    
+
     // Select the subscription
     selectSubscriptionBase(subscriptionId);
-    
+
     // Clear VM images cache if switching to a different subscription
     if (isDifferentSubscription) {
       // We'll import this dynamically to avoid circular dependencies
@@ -355,14 +419,14 @@ export const useLocationSelector = () => {
   const selectedLocation = useAuthStore((state) => state.selectedLocation);
   const setLocations = useAuthStore((state) => state.setLocations);
   const selectLocationBase = useAuthStore((state) => state.selectLocation);
-  
+
   const selectLocation = (location: string) => {
     const currentLocation = useAuthStore.getState().selectedLocation;
     const isDifferentLocation = currentLocation !== location;
-    
+
     // Select the location
     selectLocationBase(location);
-    
+
     // Clear VM images cache if switching to a different location
     if (isDifferentLocation) {
       // We'll import this dynamically to avoid circular dependencies
@@ -379,3 +443,37 @@ export const useLocationSelector = () => {
     selectLocation,
   };
 };
+
+// Edge zone selector that also clears VM images cache
+export const useEdgeZoneSelector = () => {
+  const selectedLocation = useAuthStore((state) => state.selectedLocation);
+  const edgeZones = useAuthStore((state) => state.edgeZones);
+  const selectedEdgeZone = useAuthStore((state) => state.selectedEdgeZone);
+  const setEdgeZones = useAuthStore((state) => state.setEdgeZones);
+  const selectEdgeZoneBase = useAuthStore((state) => state.selectEdgeZone);
+
+  // Only the edge zones homed in the selected region can be browsed
+  const availableEdgeZones = edgeZones.filter(
+    (zone) => zone.homeLocation === selectedLocation
+  );
+
+  const selectEdgeZone = (edgeZone: string | null) => {
+    const currentEdgeZone = useAuthStore.getState().selectedEdgeZone;
+
+    selectEdgeZoneBase(edgeZone);
+
+    // Edge zones have their own image catalog
+    if (currentEdgeZone !== edgeZone) {
+      import('../stores/vmImagesStore').then(({ useVMImagesStore }) => {
+        useVMImagesStore.getState().clearAll();
+      });
+    }
+  };
+
+  return {
+    edgeZones: availableEdgeZones,
+    selectedEdgeZone,
+    setEdgeZones,
+    selectEdgeZone,
+  };
+};
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { CatalogIndex, CatalogCrawlProgress } from '../types';
+
+interface CatalogIndexState {
+  index: CatalogIndex | null;
+  crawling: boolean;
+  paused: boolean;
+  progress: CatalogCrawlProgress | null;
+  error: string | null;
+}
+
+interface CatalogIndexActions {
+  setIndex: (index: CatalogIndex | null) => void;
+  setCrawling: (crawling: boolean) => void;
+  setPaused: (paused: boolean) => void;
+  setProgress: (progress: CatalogCrawlProgress | null) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type CatalogIndexStore = CatalogIndexState & CatalogIndexActions;
+
+const initialState: CatalogIndexState = {
+  index: null,
+  crawling: false,
+  paused: false,
+  progress: null,
+  error: null,
+};
+
+export const useCatalogIndexStore = create<CatalogIndexStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setIndex: (index: CatalogIndex | null) => {
+        set({ index }, false, 'catalogIndex/setIndex');
+      },
+
+      setCrawling: (crawling: boolean) => {
+        set(
+          crawling
+            ? { crawling, paused: false, error: null }
+            : { crawling, paused: false },
+          false,
+          'catalogIndex/setCrawling'
+        );
+      },
+
+      setPaused: (paused: boolean) => {
+        set({ paused }, false, 'catalogIndex/setPaused');
+      },
+
+      setProgress: (progress: CatalogCrawlProgress | null) => {
+        set({ progress }, false, 'catalogIndex/setProgress');
+      },
+
+      setError: (error: string | null) => {
+        set({ error }, false, 'catalogIndex/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'catalogIndex/clearAll');
+      },
+    }),
+    {
+      name: 'catalog-index-store',
+    }
+  )
+);
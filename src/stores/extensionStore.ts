@@ -0,0 +1,97 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { VMExtensionType, VMExtensionVersion } from '../types';
+
+interface ExtensionState {
+  extensionTypes: VMExtensionType[];
+  extensionVersions: VMExtensionVersion[];
+  loading: boolean;
+  error: string | null;
+  // Track what data is currently loaded
+  loadedTypes: { publisher: string; location: string } | null;
+  loadedVersions: { publisher: string; type: string; location: string } | null;
+}
+
+interface ExtensionActions {
+  setExtensionTypes: (
+    extensionTypes: VMExtensionType[],
+    publisher: string,
+    location: string
+  ) => void;
+  setExtensionVersions: (
+    extensionVersions: VMExtensionVersion[],
+    publisher: string,
+    type: string,
+    location: string
+  ) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type ExtensionStore = ExtensionState & ExtensionActions;
+
+const initialState: ExtensionState = {
+  extensionTypes: [],
+  extensionVersions: [],
+  loading: false,
+  error: null,
+  loadedTypes: null,
+  loadedVersions: null,
+};
+
+export const useExtensionStore = create<ExtensionStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setExtensionTypes: (
+        extensionTypes: VMExtensionType[],
+        publisher: string,
+        location: string
+      ) => {
+        set(
+          {
+            extensionTypes,
+            loadedTypes: { publisher, location },
+            error: null,
+          },
+          false,
+          'extension/setExtensionTypes'
+        );
+      },
+
+      setExtensionVersions: (
+        extensionVersions: VMExtensionVersion[],
+        publisher: string,
+        type: string,
+        location: string
+      ) => {
+        set(
+          {
+            extensionVersions,
+            loadedVersions: { publisher, type, location },
+            error: null,
+          },
+          false,
+          'extension/setExtensionVersions'
+        );
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ loading }, false, 'extension/setLoading');
+      },
+
+      setError: (error: string | null) => {
+        set({ error, loading: false }, false, 'extension/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'extension/clearAll');
+      },
+    }),
+    {
+      name: 'extension-store',
+    }
+  )
+);
@@ -0,0 +1,122 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type {
+  Gallery,
+  GalleryImageDefinition,
+  GalleryImageVersion,
+} from '../types';
+
+interface GalleryState {
+  galleries: Gallery[];
+  imageDefinitions: GalleryImageDefinition[];
+  imageVersions: GalleryImageVersion[];
+  loading: boolean;
+  error: string | null;
+  // Track what data is currently loaded
+  loadedGalleries: boolean;
+  loadedImageDefinitions: { resourceGroup: string; gallery: string } | null;
+  loadedImageVersions: {
+    resourceGroup: string;
+    gallery: string;
+    image: string;
+  } | null;
+}
+
+interface GalleryActions {
+  setGalleries: (galleries: Gallery[]) => void;
+  setImageDefinitions: (
+    imageDefinitions: GalleryImageDefinition[],
+    resourceGroup: string,
+    gallery: string
+  ) => void;
+  setImageVersions: (
+    imageVersions: GalleryImageVersion[],
+    resourceGroup: string,
+    gallery: string,
+    image: string
+  ) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type GalleryStore = GalleryState & GalleryActions;
+
+const initialState: GalleryState = {
+  galleries: [],
+  imageDefinitions: [],
+  imageVersions: [],
+  loading: false,
+  error: null,
+  loadedGalleries: false,
+  loadedImageDefinitions: null,
+  loadedImageVersions: null,
+};
+
+export const useGalleryStore = create<GalleryStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setGalleries: (galleries: Gallery[]) => {
+        set(
+          {
+            galleries,
+            loadedGalleries: true,
+            error: null,
+          },
+          false,
+          'gallery/setGalleries'
+        );
+      },
+
+      setImageDefinitions: (
+        imageDefinitions: GalleryImageDefinition[],
+        resourceGroup: string,
+        gallery: string
+      ) => {
+        set(
+          {
+            imageDefinitions,
+            loadedImageDefinitions: { resourceGroup, gallery },
+            error: null,
+          },
+          false,
+          'gallery/setImageDefinitions'
+        );
+      },
+
+      setImageVersions: (
+        imageVersions: GalleryImageVersion[],
+        resourceGroup: string,
+        gallery: string,
+        image: string
+      ) => {
+        set(
+          {
+            imageVersions,
+            loadedImageVersions: { resourceGroup, gallery, image },
+            error: null,
+          },
+          false,
+          'gallery/setImageVersions'
+        );
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ loading }, false, 'gallery/setLoading');
+      },
+
+      setError: (error: string | null) => {
+        set({ error, loading: false }, false, 'gallery/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'gallery/clearAll');
+      },
+    }),
+    {
+      name: 'gallery-store',
+    }
+  )
+);
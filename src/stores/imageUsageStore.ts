@@ -0,0 +1,58 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { ImageUsageRecord } from '../types';
+
+interface ImageUsageState {
+  records: ImageUsageRecord[];
+  // Tenant the inventory was loaded for
+  loadedFor: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+interface ImageUsageActions {
+  setRecords: (records: ImageUsageRecord[], tenantId: string) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type ImageUsageStore = ImageUsageState & ImageUsageActions;
+
+const initialState: ImageUsageState = {
+  records: [],
+  loadedFor: null,
+  loading: false,
+  error: null,
+};
+
+export const useImageUsageStore = create<ImageUsageStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setRecords: (records: ImageUsageRecord[], tenantId: string) => {
+        set(
+          { records, loadedFor: tenantId, error: null },
+          false,
+          'imageUsage/setRecords'
+        );
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ loading }, false, 'imageUsage/setLoading');
+      },
+
+      setError: (error: string | null) => {
+        set({ error }, false, 'imageUsage/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'imageUsage/clearAll');
+      },
+    }),
+    {
+      name: 'image-usage-store',
+    }
+  )
+);
@@ -0,0 +1,177 @@
+import { create } from 'zustand';
+import { devtools, persist } from 'zustand/middleware';
+import type { SKU, ImageDeprecationStatus } from '../types';
+import { getSkuKey } from './vmImagesStore';
+
+// Browsed images kept for the deprecation calendar; saved images never expire
+export const MAX_BROWSED_IMAGES = 200;
+
+export interface WatchedImage {
+  publisher: string;
+  offer: string;
+  sku: string;
+  location: string;
+  saved: boolean;
+  deprecationStatus: ImageDeprecationStatus | null;
+  lastSeen: string;
+}
+
+interface ImageWatchState {
+  // Browsed and saved images keyed by getSkuKey
+  images: Record<string, WatchedImage>;
+}
+
+interface ImageWatchActions {
+  recordImage: (
+    sku: SKU,
+    deprecationStatus: ImageDeprecationStatus | null
+  ) => void;
+  updateDeprecationStatus: (
+    key: string,
+    deprecationStatus: ImageDeprecationStatus | null
+  ) => void;
+  toggleSaved: (
+    sku: SKU,
+    deprecationStatus?: ImageDeprecationStatus | null
+  ) => void;
+  removeImage: (key: string) => void;
+  clearBrowsed: () => void;
+}
+
+type ImageWatchStore = ImageWatchState & ImageWatchActions;
+
+// Drop the least recently seen browsed images once over the limit
+const pruneBrowsed = (
+  images: Record<string, WatchedImage>
+): Record<string, WatchedImage> => {
+  const browsed = Object.entries(images).filter(([, image]) => !image.saved);
+  if (browsed.length <= MAX_BROWSED_IMAGES) {
+    return images;
+  }
+
+  const pruned = { ...images };
+  browsed
+    .sort(([, a], [, b]) => a.lastSeen.localeCompare(b.lastSeen))
+    .slice(0, browsed.length - MAX_BROWSED_IMAGES)
+    .forEach(([key]) => delete pruned[key]);
+  return pruned;
+};
+
+export const useImageWatchStore = create<ImageWatchStore>()(
+  devtools(
+    persist(
+      (set, get) => ({
+        images: {},
+
+        recordImage: (
+          sku: SKU,
+          deprecationStatus: ImageDeprecationStatus | null
+        ) => {
+          const key = getSkuKey(sku);
+          const existing = get().images[key];
+
+          set(
+            {
+              images: pruneBrowsed({
+                ...get().images,
+                [key]: {
+                  publisher: sku.publisher,
+                  offer: sku.offer,
+                  sku: sku.name,
+                  location: sku.location,
+                  saved: existing?.saved ?? false,
+                  deprecationStatus,
+                  lastSeen: new Date().toISOString(),
+                },
+              }),
+            },
+            false,
+            'imageWatch/recordImage'
+          );
+        },
+
+        updateDeprecationStatus: (
+          key: string,
+          deprecationStatus: ImageDeprecationStatus | null
+        ) => {
+          const existing = get().images[key];
+          if (!existing) return;
+
+          set(
+            {
+              images: {
+                ...get().images,
+                [key]: {
+                  ...existing,
+                  deprecationStatus,
+                  lastSeen: new Date().toISOString(),
+                },
+              },
+            },
+            false,
+            'imageWatch/updateDeprecationStatus'
+          );
+        },
+
+        toggleSaved: (
+          sku: SKU,
+          deprecationStatus?: ImageDeprecationStatus | null
+        ) => {
+          const key = getSkuKey(sku);
+          const existing = get().images[key];
+
+          set(
+            {
+              images: pruneBrowsed({
+                ...get().images,
+                [key]: {
+                  publisher: sku.publisher,
+                  offer: sku.offer,
+                  sku: sku.name,
+                  location: sku.location,
+                  deprecationStatus:
+                    deprecationStatus ?? existing?.deprecationStatus ?? null,
+                  lastSeen: new Date().toISOString(),
+                  saved: !existing?.saved,
+                },
+              }),
+            },
+            false,
+            'imageWatch/toggleSaved'
+          );
+        },
+
+        removeImage: (key: string) => {
+          const images = { ...get().images };
+          delete images[key];
+          set({ images }, false, 'imageWatch/removeImage');
+        },
+
+        clearBrowsed: () => {
+          const images = Object.fromEntries(
+            Object.entries(get().images).filter(([, image]) => image.saved)
+          );
+          set({ images }, false, 'imageWatch/clearBrowsed');
+        },
+      }),
+      {
+        name: 'image-watch-store',
+      }
+    ),
+    {
+      name: 'image-watch-store-devtools',
+    }
+  )
+);
+
+// Selectors for common use cases
+export const useWatchedImages = () => {
+  const images = useImageWatchStore((state) => state.images);
+  const toggleSaved = useImageWatchStore((state) => state.toggleSaved);
+  const removeImage = useImageWatchStore((state) => state.removeImage);
+  const updateDeprecationStatus = useImageWatchStore(
+    (state) => state.updateDeprecationStatus
+  );
+
+  return { images, toggleSaved, removeImage, updateDeprecationStatus };
+};
@@ -1,9 +1,5 @@
 // Auth store exports
-export {
-  useAuthStore,
-  useAuth,
-  useSubscriptions,
-} from './authStore';
+export { useAuthStore, useAuth, useSubscriptions } from './authStore';
 
 // VM Images store exports
 export {
@@ -22,5 +18,26 @@ export {
   useNavigationActions,
 } from './navigationStore';
 
+// Image watch store exports
+export { useImageWatchStore, useWatchedImages } from './imageWatchStore';
+
+// Azure Compute Gallery store exports
+export { useGalleryStore } from './galleryStore';
+
+// Community and direct-shared gallery store exports
+export { useSharedGalleryStore } from './sharedGalleryStore';
+
+// VM extension store exports
+export { useExtensionStore } from './extensionStore';
+
+// Managed image store exports
+export { useManagedImageStore } from './managedImageStore';
+
+// Catalog index store exports
+export { useCatalogIndexStore } from './catalogIndexStore';
+
+// Image usage inventory store exports
+export { useImageUsageStore } from './imageUsageStore';
+
 // Re-export types for convenience
-export type { NavigationLevel, BreadcrumbItem } from '../types';
\ No newline at end of file
+export type { NavigationLevel, BreadcrumbItem } from '../types';
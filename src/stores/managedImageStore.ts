@@ -0,0 +1,68 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type { ManagedImage } from '../types';
+
+interface ManagedImageState {
+  managedImages: ManagedImage[];
+  loading: boolean;
+  error: string | null;
+  // Subscription the managed images were loaded for
+  loadedFor: string | null;
+}
+
+interface ManagedImageActions {
+  setManagedImages: (
+    managedImages: ManagedImage[],
+    subscriptionId: string
+  ) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type ManagedImageStore = ManagedImageState & ManagedImageActions;
+
+const initialState: ManagedImageState = {
+  managedImages: [],
+  loading: false,
+  error: null,
+  loadedFor: null,
+};
+
+export const useManagedImageStore = create<ManagedImageStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setManagedImages: (
+        managedImages: ManagedImage[],
+        subscriptionId: string
+      ) => {
+        set(
+          {
+            managedImages,
+            loadedFor: subscriptionId,
+            error: null,
+          },
+          false,
+          'managedImage/setManagedImages'
+        );
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ loading }, false, 'managedImage/setLoading');
+      },
+
+      setError: (error: string | null) => {
+        set({ error, loading: false }, false, 'managedImage/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'managedImage/clearAll');
+      },
+    }),
+    {
+      name: 'managed-image-store',
+    }
+  )
+);
@@ -0,0 +1,130 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import type {
+  SharedGallery,
+  SharedGalleryImage,
+  SharedGalleryImageVersion,
+} from '../types';
+
+interface SharedGalleryState {
+  galleries: SharedGallery[];
+  // Community gallery being browsed; community galleries are looked up by name
+  communityGallery: SharedGallery | null;
+  images: SharedGalleryImage[];
+  imageVersions: SharedGalleryImageVersion[];
+  loading: boolean;
+  error: string | null;
+  // Track what data is currently loaded
+  loadedGalleries: string | null;
+  loadedImages: { location: string; gallery: string } | null;
+  loadedImageVersions: {
+    location: string;
+    gallery: string;
+    image: string;
+  } | null;
+}
+
+interface SharedGalleryActions {
+  setGalleries: (galleries: SharedGallery[], location: string) => void;
+  setCommunityGallery: (gallery: SharedGallery | null) => void;
+  setImages: (
+    images: SharedGalleryImage[],
+    location: string,
+    gallery: string
+  ) => void;
+  setImageVersions: (
+    imageVersions: SharedGalleryImageVersion[],
+    location: string,
+    gallery: string,
+    image: string
+  ) => void;
+  setLoading: (loading: boolean) => void;
+  setError: (error: string | null) => void;
+  clearAll: () => void;
+}
+
+type SharedGalleryStore = SharedGalleryState & SharedGalleryActions;
+
+const initialState: SharedGalleryState = {
+  galleries: [],
+  communityGallery: null,
+  images: [],
+  imageVersions: [],
+  loading: false,
+  error: null,
+  loadedGalleries: null,
+  loadedImages: null,
+  loadedImageVersions: null,
+};
+
+export const useSharedGalleryStore = create<SharedGalleryStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      setGalleries: (galleries: SharedGallery[], location: string) => {
+        set(
+          {
+            galleries,
+            loadedGalleries: location,
+            error: null,
+          },
+          false,
+          'sharedGallery/setGalleries'
+        );
+      },
+
+      setCommunityGallery: (communityGallery: SharedGallery | null) => {
+        set({ communityGallery }, false, 'sharedGallery/setCommunityGallery');
+      },
+
+      setImages: (
+        images: SharedGalleryImage[],
+        location: string,
+        gallery: string
+      ) => {
+        set(
+          {
+            images,
+            loadedImages: { location, gallery },
+            error: null,
+          },
+          false,
+          'sharedGallery/setImages'
+        );
+      },
+
+      setImageVersions: (
+        imageVersions: SharedGalleryImageVersion[],
+        location: string,
+        gallery: string,
+        image: string
+      ) => {
+        set(
+          {
+            imageVersions,
+            loadedImageVersions: { location, gallery, image },
+            error: null,
+          },
+          false,
+          'sharedGallery/setImageVersions'
+        );
+      },
+
+      setLoading: (loading: boolean) => {
+        set({ loading }, false, 'sharedGallery/setLoading');
+      },
+
+      setError: (error: string | null) => {
+        set({ error, loading: false }, false, 'sharedGallery/setError');
+      },
+
+      clearAll: () => {
+        set({ ...initialState }, false, 'sharedGallery/clearAll');
+      },
+    }),
+    {
+      name: 'shared-gallery-store',
+    }
+  )
+);
@@ -1,6 +1,11 @@
 import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
-import type { Publisher, Offer, SKU } from '../types';
+import type { Publisher, Offer, SKU, ImageVersionDetails } from '../types';
+
+// Key used to track per-SKU data such as the details of its newest version
+export const getSkuKey = (
+  sku: Pick<SKU, 'publisher' | 'offer' | 'name'>
+): string => `${sku.publisher}/${sku.offer}/${sku.name}`;
 
 // Helper function to filter items based on search query
 const filterItems = <T extends { name: string; displayName: string }>(
@@ -10,7 +15,7 @@ const filterItems = <T extends { name: string; displayName: string }>(
   if (!query.trim()) {
     return items;
   }
-  
+
   const lowerQuery = query.toLowerCase().trim();
   return items.filter(
     (item) =>
@@ -29,6 +34,8 @@ interface VMImagesState {
   loadedPublishers: boolean;
   loadedOffers: { publisher: string } | null;
   loadedSkus: { publisher: string; offer: string } | null;
+  // Details of the newest version of each SKU, keyed by getSkuKey
+  skuVersionDetails: Record<string, ImageVersionDetails>;
   // Search functionality
   searchQuery: string;
   filteredPublishers: Publisher[];
@@ -46,33 +53,37 @@ interface VMImagesActions {
   // Publishers
   setPublishers: (publishers: Publisher[]) => void;
   clearPublishers: () => void;
-  
+
   // Offers
   setOffers: (offers: Offer[], publisher: string) => void;
   clearOffers: () => void;
-  
+
   // SKUs
   setSkus: (skus: SKU[], publisher: string, offer: string) => void;
   clearSkus: () => void;
-  
+  setSkuVersionDetails: (skuKey: string, details: ImageVersionDetails) => void;
+
   // Loading and error states
   setLoading: (loading: boolean) => void;
   setError: (error: string | null) => void;
   clearError: () => void;
-  
+
   // Search functionality
   setSearchQuery: (query: string) => void;
   setPublishersSearch: (query: string) => void;
   setOffersSearch: (query: string) => void;
   setSkusSearch: (query: string) => void;
   clearSearch: () => void;
-  
+
   // Pagination
   setPublishersPage: (page: number) => void;
   setOffersPage: (page: number) => void;
   setSkusPage: (page: number) => void;
-  setItemsPerPage: (type: 'publishers' | 'offers' | 'skus', itemsPerPage: number) => void;
-  
+  setItemsPerPage: (
+    type: 'publishers' | 'offers' | 'skus',
+    itemsPerPage: number
+  ) => void;
+
   // Utility actions
   reset: () => void;
   clearAll: () => void;
@@ -89,6 +100,7 @@ const initialState: VMImagesState = {
   loadedPublishers: false,
   loadedOffers: null,
   loadedSkus: null,
+  skuVersionDetails: {},
   searchQuery: '',
   filteredPublishers: [],
   filteredOffers: [],
@@ -144,6 +156,7 @@ export const useVMImagesStore = create<VMImagesStore>()(
             skus: [],
             filteredSkus: [],
             loadedSkus: null,
+            skuVersionDetails: {},
             error: null,
           },
           false,
@@ -161,6 +174,7 @@ export const useVMImagesStore = create<VMImagesStore>()(
             skus: [],
             filteredSkus: [],
             loadedSkus: null,
+            skuVersionDetails: {},
           },
           false,
           'vmImages/clearOffers'
@@ -175,6 +189,8 @@ export const useVMImagesStore = create<VMImagesStore>()(
             skus,
             filteredSkus,
             loadedSkus: { publisher, offer },
+            // Details were read in the region of the previous SKU list
+            skuVersionDetails: {},
             error: null,
           },
           false,
@@ -188,12 +204,26 @@ export const useVMImagesStore = create<VMImagesStore>()(
             skus: [],
             filteredSkus: [],
             loadedSkus: null,
+            skuVersionDetails: {},
           },
           false,
           'vmImages/clearSkus'
         );
       },
 
+      setSkuVersionDetails: (skuKey: string, details: ImageVersionDetails) => {
+        set(
+          (state) => ({
+            skuVersionDetails: {
+              ...state.skuVersionDetails,
+              [skuKey]: details,
+            },
+          }),
+          false,
+          'vmImages/setSkuVersionDetails'
+        );
+      },
+
       setLoading: (loading: boolean) => {
         set(
           {
@@ -329,7 +359,10 @@ export const useVMImagesStore = create<VMImagesStore>()(
         );
       },
 
-      setItemsPerPage: (type: 'publishers' | 'offers' | 'skus', itemsPerPage: number) => {
+      setItemsPerPage: (
+        type: 'publishers' | 'offers' | 'skus',
+        itemsPerPage: number
+      ) => {
         set(
           (state) => ({
             pagination: {
@@ -365,6 +398,7 @@ export const useVMImagesStore = create<VMImagesStore>()(
             loadedPublishers: false,
             loadedOffers: null,
             loadedSkus: null,
+            skuVersionDetails: {},
             error: null,
             loading, // Preserve current loading state
           },
@@ -380,7 +414,11 @@ export const useVMImagesStore = create<VMImagesStore>()(
 );
 
 // Helper function to paginate items
-const paginateItems = <T>(items: T[], currentPage: number, itemsPerPage: number) => {
+const paginateItems = <T>(
+  items: T[],
+  currentPage: number,
+  itemsPerPage: number
+) => {
   const startIndex = (currentPage - 1) * itemsPerPage;
   const endIndex = startIndex + itemsPerPage;
   return items.slice(startIndex, endIndex);
@@ -389,16 +427,24 @@ const paginateItems = <T>(items: T[], currentPage: number, itemsPerPage: number)
 // Selectors for common use cases
 export const usePublishers = () => {
   const publishers = useVMImagesStore((state) => state.publishers);
-  const filteredPublishers = useVMImagesStore((state) => state.filteredPublishers);
+  const filteredPublishers = useVMImagesStore(
+    (state) => state.filteredPublishers
+  );
   const loading = useVMImagesStore((state) => state.loading);
   const error = useVMImagesStore((state) => state.error);
   const loaded = useVMImagesStore((state) => state.loadedPublishers);
   const searchQuery = useVMImagesStore((state) => state.searchQuery);
-  const paginationState = useVMImagesStore((state) => state.pagination.publishers);
-  
+  const paginationState = useVMImagesStore(
+    (state) => state.pagination.publishers
+  );
+
   const { currentPage, itemsPerPage } = paginationState;
-  const paginatedPublishers = paginateItems(filteredPublishers, currentPage, itemsPerPage);
-  
+  const paginatedPublishers = paginateItems(
+    filteredPublishers,
+    currentPage,
+    itemsPerPage
+  );
+
   return {
     publishers: paginatedPublishers,
     allPublishers: publishers,
@@ -424,10 +470,14 @@ export const useOffers = () => {
   const loadedFor = useVMImagesStore((state) => state.loadedOffers);
   const searchQuery = useVMImagesStore((state) => state.searchQuery);
   const paginationState = useVMImagesStore((state) => state.pagination.offers);
-  
+
   const { currentPage, itemsPerPage } = paginationState;
-  const paginatedOffers = paginateItems(filteredOffers, currentPage, itemsPerPage);
-  
+  const paginatedOffers = paginateItems(
+    filteredOffers,
+    currentPage,
+    itemsPerPage
+  );
+
   return {
     offers: paginatedOffers,
     allOffers: offers,
@@ -453,10 +503,10 @@ export const useSkus = () => {
   const loadedFor = useVMImagesStore((state) => state.loadedSkus);
   const searchQuery = useVMImagesStore((state) => state.searchQuery);
   const paginationState = useVMImagesStore((state) => state.pagination.skus);
-  
+
   const { currentPage, itemsPerPage } = paginationState;
   const paginatedSkus = paginateItems(filteredSkus, currentPage, itemsPerPage);
-  
+
   return {
     skus: paginatedSkus,
     allSkus: skus,
@@ -477,7 +527,7 @@ export const useSkus = () => {
 export const useVMImagesLoading = () => {
   const loading = useVMImagesStore((state) => state.loading);
   const error = useVMImagesStore((state) => state.error);
-  
+
   return { loading, error };
 };
 
@@ -485,15 +535,17 @@ export const useVMImagesSearch = () => {
   const searchQuery = useVMImagesStore((state) => state.searchQuery);
   const setSearchQuery = useVMImagesStore((state) => state.setSearchQuery);
   const clearSearch = useVMImagesStore((state) => state.clearSearch);
-  
+
   return { searchQuery, setSearchQuery, clearSearch };
 };
 
 export const useVMImagesPagination = () => {
-  const setPublishersPage = useVMImagesStore((state) => state.setPublishersPage);
+  const setPublishersPage = useVMImagesStore(
+    (state) => state.setPublishersPage
+  );
   const setOffersPage = useVMImagesStore((state) => state.setOffersPage);
   const setSkusPage = useVMImagesStore((state) => state.setSkusPage);
   const setItemsPerPage = useVMImagesStore((state) => state.setItemsPerPage);
-  
+
   return { setPublishersPage, setOffersPage, setSkusPage, setItemsPerPage };
-};
\ No newline at end of file
+};
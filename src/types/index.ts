@@ -10,6 +10,14 @@ export interface AzureLocation {
   name: string;
   displayName: string;
   regionalDisplayName?: string;
+  regionType?: string; // 'Physical' or 'Logical'
+}
+
+// Azure Extended Zone (edge zone) attached to a home region
+export interface EdgeZone {
+  name: string;
+  displayName: string;
+  homeLocation: string;
 }
 
 export interface Publisher {
@@ -39,18 +47,413 @@ export interface VMImageReference {
   offer: string;
   sku: string;
   version: string;
+  // Marketplace purchase plan, required by most third-party images
+  plan?: PurchasePlan | null;
+  // Edge zone the image was browsed in; emitted as extendedLocation
+  edgeZone?: string | null;
+  // Security settings the VM is deployed with; emitted as securityProfile
+  securityProfile?: VMSecurityProfile | null;
+}
+
+// Reference to an image resource by ID, e.g. an Azure Compute Gallery image
+export interface ResourceImageReference {
+  id: string;
+  plan?: PurchasePlan | null;
+}
+
+// Reference to a community gallery image, e.g.
+// /CommunityGalleries/{publicGalleryName}/Images/{image}/Versions/{version}
+export interface CommunityGalleryImageReference {
+  communityGalleryImageId: string;
+  plan?: PurchasePlan | null;
+}
+
+// Reference to an image shared directly with the subscription or tenant, e.g.
+// /SharedGalleries/{galleryUniqueName}/Images/{image}/Versions/{version}
+export interface SharedGalleryImageReference {
+  sharedGalleryImageId: string;
+  plan?: PurchasePlan | null;
+}
+
+// Any image reference the IaC generators accept
+export type ImageReference =
+  | VMImageReference
+  | ResourceImageReference
+  | CommunityGalleryImageReference
+  | SharedGalleryImageReference;
+
+// Image version detail types (single-version ARM endpoint)
+export interface ImageOSDiskImage {
+  operatingSystem: string;
+  sizeInGb?: number;
+}
+
+export interface ImageDataDiskImage {
+  lun: number;
+  sizeInGb?: number;
+}
+
+export interface ImageFeature {
+  name: string;
+  value: string;
+}
+
+export interface PurchasePlan {
+  name: string;
+  publisher: string;
+  product: string;
+}
+
+export interface AutomaticOSUpgradeProperties {
+  automaticOSUpgradeSupported: boolean;
+}
+
+export interface ImageDisallowedConfiguration {
+  vmDiskType?: string;
+}
+
+// Retirement state Azure publishes on marketplace image versions
+export type ImageState = 'Active' | 'ScheduledForDeprecation' | 'Deprecated';
+
+export interface ImageAlternativeOption {
+  type: 'Offer' | 'Sku';
+  value: string;
+}
+
+export interface ImageDeprecationStatus {
+  imageState: ImageState;
+  scheduledDeprecationTime?: string;
+  alternativeOption: ImageAlternativeOption | null;
+}
+
+// Whether an image can, must or cannot run as a security type
+export type ImageSecuritySupport = 'required' | 'supported' | 'unsupported';
+
+// Security types an image version supports, from its SecurityType feature
+export interface ImageSecurityCapabilities {
+  // Raw SecurityType value, e.g. 'TrustedLaunchAndConfidentialVmSupported'
+  securityType: string | null;
+  trustedLaunch: ImageSecuritySupport;
+  confidentialVM: ImageSecuritySupport;
+}
+
+export type VMSecurityType = 'TrustedLaunch' | 'ConfidentialVM';
+
+export interface VMSecurityProfile {
+  securityType: VMSecurityType;
+  secureBootEnabled: boolean;
+  vTpmEnabled: boolean;
+}
+
+export interface ImageVersionDetails {
+  name: string;
+  location: string;
+  id?: string;
+  osDiskImage: ImageOSDiskImage | null;
+  dataDiskImages: ImageDataDiskImage[];
+  hyperVGeneration?: string;
+  architecture?: string;
+  features: ImageFeature[];
+  security: ImageSecurityCapabilities;
+  plan: PurchasePlan | null;
+  automaticOSUpgradeProperties: AutomaticOSUpgradeProperties | null;
+  disallowed: ImageDisallowedConfiguration | null;
+  deprecationStatus: ImageDeprecationStatus | null;
+}
+
+// One compared property of two image versions
+export interface ImageVersionChange {
+  label: string;
+  before: string;
+  after: string;
+  changed: boolean;
+  // Deployments pinned to the older version may fail on the newer one
+  breaking: boolean;
+  note?: string;
+}
+
+// A marketplace image version read by its publisher's numbering scheme
+export interface ParsedImageVersion {
+  version: string;
+  // Numeric dotted parts, e.g. [22, 4, 202410020]
+  parts: number[];
+  // major.minor.patch without leading zeros
+  semver: string;
+  // Release date (YYYY-MM-DD) estimated from the build number, null when
+  // the version does not encode one
+  releaseDate: string | null;
+}
+
+// Release history of a SKU, oldest first
+export interface ImageReleaseCadence {
+  releases: { version: string; releaseDate: string }[];
+  // Median days between consecutive releases, null below two releases
+  medianIntervalDays: number | null;
+}
+
+// Availability of a SKU in a single region
+export interface SKURegionAvailability {
+  location: string;
+  displayName: string;
+  available: boolean;
+  latestVersion: string | null;
+  versionCount: number;
+}
+
+// A single marketplace image in the flat catalog index
+export interface CatalogIndexEntry {
+  publisher: string;
+  offer: string;
+  sku: string;
+}
+
+// Catalog index built by crawling every publisher of a location
+export interface CatalogIndex {
+  subscriptionId: string;
+  location: string;
+  edgeZone: string | null;
+  entries: CatalogIndexEntry[];
+  // Offer and SKU listings that could not be loaded
+  failed: number;
+  builtAt: number;
+}
+
+export interface CatalogCrawlProgress {
+  phase: 'publishers' | 'offers' | 'skus';
+  completed: number;
+  total: number;
+  failed: number;
+}
+
+// VM extension artifacts published under artifacttypes/vmextension
+export interface VMExtensionType {
+  name: string;
+  publisher: string;
+  location: string;
+}
+
+export interface VMExtensionVersion {
+  name: string;
+  // Major.minor form expected by the extension resource
+  typeHandlerVersion: string;
 }
 
+export interface VMExtensionReference {
+  publisher: string;
+  type: string;
+  typeHandlerVersion: string;
+}
+
+// Marketplace terms agreement for a purchase plan in a subscription
+export interface MarketplaceAgreement {
+  publisher: string;
+  product: string;
+  plan: string;
+  accepted: boolean;
+  licenseTextLink?: string;
+  privacyPolicyLink?: string;
+  marketplaceTermsLink?: string;
+  retrieveDatetime?: string;
+}
+
+// Azure Compute Gallery types
+export interface Gallery {
+  name: string;
+  id: string;
+  location: string;
+  resourceGroup: string;
+  description?: string;
+}
+
+export interface GalleryImageIdentifier {
+  publisher: string;
+  offer: string;
+  sku: string;
+}
+
+export interface GalleryImageDefinition {
+  name: string;
+  id: string;
+  galleryName: string;
+  resourceGroup: string;
+  location: string;
+  osType: string; // 'Linux' or 'Windows'
+  osState: string; // 'Generalized' or 'Specialized'
+  hyperVGeneration?: string;
+  architecture?: string;
+  identifier: GalleryImageIdentifier;
+  description?: string;
+  endOfLifeDate?: string;
+  purchasePlan: PurchasePlan | null;
+}
+
+export interface GalleryImageVersion {
+  name: string;
+  id: string;
+  location: string;
+  publishedDate?: string;
+  endOfLifeDate?: string;
+  excludeFromLatest: boolean;
+  provisioningState?: string;
+  targetRegions: string[];
+}
+
+// Classic managed image (Microsoft.Compute/images) types
+export type ManagedImageSourceType =
+  | 'VirtualMachine'
+  | 'ManagedDisk'
+  | 'Snapshot'
+  | 'Blob';
+
+export interface ManagedImageSource {
+  type: ManagedImageSourceType;
+  // Resource ID of the VM, disk or snapshot, or the VHD blob URI
+  value: string;
+}
+
+export interface ManagedImage {
+  name: string;
+  id: string;
+  location: string;
+  resourceGroup: string;
+  osType: string; // 'Linux' or 'Windows'
+  osState: string; // 'Generalized' or 'Specialized'
+  hyperVGeneration?: string;
+  source: ManagedImageSource | null;
+  zoneResilient: boolean;
+  provisioningState?: string;
+}
+
+// Community and direct-shared gallery types (location-scoped, read-only)
+export type SharedGalleryKind = 'community' | 'shared';
+
+export interface SharedGallery {
+  name: string;
+  uniqueId: string;
+  kind: SharedGalleryKind;
+  location: string;
+  publisherUri?: string;
+  publisherContact?: string;
+  eula?: string;
+}
+
+export interface SharedGalleryImage {
+  name: string;
+  uniqueId: string;
+  kind: SharedGalleryKind;
+  galleryName: string;
+  location: string;
+  osType: string;
+  osState: string;
+  hyperVGeneration?: string;
+  architecture?: string;
+  identifier: GalleryImageIdentifier;
+  endOfLifeDate?: string;
+  eula?: string;
+  purchasePlan: PurchasePlan | null;
+}
+
+export interface SharedGalleryImageVersion {
+  name: string;
+  uniqueId: string;
+  location: string;
+  publishedDate?: string;
+  endOfLifeDate?: string;
+  excludeFromLatest: boolean;
+}
+
+// Image usage inventory (Azure Resource Graph) types
+export type ImageUsageResourceType =
+  | 'VirtualMachine'
+  | 'VirtualMachineScaleSet';
+
+// A VM or scale set deployed from a marketplace image
+export interface ImageUsageRecord {
+  id: string;
+  name: string;
+  resourceType: ImageUsageResourceType;
+  subscriptionId: string;
+  resourceGroup: string;
+  location: string;
+  publisher: string;
+  offer: string;
+  sku: string;
+  version: string; // As deployed: a version number or 'latest'
+  exactVersion?: string; // Version actually running, reported by ARM
+  instanceCount: number; // Scale set capacity; 1 for VMs
+}
+
+export interface ImageVersionUsage {
+  version: string;
+  vmCount: number;
+}
+
+// Usage of one marketplace SKU across the inventoried subscriptions
+export interface SKUImageUsage {
+  publisher: string;
+  offer: string;
+  sku: string;
+  vmCount: number; // VMs plus scale set instances
+  versions: ImageVersionUsage[]; // Newest first
+  resources: ImageUsageRecord[];
+}
+
+export type FleetImageStatus = 'current' | 'outdated' | 'unknown';
+
+export interface FleetReportEntry {
+  resource: ImageUsageRecord;
+  runningVersion: string | null;
+  latestVersion: string | null;
+  status: FleetImageStatus;
+}
+
+// VM size (Microsoft.Compute/skus) types
+export interface VMSize {
+  name: string;
+  family?: string;
+  tier?: string;
+  vCPUs?: number;
+  memoryGB?: number;
+  // 'V1' and/or 'V2'
+  hyperVGenerations: string[];
+  // 'x64' or 'Arm64'
+  architecture: string;
+  acceleratedNetworking: boolean;
+  // 'SCSI' and/or 'NVMe'
+  diskControllerTypes: string[];
+  // Not offered to the subscription in the location
+  restricted: boolean;
+}
+
+// Optional features a size must also support to count as compatible
+export interface VMSizeRequirements {
+  requireAcceleratedNetworking?: boolean;
+  requireNvme?: boolean;
+}
+
+export interface VMSizeCompatibility {
+  size: VMSize;
+  compatible: boolean;
+  // Why an incompatible size was rejected
+  reasons: string[];
+}
+
+// Operating system a full VM template is generated for
+export type ImageOSType = 'Linux' | 'Windows';
+
 // IaC format types
 export interface IaCFormats {
   arm: string;
   terraform: string;
   bicep: string;
   ansible: string;
+  azureCli: string;
+  azureCliPowerShell: string;
+  powershell: string;
 }
 
 export interface CopyableImageData {
-  imageReference: VMImageReference;
+  imageReference: ImageReference;
   formats: IaCFormats;
 }
 
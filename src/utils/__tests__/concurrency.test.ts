@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import { InFlightRequests, mapWithConcurrency } from '../concurrency';
+import { RequestAbortedError } from '../errorHandling';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should keep results in input order', async () => {
+    const result = await mapWithConcurrency([30, 10, 20], 3, async (ms) => {
+      await delay(ms);
+      return ms * 2;
+    });
+
+    expect(result).toEqual([60, 20, 40]);
+  });
+
+  it('should never run more mappers than the concurrency limit', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency(
+      Array.from({ length: 10 }, (_, i) => i),
+      3,
+      async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await delay(5);
+        running--;
+      }
+    );
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('should report progress after each item', async () => {
+    const onProgress = vi.fn();
+
+    await mapWithConcurrency(
+      ['a', 'b', 'c'],
+      2,
+      async (item) => item,
+      onProgress
+    );
+
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith(3, 3);
+  });
+
+  it('should handle empty input', async () => {
+    const mapper = vi.fn();
+
+    expect(await mapWithConcurrency([], 4, mapper)).toEqual([]);
+    expect(mapper).not.toHaveBeenCalled();
+  });
+
+  it('should reject when a mapper fails', async () => {
+    await expect(
+      mapWithConcurrency([1, 2], 2, async (item) => {
+        if (item === 2) throw new Error('boom');
+        return item;
+      })
+    ).rejects.toThrow('boom');
+  });
+});
+
+describe('InFlightRequests', () => {
+  it('should share one request between identical concurrent calls', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => {
+      await delay(5);
+      return 'result';
+    });
+
+    const results = await Promise.all([
+      inFlight.run('key', request),
+      inFlight.run('key', request),
+    ]);
+
+    expect(results).toEqual(['result', 'result']);
+    expect(request).toHaveBeenCalledTimes(1);
+    expect(inFlight.size).toBe(0);
+  });
+
+  it('should not share requests with different keys', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => 'result');
+
+    await Promise.all([inFlight.run('a', request), inFlight.run('b', request)]);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should start a new request once the previous one settled', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => 'result');
+
+    await inFlight.run('key', request);
+    await inFlight.run('key', request);
+
+    expect(request).toHaveBeenCalledTimes(2);
+  });
+
+  it('should only abort the shared request when every caller aborted', async () => {
+    const inFlight = new InFlightRequests();
+    let requestSignal: AbortSignal | undefined;
+    const request = vi.fn(async (signal: AbortSignal) => {
+      requestSignal = signal;
+      await delay(5);
+      return 'result';
+    });
+    const first = new AbortController();
+    const second = new AbortController();
+
+    const firstResult = inFlight.run('key', request, first.signal);
+    const secondResult = inFlight.run('key', request, second.signal);
+
+    first.abort();
+    await expect(firstResult).rejects.toThrow(RequestAbortedError);
+    expect(requestSignal?.aborted).toBe(false);
+
+    second.abort();
+    await expect(secondResult).rejects.toThrow(RequestAbortedError);
+    expect(requestSignal?.aborted).toBe(true);
+    expect(inFlight.size).toBe(0);
+  });
+
+  it('should keep the request running for callers that did not abort', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => {
+      await delay(5);
+      return 'result';
+    });
+    const controller = new AbortController();
+
+    const aborted = inFlight.run('key', request, controller.signal);
+    const kept = inFlight.run('key', request);
+    controller.abort();
+
+    await expect(aborted).rejects.toThrow(RequestAbortedError);
+    await expect(kept).resolves.toBe('result');
+  });
+
+  it('should reject immediately for an already aborted signal', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => 'result');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      inFlight.run('key', request, controller.signal)
+    ).rejects.toThrow(RequestAbortedError);
+    expect(request).not.toHaveBeenCalled();
+  });
+
+  it('should pass request failures to every caller', async () => {
+    const inFlight = new InFlightRequests();
+    const request = vi.fn(async () => {
+      throw new Error('boom');
+    });
+
+    const results = await Promise.allSettled([
+      inFlight.run('key', request),
+      inFlight.run('key', request),
+    ]);
+
+    expect(results.map((result) => result.status)).toEqual([
+      'rejected',
+      'rejected',
+    ]);
+    expect(request).toHaveBeenCalledTimes(1);
+  });
+});
@@ -8,6 +8,7 @@ import {
   ServerError,
   ValidationError,
   ServiceUnavailableError,
+  RequestAbortedError,
   CircuitBreaker,
   CircuitBreakerState,
   classifyError,
@@ -16,8 +17,11 @@ import {
   enhancedFetch,
   getUserFriendlyMessage,
   createErrorReport,
+  isAbortError,
+  parseRetryAfter,
   DEFAULT_RETRY_CONFIG,
 } from '../errorHandling';
+import { setArmTransport } from '../armTransport';
 
 // Mock fetch globally
 const mockFetch = vi.fn();
@@ -27,7 +31,9 @@ describe('Error Classes', () => {
   it('should create NetworkError with correct properties', () => {
     const error = new NetworkError('Network failed');
     expect(error.code).toBe('NETWORK_ERROR');
-    expect(error.userMessage).toBe('Network connection failed. Please check your internet connection and try again.');
+    expect(error.userMessage).toBe(
+      'Network connection failed. Please check your internet connection and try again.'
+    );
     expect(error.retryable).toBe(true);
     expect(error.message).toBe('Network failed');
   });
@@ -35,7 +41,9 @@ describe('Error Classes', () => {
   it('should create AuthenticationError with correct properties', () => {
     const error = new AuthenticationError('Auth failed', 401);
     expect(error.code).toBe('AUTHENTICATION_ERROR');
-    expect(error.userMessage).toBe('Authentication failed. Please sign in again.');
+    expect(error.userMessage).toBe(
+      'Authentication failed. Please sign in again.'
+    );
     expect(error.retryable).toBe(false);
     expect(error.statusCode).toBe(401);
   });
@@ -67,7 +75,7 @@ describe('CircuitBreaker', () => {
   it('should execute successful operations', async () => {
     const operation = vi.fn().mockResolvedValue('success');
     const result = await circuitBreaker.execute(operation);
-    
+
     expect(result).toBe('success');
     expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
     expect(circuitBreaker.getFailureCount()).toBe(0);
@@ -75,7 +83,7 @@ describe('CircuitBreaker', () => {
 
   it('should track failures and open circuit', async () => {
     const operation = vi.fn().mockRejectedValue(new Error('failure'));
-    
+
     // First two failures should keep circuit closed
     await expect(circuitBreaker.execute(operation)).rejects.toThrow('failure');
     expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
@@ -93,42 +101,60 @@ describe('CircuitBreaker', () => {
 
   it('should reject requests when circuit is open', async () => {
     const operation = vi.fn().mockRejectedValue(new Error('failure'));
-    
+
     // Trigger circuit to open
     for (let i = 0; i < 3; i++) {
       await expect(circuitBreaker.execute(operation)).rejects.toThrow();
     }
-    
+
     expect(circuitBreaker.getState()).toBe(CircuitBreakerState.OPEN);
-    
+
     // Next request should be rejected immediately
-    await expect(circuitBreaker.execute(operation)).rejects.toThrow('Circuit breaker is open');
+    await expect(circuitBreaker.execute(operation)).rejects.toThrow(
+      'Circuit breaker is open'
+    );
     expect(operation).toHaveBeenCalledTimes(3); // Should not call operation again
   });
 
   it('should transition to half-open after timeout', async () => {
-    const operation = vi.fn()
+    const operation = vi
+      .fn()
       .mockRejectedValueOnce(new Error('failure'))
       .mockRejectedValueOnce(new Error('failure'))
       .mockRejectedValueOnce(new Error('failure'))
       .mockResolvedValueOnce('success');
-    
+
     // Open the circuit
     for (let i = 0; i < 3; i++) {
       await expect(circuitBreaker.execute(operation)).rejects.toThrow();
     }
-    
+
     expect(circuitBreaker.getState()).toBe(CircuitBreakerState.OPEN);
-    
+
     // Wait for reset timeout
-    await new Promise(resolve => setTimeout(resolve, 1100));
-    
+    await new Promise((resolve) => setTimeout(resolve, 1100));
+
     // Next request should transition to half-open and succeed
     const result = await circuitBreaker.execute(operation);
     expect(result).toBe('success');
     expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
     expect(circuitBreaker.getFailureCount()).toBe(0);
   });
+
+  it('should not count aborted requests as failures', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new RequestAbortedError('Request was aborted'));
+
+    for (let i = 0; i < 3; i++) {
+      await expect(circuitBreaker.execute(operation)).rejects.toThrow(
+        RequestAbortedError
+      );
+    }
+
+    expect(circuitBreaker.getState()).toBe(CircuitBreakerState.CLOSED);
+    expect(circuitBreaker.getFailureCount()).toBe(0);
+  });
 });
 
 describe('classifyError', () => {
@@ -138,6 +164,15 @@ describe('classifyError', () => {
     expect(classified).toBe(originalError);
   });
 
+  it('should classify AbortError as RequestAbortedError', () => {
+    const error = new DOMException('The operation was aborted.', 'AbortError');
+    const classified = classifyError(error);
+    expect(classified).toBeInstanceOf(RequestAbortedError);
+    expect(classified.retryable).toBe(false);
+    expect(isAbortError(error)).toBe(true);
+    expect(isAbortError(new NetworkError('Network failed'))).toBe(false);
+  });
+
   it('should classify fetch TypeError as NetworkError', () => {
     const error = new TypeError('fetch failed');
     const classified = classifyError(error);
@@ -196,21 +231,30 @@ describe('classifyError', () => {
 
 describe('classifyHttpError', () => {
   it('should classify 400 as ValidationError', () => {
-    const response = new Response('Bad request', { status: 400, statusText: 'Bad Request' });
+    const response = new Response('Bad request', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(ValidationError);
     expect(error.statusCode).toBe(400);
   });
 
   it('should classify 401 as AuthenticationError', () => {
-    const response = new Response('Unauthorized', { status: 401, statusText: 'Unauthorized' });
+    const response = new Response('Unauthorized', {
+      status: 401,
+      statusText: 'Unauthorized',
+    });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(AuthenticationError);
     expect(error.statusCode).toBe(401);
   });
 
   it('should classify 403 as AuthorizationError', () => {
-    const response = new Response('Forbidden', { status: 403, statusText: 'Forbidden' });
+    const response = new Response('Forbidden', {
+      status: 403,
+      statusText: 'Forbidden',
+    });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(AuthorizationError);
     expect(error.statusCode).toBe(403);
@@ -220,29 +264,49 @@ describe('classifyHttpError', () => {
     const response = new Response('Too Many Requests', {
       status: 429,
       statusText: 'Too Many Requests',
-      headers: { 'Retry-After': '60' }
+      headers: { 'Retry-After': '60' },
     });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(RateLimitError);
     expect((error as RateLimitError).retryAfter).toBe(60000);
   });
 
+  it('should parse an HTTP date retry-after', () => {
+    const retryAt = new Date(Date.now() + 120000).toUTCString();
+    const response = new Response('Too Many Requests', {
+      status: 429,
+      headers: { 'Retry-After': retryAt },
+    });
+    const error = classifyHttpError(response) as RateLimitError;
+    expect(error.retryAfter).toBeGreaterThan(110000);
+    expect(error.retryAfter).toBeLessThanOrEqual(120000);
+  });
+
   it('should classify 500 as ServerError', () => {
-    const response = new Response('Internal Server Error', { status: 500, statusText: 'Internal Server Error' });
+    const response = new Response('Internal Server Error', {
+      status: 500,
+      statusText: 'Internal Server Error',
+    });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(ServerError);
     expect(error.statusCode).toBe(500);
   });
 
   it('should classify 503 as ServiceUnavailableError', () => {
-    const response = new Response('Service Unavailable', { status: 503, statusText: 'Service Unavailable' });
+    const response = new Response('Service Unavailable', {
+      status: 503,
+      statusText: 'Service Unavailable',
+    });
     const error = classifyHttpError(response);
     expect(error).toBeInstanceOf(ServiceUnavailableError);
     expect(error.statusCode).toBe(503);
   });
 
   it('should use custom response text', () => {
-    const response = new Response('', { status: 400, statusText: 'Bad Request' });
+    const response = new Response('', {
+      status: 400,
+      statusText: 'Bad Request',
+    });
     const error = classifyHttpError(response, 'Custom error message');
     expect(error.message).toContain('Custom error message');
   });
@@ -260,81 +324,149 @@ describe('withRetry', () => {
   it('should return result on first success', async () => {
     const operation = vi.fn().mockResolvedValue('success');
     const result = await withRetry(operation);
-    
+
     expect(result).toBe('success');
     expect(operation).toHaveBeenCalledTimes(1);
   });
 
   it('should retry on retryable errors', async () => {
-    const operation = vi.fn()
+    const operation = vi
+      .fn()
       .mockRejectedValueOnce(new NetworkError('Network failed'))
       .mockResolvedValueOnce('success');
-    
+
     const resultPromise = withRetry(operation, {
       ...DEFAULT_RETRY_CONFIG,
       maxRetries: 1,
       baseDelay: 100,
     });
-    
+
     // Fast-forward time to complete retry delay
     await vi.advanceTimersByTimeAsync(2000);
-    
+
     const result = await resultPromise;
     expect(result).toBe('success');
     expect(operation).toHaveBeenCalledTimes(2);
   }, 10000);
 
   it('should not retry on non-retryable errors', async () => {
-    const operation = vi.fn().mockRejectedValue(new AuthenticationError('Auth failed'));
-    
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new AuthenticationError('Auth failed'));
+
     await expect(withRetry(operation)).rejects.toThrow(AuthenticationError);
     expect(operation).toHaveBeenCalledTimes(1);
   });
 
   it('should respect max retries', async () => {
-    const operation = vi.fn().mockRejectedValue(new NetworkError('Network failed'));
-    
-    await expect(withRetry(operation, {
-      ...DEFAULT_RETRY_CONFIG,
-      maxRetries: 2,
-      baseDelay: 1,
-    })).rejects.toThrow(NetworkError);
-    
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new NetworkError('Network failed'));
+
+    await expect(
+      withRetry(operation, {
+        ...DEFAULT_RETRY_CONFIG,
+        maxRetries: 2,
+        baseDelay: 1,
+      })
+    ).rejects.toThrow(NetworkError);
+
     expect(operation).toHaveBeenCalledTimes(3); // Initial + 2 retries
   });
 
   it('should use exponential backoff', async () => {
-    const operation = vi.fn().mockRejectedValue(new NetworkError('Network failed'));
-    
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new NetworkError('Network failed'));
+
     const resultPromise = withRetry(operation, {
       ...DEFAULT_RETRY_CONFIG,
       maxRetries: 2,
       baseDelay: 100,
       backoffMultiplier: 2,
     });
-    
+
     // Wait for all retries to complete
     await vi.advanceTimersByTimeAsync(1000);
-    
+
     await expect(resultPromise).rejects.toThrow(NetworkError);
     expect(operation).toHaveBeenCalledTimes(3); // Initial + 2 retries
   }, 10000);
 
   it('should handle rate limit retry-after', async () => {
-    const operation = vi.fn().mockRejectedValue(new RateLimitError('Rate limited', 1000));
-    
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new RateLimitError('Rate limited', 1000));
+
     const resultPromise = withRetry(operation, {
       ...DEFAULT_RETRY_CONFIG,
       maxRetries: 1,
       baseDelay: 100,
     });
-    
+
     // Should wait 1000ms (retry-after) instead of 100ms (base delay)
     await vi.advanceTimersByTimeAsync(2000);
-    
+
     await expect(resultPromise).rejects.toThrow(RateLimitError);
     expect(operation).toHaveBeenCalledTimes(2);
   }, 10000);
+
+  it('should wait for retry-after even beyond the max delay', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValueOnce(new RateLimitError('Rate limited', 5000))
+      .mockResolvedValueOnce('success');
+
+    const resultPromise = withRetry(operation, {
+      ...DEFAULT_RETRY_CONFIG,
+      maxRetries: 1,
+      baseDelay: 100,
+      maxDelay: 500,
+    });
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(operation).toHaveBeenCalledTimes(1);
+
+    await vi.advanceTimersByTimeAsync(1100);
+    expect(await resultPromise).toBe('success');
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not start when the signal is already aborted', async () => {
+    const operation = vi.fn().mockResolvedValue('success');
+    const controller = new AbortController();
+    controller.abort();
+
+    await expect(
+      withRetry(operation, DEFAULT_RETRY_CONFIG, controller.signal)
+    ).rejects.toThrow(RequestAbortedError);
+    expect(operation).not.toHaveBeenCalled();
+  });
+
+  it('should stop retrying when aborted during the backoff delay', async () => {
+    const operation = vi
+      .fn()
+      .mockRejectedValue(new NetworkError('Network failed'));
+    const controller = new AbortController();
+
+    const resultPromise = withRetry(
+      operation,
+      {
+        ...DEFAULT_RETRY_CONFIG,
+        maxRetries: 3,
+        baseDelay: 1000,
+      },
+      controller.signal
+    );
+    const assertion =
+      expect(resultPromise).rejects.toThrow(RequestAbortedError);
+
+    await vi.advanceTimersByTimeAsync(10);
+    controller.abort();
+
+    await assertion;
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
 });
 
 describe('enhancedFetch', () => {
@@ -350,7 +482,7 @@ describe('enhancedFetch', () => {
   it('should return successful response', async () => {
     const mockResponse = new Response('success', { status: 200 });
     mockFetch.mockResolvedValue(mockResponse);
-    
+
     const response = await enhancedFetch('https://api.example.com');
     expect(response).toBe(mockResponse);
     expect(mockFetch).toHaveBeenCalledWith('https://api.example.com', {});
@@ -359,23 +491,29 @@ describe('enhancedFetch', () => {
   it('should classify and throw HTTP errors', async () => {
     const mockResponse = new Response('Unauthorized', { status: 401 });
     mockFetch.mockResolvedValue(mockResponse);
-    
-    await expect(enhancedFetch('https://api.example.com')).rejects.toThrow(AuthenticationError);
+
+    await expect(enhancedFetch('https://api.example.com')).rejects.toThrow(
+      AuthenticationError
+    );
   });
 
   it('should retry on network errors', async () => {
     mockFetch
       .mockRejectedValueOnce(new TypeError('fetch failed'))
       .mockResolvedValueOnce(new Response('success', { status: 200 }));
-    
-    const responsePromise = enhancedFetch('https://api.example.com', {}, {
-      ...DEFAULT_RETRY_CONFIG,
-      maxRetries: 1,
-      baseDelay: 100,
-    });
-    
+
+    const responsePromise = enhancedFetch(
+      'https://api.example.com',
+      {},
+      {
+        ...DEFAULT_RETRY_CONFIG,
+        maxRetries: 1,
+        baseDelay: 100,
+      }
+    );
+
     await vi.advanceTimersByTimeAsync(2000);
-    
+
     const response = await responsePromise;
     expect(response.status).toBe(200);
     expect(mockFetch).toHaveBeenCalledTimes(2);
@@ -384,16 +522,47 @@ describe('enhancedFetch', () => {
   it('should pass through fetch options', async () => {
     const mockResponse = new Response('success', { status: 200 });
     mockFetch.mockResolvedValue(mockResponse);
-    
+
     const options = {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ data: 'test' }),
     };
-    
+
     await enhancedFetch('https://api.example.com', options);
     expect(mockFetch).toHaveBeenCalledWith('https://api.example.com', options);
   });
+
+  it('should send requests through the configured transport', async () => {
+    const transport = vi
+      .fn()
+      .mockResolvedValue(new Response('local', { status: 200 }));
+    setArmTransport(transport);
+
+    try {
+      const response = await enhancedFetch('https://api.example.com', {
+        method: 'GET',
+      });
+      expect(await response.text()).toBe('local');
+      expect(transport).toHaveBeenCalledWith('https://api.example.com', {
+        method: 'GET',
+      });
+      expect(mockFetch).not.toHaveBeenCalled();
+    } finally {
+      setArmTransport(null);
+    }
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse seconds into milliseconds', () => {
+    expect(parseRetryAfter('17')).toBe(17000);
+  });
+
+  it('should return undefined for missing or invalid values', () => {
+    expect(parseRetryAfter(null)).toBeUndefined();
+    expect(parseRetryAfter('soon')).toBeUndefined();
+  });
 });
 
 describe('getUserFriendlyMessage', () => {
@@ -419,7 +588,7 @@ describe('createErrorReport', () => {
   it('should create error report for AppError', () => {
     const error = new NetworkError('Network failed', 0);
     const report = createErrorReport(error, { url: 'https://api.example.com' });
-    
+
     expect(report.code).toBe('NETWORK_ERROR');
     expect(report.message).toBe('Network failed');
     expect(report.userMessage).toBe(error.userMessage);
@@ -431,7 +600,7 @@ describe('createErrorReport', () => {
   it('should create error report for unknown error', () => {
     const error = new Error('Unknown error');
     const report = createErrorReport(error);
-    
+
     expect(report.code).toBe('SERVER_ERROR');
     expect(report.message).toContain('Unknown error');
     expect(report.retryable).toBe(true);
@@ -444,10 +613,10 @@ describe('createErrorReport', () => {
       value: { userAgent: 'test-agent' },
       writable: true,
     });
-    
+
     const error = new Error('Test error');
     const report = createErrorReport(error);
-    
+
     expect(report.userAgent).toBe('test-agent');
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  generateExtensionARMTemplate,
+  generateExtensionTerraformTemplate,
+  generateExtensionBicepTemplate,
+  generateAllExtensionFormats,
+  validateExtensionReference,
+} from '../extensionFormats';
+import type { VMExtensionReference } from '../../types';
+
+describe('VM extension snippets', () => {
+  const customScript: VMExtensionReference = {
+    publisher: 'Microsoft.Azure.Extensions',
+    type: 'CustomScript',
+    typeHandlerVersion: '2.1',
+  };
+
+  it('should generate an ARM extensions resource', () => {
+    const resource = JSON.parse(generateExtensionARMTemplate(customScript));
+
+    expect(resource.type).toBe('Microsoft.Compute/virtualMachines/extensions');
+    expect(resource.name).toBe(
+      "[format('{0}/{1}', parameters('vmName'), 'CustomScript')]"
+    );
+    expect(resource.properties).toEqual({
+      publisher: 'Microsoft.Azure.Extensions',
+      type: 'CustomScript',
+      typeHandlerVersion: '2.1',
+      autoUpgradeMinorVersion: true,
+      settings: {},
+    });
+  });
+
+  it('should generate an azurerm_virtual_machine_extension resource', () => {
+    const result = generateExtensionTerraformTemplate(customScript);
+
+    expect(result).toContain(
+      'resource "azurerm_virtual_machine_extension" "customscript" {'
+    );
+    expect(result).toContain(
+      'publisher                  = "Microsoft.Azure.Extensions"'
+    );
+    expect(result).toContain('type                       = "CustomScript"');
+    expect(result).toContain('type_handler_version       = "2.1"');
+  });
+
+  it('should generate a Bicep resource nested under the VM', () => {
+    const result = generateExtensionBicepTemplate(customScript);
+
+    expect(result).toContain(
+      "resource customScript 'Microsoft.Compute/virtualMachines/extensions@2024-07-01' = {"
+    );
+    expect(result).toContain('  parent: vm');
+    expect(result).toContain("    typeHandlerVersion: '2.1'");
+  });
+
+  it('should derive valid identifiers from dotted extension types', () => {
+    const formats = generateAllExtensionFormats({
+      publisher: 'Microsoft.Azure.Security.Monitoring',
+      type: 'Azure.Security.Linux.Agent',
+      typeHandlerVersion: '1.0',
+    });
+
+    expect(formats.terraform).toContain('"azure_security_linux_agent" {');
+    expect(formats.bicep).toContain('resource azure_Security_Linux_Agent ');
+  });
+
+  it('should validate required fields', () => {
+    expect(validateExtensionReference(customScript)).toBe(true);
+    expect(
+      validateExtensionReference({ ...customScript, typeHandlerVersion: ' ' })
+    ).toBe(false);
+  });
+});
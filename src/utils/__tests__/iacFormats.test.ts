@@ -5,31 +5,47 @@ import {
   generateBicepTemplate,
   generateAnsibleTemplate,
   generateAllFormats,
+  generateFullVMARMTemplate,
+  generateFullVMTerraformTemplate,
+  generateFullVMBicepTemplate,
+  generateFullVMAnsibleTemplate,
+  generateAllFullVMFormats,
+  getImageOSType,
+  getImageURN,
+  generateAzureCliCommands,
+  generatePowerShellCommands,
+  generateFullVMAzureCliCommands,
+  generateFullVMPowerShellCommands,
   validateImageReference,
-  AVAILABLE_FORMATS
+  requiresPurchasePlan,
+  generateTermsAcceptCommands,
+  isResourceImageReference,
+  isMarketplaceImageReference,
+  createSharedGalleryImageReference,
+  AVAILABLE_FORMATS,
 } from '../iacFormats';
-import { VMImageReference } from '../../types';
+import type { VMImageReference, ResourceImageReference } from '../../types';
 
 describe('IaC Format Templates', () => {
   const mockImageRef: VMImageReference = {
     publisher: 'Canonical',
     offer: '0001-com-ubuntu-server-focal',
     sku: '20_04-lts-gen2',
-    version: 'latest'
+    version: 'latest',
   };
 
   describe('generateARMTemplate', () => {
     it('should generate valid ARM template JSON', () => {
       const result = generateARMTemplate(mockImageRef);
       const parsed = JSON.parse(result);
-      
+
       expect(parsed).toEqual({
         imageReference: {
           publisher: 'Canonical',
           offer: '0001-com-ubuntu-server-focal',
           sku: '20_04-lts-gen2',
-          version: 'latest'
-        }
+          version: 'latest',
+        },
       });
     });
 
@@ -43,7 +59,7 @@ describe('IaC Format Templates', () => {
   describe('generateTerraformTemplate', () => {
     it('should generate valid Terraform configuration', () => {
       const result = generateTerraformTemplate(mockImageRef);
-      
+
       expect(result).toContain('source_image_reference {');
       expect(result).toContain('publisher = "Canonical"');
       expect(result).toContain('offer     = "0001-com-ubuntu-server-focal"');
@@ -57,9 +73,9 @@ describe('IaC Format Templates', () => {
         publisher: 'Test-Publisher',
         offer: 'test_offer-2023',
         sku: 'sku.with.dots',
-        version: '1.0.0'
+        version: '1.0.0',
       };
-      
+
       const result = generateTerraformTemplate(specialImageRef);
       expect(result).toContain('publisher = "Test-Publisher"');
       expect(result).toContain('offer     = "test_offer-2023"');
@@ -70,7 +86,7 @@ describe('IaC Format Templates', () => {
   describe('generateBicepTemplate', () => {
     it('should generate valid Bicep configuration', () => {
       const result = generateBicepTemplate(mockImageRef);
-      
+
       expect(result).toContain('imageReference: {');
       expect(result).toContain("publisher: 'Canonical'");
       expect(result).toContain("offer: '0001-com-ubuntu-server-focal'");
@@ -89,7 +105,7 @@ describe('IaC Format Templates', () => {
   describe('generateAnsibleTemplate', () => {
     it('should generate valid Ansible YAML configuration', () => {
       const result = generateAnsibleTemplate(mockImageRef);
-      
+
       expect(result).toContain('image:');
       expect(result).toContain('publisher: "Canonical"');
       expect(result).toContain('offer: "0001-com-ubuntu-server-focal"');
@@ -100,19 +116,19 @@ describe('IaC Format Templates', () => {
     it('should use proper YAML indentation', () => {
       const result = generateAnsibleTemplate(mockImageRef);
       const lines = result.split('\n');
-      
+
       expect(lines[0]).toBe('image:');
-      expect(lines[1]).toMatch(/^  publisher:/);
-      expect(lines[2]).toMatch(/^  offer:/);
-      expect(lines[3]).toMatch(/^  sku:/);
-      expect(lines[4]).toMatch(/^  version:/);
+      expect(lines[1]).toMatch(/^ {2}publisher:/);
+      expect(lines[2]).toMatch(/^ {2}offer:/);
+      expect(lines[3]).toMatch(/^ {2}sku:/);
+      expect(lines[4]).toMatch(/^ {2}version:/);
     });
   });
 
   describe('generateAllFormats', () => {
     it('should generate all four IaC formats', () => {
       const result = generateAllFormats(mockImageRef);
-      
+
       expect(result).toHaveProperty('arm');
       expect(result).toHaveProperty('terraform');
       expect(result).toHaveProperty('bicep');
@@ -121,13 +137,13 @@ describe('IaC Format Templates', () => {
 
     it('should generate consistent data across all formats', () => {
       const result = generateAllFormats(mockImageRef);
-      
+
       // Check that all formats contain the same data
       expect(result.arm).toContain('Canonical');
       expect(result.terraform).toContain('Canonical');
       expect(result.bicep).toContain('Canonical');
       expect(result.ansible).toContain('Canonical');
-      
+
       expect(result.arm).toContain('0001-com-ubuntu-server-focal');
       expect(result.terraform).toContain('0001-com-ubuntu-server-focal');
       expect(result.bicep).toContain('0001-com-ubuntu-server-focal');
@@ -135,6 +151,767 @@ describe('IaC Format Templates', () => {
     });
   });
 
+  describe('purchase plans', () => {
+    const planImageRef: VMImageReference = {
+      publisher: 'center-for-internet-security-inc',
+      offer: 'cis-ubuntu',
+      sku: 'cis-ubuntu2204-l1',
+      version: 'latest',
+      plan: {
+        name: 'cis-ubuntu2204-l1',
+        publisher: 'center-for-internet-security-inc',
+        product: 'cis-ubuntu',
+      },
+    };
+
+    it('should detect when a plan is required', () => {
+      expect(requiresPurchasePlan(planImageRef)).toBe(true);
+      expect(requiresPurchasePlan(mockImageRef)).toBe(false);
+      expect(requiresPurchasePlan({ ...mockImageRef, plan: null })).toBe(false);
+    });
+
+    it('should add a plan object to the ARM template', () => {
+      const parsed = JSON.parse(generateARMTemplate(planImageRef));
+
+      expect(parsed.plan).toEqual({
+        name: 'cis-ubuntu2204-l1',
+        publisher: 'center-for-internet-security-inc',
+        product: 'cis-ubuntu',
+      });
+      expect(parsed.imageReference.offer).toBe('cis-ubuntu');
+    });
+
+    it('should add a plan block to Terraform', () => {
+      const result = generateTerraformTemplate(planImageRef);
+
+      expect(result).toContain('plan {');
+      expect(result).toContain('name      = "cis-ubuntu2204-l1"');
+      expect(result).toContain(
+        'publisher = "center-for-internet-security-inc"'
+      );
+      expect(result).toContain('product   = "cis-ubuntu"');
+    });
+
+    it('should add a plan section to Bicep', () => {
+      const result = generateBicepTemplate(planImageRef);
+
+      expect(result).toContain('plan: {');
+      expect(result).toContain("product: 'cis-ubuntu'");
+    });
+
+    it('should add a plan section to Ansible', () => {
+      const lines = generateAnsibleTemplate(planImageRef).split('\n');
+
+      expect(lines).toContain('plan:');
+      expect(lines).toContain('  name: "cis-ubuntu2204-l1"');
+      expect(lines).toContain('  product: "cis-ubuntu"');
+    });
+
+    it('should generate terms accept commands', () => {
+      const commands = generateTermsAcceptCommands(planImageRef.plan!);
+
+      expect(commands.azureCli).toBe(
+        'az vm image terms accept --publisher "center-for-internet-security-inc" --offer "cis-ubuntu" --plan "cis-ubuntu2204-l1"'
+      );
+      expect(commands.powershell).toBe(
+        'Get-AzMarketplaceTerms -Publisher "center-for-internet-security-inc" -Product "cis-ubuntu" -Name "cis-ubuntu2204-l1" -OfferType virtualmachine | Set-AzMarketplaceTerms -Accept'
+      );
+    });
+
+    it('should scope terms accept commands to a subscription', () => {
+      const commands = generateTermsAcceptCommands(planImageRef.plan!, 'sub-1');
+
+      expect(commands.azureCli).toContain('--subscription "sub-1"');
+      expect(commands.powershell.split('\n')[0]).toBe(
+        'Set-AzContext -Subscription "sub-1"'
+      );
+    });
+
+    it('should omit plan sections for first-party images', () => {
+      const formats = generateAllFormats(mockImageRef);
+
+      expect(JSON.parse(formats.arm)).not.toHaveProperty('plan');
+      expect(formats.terraform).not.toContain('plan');
+      expect(formats.bicep).not.toContain('plan');
+      expect(formats.ansible).not.toContain('plan');
+    });
+  });
+
+  describe('gallery image references', () => {
+    const galleryImageRef: ResourceImageReference = {
+      id: '/subscriptions/sub-1/resourceGroups/rg-images/providers/Microsoft.Compute/galleries/golden/images/ubuntu-base/versions/1.2.0',
+    };
+
+    it('should detect references by resource ID', () => {
+      expect(isResourceImageReference(galleryImageRef)).toBe(true);
+      expect(isResourceImageReference(mockImageRef)).toBe(false);
+    });
+
+    it('should reference the image by ID in every format', () => {
+      const formats = generateAllFormats(galleryImageRef);
+
+      expect(JSON.parse(formats.arm)).toEqual({
+        imageReference: { id: galleryImageRef.id },
+      });
+      expect(formats.terraform).toBe(
+        `source_image_id = "${galleryImageRef.id}"`
+      );
+      expect(formats.bicep).toBe(`imageReference: {
+  id: '${galleryImageRef.id}'
+}`);
+      expect(formats.ansible).toBe(`image:
+  id: "${galleryImageRef.id}"`);
+    });
+
+    it('should keep the purchase plan of gallery images built from marketplace images', () => {
+      const formats = generateAllFormats({
+        ...galleryImageRef,
+        plan: {
+          name: 'cis-l1',
+          publisher: 'center-for-internet-security-inc',
+          product: 'cis-ubuntu',
+        },
+      });
+
+      expect(JSON.parse(formats.arm).plan).toEqual({
+        name: 'cis-l1',
+        publisher: 'center-for-internet-security-inc',
+        product: 'cis-ubuntu',
+      });
+      expect(formats.terraform).toContain('plan {');
+    });
+
+    it('should validate that the ID is not empty', () => {
+      expect(validateImageReference(galleryImageRef)).toBe(true);
+      expect(validateImageReference({ id: '  ' })).toBe(false);
+    });
+  });
+
+  describe('community and shared gallery image references', () => {
+    const communityId =
+      '/CommunityGalleries/contoso-1a2b3c4d/Images/ubuntu-hardened/Versions/2024.1.0';
+    const sharedId = '/SharedGalleries/sub-2-golden/Images/windows-base';
+
+    it('should build the reference matching the gallery kind', () => {
+      expect(
+        createSharedGalleryImageReference('community', communityId)
+      ).toEqual({
+        communityGalleryImageId: communityId,
+        plan: null,
+      });
+      expect(createSharedGalleryImageReference('shared', sharedId)).toEqual({
+        sharedGalleryImageId: sharedId,
+        plan: null,
+      });
+    });
+
+    it('should reference community images by community gallery ID', () => {
+      const formats = generateAllFormats({
+        communityGalleryImageId: communityId,
+      });
+
+      expect(
+        isMarketplaceImageReference({ communityGalleryImageId: communityId })
+      ).toBe(false);
+      expect(JSON.parse(formats.arm)).toEqual({
+        imageReference: { communityGalleryImageId: communityId },
+      });
+      expect(formats.terraform).toBe(`source_image_id = "${communityId}"`);
+      expect(formats.bicep).toBe(`imageReference: {
+  communityGalleryImageId: '${communityId}'
+}`);
+      expect(formats.ansible).toBe(`image:
+  community_gallery_image_id: "${communityId}"`);
+    });
+
+    it('should reference directly shared images by shared gallery ID', () => {
+      const formats = generateAllFormats({ sharedGalleryImageId: sharedId });
+
+      expect(JSON.parse(formats.arm)).toEqual({
+        imageReference: { sharedGalleryImageId: sharedId },
+      });
+      expect(formats.terraform).toBe(`source_image_id = "${sharedId}"`);
+      expect(formats.bicep).toBe(`imageReference: {
+  sharedGalleryImageId: '${sharedId}'
+}`);
+      expect(formats.ansible).toBe(`image:
+  shared_gallery_image_id: "${sharedId}"`);
+    });
+
+    it('should validate that the unique ID is not empty', () => {
+      expect(validateImageReference({ sharedGalleryImageId: sharedId })).toBe(
+        true
+      );
+      expect(validateImageReference({ communityGalleryImageId: '' })).toBe(
+        false
+      );
+    });
+  });
+
+  describe('edge zone image references', () => {
+    const edgeZoneRef: VMImageReference = {
+      publisher: 'Canonical',
+      offer: '0001-com-ubuntu-server-jammy',
+      sku: '22_04-lts-gen2',
+      version: '22.04.202401010',
+      edgeZone: 'losangeles',
+    };
+
+    it('should add an extendedLocation to the ARM template', () => {
+      expect(
+        JSON.parse(generateARMTemplate(edgeZoneRef)).extendedLocation
+      ).toEqual({
+        type: 'EdgeZone',
+        name: 'losangeles',
+      });
+    });
+
+    it('should set edge_zone in Terraform', () => {
+      expect(generateTerraformTemplate(edgeZoneRef)).toContain(
+        'edge_zone = "losangeles"'
+      );
+    });
+
+    it('should add an extendedLocation block in Bicep', () => {
+      expect(generateBicepTemplate(edgeZoneRef)).toContain(`extendedLocation: {
+  type: 'EdgeZone'
+  name: 'losangeles'
+}`);
+    });
+
+    it('should keep the edge zone before the purchase plan', () => {
+      const terraform = generateTerraformTemplate({
+        ...edgeZoneRef,
+        plan: { name: 'plan-a', publisher: 'Canonical', product: 'ubuntu' },
+      });
+
+      expect(terraform.indexOf('edge_zone')).toBeLessThan(
+        terraform.indexOf('plan {')
+      );
+    });
+
+    it('should omit the edge zone when none is selected', () => {
+      const regionRef = { ...edgeZoneRef, edgeZone: null };
+
+      expect(JSON.parse(generateARMTemplate(regionRef))).not.toHaveProperty(
+        'extendedLocation'
+      );
+      expect(generateTerraformTemplate(regionRef)).not.toContain('edge_zone');
+      expect(generateBicepTemplate(regionRef)).not.toContain(
+        'extendedLocation'
+      );
+    });
+  });
+
+  describe('security profiles', () => {
+    const trustedLaunchRef: VMImageReference = {
+      ...mockImageRef,
+      securityProfile: {
+        securityType: 'TrustedLaunch',
+        secureBootEnabled: true,
+        vTpmEnabled: true,
+      },
+    };
+
+    it('should add a securityProfile to the ARM template', () => {
+      expect(
+        JSON.parse(generateARMTemplate(trustedLaunchRef)).securityProfile
+      ).toEqual({
+        securityType: 'TrustedLaunch',
+        uefiSettings: { secureBootEnabled: true, vTpmEnabled: true },
+      });
+    });
+
+    it('should set secure boot and vTPM in Terraform', () => {
+      const terraform = generateTerraformTemplate(trustedLaunchRef);
+
+      expect(terraform).toContain(`secure_boot_enabled = true
+vtpm_enabled        = true`);
+      expect(terraform).not.toContain('security_encryption_type');
+    });
+
+    it('should point confidential VMs at the OS disk encryption in Terraform', () => {
+      const terraform = generateTerraformTemplate({
+        ...trustedLaunchRef,
+        securityProfile: {
+          securityType: 'ConfidentialVM',
+          secureBootEnabled: true,
+          vTpmEnabled: true,
+        },
+      });
+
+      expect(terraform).toContain(
+        '# Confidential VM: also set os_disk.security_encryption_type'
+      );
+    });
+
+    it('should add a securityProfile block in Bicep', () => {
+      expect(generateBicepTemplate(trustedLaunchRef))
+        .toContain(`securityProfile: {
+  securityType: 'TrustedLaunch'
+  uefiSettings: {
+    secureBootEnabled: true
+    vTpmEnabled: true
+  }
+}`);
+    });
+
+    it('should add a security_profile to Ansible', () => {
+      expect(
+        generateAnsibleTemplate({
+          ...trustedLaunchRef,
+          securityProfile: {
+            securityType: 'TrustedLaunch',
+            secureBootEnabled: false,
+            vTpmEnabled: true,
+          },
+        })
+      ).toContain(`security_profile:
+  security_type: "TrustedLaunch"
+  uefi_settings:
+    secure_boot_enabled: false
+    v_tpm_enabled: true`);
+    });
+
+    it('should omit the security profile unless one is chosen', () => {
+      const formats = generateAllFormats({
+        ...trustedLaunchRef,
+        securityProfile: null,
+      });
+
+      expect(JSON.parse(formats.arm)).not.toHaveProperty('securityProfile');
+      expect(formats.terraform).not.toContain('secure_boot_enabled');
+      expect(formats.bicep).not.toContain('securityProfile');
+      expect(formats.ansible).not.toContain('security_profile');
+    });
+  });
+
+  describe('full VM templates', () => {
+    const planRef: VMImageReference = {
+      ...mockImageRef,
+      plan: { name: 'plan-a', publisher: 'Canonical', product: 'ubuntu' },
+    };
+
+    it('should read the OS type of an image', () => {
+      expect(getImageOSType('Windows')).toBe('Windows');
+      expect(getImageOSType('windows')).toBe('Windows');
+      expect(getImageOSType('Linux')).toBe('Linux');
+      expect(getImageOSType(null)).toBe('Linux');
+    });
+
+    it('should generate an ARM deployment template with network and VM', () => {
+      const template = JSON.parse(
+        generateFullVMARMTemplate(mockImageRef, 'Linux')
+      );
+      const types = template.resources.map(
+        (resource: { type: string }) => resource.type
+      );
+      const vm = template.resources[2];
+
+      expect(template.$schema).toContain('deploymentTemplate.json');
+      expect(types).toEqual([
+        'Microsoft.Network/virtualNetworks',
+        'Microsoft.Network/networkInterfaces',
+        'Microsoft.Compute/virtualMachines',
+      ]);
+      expect(template.parameters).toHaveProperty('sshPublicKey');
+      expect(template.parameters).not.toHaveProperty('adminPassword');
+      expect(vm.properties.storageProfile.imageReference).toEqual({
+        publisher: 'Canonical',
+        offer: '0001-com-ubuntu-server-focal',
+        sku: '20_04-lts-gen2',
+        version: 'latest',
+      });
+      expect(
+        vm.properties.osProfile.linuxConfiguration.disablePasswordAuthentication
+      ).toBe(true);
+      expect(vm).not.toHaveProperty('plan');
+    });
+
+    it('should use a password for Windows VMs in ARM', () => {
+      const template = JSON.parse(
+        generateFullVMARMTemplate(mockImageRef, 'Windows')
+      );
+      const vm = template.resources[2];
+
+      expect(template.parameters.adminPassword).toEqual({
+        type: 'securestring',
+      });
+      expect(vm.properties.osProfile).toHaveProperty('adminPassword');
+      expect(vm.properties.osProfile).not.toHaveProperty('linuxConfiguration');
+    });
+
+    it('should wire the plan, edge zone and security profile into the ARM VM', () => {
+      const template = JSON.parse(
+        generateFullVMARMTemplate(
+          {
+            ...planRef,
+            edgeZone: 'losangeles',
+            securityProfile: {
+              securityType: 'ConfidentialVM',
+              secureBootEnabled: true,
+              vTpmEnabled: true,
+            },
+          },
+          'Linux'
+        )
+      );
+      const vm = template.resources[2];
+
+      expect(vm.plan).toEqual({
+        name: 'plan-a',
+        publisher: 'Canonical',
+        product: 'ubuntu',
+      });
+      expect(vm.extendedLocation).toEqual({
+        type: 'EdgeZone',
+        name: 'losangeles',
+      });
+      expect(vm.properties.securityProfile.securityType).toBe('ConfidentialVM');
+      expect(
+        vm.properties.storageProfile.osDisk.managedDisk.securityProfile
+      ).toEqual({
+        securityEncryptionType: 'VMGuestStateOnly',
+      });
+    });
+
+    it('should reference gallery images by ID in the ARM VM', () => {
+      const template = JSON.parse(
+        generateFullVMARMTemplate(
+          { communityGalleryImageId: '/CommunityGalleries/g/Images/i' },
+          'Linux'
+        )
+      );
+
+      expect(
+        template.resources[2].properties.storageProfile.imageReference
+      ).toEqual({
+        communityGalleryImageId: '/CommunityGalleries/g/Images/i',
+      });
+    });
+
+    it('should generate a Bicep file with VNet, NIC and VM', () => {
+      const bicep = generateFullVMBicepTemplate(planRef, 'Linux');
+
+      expect(bicep).toContain(
+        "resource vnet 'Microsoft.Network/virtualNetworks@"
+      );
+      expect(bicep).toContain(
+        "resource nic 'Microsoft.Network/networkInterfaces@"
+      );
+      expect(bicep).toContain(
+        "resource vm 'Microsoft.Compute/virtualMachines@"
+      );
+      expect(bicep).toContain('param sshPublicKey string');
+      expect(bicep).toContain(`      imageReference: {
+        publisher: 'Canonical'
+        offer: '0001-com-ubuntu-server-focal'
+        sku: '20_04-lts-gen2'
+        version: 'latest'
+      }`);
+      expect(bicep).toContain(`  plan: {
+    name: 'plan-a'`);
+    });
+
+    it('should use a secure password parameter for Windows in Bicep', () => {
+      const bicep = generateFullVMBicepTemplate(mockImageRef, 'Windows');
+
+      expect(bicep).toContain(`@secure()
+@description('Password of the admin user')
+param adminPassword string`);
+      expect(bicep).not.toContain('linuxConfiguration');
+    });
+
+    it('should pick the Terraform VM resource from the OS type', () => {
+      const linux = generateFullVMTerraformTemplate(mockImageRef, 'Linux');
+      const windows = generateFullVMTerraformTemplate(mockImageRef, 'Windows');
+
+      expect(linux).toContain(
+        'resource "azurerm_linux_virtual_machine" "example"'
+      );
+      expect(linux).toContain('admin_ssh_key {');
+      expect(linux).toContain('resource "azurerm_network_interface" "example"');
+      expect(windows).toContain(
+        'resource "azurerm_windows_virtual_machine" "example"'
+      );
+      expect(windows).toContain('admin_password = var.admin_password');
+      expect(windows).not.toContain('admin_ssh_key');
+    });
+
+    it('should wire the image, plan and security settings into the Terraform VM', () => {
+      const terraform = generateFullVMTerraformTemplate(
+        {
+          ...planRef,
+          securityProfile: {
+            securityType: 'ConfidentialVM',
+            secureBootEnabled: true,
+            vTpmEnabled: true,
+          },
+        },
+        'Linux'
+      );
+
+      expect(terraform).toContain(`  source_image_reference {
+    publisher = "Canonical"`);
+      expect(terraform).toContain(
+        'security_encryption_type = "VMGuestStateOnly"'
+      );
+      expect(terraform).toContain('vtpm_enabled        = true');
+      expect(terraform).toContain(`  plan {
+    name      = "plan-a"`);
+    });
+
+    it('should use source_image_id for gallery images in Terraform', () => {
+      const galleryRef: ResourceImageReference = {
+        id: '/subscriptions/sub/resourceGroups/rg/providers/Microsoft.Compute/galleries/g/images/i',
+      };
+
+      expect(generateFullVMTerraformTemplate(galleryRef, 'Linux')).toContain(
+        `  source_image_id = "${galleryRef.id}"`
+      );
+    });
+
+    it('should generate an Ansible playbook with azure_rm_virtualmachine', () => {
+      const linux = generateFullVMAnsibleTemplate(planRef, 'Linux');
+      const windows = generateFullVMAnsibleTemplate(mockImageRef, 'Windows');
+
+      expect(linux).toContain('azure.azcollection.azure_rm_networkinterface:');
+      expect(linux).toContain('azure.azcollection.azure_rm_virtualmachine:');
+      expect(linux).toContain('os_type: Linux');
+      expect(linux).toContain('ssh_password_enabled: false');
+      expect(linux).toContain(`        image:
+          publisher: "Canonical"`);
+      expect(linux).toContain(`        plan:
+          name: "plan-a"`);
+      expect(windows).toContain('os_type: Windows');
+      expect(windows).toContain('admin_password: "{{ admin_password }}"');
+    });
+
+    it('should deploy edge zone images from the ARM template in Ansible', () => {
+      const playbook = generateFullVMAnsibleTemplate(
+        { ...mockImageRef, edgeZone: 'losangeles' },
+        'Linux',
+        'westus'
+      );
+
+      expect(playbook).not.toContain('azure_rm_virtualmachine:');
+      expect(playbook).toContain('azure.azcollection.azure_rm_deployment:');
+      expect(playbook).toContain(`          sshPublicKey:
+            value: "{{ ssh_public_key }}"`);
+      expect(playbook).toContain('"type": "EdgeZone"');
+      expect(playbook).toContain('"name": "losangeles"');
+    });
+
+    it('should generate every full VM format', () => {
+      const formats = generateAllFullVMFormats(mockImageRef, 'Windows');
+
+      expect(Object.keys(formats)).toEqual([
+        'arm',
+        'terraform',
+        'bicep',
+        'ansible',
+        'azureCli',
+        'azureCliPowerShell',
+        'powershell',
+      ]);
+      expect(formats.terraform).toContain('azurerm_windows_virtual_machine');
+    });
+  });
+
+  describe('Azure CLI and PowerShell commands', () => {
+    const planRef: VMImageReference = {
+      ...mockImageRef,
+      plan: { name: 'plan-a', publisher: 'Canonical', product: 'ubuntu' },
+    };
+    const urn = 'Canonical:0001-com-ubuntu-server-focal:20_04-lts-gen2:latest';
+
+    it('should build the URN of a marketplace image', () => {
+      expect(getImageURN(mockImageRef)).toBe(urn);
+    });
+
+    it('should show the image and pass its URN to az vm create in bash', () => {
+      expect(generateAzureCliCommands(mockImageRef, 'bash', 'westeurope'))
+        .toBe(`resourceGroup="vm1-rg"
+location="westeurope"
+vmName="vm1"
+urn="${urn}"
+
+az vm image show --location "$location" --urn "$urn"
+
+az vm create \\
+  --resource-group "$resourceGroup" \\
+  --name "$vmName" \\
+  --location "$location" \\
+  --image "$urn"`);
+    });
+
+    it('should emit a location placeholder when the location is unknown', () => {
+      expect(generateAzureCliCommands(mockImageRef)).toContain(
+        'location="<location>"'
+      );
+      expect(generatePowerShellCommands(mockImageRef)).toContain(
+        '$location = "<location>"'
+      );
+    });
+
+    it('should emit the browsed location in every full VM format that sets one', () => {
+      const formats = generateAllFullVMFormats(
+        mockImageRef,
+        'Linux',
+        'westeurope'
+      );
+
+      expect(formats.terraform).toContain('default = "westeurope"');
+      expect(formats.ansible).toContain('location: "westeurope"');
+      expect(formats.azureCli).toContain('location="westeurope"');
+      expect(formats.azureCliPowerShell).toContain('$location = "westeurope"');
+      expect(formats.powershell).toContain('$location = "westeurope"');
+    });
+
+    it('should quote Azure CLI commands for PowerShell', () => {
+      const commands = generateAzureCliCommands(planRef, 'powershell');
+
+      expect(commands).toContain(`$urn = "${urn}"`);
+      expect(commands).toContain(
+        'az vm image show --location $location --urn $urn'
+      );
+      expect(commands).toContain(`az vm create \`
+  --resource-group $resourceGroup \`
+  --name $vmName \`
+  --location $location \`
+  --image $urn \`
+  --plan-name "plan-a" \`
+  --plan-product "ubuntu" \`
+  --plan-publisher "Canonical"`);
+    });
+
+    it('should accept the marketplace terms when the image has a plan', () => {
+      expect(generateAzureCliCommands(planRef)).toContain(
+        'az vm image terms accept --publisher "Canonical" --offer "ubuntu" --plan "plan-a"'
+      );
+      expect(generateAzureCliCommands(mockImageRef)).not.toContain(
+        'terms accept'
+      );
+      expect(generatePowerShellCommands(planRef)).toContain(
+        'Get-AzMarketplaceTerms -Publisher "Canonical" -Product "ubuntu" -Name "plan-a"'
+      );
+    });
+
+    it('should pass security type and edge zone to az vm create', () => {
+      const commands = generateAzureCliCommands({
+        ...mockImageRef,
+        edgeZone: 'losangeles',
+        securityProfile: {
+          securityType: 'ConfidentialVM',
+          secureBootEnabled: true,
+          vTpmEnabled: true,
+        },
+      });
+
+      expect(commands).toContain('--security-type ConfidentialVM');
+      expect(commands).toContain('--enable-vtpm true');
+      expect(commands).toContain(
+        '--os-disk-security-encryption-type VMGuestStateOnly'
+      );
+      expect(commands).toContain('--edge-zone "losangeles"');
+    });
+
+    it('should pass gallery image IDs to az vm create', () => {
+      const commands = generateAzureCliCommands({
+        communityGalleryImageId: '/CommunityGalleries/g/Images/i',
+      });
+
+      expect(commands).toContain('imageId="/CommunityGalleries/g/Images/i"');
+      expect(commands).toContain('--image "$imageId"');
+      expect(commands).not.toContain('az vm image show');
+    });
+
+    it('should set the source image with Az PowerShell', () => {
+      const commands = generatePowerShellCommands({
+        ...planRef,
+        securityProfile: {
+          securityType: 'TrustedLaunch',
+          secureBootEnabled: false,
+          vTpmEnabled: true,
+        },
+      });
+
+      expect(commands).toContain(
+        'Get-AzVMImage -Location $location -PublisherName "Canonical" -Offer "0001-com-ubuntu-server-focal" -Skus "20_04-lts-gen2"\n'
+      );
+      expect(commands).toContain(
+        '$vmConfig = Set-AzVMSourceImage -VM $vmConfig -PublisherName "Canonical" -Offer "0001-com-ubuntu-server-focal" -Skus "20_04-lts-gen2" -Version "latest"'
+      );
+      expect(commands).toContain(
+        '$vmConfig = Set-AzVMPlan -VM $vmConfig -Name "plan-a" -Product "ubuntu" -Publisher "Canonical"'
+      );
+      expect(commands).toContain(
+        '$vmConfig = Set-AzVMUefi -VM $vmConfig -EnableSecureBoot $false -EnableVtpm $true'
+      );
+    });
+
+    it('should show a concrete version and gallery IDs with Az PowerShell', () => {
+      expect(
+        generatePowerShellCommands({
+          ...mockImageRef,
+          version: '20.04.202401010',
+        })
+      ).toContain('-Skus "20_04-lts-gen2" -Version "20.04.202401010"');
+      expect(
+        generatePowerShellCommands({
+          sharedGalleryImageId: '/SharedGalleries/g/Images/i',
+        })
+      ).toBe(
+        '$vmConfig = Set-AzVMSourceImage -VM $vmConfig -SharedGalleryImageId "/SharedGalleries/g/Images/i"'
+      );
+    });
+
+    it('should create a full VM with az vm create', () => {
+      const linux = generateFullVMAzureCliCommands(mockImageRef, 'Linux');
+      const windows = generateFullVMAzureCliCommands(
+        mockImageRef,
+        'Windows',
+        'powershell'
+      );
+
+      expect(linux).toContain(
+        'az group create --name "$resourceGroup" --location "$location"'
+      );
+      expect(linux).toContain('--resource-group "$resourceGroup" \\');
+      expect(linux).toContain('--generate-ssh-keys');
+      expect(windows).toContain('--admin-username "azureuser"');
+      expect(windows).not.toContain('--generate-ssh-keys');
+    });
+
+    it('should create a full VM with New-AzVM', () => {
+      const linux = generateFullVMPowerShellCommands(
+        {
+          ...mockImageRef,
+          edgeZone: 'losangeles',
+          securityProfile: {
+            securityType: 'ConfidentialVM',
+            secureBootEnabled: true,
+            vTpmEnabled: true,
+          },
+        },
+        'Linux'
+      );
+      const windows = generateFullVMPowerShellCommands(mockImageRef, 'Windows');
+
+      expect(linux).toContain(
+        '-Linux -ComputerName $vmName -Credential $credential -DisablePasswordAuthentication'
+      );
+      expect(linux).toContain('Add-AzVMSshPublicKey');
+      expect(linux).toContain('-SecurityEncryptionType VMGuestStateOnly');
+      expect(linux).toContain(
+        'New-AzVM -ResourceGroupName $resourceGroup -Location $location -EdgeZone "losangeles" -VM $vmConfig'
+      );
+      expect(windows).toContain('Get-Credential -UserName "azureuser"');
+      expect(windows).toContain(' -Windows -ComputerName ');
+      expect(windows).not.toContain('Add-AzVMSshPublicKey');
+    });
+  });
+
   describe('validateImageReference', () => {
     it('should return true for valid image reference', () => {
       const result = validateImageReference(mockImageRef);
@@ -181,9 +958,9 @@ describe('IaC Format Templates', () => {
 
   describe('AVAILABLE_FORMATS', () => {
     it('should contain all expected format options', () => {
-      expect(AVAILABLE_FORMATS).toHaveLength(4);
-      
-      const formatKeys = AVAILABLE_FORMATS.map(f => f.key);
+      expect(AVAILABLE_FORMATS).toHaveLength(7);
+
+      const formatKeys = AVAILABLE_FORMATS.map((f) => f.key);
       expect(formatKeys).toContain('arm');
       expect(formatKeys).toContain('terraform');
       expect(formatKeys).toContain('bicep');
@@ -191,17 +968,29 @@ describe('IaC Format Templates', () => {
     });
 
     it('should have proper labels for each format', () => {
-      const armFormat = AVAILABLE_FORMATS.find(f => f.key === 'arm');
+      const armFormat = AVAILABLE_FORMATS.find((f) => f.key === 'arm');
       expect(armFormat?.label).toBe('ARM Template');
-      
-      const terraformFormat = AVAILABLE_FORMATS.find(f => f.key === 'terraform');
+
+      const terraformFormat = AVAILABLE_FORMATS.find(
+        (f) => f.key === 'terraform'
+      );
       expect(terraformFormat?.label).toBe('Terraform');
-      
-      const bicepFormat = AVAILABLE_FORMATS.find(f => f.key === 'bicep');
+
+      const bicepFormat = AVAILABLE_FORMATS.find((f) => f.key === 'bicep');
       expect(bicepFormat?.label).toBe('Bicep');
-      
-      const ansibleFormat = AVAILABLE_FORMATS.find(f => f.key === 'ansible');
+
+      const ansibleFormat = AVAILABLE_FORMATS.find((f) => f.key === 'ansible');
       expect(ansibleFormat?.label).toBe('Ansible');
+
+      const azureCliFormat = AVAILABLE_FORMATS.find(
+        (f) => f.key === 'azureCli'
+      );
+      expect(azureCliFormat?.label).toBe('Azure CLI (Bash)');
+
+      const powershellFormat = AVAILABLE_FORMATS.find(
+        (f) => f.key === 'powershell'
+      );
+      expect(powershellFormat?.label).toBe('Az PowerShell');
     });
   });
 
@@ -211,9 +1000,9 @@ describe('IaC Format Templates', () => {
         publisher: '',
         offer: '',
         sku: '',
-        version: ''
+        version: '',
       };
-      
+
       expect(validateImageReference(emptyRef)).toBe(false);
     });
 
@@ -222,12 +1011,12 @@ describe('IaC Format Templates', () => {
         publisher: '   ',
         offer: '\t',
         sku: '\n',
-        version: ' '
+        version: ' ',
       };
-      
+
       // Should still generate templates but validation should fail
       expect(validateImageReference(whitespaceRef)).toBe(false);
-      
+
       const armResult = generateARMTemplate(whitespaceRef);
       expect(armResult).toContain('   '); // Whitespace preserved
     });
@@ -237,16 +1026,16 @@ describe('IaC Format Templates', () => {
         publisher: 'Test & Co.',
         offer: 'offer-with-"quotes"',
         sku: "sku'with'apostrophes",
-        version: 'version/with/slashes'
+        version: 'version/with/slashes',
       };
-      
+
       expect(validateImageReference(specialRef)).toBe(true);
-      
+
       const armResult = generateARMTemplate(specialRef);
       expect(JSON.parse(armResult)).toBeDefined(); // Should be valid JSON
-      
+
       const terraformResult = generateTerraformTemplate(specialRef);
       expect(terraformResult).toContain('Test & Co.');
     });
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest';
+import {
+  hasDeprecationNotice,
+  getDaysUntilDeprecation,
+  formatDeprecationDate,
+  getAlternativeImagePath,
+} from '../imageDeprecation';
+import type { ImageDeprecationStatus } from '../../types';
+
+const scheduled: ImageDeprecationStatus = {
+  imageState: 'ScheduledForDeprecation',
+  scheduledDeprecationTime: '2027-04-30T00:00:00+00:00',
+  alternativeOption: { type: 'Offer', value: 'ubuntu-26_04-lts' },
+};
+
+describe('imageDeprecation', () => {
+  describe('hasDeprecationNotice', () => {
+    it('should flag scheduled and deprecated images only', () => {
+      expect(hasDeprecationNotice(scheduled)).toBe(true);
+      expect(
+        hasDeprecationNotice({ ...scheduled, imageState: 'Deprecated' })
+      ).toBe(true);
+      expect(hasDeprecationNotice({ ...scheduled, imageState: 'Active' })).toBe(
+        false
+      );
+      expect(hasDeprecationNotice(null)).toBe(false);
+      expect(hasDeprecationNotice(undefined)).toBe(false);
+    });
+  });
+
+  describe('getDaysUntilDeprecation', () => {
+    it('should count whole days until the scheduled time', () => {
+      expect(
+        getDaysUntilDeprecation(scheduled, new Date('2027-04-20T12:00:00Z'))
+      ).toBe(10);
+    });
+
+    it('should be negative once the date passed', () => {
+      expect(
+        getDaysUntilDeprecation(scheduled, new Date('2027-05-03T00:00:00Z'))
+      ).toBe(-3);
+    });
+
+    it('should return null without a valid date', () => {
+      expect(
+        getDaysUntilDeprecation({
+          ...scheduled,
+          scheduledDeprecationTime: undefined,
+        })
+      ).toBeNull();
+      expect(
+        getDaysUntilDeprecation({
+          ...scheduled,
+          scheduledDeprecationTime: 'soon',
+        })
+      ).toBeNull();
+    });
+  });
+
+  describe('formatDeprecationDate', () => {
+    it('should format the date in UTC', () => {
+      expect(formatDeprecationDate('2027-04-30T00:00:00+00:00')).toBe(
+        'Apr 30, 2027'
+      );
+    });
+
+    it('should handle missing and unparsable dates', () => {
+      expect(formatDeprecationDate(undefined)).toBe('No date published');
+      expect(formatDeprecationDate('soon')).toBe('soon');
+    });
+  });
+
+  describe('getAlternativeImagePath', () => {
+    const image = { publisher: 'Canonical', offer: 'ubuntu-24_04-lts' };
+
+    it('should link an alternative offer under the same publisher', () => {
+      expect(
+        getAlternativeImagePath(image, {
+          type: 'Offer',
+          value: 'ubuntu-26_04-lts',
+        })
+      ).toBe('/publishers/Canonical/offers/ubuntu-26_04-lts/skus');
+    });
+
+    it('should link an alternative SKU under the same offer', () => {
+      expect(
+        getAlternativeImagePath(image, { type: 'Sku', value: 'server-gen2' })
+      ).toBe('/publishers/Canonical/offers/ubuntu-24_04-lts/skus');
+    });
+  });
+});
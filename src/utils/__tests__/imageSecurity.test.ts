@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getDefaultSecurityProfile,
+  getImageSecurityCapabilities,
+  hasSecurityCapabilities,
+} from '../imageSecurity';
+
+const securityType = (value: string) => [
+  { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+  { name: 'SecurityType', value },
+];
+
+describe('getImageSecurityCapabilities', () => {
+  it.each([
+    ['TrustedLaunch', 'required', 'unsupported'],
+    ['TrustedLaunchSupported', 'supported', 'unsupported'],
+    ['TrustedLaunchAndConfidentialVmSupported', 'supported', 'supported'],
+    ['ConfidentialVmSupported', 'unsupported', 'supported'],
+    ['ConfidentialVM', 'unsupported', 'required'],
+    ['Standard', 'unsupported', 'unsupported'],
+  ])('should map %s', (value, trustedLaunch, confidentialVM) => {
+    expect(getImageSecurityCapabilities(securityType(value))).toEqual({
+      securityType: value,
+      trustedLaunch,
+      confidentialVM,
+    });
+  });
+
+  it('should treat images without a SecurityType as standard only', () => {
+    const capabilities = getImageSecurityCapabilities([]);
+
+    expect(capabilities).toEqual({
+      securityType: null,
+      trustedLaunch: 'unsupported',
+      confidentialVM: 'unsupported',
+    });
+    expect(hasSecurityCapabilities(capabilities)).toBe(false);
+  });
+
+  it('should ignore unknown security types', () => {
+    expect(
+      hasSecurityCapabilities(
+        getImageSecurityCapabilities(securityType('FutureType'))
+      )
+    ).toBe(false);
+  });
+});
+
+describe('getDefaultSecurityProfile', () => {
+  it('should prefer Trusted Launch where supported', () => {
+    expect(
+      getDefaultSecurityProfile(
+        getImageSecurityCapabilities(
+          securityType('TrustedLaunchAndConfidentialVmSupported')
+        )
+      )
+    ).toEqual({
+      securityType: 'TrustedLaunch',
+      secureBootEnabled: true,
+      vTpmEnabled: true,
+    });
+  });
+
+  it('should use a confidential VM where the image needs one', () => {
+    expect(
+      getDefaultSecurityProfile(
+        getImageSecurityCapabilities(securityType('ConfidentialVmSupported'))
+      )?.securityType
+    ).toBe('ConfidentialVM');
+    expect(
+      getDefaultSecurityProfile(
+        getImageSecurityCapabilities(securityType('ConfidentialVM'))
+      )?.securityType
+    ).toBe('ConfidentialVM');
+  });
+
+  it('should return null for standard-only images', () => {
+    expect(getDefaultSecurityProfile(getImageSecurityCapabilities([]))).toBe(
+      null
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import {
+  compareImageVersions,
+  formatReleaseAge,
+  formatReleaseDate,
+  getReleaseAgeDays,
+  getReleaseCadence,
+  parseImageVersion,
+} from '../imageVersion';
+
+describe('parseImageVersion', () => {
+  it.each([
+    ['Canonical', '22.04.202410020', '22.4.202410020', '2024-10-02'],
+    [
+      'MicrosoftWindowsServer',
+      '20348.2849.241006',
+      '20348.2849.241006',
+      '2024-10-06',
+    ],
+    ['RedHat', '9.4.2024101514', '9.4.2024101514', '2024-10-15'],
+    ['Debian', '0.20241004.1890', '0.20241004.1890', '2024-10-04'],
+    ['SUSE', '2024.10.07', '2024.10.7', '2024-10-07'],
+  ])('should read %s versions', (publisher, version, semver, releaseDate) => {
+    expect(parseImageVersion(version, publisher)).toMatchObject({
+      version,
+      semver,
+      releaseDate,
+    });
+  });
+
+  it('should split the version into numeric parts', () => {
+    expect(parseImageVersion('22.04.202410020').parts).toEqual([
+      22, 4, 202410020,
+    ]);
+    expect(parseImageVersion('1.2').semver).toBe('1.2.0');
+  });
+
+  it('should fall back to a generic date when the publisher scheme does not match', () => {
+    expect(parseImageVersion('20241004.1.0', 'Canonical').releaseDate).toBe(
+      '2024-10-04'
+    );
+    expect(parseImageVersion('3.1.20240315', 'contoso').releaseDate).toBe(
+      '2024-03-15'
+    );
+    expect(parseImageVersion('17763.6414.241004').releaseDate).toBe(
+      '2024-10-04'
+    );
+  });
+
+  it('should not read a date from versions that do not encode one', () => {
+    expect(parseImageVersion('1.0.0', 'contoso').releaseDate).toBeNull();
+    expect(parseImageVersion('2.13.999', 'contoso').releaseDate).toBeNull();
+    expect(
+      parseImageVersion('8.6.2022139901', 'RedHat').releaseDate
+    ).toBeNull();
+  });
+});
+
+describe('compareImageVersions', () => {
+  it('should sort newest first by the numeric parts', () => {
+    expect(
+      ['1.9.0', '1.10.0', '1.10', '1.2.3'].sort(compareImageVersions)
+    ).toEqual(['1.10.0', '1.10', '1.9.0', '1.2.3']);
+    expect(
+      ['20348.887.220806', '20348.2849.241006', '20348.1006.220908'].sort(
+        compareImageVersions
+      )
+    ).toEqual(['20348.2849.241006', '20348.1006.220908', '20348.887.220806']);
+  });
+});
+
+describe('release age', () => {
+  const now = new Date('2024-10-20T12:00:00Z');
+
+  it('should count whole days since the release', () => {
+    expect(getReleaseAgeDays('2024-10-06', now)).toBe(14);
+    expect(getReleaseAgeDays(null, now)).toBeNull();
+  });
+
+  it('should label the release age', () => {
+    expect(formatReleaseAge('2024-10-20', now)).toBe('Published today');
+    expect(formatReleaseAge('2024-10-19', now)).toBe('Published yesterday');
+    expect(formatReleaseAge('2024-10-06', now)).toBe('Published 14 days ago');
+    expect(formatReleaseAge(null, now)).toBeNull();
+  });
+
+  it('should format the release date', () => {
+    expect(formatReleaseDate('2024-10-06')).toBe('Oct 6, 2024');
+  });
+});
+
+describe('getReleaseCadence', () => {
+  it('should list dated releases oldest first with the median interval', () => {
+    expect(
+      getReleaseCadence(
+        [
+          'latest',
+          '22.04.202410020',
+          '22.04.202409110',
+          '22.04.202408280',
+          '22.04.202407010',
+        ],
+        'Canonical'
+      )
+    ).toEqual({
+      releases: [
+        { version: '22.04.202407010', releaseDate: '2024-07-01' },
+        { version: '22.04.202408280', releaseDate: '2024-08-28' },
+        { version: '22.04.202409110', releaseDate: '2024-09-11' },
+        { version: '22.04.202410020', releaseDate: '2024-10-02' },
+      ],
+      medianIntervalDays: 21,
+    });
+  });
+
+  it('should skip versions without a release date', () => {
+    expect(getReleaseCadence(['1.0.0', '1.1.0'], 'contoso')).toEqual({
+      releases: [],
+      medianIntervalDays: null,
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { describe, it, expect } from 'vitest';
+import { diffImageVersions } from '../imageVersionDiff';
+import type { ImageVersionDetails } from '../../types';
+
+const base: ImageVersionDetails = {
+  name: '22.04.202401010',
+  location: 'westeurope',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+  dataDiskImages: [],
+  hyperVGeneration: 'V2',
+  architecture: 'x64',
+  features: [
+    { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+    { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+    { name: 'SecurityType', value: 'TrustedLaunchSupported' },
+  ],
+  security: {
+    securityType: 'TrustedLaunchSupported',
+    trustedLaunch: 'supported',
+    confidentialVM: 'unsupported',
+  },
+  plan: null,
+  automaticOSUpgradeProperties: null,
+  disallowed: null,
+  deprecationStatus: null,
+};
+
+const target = (
+  overrides: Partial<ImageVersionDetails> = {}
+): ImageVersionDetails => ({
+  ...base,
+  name: '22.04.202402010',
+  ...overrides,
+});
+
+const find = (label: string, other: ImageVersionDetails) =>
+  diffImageVersions(base, other).find((row) => row.label === label);
+
+describe('diffImageVersions', () => {
+  it('should list every property unchanged for identical versions', () => {
+    const rows = diffImageVersions(base, target());
+
+    expect(rows.map((row) => row.label)).toEqual([
+      'Generation',
+      'Architecture',
+      'OS disk size',
+      'Data disks',
+      'Purchase plan',
+      'Deprecation',
+      'Feature: DiskControllerTypes',
+      'Feature: IsAcceleratedNetworkSupported',
+      'Feature: SecurityType',
+    ]);
+    expect(rows.every((row) => !row.changed && !row.breaking)).toBe(true);
+    expect(rows[0]).toEqual({
+      label: 'Generation',
+      before: 'Gen2',
+      after: 'Gen2',
+      changed: false,
+      breaking: false,
+    });
+  });
+
+  it('should flag a generation change as breaking', () => {
+    expect(
+      find('Generation', target({ hyperVGeneration: 'V1' }))
+    ).toMatchObject({
+      before: 'Gen2',
+      after: 'Gen1',
+      changed: true,
+      breaking: true,
+    });
+  });
+
+  it('should flag a larger OS disk as breaking but not a smaller one', () => {
+    expect(
+      find(
+        'OS disk size',
+        target({ osDiskImage: { operatingSystem: 'Linux', sizeInGb: 64 } })
+      )
+    ).toMatchObject({ before: '30 GB', after: '64 GB', breaking: true });
+    expect(
+      find(
+        'OS disk size',
+        target({ osDiskImage: { operatingSystem: 'Linux', sizeInGb: 16 } })
+      )
+    ).toMatchObject({ changed: true, breaking: false });
+  });
+
+  it('should flag added data disks as breaking', () => {
+    expect(
+      find(
+        'Data disks',
+        target({ dataDiskImages: [{ lun: 0, sizeInGb: 128 }] })
+      )
+    ).toMatchObject({
+      before: 'None',
+      after: 'LUN 0 (128 GB)',
+      breaking: true,
+    });
+  });
+
+  it('should explain a new purchase plan', () => {
+    const row = find(
+      'Purchase plan',
+      target({ plan: { publisher: 'contoso', product: 'app', name: 'gold' } })
+    );
+
+    expect(row).toMatchObject({
+      before: 'None',
+      after: 'contoso / app / gold',
+      breaking: true,
+      note: 'Deployments need the new plan block and accepted terms',
+    });
+  });
+
+  it('should flag only a deprecated target as breaking', () => {
+    expect(
+      find(
+        'Deprecation',
+        target({
+          deprecationStatus: {
+            imageState: 'ScheduledForDeprecation',
+            scheduledDeprecationTime: '2030-01-01T00:00:00Z',
+            alternativeOption: null,
+          },
+        })
+      )
+    ).toMatchObject({ changed: true, breaking: false });
+    expect(
+      find(
+        'Deprecation',
+        target({
+          deprecationStatus: {
+            imageState: 'Deprecated',
+            alternativeOption: null,
+          },
+        })
+      )
+    ).toMatchObject({ after: 'Deprecated', breaking: true });
+  });
+
+  it('should flag lost features as breaking and gained ones as safe', () => {
+    const rows = diffImageVersions(
+      base,
+      target({
+        features: [
+          { name: 'IsAcceleratedNetworkSupported', value: 'False' },
+          { name: 'DiskControllerTypes', value: 'SCSI' },
+          { name: 'SecurityType', value: 'TrustedLaunch' },
+          { name: 'IsHibernateSupported', value: 'True' },
+        ],
+      })
+    );
+    const row = (label: string) => rows.find((entry) => entry.label === label);
+
+    expect(row('Feature: IsAcceleratedNetworkSupported')).toMatchObject({
+      breaking: true,
+      note: 'Accelerated networking is no longer supported',
+    });
+    expect(row('Feature: DiskControllerTypes')).toMatchObject({
+      breaking: true,
+      note: 'Drops the NVMe disk controller',
+    });
+    expect(row('Feature: SecurityType')).toMatchObject({
+      breaking: true,
+      note: 'Requires Trusted Launch',
+    });
+    expect(row('Feature: IsHibernateSupported')).toMatchObject({
+      before: 'Not set',
+      after: 'True',
+      changed: true,
+      breaking: false,
+    });
+  });
+});
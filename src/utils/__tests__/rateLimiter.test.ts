@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  ArmRateLimiter,
+  REMAINING_READS_HEADER,
+  getSubscriptionRateLimiter,
+} from '../rateLimiter';
+import { RequestAbortedError } from '../errorHandling';
+
+const response = (headers: Record<string, string>) =>
+  new Response(null, { headers });
+
+describe('ArmRateLimiter', () => {
+  let limiter: ArmRateLimiter;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    limiter = new ArmRateLimiter({
+      slowdownThreshold: 100,
+      maxSpacing: 2000,
+      exhaustedDelay: 10000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should not delay while the read budget is healthy', async () => {
+    limiter.recordResponse(response({ [REMAINING_READS_HEADER]: '11999' }));
+
+    const acquired = vi.fn();
+    limiter.acquire().then(acquired);
+    limiter.acquire().then(acquired);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(acquired).toHaveBeenCalledTimes(2);
+    expect(limiter.remainingReads).toBe(11999);
+  });
+
+  it('should space requests out as the budget runs low', async () => {
+    limiter.recordResponse(response({ [REMAINING_READS_HEADER]: '50' }));
+
+    const acquired = vi.fn();
+    limiter.acquire().then(() => acquired('first'));
+    limiter.acquire().then(() => acquired('second'));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(acquired).toHaveBeenCalledWith('first');
+    expect(acquired).not.toHaveBeenCalledWith('second');
+
+    // Half the threshold left: half of maxSpacing between requests
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(acquired).toHaveBeenCalledWith('second');
+  });
+
+  it('should hold every request for Retry-After', async () => {
+    limiter.recordResponse(response({ 'Retry-After': '5' }));
+
+    const acquired = vi.fn();
+    limiter.acquire().then(acquired);
+
+    await vi.advanceTimersByTimeAsync(4900);
+    expect(acquired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(acquired).toHaveBeenCalled();
+  });
+
+  it('should pause when no reads are left', async () => {
+    limiter.recordResponse(response({ [REMAINING_READS_HEADER]: '0' }));
+
+    const acquired = vi.fn();
+    limiter.acquire().then(acquired);
+
+    await vi.advanceTimersByTimeAsync(9000);
+    expect(acquired).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(acquired).toHaveBeenCalled();
+  });
+
+  it('should ignore responses without headers', () => {
+    expect(() =>
+      limiter.recordResponse({ ok: true } as Response)
+    ).not.toThrow();
+    expect(limiter.remainingReads).toBeNull();
+  });
+
+  it('should stop waiting when the signal is aborted', async () => {
+    limiter.pauseFor(5000);
+    const controller = new AbortController();
+
+    const acquired = limiter.acquire(controller.signal);
+    controller.abort();
+
+    await expect(acquired).rejects.toThrow(RequestAbortedError);
+  });
+});
+
+describe('getSubscriptionRateLimiter', () => {
+  it('should share one limiter per subscription', () => {
+    expect(getSubscriptionRateLimiter('sub-1')).toBe(
+      getSubscriptionRateLimiter('sub-1')
+    );
+    expect(getSubscriptionRateLimiter('sub-1')).not.toBe(
+      getSubscriptionRateLimiter('sub-2')
+    );
+  });
+});
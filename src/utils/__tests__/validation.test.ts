@@ -41,32 +41,46 @@ describe('validateSubscription', () => {
   });
 
   it('should throw error for non-object input', () => {
-    expect(() => validateSubscription(null)).toThrow('Subscription data must be an object');
-    expect(() => validateSubscription('string')).toThrow('Subscription data must be an object');
-    expect(() => validateSubscription(123)).toThrow('Subscription data must be an object');
+    expect(() => validateSubscription(null)).toThrow(
+      'Subscription data must be an object'
+    );
+    expect(() => validateSubscription('string')).toThrow(
+      'Subscription data must be an object'
+    );
+    expect(() => validateSubscription(123)).toThrow(
+      'Subscription data must be an object'
+    );
   });
 
   it('should throw error for missing subscriptionId', () => {
     const invalid = { ...validSubscription };
     delete (invalid as any).subscriptionId;
-    expect(() => validateSubscription(invalid)).toThrow('subscriptionId must be a non-empty string');
+    expect(() => validateSubscription(invalid)).toThrow(
+      'subscriptionId must be a non-empty string'
+    );
   });
 
   it('should throw error for empty subscriptionId', () => {
     const invalid = { ...validSubscription, subscriptionId: '' };
-    expect(() => validateSubscription(invalid)).toThrow('subscriptionId must be a non-empty string');
+    expect(() => validateSubscription(invalid)).toThrow(
+      'subscriptionId must be a non-empty string'
+    );
   });
 
   it('should throw error for missing displayName', () => {
     const invalid = { ...validSubscription };
     delete (invalid as any).displayName;
-    expect(() => validateSubscription(invalid)).toThrow('displayName must be a non-empty string');
+    expect(() => validateSubscription(invalid)).toThrow(
+      'displayName must be a non-empty string'
+    );
   });
 
   it('should throw error for missing state', () => {
     const invalid = { ...validSubscription };
     delete (invalid as any).state;
-    expect(() => validateSubscription(invalid)).toThrow('state must be a non-empty string');
+    expect(() => validateSubscription(invalid)).toThrow(
+      'state must be a non-empty string'
+    );
   });
 });
 
@@ -83,25 +97,33 @@ describe('validatePublisher', () => {
   });
 
   it('should throw error for non-object input', () => {
-    expect(() => validatePublisher(null)).toThrow('Publisher data must be an object');
+    expect(() => validatePublisher(null)).toThrow(
+      'Publisher data must be an object'
+    );
   });
 
   it('should throw error for missing name', () => {
     const invalid = { ...validPublisher };
     delete (invalid as any).name;
-    expect(() => validatePublisher(invalid)).toThrow('name must be a non-empty string');
+    expect(() => validatePublisher(invalid)).toThrow(
+      'name must be a non-empty string'
+    );
   });
 
   it('should throw error for missing displayName', () => {
     const invalid = { ...validPublisher };
     delete (invalid as any).displayName;
-    expect(() => validatePublisher(invalid)).toThrow('displayName must be a non-empty string');
+    expect(() => validatePublisher(invalid)).toThrow(
+      'displayName must be a non-empty string'
+    );
   });
 
   it('should throw error for missing location', () => {
     const invalid = { ...validPublisher };
     delete (invalid as any).location;
-    expect(() => validatePublisher(invalid)).toThrow('location must be a non-empty string');
+    expect(() => validatePublisher(invalid)).toThrow(
+      'location must be a non-empty string'
+    );
   });
 });
 
@@ -125,7 +147,9 @@ describe('validateOffer', () => {
   it('should throw error for missing publisher', () => {
     const invalid = { ...validOffer };
     delete (invalid as any).publisher;
-    expect(() => validateOffer(invalid)).toThrow('publisher must be a non-empty string');
+    expect(() => validateOffer(invalid)).toThrow(
+      'publisher must be a non-empty string'
+    );
   });
 });
 
@@ -151,17 +175,23 @@ describe('validateSKU', () => {
   it('should throw error for missing offer', () => {
     const invalid = { ...validSKU };
     delete (invalid as any).offer;
-    expect(() => validateSKU(invalid)).toThrow('offer must be a non-empty string');
+    expect(() => validateSKU(invalid)).toThrow(
+      'offer must be a non-empty string'
+    );
   });
 
   it('should throw error for invalid versions array', () => {
     const invalid = { ...validSKU, versions: 'not-array' };
-    expect(() => validateSKU(invalid)).toThrow('versions must be an array of strings');
+    expect(() => validateSKU(invalid)).toThrow(
+      'versions must be an array of strings'
+    );
   });
 
   it('should throw error for versions array with non-strings', () => {
     const invalid = { ...validSKU, versions: ['valid', 123, 'also-valid'] };
-    expect(() => validateSKU(invalid)).toThrow('versions must be an array of strings');
+    expect(() => validateSKU(invalid)).toThrow(
+      'versions must be an array of strings'
+    );
   });
 });
 
@@ -179,13 +209,17 @@ describe('validateVMImageReference', () => {
   });
 
   it('should throw error for non-object input', () => {
-    expect(() => validateVMImageReference(null)).toThrow('VMImageReference data must be an object');
+    expect(() => validateVMImageReference(null)).toThrow(
+      'VMImageReference data must be an object'
+    );
   });
 
   it('should throw error for missing version', () => {
     const invalid = { ...validImageRef };
     delete (invalid as any).version;
-    expect(() => validateVMImageReference(invalid)).toThrow('version must be a non-empty string');
+    expect(() => validateVMImageReference(invalid)).toThrow(
+      'version must be a non-empty string'
+    );
   });
 });
 
@@ -195,6 +229,9 @@ describe('validateIaCFormats', () => {
     terraform: 'source_image_reference { publisher = "microsoft" }',
     bicep: 'imageReference: { publisher: "microsoft" }',
     ansible: 'image: { publisher: "microsoft" }',
+    azureCli: 'az vm create --image "$urn"',
+    azureCliPowerShell: 'az vm create --image $urn',
+    powershell: 'Set-AzVMSourceImage -VM $vmConfig -PublisherName "microsoft"',
   };
 
   it('should validate valid IaC formats', () => {
@@ -203,31 +240,49 @@ describe('validateIaCFormats', () => {
   });
 
   it('should throw error for non-object input', () => {
-    expect(() => validateIaCFormats(null)).toThrow('IaCFormats data must be an object');
+    expect(() => validateIaCFormats(null)).toThrow(
+      'IaCFormats data must be an object'
+    );
   });
 
   it('should throw error for missing arm format', () => {
     const invalid = { ...validFormats };
     delete (invalid as any).arm;
-    expect(() => validateIaCFormats(invalid)).toThrow('arm must be a non-empty string');
+    expect(() => validateIaCFormats(invalid)).toThrow(
+      'arm must be a non-empty string'
+    );
   });
 
   it('should throw error for missing terraform format', () => {
     const invalid = { ...validFormats };
     delete (invalid as any).terraform;
-    expect(() => validateIaCFormats(invalid)).toThrow('terraform must be a non-empty string');
+    expect(() => validateIaCFormats(invalid)).toThrow(
+      'terraform must be a non-empty string'
+    );
   });
 
   it('should throw error for missing bicep format', () => {
     const invalid = { ...validFormats };
     delete (invalid as any).bicep;
-    expect(() => validateIaCFormats(invalid)).toThrow('bicep must be a non-empty string');
+    expect(() => validateIaCFormats(invalid)).toThrow(
+      'bicep must be a non-empty string'
+    );
   });
 
   it('should throw error for missing ansible format', () => {
     const invalid = { ...validFormats };
     delete (invalid as any).ansible;
-    expect(() => validateIaCFormats(invalid)).toThrow('ansible must be a non-empty string');
+    expect(() => validateIaCFormats(invalid)).toThrow(
+      'ansible must be a non-empty string'
+    );
+  });
+
+  it('should throw error for missing powershell format', () => {
+    const invalid = { ...validFormats };
+    delete (invalid as any).powershell;
+    expect(() => validateIaCFormats(invalid)).toThrow(
+      'powershell must be a non-empty string'
+    );
   });
 });
 
@@ -251,13 +306,17 @@ describe('validateSubscriptions', () => {
   });
 
   it('should throw error for non-array input', () => {
-    expect(() => validateSubscriptions({})).toThrow('Subscriptions data must be an array');
+    expect(() => validateSubscriptions({})).toThrow(
+      'Subscriptions data must be an array'
+    );
   });
 
   it('should throw error with index for invalid subscription in array', () => {
     const invalid = [...validSubscriptions];
     invalid[1] = { ...invalid[1], subscriptionId: '' };
-    expect(() => validateSubscriptions(invalid)).toThrow('Invalid subscription at index 1');
+    expect(() => validateSubscriptions(invalid)).toThrow(
+      'Invalid subscription at index 1'
+    );
   });
 
   it('should validate empty array', () => {
@@ -286,13 +345,17 @@ describe('validatePublishers', () => {
   });
 
   it('should throw error for non-array input', () => {
-    expect(() => validatePublishers({})).toThrow('Publishers data must be an array');
+    expect(() => validatePublishers({})).toThrow(
+      'Publishers data must be an array'
+    );
   });
 
   it('should throw error with index for invalid publisher in array', () => {
     const invalid = [...validPublishers];
     invalid[0] = { ...invalid[0], name: '' };
-    expect(() => validatePublishers(invalid)).toThrow('Invalid publisher at index 0');
+    expect(() => validatePublishers(invalid)).toThrow(
+      'Invalid publisher at index 0'
+    );
   });
 });
 
@@ -362,4 +425,4 @@ describe('validateSKUs', () => {
     invalid[0] = { ...invalid[0], versions: 'not-array' };
     expect(() => validateSKUs(invalid)).toThrow('Invalid SKU at index 0');
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,144 @@
+import { describe, it, expect } from 'vitest';
+import {
+  checkVMSizeCompatibility,
+  getImageSizeFeatures,
+  matchVMSizes,
+} from '../vmSizeCompatibility';
+import type { ImageVersionDetails, VMSize } from '../../types';
+
+const details: ImageVersionDetails = {
+  name: '24.04.202409120',
+  location: 'westeurope',
+  osDiskImage: { operatingSystem: 'Linux', sizeInGb: 30 },
+  dataDiskImages: [],
+  hyperVGeneration: 'V2',
+  architecture: 'x64',
+  features: [
+    { name: 'IsAcceleratedNetworkSupported', value: 'True' },
+    { name: 'DiskControllerTypes', value: 'SCSI, NVMe' },
+  ],
+  security: {
+    securityType: null,
+    trustedLaunch: 'unsupported',
+    confidentialVM: 'unsupported',
+  },
+  plan: null,
+  automaticOSUpgradeProperties: null,
+  disallowed: null,
+  deprecationStatus: null,
+};
+
+const size = (name: string, overrides: Partial<VMSize> = {}): VMSize => ({
+  name,
+  hyperVGenerations: ['V1', 'V2'],
+  architecture: 'x64',
+  acceleratedNetworking: true,
+  diskControllerTypes: ['SCSI'],
+  restricted: false,
+  ...overrides,
+});
+
+describe('getImageSizeFeatures', () => {
+  it('should read the features of the image version', () => {
+    expect(getImageSizeFeatures(details)).toEqual({
+      hyperVGeneration: 'V2',
+      architecture: 'x64',
+      acceleratedNetworking: true,
+      diskControllerTypes: ['SCSI', 'NVMe'],
+    });
+  });
+
+  it('should default images that publish no features', () => {
+    expect(
+      getImageSizeFeatures({
+        ...details,
+        hyperVGeneration: undefined,
+        architecture: undefined,
+        features: [],
+      })
+    ).toEqual({
+      hyperVGeneration: 'V1',
+      architecture: 'x64',
+      acceleratedNetworking: false,
+      diskControllerTypes: ['SCSI'],
+    });
+  });
+});
+
+describe('checkVMSizeCompatibility', () => {
+  it('should accept a size that matches every feature', () => {
+    expect(checkVMSizeCompatibility(size('Standard_D2s_v5'), details)).toEqual({
+      size: size('Standard_D2s_v5'),
+      compatible: true,
+      reasons: [],
+    });
+  });
+
+  it('should explain each mismatch', () => {
+    const result = checkVMSizeCompatibility(
+      size('Standard_D2ps_v5', {
+        hyperVGenerations: ['V1'],
+        architecture: 'Arm64',
+        restricted: true,
+      }),
+      details
+    );
+
+    expect(result.compatible).toBe(false);
+    expect(result.reasons).toEqual([
+      'Not available to the subscription in this location',
+      'Does not support Gen2 images (supports Gen1)',
+      'Arm64 size, the image is built for x64',
+    ]);
+  });
+
+  it('should reject NVMe-only sizes for SCSI images', () => {
+    const result = checkVMSizeCompatibility(
+      size('Standard_D2ds_v6', { diskControllerTypes: ['NVMe'] }),
+      { ...details, features: [] }
+    );
+
+    expect(result.reasons).toEqual([
+      'Requires the NVMe disk controller, which the image does not support',
+    ]);
+  });
+
+  it('should only check accelerated networking and NVMe when required', () => {
+    const basic = size('Standard_B2s', { acceleratedNetworking: false });
+
+    expect(checkVMSizeCompatibility(basic, details).compatible).toBe(true);
+    expect(
+      checkVMSizeCompatibility(basic, details, {
+        requireAcceleratedNetworking: true,
+        requireNvme: true,
+      }).reasons
+    ).toEqual(['No accelerated networking', 'No NVMe disk controller']);
+    expect(
+      checkVMSizeCompatibility(
+        size('Standard_E4s_v5'),
+        { ...details, features: [] },
+        { requireAcceleratedNetworking: true, requireNvme: true }
+      ).reasons
+    ).toEqual([
+      'The image does not support accelerated networking',
+      'The image does not support the NVMe disk controller',
+    ]);
+  });
+});
+
+describe('matchVMSizes', () => {
+  it('should list compatible sizes first', () => {
+    const results = matchVMSizes(
+      [
+        size('Standard_A1_v2', { hyperVGenerations: ['V1'] }),
+        size('Standard_D2s_v5'),
+      ],
+      details
+    );
+
+    expect(results.map((result) => result.size.name)).toEqual([
+      'Standard_D2s_v5',
+      'Standard_A1_v2',
+    ]);
+  });
+});
@@ -0,0 +1,28 @@
+/**
+ * Transport used by enhancedFetch to reach Azure Resource Manager.
+ * It defaults to the browser fetch and can be swapped for a local stand-in,
+ * e.g. the fixture-backed transport of the offline demo mode.
+ */
+export type ArmTransport = (
+  url: string,
+  init: RequestInit
+) => Promise<Response>;
+
+// Resolve fetch on every call, so tests that replace global.fetch still apply
+const fetchTransport: ArmTransport = (url, init) => fetch(url, init);
+
+let currentTransport: ArmTransport = fetchTransport;
+
+/**
+ * Transport every ARM request currently goes through
+ */
+export function getArmTransport(): ArmTransport {
+  return currentTransport;
+}
+
+/**
+ * Route ARM requests through another transport; null restores fetch
+ */
+export function setArmTransport(transport: ArmTransport | null): void {
+  currentTransport = transport ?? fetchTransport;
+}
@@ -0,0 +1,111 @@
+/**
+ * Concurrency helpers for fan-out API operations
+ * Keeps the number of in-flight requests bounded so fan-outs stay within ARM limits
+ */
+
+import { RequestAbortedError } from './errorHandling';
+
+/**
+ * Map items through an async mapper with at most `concurrency` mappers running
+ * at once. Results keep the order of the input items.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: readonly T[],
+  concurrency: number,
+  mapper: (item: T, index: number) => Promise<R>,
+  onProgress?: (completed: number, total: number) => void
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  const workerCount = Math.max(1, Math.min(concurrency, items.length));
+  let nextIndex = 0;
+  let completed = 0;
+
+  const worker = async (): Promise<void> => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await mapper(items[index], index);
+      completed++;
+      onProgress?.(completed, items.length);
+    }
+  };
+
+  await Promise.all(Array.from({ length: workerCount }, () => worker()));
+  return results;
+}
+
+interface InFlightRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  subscribers: number;
+}
+
+/**
+ * Coalesces identical concurrent requests: callers asking for a key that is
+ * already loading share the pending request instead of sending another one.
+ * Each caller can abort its own wait; the shared request is only aborted once
+ * every caller waiting on it has aborted.
+ */
+export class InFlightRequests {
+  private requests = new Map<string, InFlightRequest>();
+
+  run<T>(
+    key: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    if (signal?.aborted) {
+      return Promise.reject(new RequestAbortedError('Request was aborted'));
+    }
+
+    let entry = this.requests.get(key);
+    if (!entry) {
+      const controller = new AbortController();
+      const created: InFlightRequest = {
+        controller,
+        subscribers: 0,
+        promise: request(controller.signal).finally(() => {
+          if (this.requests.get(key) === created) {
+            this.requests.delete(key);
+          }
+        }),
+      };
+      this.requests.set(key, created);
+      entry = created;
+    }
+
+    const shared = entry;
+    shared.subscribers++;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        shared.subscribers--;
+        if (shared.subscribers === 0) {
+          shared.controller.abort();
+          if (this.requests.get(key) === shared) {
+            this.requests.delete(key);
+          }
+        }
+        reject(new RequestAbortedError('Request was aborted'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      shared.promise.then(
+        (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value as T);
+        },
+        (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Number of distinct requests currently loading
+   */
+  get size(): number {
+    return this.requests.size;
+  }
+}
@@ -3,12 +3,14 @@
  * Provides retry logic with exponential backoff and user-friendly error messages
  */
 
+import { getArmTransport } from './armTransport';
+
 // Base error types
 export abstract class AppError extends Error {
   abstract readonly code: string;
   abstract readonly userMessage: string;
   abstract readonly retryable: boolean;
-  
+
   constructor(
     message: string,
     public readonly statusCode?: number,
@@ -22,7 +24,8 @@ export abstract class AppError extends Error {
 // Specific error types
 export class NetworkError extends AppError {
   readonly code = 'NETWORK_ERROR';
-  readonly userMessage = 'Network connection failed. Please check your internet connection and try again.';
+  readonly userMessage =
+    'Network connection failed. Please check your internet connection and try again.';
   readonly retryable = true;
 }
 
@@ -34,15 +37,17 @@ export class AuthenticationError extends AppError {
 
 export class AuthorizationError extends AppError {
   readonly code = 'AUTHORIZATION_ERROR';
-  readonly userMessage = 'You don\'t have permission to access this resource. Please contact your administrator.';
+  readonly userMessage =
+    "You don't have permission to access this resource. Please contact your administrator.";
   readonly retryable = false;
 }
 
 export class RateLimitError extends AppError {
   readonly code = 'RATE_LIMIT_ERROR';
-  readonly userMessage = 'Too many requests. Please wait a moment and try again.';
+  readonly userMessage =
+    'Too many requests. Please wait a moment and try again.';
   readonly retryable = true;
-  
+
   constructor(
     message: string,
     public readonly retryAfter?: number,
@@ -55,22 +60,31 @@ export class RateLimitError extends AppError {
 
 export class ServerError extends AppError {
   readonly code = 'SERVER_ERROR';
-  readonly userMessage = 'Server is temporarily unavailable. Please try again in a few moments.';
+  readonly userMessage =
+    'Server is temporarily unavailable. Please try again in a few moments.';
   readonly retryable = true;
 }
 
 export class ValidationError extends AppError {
   readonly code = 'VALIDATION_ERROR';
-  readonly userMessage = 'Invalid data provided. Please check your input and try again.';
+  readonly userMessage =
+    'Invalid data provided. Please check your input and try again.';
   readonly retryable = false;
 }
 
 export class ServiceUnavailableError extends AppError {
   readonly code = 'SERVICE_UNAVAILABLE';
-  readonly userMessage = 'Service is temporarily unavailable. Please try again later.';
+  readonly userMessage =
+    'Service is temporarily unavailable. Please try again later.';
   readonly retryable = true;
 }
 
+export class RequestAbortedError extends AppError {
+  readonly code = 'REQUEST_ABORTED';
+  readonly userMessage = 'The request was cancelled.';
+  readonly retryable = false;
+}
+
 // Retry configuration
 export interface RetryConfig {
   maxRetries: number;
@@ -89,8 +103,8 @@ export const DEFAULT_RETRY_CONFIG: RetryConfig = {
     'NETWORK_ERROR',
     'RATE_LIMIT_ERROR',
     'SERVER_ERROR',
-    'SERVICE_UNAVAILABLE'
-  ]
+    'SERVICE_UNAVAILABLE',
+  ],
 };
 
 // Circuit breaker configuration
@@ -110,7 +124,7 @@ export const DEFAULT_CIRCUIT_BREAKER_CONFIG: CircuitBreakerConfig = {
 export enum CircuitBreakerState {
   CLOSED = 'CLOSED',
   OPEN = 'OPEN',
-  HALF_OPEN = 'HALF_OPEN'
+  HALF_OPEN = 'HALF_OPEN',
 }
 
 // Circuit breaker implementation
@@ -120,7 +134,9 @@ export class CircuitBreaker {
   private _lastFailureTime = 0;
   private nextAttemptTime = 0;
 
-  constructor(private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG) {}
+  constructor(
+    private config: CircuitBreakerConfig = DEFAULT_CIRCUIT_BREAKER_CONFIG
+  ) {}
 
   async execute<T>(operation: () => Promise<T>): Promise<T> {
     if (this.state === CircuitBreakerState.OPEN) {
@@ -137,7 +153,10 @@ export class CircuitBreaker {
       this.onSuccess();
       return result;
     } catch (error) {
-      this.onFailure();
+      // A cancelled request says nothing about the health of the service
+      if (!isAbortError(error)) {
+        this.onFailure();
+      }
       throw error;
     }
   }
@@ -172,37 +191,49 @@ export function classifyError(error: unknown): AppError {
     return error;
   }
 
+  if (isAbortError(error)) {
+    return new RequestAbortedError(
+      'Request was aborted',
+      undefined,
+      error as Error
+    );
+  }
+
   if (error instanceof TypeError && error.message.includes('fetch')) {
-    return new NetworkError('Network request failed', undefined, error as Error);
+    return new NetworkError(
+      'Network request failed',
+      undefined,
+      error as Error
+    );
   }
 
   if (error instanceof Error) {
     const message = error.message.toLowerCase();
-    
+
     if (message.includes('network') || message.includes('connection')) {
       return new NetworkError('Network connection failed', undefined, error);
     }
-    
+
     if (message.includes('timeout')) {
       return new NetworkError('Request timed out', undefined, error);
     }
-    
+
     if (message.includes('unauthorized') || message.includes('401')) {
       return new AuthenticationError('Authentication failed', 401, error);
     }
-    
+
     if (message.includes('forbidden') || message.includes('403')) {
       return new AuthorizationError('Access forbidden', 403, error);
     }
-    
+
     if (message.includes('rate limit') || message.includes('429')) {
       return new RateLimitError('Rate limit exceeded', undefined, 429, error);
     }
-    
+
     if (message.includes('server error') || message.includes('500')) {
       return new ServerError('Internal server error', 500, error);
     }
-    
+
     if (message.includes('service unavailable') || message.includes('503')) {
       return new ServiceUnavailableError('Service unavailable', 503, error);
     }
@@ -217,7 +248,10 @@ export function classifyError(error: unknown): AppError {
 }
 
 // HTTP response error classification
-export function classifyHttpError(response: Response, responseText?: string): AppError {
+export function classifyHttpError(
+  response: Response,
+  responseText?: string
+): AppError {
   const status = response.status;
   const statusText = response.statusText;
   const message = responseText || statusText;
@@ -226,16 +260,18 @@ export function classifyHttpError(response: Response, responseText?: string): Ap
     case 400:
       return new ValidationError(`Bad request: ${message}`, status);
     case 401:
-      return new AuthenticationError(`Authentication failed: ${message}`, status);
+      return new AuthenticationError(
+        `Authentication failed: ${message}`,
+        status
+      );
     case 403:
       return new AuthorizationError(`Access forbidden: ${message}`, status);
     case 404:
       return new ValidationError(`Resource not found: ${message}`, status);
     case 429:
-      const retryAfter = response.headers.get('Retry-After');
       return new RateLimitError(
         `Rate limit exceeded: ${message}`,
-        retryAfter ? parseInt(retryAfter) * 1000 : undefined,
+        parseRetryAfter(response.headers.get('Retry-After')),
         status
       );
     case 500:
@@ -243,16 +279,25 @@ export function classifyHttpError(response: Response, responseText?: string): Ap
     case 502:
       return new ServerError(`Bad gateway: ${message}`, status);
     case 503:
-      return new ServiceUnavailableError(`Service unavailable: ${message}`, status);
+      return new ServiceUnavailableError(
+        `Service unavailable: ${message}`,
+        status
+      );
     case 504:
       return new ServerError(`Gateway timeout: ${message}`, status);
     default:
       if (status >= 500) {
         return new ServerError(`Server error ${status}: ${message}`, status);
       } else if (status >= 400) {
-        return new ValidationError(`Client error ${status}: ${message}`, status);
+        return new ValidationError(
+          `Client error ${status}: ${message}`,
+          status
+        );
       } else {
-        return new ServerError(`Unexpected status ${status}: ${message}`, status);
+        return new ServerError(
+          `Unexpected status ${status}: ${message}`,
+          status
+        );
       }
   }
 }
@@ -260,81 +305,146 @@ export function classifyHttpError(response: Response, responseText?: string): Ap
 // Retry utility with exponential backoff
 export async function withRetry<T>(
   operation: () => Promise<T>,
-  config: RetryConfig = DEFAULT_RETRY_CONFIG
+  config: RetryConfig = DEFAULT_RETRY_CONFIG,
+  signal?: AbortSignal
 ): Promise<T> {
   let lastError: AppError | null = null;
-  
+
   for (let attempt = 0; attempt <= config.maxRetries; attempt++) {
+    if (signal?.aborted) {
+      throw new RequestAbortedError('Request was aborted');
+    }
+
     try {
       return await operation();
     } catch (error) {
       const appError = classifyError(error);
       lastError = appError;
-      
+
       // Don't retry if error is not retryable
-      if (!appError.retryable || !config.retryableErrors.includes(appError.code)) {
+      if (
+        !appError.retryable ||
+        !config.retryableErrors.includes(appError.code)
+      ) {
         throw appError;
       }
-      
+
       // Don't retry on last attempt
       if (attempt === config.maxRetries) {
         throw appError;
       }
-      
+
       // Calculate delay for next attempt
-      let delay = config.baseDelay * Math.pow(config.backoffMultiplier, attempt);
-      
-      // Handle rate limit specific delay
+      let delay =
+        config.baseDelay * Math.pow(config.backoffMultiplier, attempt);
+
+      // Cap the delay
+      delay = Math.min(delay, config.maxDelay);
+
+      // Never retry before the Retry-After the server asked for, even past the cap
       if (appError instanceof RateLimitError && appError.retryAfter) {
         delay = Math.max(delay, appError.retryAfter);
       }
-      
-      // Cap the delay
-      delay = Math.min(delay, config.maxDelay);
-      
+
       // Add jitter to prevent thundering herd
       delay = delay + Math.random() * 1000;
-      
-      await sleep(delay);
+
+      await sleep(delay, signal);
     }
   }
-  
+
   throw lastError || new ServerError('Max retries exceeded');
 }
 
+// Client-side limiter consulted around every fetch attempt
+export interface RequestThrottle {
+  acquire(signal?: AbortSignal): Promise<void>;
+  recordResponse(response: Response): void;
+}
+
 // Enhanced fetch wrapper with error handling
 export async function enhancedFetch(
   url: string,
   options: RequestInit = {},
-  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG
+  retryConfig: RetryConfig = DEFAULT_RETRY_CONFIG,
+  throttle?: RequestThrottle
 ): Promise<Response> {
-  return withRetry(async () => {
-    try {
-      const response = await fetch(url, options);
-      
-      if (!response.ok) {
-        let responseText: string | undefined;
-        try {
-          responseText = await response.text();
-        } catch {
-          // Ignore errors when reading response text
+  return withRetry(
+    async () => {
+      try {
+        await throttle?.acquire(options.signal ?? undefined);
+        const response = await getArmTransport()(url, options);
+        throttle?.recordResponse(response);
+
+        if (!response.ok) {
+          let responseText: string | undefined;
+          try {
+            responseText = await response.text();
+          } catch {
+            // Ignore errors when reading response text
+          }
+          throw classifyHttpError(response, responseText);
         }
-        throw classifyHttpError(response, responseText);
-      }
-      
-      return response;
-    } catch (error) {
-      if (error instanceof AppError) {
-        throw error;
+
+        return response;
+      } catch (error) {
+        if (error instanceof AppError) {
+          throw error;
+        }
+        throw classifyError(error);
       }
-      throw classifyError(error);
-    }
-  }, retryConfig);
+    },
+    retryConfig,
+    options.signal ?? undefined
+  );
 }
 
 // Utility functions
-export function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new RequestAbortedError('Request was aborted'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new RequestAbortedError('Request was aborted'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// Retry-After is either a number of seconds or an HTTP date; returns milliseconds
+export function parseRetryAfter(
+  value: string | null | undefined
+): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+// True for fetch aborts (DOMException 'AbortError') and RequestAbortedError
+export function isAbortError(error: unknown): boolean {
+  return (
+    error instanceof RequestAbortedError ||
+    // DOMException is not an Error subclass in every environment
+    (typeof error === 'object' &&
+      error !== null &&
+      (error as { name?: unknown }).name === 'AbortError')
+  );
 }
 
 export function isRetryableError(error: unknown): boolean {
@@ -363,9 +473,12 @@ export interface ErrorReport {
   userAgent?: string;
 }
 
-export function createErrorReport(error: unknown, context?: { url?: string }): ErrorReport {
+export function createErrorReport(
+  error: unknown,
+  context?: { url?: string }
+): ErrorReport {
   const appError = classifyError(error);
-  
+
   return {
     code: appError.code,
     message: appError.message,
@@ -374,6 +487,7 @@ export function createErrorReport(error: unknown, context?: { url?: string }): E
     retryable: appError.retryable,
     timestamp: Date.now(),
     url: context?.url,
-    userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
+    userAgent:
+      typeof navigator !== 'undefined' ? navigator.userAgent : undefined,
   };
-}
\ No newline at end of file
+}
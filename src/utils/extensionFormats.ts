@@ -0,0 +1,117 @@
+import type { VMExtensionReference } from '../types';
+
+// API version of the Microsoft.Compute/virtualMachines/extensions resource
+const EXTENSION_API_VERSION = '2024-07-01';
+
+export interface ExtensionFormats {
+  arm: string;
+  terraform: string;
+  bicep: string;
+}
+
+/**
+ * Turns an extension type into an identifier usable as a Terraform
+ * resource label or Bicep symbolic name
+ */
+function toIdentifier(type: string): string {
+  const identifier = type
+    .replace(/[^A-Za-z0-9]+/g, '_')
+    .replace(/^_+|_+$/g, '');
+  return /^[A-Za-z]/.test(identifier) ? identifier : `ext_${identifier}`;
+}
+
+/**
+ * Generates an ARM template extensions resource for the VM extension
+ */
+export function generateExtensionARMTemplate(
+  ext: VMExtensionReference
+): string {
+  const resource = {
+    type: 'Microsoft.Compute/virtualMachines/extensions',
+    apiVersion: EXTENSION_API_VERSION,
+    name: `[format('{0}/{1}', parameters('vmName'), '${ext.type}')]`,
+    location: "[parameters('location')]",
+    properties: {
+      publisher: ext.publisher,
+      type: ext.type,
+      typeHandlerVersion: ext.typeHandlerVersion,
+      autoUpgradeMinorVersion: true,
+      settings: {},
+    },
+  };
+
+  return JSON.stringify(resource, null, 2);
+}
+
+/**
+ * Generates a Terraform azurerm_virtual_machine_extension resource
+ */
+export function generateExtensionTerraformTemplate(
+  ext: VMExtensionReference
+): string {
+  return `resource "azurerm_virtual_machine_extension" "${toIdentifier(ext.type).toLowerCase()}" {
+  name                       = "${ext.type}"
+  virtual_machine_id         = azurerm_linux_virtual_machine.example.id
+  publisher                  = "${ext.publisher}"
+  type                       = "${ext.type}"
+  type_handler_version       = "${ext.typeHandlerVersion}"
+  auto_upgrade_minor_version = true
+}`;
+}
+
+/**
+ * Generates a Bicep extension resource nested under an existing VM symbol
+ */
+export function generateExtensionBicepTemplate(
+  ext: VMExtensionReference
+): string {
+  const identifier = toIdentifier(ext.type);
+  const symbol = identifier.charAt(0).toLowerCase() + identifier.slice(1);
+
+  return `resource ${symbol} 'Microsoft.Compute/virtualMachines/extensions@${EXTENSION_API_VERSION}' = {
+  parent: vm
+  name: '${ext.type}'
+  location: location
+  properties: {
+    publisher: '${ext.publisher}'
+    type: '${ext.type}'
+    typeHandlerVersion: '${ext.typeHandlerVersion}'
+    autoUpgradeMinorVersion: true
+  }
+}`;
+}
+
+/**
+ * Generates all snippet formats for a VM extension
+ */
+export function generateAllExtensionFormats(
+  ext: VMExtensionReference
+): ExtensionFormats {
+  return {
+    arm: generateExtensionARMTemplate(ext),
+    terraform: generateExtensionTerraformTemplate(ext),
+    bicep: generateExtensionBicepTemplate(ext),
+  };
+}
+
+/**
+ * Validates that an extension reference has all required fields
+ */
+export function validateExtensionReference(ext: VMExtensionReference): boolean {
+  return !!(
+    ext.publisher?.trim() &&
+    ext.type?.trim() &&
+    ext.typeHandlerVersion?.trim()
+  );
+}
+
+/**
+ * Available extension snippet formats with display names
+ */
+export const EXTENSION_FORMATS = [
+  { key: 'arm', label: 'ARM Template' },
+  { key: 'terraform', label: 'Terraform' },
+  { key: 'bicep', label: 'Bicep' },
+] as const;
+
+export type ExtensionFormatKey = (typeof EXTENSION_FORMATS)[number]['key'];
@@ -1,70 +1,1360 @@
-import type { VMImageReference, IaCFormats } from '../types';
+import type {
+  VMImageReference,
+  ImageReference,
+  ResourceImageReference,
+  IaCFormats,
+  ImageOSType,
+  PurchasePlan,
+  SharedGalleryKind,
+  VMSecurityProfile,
+} from '../types';
+
+/**
+ * Returns true for the four-part publisher/offer/sku/version reference
+ */
+export function isMarketplaceImageReference(
+  imageRef: ImageReference
+): imageRef is VMImageReference {
+  return 'publisher' in imageRef && 'offer' in imageRef;
+}
+
+/**
+ * Returns true when the image is referenced by resource ID (gallery image)
+ * instead of the four-part marketplace reference
+ */
+export function isResourceImageReference(
+  imageRef: ImageReference
+): imageRef is ResourceImageReference {
+  return 'id' in imageRef && typeof imageRef.id === 'string';
+}
+
+// ARM property names of the ID-based image reference forms
+export type ImageIdProperty =
+  | 'id'
+  | 'communityGalleryImageId'
+  | 'sharedGalleryImageId';
+
+// Ansible azure_rm_virtualmachine image keys for the same forms
+const ANSIBLE_IMAGE_ID_KEYS: Record<ImageIdProperty, string> = {
+  id: 'id',
+  communityGalleryImageId: 'community_gallery_image_id',
+  sharedGalleryImageId: 'shared_gallery_image_id',
+};
+
+/**
+ * Builds the image reference of a community or direct-shared gallery image
+ * or version from its unique ID
+ */
+export function createSharedGalleryImageReference(
+  kind: SharedGalleryKind,
+  uniqueId: string,
+  plan: PurchasePlan | null = null
+): Exclude<ImageReference, VMImageReference | ResourceImageReference> {
+  return kind === 'community'
+    ? { communityGalleryImageId: uniqueId, plan }
+    : { sharedGalleryImageId: uniqueId, plan };
+}
+
+/**
+ * Returns the ARM property and value of an ID-based image reference
+ */
+export function getImageIdReference(
+  imageRef: Exclude<ImageReference, VMImageReference>
+): { property: ImageIdProperty; value: string } {
+  if ('communityGalleryImageId' in imageRef) {
+    return {
+      property: 'communityGalleryImageId',
+      value: imageRef.communityGalleryImageId,
+    };
+  }
+  if ('sharedGalleryImageId' in imageRef) {
+    return {
+      property: 'sharedGalleryImageId',
+      value: imageRef.sharedGalleryImageId,
+    };
+  }
+  return { property: 'id', value: imageRef.id };
+}
+
+/**
+ * Returns true when the image needs a marketplace purchase plan block
+ */
+export function requiresPurchasePlan(
+  imageRef: ImageReference
+): imageRef is ImageReference & { plan: PurchasePlan } {
+  return !!(
+    imageRef.plan &&
+    imageRef.plan.name &&
+    imageRef.plan.publisher &&
+    imageRef.plan.product
+  );
+}
+
+/**
+ * Edge zone a marketplace image reference was browsed in, if any
+ */
+function getEdgeZone(imageRef: ImageReference): string | null {
+  return isMarketplaceImageReference(imageRef) && imageRef.edgeZone?.trim()
+    ? imageRef.edgeZone
+    : null;
+}
+
+/**
+ * Security profile chosen for a marketplace image reference, if any
+ */
+function getSecurityProfile(
+  imageRef: ImageReference
+): VMSecurityProfile | null {
+  return isMarketplaceImageReference(imageRef) && imageRef.securityProfile
+    ? imageRef.securityProfile
+    : null;
+}
 
 /**
  * Generates ARM template format for VM image reference
  */
-export function generateARMTemplate(imageRef: VMImageReference): string {
-  return JSON.stringify({
-    imageReference: {
+export function generateARMTemplate(imageRef: ImageReference): string {
+  let imageReference: Record<string, string>;
+  if (isMarketplaceImageReference(imageRef)) {
+    imageReference = {
       publisher: imageRef.publisher,
       offer: imageRef.offer,
       sku: imageRef.sku,
-      version: imageRef.version
-    }
-  }, null, 2);
+      version: imageRef.version,
+    };
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    imageReference = { [property]: value };
+  }
+
+  const template: Record<string, unknown> = { imageReference };
+
+  // Edge zone VMs carry an extendedLocation next to "location"
+  const edgeZone = getEdgeZone(imageRef);
+  if (edgeZone) {
+    template.extendedLocation = {
+      type: 'EdgeZone',
+      name: edgeZone,
+    };
+  }
+
+  // Part of the VM's "properties", next to storageProfile
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    template.securityProfile = {
+      securityType: securityProfile.securityType,
+      uefiSettings: {
+        secureBootEnabled: securityProfile.secureBootEnabled,
+        vTpmEnabled: securityProfile.vTpmEnabled,
+      },
+    };
+  }
+
+  // The plan sits next to "properties" on the VM resource
+  if (requiresPurchasePlan(imageRef)) {
+    template.plan = {
+      name: imageRef.plan.name,
+      publisher: imageRef.plan.publisher,
+      product: imageRef.plan.product,
+    };
+  }
+
+  return JSON.stringify(template, null, 2);
 }
 
 /**
  * Generates Terraform format for VM image reference
  */
-export function generateTerraformTemplate(imageRef: VMImageReference): string {
-  return `source_image_reference {
+export function generateTerraformTemplate(imageRef: ImageReference): string {
+  // azurerm accepts gallery, community and shared gallery IDs alike
+  const reference = !isMarketplaceImageReference(imageRef)
+    ? `source_image_id = "${getImageIdReference(imageRef).value}"`
+    : `source_image_reference {
   publisher = "${imageRef.publisher}"
   offer     = "${imageRef.offer}"
   sku       = "${imageRef.sku}"
   version   = "${imageRef.version}"
 }`;
+
+  const edgeZone = getEdgeZone(imageRef);
+  let placement = edgeZone
+    ? `${reference}
+
+edge_zone = "${edgeZone}"`
+    : reference;
+
+  // azurerm derives the security type from these flags and the OS disk
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    placement = `${placement}
+
+secure_boot_enabled = ${securityProfile.secureBootEnabled}
+vtpm_enabled        = ${securityProfile.vTpmEnabled}`;
+    if (securityProfile.securityType === 'ConfidentialVM') {
+      placement = `${placement}
+# Confidential VM: also set os_disk.security_encryption_type`;
+    }
+  }
+
+  if (!requiresPurchasePlan(imageRef)) {
+    return placement;
+  }
+
+  return `${placement}
+
+plan {
+  name      = "${imageRef.plan.name}"
+  publisher = "${imageRef.plan.publisher}"
+  product   = "${imageRef.plan.product}"
+}`;
 }
 
 /**
  * Generates Bicep format for VM image reference
  */
-export function generateBicepTemplate(imageRef: VMImageReference): string {
-  return `imageReference: {
+export function generateBicepTemplate(imageRef: ImageReference): string {
+  let reference: string;
+  if (isMarketplaceImageReference(imageRef)) {
+    reference = `imageReference: {
   publisher: '${imageRef.publisher}'
   offer: '${imageRef.offer}'
   sku: '${imageRef.sku}'
   version: '${imageRef.version}'
+}`;
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    reference = `imageReference: {
+  ${property}: '${value}'
+}`;
+  }
+
+  const edgeZone = getEdgeZone(imageRef);
+  if (edgeZone) {
+    reference = `${reference}
+extendedLocation: {
+  type: 'EdgeZone'
+  name: '${edgeZone}'
+}`;
+  }
+
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    reference = `${reference}
+securityProfile: {
+  securityType: '${securityProfile.securityType}'
+  uefiSettings: {
+    secureBootEnabled: ${securityProfile.secureBootEnabled}
+    vTpmEnabled: ${securityProfile.vTpmEnabled}
+  }
+}`;
+  }
+
+  if (!requiresPurchasePlan(imageRef)) {
+    return reference;
+  }
+
+  return `${reference}
+plan: {
+  name: '${imageRef.plan.name}'
+  publisher: '${imageRef.plan.publisher}'
+  product: '${imageRef.plan.product}'
 }`;
 }
 
 /**
  * Generates Ansible format for VM image reference
  */
-export function generateAnsibleTemplate(imageRef: VMImageReference): string {
-  return `image:
+export function generateAnsibleTemplate(imageRef: ImageReference): string {
+  let reference: string;
+  if (isMarketplaceImageReference(imageRef)) {
+    reference = `image:
   publisher: "${imageRef.publisher}"
   offer: "${imageRef.offer}"
   sku: "${imageRef.sku}"
   version: "${imageRef.version}"`;
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    reference = `image:
+  ${ANSIBLE_IMAGE_ID_KEYS[property]}: "${value}"`;
+  }
+
+  // azure_rm_virtualmachine has no edge zone option, so the zone is not emitted
+
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    reference = `${reference}
+security_profile:
+  security_type: "${securityProfile.securityType}"
+  uefi_settings:
+    secure_boot_enabled: ${securityProfile.secureBootEnabled}
+    v_tpm_enabled: ${securityProfile.vTpmEnabled}`;
+  }
+
+  if (!requiresPurchasePlan(imageRef)) {
+    return reference;
+  }
+
+  return `${reference}
+plan:
+  name: "${imageRef.plan.name}"
+  publisher: "${imageRef.plan.publisher}"
+  product: "${imageRef.plan.product}"`;
+}
+
+/**
+ * Commands that accept the marketplace terms of a purchase plan
+ */
+export interface TermsAcceptCommands {
+  azureCli: string;
+  powershell: string;
+}
+
+/**
+ * Generates the Azure CLI and Az PowerShell commands that accept the
+ * marketplace terms for a purchase plan, optionally in a given subscription
+ */
+export function generateTermsAcceptCommands(
+  plan: PurchasePlan,
+  subscriptionId?: string
+): TermsAcceptCommands {
+  const cliSubscription = subscriptionId
+    ? ` --subscription "${subscriptionId}"`
+    : '';
+  const psSubscription = subscriptionId
+    ? `Set-AzContext -Subscription "${subscriptionId}"\n`
+    : '';
+
+  return {
+    azureCli: `az vm image terms accept --publisher "${plan.publisher}" --offer "${plan.product}" --plan "${plan.name}"${cliSubscription}`,
+    powershell: `${psSubscription}Get-AzMarketplaceTerms -Publisher "${plan.publisher}" -Product "${plan.product}" -Name "${plan.name}" -OfferType virtualmachine | Set-AzMarketplaceTerms -Accept`,
+  };
+}
+
+// Shells Azure CLI commands are quoted for
+export type AzureCliShell = 'bash' | 'powershell';
+
+// Line continuation and variable syntax of each shell
+const CLI_SHELL_SYNTAX: Record<
+  AzureCliShell,
+  {
+    continuation: string;
+    assign: (name: string, value: string) => string;
+    variable: (name: string) => string;
+  }
+> = {
+  bash: {
+    continuation: '\\',
+    assign: (name, value) => `${name}="${value}"`,
+    variable: (name) => `"$${name}"`,
+  },
+  powershell: {
+    continuation: '`',
+    assign: (name, value) => `$${name} = "${value}"`,
+    variable: (name) => `$${name}`,
+  },
+};
+
+// Emitted for the location when the image was not browsed in a known one
+const LOCATION_PLACEHOLDER = '<location>';
+
+// Confidential VMs encrypt the VM guest state with the OS disk
+const CVM_DISK_ENCRYPTION_TYPE = 'VMGuestStateOnly';
+
+// Set-AzVMSourceImage parameters of the ID-based image reference forms
+const POWERSHELL_IMAGE_ID_PARAMETERS: Record<ImageIdProperty, string> = {
+  id: 'Id',
+  communityGalleryImageId: 'CommunityGalleryImageId',
+  sharedGalleryImageId: 'SharedGalleryImageId',
+};
+
+/**
+ * Returns the publisher:offer:sku:version URN of a marketplace image
+ */
+export function getImageURN(imageRef: VMImageReference): string {
+  return `${imageRef.publisher}:${imageRef.offer}:${imageRef.sku}:${imageRef.version}`;
+}
+
+/**
+ * Variable holding the image a CLI command is run with, and its value
+ */
+function getCliImageVariable(imageRef: ImageReference): {
+  name: string;
+  value: string;
+} {
+  return isMarketplaceImageReference(imageRef)
+    ? { name: 'urn', value: getImageURN(imageRef) }
+    : { name: 'imageId', value: getImageIdReference(imageRef).value };
+}
+
+/**
+ * Splits a command over one line per argument with the shell's continuation
+ */
+function formatCliCommand(
+  command: string,
+  args: string[],
+  shell: AzureCliShell
+): string {
+  const { continuation } = CLI_SHELL_SYNTAX[shell];
+  return [command, ...args.map((arg) => `  ${arg}`)].join(` ${continuation}\n`);
+}
+
+/**
+ * Returns the az vm create arguments that select the image, its plan,
+ * security type and edge zone
+ */
+function getAzureCliImageArguments(
+  imageRef: ImageReference,
+  shell: AzureCliShell
+): string[] {
+  const { variable } = CLI_SHELL_SYNTAX[shell];
+  const args = [`--image ${variable(getCliImageVariable(imageRef).name)}`];
+
+  if (requiresPurchasePlan(imageRef)) {
+    args.push(
+      `--plan-name "${imageRef.plan.name}"`,
+      `--plan-product "${imageRef.plan.product}"`,
+      `--plan-publisher "${imageRef.plan.publisher}"`
+    );
+  }
+
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    args.push(
+      `--security-type ${securityProfile.securityType}`,
+      `--enable-secure-boot ${securityProfile.secureBootEnabled}`,
+      `--enable-vtpm ${securityProfile.vTpmEnabled}`
+    );
+    if (securityProfile.securityType === 'ConfidentialVM') {
+      args.push(
+        `--os-disk-security-encryption-type ${CVM_DISK_ENCRYPTION_TYPE}`
+      );
+    }
+  }
+
+  const edgeZone = getEdgeZone(imageRef);
+  if (edgeZone) {
+    args.push(`--edge-zone "${edgeZone}"`);
+  }
+
+  return args;
+}
+
+/**
+ * Returns the az vm image show and terms accept commands of an image, if
+ * it has any
+ */
+function getAzureCliImageCommands(
+  imageRef: ImageReference,
+  shell: AzureCliShell
+): string[] {
+  const { variable } = CLI_SHELL_SYNTAX[shell];
+  const commands: string[] = [];
+
+  // az vm image show only resolves marketplace URNs
+  if (isMarketplaceImageReference(imageRef)) {
+    commands.push(
+      `az vm image show --location ${variable('location')} --urn ${variable('urn')}`
+    );
+  }
+  if (requiresPurchasePlan(imageRef)) {
+    commands.push(generateTermsAcceptCommands(imageRef.plan).azureCli);
+  }
+
+  return commands;
+}
+
+/**
+ * Returns the variable assignments and the az vm create arguments that name
+ * the VM, its resource group and location
+ */
+function getAzureCliVMTarget(
+  imageRef: ImageReference,
+  shell: AzureCliShell,
+  location: string | null
+): { variables: string; args: string[] } {
+  const { assign, variable } = CLI_SHELL_SYNTAX[shell];
+  const image = getCliImageVariable(imageRef);
+
+  return {
+    variables: [
+      assign('resourceGroup', 'vm1-rg'),
+      assign('location', location || LOCATION_PLACEHOLDER),
+      assign('vmName', 'vm1'),
+      assign(image.name, image.value),
+    ].join('\n'),
+    args: [
+      `--resource-group ${variable('resourceGroup')}`,
+      `--name ${variable('vmName')}`,
+      `--location ${variable('location')}`,
+    ],
+  };
+}
+
+/**
+ * Generates Azure CLI commands that show the image and pass it to
+ * az vm create, quoted for bash or PowerShell
+ */
+export function generateAzureCliCommands(
+  imageRef: ImageReference,
+  shell: AzureCliShell = 'bash',
+  location: string | null = null
+): string {
+  const target = getAzureCliVMTarget(imageRef, shell, location);
+
+  return [
+    target.variables,
+    ...getAzureCliImageCommands(imageRef, shell),
+    formatCliCommand(
+      'az vm create',
+      [...target.args, ...getAzureCliImageArguments(imageRef, shell)],
+      shell
+    ),
+  ].join('\n\n');
+}
+
+/**
+ * Returns the Az PowerShell lines that set the image, plan and security
+ * type on $vmConfig
+ */
+function getPowerShellImageLines(imageRef: ImageReference): string[] {
+  let sourceImage: string;
+  if (isMarketplaceImageReference(imageRef)) {
+    sourceImage = `-PublisherName "${imageRef.publisher}" -Offer "${imageRef.offer}" -Skus "${imageRef.sku}" -Version "${imageRef.version}"`;
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    sourceImage = `-${POWERSHELL_IMAGE_ID_PARAMETERS[property]} "${value}"`;
+  }
+
+  const lines = [
+    `$vmConfig = Set-AzVMSourceImage -VM $vmConfig ${sourceImage}`,
+  ];
+
+  if (requiresPurchasePlan(imageRef)) {
+    lines.push(
+      `$vmConfig = Set-AzVMPlan -VM $vmConfig -Name "${imageRef.plan.name}" -Product "${imageRef.plan.product}" -Publisher "${imageRef.plan.publisher}"`
+    );
+  }
+
+  const securityProfile = getSecurityProfile(imageRef);
+  if (securityProfile) {
+    lines.push(
+      `$vmConfig = Set-AzVMSecurityProfile -VM $vmConfig -SecurityType "${securityProfile.securityType}"`,
+      `$vmConfig = Set-AzVMUefi -VM $vmConfig -EnableSecureBoot $${securityProfile.secureBootEnabled} -EnableVtpm $${securityProfile.vTpmEnabled}`
+    );
+  }
+
+  return lines;
+}
+
+/**
+ * Generates Az PowerShell commands that show the image and set it as the
+ * source image of a VM configuration
+ */
+export function generatePowerShellCommands(
+  imageRef: ImageReference,
+  location: string | null = null
+): string {
+  const sections: string[] = [];
+
+  // Get-AzVMImage needs a concrete version, so "latest" lists them all
+  if (isMarketplaceImageReference(imageRef)) {
+    const version =
+      imageRef.version === 'latest' ? '' : ` -Version "${imageRef.version}"`;
+    sections.push(
+      `$location = "${location || LOCATION_PLACEHOLDER}"
+
+Get-AzVMImage -Location $location -PublisherName "${imageRef.publisher}" -Offer "${imageRef.offer}" -Skus "${imageRef.sku}"${version}`
+    );
+  }
+  if (requiresPurchasePlan(imageRef)) {
+    sections.push(generateTermsAcceptCommands(imageRef.plan).powershell);
+  }
+
+  const lines = getPowerShellImageLines(imageRef);
+  if (getSecurityProfile(imageRef)?.securityType === 'ConfidentialVM') {
+    lines.push(
+      `# Confidential VM: also pass -SecurityEncryptionType ${CVM_DISK_ENCRYPTION_TYPE} to Set-AzVMOSDisk`
+    );
+  }
+  const edgeZone = getEdgeZone(imageRef);
+  if (edgeZone) {
+    lines.push(`# Edge zone: pass -EdgeZone "${edgeZone}" to New-AzVM`);
+  }
+  sections.push(lines.join('\n'));
+
+  return sections.join('\n\n');
 }
 
 /**
  * Generates all IaC formats for a VM image reference
  */
-export function generateAllFormats(imageRef: VMImageReference): IaCFormats {
+export function generateAllFormats(
+  imageRef: ImageReference,
+  location: string | null = null
+): IaCFormats {
   return {
     arm: generateARMTemplate(imageRef),
     terraform: generateTerraformTemplate(imageRef),
     bicep: generateBicepTemplate(imageRef),
-    ansible: generateAnsibleTemplate(imageRef)
+    ansible: generateAnsibleTemplate(imageRef),
+    azureCli: generateAzureCliCommands(imageRef, 'bash', location),
+    azureCliPowerShell: generateAzureCliCommands(
+      imageRef,
+      'powershell',
+      location
+    ),
+    powershell: generatePowerShellCommands(imageRef, location),
+  };
+}
+
+// API versions of the resources in full VM templates
+const NETWORK_API_VERSION = '2023-11-01';
+const COMPUTE_API_VERSION = '2024-07-01';
+
+// Defaults of the parameters full VM templates expose
+const DEFAULT_VM_SIZE = 'Standard_D2s_v5';
+const DEFAULT_ADMIN_USERNAME = 'azureuser';
+
+/**
+ * Reads the OS type of an image from its OS disk or image definition.
+ * Anything that is not Windows is deployed as Linux.
+ */
+export function getImageOSType(operatingSystem?: string | null): ImageOSType {
+  return operatingSystem?.toLowerCase() === 'windows' ? 'Windows' : 'Linux';
+}
+
+/**
+ * Indents every non-empty line of a snippet
+ */
+function indent(text: string, spaces: number): string {
+  const padding = ' '.repeat(spaces);
+  return text
+    .split('\n')
+    .map((line) => (line ? `${padding}${line}` : line))
+    .join('\n');
+}
+
+/**
+ * Generates an ARM deployment template with a VNet, NIC and VM deployed
+ * from the image
+ */
+export function generateFullVMARMTemplate(
+  imageRef: ImageReference,
+  osType: ImageOSType
+): string {
+  const edgeZone = getEdgeZone(imageRef);
+  const securityProfile = getSecurityProfile(imageRef);
+  const extendedLocation = edgeZone
+    ? { extendedLocation: { type: 'EdgeZone', name: edgeZone } }
+    : {};
+
+  let imageReference: Record<string, string>;
+  if (isMarketplaceImageReference(imageRef)) {
+    imageReference = {
+      publisher: imageRef.publisher,
+      offer: imageRef.offer,
+      sku: imageRef.sku,
+      version: imageRef.version,
+    };
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    imageReference = { [property]: value };
+  }
+
+  const osProfile =
+    osType === 'Windows'
+      ? {
+          // Windows computer names are limited to 15 characters
+          computerName: "[take(parameters('vmName'), 15)]",
+          adminUsername: "[parameters('adminUsername')]",
+          adminPassword: "[parameters('adminPassword')]",
+        }
+      : {
+          computerName: "[parameters('vmName')]",
+          adminUsername: "[parameters('adminUsername')]",
+          linuxConfiguration: {
+            disablePasswordAuthentication: true,
+            ssh: {
+              publicKeys: [
+                {
+                  path: "[format('/home/{0}/.ssh/authorized_keys', parameters('adminUsername'))]",
+                  keyData: "[parameters('sshPublicKey')]",
+                },
+              ],
+            },
+          },
+        };
+
+  const template = {
+    $schema:
+      'https://schema.management.azure.com/schemas/2019-04-01/deploymentTemplate.json#',
+    contentVersion: '1.0.0.0',
+    parameters: {
+      vmName: { type: 'string', defaultValue: 'vm1' },
+      location: { type: 'string', defaultValue: '[resourceGroup().location]' },
+      vmSize: { type: 'string', defaultValue: DEFAULT_VM_SIZE },
+      adminUsername: { type: 'string', defaultValue: DEFAULT_ADMIN_USERNAME },
+      ...(osType === 'Windows'
+        ? { adminPassword: { type: 'securestring' } }
+        : { sshPublicKey: { type: 'string' } }),
+    },
+    variables: {
+      vnetName: "[format('{0}-vnet', parameters('vmName'))]",
+      subnetName: 'default',
+      nicName: "[format('{0}-nic', parameters('vmName'))]",
+    },
+    resources: [
+      {
+        type: 'Microsoft.Network/virtualNetworks',
+        apiVersion: NETWORK_API_VERSION,
+        name: "[variables('vnetName')]",
+        location: "[parameters('location')]",
+        ...extendedLocation,
+        properties: {
+          addressSpace: { addressPrefixes: ['10.0.0.0/16'] },
+          subnets: [
+            {
+              name: "[variables('subnetName')]",
+              properties: { addressPrefix: '10.0.0.0/24' },
+            },
+          ],
+        },
+      },
+      {
+        type: 'Microsoft.Network/networkInterfaces',
+        apiVersion: NETWORK_API_VERSION,
+        name: "[variables('nicName')]",
+        location: "[parameters('location')]",
+        ...extendedLocation,
+        dependsOn: [
+          "[resourceId('Microsoft.Network/virtualNetworks', variables('vnetName'))]",
+        ],
+        properties: {
+          ipConfigurations: [
+            {
+              name: 'ipconfig1',
+              properties: {
+                privateIPAllocationMethod: 'Dynamic',
+                subnet: {
+                  id: "[resourceId('Microsoft.Network/virtualNetworks/subnets', variables('vnetName'), variables('subnetName'))]",
+                },
+              },
+            },
+          ],
+        },
+      },
+      {
+        type: 'Microsoft.Compute/virtualMachines',
+        apiVersion: COMPUTE_API_VERSION,
+        name: "[parameters('vmName')]",
+        location: "[parameters('location')]",
+        ...extendedLocation,
+        ...(requiresPurchasePlan(imageRef)
+          ? {
+              plan: {
+                name: imageRef.plan.name,
+                publisher: imageRef.plan.publisher,
+                product: imageRef.plan.product,
+              },
+            }
+          : {}),
+        dependsOn: [
+          "[resourceId('Microsoft.Network/networkInterfaces', variables('nicName'))]",
+        ],
+        properties: {
+          hardwareProfile: { vmSize: "[parameters('vmSize')]" },
+          storageProfile: {
+            imageReference,
+            osDisk: {
+              createOption: 'FromImage',
+              managedDisk: {
+                storageAccountType: 'Premium_LRS',
+                ...(securityProfile?.securityType === 'ConfidentialVM'
+                  ? {
+                      securityProfile: {
+                        securityEncryptionType: CVM_DISK_ENCRYPTION_TYPE,
+                      },
+                    }
+                  : {}),
+              },
+            },
+          },
+          osProfile,
+          networkProfile: {
+            networkInterfaces: [
+              {
+                id: "[resourceId('Microsoft.Network/networkInterfaces', variables('nicName'))]",
+              },
+            ],
+          },
+          ...(securityProfile
+            ? {
+                securityProfile: {
+                  securityType: securityProfile.securityType,
+                  uefiSettings: {
+                    secureBootEnabled: securityProfile.secureBootEnabled,
+                    vTpmEnabled: securityProfile.vTpmEnabled,
+                  },
+                },
+              }
+            : {}),
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(template, null, 2);
+}
+
+/**
+ * Generates a Bicep file with a VNet, NIC and VM deployed from the image
+ */
+export function generateFullVMBicepTemplate(
+  imageRef: ImageReference,
+  osType: ImageOSType
+): string {
+  const edgeZone = getEdgeZone(imageRef);
+  const securityProfile = getSecurityProfile(imageRef);
+  const extendedLocation = edgeZone
+    ? `
+  extendedLocation: {
+    type: 'EdgeZone'
+    name: '${edgeZone}'
+  }`
+    : '';
+
+  let imageReference: string;
+  if (isMarketplaceImageReference(imageRef)) {
+    imageReference = `publisher: '${imageRef.publisher}'
+offer: '${imageRef.offer}'
+sku: '${imageRef.sku}'
+version: '${imageRef.version}'`;
+  } else {
+    const { property, value } = getImageIdReference(imageRef);
+    imageReference = `${property}: '${value}'`;
+  }
+
+  const authParameter =
+    osType === 'Windows'
+      ? `@secure()
+@description('Password of the admin user')
+param adminPassword string`
+      : `@description('SSH public key of the admin user')
+param sshPublicKey string`;
+
+  const osProfile =
+    osType === 'Windows'
+      ? `computerName: take(vmName, 15)
+adminUsername: adminUsername
+adminPassword: adminPassword`
+      : `computerName: vmName
+adminUsername: adminUsername
+linuxConfiguration: {
+  disablePasswordAuthentication: true
+  ssh: {
+    publicKeys: [
+      {
+        path: '/home/\${adminUsername}/.ssh/authorized_keys'
+        keyData: sshPublicKey
+      }
+    ]
+  }
+}`;
+
+  const plan = requiresPurchasePlan(imageRef)
+    ? `
+  plan: {
+    name: '${imageRef.plan.name}'
+    publisher: '${imageRef.plan.publisher}'
+    product: '${imageRef.plan.product}'
+  }`
+    : '';
+
+  const diskSecurity =
+    securityProfile?.securityType === 'ConfidentialVM'
+      ? `
+          securityProfile: {
+            securityEncryptionType: '${CVM_DISK_ENCRYPTION_TYPE}'
+          }`
+      : '';
+
+  const vmSecurity = securityProfile
+    ? `
+    securityProfile: {
+      securityType: '${securityProfile.securityType}'
+      uefiSettings: {
+        secureBootEnabled: ${securityProfile.secureBootEnabled}
+        vTpmEnabled: ${securityProfile.vTpmEnabled}
+      }
+    }`
+    : '';
+
+  return `@description('Name of the virtual machine')
+param vmName string = 'vm1'
+
+@description('Location of the resources')
+param location string = resourceGroup().location
+
+@description('Size of the virtual machine')
+param vmSize string = '${DEFAULT_VM_SIZE}'
+
+@description('Name of the admin user')
+param adminUsername string = '${DEFAULT_ADMIN_USERNAME}'
+
+${authParameter}
+
+resource vnet 'Microsoft.Network/virtualNetworks@${NETWORK_API_VERSION}' = {
+  name: '\${vmName}-vnet'
+  location: location${extendedLocation}
+  properties: {
+    addressSpace: {
+      addressPrefixes: [
+        '10.0.0.0/16'
+      ]
+    }
+    subnets: [
+      {
+        name: 'default'
+        properties: {
+          addressPrefix: '10.0.0.0/24'
+        }
+      }
+    ]
+  }
+}
+
+resource nic 'Microsoft.Network/networkInterfaces@${NETWORK_API_VERSION}' = {
+  name: '\${vmName}-nic'
+  location: location${extendedLocation}
+  properties: {
+    ipConfigurations: [
+      {
+        name: 'ipconfig1'
+        properties: {
+          privateIPAllocationMethod: 'Dynamic'
+          subnet: {
+            id: vnet.properties.subnets[0].id
+          }
+        }
+      }
+    ]
+  }
+}
+
+resource vm 'Microsoft.Compute/virtualMachines@${COMPUTE_API_VERSION}' = {
+  name: vmName
+  location: location${extendedLocation}${plan}
+  properties: {
+    hardwareProfile: {
+      vmSize: vmSize
+    }
+    storageProfile: {
+      imageReference: {
+${indent(imageReference, 8)}
+      }
+      osDisk: {
+        createOption: 'FromImage'
+        managedDisk: {
+          storageAccountType: 'Premium_LRS'${diskSecurity}
+        }
+      }
+    }
+    osProfile: {
+${indent(osProfile, 6)}
+    }
+    networkProfile: {
+      networkInterfaces: [
+        {
+          id: nic.id
+        }
+      ]
+    }${vmSecurity}
+  }
+}`;
+}
+
+/**
+ * Generates Terraform for a resource group, VNet, NIC and a Linux or
+ * Windows VM deployed from the image
+ */
+export function generateFullVMTerraformTemplate(
+  imageRef: ImageReference,
+  osType: ImageOSType,
+  location: string | null = null
+): string {
+  const edgeZone = getEdgeZone(imageRef);
+  const securityProfile = getSecurityProfile(imageRef);
+  const vmResource =
+    osType === 'Windows'
+      ? 'azurerm_windows_virtual_machine'
+      : 'azurerm_linux_virtual_machine';
+  const edgeZoneLine = edgeZone
+    ? `\n  edge_zone           = "${edgeZone}"`
+    : '';
+
+  const authVariable =
+    osType === 'Windows'
+      ? `variable "admin_password" {
+  type      = string
+  sensitive = true
+}`
+      : `variable "ssh_public_key" {
+  type        = string
+  description = "SSH public key of the admin user"
+}`;
+
+  const auth =
+    osType === 'Windows'
+      ? `  # Windows computer names are limited to 15 characters
+  computer_name  = substr(var.vm_name, 0, 15)
+  admin_password = var.admin_password`
+      : `  admin_ssh_key {
+    username   = var.admin_username
+    public_key = var.ssh_public_key
+  }`;
+
+  const image = isMarketplaceImageReference(imageRef)
+    ? `  source_image_reference {
+    publisher = "${imageRef.publisher}"
+    offer     = "${imageRef.offer}"
+    sku       = "${imageRef.sku}"
+    version   = "${imageRef.version}"
+  }`
+    : `  source_image_id = "${getImageIdReference(imageRef).value}"`;
+
+  const diskSecurity =
+    securityProfile?.securityType === 'ConfidentialVM'
+      ? `\n    security_encryption_type = "${CVM_DISK_ENCRYPTION_TYPE}"`
+      : '';
+
+  const vmSecurity = securityProfile
+    ? `
+
+  secure_boot_enabled = ${securityProfile.secureBootEnabled}
+  vtpm_enabled        = ${securityProfile.vTpmEnabled}`
+    : '';
+
+  const plan = requiresPurchasePlan(imageRef)
+    ? `
+
+  plan {
+    name      = "${imageRef.plan.name}"
+    publisher = "${imageRef.plan.publisher}"
+    product   = "${imageRef.plan.product}"
+  }`
+    : '';
+
+  return `variable "vm_name" {
+  type    = string
+  default = "vm1"
+}
+
+variable "location" {
+  type    = string
+  default = "${location || LOCATION_PLACEHOLDER}"
+}
+
+variable "vm_size" {
+  type    = string
+  default = "${DEFAULT_VM_SIZE}"
+}
+
+variable "admin_username" {
+  type    = string
+  default = "${DEFAULT_ADMIN_USERNAME}"
+}
+
+${authVariable}
+
+resource "azurerm_resource_group" "example" {
+  name     = "\${var.vm_name}-rg"
+  location = var.location
+}
+
+resource "azurerm_virtual_network" "example" {
+  name                = "\${var.vm_name}-vnet"
+  resource_group_name = azurerm_resource_group.example.name
+  location            = azurerm_resource_group.example.location
+  address_space       = ["10.0.0.0/16"]${edgeZoneLine}
+}
+
+resource "azurerm_subnet" "example" {
+  name                 = "default"
+  resource_group_name  = azurerm_resource_group.example.name
+  virtual_network_name = azurerm_virtual_network.example.name
+  address_prefixes     = ["10.0.0.0/24"]
+}
+
+resource "azurerm_network_interface" "example" {
+  name                = "\${var.vm_name}-nic"
+  resource_group_name = azurerm_resource_group.example.name
+  location            = azurerm_resource_group.example.location${edgeZoneLine}
+
+  ip_configuration {
+    name                          = "ipconfig1"
+    subnet_id                     = azurerm_subnet.example.id
+    private_ip_address_allocation = "Dynamic"
+  }
+}
+
+resource "${vmResource}" "example" {
+  name                = var.vm_name
+  resource_group_name = azurerm_resource_group.example.name
+  location            = azurerm_resource_group.example.location
+  size                = var.vm_size
+  admin_username      = var.admin_username${edgeZoneLine}
+
+  network_interface_ids = [azurerm_network_interface.example.id]
+
+${auth}
+
+  os_disk {
+    caching              = "ReadWrite"
+    storage_account_type = "Premium_LRS"${diskSecurity}
+  }
+
+${image}${vmSecurity}${plan}
+}`;
+}
+
+/**
+ * Generates an Ansible playbook that creates the network and a VM deployed
+ * from the image with azure_rm_virtualmachine. azure_rm_virtualmachine has
+ * no edge zone option, so edge zone images are deployed from the full ARM
+ * template with azure_rm_deployment instead.
+ */
+export function generateFullVMAnsibleTemplate(
+  imageRef: ImageReference,
+  osType: ImageOSType,
+  location: string | null = null
+): string {
+  const securityProfile = getSecurityProfile(imageRef);
+
+  const authVariable =
+    osType === 'Windows'
+      ? `    admin_password: "{{ vault_admin_password }}"`
+      : `    ssh_public_key: "{{ lookup('file', '~/.ssh/id_rsa.pub') }}"`;
+
+  const auth =
+    osType === 'Windows'
+      ? `        admin_password: "{{ admin_password }}"`
+      : `        ssh_password_enabled: false
+        ssh_public_keys:
+          - path: "/home/{{ admin_username }}/.ssh/authorized_keys"
+            key_data: "{{ ssh_public_key }}"`;
+
+  // azure_rm_virtualmachine cannot encrypt the OS disk for confidential VMs
+  const cvmNote =
+    securityProfile?.securityType === 'ConfidentialVM'
+      ? '\n        # Confidential VM: encrypt the OS disk with the Azure CLI or ARM'
+      : '';
+
+  const edgeZone = getEdgeZone(imageRef);
+  const credentialParameter =
+    osType === 'Windows'
+      ? `          adminPassword:
+            value: "{{ admin_password }}"`
+      : `          sshPublicKey:
+            value: "{{ ssh_public_key }}"`;
+
+  const vmTasks = edgeZone
+    ? `    - name: Deploy the network and virtual machine in edge zone ${edgeZone}
+      azure.azcollection.azure_rm_deployment:
+        resource_group: "{{ resource_group }}"
+        name: "{{ vm_name }}-deployment"
+        location: "{{ location }}"
+        parameters:
+          vmName:
+            value: "{{ vm_name }}"
+          location:
+            value: "{{ location }}"
+          vmSize:
+            value: "{{ vm_size }}"
+          adminUsername:
+            value: "{{ admin_username }}"
+${credentialParameter}
+        template:
+${indent(generateFullVMARMTemplate(imageRef, osType), 10)}`
+    : `    - name: Create virtual network
+      azure.azcollection.azure_rm_virtualnetwork:
+        resource_group: "{{ resource_group }}"
+        name: "{{ vm_name }}-vnet"
+        address_prefixes: "10.0.0.0/16"
+
+    - name: Create subnet
+      azure.azcollection.azure_rm_subnet:
+        resource_group: "{{ resource_group }}"
+        virtual_network: "{{ vm_name }}-vnet"
+        name: "default"
+        address_prefix: "10.0.0.0/24"
+
+    - name: Create network interface
+      azure.azcollection.azure_rm_networkinterface:
+        resource_group: "{{ resource_group }}"
+        name: "{{ vm_name }}-nic"
+        virtual_network: "{{ vm_name }}-vnet"
+        subnet_name: "default"
+        create_with_security_group: false
+        ip_configurations:
+          - name: "ipconfig1"
+            primary: true
+
+    - name: Create virtual machine
+      azure.azcollection.azure_rm_virtualmachine:
+        resource_group: "{{ resource_group }}"
+        name: "{{ vm_name }}"
+        vm_size: "{{ vm_size }}"
+        os_type: ${osType}
+        admin_username: "{{ admin_username }}"
+${auth}
+        network_interface_names:
+          - "{{ vm_name }}-nic"
+        managed_disk_type: Premium_LRS${cvmNote}
+${indent(generateAnsibleTemplate(imageRef), 8)}`;
+
+  return `- name: Deploy a virtual machine
+  hosts: localhost
+  connection: local
+  vars:
+    resource_group: "vm1-rg"
+    location: "${location || LOCATION_PLACEHOLDER}"
+    vm_name: "vm1"
+    vm_size: "${DEFAULT_VM_SIZE}"
+    admin_username: "${DEFAULT_ADMIN_USERNAME}"
+${authVariable}
+  tasks:
+    - name: Create resource group
+      azure.azcollection.azure_rm_resourcegroup:
+        name: "{{ resource_group }}"
+        location: "{{ location }}"
+
+${vmTasks}`;
+}
+
+/**
+ * Generates Azure CLI commands that create a resource group and a VM from
+ * the image with az vm create, quoted for bash or PowerShell
+ */
+export function generateFullVMAzureCliCommands(
+  imageRef: ImageReference,
+  osType: ImageOSType,
+  shell: AzureCliShell = 'bash',
+  location: string | null = null
+): string {
+  const { variable } = CLI_SHELL_SYNTAX[shell];
+  const target = getAzureCliVMTarget(imageRef, shell, location);
+
+  const args = [
+    ...target.args,
+    ...getAzureCliImageArguments(imageRef, shell),
+    `--size "${DEFAULT_VM_SIZE}"`,
+    `--admin-username "${DEFAULT_ADMIN_USERNAME}"`,
+    // az vm create prompts for the password of Windows VMs
+    ...(osType === 'Windows' ? [] : ['--generate-ssh-keys']),
+  ];
+
+  return [
+    target.variables,
+    ...getAzureCliImageCommands(imageRef, shell),
+    `az group create --name ${variable('resourceGroup')} --location ${variable('location')}`,
+    formatCliCommand('az vm create', args, shell),
+  ].join('\n\n');
+}
+
+/**
+ * Generates an Az PowerShell script that creates the network and a VM from
+ * the image with New-AzVM
+ */
+export function generateFullVMPowerShellCommands(
+  imageRef: ImageReference,
+  osType: ImageOSType,
+  location: string | null = null
+): string {
+  const edgeZone = getEdgeZone(imageRef);
+  const edgeZoneParameter = edgeZone ? ` -EdgeZone "${edgeZone}"` : '';
+  const securityProfile = getSecurityProfile(imageRef);
+
+  const credential =
+    osType === 'Windows'
+      ? `$credential = Get-Credential -UserName "${DEFAULT_ADMIN_USERNAME}" -Message "Admin password of the VM"`
+      : `$credential = New-Object System.Management.Automation.PSCredential ("${DEFAULT_ADMIN_USERNAME}", (New-Object System.Security.SecureString))`;
+
+  const osLines =
+    osType === 'Windows'
+      ? [
+          // Windows computer names are limited to 15 characters
+          '$vmConfig = Set-AzVMOperatingSystem -VM $vmConfig -Windows -ComputerName ($vmName.Substring(0, [Math]::Min($vmName.Length, 15))) -Credential $credential',
+        ]
+      : [
+          '$vmConfig = Set-AzVMOperatingSystem -VM $vmConfig -Linux -ComputerName $vmName -Credential $credential -DisablePasswordAuthentication',
+          `$vmConfig = Add-AzVMSshPublicKey -VM $vmConfig -KeyData (Get-Content "~/.ssh/id_rsa.pub" -Raw) -Path "/home/${DEFAULT_ADMIN_USERNAME}/.ssh/authorized_keys"`,
+        ];
+
+  const osDisk =
+    securityProfile?.securityType === 'ConfidentialVM'
+      ? `$vmConfig = Set-AzVMOSDisk -VM $vmConfig -CreateOption FromImage -StorageAccountType Premium_LRS -SecurityEncryptionType ${CVM_DISK_ENCRYPTION_TYPE}`
+      : '$vmConfig = Set-AzVMOSDisk -VM $vmConfig -CreateOption FromImage -StorageAccountType Premium_LRS';
+
+  const termsAccept = requiresPurchasePlan(imageRef)
+    ? `${generateTermsAcceptCommands(imageRef.plan).powershell}\n\n`
+    : '';
+
+  return `$resourceGroup = "vm1-rg"
+$location = "${location || LOCATION_PLACEHOLDER}"
+$vmName = "vm1"
+${credential}
+
+${termsAccept}New-AzResourceGroup -Name $resourceGroup -Location $location
+
+$subnet = New-AzVirtualNetworkSubnetConfig -Name "default" -AddressPrefix "10.0.0.0/24"
+$vnet = New-AzVirtualNetwork -ResourceGroupName $resourceGroup -Location $location${edgeZoneParameter} -Name "$vmName-vnet" -AddressPrefix "10.0.0.0/16" -Subnet $subnet
+$nic = New-AzNetworkInterface -ResourceGroupName $resourceGroup -Location $location${edgeZoneParameter} -Name "$vmName-nic" -SubnetId $vnet.Subnets[0].Id
+
+$vmConfig = New-AzVMConfig -VMName $vmName -VMSize "${DEFAULT_VM_SIZE}"
+${[...osLines, ...getPowerShellImageLines(imageRef), osDisk].join('\n')}
+$vmConfig = Add-AzVMNetworkInterface -VM $vmConfig -Id $nic.Id
+
+New-AzVM -ResourceGroupName $resourceGroup -Location $location${edgeZoneParameter} -VM $vmConfig`;
+}
+
+/**
+ * Generates full VM templates in every IaC format for an image
+ */
+export function generateAllFullVMFormats(
+  imageRef: ImageReference,
+  osType: ImageOSType,
+  location: string | null = null
+): IaCFormats {
+  return {
+    arm: generateFullVMARMTemplate(imageRef, osType),
+    terraform: generateFullVMTerraformTemplate(imageRef, osType, location),
+    bicep: generateFullVMBicepTemplate(imageRef, osType),
+    ansible: generateFullVMAnsibleTemplate(imageRef, osType, location),
+    azureCli: generateFullVMAzureCliCommands(
+      imageRef,
+      osType,
+      'bash',
+      location
+    ),
+    azureCliPowerShell: generateFullVMAzureCliCommands(
+      imageRef,
+      osType,
+      'powershell',
+      location
+    ),
+    powershell: generateFullVMPowerShellCommands(imageRef, osType, location),
   };
 }
 
 /**
  * Validates VM image reference before formatting
  */
-export function validateImageReference(imageRef: VMImageReference): boolean {
+export function validateImageReference(imageRef: ImageReference): boolean {
+  if (!isMarketplaceImageReference(imageRef)) {
+    const { value } = getImageIdReference(imageRef);
+    return typeof value === 'string' && !!value.trim();
+  }
+
   return !!(
     imageRef.publisher &&
     imageRef.offer &&
@@ -88,7 +1378,10 @@ export const AVAILABLE_FORMATS = [
   { key: 'arm', label: 'ARM Template' },
   { key: 'terraform', label: 'Terraform' },
   { key: 'bicep', label: 'Bicep' },
-  { key: 'ansible', label: 'Ansible' }
+  { key: 'ansible', label: 'Ansible' },
+  { key: 'azureCli', label: 'Azure CLI (Bash)' },
+  { key: 'azureCliPowerShell', label: 'Azure CLI (PowerShell)' },
+  { key: 'powershell', label: 'Az PowerShell' },
 ] as const;
 
-export type FormatKey = typeof AVAILABLE_FORMATS[number]['key'];
\ No newline at end of file
+export type FormatKey = (typeof AVAILABLE_FORMATS)[number]['key'];
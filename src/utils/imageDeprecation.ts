@@ -0,0 +1,70 @@
+import type { ImageAlternativeOption, ImageDeprecationStatus } from '../types';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a deprecation status warrants a warning (scheduled or already
+ * deprecated). Active images and images without a status do not.
+ */
+export const hasDeprecationNotice = (
+  status: ImageDeprecationStatus | null | undefined
+): status is ImageDeprecationStatus =>
+  !!status && status.imageState !== 'Active';
+
+/**
+ * Whole days until the scheduled deprecation time, negative once it passed.
+ * Returns null when no valid date was published.
+ */
+export const getDaysUntilDeprecation = (
+  status: ImageDeprecationStatus,
+  now: Date = new Date()
+): number | null => {
+  if (!status.scheduledDeprecationTime) {
+    return null;
+  }
+
+  const scheduled = new Date(status.scheduledDeprecationTime).getTime();
+  if (Number.isNaN(scheduled)) {
+    return null;
+  }
+
+  return Math.ceil((scheduled - now.getTime()) / DAY_IN_MS);
+};
+
+/**
+ * Format the scheduled deprecation time as a short date, e.g. "Apr 30, 2027"
+ */
+export const formatDeprecationDate = (value?: string): string => {
+  if (!value) {
+    return 'No date published';
+  }
+
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    return value;
+  }
+
+  return date.toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+};
+
+/**
+ * Browser route of the alternative Azure suggests for a deprecated image. An
+ * alternative offer lives under the same publisher, an alternative SKU under
+ * the same offer.
+ */
+export const getAlternativeImagePath = (
+  image: { publisher: string; offer: string },
+  alternative: ImageAlternativeOption
+): string => {
+  const publisher = encodeURIComponent(image.publisher);
+  const offer = encodeURIComponent(
+    alternative.type === 'Offer' ? alternative.value : image.offer
+  );
+
+  return `/publishers/${publisher}/offers/${offer}/skus`;
+};
@@ -0,0 +1,67 @@
+import type {
+  ImageFeature,
+  ImageSecurityCapabilities,
+  ImageSecuritySupport,
+  VMSecurityProfile,
+} from '../types';
+
+// What each published SecurityType value allows, as [Trusted Launch, CVM]
+const SECURITY_TYPES: Record<
+  string,
+  [ImageSecuritySupport, ImageSecuritySupport]
+> = {
+  standard: ['unsupported', 'unsupported'],
+  trustedlaunch: ['required', 'unsupported'],
+  trustedlaunchsupported: ['supported', 'unsupported'],
+  trustedlaunchandconfidentialvmsupported: ['supported', 'supported'],
+  confidentialvmsupported: ['unsupported', 'supported'],
+  confidentialvm: ['unsupported', 'required'],
+};
+
+/**
+ * Read the security types an image version supports from its features.
+ * Images without a SecurityType feature only run as standard VMs.
+ */
+export const getImageSecurityCapabilities = (
+  features: ImageFeature[]
+): ImageSecurityCapabilities => {
+  const securityType =
+    features.find((feature) => feature.name === 'SecurityType')?.value ?? null;
+  const [trustedLaunch, confidentialVM] = SECURITY_TYPES[
+    securityType?.toLowerCase() ?? 'standard'
+  ] ?? ['unsupported', 'unsupported'];
+
+  return { securityType, trustedLaunch, confidentialVM };
+};
+
+/**
+ * Whether an image version supports any security type beyond standard
+ */
+export const hasSecurityCapabilities = (
+  capabilities: ImageSecurityCapabilities
+): boolean =>
+  capabilities.trustedLaunch !== 'unsupported' ||
+  capabilities.confidentialVM !== 'unsupported';
+
+/**
+ * The securityProfile to deploy an image version with: Trusted Launch where
+ * supported, a confidential VM where the image requires one or supports
+ * nothing else, with secure boot and vTPM on. Null for standard-only images.
+ */
+export const getDefaultSecurityProfile = (
+  capabilities: ImageSecurityCapabilities
+): VMSecurityProfile | null => {
+  const { trustedLaunch, confidentialVM } = capabilities;
+  const securityType =
+    confidentialVM === 'required'
+      ? 'ConfidentialVM'
+      : trustedLaunch !== 'unsupported'
+        ? 'TrustedLaunch'
+        : confidentialVM === 'supported'
+          ? 'ConfidentialVM'
+          : null;
+
+  return securityType
+    ? { securityType, secureBootEnabled: true, vTpmEnabled: true }
+    : null;
+};
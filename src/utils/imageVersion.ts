@@ -0,0 +1,194 @@
+import type { ImageReleaseCadence, ParsedImageVersion } from '../types';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+// Reads the release date a version encodes from its dotted parts
+type ReleaseDateReader = (parts: string[]) => Date | null;
+
+const toDate = (year: number, month: number, day: number): Date | null => {
+  if (year < 2000 || year > 2100) {
+    return null;
+  }
+  const date = new Date(Date.UTC(year, month - 1, day));
+  // Rejects months and days out of range, which Date.UTC rolls over
+  return date.getUTCMonth() === month - 1 && date.getUTCDate() === day
+    ? date
+    : null;
+};
+
+// 202410020 or 2024101514: a date followed by a build or hour suffix
+const readYYYYMMDD = (part?: string): Date | null => {
+  const match = part?.match(/^(\d{4})(\d{2})(\d{2})\d{0,2}$/);
+  return match ? toDate(+match[1], +match[2], +match[3]) : null;
+};
+
+// 241006
+const readYYMMDD = (part?: string): Date | null => {
+  const match = part?.match(/^(\d{2})(\d{2})(\d{2})$/);
+  return match ? toDate(2000 + +match[1], +match[2], +match[3]) : null;
+};
+
+// 2024.10.07
+const readDottedDate = (parts: string[]): Date | null =>
+  parts.length >= 3 && /^\d{4}$/.test(parts[0])
+    ? toDate(+parts[0], +parts[1], +parts[2])
+    : null;
+
+/**
+ * Fallback for unknown publishers: a dotted date, else the last part holding
+ * a full date, else a short date in the last part
+ */
+const readAnyDate: ReleaseDateReader = (parts) =>
+  readDottedDate(parts) ??
+  [...parts].reverse().map(readYYYYMMDD).find(Boolean) ??
+  readYYMMDD(parts[parts.length - 1]);
+
+// Numbering schemes of the major publishers, keyed by lowercase publisher
+const PUBLISHER_STRATEGIES: Record<string, ReleaseDateReader> = {
+  // 22.04.202410020
+  canonical: (parts) => readYYYYMMDD(parts[2]),
+  // 20348.2849.241006
+  microsoftwindowsserver: (parts) => readYYMMDD(parts[2]),
+  microsoftwindowsdesktop: (parts) => readYYMMDD(parts[2]),
+  microsoftsqlserver: (parts) => readYYMMDD(parts[2]),
+  // 9.4.2024101514
+  redhat: (parts) => readYYYYMMDD(parts[2]),
+  openlogic: (parts) => readYYYYMMDD(parts[2]),
+  // 0.20241004.1890
+  debian: (parts) => readYYYYMMDD(parts[1]),
+  // 2024.10.07
+  suse: readDottedDate,
+};
+
+const toNumber = (part: string): number => parseInt(part, 10) || 0;
+
+/**
+ * Split an image version into its numeric parts and estimate its release
+ * date with the numbering scheme of the publisher. Versions of unknown
+ * publishers, or that do not follow their publisher's scheme, are read with
+ * a generic heuristic.
+ */
+export const parseImageVersion = (
+  version: string,
+  publisher?: string
+): ParsedImageVersion => {
+  const rawParts = version.split('.');
+  const parts = rawParts.map(toNumber);
+  const strategy = publisher
+    ? PUBLISHER_STRATEGIES[publisher.toLowerCase()]
+    : undefined;
+  const releaseDate = strategy?.(rawParts) ?? readAnyDate(rawParts);
+
+  return {
+    version,
+    parts,
+    semver: [0, 1, 2].map((index) => parts[index] ?? 0).join('.'),
+    releaseDate: releaseDate?.toISOString().slice(0, 10) ?? null,
+  };
+};
+
+/**
+ * Newest first, comparing the dotted parts as numbers so that 1.10 follows
+ * 1.9 and 1.0 equals 1.0.0
+ */
+export const compareImageVersions = (a: string, b: string): number => {
+  const aParts = a.split('.').map(toNumber);
+  const bParts = b.split('.').map(toNumber);
+
+  for (let index = 0; index < Math.max(aParts.length, bParts.length); index++) {
+    const difference = (bParts[index] ?? 0) - (aParts[index] ?? 0);
+    if (difference !== 0) {
+      return difference;
+    }
+  }
+  return b.localeCompare(a, undefined, { numeric: true });
+};
+
+/**
+ * Whole days since the estimated release date, null when unknown
+ */
+export const getReleaseAgeDays = (
+  releaseDate: string | null,
+  now: Date = new Date()
+): number | null => {
+  if (!releaseDate) {
+    return null;
+  }
+
+  const released = new Date(`${releaseDate}T00:00:00Z`).getTime();
+  return Number.isNaN(released)
+    ? null
+    : Math.max(0, Math.floor((now.getTime() - released) / DAY_IN_MS));
+};
+
+/**
+ * "Published N days ago" label of an estimated release date, null when the
+ * version does not encode one
+ */
+export const formatReleaseAge = (
+  releaseDate: string | null,
+  now: Date = new Date()
+): string | null => {
+  const days = getReleaseAgeDays(releaseDate, now);
+  if (days === null) return null;
+  if (days === 0) return 'Published today';
+  if (days === 1) return 'Published yesterday';
+  return `Published ${days} days ago`;
+};
+
+/**
+ * Format an estimated release date as a short date, e.g. "Oct 6, 2024"
+ */
+export const formatReleaseDate = (releaseDate: string): string =>
+  new Date(`${releaseDate}T00:00:00Z`).toLocaleDateString('en-US', {
+    year: 'numeric',
+    month: 'short',
+    day: 'numeric',
+    timeZone: 'UTC',
+  });
+
+/**
+ * Release history of a SKU from its version list: every version with an
+ * estimated release date, oldest first, and the median days between releases
+ */
+export const getReleaseCadence = (
+  versions: string[],
+  publisher?: string
+): ImageReleaseCadence => {
+  const releases = versions
+    .filter((version) => version !== 'latest')
+    .map((version) => parseImageVersion(version, publisher))
+    .filter(
+      (parsed): parsed is ParsedImageVersion & { releaseDate: string } =>
+        parsed.releaseDate !== null
+    )
+    .map(({ version, releaseDate }) => ({ version, releaseDate }))
+    .sort(
+      (a, b) =>
+        a.releaseDate.localeCompare(b.releaseDate) ||
+        compareImageVersions(b.version, a.version)
+    );
+
+  const intervals = releases
+    .slice(1)
+    .map(
+      (release, index) =>
+        (Date.parse(release.releaseDate) -
+          Date.parse(releases[index].releaseDate)) /
+        DAY_IN_MS
+    )
+    .sort((a, b) => a - b);
+  const middle = Math.floor(intervals.length / 2);
+
+  return {
+    releases,
+    medianIntervalDays:
+      intervals.length === 0
+        ? null
+        : Math.round(
+            intervals.length % 2
+              ? intervals[middle]
+              : (intervals[middle - 1] + intervals[middle]) / 2
+          ),
+  };
+};
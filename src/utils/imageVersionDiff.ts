@@ -0,0 +1,172 @@
+import type {
+  ImageDataDiskImage,
+  ImageDeprecationStatus,
+  ImageFeature,
+  ImageVersionChange,
+  ImageVersionDetails,
+  PurchasePlan,
+} from '../types';
+import { formatDeprecationDate } from './imageDeprecation';
+import { getImageSecurityCapabilities } from './imageSecurity';
+import { formatGeneration, getImageSizeFeatures } from './vmSizeCompatibility';
+
+const NOT_SET = 'Not set';
+
+const formatDataDisks = (disks: ImageDataDiskImage[]): string =>
+  disks.length === 0
+    ? 'None'
+    : disks
+        .map(
+          (disk) =>
+            `LUN ${disk.lun}${disk.sizeInGb !== undefined ? ` (${disk.sizeInGb} GB)` : ''}`
+        )
+        .join(', ');
+
+const formatPlan = (plan: PurchasePlan | null): string =>
+  plan ? `${plan.publisher} / ${plan.product} / ${plan.name}` : 'None';
+
+const formatDeprecation = (status: ImageDeprecationStatus | null): string => {
+  switch (status?.imageState) {
+    case 'Deprecated':
+      return 'Deprecated';
+    case 'ScheduledForDeprecation':
+      return `Deprecation scheduled for ${formatDeprecationDate(status.scheduledDeprecationTime)}`;
+    default:
+      return 'Active';
+  }
+};
+
+const change = (
+  label: string,
+  before: string,
+  after: string,
+  breakingNote: string | null = null
+): ImageVersionChange => {
+  const changed = before !== after;
+  return {
+    label,
+    before,
+    after,
+    changed,
+    breaking: changed && !!breakingNote,
+    ...(changed && breakingNote ? { note: breakingNote } : {}),
+  };
+};
+
+/**
+ * Why a feature change breaks deployments of the older version, or null
+ */
+const getFeatureBreak = (
+  name: string,
+  base: ImageVersionDetails,
+  target: ImageVersionDetails
+): string | null => {
+  switch (name) {
+    case 'IsAcceleratedNetworkSupported':
+      return getImageSizeFeatures(base).acceleratedNetworking &&
+        !getImageSizeFeatures(target).acceleratedNetworking
+        ? 'Accelerated networking is no longer supported'
+        : null;
+    case 'DiskControllerTypes': {
+      const kept = getImageSizeFeatures(target).diskControllerTypes.map(
+        (type) => type.toLowerCase()
+      );
+      const dropped = getImageSizeFeatures(base).diskControllerTypes.filter(
+        (type) => !kept.includes(type.toLowerCase())
+      );
+      return dropped.length > 0
+        ? `Drops the ${dropped.join(' and ')} disk controller`
+        : null;
+    }
+    case 'SecurityType': {
+      const before = getImageSecurityCapabilities(base.features);
+      const after = getImageSecurityCapabilities(target.features);
+      const breaks = [
+        ['Trusted Launch', before.trustedLaunch, after.trustedLaunch],
+        ['confidential VMs', before.confidentialVM, after.confidentialVM],
+      ].flatMap(([label, was, now]) =>
+        was !== 'unsupported' && now === 'unsupported'
+          ? [`No longer supports ${label}`]
+          : was !== 'required' && now === 'required'
+            ? [`Requires ${label}`]
+            : []
+      );
+      return breaks.length > 0 ? breaks.join('; ') : null;
+    }
+    default:
+      return null;
+  }
+};
+
+const featureValue = (features: ImageFeature[], name: string): string =>
+  features.find((feature) => feature.name === name)?.value ?? NOT_SET;
+
+/**
+ * Compare the details of a pinned (base) and a newer (target) image version
+ * property by property. Changes that can fail a deployment written for the
+ * base version are flagged as breaking with the reason.
+ */
+export const diffImageVersions = (
+  base: ImageVersionDetails,
+  target: ImageVersionDetails
+): ImageVersionChange[] => {
+  const baseDiskSize = base.osDiskImage?.sizeInGb;
+  const targetDiskSize = target.osDiskImage?.sizeInGb;
+  const featureNames = [
+    ...new Set([...base.features, ...target.features].map((f) => f.name)),
+  ].sort((a, b) => a.localeCompare(b));
+
+  return [
+    change(
+      'Generation',
+      formatGeneration(base.hyperVGeneration || 'V1'),
+      formatGeneration(target.hyperVGeneration || 'V1'),
+      'VM sizes chosen for the old generation may not support the new one'
+    ),
+    change(
+      'Architecture',
+      base.architecture || 'x64',
+      target.architecture || 'x64',
+      'Needs VM sizes of a different CPU architecture'
+    ),
+    change(
+      'OS disk size',
+      baseDiskSize !== undefined ? `${baseDiskSize} GB` : 'Not reported',
+      targetDiskSize !== undefined ? `${targetDiskSize} GB` : 'Not reported',
+      targetDiskSize !== undefined &&
+        (baseDiskSize === undefined || targetDiskSize > baseDiskSize)
+        ? 'OS disks sized for the old version are too small'
+        : null
+    ),
+    change(
+      'Data disks',
+      formatDataDisks(base.dataDiskImages),
+      formatDataDisks(target.dataDiskImages),
+      'Data disk settings by LUN no longer match the image'
+    ),
+    change(
+      'Purchase plan',
+      formatPlan(base.plan),
+      formatPlan(target.plan),
+      target.plan
+        ? 'Deployments need the new plan block and accepted terms'
+        : 'Deployments must drop the plan block'
+    ),
+    change(
+      'Deprecation',
+      formatDeprecation(base.deprecationStatus),
+      formatDeprecation(target.deprecationStatus),
+      target.deprecationStatus?.imageState === 'Deprecated'
+        ? 'New deployments of a deprecated version are blocked'
+        : null
+    ),
+    ...featureNames.map((name) =>
+      change(
+        `Feature: ${name}`,
+        featureValue(base.features, name),
+        featureValue(target.features, name),
+        getFeatureBreak(name, base, target)
+      )
+    ),
+  ];
+};
@@ -3,7 +3,9 @@
 /**
  * Concatenate class names conditionally
  */
-export const cn = (...classes: (string | undefined | null | false)[]): string => {
+export const cn = (
+  ...classes: (string | undefined | null | false)[]
+): string => {
   return classes.filter(Boolean).join(' ');
 };
 
@@ -70,3 +72,9 @@ export * from './errorHandling';
 
 // Export network status utilities
 export * from './networkStatus';
+
+// Export concurrency helpers
+export * from './concurrency';
+
+// Export the ARM transport
+export * from './armTransport';
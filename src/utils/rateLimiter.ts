@@ -0,0 +1,116 @@
+/**
+ * Header-aware throttling for Azure Resource Manager requests.
+ * ARM reports the remaining read budget of a subscription on every response;
+ * the limiter spaces requests out as that budget runs low and pauses all
+ * requests when ARM answers with Retry-After.
+ */
+
+import { parseRetryAfter, sleep } from './errorHandling';
+import type { RequestThrottle } from './errorHandling';
+
+export const REMAINING_READS_HEADER =
+  'x-ms-ratelimit-remaining-subscription-reads';
+
+export interface RateLimiterConfig {
+  // Remaining reads below which requests are spaced out
+  slowdownThreshold: number;
+  // Spacing between requests when no reads are left, in milliseconds
+  maxSpacing: number;
+  // Pause when ARM reports no reads left but sends no Retry-After
+  exhaustedDelay: number;
+}
+
+export const DEFAULT_RATE_LIMITER_CONFIG: RateLimiterConfig = {
+  slowdownThreshold: 100,
+  maxSpacing: 2000, // 2 seconds
+  exhaustedDelay: 10000, // 10 seconds
+};
+
+export class ArmRateLimiter implements RequestThrottle {
+  private config: RateLimiterConfig;
+  private remaining: number | null = null;
+  private blockedUntil = 0;
+  private nextSlot = 0;
+
+  constructor(config: RateLimiterConfig = DEFAULT_RATE_LIMITER_CONFIG) {
+    this.config = config;
+  }
+
+  /**
+   * Wait until the next request may be sent. Slots are reserved in call
+   * order, so concurrent callers are spaced out rather than released at once.
+   */
+  async acquire(signal?: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const start = Math.max(now, this.blockedUntil, this.nextSlot);
+    this.nextSlot = start + this.getSpacing();
+
+    if (start > now) {
+      await sleep(start - now, signal);
+    }
+  }
+
+  /**
+   * Update the budget from the headers of an ARM response
+   */
+  recordResponse(response: Response): void {
+    // Test doubles and opaque responses may come without headers
+    const headers = response.headers;
+    if (!headers || typeof headers.get !== 'function') {
+      return;
+    }
+
+    const remaining = parseInt(headers.get(REMAINING_READS_HEADER) ?? '', 10);
+    if (!isNaN(remaining)) {
+      this.remaining = remaining;
+    }
+
+    const retryAfter = parseRetryAfter(headers.get('Retry-After'));
+    if (retryAfter !== undefined) {
+      this.pauseFor(retryAfter);
+    } else if (this.remaining === 0) {
+      this.pauseFor(this.config.exhaustedDelay);
+    }
+  }
+
+  /**
+   * Hold every request for the given time
+   */
+  pauseFor(ms: number): void {
+    this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+  }
+
+  /**
+   * Remaining reads last reported by ARM, or null before the first response
+   */
+  get remainingReads(): number | null {
+    return this.remaining;
+  }
+
+  /**
+   * Spacing grows linearly from zero at the threshold to maxSpacing at zero
+   */
+  private getSpacing(): number {
+    const { slowdownThreshold, maxSpacing } = this.config;
+    if (this.remaining === null || this.remaining >= slowdownThreshold) {
+      return 0;
+    }
+    return Math.round(
+      maxSpacing * (1 - Math.max(this.remaining, 0) / slowdownThreshold)
+    );
+  }
+}
+
+// ARM budgets reads per subscription, so services of one subscription share a limiter
+const subscriptionLimiters = new Map<string, ArmRateLimiter>();
+
+export function getSubscriptionRateLimiter(
+  subscriptionId: string
+): ArmRateLimiter {
+  let limiter = subscriptionLimiters.get(subscriptionId);
+  if (!limiter) {
+    limiter = new ArmRateLimiter();
+    subscriptionLimiters.set(subscriptionId, limiter);
+  }
+  return limiter;
+}
@@ -9,7 +9,10 @@ import type {
 
 // Validation error class
 export class ValidationError extends Error {
-  constructor(message: string, public field?: string) {
+  constructor(
+    message: string,
+    public field?: string
+  ) {
     super(message);
     this.name = 'ValidationError';
   }
@@ -22,7 +25,9 @@ const isNonEmptyString = (value: unknown): value is string => {
 
 // Helper function to check if value is an array of strings
 const isStringArray = (value: unknown): value is string[] => {
-  return Array.isArray(value) && value.every(item => typeof item === 'string');
+  return (
+    Array.isArray(value) && value.every((item) => typeof item === 'string')
+  );
 };
 
 /**
@@ -36,11 +41,17 @@ export function validateSubscription(data: unknown): Subscription {
   const obj = data as Record<string, unknown>;
 
   if (!isNonEmptyString(obj.subscriptionId)) {
-    throw new ValidationError('subscriptionId must be a non-empty string', 'subscriptionId');
+    throw new ValidationError(
+      'subscriptionId must be a non-empty string',
+      'subscriptionId'
+    );
   }
 
   if (!isNonEmptyString(obj.displayName)) {
-    throw new ValidationError('displayName must be a non-empty string', 'displayName');
+    throw new ValidationError(
+      'displayName must be a non-empty string',
+      'displayName'
+    );
   }
 
   if (!isNonEmptyString(obj.state)) {
@@ -69,11 +80,17 @@ export function validatePublisher(data: unknown): Publisher {
   }
 
   if (!isNonEmptyString(obj.displayName)) {
-    throw new ValidationError('displayName must be a non-empty string', 'displayName');
+    throw new ValidationError(
+      'displayName must be a non-empty string',
+      'displayName'
+    );
   }
 
   if (!isNonEmptyString(obj.location)) {
-    throw new ValidationError('location must be a non-empty string', 'location');
+    throw new ValidationError(
+      'location must be a non-empty string',
+      'location'
+    );
   }
 
   return {
@@ -98,15 +115,24 @@ export function validateOffer(data: unknown): Offer {
   }
 
   if (!isNonEmptyString(obj.displayName)) {
-    throw new ValidationError('displayName must be a non-empty string', 'displayName');
+    throw new ValidationError(
+      'displayName must be a non-empty string',
+      'displayName'
+    );
   }
 
   if (!isNonEmptyString(obj.publisher)) {
-    throw new ValidationError('publisher must be a non-empty string', 'publisher');
+    throw new ValidationError(
+      'publisher must be a non-empty string',
+      'publisher'
+    );
   }
 
   if (!isNonEmptyString(obj.location)) {
-    throw new ValidationError('location must be a non-empty string', 'location');
+    throw new ValidationError(
+      'location must be a non-empty string',
+      'location'
+    );
   }
 
   return {
@@ -132,11 +158,17 @@ export function validateSKU(data: unknown): SKU {
   }
 
   if (!isNonEmptyString(obj.displayName)) {
-    throw new ValidationError('displayName must be a non-empty string', 'displayName');
+    throw new ValidationError(
+      'displayName must be a non-empty string',
+      'displayName'
+    );
   }
 
   if (!isNonEmptyString(obj.publisher)) {
-    throw new ValidationError('publisher must be a non-empty string', 'publisher');
+    throw new ValidationError(
+      'publisher must be a non-empty string',
+      'publisher'
+    );
   }
 
   if (!isNonEmptyString(obj.offer)) {
@@ -144,11 +176,17 @@ export function validateSKU(data: unknown): SKU {
   }
 
   if (!isNonEmptyString(obj.location)) {
-    throw new ValidationError('location must be a non-empty string', 'location');
+    throw new ValidationError(
+      'location must be a non-empty string',
+      'location'
+    );
   }
 
   if (!isStringArray(obj.versions)) {
-    throw new ValidationError('versions must be an array of strings', 'versions');
+    throw new ValidationError(
+      'versions must be an array of strings',
+      'versions'
+    );
   }
 
   return {
@@ -172,7 +210,10 @@ export function validateVMImageReference(data: unknown): VMImageReference {
   const obj = data as Record<string, unknown>;
 
   if (!isNonEmptyString(obj.publisher)) {
-    throw new ValidationError('publisher must be a non-empty string', 'publisher');
+    throw new ValidationError(
+      'publisher must be a non-empty string',
+      'publisher'
+    );
   }
 
   if (!isNonEmptyString(obj.offer)) {
@@ -210,7 +251,10 @@ export function validateIaCFormats(data: unknown): IaCFormats {
   }
 
   if (!isNonEmptyString(obj.terraform)) {
-    throw new ValidationError('terraform must be a non-empty string', 'terraform');
+    throw new ValidationError(
+      'terraform must be a non-empty string',
+      'terraform'
+    );
   }
 
   if (!isNonEmptyString(obj.bicep)) {
@@ -221,11 +265,35 @@ export function validateIaCFormats(data: unknown): IaCFormats {
     throw new ValidationError('ansible must be a non-empty string', 'ansible');
   }
 
+  if (!isNonEmptyString(obj.azureCli)) {
+    throw new ValidationError(
+      'azureCli must be a non-empty string',
+      'azureCli'
+    );
+  }
+
+  if (!isNonEmptyString(obj.azureCliPowerShell)) {
+    throw new ValidationError(
+      'azureCliPowerShell must be a non-empty string',
+      'azureCliPowerShell'
+    );
+  }
+
+  if (!isNonEmptyString(obj.powershell)) {
+    throw new ValidationError(
+      'powershell must be a non-empty string',
+      'powershell'
+    );
+  }
+
   return {
     arm: obj.arm,
     terraform: obj.terraform,
     bicep: obj.bicep,
     ansible: obj.ansible,
+    azureCli: obj.azureCli,
+    azureCliPowerShell: obj.azureCliPowerShell,
+    powershell: obj.powershell,
   };
 }
 
@@ -319,4 +387,4 @@ export function validateSKUs(data: unknown): SKU[] {
       throw error;
     }
   });
-}
\ No newline at end of file
+}
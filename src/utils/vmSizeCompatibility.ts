@@ -0,0 +1,110 @@
+import type {
+  ImageVersionDetails,
+  VMSize,
+  VMSizeCompatibility,
+  VMSizeRequirements,
+} from '../types';
+
+const GENERATION_LABELS: Record<string, string> = { V1: 'Gen1', V2: 'Gen2' };
+
+/**
+ * Map the ARM hyperVGeneration value to the familiar "Gen1/Gen2" label
+ */
+export const formatGeneration = (generation: string) =>
+  GENERATION_LABELS[generation] ?? generation;
+
+const hasType = (types: string[], type: string) =>
+  types.some((candidate) => candidate.toLowerCase() === type.toLowerCase());
+
+/**
+ * The features of an image version a VM size has to match. Images that do
+ * not publish a feature get the value every image had before it existed:
+ * Gen1, x64, SCSI only and no accelerated networking.
+ */
+export const getImageSizeFeatures = (details: ImageVersionDetails) => {
+  const feature = (name: string) =>
+    details.features.find((candidate) => candidate.name === name)?.value;
+  const diskControllerTypes = (feature('DiskControllerTypes') ?? '')
+    .split(',')
+    .map((type) => type.trim())
+    .filter(Boolean);
+
+  return {
+    hyperVGeneration: details.hyperVGeneration || 'V1',
+    architecture: details.architecture || 'x64',
+    acceleratedNetworking:
+      feature('IsAcceleratedNetworkSupported')?.toLowerCase() === 'true',
+    diskControllerTypes:
+      diskControllerTypes.length > 0 ? diskControllerTypes : ['SCSI'],
+  };
+};
+
+/**
+ * Whether an image version can run on a VM size, with the reason for every
+ * mismatch
+ */
+export const checkVMSizeCompatibility = (
+  size: VMSize,
+  details: ImageVersionDetails,
+  requirements: VMSizeRequirements = {}
+): VMSizeCompatibility => {
+  const image = getImageSizeFeatures(details);
+  const reasons: string[] = [];
+
+  if (size.restricted) {
+    reasons.push('Not available to the subscription in this location');
+  }
+  if (!hasType(size.hyperVGenerations, image.hyperVGeneration)) {
+    reasons.push(
+      `Does not support ${formatGeneration(image.hyperVGeneration)} images (supports ${size.hyperVGenerations.map(formatGeneration).join(', ')})`
+    );
+  }
+  if (size.architecture.toLowerCase() !== image.architecture.toLowerCase()) {
+    reasons.push(
+      `${size.architecture} size, the image is built for ${image.architecture}`
+    );
+  }
+  if (
+    !size.diskControllerTypes.some((type) =>
+      hasType(image.diskControllerTypes, type)
+    )
+  ) {
+    reasons.push(
+      `Requires the ${size.diskControllerTypes.join(' or ')} disk controller, which the image does not support`
+    );
+  }
+  if (requirements.requireAcceleratedNetworking) {
+    if (!image.acceleratedNetworking) {
+      reasons.push('The image does not support accelerated networking');
+    } else if (!size.acceleratedNetworking) {
+      reasons.push('No accelerated networking');
+    }
+  }
+  if (requirements.requireNvme) {
+    if (!hasType(image.diskControllerTypes, 'NVMe')) {
+      reasons.push('The image does not support the NVMe disk controller');
+    } else if (!hasType(size.diskControllerTypes, 'NVMe')) {
+      reasons.push('No NVMe disk controller');
+    }
+  }
+
+  return { size, compatible: reasons.length === 0, reasons };
+};
+
+/**
+ * Check every size against an image version, compatible sizes first and
+ * each group in the order given
+ */
+export const matchVMSizes = (
+  sizes: VMSize[],
+  details: ImageVersionDetails,
+  requirements: VMSizeRequirements = {}
+): VMSizeCompatibility[] => {
+  const results = sizes.map((size) =>
+    checkVMSizeCompatibility(size, details, requirements)
+  );
+  return [
+    ...results.filter((result) => result.compatible),
+    ...results.filter((result) => !result.compatible),
+  ];
+};